@@ -62,6 +62,7 @@ module.exports = [
         IntersectionObserver: 'readonly',
         AbortController: 'readonly',
         AbortSignal: 'readonly',
+        EventSource: 'readonly',
 
         // Timer functions
         setTimeout: 'readonly',
@@ -168,6 +169,7 @@ module.exports = [
         exports: 'readonly',
         AbortController: 'readonly',
         AbortSignal: 'readonly',
+        EventSource: 'readonly',
         Infinity: 'readonly',
       },
     },
@@ -4,6 +4,11 @@ import { LastFmPeriodType } from '../../shared/types';
 import { AuthService } from '../services/authService';
 import { DiscogsService } from '../services/discogsService';
 import { LastFmService } from '../services/lastfmService';
+import {
+  ListenBrainzApiError,
+  ListenBrainzService,
+} from '../services/listenbrainzService';
+import { DEFAULT_PROFILE_ID } from '../services/profileService';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
@@ -18,7 +23,9 @@ export function createAuthRouter(
   fileStorage: FileStorage,
   authService: AuthService,
   discogsService: DiscogsService,
-  lastfmService: LastFmService
+  lastfmService: LastFmService,
+  listenBrainzService?: ListenBrainzService,
+  profileId: string = DEFAULT_PROFILE_ID
 ): express.Router {
   const router = express.Router();
 
@@ -40,6 +47,11 @@ export function createAuthRouter(
             ),
             username: settings.lastfm.username,
           },
+          listenbrainz: {
+            authenticated: !!settings.listenbrainz?.token,
+            username: settings.listenbrainz?.username,
+            enabled: settings.listenbrainz?.enabled ?? true,
+          },
         },
       });
     } catch (error) {
@@ -53,7 +65,7 @@ export function createAuthRouter(
   // Discogs OAuth authentication - Get auth URL
   router.get('/discogs/auth-url', async (req: Request, res: Response) => {
     try {
-      const authUrl = await discogsService.getAuthUrl();
+      const authUrl = await discogsService.getAuthUrl(profileId);
 
       res.json({
         success: true,
@@ -194,7 +206,7 @@ export function createAuthRouter(
       settings.lastfm.apiKey = finalApiKey;
       await authService.saveUserSettings(settings);
 
-      const authUrl = await lastfmService.getAuthUrl();
+      const authUrl = await lastfmService.getAuthUrl(profileId);
 
       res.json({
         success: true,
@@ -320,6 +332,83 @@ export function createAuthRouter(
     }
   });
 
+  // Connect ListenBrainz with a user token (validated before it's saved)
+  router.post('/listenbrainz/token', async (req: Request, res: Response) => {
+    const { token } = req.body ?? {};
+    if (!token || typeof token !== 'string' || !token.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Token is required',
+      });
+    }
+    if (!listenBrainzService) {
+      return res.status(503).json({
+        success: false,
+        error: 'ListenBrainz is not available',
+      });
+    }
+
+    try {
+      const username = await listenBrainzService.connect(token.trim());
+      res.json({
+        success: true,
+        data: { message: 'ListenBrainz connected', username },
+      });
+    } catch (error) {
+      const status =
+        error instanceof ListenBrainzApiError && error.status === 401
+          ? 400
+          : 500;
+      res.status(status).json({
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to connect ListenBrainz',
+      });
+    }
+  });
+
+  // Turn ListenBrainz submission on or off, keeping the token
+  router.patch('/listenbrainz', async (req: Request, res: Response) => {
+    const { enabled } = req.body ?? {};
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'enabled must be a boolean',
+      });
+    }
+
+    try {
+      await authService.setListenBrainzEnabled(enabled);
+      res.json({ success: true, data: { enabled } });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to update ListenBrainz settings',
+      });
+    }
+  });
+
+  // Disconnect ListenBrainz
+  router.delete('/listenbrainz', async (req: Request, res: Response) => {
+    try {
+      await authService.clearListenBrainzToken();
+      res.json({
+        success: true,
+        data: { message: 'ListenBrainz disconnected' },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   // Session key debug endpoint REMOVED for security
   // This endpoint exposed authentication status and was unnecessary
   // Use /auth/status endpoint instead to check authentication state
@@ -1,18 +1,39 @@
 import express, { Request, Response } from 'express';
 
-import { CachedCollectionData, CollectionItem } from '../../shared/types';
+import {
+  CachedCollectionData,
+  CollectionChangeType,
+  CollectionEdit,
+  CollectionItem,
+} from '../../shared/types';
 import { AuthService } from '../services/authService';
+import { CollectionChangeService } from '../services/collectionChangeService';
+import {
+  CollectionEditError,
+  CollectionEditService,
+} from '../services/collectionEditService';
 import { DiscogsService } from '../services/discogsService';
-import { jobStatusService } from '../services/jobStatusService';
+import { JobService } from '../services/jobService';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 import { validateUsername } from '../utils/validation';
 
+const CHANGE_TYPES: CollectionChangeType[] = [
+  'added',
+  'removed',
+  'rating',
+  'notes',
+  'folder',
+];
+
 // Create router factory function for dependency injection
 export default function createCollectionRouter(
   fileStorage: FileStorage,
   authService: AuthService,
-  discogsService: DiscogsService
+  discogsService: DiscogsService,
+  collectionChangeService: CollectionChangeService,
+  jobService: JobService,
+  collectionEditService?: CollectionEditService
 ) {
   const router = express.Router();
   const logger = createLogger('CollectionRoutes');
@@ -109,25 +130,18 @@ export default function createCollectionRouter(
               `First page expired, starting background refresh for ${username}`
             );
             // Start background preloading without waiting for it
-            const jobId = jobStatusService.startJob(
+            jobService.runJob(
               'collection-refresh',
-              'Refreshing collection cache...'
-            );
-            discogsService
-              .preloadAllCollectionPages(username, forceReload)
-              .then(() =>
-                jobStatusService.completeJob(
-                  jobId,
-                  'Collection cache refreshed'
-                )
-              )
-              .catch(error => {
-                logger.error('Background refresh failed', error);
-                jobStatusService.failJob(
-                  jobId,
-                  'Collection cache refresh failed'
+              'Refreshing collection cache...',
+              async () => {
+                await discogsService.preloadAllCollectionPages(
+                  username,
+                  forceReload
                 );
-              });
+                return 'Collection cache refreshed';
+              },
+              { failureMessage: 'Collection cache refresh failed' }
+            );
           }
           // Still include expired cache data for now, but mark it as expired
           allItems.push(...cached.data);
@@ -168,25 +182,18 @@ export default function createCollectionRouter(
         logger.info(
           `No cache data found for ${username}, starting background refresh`
         );
-        const jobId = jobStatusService.startJob(
+        jobService.runJob(
           'collection-refresh',
-          'Fetching collection from Discogs...'
-        );
-        discogsService
-          .preloadAllCollectionPages(username, forceReload)
-          .then(() =>
-            jobStatusService.completeJob(
-              jobId,
-              'Collection loaded from Discogs'
-            )
-          )
-          .catch(error => {
-            logger.error('Background refresh failed', error);
-            jobStatusService.failJob(
-              jobId,
-              'Failed to fetch collection from Discogs'
+          'Fetching collection from Discogs...',
+          async () => {
+            await discogsService.preloadAllCollectionPages(
+              username,
+              forceReload
             );
-          });
+            return 'Collection loaded from Discogs';
+          },
+          { failureMessage: 'Failed to fetch collection from Discogs' }
+        );
 
         return res.json({
           success: true,
@@ -345,17 +352,15 @@ export default function createCollectionRouter(
       }
 
       // Start preloading in background (don't await)
-      const jobId = jobStatusService.startJob(
+      jobService.runJob(
         'collection-preload',
-        'Preloading collection...'
+        'Preloading collection...',
+        async () => {
+          await discogsService.preloadAllCollectionPages(username);
+          return 'Collection preloaded';
+        },
+        { failureMessage: 'Collection preload failed' }
       );
-      discogsService
-        .preloadAllCollectionPages(username)
-        .then(() => jobStatusService.completeJob(jobId, 'Collection preloaded'))
-        .catch(error => {
-          logger.error('Background preload failed', error);
-          jobStatusService.failJob(jobId, 'Collection preload failed');
-        });
 
       res.json({
         success: true,
@@ -455,6 +460,277 @@ export default function createCollectionRouter(
     }
   });
 
+  // Get the user's collection folders (?refresh=true bypasses the cache)
+  router.get('/:username/folders', async (req: Request, res: Response) => {
+    try {
+      const { username } = req.params;
+
+      // Validate username to prevent path traversal
+      if (!validateUsername(username)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid username format',
+        });
+      }
+
+      const folders = await discogsService.getCollectionFolders(
+        username,
+        req.query.refresh === 'true'
+      );
+
+      res.json({
+        success: true,
+        data: folders,
+      });
+    } catch (error) {
+      logger.error('Error getting collection folders', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Get the user's custom note field definitions
+  router.get('/:username/fields', async (req: Request, res: Response) => {
+    try {
+      const { username } = req.params;
+
+      // Validate username to prevent path traversal
+      if (!validateUsername(username)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid username format',
+        });
+      }
+
+      const fields = await discogsService.getCollectionFields(
+        username,
+        req.query.refresh === 'true'
+      );
+
+      res.json({
+        success: true,
+        data: fields,
+      });
+    } catch (error) {
+      logger.error('Error getting collection fields', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Get one cached collection instance (rating, folder and notes)
+  router.get(
+    '/:username/instances/:instanceId',
+    async (req: Request, res: Response) => {
+      const { username } = req.params;
+      const instanceId = Number(req.params.instanceId);
+
+      if (!validateUsername(username)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid username format',
+        });
+      }
+      if (!Number.isInteger(instanceId) || instanceId <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid instance ID',
+        });
+      }
+      if (!collectionEditService) {
+        return res.status(503).json({
+          success: false,
+          error: 'Collection editing is not available',
+        });
+      }
+
+      try {
+        const item = await collectionEditService.getInstance(
+          username,
+          instanceId
+        );
+        if (!item) {
+          return res.status(404).json({
+            success: false,
+            error: 'This record is not in the collection cache',
+          });
+        }
+        res.json({ success: true, data: item });
+      } catch (error) {
+        logger.error(`Error getting collection instance ${instanceId}`, error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // Apply an edit to a collection instance and write it back to Discogs
+  const handleEdit = async (
+    req: Request,
+    res: Response,
+    edit: CollectionEdit
+  ) => {
+    const { username } = req.params;
+    const instanceId = Number(req.params.instanceId);
+
+    if (!validateUsername(username)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid username format',
+      });
+    }
+    if (!Number.isInteger(instanceId) || instanceId <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid instance ID',
+      });
+    }
+    if (!collectionEditService) {
+      return res.status(503).json({
+        success: false,
+        error: 'Collection editing is not available',
+      });
+    }
+
+    try {
+      const item = await collectionEditService.editInstance(
+        username,
+        instanceId,
+        edit
+      );
+      res.json({ success: true, data: item });
+    } catch (error) {
+      logger.error(`Error updating collection instance ${instanceId}`, error);
+      res
+        .status(error instanceof CollectionEditError ? error.status : 500)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Failed to update collection',
+          ...(error instanceof CollectionEditError && error.live
+            ? { data: error.live }
+            : {}),
+        });
+    }
+  };
+
+  // Set the rating (0 clears it)
+  router.put(
+    '/:username/instances/:instanceId/rating',
+    async (req: Request, res: Response) => {
+      const { rating, expected } = req.body ?? {};
+      if (!Number.isInteger(rating) || rating < 0 || rating > 5) {
+        return res.status(400).json({
+          success: false,
+          error: 'Rating must be a whole number from 0 to 5',
+        });
+      }
+      await handleEdit(req, res, {
+        type: 'rating',
+        rating,
+        expected: typeof expected === 'number' ? expected : undefined,
+      });
+    }
+  );
+
+  // Set the value of a custom note field ('' clears it)
+  router.put(
+    '/:username/instances/:instanceId/fields/:fieldId',
+    async (req: Request, res: Response) => {
+      const fieldId = Number(req.params.fieldId);
+      const { value, expected } = req.body ?? {};
+      if (!Number.isInteger(fieldId) || fieldId <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid field ID',
+        });
+      }
+      if (typeof value !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'Field value must be a string',
+        });
+      }
+      await handleEdit(req, res, {
+        type: 'field',
+        fieldId,
+        value,
+        expected: typeof expected === 'string' ? expected : undefined,
+      });
+    }
+  );
+
+  // Move to another folder
+  router.put(
+    '/:username/instances/:instanceId/folder',
+    async (req: Request, res: Response) => {
+      const { folderId, expected } = req.body ?? {};
+      if (!Number.isInteger(folderId) || folderId <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid folder ID',
+        });
+      }
+      await handleEdit(req, res, {
+        type: 'folder',
+        folderId,
+        expected: typeof expected === 'number' ? expected : undefined,
+      });
+    }
+  );
+
+  // Remove an instance from the Discogs collection
+  router.delete(
+    '/:username/instances/:instanceId',
+    async (req: Request, res: Response) => {
+      const { username } = req.params;
+      const instanceId = Number(req.params.instanceId);
+
+      if (!validateUsername(username)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid username format',
+        });
+      }
+      if (!Number.isInteger(instanceId) || instanceId <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid instance ID',
+        });
+      }
+      if (!collectionEditService) {
+        return res.status(503).json({
+          success: false,
+          error: 'Collection editing is not available',
+        });
+      }
+
+      try {
+        await collectionEditService.removeInstance(username, instanceId);
+        res.json({ success: true });
+      } catch (error) {
+        logger.error(`Error removing collection instance ${instanceId}`, error);
+        res
+          .status(error instanceof CollectionEditError ? error.status : 500)
+          .json({
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Failed to remove from collection',
+          });
+      }
+    }
+  );
+
   // Check for new items since last cache update
   router.get('/:username/check-new', async (req: Request, res: Response) => {
     try {
@@ -526,5 +802,52 @@ export default function createCollectionRouter(
     }
   });
 
+  // Collection change log (adds, removals and edits), newest first
+  router.get('/:username/changes', async (req: Request, res: Response) => {
+    try {
+      const { username } = req.params;
+
+      // Validate username to prevent path traversal
+      if (!validateUsername(username)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid username format',
+        });
+      }
+
+      const type = req.query.type as string | undefined;
+      if (type && !CHANGE_TYPES.includes(type as CollectionChangeType)) {
+        return res.status(400).json({
+          success: false,
+          error: `type must be one of: ${CHANGE_TYPES.join(', ')}`,
+        });
+      }
+
+      const limit = Math.min(
+        Math.max(parseInt(req.query.limit as string) || 50, 1),
+        200
+      );
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const result = await collectionChangeService.getChanges(username, {
+        type: type as CollectionChangeType | undefined,
+        limit,
+        offset,
+      });
+
+      res.json({
+        success: true,
+        data: result.changes,
+        total: result.total,
+      });
+    } catch (error) {
+      logger.error('Error getting collection changes', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   return router;
 }
@@ -1,7 +1,7 @@
 import express, { Request, Response } from 'express';
 
 import { DiscardPileService } from '../services/discardPileService';
-import { jobStatusService } from '../services/jobStatusService';
+import { JobService } from '../services/jobService';
 import { WishlistService } from '../services/wishlistService';
 import { createLogger } from '../utils/logger';
 import { validateIdentifier, validateNumericId } from '../utils/validation';
@@ -14,7 +14,8 @@ import { validateIdentifier, validateNumericId } from '../utils/validation';
  */
 export default function createDiscardPileRouter(
   discardPileService: DiscardPileService,
-  wishlistService: WishlistService
+  wishlistService: WishlistService,
+  jobService: JobService
 ) {
   const router = express.Router();
   const logger = createLogger('DiscardPileRoutes');
@@ -376,44 +377,43 @@ export default function createDiscardPileRouter(
         });
       }
 
-      const jobId = jobStatusService.startJob(
-        'refresh-values',
-        `Refreshing marketplace values for ${eligible.length} items...`
-      );
-
-      res.json({ success: true, jobId });
-
       // Process in background sequentially (respects Discogs rate limits)
-      let updated = 0;
-      for (const item of eligible) {
-        try {
-          const stats = await wishlistService.getMarketplaceStats(
-            item.releaseId
-          );
-          if (stats) {
-            const autoValue =
-              stats.priceSuggestions?.veryGoodPlus?.value ??
-              stats.medianPrice ??
-              stats.lowestPrice;
-            if (autoValue != null) {
-              await discardPileService.updateDiscardPileItem(item.id, {
-                estimatedValue: parseFloat(autoValue.toFixed(2)),
-              });
-              updated++;
+      const jobId = jobService.runJob(
+        'refresh-values',
+        `Refreshing marketplace values for ${eligible.length} items...`,
+        async job => {
+          let updated = 0;
+          for (const [index, item] of eligible.entries()) {
+            if (job.isCancelled()) break;
+            job.progress((index / eligible.length) * 100);
+            try {
+              const stats = await wishlistService.getMarketplaceStats(
+                item.releaseId
+              );
+              if (stats) {
+                const autoValue =
+                  stats.priceSuggestions?.veryGoodPlus?.value ??
+                  stats.medianPrice ??
+                  stats.lowestPrice;
+                if (autoValue != null) {
+                  await discardPileService.updateDiscardPileItem(item.id, {
+                    estimatedValue: parseFloat(autoValue.toFixed(2)),
+                  });
+                  updated++;
+                }
+              }
+            } catch (err) {
+              logger.warn(
+                `Failed to refresh value for ${item.artist} - ${item.title}`,
+                err
+              );
             }
           }
-        } catch (err) {
-          logger.warn(
-            `Failed to refresh value for ${item.artist} - ${item.title}`,
-            err
-          );
+          return `Updated marketplace values for ${updated} of ${eligible.length} items`;
         }
-      }
-
-      jobStatusService.completeJob(
-        jobId,
-        `Updated marketplace values for ${updated} of ${eligible.length} items`
       );
+
+      res.json({ success: true, jobId });
     } catch (error) {
       logger.error('Error refreshing marketplace values', error);
       res.status(500).json({
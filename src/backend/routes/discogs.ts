@@ -0,0 +1,26 @@
+import express from 'express';
+
+import { sendError, sendSuccess } from '../utils/apiResponse';
+import { getDiscogsBudget } from '../utils/discogsAxios';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Routes for the shared Discogs API client.
+ */
+export default function createDiscogsRouter(): express.Router {
+  const router = express.Router();
+  const logger = createLogger('DiscogsRoutes');
+
+  // GET /api/v1/discogs/budget — rate-limit budget, queue depth and cache
+  // counters shared by every scanner
+  router.get('/budget', (_req, res) => {
+    try {
+      sendSuccess(res, getDiscogsBudget());
+    } catch (error) {
+      logger.error('Error getting Discogs budget', error);
+      sendError(res, 500, 'Failed to load Discogs budget');
+    }
+  });
+
+  return router;
+}
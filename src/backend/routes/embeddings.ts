@@ -20,6 +20,8 @@ import {
 import { DiscogsGenreEnricherService } from '../services/discogsGenreEnricherService';
 import { DiscogsService } from '../services/discogsService';
 import { EmbeddingStorageService } from '../services/embeddingStorageService';
+import { EventStreamService } from '../services/eventStreamService';
+import { JobService } from '../services/jobService';
 import { MusicBrainzGenreEnricherService } from '../services/musicbrainzGenreEnricherService';
 import { ProfileBuilderService } from '../services/profileBuilderService';
 import { sendError, sendSuccess } from '../utils/apiResponse';
@@ -29,12 +31,6 @@ import { createLogger } from '../utils/logger';
 
 const log = createLogger('EmbeddingsRoute');
 
-/**
- * In-memory rebuild progress state.
- * Exposed to /status so the frontend can poll progress.
- */
-let currentRebuildProgress: IndexProgress | null = null;
-
 /**
  * Create the embeddings router with injected dependencies.
  */
@@ -45,11 +41,20 @@ export function createEmbeddingsRouter(
   discogsService: DiscogsService,
   authService: AuthService,
   fileStorage: FileStorage,
+  jobService: JobService,
+  eventStreamService: EventStreamService,
   discogsGenreEnricherService?: DiscogsGenreEnricherService,
   musicBrainzGenreEnricherService?: MusicBrainzGenreEnricherService
 ): express.Router {
   const router = express.Router();
 
+  /**
+   * In-memory rebuild progress state.
+   * Exposed to /status for polling and pushed over the event stream.
+   */
+  let currentRebuildProgress: IndexProgress | null = null;
+  let rebuildJobId: string | null = null;
+
   /**
    * POST /api/v1/embeddings/rebuild
    * Start a full collection embedding rebuild in the background.
@@ -91,118 +96,149 @@ export function createEmbeddingsRouter(
       // Respond immediately — rebuild runs in background
       sendSuccess(res, { status: 'started' });
 
-      // Background rebuild
-      (async () => {
-        try {
-          // Phase 1: Enrich releases with Discogs genres/styles
-          if (discogsGenreEnricherService) {
-            log.info('Phase 1: Starting Discogs genre enrichment');
-            currentRebuildProgress = {
-              current: 0,
-              total: allItems.length,
-              phase: 'Enriching Discogs genres',
-            };
-            const releases = allItems.map(item => item.release);
-            const enrichResult = await discogsGenreEnricherService.enrichBatch(
-              releases,
-              (current, total) => {
-                currentRebuildProgress = {
-                  current,
-                  total,
-                  phase: `Enriching Discogs genres ${current}/${total}`,
-                };
-              }
-            );
-            log.info(
-              'Phase 1 complete: Discogs genre enrichment',
-              enrichResult
+      // Background rebuild, reported through the shared job list
+      rebuildJobId = jobService.runJob(
+        'embedding-rebuild',
+        `Rebuilding embeddings for ${allItems.length} records...`,
+        async job => {
+          const setProgress = (progress: IndexProgress) => {
+            currentRebuildProgress = progress;
+            eventStreamService.publish(
+              { type: 'embedding-progress', progress: { ...progress } },
+              'embedding-progress'
             );
-          } else {
-            log.warn(
-              'Phase 1 SKIPPED: discogsGenreEnricherService not provided'
+            job.progress(
+              progress.total > 0
+                ? (progress.current / progress.total) * 100
+                : undefined,
+              progress.phase
             );
-          }
+          };
 
-          // Phase 2: Pre-warm MusicBrainz genre cache for all artists
-          if (musicBrainzGenreEnricherService) {
-            log.info(
-              `Phase 2: Starting MusicBrainz genre enrichment for ${collectionArtists.length} artists`
-            );
-            currentRebuildProgress = {
-              current: 0,
-              total: collectionArtists.length,
-              phase: 'Fetching MusicBrainz genres',
-            };
-            await musicBrainzGenreEnricherService.enrichBatch(
-              collectionArtists,
-              (current, total) => {
-                currentRebuildProgress = {
-                  current,
-                  total,
-                  phase: `Fetching MusicBrainz genres ${current}/${total}`,
-                };
-              }
-            );
-            log.info('Phase 2 complete: MusicBrainz genre enrichment');
-          } else {
-            log.warn(
-              'Phase 2 SKIPPED: musicBrainzGenreEnricherService not provided'
-            );
-          }
+          try {
+            // Phase 1: Enrich releases with Discogs genres/styles
+            if (discogsGenreEnricherService) {
+              log.info('Phase 1: Starting Discogs genre enrichment');
+              setProgress({
+                current: 0,
+                total: allItems.length,
+                phase: 'Enriching Discogs genres',
+              });
+              const releases = allItems.map(item => item.release);
+              const enrichResult =
+                await discogsGenreEnricherService.enrichBatch(
+                  releases,
+                  (current, total) => {
+                    setProgress({
+                      current,
+                      total,
+                      phase: `Enriching Discogs genres ${current}/${total}`,
+                    });
+                  }
+                );
+              log.info(
+                'Phase 1 complete: Discogs genre enrichment',
+                enrichResult
+              );
+            } else {
+              log.warn(
+                'Phase 1 SKIPPED: discogsGenreEnricherService not provided'
+              );
+            }
 
-          currentRebuildProgress = {
-            current: 0,
-            total: allItems.length,
-            phase: 'Building profiles',
-          };
+            if (job.isCancelled()) return;
+
+            // Phase 2: Pre-warm MusicBrainz genre cache for all artists
+            if (musicBrainzGenreEnricherService) {
+              log.info(
+                `Phase 2: Starting MusicBrainz genre enrichment for ${collectionArtists.length} artists`
+              );
+              setProgress({
+                current: 0,
+                total: collectionArtists.length,
+                phase: 'Fetching MusicBrainz genres',
+              });
+              await musicBrainzGenreEnricherService.enrichBatch(
+                collectionArtists,
+                (current, total) => {
+                  setProgress({
+                    current,
+                    total,
+                    phase: `Fetching MusicBrainz genres ${current}/${total}`,
+                  });
+                }
+              );
+              log.info('Phase 2 complete: MusicBrainz genre enrichment');
+            } else {
+              log.warn(
+                'Phase 2 SKIPPED: musicBrainzGenreEnricherService not provided'
+              );
+            }
+
+            if (job.isCancelled()) return;
 
-          // Build text profiles for all records
-          const records: Array<{
-            release: (typeof allItems)[0]['release'];
-            textProfile: string;
-          }> = [];
-          for (let i = 0; i < allItems.length; i++) {
-            const item = allItems[i];
-            currentRebuildProgress = {
-              current: i,
+            setProgress({
+              current: 0,
               total: allItems.length,
-              phase: `Building profile ${i + 1}/${allItems.length}: ${item.release.artist} - ${item.release.title}`,
-            };
-            try {
-              const textProfile =
-                await profileBuilderService.buildRecordProfile(
-                  item.release,
-                  collectionArtists
-                );
-              records.push({ release: item.release, textProfile });
-            } catch (err) {
-              log.warn('Failed to build profile for record', {
-                releaseId: item.release.id,
-                err,
+              phase: 'Building profiles',
+            });
+
+            // Build text profiles for all records
+            const records: Array<{
+              release: (typeof allItems)[0]['release'];
+              textProfile: string;
+            }> = [];
+            for (let i = 0; i < allItems.length; i++) {
+              if (job.isCancelled()) return;
+              const item = allItems[i];
+              setProgress({
+                current: i,
+                total: allItems.length,
+                phase: `Building profile ${i + 1}/${allItems.length}: ${item.release.artist} - ${item.release.title}`,
               });
+              try {
+                const textProfile =
+                  await profileBuilderService.buildRecordProfile(
+                    item.release,
+                    collectionArtists
+                  );
+                records.push({ release: item.release, textProfile });
+              } catch (err) {
+                log.warn('Failed to build profile for record', {
+                  releaseId: item.release.id,
+                  err,
+                });
+              }
             }
-          }
 
-          log.info(`Phase 3 complete: Built ${records.length} profiles`);
-          if (records.length > 0) {
-            const sample = records[0];
-            log.info(
-              `Sample profile (${sample.release.artist} - ${sample.release.title}):\n${sample.textProfile}`
-            );
-          }
+            log.info(`Phase 3 complete: Built ${records.length} profiles`);
+            if (records.length > 0) {
+              const sample = records[0];
+              log.info(
+                `Sample profile (${sample.release.artist} - ${sample.release.title}):\n${sample.textProfile}`
+              );
+            }
 
-          // Embed all records
-          await collectionIndexerService.rebuildAll(records, progress => {
-            currentRebuildProgress = progress;
-          });
+            if (job.isCancelled()) return;
 
-          log.info('Background rebuild complete');
-          currentRebuildProgress = null;
-        } catch (err) {
-          log.error('Background rebuild failed', err);
-          currentRebuildProgress = null;
+            // Embed all records
+            await collectionIndexerService.rebuildAll(records, setProgress);
+
+            log.info('Background rebuild complete');
+            return 'Collection embeddings rebuilt';
+          } finally {
+            currentRebuildProgress = null;
+            eventStreamService.publishNow(
+              { type: 'embedding-progress', progress: null },
+              'embedding-progress'
+            );
+          }
+        },
+        {
+          failureMessage: 'Embedding rebuild failed',
+          onCancel: () => collectionIndexerService.cancelRebuild(),
         }
-      })();
+      );
     } catch (err) {
       log.error('Error starting rebuild', err);
       sendError(
@@ -308,8 +344,12 @@ export function createEmbeddingsRouter(
    * POST /api/v1/embeddings/cancel
    * Request cancellation of an in-progress rebuild.
    */
-  router.post('/cancel', (_req: Request, res: Response) => {
-    if (!collectionIndexerService.isRebuilding()) {
+  router.post('/cancel', async (_req: Request, res: Response) => {
+    // The job covers the enrichment phases too, not just the indexer run
+    const cancelled = rebuildJobId
+      ? await jobService.cancelJob(rebuildJobId)
+      : false;
+    if (!cancelled && !collectionIndexerService.isRebuilding()) {
       return sendError(res, 400, 'No rebuild is currently running');
     }
     collectionIndexerService.cancelRebuild();
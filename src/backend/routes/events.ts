@@ -0,0 +1,54 @@
+import express, { Request, Response } from 'express';
+
+import { EventStreamService } from '../services/eventStreamService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('EventsRoutes');
+
+// Comment line sent periodically so proxies and the browser keep the
+// connection open while nothing is happening
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long the browser waits before reconnecting after a drop
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Create the Server-Sent Events route with dependency injection.
+ */
+export default function createEventsRouter(
+  eventStreamService: EventStreamService
+): express.Router {
+  const router = express.Router();
+
+  /**
+   * GET /api/v1/events
+   * Opens an SSE stream. Each message's data is a JSON ServerEvent.
+   */
+  router.get('/', (req: Request, res: Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const unsubscribe = eventStreamService.subscribe(event => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    logger.debug(
+      `Event stream client connected (${eventStreamService.getSubscriberCount()} total)`
+    );
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.debug('Event stream client disconnected');
+    });
+  });
+
+  return router;
+}
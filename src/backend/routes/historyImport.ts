@@ -0,0 +1,70 @@
+import express from 'express';
+
+import { HistoryImportFormat } from '../../shared/types';
+import {
+  HistoryImportError,
+  HistoryImportService,
+} from '../services/historyImportService';
+import { sendError, sendSuccess } from '../utils/apiResponse';
+import { HistoryExportParseError } from '../utils/historyExportParser';
+import { createLogger } from '../utils/logger';
+
+const FORMATS: HistoryImportFormat[] = [
+  'lastfm-csv',
+  'lastfm-json',
+  'listenbrainz',
+];
+
+// Full-history exports run to tens of megabytes, well past the global
+// 1mb body limit, so the file is posted as raw text with its own limit
+const MAX_EXPORT_SIZE = '200mb';
+
+export default function createHistoryImportRouter(
+  historyImportService: HistoryImportService
+) {
+  const router = express.Router();
+  const logger = createLogger('HistoryImportRoutes');
+
+  const exportBody = express.text({
+    type: ['text/*', 'application/octet-stream'],
+    limit: MAX_EXPORT_SIZE,
+  });
+
+  // POST /api/v1/history-import/preview?format= — parse an export file and
+  // report what importing it would add. The format is detected when omitted.
+  router.post('/preview', exportBody, async (req, res) => {
+    const format = req.query.format as HistoryImportFormat | undefined;
+    if (format !== undefined && !FORMATS.includes(format)) {
+      return sendError(res, 400, `format must be one of ${FORMATS.join(', ')}`);
+    }
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return sendError(res, 400, 'Export file content is required');
+    }
+
+    try {
+      sendSuccess(res, await historyImportService.preview(req.body, format));
+    } catch (error) {
+      if (error instanceof HistoryExportParseError) {
+        return sendError(res, 400, error.message);
+      }
+      logger.error('Error previewing history import', error);
+      sendError(res, 500, 'Failed to read export file');
+    }
+  });
+
+  // POST /api/v1/history-import/:importId/apply — merge a previewed import
+  // into the scrobble history index
+  router.post('/:importId/apply', async (req, res) => {
+    try {
+      sendSuccess(res, await historyImportService.apply(req.params.importId));
+    } catch (error) {
+      if (error instanceof HistoryImportError) {
+        return sendError(res, error.status, error.message);
+      }
+      logger.error('Error applying history import', error);
+      sendError(res, 500, 'Failed to import listening history');
+    }
+  });
+
+  return router;
+}
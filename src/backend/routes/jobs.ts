@@ -1,16 +1,80 @@
 import express, { Request, Response } from 'express';
 
-import { jobStatusService } from '../services/jobStatusService';
+import { JobService } from '../services/jobService';
+import { sendError, sendSuccess } from '../utils/apiResponse';
 
-const router = express.Router();
+const MAX_HISTORY_LIMIT = 200;
 
 /**
- * GET /api/v1/jobs
- * Returns all recent jobs (running + completed/failed in last 5 minutes)
+ * Create the job routes for a profile's job service.
  */
-router.get('/', (_req: Request, res: Response) => {
-  const jobs = jobStatusService.getRecentJobs();
-  res.json({ success: true, data: jobs });
-});
+export default function createJobsRouter(
+  jobService: JobService
+): express.Router {
+  const router = express.Router();
 
-export default router;
+  /**
+   * GET /api/v1/jobs
+   * Returns active jobs plus those that finished in the last 5 minutes
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    sendSuccess(res, jobService.getRecentJobs());
+  });
+
+  /**
+   * GET /api/v1/jobs/history?type=seller-scan&limit=50
+   * Returns persisted job history, most recent first
+   */
+  router.get('/history', (req: Request, res: Response) => {
+    const type =
+      typeof req.query.type === 'string' ? req.query.type : undefined;
+    const limit = req.query.limit
+      ? parseInt(req.query.limit as string, 10)
+      : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      return sendError(res, 400, 'limit must be a positive number');
+    }
+
+    sendSuccess(
+      res,
+      jobService.getHistory({
+        type,
+        limit: limit && Math.min(limit, MAX_HISTORY_LIMIT),
+      })
+    );
+  });
+
+  /**
+   * GET /api/v1/jobs/:id
+   * Returns a single job
+   */
+  router.get('/:id', (req: Request, res: Response) => {
+    const job = jobService.getJob(req.params.id);
+    if (!job) {
+      return sendError(res, 404, 'Job not found');
+    }
+    sendSuccess(res, job);
+  });
+
+  /**
+   * POST /api/v1/jobs/:id/cancel
+   * Cancels a queued job or asks a running one to stop
+   */
+  router.post('/:id/cancel', async (req: Request, res: Response) => {
+    const job = jobService.getJob(req.params.id);
+    if (!job) {
+      return sendError(res, 404, 'Job not found');
+    }
+    if (!job.cancellable) {
+      return sendError(res, 400, 'This job cannot be cancelled');
+    }
+
+    const cancelled = await jobService.cancelJob(job.id);
+    if (!cancelled) {
+      return sendError(res, 409, 'Job has already finished');
+    }
+    sendSuccess(res, jobService.getJob(job.id));
+  });
+
+  return router;
+}
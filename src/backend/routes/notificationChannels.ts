@@ -0,0 +1,314 @@
+import express from 'express';
+
+import {
+  NotificationCategory,
+  NotificationChannelInput,
+  NotificationChannelRoute,
+} from '../../shared/types';
+import { NotificationChannelService } from '../services/notificationChannelService';
+import { DEFAULT_NOTIFICATION_RULES } from '../services/notificationRules';
+import { sendError, sendSuccess } from '../utils/apiResponse';
+import { createLogger } from '../utils/logger';
+
+const CATEGORIES: NotificationCategory[] = [
+  ...(Object.keys(DEFAULT_NOTIFICATION_RULES) as NotificationCategory[]),
+  'general',
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+$/;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isOptionalString = (value: unknown): boolean =>
+  value === undefined || typeof value === 'string';
+
+const isHttpUrl = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The address part of "Name <address>".
+ */
+const addressOf = (value: string): string =>
+  (value.match(/<([^>]+)>/)?.[1] ?? value).trim();
+
+const validateRoutes = (routes: unknown): string | null => {
+  if (!Array.isArray(routes) || routes.length === 0) {
+    return 'routes must be a non-empty array';
+  }
+  for (const route of routes as NotificationChannelRoute[]) {
+    if (!route || !CATEGORIES.includes(route.category)) {
+      return `route category must be one of: ${CATEGORIES.join(', ')}`;
+    }
+    if (
+      route.maxPrice !== undefined &&
+      (typeof route.maxPrice !== 'number' || route.maxPrice < 0)
+    ) {
+      return 'maxPrice must be a non-negative number';
+    }
+    if (
+      route.labelIds !== undefined &&
+      (!Array.isArray(route.labelIds) ||
+        !route.labelIds.every(id => typeof id === 'string'))
+    ) {
+      return 'labelIds must be an array of label ids';
+    }
+  }
+  return null;
+};
+
+/**
+ * Validate a channel from the request body. Returns an error message, or
+ * null if it's valid.
+ */
+const validateChannel = (body: Record<string, unknown>): string | null => {
+  if (!isNonEmptyString(body.name)) {
+    return 'name is required';
+  }
+  if (typeof body.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  const routesError = validateRoutes(body.routes);
+  if (routesError) return routesError;
+
+  const quietHours = body.quietHours as Record<string, unknown> | undefined;
+  if (
+    quietHours !== undefined &&
+    (typeof quietHours !== 'object' ||
+      !TIME_PATTERN.test(String(quietHours?.start)) ||
+      !TIME_PATTERN.test(String(quietHours?.end)))
+  ) {
+    return 'quietHours must have start and end times as HH:MM';
+  }
+
+  const config = body.config as Record<string, unknown> | undefined;
+  if (!config || typeof config !== 'object') {
+    return 'config is required';
+  }
+
+  switch (body.type) {
+    case 'webhook':
+      if (!isHttpUrl(config.url)) return 'config.url must be an http(s) URL';
+      if (!isOptionalString(config.secret)) {
+        return 'config.secret must be a string';
+      }
+      return null;
+
+    case 'push':
+      if (config.server !== 'ntfy' && config.server !== 'gotify') {
+        return 'config.server must be ntfy or gotify';
+      }
+      if (!isHttpUrl(config.url)) return 'config.url must be an http(s) URL';
+      if (config.server === 'ntfy' && !isNonEmptyString(config.topic)) {
+        return 'config.topic is required for ntfy';
+      }
+      if (config.server === 'gotify' && !isNonEmptyString(config.token)) {
+        return 'config.token is required for Gotify';
+      }
+      if (!isOptionalString(config.token)) {
+        return 'config.token must be a string';
+      }
+      if (
+        config.priority !== undefined &&
+        (!Number.isInteger(config.priority) ||
+          (config.priority as number) < 0 ||
+          (config.priority as number) > 10)
+      ) {
+        return 'config.priority must be an integer from 0 to 10';
+      }
+      return null;
+
+    case 'email':
+      if (!isNonEmptyString(config.host)) return 'config.host is required';
+      if (
+        !Number.isInteger(config.port) ||
+        (config.port as number) < 1 ||
+        (config.port as number) > 65535
+      ) {
+        return 'config.port must be a valid port number';
+      }
+      if (typeof config.secure !== 'boolean') {
+        return 'config.secure must be a boolean';
+      }
+      if (!isOptionalString(config.username)) {
+        return 'config.username must be a string';
+      }
+      if (!isOptionalString(config.password)) {
+        return 'config.password must be a string';
+      }
+      if (
+        !isNonEmptyString(config.from) ||
+        !EMAIL_PATTERN.test(addressOf(config.from))
+      ) {
+        return 'config.from must be an email address';
+      }
+      if (
+        !Array.isArray(config.to) ||
+        config.to.length === 0 ||
+        !config.to.every(
+          (to: unknown) => typeof to === 'string' && EMAIL_PATTERN.test(to)
+        )
+      ) {
+        return 'config.to must be a list of email addresses';
+      }
+      return null;
+
+    default:
+      return 'type must be one of: webhook, push, email';
+  }
+};
+
+/**
+ * Copy only the known fields of a validated body.
+ */
+const toChannelInput = (
+  body: Record<string, unknown>
+): NotificationChannelInput => {
+  const input = body as unknown as NotificationChannelInput;
+  const base = {
+    name: input.name.trim(),
+    enabled: input.enabled,
+    routes: input.routes.map(route => ({
+      category: route.category,
+      maxPrice: route.maxPrice,
+      labelIds: route.labelIds,
+    })),
+    quietHours: input.quietHours
+      ? { start: input.quietHours.start, end: input.quietHours.end }
+      : undefined,
+  };
+
+  switch (input.type) {
+    case 'webhook':
+      return {
+        ...base,
+        type: 'webhook',
+        config: { url: input.config.url, secret: input.config.secret },
+      };
+    case 'push':
+      return {
+        ...base,
+        type: 'push',
+        config: {
+          server: input.config.server,
+          url: input.config.url,
+          topic: input.config.topic,
+          token: input.config.token,
+          priority: input.config.priority,
+        },
+      };
+    case 'email':
+      return {
+        ...base,
+        type: 'email',
+        config: {
+          host: input.config.host.trim(),
+          port: input.config.port,
+          secure: input.config.secure,
+          username: input.config.username,
+          password: input.config.password,
+          from: input.config.from,
+          to: input.config.to,
+        },
+      };
+  }
+};
+
+export default function createNotificationChannelsRouter(
+  notificationChannelService: NotificationChannelService
+) {
+  const router = express.Router();
+  const logger = createLogger('NotificationChannelsRoutes');
+
+  // GET /api/v1/notification-channels — list channels (secrets redacted)
+  router.get('/', async (_req, res) => {
+    try {
+      sendSuccess(res, await notificationChannelService.getChannels());
+    } catch (error) {
+      logger.error('Error getting notification channels', error);
+      sendError(res, 500, 'Failed to load notification channels');
+    }
+  });
+
+  // POST /api/v1/notification-channels — add a channel
+  router.post('/', async (req, res) => {
+    const body = req.body || {};
+    const error = validateChannel(body);
+    if (error) {
+      return sendError(res, 400, error);
+    }
+
+    try {
+      const channel = await notificationChannelService.createChannel(
+        toChannelInput(body)
+      );
+      sendSuccess(res, channel, 201);
+    } catch (err) {
+      logger.error('Error adding notification channel', err);
+      sendError(res, 500, 'Failed to save notification channel');
+    }
+  });
+
+  // PUT /api/v1/notification-channels/:id — replace a channel's settings
+  router.put('/:id', async (req, res) => {
+    const body = req.body || {};
+    const error = validateChannel(body);
+    if (error) {
+      return sendError(res, 400, error);
+    }
+
+    try {
+      const channel = await notificationChannelService.updateChannel(
+        req.params.id,
+        toChannelInput(body)
+      );
+      if (!channel) {
+        return sendError(res, 404, 'Channel not found');
+      }
+      sendSuccess(res, channel);
+    } catch (err) {
+      logger.error('Error updating notification channel', err);
+      sendError(res, 500, 'Failed to save notification channel');
+    }
+  });
+
+  // DELETE /api/v1/notification-channels/:id — remove a channel
+  router.delete('/:id', async (req, res) => {
+    try {
+      if (!(await notificationChannelService.deleteChannel(req.params.id))) {
+        return sendError(res, 404, 'Channel not found');
+      }
+      sendSuccess(res, { removed: true });
+    } catch (error) {
+      logger.error('Error removing notification channel', error);
+      sendError(res, 500, 'Failed to remove notification channel');
+    }
+  });
+
+  // POST /api/v1/notification-channels/:id/test — send a test notification.
+  // A failed delivery is a result, not a request error: the response says
+  // what the channel's server reported.
+  router.post('/:id/test', async (req, res) => {
+    try {
+      if (!(await notificationChannelService.sendTest(req.params.id))) {
+        return sendError(res, 404, 'Channel not found');
+      }
+      sendSuccess(res, { delivered: true });
+    } catch (error) {
+      sendSuccess(res, {
+        delivered: false,
+        error: error instanceof Error ? error.message : 'Delivery failed',
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,214 @@
+import express, { Request, Response } from 'express';
+
+import { AppNotification, NotificationRuleId } from '../../shared/types';
+import { DEFAULT_NOTIFICATION_RULES } from '../services/notificationRules';
+import { NotificationService } from '../services/notificationService';
+import { sendError, sendSuccess } from '../utils/apiResponse';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('NotificationsRoutes');
+
+const NOTIFICATION_TYPES: AppNotification['type'][] = [
+  'info',
+  'success',
+  'warning',
+  'alert',
+];
+
+// Upper bound for a single import of locally stored notifications
+const MAX_IMPORT = 500;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isValidAction = (action: unknown): boolean => {
+  if (action === undefined) return true;
+  if (!action || typeof action !== 'object') return false;
+  const { label, route, externalUrl } = action as Record<string, unknown>;
+  return (
+    typeof label === 'string' &&
+    typeof route === 'string' &&
+    (externalUrl === undefined || typeof externalUrl === 'string')
+  );
+};
+
+/**
+ * Validate the user-supplied fields of a notification.
+ */
+const validateNotification = (body: Record<string, unknown>): string | null => {
+  if (!NOTIFICATION_TYPES.includes(body.type as AppNotification['type'])) {
+    return `type must be one of: ${NOTIFICATION_TYPES.join(', ')}`;
+  }
+  if (!isNonEmptyString(body.title)) {
+    return 'title is required';
+  }
+  if (typeof body.message !== 'string') {
+    return 'message is required';
+  }
+  if (!isValidAction(body.action)) {
+    return 'action must have a label and a route';
+  }
+  return null;
+};
+
+/**
+ * Create the notification routes for a profile's inbox.
+ */
+export default function createNotificationsRouter(
+  notificationService: NotificationService
+): express.Router {
+  const router = express.Router();
+
+  /**
+   * GET /api/v1/notifications
+   * Returns all notifications (newest first) and the unread count
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    sendSuccess(res, {
+      notifications: notificationService.getNotifications(),
+      unreadCount: notificationService.getUnreadCount(),
+    });
+  });
+
+  /**
+   * POST /api/v1/notifications
+   * Creates a notification
+   */
+  router.post('/', (req: Request, res: Response) => {
+    const body = req.body || {};
+    const error = validateNotification(body);
+    if (error) {
+      return sendError(res, 400, error);
+    }
+
+    const notification = notificationService.add({
+      type: body.type,
+      title: body.title,
+      message: body.message,
+      action: body.action,
+    });
+    sendSuccess(res, notification, 201);
+  });
+
+  /**
+   * POST /api/v1/notifications/import
+   * Merges notifications stored by an older client, keeping ids and read state
+   */
+  router.post('/import', (req: Request, res: Response) => {
+    const { notifications } = req.body || {};
+    if (!Array.isArray(notifications) || notifications.length > MAX_IMPORT) {
+      return sendError(
+        res,
+        400,
+        `notifications must be an array of at most ${MAX_IMPORT} items`
+      );
+    }
+
+    const valid = notifications.filter(
+      (n: Record<string, unknown>) =>
+        n &&
+        isNonEmptyString(n.id) &&
+        typeof n.timestamp === 'number' &&
+        validateNotification(n) === null
+    ) as AppNotification[];
+    const imported = notificationService.importNotifications(
+      valid.map(n => ({
+        id: n.id,
+        type: n.type,
+        title: n.title,
+        message: n.message,
+        timestamp: n.timestamp,
+        read: n.read === true,
+        action: n.action,
+      }))
+    );
+    logger.info(`Imported ${imported} notification(s)`);
+    sendSuccess(res, { imported });
+  });
+
+  /**
+   * POST /api/v1/notifications/read-all
+   * Marks every notification as read
+   */
+  router.post('/read-all', (_req: Request, res: Response) => {
+    notificationService.markAllRead();
+    sendSuccess(res, { unreadCount: 0 });
+  });
+
+  /**
+   * GET /api/v1/notifications/rules
+   * Returns the settings of each notification rule
+   */
+  router.get('/rules', (_req: Request, res: Response) => {
+    sendSuccess(res, notificationService.getRules());
+  });
+
+  /**
+   * PUT /api/v1/notifications/rules
+   * Enables or disables rules, e.g. { "seller-match": { "enabled": false } }
+   */
+  router.put('/rules', async (req: Request, res: Response) => {
+    const updates = req.body;
+    if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+      return sendError(res, 400, 'Rule settings must be an object');
+    }
+    for (const [id, settings] of Object.entries(updates)) {
+      if (!(id in DEFAULT_NOTIFICATION_RULES)) {
+        return sendError(res, 400, `Unknown notification rule: ${id}`);
+      }
+      if (
+        !settings ||
+        typeof (settings as { enabled?: unknown }).enabled !== 'boolean'
+      ) {
+        return sendError(res, 400, `${id}.enabled must be a boolean`);
+      }
+    }
+
+    try {
+      const rules = await notificationService.updateRules(
+        updates as Record<NotificationRuleId, { enabled: boolean }>
+      );
+      sendSuccess(res, rules);
+    } catch (error) {
+      logger.error('Error saving notification rules', error);
+      sendError(res, 500, 'Failed to save notification rules');
+    }
+  });
+
+  /**
+   * PATCH /api/v1/notifications/:id
+   * Marks a notification as read ({ "read": true })
+   */
+  router.patch('/:id', (req: Request, res: Response) => {
+    if (req.body?.read !== true) {
+      return sendError(res, 400, 'Only { "read": true } is supported');
+    }
+    const notification = notificationService.markRead(req.params.id);
+    if (!notification) {
+      return sendError(res, 404, 'Notification not found');
+    }
+    sendSuccess(res, notification);
+  });
+
+  /**
+   * DELETE /api/v1/notifications/:id
+   * Removes a notification
+   */
+  router.delete('/:id', (req: Request, res: Response) => {
+    if (!notificationService.remove(req.params.id)) {
+      return sendError(res, 404, 'Notification not found');
+    }
+    sendSuccess(res, { removed: true });
+  });
+
+  /**
+   * DELETE /api/v1/notifications
+   * Removes all notifications
+   */
+  router.delete('/', (_req: Request, res: Response) => {
+    notificationService.clear();
+    sendSuccess(res, { removed: true });
+  });
+
+  return router;
+}
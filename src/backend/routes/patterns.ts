@@ -0,0 +1,246 @@
+import express, { Request, Response } from 'express';
+
+import {
+  BackfillWindowRequest,
+  CollectionItem,
+  DayPeriod,
+  ScrobbleTrack,
+} from '../../shared/types';
+import { ListeningPatternService } from '../services/listeningPatternService';
+import { sendError, sendSuccess } from '../utils/apiResponse';
+import { createLogger } from '../utils/logger';
+import { assignBatchTimestamps } from '../utils/timestamps';
+
+const logger = createLogger('PatternsRoutes');
+
+const VALID_PERIODS: DayPeriod[] = ['morning', 'afternoon', 'evening', 'night'];
+
+// Cap the queue so a single request can't trigger hundreds of Discogs lookups
+const MAX_BACKFILL_ITEMS = 20;
+
+// Generous enough for a box set, small enough to keep the request cheap
+const MAX_CONFLICT_TRACKS = 500;
+
+/**
+ * Pick the known window fields off an untrusted request body.
+ * Returns an error message if any field has the wrong type.
+ */
+function parseWindowRequest(
+  raw: unknown
+): { window: BackfillWindowRequest } | { error: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { error: 'window is required' };
+  }
+  const body = raw as Record<string, unknown>;
+  const window: BackfillWindowRequest = {};
+
+  for (const key of ['start', 'end', 'daysAgo', 'dayOfWeek'] as const) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== 'number' || !Number.isFinite(body[key])) {
+      return { error: `window.${key} must be a number` };
+    }
+    window[key] = Math.floor(body[key] as number);
+  }
+
+  if (body.date !== undefined) {
+    if (typeof body.date !== 'string') {
+      return { error: 'window.date must be a YYYY-MM-DD string' };
+    }
+    window.date = body.date;
+  }
+
+  if (body.period !== undefined) {
+    if (!VALID_PERIODS.includes(body.period as DayPeriod)) {
+      return {
+        error: `window.period must be one of: ${VALID_PERIODS.join(', ')}`,
+      };
+    }
+    window.period = body.period as DayPeriod;
+  }
+
+  if ((window.start === undefined) !== (window.end === undefined)) {
+    return { error: 'window.start and window.end must be provided together' };
+  }
+
+  return { window };
+}
+
+/**
+ * Create listening pattern routes with dependency injection.
+ */
+export default function createPatternsRouter(
+  listeningPatternService: ListeningPatternService
+): express.Router {
+  const router = express.Router();
+
+  /**
+   * GET /api/v1/patterns
+   * Returns learned listening patterns, or null when there is no history.
+   */
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      const patterns = await listeningPatternService.getPatterns();
+      sendSuccess(res, patterns);
+    } catch (error) {
+      logger.error('Failed to get listening patterns', error);
+      sendError(res, 500, 'Failed to get listening patterns');
+    }
+  });
+
+  /**
+   * POST /api/v1/patterns/recalculate
+   * Forces a recalculation from the current history index.
+   */
+  router.post('/recalculate', async (_req: Request, res: Response) => {
+    try {
+      const patterns = await listeningPatternService.calculatePatterns();
+      sendSuccess(res, patterns);
+    } catch (error) {
+      logger.error('Failed to recalculate listening patterns', error);
+      sendError(res, 500, 'Failed to recalculate listening patterns');
+    }
+  });
+
+  /**
+   * GET /api/v1/patterns/presets
+   * Returns ready-made backfill windows ("Yesterday evening", ...).
+   */
+  router.get('/presets', async (_req: Request, res: Response) => {
+    try {
+      const presets = await listeningPatternService.getPresets();
+      sendSuccess(res, presets);
+    } catch (error) {
+      logger.error('Failed to get backfill presets', error);
+      sendError(res, 500, 'Failed to get backfill presets');
+    }
+  });
+
+  /**
+   * POST /api/v1/patterns/backfill-plan
+   * Body: { items: CollectionItem[], window: BackfillWindowRequest, gapSeconds?: number }
+   * Returns per-track timestamps for the queue inside the window.
+   */
+  router.post('/backfill-plan', async (req: Request, res: Response) => {
+    try {
+      const { items, window, gapSeconds } = req.body ?? {};
+
+      if (!Array.isArray(items) || items.length === 0) {
+        sendError(res, 400, 'items must be a non-empty array');
+        return;
+      }
+      if (items.length > MAX_BACKFILL_ITEMS) {
+        sendError(
+          res,
+          400,
+          `Cannot plan more than ${MAX_BACKFILL_ITEMS} albums at once`
+        );
+        return;
+      }
+      const invalidItem = items.some(
+        (item: CollectionItem) =>
+          !item?.release || typeof item.release.id !== 'number'
+      );
+      if (invalidItem) {
+        sendError(res, 400, 'Each item must include a release with an id');
+        return;
+      }
+      if (
+        gapSeconds !== undefined &&
+        (typeof gapSeconds !== 'number' || gapSeconds < 0)
+      ) {
+        sendError(res, 400, 'gapSeconds must be a non-negative number');
+        return;
+      }
+
+      const parsed = parseWindowRequest(window);
+      if ('error' in parsed) {
+        sendError(res, 400, parsed.error);
+        return;
+      }
+
+      // Reject windows that are malformed or entirely in the future
+      try {
+        listeningPatternService.resolveWindow(parsed.window, null);
+      } catch (error) {
+        sendError(
+          res,
+          400,
+          error instanceof Error ? error.message : 'Invalid window'
+        );
+        return;
+      }
+
+      const plan = await listeningPatternService.planBackfill(
+        items,
+        parsed.window,
+        { gapSeconds }
+      );
+
+      sendSuccess(res, plan);
+    } catch (error) {
+      logger.error('Failed to plan backfill', error);
+      sendError(res, 500, 'Failed to plan backfill');
+    }
+  });
+
+  /**
+   * POST /api/v1/patterns/check-conflicts
+   * Body: { tracks: ScrobbleTrack[], baseTimestamp?: number, autoShift?: boolean }
+   * Tracks without a timestamp get the same spacing /scrobble/batch would
+   * give them. Returns overlaps with existing scrobbles and, with autoShift,
+   * the batch moved into the nearest free gap.
+   */
+  router.post('/check-conflicts', async (req: Request, res: Response) => {
+    try {
+      const { tracks, baseTimestamp, autoShift } = req.body ?? {};
+
+      if (!Array.isArray(tracks) || tracks.length === 0) {
+        sendError(res, 400, 'tracks must be a non-empty array');
+        return;
+      }
+      if (tracks.length > MAX_CONFLICT_TRACKS) {
+        sendError(
+          res,
+          400,
+          `Cannot check more than ${MAX_CONFLICT_TRACKS} tracks at once`
+        );
+        return;
+      }
+      const invalidTrack = tracks.some(
+        (track: ScrobbleTrack) =>
+          !track?.artist ||
+          !track.track ||
+          (track.timestamp !== undefined &&
+            typeof track.timestamp !== 'number') ||
+          (track.duration !== undefined && typeof track.duration !== 'number')
+      );
+      if (invalidTrack) {
+        sendError(
+          res,
+          400,
+          'Each track needs artist and track, with numeric timestamp/duration'
+        );
+        return;
+      }
+      if (
+        baseTimestamp !== undefined &&
+        (typeof baseTimestamp !== 'number' || baseTimestamp <= 0)
+      ) {
+        sendError(res, 400, 'baseTimestamp must be a positive number');
+        return;
+      }
+
+      const report = await listeningPatternService.checkConflicts(
+        assignBatchTimestamps(tracks as ScrobbleTrack[], baseTimestamp),
+        { autoShift: autoShift === true }
+      );
+
+      sendSuccess(res, report);
+    } catch (error) {
+      logger.error('Failed to check scrobble conflicts', error);
+      sendError(res, 500, 'Failed to check scrobble conflicts');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,73 @@
+import express from 'express';
+
+import { ProfileError, ProfileService } from '../services/profileService';
+import { sendError, sendSuccess } from '../utils/apiResponse';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Create profile routes.
+ * @param stopProfile Tears down a profile's running services before its
+ *   data is removed.
+ */
+export default function createProfilesRouter(
+  profileService: ProfileService,
+  stopProfile: (profileId: string) => Promise<void> = async () => undefined
+) {
+  const router = express.Router();
+  const logger = createLogger('ProfileRoutes');
+
+  const handleError = (
+    res: express.Response,
+    error: unknown,
+    fallback: string
+  ) => {
+    if (error instanceof ProfileError) {
+      return sendError(res, error.status, error.message);
+    }
+    logger.error(fallback, error);
+    sendError(res, 500, fallback);
+  };
+
+  // GET /api/v1/profiles — every profile on this installation
+  router.get('/', async (_req, res) => {
+    try {
+      sendSuccess(res, await profileService.getProfiles());
+    } catch (error) {
+      handleError(res, error, 'Failed to load profiles');
+    }
+  });
+
+  // POST /api/v1/profiles — create a profile with its own data directory
+  router.post('/', async (req, res) => {
+    try {
+      const profile = await profileService.createProfile(req.body?.name);
+      sendSuccess(res, profile, 201);
+    } catch (error) {
+      handleError(res, error, 'Failed to create profile');
+    }
+  });
+
+  // PATCH /api/v1/profiles/:id — rename a profile
+  router.patch('/:id', async (req, res) => {
+    try {
+      sendSuccess(
+        res,
+        await profileService.renameProfile(req.params.id, req.body?.name)
+      );
+    } catch (error) {
+      handleError(res, error, 'Failed to rename profile');
+    }
+  });
+
+  // DELETE /api/v1/profiles/:id — remove a profile and all of its data
+  router.delete('/:id', async (req, res) => {
+    try {
+      await profileService.deleteProfile(req.params.id, stopProfile);
+      sendSuccess(res);
+    } catch (error) {
+      handleError(res, error, 'Failed to delete profile');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,90 @@
+import express, { Request, Response } from 'express';
+
+import {
+  RecognizerDeviceError,
+  RecognizerDeviceService,
+} from '../services/recognizerDeviceService';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Create routes for the registry of playback recognizers
+ */
+export default function createRecognizersRouter(
+  recognizerDeviceService: RecognizerDeviceService
+) {
+  const router = express.Router();
+  const logger = createLogger('RecognizerRoutes');
+
+  const sendError = (res: Response, error: unknown, fallback: string) => {
+    if (!(error instanceof RecognizerDeviceError)) {
+      logger.error(fallback, error);
+    }
+    res
+      .status(error instanceof RecognizerDeviceError ? error.status : 500)
+      .json({
+        success: false,
+        error: error instanceof Error ? error.message : fallback,
+      });
+  };
+
+  // Registered recognizers with their stats
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      const devices = await recognizerDeviceService.getDevices();
+      res.json({ success: true, data: devices });
+    } catch (error) {
+      sendError(res, error, 'Failed to load recognizers');
+    }
+  });
+
+  // Register a recognizer; the response holds its API key, shown only once
+  router.post('/', async (req: Request, res: Response) => {
+    const { name } = req.body ?? {};
+    if (typeof name !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'name is required',
+      });
+    }
+
+    try {
+      const registration = await recognizerDeviceService.registerDevice(name);
+      res.status(201).json({ success: true, data: registration });
+    } catch (error) {
+      sendError(res, error, 'Failed to register recognizer');
+    }
+  });
+
+  // Pause or resume auto-scrobbling from a recognizer
+  router.patch('/:id', async (req: Request, res: Response) => {
+    const { paused } = req.body ?? {};
+    if (typeof paused !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'paused must be a boolean',
+      });
+    }
+
+    try {
+      const device = await recognizerDeviceService.setPaused(
+        req.params.id,
+        paused
+      );
+      res.json({ success: true, data: device });
+    } catch (error) {
+      sendError(res, error, 'Failed to update recognizer');
+    }
+  });
+
+  // Revoke a recognizer's key
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      await recognizerDeviceService.revokeDevice(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, 'Failed to revoke recognizer');
+    }
+  });
+
+  return router;
+}
@@ -7,6 +7,8 @@
 
 import express, { Request, Response } from 'express';
 
+import { CollectionItem } from '../../shared/types';
+import { filterByCollectionScope } from '../../shared/utils/collectionScope';
 import { AuthService } from '../services/authService';
 import { LastFmService } from '../services/lastfmService';
 import { RecentScrobble } from '../services/profileBuilderService';
@@ -38,6 +40,8 @@ export function createRecommendationsRouter(
    *   window     - hours of listening history to consider (default 168)
    *   excludeRecent - exclude recently played records (default true)
    *   minScore   - minimum score threshold (default 0.3)
+   *
+   * Results are limited to the collection scope in recommendation settings.
    */
   router.get('/', async (req: Request, res: Response) => {
     try {
@@ -74,19 +78,31 @@ export function createRecommendationsRouter(
         windowHours,
       });
 
+      const discogsUsername = settings.discogs.username;
+      const collectionItems = discogsUsername
+        ? await getAllCachedCollectionItems(discogsUsername, fileStorage)
+        : [];
+
+      const { collectionScope } = await recommendationService.getSettings();
+      const releaseIds = collectionScope
+        ? new Set(
+            filterByCollectionScope(collectionItems, collectionScope).map(
+              item => item.release.id
+            )
+          )
+        : undefined;
+
       const results = await recommendationService.getRecommendations({
         count,
         windowHours,
         excludeRecent,
         minScore,
         recentScrobbles,
+        releaseIds,
       });
 
       // Enrich results with cover images from collection cache
-      const discogsUsername = settings.discogs.username;
-      const coverMap = discogsUsername
-        ? await buildCoverImageMap(discogsUsername, fileStorage)
-        : new Map<number, string>();
+      const coverMap = buildCoverImageMap(collectionItems);
       for (const result of results) {
         const cover = coverMap.get(result.release.id);
         if (cover) {
@@ -275,14 +291,9 @@ async function fetchScrobblesInWindow(
 }
 
 /**
- * Build a releaseId → cover_image lookup from the collection cache.
- * Returns an empty map if the cache can't be loaded.
+ * Build a releaseId → cover_image lookup from cached collection items.
  */
-async function buildCoverImageMap(
-  username: string,
-  fileStorage: FileStorage
-): Promise<Map<number, string>> {
-  const allItems = await getAllCachedCollectionItems(username, fileStorage);
+function buildCoverImageMap(allItems: CollectionItem[]): Map<number, string> {
   const map = new Map<number, string>();
 
   for (const item of allItems) {
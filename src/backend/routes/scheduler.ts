@@ -0,0 +1,143 @@
+import express from 'express';
+
+import {
+  ScheduledTaskId,
+  ScheduledTaskSettings,
+  SchedulerSettings,
+} from '../../shared/types';
+import { SchedulerService } from '../services/schedulerService';
+import { sendError, sendSuccess } from '../utils/apiResponse';
+import { CronError } from '../utils/cron';
+import { createLogger } from '../utils/logger';
+
+// Longest random delay a task can be given
+const MAX_JITTER_MINUTES = 24 * 60;
+
+// Discogs allows 60 authenticated requests per minute
+const MAX_DISCOGS_MIN_REMAINING = 60;
+
+const isIntegerInRange = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) &&
+  (value as number) >= min &&
+  (value as number) <= max;
+
+/**
+ * Validate a partial task update. Schedules are checked by the service.
+ */
+const validateTaskUpdate = (body: Record<string, unknown>): string | null => {
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  if (body.schedule !== undefined && typeof body.schedule !== 'string') {
+    return 'schedule must be a cron expression';
+  }
+  if (
+    body.jitterMinutes !== undefined &&
+    !isIntegerInRange(body.jitterMinutes, 0, MAX_JITTER_MINUTES)
+  ) {
+    return `jitterMinutes must be a whole number from 0 to ${MAX_JITTER_MINUTES}`;
+  }
+  if (body.catchUp !== undefined && typeof body.catchUp !== 'boolean') {
+    return 'catchUp must be a boolean';
+  }
+  return null;
+};
+
+export default function createSchedulerRouter(
+  schedulerService: SchedulerService
+) {
+  const router = express.Router();
+  const logger = createLogger('SchedulerRoutes');
+
+  // GET /api/v1/scheduler — scheduled tasks and scheduler settings
+  router.get('/', async (_req, res) => {
+    try {
+      sendSuccess(res, {
+        tasks: await schedulerService.getTasks(),
+        settings: await schedulerService.getSettings(),
+      });
+    } catch (error) {
+      logger.error('Error getting scheduled tasks', error);
+      sendError(res, 500, 'Failed to load scheduled tasks');
+    }
+  });
+
+  // PUT /api/v1/scheduler/settings — update the shared Discogs budget
+  router.put('/settings', async (req, res) => {
+    const { discogsMinRemaining } = req.body || {};
+    if (!isIntegerInRange(discogsMinRemaining, 0, MAX_DISCOGS_MIN_REMAINING)) {
+      return sendError(
+        res,
+        400,
+        `discogsMinRemaining must be a whole number from 0 to ${MAX_DISCOGS_MIN_REMAINING}`
+      );
+    }
+
+    try {
+      const updates: SchedulerSettings = { discogsMinRemaining };
+      sendSuccess(res, await schedulerService.updateSettings(updates));
+    } catch (error) {
+      logger.error('Error saving scheduler settings', error);
+      sendError(res, 500, 'Failed to save scheduler settings');
+    }
+  });
+
+  // PUT /api/v1/scheduler/tasks/:id — change a task's schedule or options
+  router.put('/tasks/:id', async (req, res) => {
+    const body = req.body || {};
+    const error = validateTaskUpdate(body);
+    if (error) {
+      return sendError(res, 400, error);
+    }
+
+    const updates: Partial<ScheduledTaskSettings> = {};
+    for (const key of [
+      'enabled',
+      'schedule',
+      'jitterMinutes',
+      'catchUp',
+    ] as const) {
+      if (body[key] !== undefined) {
+        updates[key] = body[key];
+      }
+    }
+
+    try {
+      const task = await schedulerService.updateTask(
+        req.params.id as ScheduledTaskId,
+        updates
+      );
+      if (!task) {
+        return sendError(res, 404, 'Scheduled task not found');
+      }
+      sendSuccess(res, task);
+    } catch (err) {
+      if (err instanceof CronError) {
+        return sendError(res, 400, err.message);
+      }
+      logger.error('Error updating scheduled task', err);
+      sendError(res, 500, 'Failed to save scheduled task');
+    }
+  });
+
+  // POST /api/v1/scheduler/tasks/:id/run — run a task now; returns once
+  // it has started
+  router.post('/tasks/:id/run', async (req, res) => {
+    try {
+      const tasks = await schedulerService.getTasks();
+      const task = tasks.find(t => t.id === req.params.id);
+      if (!task) {
+        return sendError(res, 404, 'Scheduled task not found');
+      }
+      if (!(await schedulerService.runNow(task.id))) {
+        return sendError(res, 409, 'Task is already running');
+      }
+      sendSuccess(res, { started: true }, 202);
+    } catch (error) {
+      logger.error('Error starting scheduled task', error);
+      sendError(res, 500, 'Failed to start scheduled task');
+    }
+  });
+
+  return router;
+}
@@ -2,23 +2,53 @@ import express, { Request, Response } from 'express';
 
 import {
   CollectionItem,
+  RecognizerEvent,
+  RecognizerEventType,
+  ScrobbleTargetSummary,
   ScrobbleTrack,
   ScrobbleSession,
+  ScrobbleSource,
   Track,
 } from '../../shared/types';
+import {
+  getReleaseSides,
+  getSideTrackIndices,
+  getTrackSide,
+  scheduleTracks,
+} from '../../shared/utils/vinylSides';
 import { artistMappingService } from '../services/artistMappingService';
 import { AuthService } from '../services/authService';
-import { DurationLookupService } from '../services/durationLookupService';
-import { jobStatusService } from '../services/jobStatusService';
 import { LastFmService } from '../services/lastfmService';
 import { MappingService } from '../services/mappingService';
+import { RecognizerDeviceService } from '../services/recognizerDeviceService';
+import { RecognizerSessionService } from '../services/recognizerSessionService';
 import { ScrobbleHistorySyncService } from '../services/scrobbleHistorySyncService';
+import {
+  hasFailedTarget,
+  ScrobbleTargetService,
+} from '../services/scrobbleTargetService';
+import {
+  ScrobbleUndoError,
+  ScrobbleUndoService,
+} from '../services/scrobbleUndoService';
+import { SideMemoryService } from '../services/sideMemoryService';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
+import { assignBatchTimestamps } from '../utils/timestamps';
 import { validateSessionId } from '../utils/validation';
 
 const logger = createLogger('ScrobbleRouter');
 
+// Sources a batch can be scrobbled as; 'external' is only ever inferred
+const BATCH_SOURCES: ScrobbleSource[] = ['app', 'recognized', 'memory'];
+
+const RECOGNIZER_EVENTS: RecognizerEventType[] = [
+  'track-start',
+  'confidence',
+  'track-end',
+  'needle-lift',
+];
+
 // Create router factory function for dependency injection
 export default function createScrobbleRouter(
   fileStorage: FileStorage,
@@ -32,10 +62,40 @@ export default function createScrobbleRouter(
   },
   scrobbleHistorySyncService?: ScrobbleHistorySyncService,
   mappingService?: MappingService,
-  durationLookupService?: DurationLookupService
+  recognizerSessionService?: RecognizerSessionService,
+  sideMemoryService?: SideMemoryService,
+  scrobbleTargetService?: ScrobbleTargetService,
+  scrobbleUndoService?: ScrobbleUndoService,
+  recognizerDeviceService?: RecognizerDeviceService
 ) {
   const router = express.Router();
 
+  // Send a single scrobble to the targets enabled besides Last.fm. Never
+  // throws; each target's outcome is recorded on the track.
+  const submitToTargets = async (
+    track: ScrobbleTrack,
+    options?: { onlyFailed?: boolean }
+  ): Promise<ScrobbleTargetSummary[]> =>
+    scrobbleTargetService ? scrobbleTargetService.submit([track], options) : [];
+
+  // Keep a session file for a track scrobbled on its own, so the history
+  // sync can tag the play with its source
+  const recordSingleScrobble = async (
+    track: ScrobbleTrack,
+    result: Awaited<ReturnType<LastFmService['scrobbleTrack']>> | undefined,
+    source: ScrobbleSource
+  ): Promise<void> => {
+    if (!result?.success) return;
+    try {
+      await lastfmService.recordScrobbleSession([track], source);
+    } catch (err) {
+      logger.warn('Failed to record scrobble session', {
+        source,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
   // Scrobble a single track
   router.post('/track', async (req: Request, res: Response) => {
     try {
@@ -54,23 +114,23 @@ export default function createScrobbleRouter(
         track.timestamp = Math.floor(Date.now() / 1000);
       }
 
-      await lastfmService.scrobbleTrack(track);
+      let targets: ScrobbleTargetSummary[] = [];
+      let result: Awaited<ReturnType<LastFmService['scrobbleTrack']>>;
+      try {
+        result = await lastfmService.scrobbleTrack(track);
+      } finally {
+        // Other targets get the play even if Last.fm rejected it
+        targets = await submitToTargets(track);
+      }
+      await recordSingleScrobble(track, result, 'app');
 
       // Trigger incremental sync after successful scrobble
       // Delay to give Last.fm time to index the scrobble before we fetch it back
       if (scrobbleHistorySyncService) {
-        const jobId = jobStatusService.startJob(
-          'sync',
-          'Syncing scrobble history...'
-        );
         new Promise(resolve => setTimeout(resolve, 5000))
           .then(() => scrobbleHistorySyncService.startIncrementalSync())
-          .then(() =>
-            jobStatusService.completeJob(jobId, 'Scrobble history synced')
-          )
           .catch(err => {
             logger.error('Failed to auto-sync after scrobble:', err);
-            jobStatusService.failJob(jobId, 'Failed to sync scrobble history');
           });
       }
 
@@ -79,6 +139,7 @@ export default function createScrobbleRouter(
         data: {
           message: 'Track scrobbled successfully',
           track,
+          targets,
         },
       });
     } catch (error) {
@@ -89,107 +150,137 @@ export default function createScrobbleRouter(
     }
   });
 
-  // Scrobble a track identified by an external recognizer (e.g. the Raspberry
-  // Pi vinyl audio detector). Accepts {artist, title, album?, timestamp?,
-  // source?} and uses the duration lookup chain (Discogs collection cache →
-  // Last.fm) to enrich the scrobble with a real duration when possible.
+  // Events from a registered playback recognizer (e.g. the Raspberry Pi
+  // vinyl audio detector), authenticated with its API key as a Bearer token:
+  // {event, artist?, title?, album?, confidence?, timestamp?}. Events are
+  // grouped into listening sessions and tracks are only scrobbled once they
+  // have played long enough, see RecognizerSessionService. A body without
+  // `event` is a track-start, as sent by older detectors.
   router.post('/recognized', async (req: Request, res: Response) => {
-    try {
-      const { artist, title, album, timestamp, source } = req.body ?? {};
+    if (!recognizerSessionService || !recognizerDeviceService) {
+      return res.status(503).json({
+        success: false,
+        error: 'Recognized scrobbling is not available',
+      });
+    }
 
-      if (
-        !artist ||
+    const authorization = req.get('Authorization') || '';
+    const device = await recognizerDeviceService
+      .authenticate(authorization.replace(/^Bearer\s+/i, '').trim())
+      .catch(() => null);
+    if (!device) {
+      return res.status(401).json({
+        success: false,
+        error: 'A registered recognizer API key is required',
+      });
+    }
+
+    const {
+      event = 'track-start',
+      artist,
+      title,
+      album,
+      confidence,
+      timestamp,
+    } = req.body ?? {};
+
+    if (!RECOGNIZER_EVENTS.includes(event)) {
+      return res.status(400).json({
+        success: false,
+        error: `event must be one of: ${RECOGNIZER_EVENTS.join(', ')}`,
+      });
+    }
+    if (
+      event === 'track-start' &&
+      (!artist ||
         !title ||
         typeof artist !== 'string' ||
-        typeof title !== 'string'
-      ) {
-        return res.status(400).json({
-          success: false,
-          error: 'artist and title are required and must be strings',
-        });
-      }
-
-      const trimmedArtist = artist.trim();
-      const trimmedTitle = title.trim();
-      const trimmedAlbum =
-        typeof album === 'string' && album.trim() ? album.trim() : undefined;
-
-      let duration: number | undefined;
-      let durationSource: string | undefined;
-      if (durationLookupService) {
-        try {
-          const lookup = await durationLookupService.lookupDuration(
-            trimmedArtist,
-            trimmedTitle,
-            trimmedAlbum
-          );
-          if (lookup.duration !== null) {
-            duration = lookup.duration;
-          }
-          durationSource = lookup.source;
-        } catch (err) {
-          // Treat a duration-lookup failure as non-fatal — we'd rather
-          // scrobble without a duration than not scrobble at all.
-          logger.warn('Duration lookup failed; scrobbling without duration', {
-            artist: trimmedArtist,
-            track: trimmedTitle,
-            error: err instanceof Error ? err.message : String(err),
-          });
-        }
-      }
+        typeof title !== 'string')
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'artist and title are required and must be strings',
+      });
+    }
+    if (
+      confidence !== undefined &&
+      (typeof confidence !== 'number' || confidence < 0 || confidence > 1)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'confidence must be a number between 0 and 1',
+      });
+    }
+    if (event === 'confidence' && confidence === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'confidence is required for confidence events',
+      });
+    }
 
-      const track: ScrobbleTrack = {
-        artist: trimmedArtist,
-        track: trimmedTitle,
-        album: trimmedAlbum,
+    try {
+      const recognizerEvent: RecognizerEvent = {
+        event,
+        source: device.id,
+        artist: typeof artist === 'string' ? artist : undefined,
+        title: typeof title === 'string' ? title : undefined,
+        album: typeof album === 'string' ? album : undefined,
+        confidence,
         timestamp:
           typeof timestamp === 'number' && Number.isFinite(timestamp)
             ? Math.floor(timestamp)
             : Math.floor(Date.now() / 1000),
-        duration,
       };
-
-      const result = await lastfmService.scrobbleTrack(track);
-
-      logger.info('Scrobbled recognized track', {
-        artist: track.artist,
-        track: track.track,
-        album: track.album,
-        duration: track.duration,
-        durationSource: durationSource ?? 'not_looked_up',
-        source: typeof source === 'string' ? source : 'unknown',
-      });
+      const result = await recognizerSessionService.handleEvent(
+        recognizerEvent,
+        { paused: device.paused }
+      );
+      await recognizerDeviceService
+        .recordEvent(device.id, recognizerEvent, result)
+        .catch(err => {
+          logger.warn('Failed to update recognizer stats', err);
+        });
 
       // Trigger incremental sync after successful scrobble (same pattern as /track)
-      if (scrobbleHistorySyncService) {
-        const jobId = jobStatusService.startJob(
-          'sync',
-          'Syncing scrobble history...'
-        );
+      if (result.scrobbled.length > 0 && scrobbleHistorySyncService) {
         new Promise(resolve => setTimeout(resolve, 5000))
           .then(() => scrobbleHistorySyncService.startIncrementalSync())
-          .then(() =>
-            jobStatusService.completeJob(jobId, 'Scrobble history synced')
-          )
           .catch(err => {
             logger.error('Failed to auto-sync after scrobble:', err);
-            jobStatusService.failJob(jobId, 'Failed to sync scrobble history');
           });
       }
 
-      res.json({
-        success: true,
-        data: {
-          message: 'Recognized track scrobbled',
-          track,
-          durationSource: durationSource ?? 'not_looked_up',
-          scrobbleResult: result,
-        },
+      res.json({ success: true, data: result });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to handle recognizer event',
+      });
+    }
+  });
+
+  // Recent recognizer sessions with what was heard and scrobbled
+  router.get('/recognized/sessions', async (_req: Request, res: Response) => {
+    if (!recognizerSessionService) {
+      return res.status(503).json({
+        success: false,
+        error: 'Recognized scrobbling is not available',
       });
+    }
+
+    try {
+      const sessions = await recognizerSessionService.getSessions();
+      res.json({ success: true, data: sessions });
     } catch (error) {
       res.status(500).json({
         success: false,
-        error: error instanceof Error ? error.message : 'Scrobbling failed',
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to load recognizer sessions',
       });
     }
   });
@@ -197,7 +288,7 @@ export default function createScrobbleRouter(
   // Scrobble multiple tracks
   router.post('/batch', async (req: Request, res: Response) => {
     try {
-      const { tracks, baseTimestamp, collectionRelease } = req.body;
+      const { tracks, baseTimestamp, collectionRelease, source } = req.body;
 
       if (!Array.isArray(tracks) || tracks.length === 0) {
         return res.status(400).json({
@@ -216,6 +307,13 @@ export default function createScrobbleRouter(
         }
       }
 
+      if (source !== undefined && !BATCH_SOURCES.includes(source)) {
+        return res.status(400).json({
+          success: false,
+          error: `source must be one of: ${BATCH_SOURCES.join(', ')}`,
+        });
+      }
+
       // Check authentication after validation
       const testResult = await lastfmService.testConnection();
       if (!testResult.success) {
@@ -226,15 +324,18 @@ export default function createScrobbleRouter(
       }
 
       // Set timestamps for tracks and apply artist mappings
-      const currentTime = baseTimestamp || Math.floor(Date.now() / 1000);
-      const tracksWithTimestamps = tracks.map((track, index) => ({
+      const tracksWithTimestamps = assignBatchTimestamps(
+        tracks as ScrobbleTrack[],
+        baseTimestamp
+      ).map(track => ({
         ...track,
         artist: artistMappingService.getLastfmName(track.artist),
-        timestamp:
-          track.timestamp || currentTime - (tracks.length - index - 1) * 180, // 3 minutes apart
       }));
 
-      const results = await lastfmService.scrobbleBatch(tracksWithTimestamps);
+      const results = await lastfmService.scrobbleBatch(
+        tracksWithTimestamps,
+        source ?? 'app'
+      );
 
       // Trigger incremental sync after successful scrobble
       // Delay to give Last.fm time to index the scrobbles before we fetch them back
@@ -248,18 +349,10 @@ export default function createScrobbleRouter(
           .adjustSyncTimestampForBackdatedScrobbles(earliestTimestamp)
           .catch(err => logger.error('Failed to adjust sync timestamp:', err));
 
-        const jobId = jobStatusService.startJob(
-          'sync',
-          'Syncing scrobble history...'
-        );
         new Promise(resolve => setTimeout(resolve, 5000))
           .then(() => scrobbleHistorySyncService.startIncrementalSync())
-          .then(() =>
-            jobStatusService.completeJob(jobId, 'Scrobble history synced')
-          )
           .catch(err => {
             logger.error('Failed to auto-sync after scrobble:', err);
-            jobStatusService.failJob(jobId, 'Failed to sync scrobble history');
           });
       }
 
@@ -322,6 +415,18 @@ export default function createScrobbleRouter(
         }
       }
 
+      // Remember which sides were played so the next play can continue
+      if (
+        results.success > 0 &&
+        sideMemoryService &&
+        collectionRelease?.releaseId &&
+        Array.isArray(collectionRelease.sides)
+      ) {
+        await sideMemoryService
+          .recordPlay(collectionRelease.releaseId, collectionRelease.sides)
+          .catch(err => logger.warn('Failed to record played sides:', err));
+      }
+
       res.json({
         success: true,
         data: {
@@ -405,10 +510,14 @@ export default function createScrobbleRouter(
     }
   });
 
-  // Prepare tracks for scrobbling from release
+  // Prepare tracks for scrobbling from release. Tracks are picked by index
+  // (selectedTracks), by vinyl side (sides: ["C", "D"]) or by disc (disc: 2).
+  // Timing runs forward from startTime, or back from endTime so the last
+  // track finishes then.
   router.post('/prepare-from-release', async (req: Request, res: Response) => {
     try {
-      const { release, selectedTracks, startTime } = req.body;
+      const { release, selectedTracks, startTime, endTime, sides, disc } =
+        req.body;
 
       if (!release || !release.tracklist) {
         return res.status(400).json({
@@ -417,47 +526,80 @@ export default function createScrobbleRouter(
         });
       }
 
-      // Filter tracks if specific tracks are selected
-      const tracksToScrobble =
-        selectedTracks && selectedTracks.length > 0
-          ? release.tracklist.filter((track: Track, index: number) =>
-              selectedTracks.includes(index)
-            )
-          : release.tracklist;
+      const tracklist: Track[] = release.tracklist;
+      const releaseSides = getReleaseSides(tracklist);
 
-      // Parse start time (expecting Unix timestamp in seconds)
-      const startTimestamp = startTime
-        ? parseInt(startTime)
-        : Math.floor(Date.now() / 1000);
+      let requestedSides: string[] | null = null;
+      if (Array.isArray(sides) && sides.length > 0) {
+        requestedSides = sides.map((side: unknown) =>
+          String(side).toUpperCase()
+        );
+      } else if (disc !== undefined) {
+        requestedSides = releaseSides
+          .filter(side => side.disc === Number(disc))
+          .map(side => side.side);
+      }
 
-      // Calculate timestamps based on track durations
-      let currentTime = startTimestamp;
-      const scrobbleTracks: ScrobbleTrack[] = tracksToScrobble.map(
-        (track: Track) => {
-          const trackDuration = track.duration
-            ? parseTrackDuration(track.duration)
-            : 180; // Default 3 minutes
+      let trackIndices: number[];
+      if (requestedSides) {
+        trackIndices = getSideTrackIndices(tracklist, requestedSides);
+        if (trackIndices.length === 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'No tracks found on the requested sides',
+          });
+        }
+      } else if (Array.isArray(selectedTracks) && selectedTracks.length > 0) {
+        // Filter tracks if specific tracks are selected
+        trackIndices = tracklist
+          .map((_track, index) => index)
+          .filter(index => selectedTracks.includes(index));
+      } else {
+        trackIndices = tracklist.map((_track, index) => index);
+      }
+
+      // Lay the tracks out from a start of zero first so an end time can
+      // be turned into a start time
+      const { tracks: offsets, totalDuration } = scheduleTracks(
+        tracklist,
+        trackIndices,
+        0
+      );
 
+      // Times are Unix timestamps in seconds
+      let startTimestamp: number;
+      if (startTime) {
+        startTimestamp = parseInt(startTime);
+      } else if (endTime) {
+        startTimestamp = parseInt(endTime) - totalDuration;
+      } else {
+        startTimestamp = Math.floor(Date.now() / 1000);
+      }
+
+      const scrobbleTracks: ScrobbleTrack[] = offsets.map(
+        ({ index, timestamp, duration }) => {
+          const track = tracklist[index];
           const originalArtist = track.artist || release.artist;
           const mappedArtist =
             artistMappingService.getLastfmName(originalArtist);
 
-          const scrobbleTrack: ScrobbleTrack = {
+          return {
             artist: mappedArtist,
             track: track.title,
             album: release.title,
             albumCover: release.cover_image,
-            timestamp: currentTime,
-            duration: trackDuration,
+            timestamp: startTimestamp + timestamp,
+            duration,
           };
-
-          // Move to next track time (add duration + 1 second gap)
-          currentTime += trackDuration + 1;
-
-          return scrobbleTrack;
         }
       );
 
+      const scrobbledSides = new Set(
+        offsets
+          .map(({ index }) => getTrackSide(tracklist[index].position))
+          .filter((side): side is string => side !== null)
+      );
+
       res.json({
         success: true,
         data: {
@@ -467,8 +609,9 @@ export default function createScrobbleRouter(
             artist: release.artist,
             year: release.year,
           },
+          sides: releaseSides.filter(side => scrobbledSides.has(side.side)),
           startTime: startTimestamp,
-          totalDuration: currentTime - startTimestamp,
+          totalDuration,
         },
       });
     } catch (error) {
@@ -480,24 +623,31 @@ export default function createScrobbleRouter(
     }
   });
 
-  // Helper function to parse track duration from Discogs format (e.g., "3:45")
-  function parseTrackDuration(duration: string): number {
-    if (typeof duration === 'number') {
-      return duration;
-    }
-
-    if (typeof duration === 'string') {
-      const parts = duration.split(':');
-      if (parts.length === 2) {
-        const minutes = parseInt(parts[0]);
-        const seconds = parseInt(parts[1]);
-        return minutes * 60 + seconds;
+  // Get the sides of a release scrobbled most recently
+  router.get('/side-memory/:releaseId', async (req: Request, res: Response) => {
+    try {
+      const releaseId = parseInt(req.params.releaseId, 10);
+      if (isNaN(releaseId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid release ID',
+        });
       }
-    }
 
-    // Default to 3 minutes if parsing fails
-    return 180;
-  }
+      res.json({
+        success: true,
+        data: sideMemoryService
+          ? await sideMemoryService.getMemory(releaseId)
+          : null,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error:
+          error instanceof Error ? error.message : 'Failed to load side memory',
+      });
+    }
+  });
 
   // Get scrobble progress for a session
   router.get('/progress/:sessionId', async (req: Request, res: Response) => {
@@ -589,6 +739,75 @@ export default function createScrobbleRouter(
     }
   });
 
+  // Undo a session: take its plays out of the local history and list the
+  // Last.fm entries to delete by hand (the API can't delete scrobbles)
+  router.post(
+    '/session/:sessionId/undo',
+    async (req: Request, res: Response) => {
+      const { sessionId } = req.params;
+      if (!validateSessionId(sessionId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid session ID format',
+        });
+      }
+      if (!scrobbleUndoService) {
+        return res.status(503).json({
+          success: false,
+          error: 'Undo is not available',
+        });
+      }
+
+      try {
+        const result = await scrobbleUndoService.undoSession(sessionId);
+        res.json({ success: true, data: result });
+      } catch (error) {
+        res
+          .status(error instanceof ScrobbleUndoError ? error.status : 500)
+          .json({
+            success: false,
+            error:
+              error instanceof Error ? error.message : 'Failed to undo session',
+          });
+      }
+    }
+  );
+
+  // Last.fm entries still to delete for an undone session
+  router.get(
+    '/session/:sessionId/undo',
+    async (req: Request, res: Response) => {
+      const { sessionId } = req.params;
+      if (!validateSessionId(sessionId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid session ID format',
+        });
+      }
+      if (!scrobbleUndoService) {
+        return res.status(503).json({
+          success: false,
+          error: 'Undo is not available',
+        });
+      }
+
+      try {
+        const guide = await scrobbleUndoService.getRemovalGuide(sessionId);
+        res.json({ success: true, data: guide });
+      } catch (error) {
+        res
+          .status(error instanceof ScrobbleUndoError ? error.status : 500)
+          .json({
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Failed to load undo guide',
+          });
+      }
+    }
+  );
+
   // Resubmit a failed or pending scrobble session
   router.post(
     '/session/:sessionId/resubmit',
@@ -622,10 +841,16 @@ export default function createScrobbleRouter(
             error: 'Cannot resubmit completed sessions',
           });
         }
+        if (session.status === 'reverted') {
+          return res.status(400).json({
+            success: false,
+            error: 'Cannot resubmit an undone session',
+          });
+        }
 
-        // Check if there are any non-successful tracks to retry
+        // Check if there are any tracks Last.fm or another target failed
         const failedTracks = session.tracks.filter(
-          t => t.scrobbleStatus !== 'success'
+          t => t.scrobbleStatus !== 'success' || hasFailedTarget(t)
         );
         if (failedTracks.length === 0) {
           return res.status(400).json({
@@ -634,13 +859,15 @@ export default function createScrobbleRouter(
           });
         }
 
-        // Check authentication
-        const testResult = await lastfmService.testConnection();
-        if (!testResult.success) {
-          return res.status(500).json({
-            success: false,
-            error: testResult.message,
-          });
+        // Check authentication when Last.fm has tracks to retry
+        if (failedTracks.some(t => t.scrobbleStatus !== 'success')) {
+          const testResult = await lastfmService.testConnection();
+          if (!testResult.success) {
+            return res.status(500).json({
+              success: false,
+              error: testResult.message,
+            });
+          }
         }
 
         // Update session status to in-progress
@@ -648,7 +875,7 @@ export default function createScrobbleRouter(
         session.error = undefined;
         await fileStorage.writeJSON(sessionPath, session);
 
-        // Only resubmit non-successful tracks (updates scrobbleStatus in place)
+        // Only resubmit what failed, per target (updates statuses in place)
         const results = await lastfmService.resubmitTracks(session.tracks);
 
         // Recalculate session-level counts from per-track statuses
@@ -663,7 +890,11 @@ export default function createScrobbleRouter(
         ).length;
 
         session.status =
-          failedCount === 0 && ignoredCount === 0 ? 'completed' : 'failed';
+          failedCount === 0 &&
+          ignoredCount === 0 &&
+          !session.tracks.some(hasFailedTarget)
+            ? 'completed'
+            : 'failed';
         session.progress = {
           current: session.tracks.length,
           total: session.tracks.length,
@@ -720,6 +951,13 @@ export default function createScrobbleRouter(
           });
         }
 
+        if (session.status === 'reverted') {
+          return res.status(400).json({
+            success: false,
+            error: 'Cannot resubmit an undone session',
+          });
+        }
+
         if (
           isNaN(trackIndex) ||
           trackIndex < 0 ||
@@ -733,24 +971,34 @@ export default function createScrobbleRouter(
 
         const track = session.tracks[trackIndex];
 
-        const testResult = await lastfmService.testConnection();
-        if (!testResult.success) {
-          return res.status(500).json({
-            success: false,
-            error: testResult.message,
-          });
-        }
+        // Retry Last.fm unless it already has this track
+        let scrobbleResult = {
+          success: true,
+          message: 'Already scrobbled to Last.fm',
+        };
+        if (track.scrobbleStatus !== 'success') {
+          const testResult = await lastfmService.testConnection();
+          if (!testResult.success) {
+            return res.status(500).json({
+              success: false,
+              error: testResult.message,
+            });
+          }
 
-        const scrobbleResult = await lastfmService.scrobbleTrack(track);
+          const lastfmResult = await lastfmService.scrobbleTrack(track);
+          scrobbleResult = lastfmResult;
 
-        if (scrobbleResult.success) {
-          track.scrobbleStatus = 'success';
-        } else if (scrobbleResult.ignored > 0) {
-          track.scrobbleStatus = 'ignored';
-        } else {
-          track.scrobbleStatus = 'failed';
+          if (lastfmResult.success) {
+            track.scrobbleStatus = 'success';
+          } else if (lastfmResult.ignored > 0) {
+            track.scrobbleStatus = 'ignored';
+          } else {
+            track.scrobbleStatus = 'failed';
+          }
         }
 
+        const targets = await submitToTargets(track, { onlyFailed: true });
+
         // Recalculate session-level counts
         const successCount = session.tracks.filter(
           t => t.scrobbleStatus === 'success'
@@ -763,7 +1011,11 @@ export default function createScrobbleRouter(
         ).length;
 
         session.status =
-          failedCount === 0 && ignoredCount === 0 ? 'completed' : 'failed';
+          failedCount === 0 &&
+          ignoredCount === 0 &&
+          !session.tracks.some(hasFailedTarget)
+            ? 'completed'
+            : 'failed';
         session.progress = {
           current: session.tracks.length,
           total: session.tracks.length,
@@ -771,17 +1023,18 @@ export default function createScrobbleRouter(
           failed: failedCount,
           ignored: ignoredCount,
         };
-        if (failedCount === 0 && ignoredCount === 0) {
+        if (session.status === 'completed') {
           session.error = undefined;
         }
 
         await fileStorage.writeJSON(sessionPath, session);
 
         res.json({
-          success: scrobbleResult.success,
+          success: scrobbleResult.success && !hasFailedTarget(track),
           data: {
             trackIndex,
             scrobbleStatus: track.scrobbleStatus,
+            targets,
             message: scrobbleResult.message,
             session: {
               status: session.status,
@@ -0,0 +1,96 @@
+import express, { Request, Response } from 'express';
+
+import { ScrobbleQueueService } from '../services/scrobbleQueueService';
+import { sendError, sendSuccess } from '../utils/apiResponse';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ScrobbleQueueRoutes');
+
+/**
+ * Create scrobble retry queue routes with dependency injection.
+ */
+export default function createScrobbleQueueRouter(
+  scrobbleQueueService: ScrobbleQueueService
+): express.Router {
+  const router = express.Router();
+
+  /**
+   * GET /api/v1/scrobble-queue
+   * Returns queue status plus the pending and failed entries.
+   */
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      const [status, entries] = await Promise.all([
+        scrobbleQueueService.getStatus(),
+        scrobbleQueueService.getEntries(),
+      ]);
+      sendSuccess(res, { status, ...entries });
+    } catch (error) {
+      logger.error('Failed to get scrobble queue', error);
+      sendError(res, 500, 'Failed to get scrobble queue');
+    }
+  });
+
+  /**
+   * GET /api/v1/scrobble-queue/status
+   * Returns queue depth only, cheap enough to poll.
+   */
+  router.get('/status', async (_req: Request, res: Response) => {
+    try {
+      const status = await scrobbleQueueService.getStatus();
+      sendSuccess(res, status);
+    } catch (error) {
+      logger.error('Failed to get scrobble queue status', error);
+      sendError(res, 500, 'Failed to get scrobble queue status');
+    }
+  });
+
+  /**
+   * POST /api/v1/scrobble-queue/retry
+   * Retries every pending entry now, ignoring backoff.
+   */
+  router.post('/retry', async (_req: Request, res: Response) => {
+    try {
+      const result = await scrobbleQueueService.drain({ force: true });
+      const status = await scrobbleQueueService.getStatus();
+      sendSuccess(res, { result, status });
+    } catch (error) {
+      logger.error('Failed to retry scrobble queue', error);
+      sendError(res, 500, 'Failed to retry scrobble queue');
+    }
+  });
+
+  /**
+   * DELETE /api/v1/scrobble-queue/failed
+   * Clears the list of entries that were given up on.
+   */
+  router.delete('/failed', async (_req: Request, res: Response) => {
+    try {
+      const cleared = await scrobbleQueueService.clearFailed();
+      sendSuccess(res, { cleared });
+    } catch (error) {
+      logger.error('Failed to clear failed scrobbles', error);
+      sendError(res, 500, 'Failed to clear failed scrobbles');
+    }
+  });
+
+  /**
+   * DELETE /api/v1/scrobble-queue/:id
+   * Drops a pending entry without scrobbling it.
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const removed = await scrobbleQueueService.removeEntry(req.params.id);
+      if (!removed) {
+        sendError(res, 404, 'Queued scrobble not found');
+        return;
+      }
+      sendSuccess(res, { removed: true });
+    } catch (error) {
+      logger.error('Failed to remove queued scrobble', error);
+      sendError(res, 500, 'Failed to remove queued scrobble');
+    }
+  });
+
+  return router;
+}
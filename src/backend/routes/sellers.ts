@@ -2,7 +2,6 @@ import express from 'express';
 
 import { AuthService } from '../services/authService';
 import { SellerMonitoringService } from '../services/sellerMonitoringService';
-import { getRateLimitState } from '../utils/discogsAxios';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 import { validateUsername } from '../utils/validation';
@@ -153,20 +152,6 @@ export default function createSellersRouter(
     }
   });
 
-  // GET /api/v1/sellers/scan/ratelimit - Get current rate limit state
-  router.get('/scan/ratelimit', async (_req, res) => {
-    try {
-      const rateLimitState = getRateLimitState();
-      res.json({ success: true, data: rateLimitState });
-    } catch (error) {
-      logger.error('Error getting rate limit state', error);
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
-  });
-
   // GET /api/v1/sellers/settings - Get settings
   router.get('/settings', async (_req, res) => {
     try {
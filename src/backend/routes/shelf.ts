@@ -0,0 +1,194 @@
+import express, { Request, Response } from 'express';
+
+import {
+  normalizeBarcode,
+  sanitizeShelfLocation,
+} from '../../shared/utils/shelfLocation';
+import { BarcodeLookupService } from '../services/barcodeLookupService';
+import { CollectionEditError } from '../services/collectionEditService';
+import { ShelfLocationService } from '../services/shelfLocationService';
+import { createLogger } from '../utils/logger';
+import { validateUsername } from '../utils/validation';
+
+/**
+ * Create shelf location and barcode lookup routes
+ */
+export default function createShelfRouter(
+  shelfLocationService: ShelfLocationService,
+  barcodeLookupService: BarcodeLookupService
+) {
+  const router = express.Router();
+  const logger = createLogger('ShelfRoutes');
+
+  // All known shelf locations
+  router.get('/locations', async (_req: Request, res: Response) => {
+    try {
+      const locations = await shelfLocationService.getLocations();
+      res.json({ success: true, data: locations });
+    } catch (error) {
+      logger.error('Error getting shelf locations', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Which Discogs note field mirrors the locations
+  router.get('/settings', async (_req: Request, res: Response) => {
+    try {
+      const syncFieldId = await shelfLocationService.getSyncFieldId();
+      res.json({ success: true, data: { syncFieldId: syncFieldId ?? null } });
+    } catch (error) {
+      logger.error('Error getting shelf settings', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  router.put('/settings', async (req: Request, res: Response) => {
+    const { syncFieldId } = req.body ?? {};
+    if (
+      syncFieldId !== null &&
+      (!Number.isInteger(syncFieldId) || syncFieldId <= 0)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'syncFieldId must be a field ID or null',
+      });
+    }
+
+    try {
+      await shelfLocationService.setSyncFieldId(syncFieldId);
+      res.json({ success: true, data: { syncFieldId } });
+    } catch (error) {
+      logger.error('Error saving shelf settings', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Set or clear the location of a collection instance
+  const saveLocation = async (req: Request, res: Response, clear: boolean) => {
+    const { username } = req.params;
+    const instanceId = Number(req.params.instanceId);
+
+    if (!validateUsername(username)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid username format',
+      });
+    }
+    if (!Number.isInteger(instanceId) || instanceId <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid instance ID',
+      });
+    }
+
+    const location = clear ? null : sanitizeShelfLocation(req.body);
+    if (!clear && !location) {
+      return res.status(400).json({
+        success: false,
+        error: 'A shelf is required',
+      });
+    }
+
+    try {
+      const result = await shelfLocationService.setLocation(
+        username,
+        instanceId,
+        location
+      );
+      res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error(`Error saving shelf location of ${instanceId}`, error);
+      res
+        .status(error instanceof CollectionEditError ? error.status : 500)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Failed to save shelf location',
+        });
+    }
+  };
+
+  router.put(
+    '/:username/locations/:instanceId',
+    (req: Request, res: Response) => saveLocation(req, res, false)
+  );
+
+  router.delete(
+    '/:username/locations/:instanceId',
+    (req: Request, res: Response) => saveLocation(req, res, true)
+  );
+
+  // Import locations noted in the mirrored Discogs field
+  router.post('/:username/import', async (req: Request, res: Response) => {
+    const { username } = req.params;
+    if (!validateUsername(username)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid username format',
+      });
+    }
+
+    try {
+      if (!(await shelfLocationService.getSyncFieldId())) {
+        return res.status(400).json({
+          success: false,
+          error: 'Choose a Discogs note field for shelf locations first',
+        });
+      }
+      const result = await shelfLocationService.importFromField(username);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('Error importing shelf locations', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Resolve a scanned or typed EAN/UPC barcode
+  router.get(
+    '/:username/barcode/:code',
+    async (req: Request, res: Response) => {
+      const { username } = req.params;
+      if (!validateUsername(username)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid username format',
+        });
+      }
+
+      const barcode = normalizeBarcode(req.params.code);
+      if (!barcode) {
+        return res.status(400).json({
+          success: false,
+          error: 'Not a valid EAN or UPC barcode',
+        });
+      }
+
+      try {
+        const result = await barcodeLookupService.lookup(username, barcode);
+        res.json({ success: true, data: result });
+      } catch (error) {
+        logger.error(`Error looking up barcode ${barcode}`, error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  return router;
+}
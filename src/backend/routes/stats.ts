@@ -22,6 +22,7 @@ import { MappingService } from '../services/mappingService';
 import { RankingsService } from '../services/rankingsService';
 import { ScrobbleHistoryStorage } from '../services/scrobbleHistoryStorage';
 import { SellerMonitoringService } from '../services/sellerMonitoringService';
+import { SessionReconstructionService } from '../services/sessionReconstructionService';
 import { StatsService } from '../services/statsService';
 import { WishlistService } from '../services/wishlistService';
 import { getAllCachedCollectionItems } from '../utils/collectionCache';
@@ -43,7 +44,8 @@ export default function createStatsRouter(
   mappingService?: MappingService,
   historyIndexMergeService?: HistoryIndexMergeService,
   imageService?: ImageService,
-  genreAnalysisService?: GenreAnalysisService
+  genreAnalysisService?: GenreAnalysisService,
+  sessionReconstructionService?: SessionReconstructionService
 ) {
   const router = express.Router();
   const logger = createLogger('StatsRoutes');
@@ -959,6 +961,116 @@ export default function createStatsRouter(
     }
   });
 
+  /**
+   * GET /api/v1/stats/sources/splits
+   * Get physical vs streaming plays overall and per album, artist and month
+   * Query params:
+   *   limit: number (albums and artists to include, default: 20)
+   *   startDate: number (Unix timestamp in seconds, optional)
+   *   endDate: number (Unix timestamp in seconds, optional)
+   */
+  router.get('/sources/splits', async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const startDate = req.query.startDate
+        ? parseInt(req.query.startDate as string)
+        : undefined;
+      const endDate = req.query.endDate
+        ? parseInt(req.query.endDate as string)
+        : undefined;
+
+      if (
+        (startDate !== undefined && isNaN(startDate)) ||
+        (endDate !== undefined && isNaN(endDate))
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: 'startDate and endDate must be Unix timestamps in seconds',
+        });
+      }
+
+      const splits = await statsService.getSourceSplits(
+        limit,
+        startDate,
+        endDate
+      );
+
+      res.json({
+        success: true,
+        data: splits,
+      });
+    } catch (error) {
+      logger.error('Error getting source splits', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/stats/sessions
+   * Get listening sessions rebuilt from scrobbles, grouped by day, with
+   * counts of full-album plays, partial plays and shuffles
+   * Query params:
+   *   startDate: number (Unix timestamp in seconds, default: 30 days ago)
+   *   endDate: number (Unix timestamp in seconds, default: now)
+   *   artist, album: string (optional, only sessions including this album)
+   */
+  router.get('/sessions', async (req: Request, res: Response) => {
+    try {
+      if (!sessionReconstructionService) {
+        return res.status(501).json({
+          success: false,
+          error: 'Session reconstruction service not available',
+        });
+      }
+
+      const startDate = req.query.startDate
+        ? parseInt(req.query.startDate as string)
+        : undefined;
+      const endDate = req.query.endDate
+        ? parseInt(req.query.endDate as string)
+        : undefined;
+
+      if (
+        (startDate !== undefined && isNaN(startDate)) ||
+        (endDate !== undefined && isNaN(endDate))
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: 'startDate and endDate must be Unix timestamps in seconds',
+        });
+      }
+
+      const artist = req.query.artist as string | undefined;
+      const album = req.query.album as string | undefined;
+      if (!!artist !== !!album) {
+        return res.status(400).json({
+          success: false,
+          error: 'artist and album must be given together',
+        });
+      }
+
+      const sessions = await sessionReconstructionService.getSessions(
+        startDate,
+        endDate,
+        artist && album ? { artist, album } : undefined
+      );
+
+      res.json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      logger.error('Error getting listening sessions', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   // ============================================
   // Timeline
   // ============================================
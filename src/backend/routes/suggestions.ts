@@ -5,6 +5,10 @@ import {
   SuggestionSettings,
   SyncSettings,
 } from '../../shared/types';
+import {
+  filterByCollectionScope,
+  parseCollectionScope,
+} from '../../shared/utils/collectionScope';
 import { AIPromptBuilder, AIPromptContext } from '../services/aiPromptBuilder';
 import { AnalyticsService } from '../services/analyticsService';
 import { artistMappingService } from '../services/artistMappingService';
@@ -12,7 +16,6 @@ import { ArtistNameResolver } from '../services/artistNameResolver';
 import { AuthService } from '../services/authService';
 import { DiscogsService } from '../services/discogsService';
 import { HiddenItemService } from '../services/hiddenItemService';
-import { jobStatusService } from '../services/jobStatusService';
 import { MappingService } from '../services/mappingService';
 import {
   DEFAULT_OLLAMA_SETTINGS,
@@ -92,8 +95,21 @@ export default function createSuggestionsRouter(
         });
       }
 
-      const suggestions = await suggestionService.getSuggestions(
+      const scopedItems = filterByCollectionScope(
         allItems,
+        userSettings?.collectionScope
+      );
+      if (scopedItems.length === 0) {
+        return res.json({
+          success: true,
+          data: [],
+          message:
+            'No collection items match the selected folder or custom fields.',
+        });
+      }
+
+      const suggestions = await suggestionService.getSuggestions(
+        scopedItems,
         count,
         userSettings || undefined
       );
@@ -200,13 +216,22 @@ export default function createSuggestionsRouter(
    */
   router.post('/settings', async (req: Request, res: Response) => {
     try {
-      const { weights, excludeRecentlyPlayed, preferNeverPlayed } = req.body;
+      const {
+        weights,
+        excludeRecentlyPlayed,
+        preferNeverPlayed,
+        collectionScope,
+      } = req.body;
 
       const settings: SuggestionSettings = {
         weights: weights || DEFAULT_WEIGHTS,
         excludeRecentlyPlayed: excludeRecentlyPlayed ?? false,
         preferNeverPlayed: preferNeverPlayed ?? false,
       };
+      const scope = parseCollectionScope(collectionScope);
+      if (scope) {
+        settings.collectionScope = scope;
+      }
 
       await fileStorage.writeJSONWithBackup(SUGGESTION_SETTINGS_FILE, settings);
 
@@ -300,38 +325,15 @@ export default function createSuggestionsRouter(
     try {
       const { incremental } = req.body;
 
-      // Start sync in background
+      // Start sync in background; the sync service reports it as a job
       if (incremental) {
-        const jobId = jobStatusService.startJob(
-          'sync',
-          'Running incremental history sync...'
-        );
-        syncService
-          .startIncrementalSync()
-          .then(() =>
-            jobStatusService.completeJob(
-              jobId,
-              'Incremental history sync complete'
-            )
-          )
-          .catch(error => {
-            logger.error('Background incremental sync failed', error);
-            jobStatusService.failJob(jobId, 'Incremental history sync failed');
-          });
+        syncService.startIncrementalSync().catch(error => {
+          logger.error('Background incremental sync failed', error);
+        });
       } else {
-        const jobId = jobStatusService.startJob(
-          'sync',
-          'Running full history sync...'
-        );
-        syncService
-          .startFullSync()
-          .then(() =>
-            jobStatusService.completeJob(jobId, 'Full history sync complete')
-          )
-          .catch(error => {
-            logger.error('Background full sync failed', error);
-            jobStatusService.failJob(jobId, 'Full history sync failed');
-          });
+        syncService.startFullSync().catch(error => {
+          logger.error('Background full sync failed', error);
+        });
       }
 
       res.json({
@@ -382,22 +384,9 @@ export default function createSuggestionsRouter(
    */
   router.post('/history/sync/resume', async (req: Request, res: Response) => {
     try {
-      const jobId = jobStatusService.startJob(
-        'sync',
-        'Resuming history sync...'
-      );
-      syncService
-        .resumeSync()
-        .then(() =>
-          jobStatusService.completeJob(
-            jobId,
-            'History sync resumed and complete'
-          )
-        )
-        .catch(error => {
-          logger.error('Background resume failed', error);
-          jobStatusService.failJob(jobId, 'History sync resume failed');
-        });
+      syncService.resumeSync().catch(error => {
+        logger.error('Background resume failed', error);
+      });
 
       res.json({
         success: true,
@@ -437,6 +426,36 @@ export default function createSuggestionsRouter(
     }
   });
 
+  /**
+   * GET /api/v1/suggestions/history/index/export
+   * Download the scrobble history index as JSON, whichever storage holds it
+   */
+  router.get('/history/index/export', async (req: Request, res: Response) => {
+    try {
+      const index = await syncService.getHistoryIndex();
+      if (!index) {
+        return res.status(404).json({
+          success: false,
+          error: 'No history index to export',
+        });
+      }
+
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="scrobble-history-index-${new Date().toISOString().split('T')[0]}.json"`
+      );
+
+      res.json(index);
+    } catch (error) {
+      logger.error('Error exporting history index', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   /**
    * GET /api/v1/suggestions/history/sync/settings
    * Get sync settings
@@ -1260,8 +1279,14 @@ export default function createSuggestionsRouter(
         });
       }
 
-      // Get collection
-      const allItems = await getAllCachedCollectionItems(username, fileStorage);
+      // Get collection, limited to the scope chosen in suggestion settings
+      const suggestionSettings = await fileStorage.readJSON<SuggestionSettings>(
+        SUGGESTION_SETTINGS_FILE
+      );
+      const allItems = filterByCollectionScope(
+        await getAllCachedCollectionItems(username, fileStorage),
+        suggestionSettings?.collectionScope
+      );
 
       if (allItems.length === 0) {
         return res.status(400).json({
@@ -1,7 +1,7 @@
 import express, { Request, Response } from 'express';
 
 import { AuthService } from '../services/authService';
-import { jobStatusService } from '../services/jobStatusService';
+import { JobService } from '../services/jobService';
 import { SellerMonitoringService } from '../services/sellerMonitoringService';
 import { WishlistService } from '../services/wishlistService';
 import { FileStorage } from '../utils/fileStorage';
@@ -18,6 +18,7 @@ export default function createWishlistRouter(
   _fileStorage: FileStorage,
   authService: AuthService,
   wishlistService: WishlistService,
+  jobService: JobService,
   sellerMonitoringService?: SellerMonitoringService
 ) {
   const router = express.Router();
@@ -528,19 +529,15 @@ export default function createWishlistRouter(
       res.json({ success: true, data: { message: 'Check started' } });
 
       // Run check asynchronously
-      const jobId = jobStatusService.startJob(
+      jobService.runJob(
         'new-release-check',
-        'Checking for new releases...'
+        'Checking for new releases...',
+        async () => {
+          await wishlistService.checkForNewReleases(true);
+          return 'New release check complete';
+        },
+        { failureMessage: 'New release check failed' }
       );
-      wishlistService
-        .checkForNewReleases(true)
-        .then(() =>
-          jobStatusService.completeJob(jobId, 'New release check complete')
-        )
-        .catch(error => {
-          logger.error('Background new release check failed', error);
-          jobStatusService.failJob(jobId, 'New release check failed');
-        });
     } catch (error) {
       logger.error('Error starting new release check', error);
       res.status(500).json({
@@ -1,13 +1,86 @@
 import express, { Request, Response } from 'express';
 
+import { WrappedCompareMode, WrappedExportOptions } from '../../shared/types';
+import { WrappedExportService } from '../services/wrappedExportService';
 import { WrappedService } from '../services/wrappedService';
 import { createLogger } from '../utils/logger';
+import { getComparisonRange } from '../utils/wrappedComparison';
+
+const COMPARE_MODES: WrappedCompareMode[] = ['previous', 'lastYear'];
+
+/**
+ * Validate the startDate/endDate query params shared by every wrapped route
+ * (or another pair of range params, such as compareStartDate/compareEndDate).
+ * Sends a 400 and returns null when they are invalid.
+ */
+function parseDateRange(
+  req: Request,
+  res: Response,
+  startParam = 'startDate',
+  endParam = 'endDate'
+): { startMs: number; endMs: number } | null {
+  const startDate = req.query[startParam];
+  const endDate = req.query[endParam];
+
+  // Validate required parameters
+  if (!startDate || !endDate) {
+    res.status(400).json({
+      success: false,
+      error: `Both ${startParam} and ${endParam} query parameters are required`,
+    });
+    return null;
+  }
+
+  const startMs = Number(startDate);
+  const endMs = Number(endDate);
+
+  // Validate numeric and finite
+  if (
+    isNaN(startMs) ||
+    isNaN(endMs) ||
+    !isFinite(startMs) ||
+    !isFinite(endMs)
+  ) {
+    res.status(400).json({
+      success: false,
+      error: `${startParam} and ${endParam} must be valid numbers (milliseconds)`,
+    });
+    return null;
+  }
+
+  // Validate range
+  if (startMs >= endMs) {
+    res.status(400).json({
+      success: false,
+      error: `${startParam} must be before ${endParam}`,
+    });
+    return null;
+  }
+
+  // Validate not in the future
+  if (endMs > Date.now()) {
+    res.status(400).json({
+      success: false,
+      error: `${endParam} cannot be in the future`,
+    });
+    return null;
+  }
+
+  return { startMs, endMs };
+}
+
+function parseExportOptions(req: Request): WrappedExportOptions {
+  return { redactHidden: req.query.redactHidden === 'true' };
+}
 
 /**
  * Create wrapped routes with dependency injection.
  * Follows the router factory pattern (see discardPile.ts).
  */
-export default function createWrappedRouter(wrappedService: WrappedService) {
+export default function createWrappedRouter(
+  wrappedService: WrappedService,
+  wrappedExportService?: WrappedExportService
+) {
   const router = express.Router();
   const logger = createLogger('WrappedRoutes');
 
@@ -17,68 +90,218 @@ export default function createWrappedRouter(wrappedService: WrappedService) {
    */
   router.get('/', async (req: Request, res: Response) => {
     try {
-      const { startDate, endDate } = req.query;
+      const range = parseDateRange(req, res);
+      if (!range) return;
+
+      logger.info('Generating wrapped data', {
+        startDate: new Date(range.startMs).toISOString(),
+        endDate: new Date(range.endMs).toISOString(),
+      });
+
+      const data = await wrappedService.generateWrapped(
+        range.startMs,
+        range.endMs
+      );
+
+      res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      logger.error('Failed to generate wrapped data', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate wrapped data',
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/wrapped/compare?startDate=<ms>&endDate=<ms>&compareTo=<previous|lastYear>
+   * GET /api/v1/wrapped/compare?startDate=<ms>&endDate=<ms>&compareStartDate=<ms>&compareEndDate=<ms>
+   * Generate wrapped data for a range and compare it with the previous period
+   * of the same length, the same dates a year earlier, or a range of the
+   * caller's choosing.
+   */
+  router.get('/compare', async (req: Request, res: Response) => {
+    try {
+      const range = parseDateRange(req, res);
+      if (!range) return;
 
-      // Validate required parameters
-      if (!startDate || !endDate) {
+      const compareTo = req.query.compareTo ?? 'previous';
+      if (!COMPARE_MODES.includes(compareTo as WrappedCompareMode)) {
         res.status(400).json({
           success: false,
-          error: 'Both startDate and endDate query parameters are required',
+          error: `compareTo must be one of: ${COMPARE_MODES.join(', ')}`,
         });
         return;
       }
 
-      const startMs = Number(startDate);
-      const endMs = Number(endDate);
-
-      // Validate numeric and finite
+      let compareRange: { startMs: number; endMs: number } | null;
       if (
-        isNaN(startMs) ||
-        isNaN(endMs) ||
-        !isFinite(startMs) ||
-        !isFinite(endMs)
+        req.query.compareStartDate !== undefined ||
+        req.query.compareEndDate !== undefined
       ) {
-        res.status(400).json({
-          success: false,
-          error: 'startDate and endDate must be valid numbers (milliseconds)',
-        });
-        return;
+        compareRange = parseDateRange(
+          req,
+          res,
+          'compareStartDate',
+          'compareEndDate'
+        );
+        if (!compareRange) return;
+      } else {
+        compareRange = getComparisonRange(
+          range.startMs,
+          range.endMs,
+          compareTo as WrappedCompareMode
+        );
       }
 
-      // Validate range
-      if (startMs >= endMs) {
-        res.status(400).json({
+      logger.info('Comparing wrapped data', {
+        startDate: new Date(range.startMs).toISOString(),
+        endDate: new Date(range.endMs).toISOString(),
+        compareStartDate: new Date(compareRange.startMs).toISOString(),
+        compareEndDate: new Date(compareRange.endMs).toISOString(),
+      });
+
+      const data = await wrappedService.compareWrapped(
+        range.startMs,
+        range.endMs,
+        compareRange.startMs,
+        compareRange.endMs
+      );
+
+      res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      logger.error('Failed to compare wrapped data', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to compare wrapped data',
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/wrapped/export/html?startDate=<ms>&endDate=<ms>&redactHidden=<bool>
+   * Download wrapped as a single offline HTML page with inlined styles and
+   * cover art.
+   */
+  router.get('/export/html', async (req: Request, res: Response) => {
+    try {
+      if (!wrappedExportService) {
+        res.status(501).json({
           success: false,
-          error: 'startDate must be before endDate',
+          error: 'Wrapped export not available',
         });
         return;
       }
 
-      // Validate not in the future
-      if (endMs > Date.now()) {
-        res.status(400).json({
+      const range = parseDateRange(req, res);
+      if (!range) return;
+
+      const html = await wrappedExportService.exportHtml(
+        range.startMs,
+        range.endMs,
+        parseExportOptions(req)
+      );
+
+      const filename = `wrapped-${new Date(range.startMs).toISOString().split('T')[0]}.html`;
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}"`
+      );
+      res.send(html);
+    } catch (error) {
+      logger.error('Failed to export wrapped HTML', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export wrapped',
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/wrapped/export/cards?startDate=<ms>&endDate=<ms>&redactHidden=<bool>
+   * List the story cards available for a date range.
+   */
+  router.get('/export/cards', async (req: Request, res: Response) => {
+    try {
+      if (!wrappedExportService) {
+        res.status(501).json({
           success: false,
-          error: 'endDate cannot be in the future',
+          error: 'Wrapped export not available',
         });
         return;
       }
 
-      logger.info('Generating wrapped data', {
-        startDate: new Date(startMs).toISOString(),
-        endDate: new Date(endMs).toISOString(),
-      });
+      const range = parseDateRange(req, res);
+      if (!range) return;
 
-      const data = await wrappedService.generateWrapped(startMs, endMs);
+      const cards = await wrappedExportService.listCards(
+        range.startMs,
+        range.endMs,
+        parseExportOptions(req)
+      );
 
       res.json({
         success: true,
-        data,
+        data: cards,
       });
     } catch (error) {
-      logger.error('Failed to generate wrapped data', error);
+      logger.error('Failed to list wrapped cards', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to generate wrapped data',
+        error: 'Failed to list wrapped cards',
+      });
+    }
+  });
+
+  /**
+   * GET /api/v1/wrapped/export/cards/:cardId?startDate=<ms>&endDate=<ms>&redactHidden=<bool>
+   * Render one story card as a 1080×1920 PNG.
+   */
+  router.get('/export/cards/:cardId', async (req: Request, res: Response) => {
+    try {
+      if (!wrappedExportService) {
+        res.status(501).json({
+          success: false,
+          error: 'Wrapped export not available',
+        });
+        return;
+      }
+
+      const range = parseDateRange(req, res);
+      if (!range) return;
+
+      const png = await wrappedExportService.renderCardPng(
+        range.startMs,
+        range.endMs,
+        req.params.cardId,
+        parseExportOptions(req)
+      );
+      if (!png) {
+        res.status(404).json({
+          success: false,
+          error: 'Card not found',
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="wrapped-${req.params.cardId}.png"`
+      );
+      res.send(png);
+    } catch (error) {
+      logger.error('Failed to render wrapped card', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to render wrapped card',
       });
     }
   });
@@ -147,6 +147,22 @@ export class AuthService {
     return decrypted;
   }
 
+  /**
+   * Encrypt a credential kept outside user settings, such as a notification
+   * channel password. Same key and format as the tokens stored here.
+   */
+  encryptSecret(value: string): string {
+    return this.encrypt(value);
+  }
+
+  /**
+   * Decrypt a value from encryptSecret(). Throws DecryptionError if the
+   * encryption key has changed.
+   */
+  decryptSecret(value: string): string {
+    return this.decrypt(value);
+  }
+
   /**
    * Checks if settings contain any credentials (tokens/keys).
    */
@@ -156,7 +172,8 @@ export class AuthService {
       settings.discogs.username ||
       settings.lastfm.apiKey ||
       settings.lastfm.sessionKey ||
-      settings.lastfm.username
+      settings.lastfm.username ||
+      settings.listenbrainz?.token
     );
   }
 
@@ -168,7 +185,8 @@ export class AuthService {
     return !!(
       settings.discogs.token ||
       settings.lastfm.apiKey ||
-      settings.lastfm.sessionKey
+      settings.lastfm.sessionKey ||
+      settings.listenbrainz?.token
     );
   }
 
@@ -268,6 +286,9 @@ export class AuthService {
     const decrypted: UserSettings = {
       discogs: { ...settings.discogs },
       lastfm: { ...settings.lastfm },
+      listenbrainz: settings.listenbrainz
+        ? { ...settings.listenbrainz }
+        : undefined,
       preferences: { ...settings.preferences },
       temp: settings.temp ? { ...settings.temp } : undefined,
     };
@@ -281,6 +302,9 @@ export class AuthService {
     if (decrypted.lastfm.sessionKey) {
       decrypted.lastfm.sessionKey = this.decrypt(decrypted.lastfm.sessionKey);
     }
+    if (decrypted.listenbrainz?.token) {
+      decrypted.listenbrainz.token = this.decrypt(decrypted.listenbrainz.token);
+    }
 
     return decrypted;
   }
@@ -293,6 +317,9 @@ export class AuthService {
     const encryptedSettings: UserSettings = {
       discogs: { ...settings.discogs },
       lastfm: { ...settings.lastfm },
+      listenbrainz: settings.listenbrainz
+        ? { ...settings.listenbrainz }
+        : undefined,
       preferences: { ...settings.preferences },
       temp: settings.temp ? { ...settings.temp } : undefined,
     };
@@ -313,6 +340,11 @@ export class AuthService {
         encryptedSettings.lastfm.sessionKey
       );
     }
+    if (encryptedSettings.listenbrainz?.token) {
+      encryptedSettings.listenbrainz.token = this.encrypt(
+        encryptedSettings.listenbrainz.token
+      );
+    }
 
     // SAFETY: Block saving empty tokens if existing file has them
     // This prevents accidental credential loss due to decryption failures
@@ -399,10 +431,51 @@ export class AuthService {
     };
   }
 
+  async setListenBrainzToken(token: string, username?: string): Promise<void> {
+    const settings = await this.getUserSettings();
+    settings.listenbrainz = {
+      ...settings.listenbrainz,
+      token,
+      username,
+      enabled: settings.listenbrainz?.enabled ?? true,
+    };
+    await this.saveUserSettings(settings);
+  }
+
+  async getListenBrainzCredentials(): Promise<{
+    token?: string;
+    username?: string;
+    enabled: boolean;
+  }> {
+    const settings = await this.getUserSettings();
+    return {
+      token: settings.listenbrainz?.token,
+      username: settings.listenbrainz?.username,
+      enabled: settings.listenbrainz?.enabled ?? true,
+    };
+  }
+
+  /**
+   * Turn ListenBrainz submission on or off without forgetting the token.
+   */
+  async setListenBrainzEnabled(enabled: boolean): Promise<void> {
+    const settings = await this.getUserSettings();
+    settings.listenbrainz = { ...settings.listenbrainz, enabled };
+    await this.saveUserSettings(settings);
+  }
+
+  async clearListenBrainzToken(): Promise<void> {
+    const settings = await this.getUserSettings();
+    delete settings.listenbrainz;
+    // Intentional clear - bypass credential protection
+    await this.saveUserSettings(settings, { allowCredentialClear: true });
+  }
+
   async clearTokens(): Promise<void> {
     const settings = await this.getUserSettings();
     settings.discogs = {};
     settings.lastfm = {};
+    delete settings.listenbrainz;
     // Intentional clear - bypass credential protection
     await this.saveUserSettings(settings, { allowCredentialClear: true });
   }
@@ -67,6 +67,8 @@ import {
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
+import { NotificationService } from './notificationService';
+
 const logger = createLogger('BackupService');
 
 // File paths for backup data
@@ -123,11 +125,18 @@ export class BackupService {
   private fileStorage: FileStorage;
   private dataDir: string;
 
+  private notificationService: NotificationService | null = null;
+
   constructor(fileStorage: FileStorage, dataDir: string = 'data') {
     this.fileStorage = fileStorage;
     this.dataDir = dataDir;
   }
 
+  /** Optional: raises failed-backup notifications in the profile's inbox. */
+  setNotificationService(service: NotificationService): void {
+    this.notificationService = service;
+  }
+
   // ============================================
   // Checksum & Encryption Utilities
   // ============================================
@@ -583,6 +592,7 @@ export class BackupService {
       const credentialsJson = JSON.stringify({
         discogs: (userSettings as UserSettings).discogs,
         lastfm: (userSettings as UserSettings).lastfm,
+        listenbrainz: (userSettings as UserSettings).listenbrainz,
       });
       const encryptedCredentials = this.encryptCredentials(
         credentialsJson,
@@ -597,6 +607,7 @@ export class BackupService {
             encrypted: encryptedCredentials,
           } as unknown as UserSettings['discogs'],
           lastfm: {} as unknown as UserSettings['lastfm'],
+          listenbrainz: undefined,
         } as UserSettings,
       };
     }
@@ -896,6 +907,7 @@ export class BackupService {
             ...backup.data.userSettings,
             discogs: credentials.discogs,
             lastfm: credentials.lastfm,
+            listenbrainz: credentials.listenbrainz,
           } as UserSettings;
         }
       } catch {
@@ -1053,6 +1065,12 @@ export class BackupService {
         ...current.lastfm,
         ...((backupSettings as UserSettings).lastfm || {}),
       },
+      listenbrainz: (backupSettings as UserSettings).listenbrainz
+        ? {
+            ...current.listenbrainz,
+            ...(backupSettings as UserSettings).listenbrainz,
+          }
+        : current.listenbrainz,
       preferences: {
         ...current.preferences,
         ...(backupSettings as UserSettings).preferences,
@@ -1540,6 +1558,10 @@ export class BackupService {
       await this.runAutoBackup();
     } catch (error) {
       logger.error('Auto-backup check failed', error);
+      this.notificationService?.raise({
+        type: 'backup-failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
   }
 }
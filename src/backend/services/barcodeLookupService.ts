@@ -0,0 +1,130 @@
+import {
+  BarcodeIndexStore,
+  BarcodeLookupResult,
+  BarcodeMatch,
+  CollectionItem,
+} from '../../shared/types';
+import { getAllCachedCollectionItems } from '../utils/collectionCache';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import { DiscogsService } from './discogsService';
+import { ShelfLocationService } from './shelfLocationService';
+
+const INDEX_FILE = 'collections/barcode-index.json';
+
+/**
+ * Resolves scanned or typed barcodes to releases.
+ *
+ * Discogs' database search finds the releases carrying a barcode; those are
+ * remembered so scanning the same record again needs no request. Each
+ * release is then matched against the cached collection, by release and
+ * failing that by master, and owned records come back with their shelf
+ * location.
+ */
+export class BarcodeLookupService {
+  private logger = createLogger('BarcodeLookupService');
+  private store: BarcodeIndexStore | null = null;
+
+  constructor(
+    private fileStorage: FileStorage,
+    private discogsService: DiscogsService,
+    private shelfLocationService: ShelfLocationService
+  ) {}
+
+  private async loadStore(): Promise<BarcodeIndexStore> {
+    if (this.store) return this.store;
+
+    const data = await this.fileStorage.readJSON<BarcodeIndexStore>(INDEX_FILE);
+    if (data && data.schemaVersion === 1) {
+      this.store = data;
+      return data;
+    }
+
+    this.store = { schemaVersion: 1, barcodes: {} };
+    return this.store;
+  }
+
+  /**
+   * Look up a normalised barcode (see `normalizeBarcode`). Collection
+   * matches come first.
+   */
+  async lookup(
+    username: string,
+    barcode: string
+  ): Promise<BarcodeLookupResult> {
+    const releases = await this.findReleases(barcode);
+    const items = await getAllCachedCollectionItems(username, this.fileStorage);
+
+    const byRelease = new Map<number, CollectionItem>();
+    const byMaster = new Map<number, CollectionItem>();
+    for (const item of items) {
+      if (!byRelease.has(item.release.id)) {
+        byRelease.set(item.release.id, item);
+      }
+      if (item.release.master_id && !byMaster.has(item.release.master_id)) {
+        byMaster.set(item.release.master_id, item);
+      }
+    }
+
+    const matches: BarcodeMatch[] = [];
+    for (const release of releases) {
+      const exact = byRelease.get(release.releaseId);
+      const sameMaster = release.masterId
+        ? byMaster.get(release.masterId)
+        : undefined;
+      const owned = exact ?? sameMaster;
+      if (!owned) {
+        matches.push(release);
+        continue;
+      }
+
+      const location = await this.shelfLocationService.getLocation(owned.id);
+      matches.push({
+        ...release,
+        collectionItemId: owned.id,
+        ...(exact ? {} : { otherPressing: true }),
+        ...(location
+          ? {
+              shelfLocation: {
+                shelf: location.shelf,
+                row: location.row,
+                position: location.position,
+              },
+            }
+          : {}),
+      });
+    }
+
+    const rank = (match: BarcodeMatch) =>
+      match.collectionItemId ? (match.otherPressing ? 1 : 0) : 2;
+    matches.sort((a, b) => rank(a) - rank(b));
+
+    return { barcode, matches };
+  }
+
+  /**
+   * Releases with this barcode, from the index or else Discogs. Empty
+   * results aren't remembered, as Discogs may add the barcode later.
+   */
+  private async findReleases(barcode: string): Promise<BarcodeMatch[]> {
+    const store = await this.loadStore();
+    const known = store.barcodes[barcode];
+    if (known) return known;
+
+    const releases = await this.discogsService.searchReleasesByBarcode(barcode);
+    if (releases.length > 0) {
+      const updated: BarcodeIndexStore = {
+        ...store,
+        barcodes: { ...store.barcodes, [barcode]: releases },
+      };
+      await this.fileStorage.writeJSON(INDEX_FILE, updated);
+      this.store = updated;
+    }
+
+    this.logger.info(
+      `Discogs has ${releases.length} releases with barcode ${barcode}`
+    );
+    return releases;
+  }
+}
@@ -52,6 +52,7 @@ export interface CleanupReport {
   collectionArtistsCacheCleared: boolean;
   artistTagsEntriesRemoved: number;
   collectionValueCacheCleared: boolean;
+  discogsResponseCacheFilesRemoved: number;
   errors: string[];
   durationMs: number;
 }
@@ -67,6 +68,7 @@ export class CleanupService {
   private readonly COLLECTION_ARTISTS_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
   private readonly ARTIST_TAGS_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
   private readonly COLLECTION_VALUE_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly DISCOGS_RESPONSE_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
 
   constructor(storage: FileStorage) {
     this.storage = storage;
@@ -87,6 +89,7 @@ export class CleanupService {
       collectionArtistsCacheCleared: false,
       artistTagsEntriesRemoved: 0,
       collectionValueCacheCleared: false,
+      discogsResponseCacheFilesRemoved: 0,
       errors: [],
       durationMs: 0,
     };
@@ -163,6 +166,16 @@ export class CleanupService {
       log.error(msg);
     }
 
+    // Discogs API response cache
+    try {
+      report.discogsResponseCacheFilesRemoved =
+        await this.cleanupDiscogsResponseCache();
+    } catch (e) {
+      const msg = `Discogs response cache cleanup failed: ${e instanceof Error ? e.message : String(e)}`;
+      report.errors.push(msg);
+      log.error(msg);
+    }
+
     report.durationMs = nowUnixMs() - startTime;
 
     log.info(
@@ -394,6 +407,37 @@ export class CleanupService {
     return false;
   }
 
+  /**
+   * Clean up Discogs API responses not stored or revalidated in 30 days.
+   * Revalidating an entry rewrites it, so mtime tracks last use.
+   *
+   * @returns Number of files removed
+   */
+  async cleanupDiscogsResponseCache(): Promise<number> {
+    const cutoff = nowUnixMs() - this.DISCOGS_RESPONSE_CACHE_MAX_AGE_MS;
+
+    const files = await this.storage.listFiles('cache/discogs');
+    let removed = 0;
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+
+      const filePath = `cache/discogs/${file}`;
+      const stats = await this.storage.getStats(filePath);
+
+      if (stats.exists && stats.mtime && stats.mtime.getTime() < cutoff) {
+        await this.storage.delete(filePath);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      log.debug(`Removed ${removed} stale Discogs response cache files`);
+    }
+
+    return removed;
+  }
+
   /**
    * Get the retention period settings (for testing/debugging).
    */
@@ -405,6 +449,7 @@ export class CleanupService {
     collectionArtistsCacheMaxAgeMs: number;
     artistTagsCacheMaxAgeMs: number;
     collectionValueCacheMaxAgeMs: number;
+    discogsResponseCacheMaxAgeMs: number;
   } {
     return {
       imageCacheMaxAgeMs: this.IMAGE_CACHE_MAX_AGE_MS,
@@ -414,6 +459,7 @@ export class CleanupService {
       collectionArtistsCacheMaxAgeMs: this.COLLECTION_ARTISTS_CACHE_MAX_AGE_MS,
       artistTagsCacheMaxAgeMs: this.ARTIST_TAGS_CACHE_MAX_AGE_MS,
       collectionValueCacheMaxAgeMs: this.COLLECTION_VALUE_CACHE_MAX_AGE_MS,
+      discogsResponseCacheMaxAgeMs: this.DISCOGS_RESPONSE_CACHE_MAX_AGE_MS,
     };
   }
 }
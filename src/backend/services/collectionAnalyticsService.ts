@@ -1,6 +1,7 @@
 import {
   CachedReleaseValue,
   CollectionAnalyticsOverview,
+  CollectionChange,
   CollectionItem,
   CollectionSummary,
   CollectionValueCacheStore,
@@ -20,10 +21,14 @@ import {
   YearBucket,
 } from '../../shared/types';
 import { getAllCachedCollectionItems } from '../utils/collectionCache';
+import { withDiscogsPriority } from '../utils/discogsAxios';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { AuthService } from './authService';
+import { CollectionChangeService } from './collectionChangeService';
+import { EventStreamService } from './eventStreamService';
+import { JobReport, JobService } from './jobService';
 import { WishlistService } from './wishlistService';
 
 const log = createLogger('CollectionAnalyticsService');
@@ -56,6 +61,12 @@ export class CollectionAnalyticsService {
   private authService: AuthService;
   private wishlistService: WishlistService;
   private scanning = false;
+  private scanAborted = false;
+  private scanJobId: string | null = null;
+  private collectionChangeService: CollectionChangeService | null = null;
+
+  private eventStreamService: EventStreamService | null = null;
+  private jobService: JobService | null = null;
 
   constructor(
     fileStorage: FileStorage,
@@ -67,6 +78,21 @@ export class CollectionAnalyticsService {
     this.wishlistService = wishlistService;
   }
 
+  /** Optional: publishes scan progress to the profile's event stream. */
+  setEventStreamService(service: EventStreamService): void {
+    this.eventStreamService = service;
+  }
+
+  /** Optional: mirrors scans onto the profile's job list. */
+  setJobService(service: JobService): void {
+    this.jobService = service;
+  }
+
+  /** Optional: lets growth timelines subtract removed records. */
+  setCollectionChangeService(service: CollectionChangeService): void {
+    this.collectionChangeService = service;
+  }
+
   private async loadCollection(): Promise<CollectionItem[]> {
     const settings = await this.authService.getUserSettings();
     const username = settings.discogs.username;
@@ -275,23 +301,34 @@ export class CollectionAnalyticsService {
       }
       collection = await this.loadCollection();
     }
-    const periodMap = new Map<string, number>();
+    const periodMap = new Map<string, { added: number; removed: number }>();
 
-    for (const item of collection) {
-      if (!item.date_added) continue;
-
-      const date = new Date(item.date_added);
-      if (isNaN(date.getTime())) continue;
-
-      let period: string;
+    const toPeriod = (date: Date): string => {
       if (granularity === 'month') {
         const month = String(date.getMonth() + 1).padStart(2, '0');
-        period = `${date.getFullYear()}-${month}`;
-      } else {
-        period = `${date.getFullYear()}`;
+        return `${date.getFullYear()}-${month}`;
       }
+      return `${date.getFullYear()}`;
+    };
+    const count = (date: Date, field: 'added' | 'removed') => {
+      if (isNaN(date.getTime())) return;
+      const period = toPeriod(date);
+      const entry = periodMap.get(period) || { added: 0, removed: 0 };
+      entry[field]++;
+      periodMap.set(period, entry);
+    };
+
+    for (const item of collection) {
+      if (!item.date_added) continue;
+      count(new Date(item.date_added), 'added');
+    }
 
-      periodMap.set(period, (periodMap.get(period) || 0) + 1);
+    // Removed records are no longer in the collection, so their addition
+    // comes from the change log too
+    const removals = await this.getRemovals();
+    for (const removal of removals) {
+      if (removal.dateAdded) count(new Date(removal.dateAdded), 'added');
+      count(new Date(removal.timestamp), 'removed');
     }
 
     const sortedPeriods = Array.from(periodMap.entries()).sort(([a], [b]) =>
@@ -300,19 +337,28 @@ export class CollectionAnalyticsService {
 
     let cumulative = 0;
     const dataPoints: GrowthDataPoint[] = sortedPeriods.map(
-      ([period, added]) => {
-        cumulative += added;
-        return { period, added, cumulative };
+      ([period, { added, removed }]) => {
+        cumulative += added - removed;
+        return { period, added, removed, cumulative };
       }
     );
 
     return {
       dataPoints,
       granularity,
-      totalAdded: collection.length,
+      totalAdded: collection.length + removals.length,
+      totalRemoved: removals.length,
     };
   }
 
+  private async getRemovals(): Promise<CollectionChange[]> {
+    if (!this.collectionChangeService) return [];
+    const settings = await this.authService.getUserSettings();
+    const username = settings.discogs.username;
+    if (!username) return [];
+    return this.collectionChangeService.getRemovals(username);
+  }
+
   async getCollectionSummary(
     collection: CollectionItem[]
   ): Promise<CollectionSummary> {
@@ -551,6 +597,7 @@ export class CollectionAnalyticsService {
     }
 
     this.scanning = true;
+    this.scanAborted = false;
     const startedAt = Date.now();
 
     try {
@@ -597,6 +644,7 @@ export class CollectionAnalyticsService {
         const batch = itemsToScan.slice(i, i + batchSize);
 
         for (const item of batch) {
+          if (this.scanAborted) break;
           try {
             await this.updateScanStatus({
               status: 'scanning',
@@ -615,8 +663,10 @@ export class CollectionAnalyticsService {
               ),
             });
 
-            const stats: MarketplaceStats | null =
-              await this.wishlistService.getMarketplaceStats(item.release.id);
+            const stats: MarketplaceStats | null = await withDiscogsPriority(
+              'background',
+              () => this.wishlistService.getMarketplaceStats(item.release.id)
+            );
 
             if (stats) {
               const cachedValue: CachedReleaseValue = {
@@ -647,6 +697,20 @@ export class CollectionAnalyticsService {
           VALUE_CACHE_PATH,
           cacheStore
         );
+
+        if (this.scanAborted) {
+          log.info(
+            `Value scan cancelled after ${itemsScanned}/${totalItems} items`
+          );
+          await this.updateScanStatus({
+            status: 'cancelled',
+            itemsScanned,
+            totalItems,
+            progress: Math.round((itemsScanned / totalItems) * 100),
+            startedAt,
+          });
+          return;
+        }
       }
 
       // Mark scan as completed
@@ -673,9 +737,21 @@ export class CollectionAnalyticsService {
       throw error;
     } finally {
       this.scanning = false;
+      this.scanAborted = false;
     }
   }
 
+  /**
+   * Stop a running value scan after the current item. Values fetched so
+   * far are kept. Returns false if no scan is running.
+   */
+  cancelValueScan(): boolean {
+    if (!this.scanning) return false;
+    log.info('Value scan cancellation requested');
+    this.scanAborted = true;
+    return true;
+  }
+
   async getValueScanStatus(): Promise<ValueScanStatus> {
     const statusStore =
       await this.fileStorage.readJSON<CollectionValueScanStatusStore>(
@@ -716,6 +792,44 @@ export class CollectionAnalyticsService {
       status,
     };
     await this.fileStorage.writeJSON(SCAN_STATUS_PATH, store);
+    this.reportScanJob(status);
+    this.eventStreamService?.publish(
+      { type: 'scan-progress', scan: 'value', status },
+      'scan-progress:value'
+    );
+  }
+
+  /**
+   * Mirror the scan status onto the shared job list.
+   */
+  private reportScanJob(status: ValueScanStatus): void {
+    if (!this.jobService || status.status === 'idle') return;
+
+    const reports: Record<
+      Exclude<ValueScanStatus['status'], 'idle'>,
+      JobReport
+    > = {
+      scanning: {
+        state: 'running',
+        message: `Fetching collection values (${status.itemsScanned}/${status.totalItems})`,
+      },
+      completed: {
+        state: 'completed',
+        message: `Collection value scan complete: ${status.itemsScanned} items`,
+      },
+      cancelled: {
+        state: 'cancelled',
+        message: 'Collection value scan cancelled',
+      },
+      error: { state: 'failed', error: status.error },
+    };
+
+    this.scanJobId = this.jobService.report(
+      this.scanJobId,
+      'value-scan',
+      { ...reports[status.status], progress: status.progress },
+      { onCancel: () => this.cancelValueScan() }
+    );
   }
 
   private classifyFormat(formats: string[]): string {
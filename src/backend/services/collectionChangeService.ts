@@ -0,0 +1,223 @@
+import {
+  CollectionChange,
+  CollectionChangeLog,
+  CollectionChangesStore,
+  CollectionChangeType,
+  CollectionItem,
+  CollectionSnapshotEntry,
+} from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+const CHANGES_FILE = 'collections/collection-changes.json';
+
+// Oldest entries are dropped beyond this; removals feed the growth timeline,
+// so keep it generous
+const MAX_CHANGES = 20000;
+
+/**
+ * Records how a Discogs collection changes between cache refreshes.
+ *
+ * Each refresh is compared with a snapshot of the previous one, so removals
+ * and edits made on Discogs show up as well as additions. The first refresh
+ * only stores the snapshot: earlier additions are already dated by
+ * date_added.
+ */
+export class CollectionChangeService {
+  private logger = createLogger('CollectionChangeService');
+  private store: CollectionChangesStore | null = null;
+
+  constructor(private fileStorage: FileStorage) {}
+
+  private async loadStore(): Promise<CollectionChangesStore> {
+    if (this.store) return this.store;
+
+    const data =
+      await this.fileStorage.readJSON<CollectionChangesStore>(CHANGES_FILE);
+    if (data && data.schemaVersion === 1) {
+      this.store = data;
+      return data;
+    }
+
+    this.store = { schemaVersion: 1, users: {} };
+    return this.store;
+  }
+
+  private async saveStore(store: CollectionChangesStore): Promise<void> {
+    await this.fileStorage.writeJSONWithBackup(CHANGES_FILE, store);
+    this.store = store;
+  }
+
+  /**
+   * Compare a complete refresh of the collection with the previous one and
+   * append what changed. Returns the new changes.
+   */
+  async recordRefresh(
+    username: string,
+    items: CollectionItem[]
+  ): Promise<CollectionChange[]> {
+    const store = await this.loadStore();
+    const previous = store.users[username];
+    const now = Date.now();
+
+    const snapshot: Record<string, CollectionSnapshotEntry> = {};
+    for (const item of items) {
+      snapshot[String(item.id)] = toSnapshotEntry(item);
+    }
+
+    if (!previous) {
+      await this.saveStore({
+        ...store,
+        users: {
+          ...store.users,
+          [username]: { snapshot, changes: [], lastRefresh: now },
+        },
+      });
+      this.logger.info(
+        `Stored first collection snapshot for ${username} (${items.length} items)`
+      );
+      return [];
+    }
+
+    const changes = diffSnapshots(previous.snapshot, snapshot, now);
+    const log: CollectionChangeLog = {
+      snapshot,
+      changes: [...previous.changes, ...changes].slice(-MAX_CHANGES),
+      lastRefresh: now,
+    };
+    await this.saveStore({
+      ...store,
+      users: { ...store.users, [username]: log },
+    });
+
+    if (changes.length > 0) {
+      this.logger.info(
+        `Recorded ${changes.length} collection changes for ${username}`
+      );
+    }
+    return changes;
+  }
+
+  /**
+   * Change log entries, newest first.
+   */
+  async getChanges(
+    username: string,
+    options: {
+      type?: CollectionChangeType;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ changes: CollectionChange[]; total: number }> {
+    const store = await this.loadStore();
+    const all = store.users[username]?.changes ?? [];
+    const filtered = options.type
+      ? all.filter(c => c.type === options.type)
+      : all;
+    const newestFirst = [...filtered].sort((a, b) => b.timestamp - a.timestamp);
+
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? newestFirst.length;
+    return {
+      changes: newestFirst.slice(offset, offset + limit),
+      total: newestFirst.length,
+    };
+  }
+
+  /**
+   * Collection items that have been removed since the first snapshot.
+   */
+  async getRemovals(username: string): Promise<CollectionChange[]> {
+    const store = await this.loadStore();
+    return (store.users[username]?.changes ?? []).filter(
+      c => c.type === 'removed'
+    );
+  }
+}
+
+function notesText(item: CollectionItem): string {
+  return (item.notes ?? [])
+    .map(note => note.value.trim())
+    .filter(Boolean)
+    .join(' · ');
+}
+
+function toSnapshotEntry(item: CollectionItem): CollectionSnapshotEntry {
+  return {
+    releaseId: item.release.id,
+    artist: item.release.artist,
+    title: item.release.title,
+    coverImage: item.release.cover_image,
+    dateAdded: item.date_added,
+    rating: item.rating ?? 0,
+    notes: notesText(item),
+    folderId: item.folder_id,
+  };
+}
+
+function diffSnapshots(
+  before: Record<string, CollectionSnapshotEntry>,
+  after: Record<string, CollectionSnapshotEntry>,
+  now: number
+): CollectionChange[] {
+  const changes: CollectionChange[] = [];
+
+  const change = (
+    type: CollectionChangeType,
+    instanceId: string,
+    entry: CollectionSnapshotEntry,
+    timestamp: number = now
+  ): CollectionChange => ({
+    type,
+    timestamp,
+    instanceId: Number(instanceId),
+    releaseId: entry.releaseId,
+    artist: entry.artist,
+    title: entry.title,
+    coverImage: entry.coverImage,
+    dateAdded: entry.dateAdded,
+  });
+
+  for (const [id, entry] of Object.entries(after)) {
+    const old = before[id];
+    if (!old) {
+      const added = Date.parse(entry.dateAdded);
+      changes.push(change('added', id, entry, isNaN(added) ? now : added));
+      continue;
+    }
+    if (old.rating !== entry.rating) {
+      changes.push({
+        ...change('rating', id, entry),
+        before: old.rating,
+        after: entry.rating,
+      });
+    }
+    if (old.notes !== entry.notes) {
+      changes.push({
+        ...change('notes', id, entry),
+        before: old.notes,
+        after: entry.notes,
+      });
+    }
+    // Items cached before folder ids were kept have none to compare
+    if (
+      old.folderId !== undefined &&
+      entry.folderId !== undefined &&
+      old.folderId !== entry.folderId
+    ) {
+      changes.push({
+        ...change('folder', id, entry),
+        before: old.folderId,
+        after: entry.folderId,
+      });
+    }
+  }
+
+  for (const [id, entry] of Object.entries(before)) {
+    if (!after[id]) {
+      changes.push(change('removed', id, entry));
+    }
+  }
+
+  return changes;
+}
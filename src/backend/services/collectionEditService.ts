@@ -0,0 +1,279 @@
+import { CollectionEdit, CollectionItem } from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import { DiscogsService } from './discogsService';
+
+/**
+ * Why an edit was refused; `status` is the HTTP status to report. A 409
+ * carries the live instance so the caller can show what Discogs has now.
+ */
+export class CollectionEditError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 404 | 409,
+    public readonly live: CollectionItem | null = null
+  ) {
+    super(message);
+    this.name = 'CollectionEditError';
+  }
+}
+
+interface CachedPage {
+  data: CollectionItem[];
+  timestamp?: number;
+}
+
+interface CachedInstance {
+  cacheKey: string;
+  page: CachedPage;
+  index: number;
+  item: CollectionItem;
+}
+
+/**
+ * Writes rating, custom field and folder changes back to Discogs.
+ *
+ * Each edit is checked against the live instance first: if it changed on
+ * Discogs since the caller loaded it, the edit is refused and the cache is
+ * brought up to date instead. Otherwise the collection cache is updated
+ * before Discogs is called and restored if that call fails, so the app shows
+ * the new value straight away.
+ */
+export class CollectionEditService {
+  private logger = createLogger('CollectionEditService');
+
+  constructor(
+    private fileStorage: FileStorage,
+    private discogsService: DiscogsService
+  ) {}
+
+  /**
+   * The cached collection instance, or null if it isn't cached.
+   */
+  async getInstance(
+    username: string,
+    instanceId: number
+  ): Promise<CollectionItem | null> {
+    const cached = await this.findCachedInstance(username, instanceId);
+    return cached ? cached.item : null;
+  }
+
+  /**
+   * Apply an edit to a collection instance. Returns the updated instance.
+   */
+  async editInstance(
+    username: string,
+    instanceId: number,
+    edit: CollectionEdit
+  ): Promise<CollectionItem> {
+    const cached = await this.findCachedInstance(username, instanceId);
+    if (!cached) {
+      throw new CollectionEditError(
+        'This record is not in the collection cache',
+        404
+      );
+    }
+
+    const live = await this.discogsService.getCollectionInstance(
+      username,
+      cached.item.release.id,
+      instanceId
+    );
+    if (!live) {
+      throw new CollectionEditError(
+        'This record is no longer in your Discogs collection',
+        409
+      );
+    }
+
+    const expected = edit.expected ?? currentValue(cached.item, edit);
+    if (currentValue(live, edit) !== expected) {
+      await this.writeInstance(cached, mergeLive(cached.item, live));
+      throw new CollectionEditError(
+        'This record was changed on Discogs since it was loaded',
+        409,
+        live
+      );
+    }
+
+    const updated = applyEdit(mergeLive(cached.item, live), edit);
+    if (currentValue(live, edit) === currentValue(updated, edit)) {
+      return updated;
+    }
+
+    // Optimistic: the cache shows the new value while Discogs is updated
+    await this.writeInstance(cached, updated);
+    try {
+      await this.sendEdit(username, live, edit);
+    } catch (error) {
+      await this.writeInstance(cached, cached.item);
+      throw error;
+    }
+
+    this.logger.info(
+      `Updated ${edit.type} of collection instance ${instanceId} for ${username}`
+    );
+    return updated;
+  }
+
+  /**
+   * Remove an instance from the collection. Succeeds without calling
+   * Discogs if it has already been removed there.
+   */
+  async removeInstance(username: string, instanceId: number): Promise<void> {
+    const cached = await this.findCachedInstance(username, instanceId);
+    if (!cached) {
+      throw new CollectionEditError(
+        'This record is not in the collection cache',
+        404
+      );
+    }
+
+    const live = await this.discogsService.getCollectionInstance(
+      username,
+      cached.item.release.id,
+      instanceId
+    );
+
+    await this.writeInstance(cached, null);
+    if (!live) return;
+
+    try {
+      await this.discogsService.deleteCollectionInstance(
+        username,
+        live.folder_id ?? 1,
+        live.release.id,
+        instanceId
+      );
+    } catch (error) {
+      await this.writeInstance(cached, cached.item);
+      throw error;
+    }
+
+    this.logger.info(
+      `Removed collection instance ${instanceId} for ${username}`
+    );
+  }
+
+  private async sendEdit(
+    username: string,
+    live: CollectionItem,
+    edit: CollectionEdit
+  ): Promise<void> {
+    const folderId = live.folder_id ?? 1;
+    switch (edit.type) {
+      case 'rating':
+        return this.discogsService.updateCollectionInstance(
+          username,
+          folderId,
+          live.release.id,
+          live.id,
+          { rating: edit.rating }
+        );
+      case 'folder':
+        return this.discogsService.updateCollectionInstance(
+          username,
+          folderId,
+          live.release.id,
+          live.id,
+          { folder_id: edit.folderId }
+        );
+      case 'field':
+        return this.discogsService.setCollectionFieldValue(
+          username,
+          folderId,
+          live.release.id,
+          live.id,
+          edit.fieldId,
+          edit.value
+        );
+    }
+  }
+
+  private async findCachedInstance(
+    username: string,
+    instanceId: number
+  ): Promise<CachedInstance | null> {
+    for (let pageNumber = 1; ; pageNumber++) {
+      const cacheKey = `collections/${username}-page-${pageNumber}.json`;
+      const page = await this.fileStorage.readJSON<CachedPage>(cacheKey);
+      if (!page || !page.data || page.data.length === 0) return null;
+
+      const index = page.data.findIndex(item => item.id === instanceId);
+      if (index !== -1) {
+        return { cacheKey, page, index, item: page.data[index] };
+      }
+    }
+  }
+
+  /**
+   * Replace (or with null, drop) the instance in its cached page, keeping
+   * the page's timestamp so cache expiry is unaffected.
+   */
+  private async writeInstance(
+    cached: CachedInstance,
+    item: CollectionItem | null
+  ): Promise<void> {
+    const data = [...cached.page.data];
+    if (item) {
+      data[cached.index] = item;
+    } else {
+      data.splice(cached.index, 1);
+    }
+    await this.fileStorage.writeJSON(cached.cacheKey, {
+      ...cached.page,
+      data,
+    });
+  }
+}
+
+function currentValue(
+  item: CollectionItem,
+  edit: CollectionEdit
+): string | number | undefined {
+  switch (edit.type) {
+    case 'rating':
+      return item.rating ?? 0;
+    case 'folder':
+      return item.folder_id;
+    case 'field':
+      return (
+        item.notes?.find(note => note.field_id === edit.fieldId)?.value ?? ''
+      );
+  }
+}
+
+function applyEdit(item: CollectionItem, edit: CollectionEdit): CollectionItem {
+  switch (edit.type) {
+    case 'rating':
+      return { ...item, rating: edit.rating };
+    case 'folder':
+      return { ...item, folder_id: edit.folderId };
+    case 'field': {
+      const notes = (item.notes ?? []).filter(
+        note => note.field_id !== edit.fieldId
+      );
+      if (edit.value) {
+        notes.push({ field_id: edit.fieldId, value: edit.value });
+      }
+      return { ...item, notes };
+    }
+  }
+}
+
+/**
+ * The cached item with the editable values taken from Discogs; release
+ * details stay as cached since the live endpoint only has basic ones.
+ */
+function mergeLive(
+  cached: CollectionItem,
+  live: CollectionItem
+): CollectionItem {
+  return {
+    ...cached,
+    rating: live.rating,
+    folder_id: live.folder_id,
+    notes: live.notes,
+  };
+}
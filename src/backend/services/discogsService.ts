@@ -4,9 +4,14 @@ import { AxiosInstance } from 'axios';
 import OAuth from 'oauth-1.0a';
 
 import {
+  BarcodeMatch,
+  CollectionCustomField,
+  CollectionFolder,
   CollectionItem,
   DiscogsCollectionProgress,
   DiscogsRawArtist,
+  DiscogsRawCollectionField,
+  DiscogsRawCollectionFolder,
   DiscogsRawCollectionItem,
   DiscogsRawFormat,
   DiscogsRawLabel,
@@ -18,11 +23,13 @@ import {
   TimestampedCache,
 } from '../../shared/types';
 import { safeJsonParse } from '../../shared/utils/safeJsonParse';
-import { getDiscogsAxios } from '../utils/discogsAxios';
+import { getDiscogsAxios, withDiscogsPriority } from '../utils/discogsAxios';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { AuthService } from './authService';
+import { CollectionChangeService } from './collectionChangeService';
+import { DEFAULT_PROFILE_ID, withProfileQuery } from './profileService';
 
 export class DiscogsService {
   private axios: AxiosInstance;
@@ -35,6 +42,8 @@ export class DiscogsService {
   // Lock to prevent concurrent preloading
   private preloadingInProgress: Map<string, boolean> = new Map();
 
+  private collectionChangeService: CollectionChangeService | null = null;
+
   constructor(fileStorage: FileStorage, authService: AuthService) {
     this.fileStorage = fileStorage;
     this.authService = authService;
@@ -56,7 +65,32 @@ export class DiscogsService {
     this.axios = getDiscogsAxios();
   }
 
-  async getAuthUrl(): Promise<string> {
+  /** Optional: records what changed in the collection on each refresh. */
+  setCollectionChangeService(service: CollectionChangeService): void {
+    this.collectionChangeService = service;
+  }
+
+  /**
+   * Pass a complete view of the collection to the change log. Failures are
+   * logged only, so they never fail the refresh itself.
+   */
+  private async recordCollectionRefresh(
+    username: string,
+    items: CollectionItem[]
+  ): Promise<void> {
+    if (!this.collectionChangeService) return;
+    try {
+      await this.collectionChangeService.recordRefresh(username, items);
+    } catch (error) {
+      this.logger.warn('Failed to record collection changes', error);
+    }
+  }
+
+  /**
+   * Start the OAuth flow. The callback names `profileId`, since the token
+   * secret it needs is stored with that profile.
+   */
+  async getAuthUrl(profileId: string = DEFAULT_PROFILE_ID): Promise<string> {
     this.logger.info('Starting Discogs OAuth flow');
 
     // Check credentials
@@ -103,9 +137,11 @@ export class DiscogsService {
       // Return the authorization URL
       const backendPort =
         process.env.BACKEND_PORT || process.env.PORT || '3001';
-      const callbackUrl =
+      const callbackUrl = withProfileQuery(
         process.env.DISCOGS_CALLBACK_URL ||
-        `http://localhost:${backendPort}/api/v1/auth/discogs/callback`;
+          `http://localhost:${backendPort}/api/v1/auth/discogs/callback`,
+        profileId
+      );
 
       // Include the callback URL in the authorization URL
       const authUrl = `https://discogs.com/oauth/authorize?oauth_token=${oauthToken}&oauth_callback=${encodeURIComponent(callbackUrl)}`;
@@ -370,6 +406,7 @@ export class DiscogsService {
       const transformedReleases: CollectionItem[] = response.data.releases.map(
         (item: DiscogsRawCollectionItem) => ({
           id: item.id,
+          folder_id: item.folder_id,
           date_added: item.date_added,
           rating: item.rating,
           notes: item.notes,
@@ -417,6 +454,234 @@ export class DiscogsService {
     }
   }
 
+  /**
+   * Folders in the user's collection, cached alongside the collection pages.
+   */
+  async getCollectionFolders(
+    username: string,
+    forceReload: boolean = false
+  ): Promise<CollectionFolder[]> {
+    const cacheKey = `collections/${username}-folders.json`;
+
+    if (!forceReload) {
+      const cached = await this.fileStorage.readJSON<
+        TimestampedCache & { folders: CollectionFolder[] }
+      >(cacheKey);
+      if (cached && this.isCacheValid(cached)) {
+        return cached.folders;
+      }
+    }
+
+    const headers = await this.getAuthHeaders();
+    const response = await this.axios.get(
+      `/users/${username}/collection/folders`,
+      { headers }
+    );
+
+    const folders: CollectionFolder[] = (response.data.folders ?? []).map(
+      (folder: DiscogsRawCollectionFolder) => ({
+        id: folder.id,
+        name: folder.name,
+        count: folder.count,
+      })
+    );
+
+    await this.fileStorage.writeJSON(cacheKey, {
+      timestamp: Date.now(),
+      folders,
+    });
+    return folders;
+  }
+
+  /**
+   * Custom note field definitions (e.g. "Condition", "Storage location"),
+   * ordered as they appear on Discogs.
+   */
+  async getCollectionFields(
+    username: string,
+    forceReload: boolean = false
+  ): Promise<CollectionCustomField[]> {
+    const cacheKey = `collections/${username}-fields.json`;
+
+    if (!forceReload) {
+      const cached = await this.fileStorage.readJSON<
+        TimestampedCache & { fields: CollectionCustomField[] }
+      >(cacheKey);
+      if (cached && this.isCacheValid(cached)) {
+        return cached.fields;
+      }
+    }
+
+    const headers = await this.getAuthHeaders();
+    const response = await this.axios.get(
+      `/users/${username}/collection/fields`,
+      { headers }
+    );
+
+    const fields: CollectionCustomField[] = (response.data.fields ?? [])
+      .map((field: DiscogsRawCollectionField) => ({
+        id: field.id,
+        name: field.name,
+        type: field.type === 'dropdown' ? 'dropdown' : 'textarea',
+        ...(field.type === 'dropdown' && { options: field.options ?? [] }),
+        position: field.position,
+      }))
+      .sort(
+        (a: CollectionCustomField, b: CollectionCustomField) =>
+          a.position - b.position
+      );
+
+    await this.fileStorage.writeJSON(cacheKey, {
+      timestamp: Date.now(),
+      fields,
+    });
+    return fields;
+  }
+
+  /**
+   * Live state of one collection instance, bypassing the collection cache.
+   * Returns null when the instance is no longer in the collection.
+   */
+  async getCollectionInstance(
+    username: string,
+    releaseId: number,
+    instanceId: number
+  ): Promise<CollectionItem | null> {
+    const headers = await this.getAuthHeaders();
+    const response = await this.axios.get(
+      `/users/${username}/collection/releases/${releaseId}`,
+      { headers }
+    );
+
+    const raw = (response.data.releases ?? []).find(
+      (item: DiscogsRawCollectionItem) => item.id === instanceId
+    );
+    return raw ? this.toCollectionItem(raw) : null;
+  }
+
+  /**
+   * Change the rating of a collection instance and/or move it to another
+   * folder. `folderId` is the folder the instance is in now.
+   */
+  async updateCollectionInstance(
+    username: string,
+    folderId: number,
+    releaseId: number,
+    instanceId: number,
+    changes: { rating?: number; folder_id?: number }
+  ): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    await this.axios.post(
+      `/users/${username}/collection/folders/${folderId}/releases/${releaseId}/instances/${instanceId}`,
+      changes,
+      { headers }
+    );
+  }
+
+  /**
+   * Set the value of a custom note field on a collection instance.
+   */
+  async setCollectionFieldValue(
+    username: string,
+    folderId: number,
+    releaseId: number,
+    instanceId: number,
+    fieldId: number,
+    value: string
+  ): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    await this.axios.post(
+      `/users/${username}/collection/folders/${folderId}/releases/${releaseId}/instances/${instanceId}/fields/${fieldId}`,
+      null,
+      { headers, params: { value } }
+    );
+  }
+
+  /**
+   * Remove an instance from the collection.
+   */
+  async deleteCollectionInstance(
+    username: string,
+    folderId: number,
+    releaseId: number,
+    instanceId: number
+  ): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    await this.axios.delete(
+      `/users/${username}/collection/folders/${folderId}/releases/${releaseId}/instances/${instanceId}`,
+      { headers }
+    );
+  }
+
+  /**
+   * Releases in the Discogs database with this barcode. Not cached here;
+   * callers keep what they need.
+   */
+  async searchReleasesByBarcode(barcode: string): Promise<BarcodeMatch[]> {
+    const headers = await this.getAuthHeaders();
+    const response = await this.axios.get('/database/search', {
+      headers,
+      params: { barcode, type: 'release', per_page: 25 },
+    });
+
+    return (response.data.results ?? []).map(
+      (result: {
+        id: number;
+        master_id?: number;
+        title: string;
+        year?: string;
+        cover_image?: string;
+        format?: string[];
+      }) => {
+        // Search titles read "Artist - Album"; the artist may end in * for
+        // name variations
+        const [artist, ...titleParts] = result.title.split(' - ');
+        return {
+          releaseId: result.id,
+          masterId: result.master_id || undefined,
+          title: titleParts.length > 0 ? titleParts.join(' - ') : result.title,
+          artist:
+            titleParts.length > 0
+              ? artist.replace(/\*$/, '').trim()
+              : 'Unknown Artist',
+          year: result.year ? parseInt(result.year, 10) : undefined,
+          coverImage: result.cover_image,
+          formats: result.format ?? [],
+        };
+      }
+    );
+  }
+
+  private toCollectionItem(item: DiscogsRawCollectionItem): CollectionItem {
+    return {
+      id: item.id,
+      folder_id: item.folder_id,
+      date_added: item.date_added,
+      rating: item.rating,
+      notes: item.notes,
+      release: {
+        id: item.basic_information.id,
+        master_id: item.basic_information.master_id,
+        title: item.basic_information.title,
+        artist:
+          item.basic_information.artists
+            ?.map((a: DiscogsRawArtist) => a.name)
+            .join(', ') || 'Unknown Artist',
+        year: item.basic_information.year,
+        format:
+          item.basic_information.formats?.map(
+            (f: DiscogsRawFormat) => f.name
+          ) || [],
+        label:
+          item.basic_information.labels?.map((l: DiscogsRawLabel) => l.name) ||
+          [],
+        catalog_number: item.basic_information.catalog_number,
+        cover_image: item.basic_information.cover_image,
+        resource_url: item.basic_information.resource_url,
+      },
+    };
+  }
+
   async getReleaseDetails(releaseId: number): Promise<DiscogsRelease | null> {
     try {
       const cacheKey = `collections/release-${releaseId}.json`;
@@ -427,9 +692,6 @@ export class DiscogsService {
         return cached;
       }
 
-      // Add delay to respect rate limits (1 request per second)
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
       const headers = await this.getAuthHeaders();
       const response = await this.axios.get(`/releases/${releaseId}`, {
         headers,
@@ -543,15 +805,19 @@ export class DiscogsService {
         status: 'loading',
       });
 
-      // Load remaining pages in background with rate limiting
+      // Items from every page, for the collection change log
+      const refreshedItems: CollectionItem[] = [...(firstPage.data ?? [])];
+      let allPagesLoaded = true;
+
+      // Load remaining pages behind any interactive Discogs requests
       for (let page = 2; page <= totalPages; page++) {
         try {
-          // Add delay to respect rate limits (1 request per second)
-          await new Promise(resolve => setTimeout(resolve, 1000));
-
-          const result = await this.getUserCollection(username, page, 50);
+          const result = await withDiscogsPriority('background', () =>
+            this.getUserCollection(username, page, 50)
+          );
           if (result.success) {
             this.logger.debug(`Cached page ${page}/${totalPages}`);
+            refreshedItems.push(...(result.data ?? []));
 
             // Update progress
             const progress =
@@ -564,13 +830,26 @@ export class DiscogsService {
             await this.fileStorage.writeJSON(progressKey, progress);
           } else {
             this.logger.warn(`Failed to cache page ${page}`);
+            allPagesLoaded = false;
           }
         } catch (error) {
           this.logger.error(`Error loading page ${page}`, error);
+          allPagesLoaded = false;
           // Continue with next page even if one fails
         }
       }
 
+      // Pages served from an older cache can overlap or leave gaps when
+      // the collection changed in between; only a complete view is compared
+      const uniqueItems = new Set(refreshedItems.map(item => item.id)).size;
+      if (allPagesLoaded && uniqueItems === firstPage.pagination.items) {
+        await this.recordCollectionRefresh(username, refreshedItems);
+      } else {
+        this.logger.debug(
+          `Skipping collection change log: ${uniqueItems} of ${firstPage.pagination.items} items loaded`
+        );
+      }
+
       // Mark as completed
       await this.fileStorage.writeJSON(progressKey, {
         username,
@@ -782,10 +1061,12 @@ export class DiscogsService {
   async clearCache(): Promise<void> {
     try {
       const files = await this.fileStorage.listFiles('collections');
-      // Delete collection page cache files and progress files
+      // Delete collection page, folder and field cache files and progress files
       const cacheFiles = files.filter(
         file =>
-          file.match(/^[^-]+-page-\d+\.json$/) || file.match(/-progress\.json$/)
+          file.match(/^[^-]+-page-\d+\.json$/) ||
+          file.match(/^[^-]+-(folders|fields)\.json$/) ||
+          file.match(/-progress\.json$/)
       );
 
       this.logger.info(
@@ -1091,6 +1372,7 @@ export class DiscogsService {
       const newItems: CollectionItem[] = [];
       let checkPage = 1;
       const checkLimit = 10; // Limit pages to avoid infinite loops
+      let collectionSize: number | undefined;
 
       while (checkPage <= checkLimit) {
         this.logger.debug(`Fetching page ${checkPage} for new items...`);
@@ -1111,6 +1393,9 @@ export class DiscogsService {
           this.logger.warn(`Failed to get page ${checkPage}`);
           break;
         }
+        if (checkPage === 1) {
+          collectionSize = response.data.pagination?.items;
+        }
 
         let foundOlderItem = false;
         response.data.releases.forEach((item: DiscogsRawCollectionItem) => {
@@ -1119,6 +1404,7 @@ export class DiscogsService {
             // Transform and add new item
             const transformedItem: CollectionItem = {
               id: item.id,
+              folder_id: item.folder_id,
               date_added: item.date_added,
               rating: item.rating,
               notes: item.notes,
@@ -1247,6 +1533,18 @@ export class DiscogsService {
         checkOldPages++;
       }
 
+      // Only new items were fetched, so the merge is only a complete view
+      // when the cache had no gaps and nothing was removed since it was
+      // written; otherwise missing items would be logged as removals
+      const uniqueItems = new Set(mergedItems.map(item => item.id)).size;
+      if (uniqueItems === collectionSize) {
+        await this.recordCollectionRefresh(username, mergedItems);
+      } else {
+        this.logger.debug(
+          `Skipping collection change log: ${uniqueItems} of ${collectionSize ?? 'unknown'} items loaded`
+        );
+      }
+
       this.logger.info(
         `Incremental cache update completed: added ${newItems.length} new items`
       );
@@ -0,0 +1,96 @@
+/**
+ * Event Stream Service - fan-out of live progress events to renderer
+ * clients connected to GET /api/v1/events (Server-Sent Events).
+ *
+ * Each profile has its own stream, so clients only see events for the
+ * profile they work with. Services publish typed events as their state
+ * changes. Progress events can pass a throttle key: events sharing a key
+ * are coalesced so a client gets at most one every THROTTLE_MS, and always
+ * the latest one.
+ */
+
+import { EventEmitter } from 'events';
+
+import { ServerEvent } from '../../shared/types';
+
+const THROTTLE_MS = 250;
+const MAX_TRACKED_KEYS = 500;
+
+export type ServerEventListener = (event: ServerEvent) => void;
+
+export class EventStreamService {
+  private emitter = new EventEmitter();
+  private lastSent: Map<string, number> = new Map();
+  private pending: Map<string, ServerEvent> = new Map();
+
+  constructor() {
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Send an event to every subscriber. With a throttle key, events sent in
+   * quick succession are coalesced and only the latest is delivered.
+   */
+  publish(event: ServerEvent, throttleKey?: string): void {
+    if (!throttleKey) {
+      this.emitter.emit('event', event);
+      return;
+    }
+
+    const wasPending = this.pending.has(throttleKey);
+    this.pending.set(throttleKey, event);
+    if (wasPending) return;
+
+    const wait =
+      (this.lastSent.get(throttleKey) ?? 0) + THROTTLE_MS - Date.now();
+    if (wait <= 0) {
+      this.flush(throttleKey);
+      return;
+    }
+    const timer = setTimeout(() => this.flush(throttleKey), wait);
+    timer.unref?.();
+  }
+
+  /**
+   * Send an event right away, dropping any coalesced event still waiting
+   * under the same key so subscribers never see it arrive afterwards.
+   */
+  publishNow(event: ServerEvent, throttleKey?: string): void {
+    if (throttleKey) {
+      this.pending.delete(throttleKey);
+      this.lastSent.set(throttleKey, Date.now());
+    }
+    this.emitter.emit('event', event);
+  }
+
+  /**
+   * Register a listener. Returns a function that removes it.
+   */
+  subscribe(listener: ServerEventListener): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  getSubscriberCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+
+  private flush(throttleKey: string): void {
+    const event = this.pending.get(throttleKey);
+    if (!event) return;
+    this.pending.delete(throttleKey);
+    this.lastSent.set(throttleKey, Date.now());
+    this.emitter.emit('event', event);
+
+    // Keys are per job/session; forget the ones that have gone quiet
+    if (this.lastSent.size > MAX_TRACKED_KEYS) {
+      const cutoff = Date.now() - THROTTLE_MS;
+      for (const [key, sentAt] of this.lastSent) {
+        if (sentAt < cutoff) this.lastSent.delete(key);
+      }
+    }
+  }
+}
@@ -432,8 +432,20 @@ export class GenreAnalysisService {
     return { schemaVersion: 1, tags: {} };
   }
 
+  /**
+   * The tag cache is shared by every profile, so tags other profiles saved
+   * since `cache` was loaded are merged in (the newer fetch wins) rather
+   * than overwritten.
+   */
   private async saveTagCache(cache: ArtistTagsCacheStore): Promise<void> {
     try {
+      const onDisk = await this.loadTagCache();
+      for (const [artist, entry] of Object.entries(onDisk.tags)) {
+        const current = cache.tags[artist];
+        if (!current || entry.fetchedAt > current.fetchedAt) {
+          cache.tags[artist] = entry;
+        }
+      }
       await this.fileStorage.writeJSONWithBackup(CACHE_FILE, cache);
     } catch (error) {
       this.logger.error('Failed to save artist tags cache', error);
@@ -0,0 +1,285 @@
+/**
+ * History Import Service - builds or extends the scrobble history index from
+ * a Last.fm or ListenBrainz export file, as an alternative to paging
+ * through the whole Last.fm history.
+ *
+ * Importing is two steps: preview() parses the upload, keeps it in memory
+ * and reports what it would add; apply() merges it into the index. Plays
+ * already in the index (same timestamp, under any album) are skipped, and
+ * artist names go through ArtistNameResolver so an alias lands on the
+ * album entry the index already has.
+ */
+
+import crypto from 'crypto';
+
+import {
+  HistoryImportFormat,
+  HistoryImportPreview,
+  HistoryImportResult,
+  ScrobbleHistoryIndex,
+} from '../../shared/types';
+import { ImportedPlay, parseHistoryExport } from '../utils/historyExportParser';
+import { createLogger } from '../utils/logger';
+
+import { ArtistNameResolver } from './artistNameResolver';
+import { ScrobbleHistorySyncService } from './scrobbleHistorySyncService';
+
+// Uploaded files are kept this long between preview and apply
+const STAGED_IMPORT_TTL_MS = 30 * 60 * 1000;
+
+// Number of new artist names listed in the preview
+const MAX_PREVIEW_ARTIST_NAMES = 20;
+
+export class HistoryImportError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 404 | 409
+  ) {
+    super(message);
+    this.name = 'HistoryImportError';
+  }
+}
+
+interface StagedImport {
+  id: string;
+  format: HistoryImportFormat;
+  plays: ImportedPlay[];
+  skipped: number;
+  expiresAt: number;
+}
+
+interface ImportPlan {
+  index: ScrobbleHistoryIndex;
+  newPlays: number;
+  duplicatePlays: number;
+  newAlbums: Set<string>;
+  updatedAlbums: Set<string>;
+  newArtists: Map<string, string>; // resolved name -> display name
+}
+
+const emptyIndex = (): ScrobbleHistoryIndex => ({
+  lastSyncTimestamp: 0,
+  totalScrobbles: 0,
+  oldestScrobbleDate: 0,
+  albums: {},
+});
+
+export class HistoryImportService {
+  private logger = createLogger('HistoryImportService');
+  private resolver: ArtistNameResolver | null = null;
+
+  // Only the most recent upload is kept; a new preview replaces it
+  private staged: StagedImport | null = null;
+
+  constructor(private syncService: ScrobbleHistorySyncService) {}
+
+  /**
+   * Set the artist name resolver. Called from server.ts once the resolver
+   * has been built; until then names are matched as written.
+   */
+  setArtistNameResolver(resolver: ArtistNameResolver): void {
+    this.resolver = resolver;
+  }
+
+  private resolveArtist(artist: string): string {
+    return this.resolver
+      ? this.resolver.resolveArtist(artist)
+      : artist.toLowerCase().trim();
+  }
+
+  /**
+   * Same key format as ScrobbleHistorySyncService, so later syncs add to
+   * the entries created here.
+   */
+  private normalizeKey(artist: string, album: string): string {
+    return `${artist.toLowerCase().trim()}|${album.toLowerCase().trim()}`;
+  }
+
+  /**
+   * Parse an export file and report what importing it would change.
+   * Throws HistoryExportParseError for unreadable files.
+   */
+  async preview(
+    content: string,
+    format?: HistoryImportFormat
+  ): Promise<HistoryImportPreview> {
+    const parsed = parseHistoryExport(content, format);
+
+    this.staged = {
+      id: crypto.randomUUID(),
+      format: parsed.format,
+      plays: parsed.plays,
+      skipped: parsed.skipped,
+      expiresAt: Date.now() + STAGED_IMPORT_TTL_MS,
+    };
+
+    const plan = await this.plan(this.staged.plays);
+
+    // Exports can hold hundreds of thousands of plays, too many to spread
+    // into Math.min/Math.max
+    let oldestPlay: number | null = null;
+    let newestPlay: number | null = null;
+    for (const play of parsed.plays) {
+      if (oldestPlay === null || play.timestamp < oldestPlay) {
+        oldestPlay = play.timestamp;
+      }
+      if (newestPlay === null || play.timestamp > newestPlay) {
+        newestPlay = play.timestamp;
+      }
+    }
+
+    this.logger.info(
+      `Previewed ${parsed.format} import: ${plan.newPlays} new plays of ${parsed.plays.length}`
+    );
+
+    return {
+      importId: this.staged.id,
+      format: parsed.format,
+      totalPlays: parsed.plays.length,
+      skippedRows: parsed.skipped,
+      duplicatePlays: plan.duplicatePlays,
+      newPlays: plan.newPlays,
+      newAlbums: plan.newAlbums.size,
+      updatedAlbums: plan.updatedAlbums.size,
+      newArtists: plan.newArtists.size,
+      newArtistNames: Array.from(plan.newArtists.values())
+        .sort((a, b) => a.localeCompare(b))
+        .slice(0, MAX_PREVIEW_ARTIST_NAMES),
+      oldestPlay,
+      newestPlay,
+      expiresAt: this.staged.expiresAt,
+    };
+  }
+
+  /**
+   * Merge a previewed import into the history index. The index is re-read
+   * so plays synced since the preview aren't duplicated.
+   */
+  async apply(importId: string): Promise<HistoryImportResult> {
+    const staged = this.staged;
+    if (!staged || staged.id !== importId || staged.expiresAt < Date.now()) {
+      throw new HistoryImportError(
+        'Import not found or expired; upload the file again',
+        404
+      );
+    }
+    if (this.syncService.isSyncInProgress()) {
+      throw new HistoryImportError(
+        'A history sync is running; try again when it finishes',
+        409
+      );
+    }
+
+    const plan = await this.plan(staged.plays);
+    const { index } = plan;
+    index.totalScrobbles += plan.newPlays;
+
+    // lastSyncTimestamp stays put: an export isn't known to hold every
+    // play up to its newest one, so the next incremental sync still
+    // fetches everything after the last sync and skips what's imported
+
+    await this.syncService.saveImportedIndex(index);
+    this.staged = null;
+
+    this.logger.info(
+      `Imported ${plan.newPlays} plays (${plan.newAlbums.size} new albums, ${plan.newArtists.size} new artists)`
+    );
+
+    return {
+      playsAdded: plan.newPlays,
+      albumsAdded: plan.newAlbums.size,
+      artistsAdded: plan.newArtists.size,
+      totalScrobbles: index.totalScrobbles,
+    };
+  }
+
+  /**
+   * Add plays to a freshly read copy of the current index, counting what
+   * changes. Nothing is written here.
+   */
+  private async plan(plays: ImportedPlay[]): Promise<ImportPlan> {
+    const index = (await this.syncService.getHistoryIndex()) || emptyIndex();
+
+    // Existing entries by resolved artist, so "The Beatles" plays land on
+    // an index entry keyed "beatles" when the resolver links the two
+    const keysByResolvedName = new Map<string, string>();
+    const knownArtists = new Set<string>();
+    // Timestamps of every indexed play, whatever album it's filed under,
+    // so a play the export names differently isn't imported twice
+    const knownTimestamps = new Set<number>();
+    for (const [key, entry] of Object.entries(index.albums)) {
+      const pipeIdx = key.indexOf('|');
+      const resolvedArtist = this.resolveArtist(key.substring(0, pipeIdx));
+      knownArtists.add(resolvedArtist);
+      const resolvedKey = `${resolvedArtist}|${key.substring(pipeIdx + 1)}`;
+      if (!keysByResolvedName.has(resolvedKey)) {
+        keysByResolvedName.set(resolvedKey, key);
+      }
+      for (const play of entry.plays) {
+        knownTimestamps.add(play.timestamp);
+      }
+    }
+
+    const plan: ImportPlan = {
+      index,
+      newPlays: 0,
+      duplicatePlays: 0,
+      newAlbums: new Set(),
+      updatedAlbums: new Set(),
+      newArtists: new Map(),
+    };
+
+    for (const play of plays) {
+      const rawKey = this.normalizeKey(play.artist, play.album);
+      const resolvedArtist = this.resolveArtist(play.artist);
+      const resolvedKey = `${resolvedArtist}|${play.album.toLowerCase().trim()}`;
+      const key = index.albums[rawKey]
+        ? rawKey
+        : keysByResolvedName.get(resolvedKey) || rawKey;
+
+      if (knownTimestamps.has(play.timestamp)) {
+        plan.duplicatePlays++;
+        continue;
+      }
+      knownTimestamps.add(play.timestamp);
+
+      let entry = index.albums[key];
+      if (!entry) {
+        entry = { lastPlayed: play.timestamp, playCount: 0, plays: [] };
+        index.albums[key] = entry;
+        keysByResolvedName.set(resolvedKey, key);
+        plan.newAlbums.add(key);
+      } else if (!plan.newAlbums.has(key)) {
+        plan.updatedAlbums.add(key);
+      }
+
+      entry.plays.push({ timestamp: play.timestamp, track: play.track });
+      entry.playCount++;
+      entry.lastPlayed = Math.max(entry.lastPlayed, play.timestamp);
+
+      if (
+        index.oldestScrobbleDate === 0 ||
+        play.timestamp < index.oldestScrobbleDate
+      ) {
+        index.oldestScrobbleDate = play.timestamp;
+      }
+
+      if (!knownArtists.has(resolvedArtist)) {
+        plan.newArtists.set(
+          resolvedArtist,
+          this.resolver
+            ? this.resolver.getDisplayName(play.artist)
+            : play.artist
+        );
+      }
+      plan.newPlays++;
+    }
+
+    // Keep plays newest first, matching entries written by a sync
+    for (const key of [...plan.newAlbums, ...plan.updatedAlbums]) {
+      index.albums[key].plays.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    return plan;
+  }
+}
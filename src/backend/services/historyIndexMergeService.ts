@@ -8,6 +8,7 @@ import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { ArtistNameResolver } from './artistNameResolver';
+import { PLAYS_DB_FILE, PlayDatabase } from './playDatabase';
 
 const log = createLogger('historyIndexMergeService');
 
@@ -25,12 +26,26 @@ const HISTORY_INDEX_FILE = 'history/scrobble-history-index.json';
 export class HistoryIndexMergeService {
   private resolver: ArtistNameResolver;
   private fileStorage: FileStorage;
+  private playDatabase: PlayDatabase | null = null;
 
   constructor(resolver: ArtistNameResolver, fileStorage: FileStorage) {
     this.resolver = resolver;
     this.fileStorage = fileStorage;
   }
 
+  /**
+   * Merge in the SQLite play database instead of the JSON index.
+   */
+  setPlayDatabase(playDatabase: PlayDatabase): void {
+    this.playDatabase = playDatabase;
+  }
+
+  private async readIndex(): Promise<ScrobbleHistoryIndex | null> {
+    return this.playDatabase
+      ? this.playDatabase.readIndex()
+      : this.fileStorage.readJSON<ScrobbleHistoryIndex>(HISTORY_INDEX_FILE);
+  }
+
   /**
    * Dry-run scan: find index entries that should be merged based on
    * artist name resolution.
@@ -40,8 +55,7 @@ export class HistoryIndexMergeService {
    * produces a MergeProposal.
    */
   async findSplitEntries(): Promise<MergeProposal[]> {
-    const index =
-      await this.fileStorage.readJSON<ScrobbleHistoryIndex>(HISTORY_INDEX_FILE);
+    const index = await this.readIndex();
     if (!index) {
       log.info('No history index found, nothing to scan');
       return [];
@@ -111,14 +125,15 @@ export class HistoryIndexMergeService {
       return { mergedCount: 0, proposals: [], backupPath: '' };
     }
 
-    const index =
-      await this.fileStorage.readJSON<ScrobbleHistoryIndex>(HISTORY_INDEX_FILE);
+    const index = await this.readIndex();
     if (!index) {
       throw new Error('History index not found, cannot execute merge');
     }
 
     // Create backup before making changes
-    const backupPath = await this.fileStorage.createBackup(HISTORY_INDEX_FILE);
+    const backupPath = await this.fileStorage.createBackup(
+      this.playDatabase ? PLAYS_DB_FILE : HISTORY_INDEX_FILE
+    );
     log.info(`Created backup at ${backupPath ?? 'unknown'}`);
 
     let mergedCount = 0;
@@ -154,7 +169,11 @@ export class HistoryIndexMergeService {
     }
 
     // Write the merged index (backup already created above)
-    await this.fileStorage.writeJSON(HISTORY_INDEX_FILE, index);
+    if (this.playDatabase) {
+      this.playDatabase.writeIndex(index);
+    } else {
+      await this.fileStorage.writeJSON(HISTORY_INDEX_FILE, index);
+    }
     log.info(`Merged ${mergedCount} split entries`);
 
     return {
@@ -1,3 +1,5 @@
+import axios from 'axios';
+
 import { CollectionItem } from '../../shared/types';
 import { normalizeForMatching } from '../../shared/utils/trackNormalization';
 import { FileStorage } from '../utils/fileStorage';
@@ -12,6 +14,11 @@ const ARTIST_IMAGES_CACHE = 'images/artist-images.json';
 // Cache TTL: 30 days in milliseconds
 const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
+// Downloaded image data kept in memory for exports
+const MAX_IMAGE_DATA_ENTRIES = 200;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_DOWNLOAD_TIMEOUT_MS = 10000;
+
 interface ImageCacheEntry {
   url: string | null;
   fetchedAt: number;
@@ -40,6 +47,7 @@ export class ImageService {
   private albumCoverCache: Map<string, ImageCacheEntry> = new Map();
   private artistImageCache: Map<string, ImageCacheEntry> = new Map();
   private cacheLoaded = false;
+  private imageDataCache: Map<string, string> = new Map();
 
   constructor(fileStorage: FileStorage, lastfmService: LastFmService) {
     this.fileStorage = fileStorage;
@@ -206,6 +214,59 @@ export class ImageService {
     return results;
   }
 
+  /**
+   * Download a cached cover or artist image as a data URI, for embedding in
+   * exports that must work offline. Returns null if the image can't be
+   * fetched. Only downloaded images are remembered, so a timeout or server
+   * error is retried by the next export.
+   */
+  async getImageDataUri(url: string): Promise<string | null> {
+    const cached = this.imageDataCache.get(url);
+    if (cached) {
+      return cached;
+    }
+    if (!/^https?:\/\//i.test(url)) {
+      return null;
+    }
+
+    let dataUri: string | null = null;
+    try {
+      const response = await axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        timeout: IMAGE_DOWNLOAD_TIMEOUT_MS,
+        maxContentLength: MAX_IMAGE_BYTES,
+      });
+      const contentType = String(response.headers['content-type'] ?? '')
+        .split(';')[0]
+        .trim();
+      if (contentType.startsWith('image/')) {
+        dataUri = `data:${contentType};base64,${Buffer.from(response.data).toString('base64')}`;
+      } else {
+        this.logger.warn('Image URL did not return an image', {
+          url,
+          contentType,
+        });
+      }
+    } catch (error) {
+      this.logger.warn('Error downloading image', {
+        url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (!dataUri) {
+      return null;
+    }
+
+    // Drop the oldest entry once full; Maps iterate in insertion order
+    if (this.imageDataCache.size >= MAX_IMAGE_DATA_ENTRIES) {
+      const oldest = this.imageDataCache.keys().next().value;
+      if (oldest !== undefined) this.imageDataCache.delete(oldest);
+    }
+    this.imageDataCache.set(url, dataUri);
+    return dataUri;
+  }
+
   /**
    * Clean up expired cache entries
    */
@@ -314,15 +375,7 @@ export class ImageService {
 
   private async persistAlbumCache(): Promise<void> {
     try {
-      const entries: Record<string, ImageCacheEntry> = {};
-      for (const [key, entry] of this.albumCoverCache.entries()) {
-        entries[key] = entry;
-      }
-
-      await this.fileStorage.writeJSON<ImageCache>(ALBUM_COVERS_CACHE, {
-        schemaVersion: 1,
-        entries,
-      });
+      await this.persistCache(ALBUM_COVERS_CACHE, this.albumCoverCache);
     } catch (error) {
       this.logger.error('Error persisting album cache', error);
     }
@@ -330,20 +383,43 @@ export class ImageService {
 
   private async persistArtistCache(): Promise<void> {
     try {
-      const entries: Record<string, ImageCacheEntry> = {};
-      for (const [key, entry] of this.artistImageCache.entries()) {
-        entries[key] = entry;
-      }
-
-      await this.fileStorage.writeJSON<ImageCache>(ARTIST_IMAGES_CACHE, {
-        schemaVersion: 1,
-        entries,
-      });
+      await this.persistCache(ARTIST_IMAGES_CACHE, this.artistImageCache);
     } catch (error) {
       this.logger.error('Error persisting artist cache', error);
     }
   }
 
+  /**
+   * Write `cache` to `path`. The image caches are shared by every profile,
+   * so entries other profiles saved since we loaded the file are merged in
+   * first (the newer fetch wins) rather than overwritten. Expired entries
+   * on disk are left out so cleanup sticks.
+   */
+  private async persistCache(
+    path: string,
+    cache: Map<string, ImageCacheEntry>
+  ): Promise<void> {
+    const now = Date.now();
+    const onDisk = await this.fileStorage.readJSON<ImageCache>(path);
+    for (const [key, entry] of Object.entries(onDisk?.entries ?? {})) {
+      if (now - entry.fetchedAt > CACHE_TTL_MS) continue;
+      const current = cache.get(key);
+      if (!current || entry.fetchedAt > current.fetchedAt) {
+        cache.set(key, entry);
+      }
+    }
+
+    const entries: Record<string, ImageCacheEntry> = {};
+    for (const [key, entry] of cache.entries()) {
+      entries[key] = entry;
+    }
+
+    await this.fileStorage.writeJSON<ImageCache>(path, {
+      schemaVersion: 1,
+      entries,
+    });
+  }
+
   private async persistCaches(): Promise<void> {
     await Promise.all([this.persistAlbumCache(), this.persistArtistCache()]);
   }
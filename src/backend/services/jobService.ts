@@ -0,0 +1,424 @@
+/**
+ * Job Service - one place to track background work (history syncs, scans,
+ * rebuilds) so the UI can show a single activity panel for all of it.
+ *
+ * Each profile has its own job service. Jobs live in memory and are
+ * written to the profile's jobs/jobs.json on every state change, so
+ * history survives a restart. Anything still queued or running
+ * when the server stopped is marked failed on the next start.
+ *
+ * There are two ways to use it:
+ * - runJob(): hand over the work. It waits behind other jobs of the same
+ *   type (per-type concurrency limit), runs, and the outcome is recorded.
+ * - startJob() / report(): for services that already run their own
+ *   background work and only need to report progress on it.
+ */
+
+import crypto from 'crypto';
+
+import { Job, JobHistoryStore, JobState } from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import { EventStreamService } from './eventStreamService';
+
+const logger = createLogger('JobService');
+
+const JOBS_FILE = 'jobs/jobs.json';
+
+// Finished jobs stay in the polling feed this long so clients see them end
+const RECENT_JOB_WINDOW_MS = 5 * 60 * 1000;
+
+// Only the most recent finished jobs are kept in history
+const MAX_FINISHED_JOBS = 200;
+
+// Jobs of the same type run one at a time unless configured otherwise
+const DEFAULT_CONCURRENCY_LIMIT = 1;
+
+export interface JobOptions {
+  /** Asks the underlying work to stop. Without it the job can't be cancelled. */
+  onCancel?: () => unknown;
+}
+
+export interface JobContext {
+  id: string;
+  isCancelled(): boolean;
+  progress(progress: number | undefined, message?: string): void;
+}
+
+/** Resolves with the completion message shown to the user, if any. */
+export type JobTask = (job: JobContext) => Promise<string | void>;
+
+/**
+ * A service's own status translated for report().
+ */
+export interface JobReport {
+  state: 'running' | 'completed' | 'failed' | 'cancelled';
+  message?: string;
+  progress?: number;
+  error?: string;
+}
+
+const isActive = (job: Job): boolean =>
+  job.status === 'queued' || job.status === 'running';
+
+export class JobService {
+  private fileStorage: FileStorage | null = null;
+  private jobs: Map<string, Job> = new Map();
+  private cancelHandlers: Map<string, () => unknown> = new Map();
+  private waiting: Array<{ job: Job; start: () => void }> = [];
+  private concurrencyLimits: Map<string, number> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+  private savePending = false;
+
+  constructor(private eventStreamService: EventStreamService) {}
+
+  /**
+   * Load job history and start persisting changes. Jobs started before
+   * this is called are kept and saved with the loaded history.
+   */
+  async initialize(fileStorage: FileStorage): Promise<void> {
+    this.fileStorage = fileStorage;
+
+    try {
+      const store = await fileStorage.readJSON<JobHistoryStore>(JOBS_FILE);
+      if (store && store.schemaVersion === 1) {
+        const now = Date.now();
+        for (const job of store.jobs) {
+          if (this.jobs.has(job.id)) continue;
+          if (isActive(job)) {
+            job.status = 'failed';
+            job.error = 'Interrupted by server restart';
+            job.completedAt = now;
+            delete job.cancelRequested;
+          }
+          this.jobs.set(job.id, job);
+        }
+      }
+    } catch {
+      logger.debug('No job history found, starting fresh');
+    }
+
+    this.persist();
+  }
+
+  setConcurrencyLimit(type: string, limit: number): void {
+    this.concurrencyLimits.set(type, Math.max(1, limit));
+    this.startWaiting(type);
+  }
+
+  /**
+   * Record work that the caller is already running. Returns the job id.
+   */
+  startJob(type: string, message: string, options: JobOptions = {}): string {
+    const job = this.createJob(type, message, options);
+    this.begin(job);
+    return job.id;
+  }
+
+  /**
+   * Run `task` as a job, queued behind running jobs of the same type.
+   * The task should check isCancelled() between steps; `onCancel` can stop
+   * work that the task is waiting on. Returns the job id immediately.
+   */
+  runJob(
+    type: string,
+    message: string,
+    task: JobTask,
+    options: JobOptions & { failureMessage?: string } = {}
+  ): string {
+    let cancelled = false;
+    const job = this.createJob(type, message, {
+      onCancel: () => {
+        cancelled = true;
+        return options.onCancel?.();
+      },
+    });
+    const context: JobContext = {
+      id: job.id,
+      isCancelled: () => cancelled,
+      progress: (progress, progressMessage) =>
+        this.updateProgress(job.id, progress, progressMessage),
+    };
+
+    const start = () => {
+      this.begin(job);
+      task(context).then(
+        result => {
+          if (cancelled) {
+            this.markCancelled(job.id);
+          } else {
+            this.completeJob(job.id, result || undefined);
+          }
+        },
+        error => {
+          logger.error(`Job ${job.id} (${type}) threw`, error);
+          this.failJob(
+            job.id,
+            options.failureMessage ??
+              (error instanceof Error ? error.message : 'Unknown error')
+          );
+        }
+      );
+    };
+
+    if (this.runningCount(type) < this.getConcurrencyLimit(type)) {
+      start();
+    } else {
+      this.waiting.push({ job, start });
+      logger.info(`Job queued: ${job.id} (${type}) - ${message}`);
+      this.persist();
+      this.publish(job);
+    }
+
+    return job.id;
+  }
+
+  /**
+   * Update progress (0-100) and optionally the message of a running job.
+   * Progress isn't persisted on its own; it is saved with the next state change.
+   */
+  updateProgress(id: string, progress?: number, message?: string): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') return;
+    if (progress !== undefined) {
+      job.progress = Math.min(100, Math.max(0, Math.round(progress)));
+    }
+    if (message) job.message = message;
+    this.publish(job, true);
+  }
+
+  completeJob(id: string, message?: string): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    if (message) job.message = message;
+    if (job.progress !== undefined) job.progress = 100;
+    this.finish(job, 'completed');
+  }
+
+  failJob(id: string, error: string): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    job.error = error;
+    this.finish(job, 'failed');
+  }
+
+  /**
+   * Record that the work stopped after a cancellation request.
+   */
+  markCancelled(id: string, message?: string): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    job.message = message || `${job.message} (cancelled)`;
+    this.finish(job, 'cancelled');
+  }
+
+  /**
+   * Cancel a queued job, or ask a running one to stop. Returns false if the
+   * job doesn't exist, has finished, or can't be cancelled.
+   */
+  async cancelJob(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || !job.cancellable || !isActive(job)) return false;
+
+    if (job.status === 'queued') {
+      this.waiting = this.waiting.filter(entry => entry.job.id !== id);
+      this.markCancelled(id, `${job.message} (cancelled before starting)`);
+      return true;
+    }
+
+    if (!job.cancelRequested) {
+      job.cancelRequested = true;
+      logger.info(`Cancellation requested: ${id} (${job.type})`);
+      this.persist();
+      this.publish(job);
+      await this.cancelHandlers.get(id)?.();
+    }
+    return true;
+  }
+
+  /**
+   * Mirror a service's own status onto a job: the first running report
+   * starts a job, a terminal report finishes it. Returns the id to pass to
+   * the next call, or null once the job has finished.
+   */
+  report(
+    jobId: string | null,
+    type: string,
+    report: JobReport,
+    options: JobOptions = {}
+  ): string | null {
+    const current = jobId ? this.jobs.get(jobId) : undefined;
+
+    if (report.state === 'running') {
+      const id =
+        current && isActive(current)
+          ? current.id
+          : this.startJob(type, report.message || type, options);
+      this.updateProgress(id, report.progress, report.message);
+      return id;
+    }
+
+    if (!current) return null;
+    if (report.state === 'completed') {
+      this.completeJob(current.id, report.message);
+    } else if (report.state === 'failed') {
+      this.failJob(current.id, report.error || report.message || 'Failed');
+    } else {
+      this.markCancelled(current.id, report.message);
+    }
+    return null;
+  }
+
+  getJob(id: string): Job | undefined {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  /**
+   * Active jobs plus those that finished in the last five minutes.
+   */
+  getRecentJobs(): Job[] {
+    const cutoff = Date.now() - RECENT_JOB_WINDOW_MS;
+    return this.sorted().filter(
+      job => isActive(job) || (job.completedAt ?? 0) >= cutoff
+    );
+  }
+
+  getHistory(options: { type?: string; limit?: number } = {}): Job[] {
+    const { type, limit = 50 } = options;
+    return this.sorted()
+      .filter(job => !type || job.type === type)
+      .slice(0, limit);
+  }
+
+  /**
+   * Wait for pending writes. Used by tests and on shutdown.
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  reset(): void {
+    this.jobs.clear();
+    this.cancelHandlers.clear();
+    this.waiting = [];
+    this.concurrencyLimits.clear();
+    this.fileStorage = null;
+  }
+
+  private createJob(type: string, message: string, options: JobOptions): Job {
+    const job: Job = {
+      id: crypto.randomUUID(),
+      type,
+      status: 'queued',
+      message,
+      cancellable: !!options.onCancel,
+      queuedAt: Date.now(),
+    };
+    this.jobs.set(job.id, job);
+    if (options.onCancel) {
+      this.cancelHandlers.set(job.id, options.onCancel);
+    }
+    return job;
+  }
+
+  private begin(job: Job): void {
+    job.status = 'running';
+    job.startedAt = Date.now();
+    logger.info(`Job started: ${job.id} (${job.type}) - ${job.message}`);
+    this.persist();
+    this.publish(job);
+  }
+
+  private finish(job: Job, status: JobState): void {
+    if (!isActive(job)) return;
+
+    job.status = status;
+    job.completedAt = Date.now();
+    this.cancelHandlers.delete(job.id);
+
+    if (status === 'failed') {
+      logger.error(`Job failed: ${job.id} (${job.type}) - ${job.error}`);
+    } else {
+      logger.info(`Job ${status}: ${job.id} (${job.type}) - ${job.message}`);
+    }
+
+    this.prune();
+    this.persist();
+    this.publish(job);
+    this.startWaiting(job.type);
+  }
+
+  /**
+   * Push the job to live clients. Progress updates are throttled; state
+   * changes go out at once and supersede any progress still waiting.
+   */
+  private publish(job: Job, throttled = false): void {
+    const event = { type: 'job' as const, job: { ...job } };
+    if (throttled) {
+      this.eventStreamService.publish(event, `job:${job.id}`);
+    } else {
+      this.eventStreamService.publishNow(event, `job:${job.id}`);
+    }
+  }
+
+  private getConcurrencyLimit(type: string): number {
+    return this.concurrencyLimits.get(type) ?? DEFAULT_CONCURRENCY_LIMIT;
+  }
+
+  private runningCount(type: string): number {
+    let count = 0;
+    for (const job of this.jobs.values()) {
+      if (job.type === type && job.status === 'running') count++;
+    }
+    return count;
+  }
+
+  private startWaiting(type: string): void {
+    while (this.runningCount(type) < this.getConcurrencyLimit(type)) {
+      const index = this.waiting.findIndex(entry => entry.job.type === type);
+      if (index === -1) return;
+      const [next] = this.waiting.splice(index, 1);
+      next.start();
+    }
+  }
+
+  private sorted(): Job[] {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => b.queuedAt - a.queuedAt)
+      .map(job => ({ ...job }));
+  }
+
+  private prune(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => !isActive(job))
+      .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0));
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  /**
+   * Queue a write of the current state. Writes are serialized, and several
+   * changes in quick succession share one write.
+   */
+  private persist(): void {
+    const fileStorage = this.fileStorage;
+    if (!fileStorage || this.savePending) return;
+
+    this.savePending = true;
+    this.saving = this.saving
+      .then(async () => {
+        this.savePending = false;
+        const store: JobHistoryStore = {
+          schemaVersion: 1,
+          jobs: this.sorted(),
+        };
+        await fileStorage.writeJSON(JOBS_FILE, store);
+      })
+      .catch(error => {
+        logger.warn('Failed to save job history', error);
+      });
+  }
+}
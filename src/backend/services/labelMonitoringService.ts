@@ -14,12 +14,15 @@ import {
   MonitoredLabelsStore,
 } from '../../shared/types';
 import { safeJsonParse } from '../../shared/utils/safeJsonParse';
-import { getDiscogsAxios } from '../utils/discogsAxios';
+import { getDiscogsAxios, withDiscogsPriority } from '../utils/discogsAxios';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { AuthService } from './authService';
 import { DiscogsService } from './discogsService';
+import { EventStreamService } from './eventStreamService';
+import { JobReport, JobService } from './jobService';
+import { NotificationService } from './notificationService';
 import { WishlistService } from './wishlistService';
 
 const MAX_RETRIES = 3;
@@ -33,6 +36,9 @@ const PER_PAGE = 100;
  * if the API ever returns malformed pagination metadata.
  */
 const MAX_PAGES_PER_LABEL = 100;
+// Label and artist profiles rarely change; reuse them from the shared
+// Discogs response cache
+const PROFILE_RESPONSE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 interface DiscogsLabelReleaseRaw {
   id: number;
@@ -119,8 +125,14 @@ export class LabelMonitoringService {
 
   private scanInProgress = false;
   private scanAborted = false;
+  private scanJobId: string | null = null;
+  private activeScan: Promise<void> | null = null;
   private initialized = false;
 
+  private eventStreamService: EventStreamService | null = null;
+  private jobService: JobService | null = null;
+  private notificationService: NotificationService | null = null;
+
   constructor(
     fileStorage: FileStorage,
     authService: AuthService,
@@ -151,6 +163,21 @@ export class LabelMonitoringService {
     this.initialize();
   }
 
+  /** Optional: publishes scan progress to the profile's event stream. */
+  setEventStreamService(service: EventStreamService): void {
+    this.eventStreamService = service;
+  }
+
+  /** Optional: mirrors scans onto the profile's job list. */
+  setJobService(service: JobService): void {
+    this.jobService = service;
+  }
+
+  /** Optional: raises new-release notifications in the profile's inbox. */
+  setNotificationService(service: NotificationService): void {
+    this.notificationService = service;
+  }
+
   /**
    * Reset scan status if server crashed mid-scan.
    */
@@ -303,6 +330,48 @@ export class LabelMonitoringService {
       status: merged,
     };
     await this.fileStorage.writeJSON(this.SCAN_STATUS_FILE, store);
+    this.reportScanJob(merged);
+    this.eventStreamService?.publish(
+      { type: 'scan-progress', scan: 'label', status: merged },
+      'scan-progress:label'
+    );
+  }
+
+  /**
+   * Mirror the scan status onto the shared job list.
+   */
+  private reportScanJob(status: LabelScanStatus): void {
+    if (!this.jobService || status.status === 'idle') return;
+
+    const processed = status.processedLabels ?? 0;
+    const total = status.totalLabels ?? 0;
+    const reports: Record<
+      Exclude<LabelScanStatus['status'], 'idle'>,
+      JobReport
+    > = {
+      scanning: {
+        state: 'running',
+        message: status.currentLabelName
+          ? `Scanning ${status.currentLabelName} (${processed}/${total} labels)`
+          : 'Scanning labels...',
+      },
+      completed: {
+        state: 'completed',
+        message: `Label scan complete: ${status.releasesFound ?? 0} new releases`,
+      },
+      cancelled: { state: 'cancelled', message: 'Label scan cancelled' },
+      error: { state: 'failed', error: status.error },
+    };
+
+    this.scanJobId = this.jobService.report(
+      this.scanJobId,
+      'label-scan',
+      {
+        ...reports[status.status],
+        progress: total > 0 ? (processed / total) * 100 : undefined,
+      },
+      { onCancel: () => this.cancelScan() }
+    );
   }
 
   // ============================================
@@ -496,7 +565,11 @@ export class LabelMonitoringService {
     try {
       const headers = await this.getAuthHeaders();
       const response = await this.executeWithRetry(
-        () => this.axios.get(`/labels/${discogsLabelId}`, { headers }),
+        () =>
+          this.axios.get(`/labels/${discogsLabelId}`, {
+            headers,
+            discogsCache: { ttlMs: PROFILE_RESPONSE_TTL_MS },
+          }),
         `lookup label ${discogsLabelId}`
       );
       const rawUrls = response.data?.urls;
@@ -596,7 +669,11 @@ export class LabelMonitoringService {
     try {
       const headers = await this.getAuthHeaders();
       const response = await this.executeWithRetry(
-        () => this.axios.get(`/artists/${discogsArtistId}`, { headers }),
+        () =>
+          this.axios.get(`/artists/${discogsArtistId}`, {
+            headers,
+            discogsCache: { ttlMs: PROFILE_RESPONSE_TTL_MS },
+          }),
         `lookup artist ${discogsArtistId}`
       );
       const rawUrls = response.data?.urls;
@@ -1133,7 +1210,9 @@ export class LabelMonitoringService {
     // runScanInBackground already has its own try/catch/finally; this .catch
     // is a defensive safety net for any rejection that escapes (which would
     // otherwise become an unhandled promise rejection and crash the process).
-    void this.runScanInBackground(labels, targetLabelId).catch(async error => {
+    this.activeScan = withDiscogsPriority('background', () =>
+      this.runScanInBackground(labels, targetLabelId)
+    ).catch(async error => {
       try {
         this.logger.error('Background label scan failed (escaped)', error);
         await this.writeScanStatus({
@@ -1157,6 +1236,14 @@ export class LabelMonitoringService {
     return initial;
   }
 
+  /**
+   * Resolve once the scan started by startScan() has finished. Check
+   * getScanStatus() for the outcome.
+   */
+  async waitForScan(): Promise<void> {
+    await this.activeScan;
+  }
+
   async cancelScan(): Promise<boolean> {
     if (!this.scanInProgress) {
       this.logger.info('No label scan in progress to cancel');
@@ -1186,14 +1273,24 @@ export class LabelMonitoringService {
 
       let processed = 0;
       let releasesFound = 0;
+      const newReleases: LabelRelease[] = [];
 
       const labelsToScan = targetLabelId
         ? labels.filter(l => l.id === targetLabelId)
         : labels;
 
+      // Tell the user about what was found, even if the scan was cancelled
+      const notifyNewReleases = () =>
+        this.notificationService?.raise({
+          type: 'label-releases',
+          releases: newReleases,
+          labelNames: Object.fromEntries(labels.map(l => [l.id, l.name])),
+        });
+
       for (const label of labelsToScan) {
         if (this.scanAborted) {
           this.logger.info('Label scan cancelled between labels');
+          notifyNewReleases();
           await this.writeScanStatus({
             status: 'cancelled',
             processedLabels: processed,
@@ -1287,6 +1384,7 @@ export class LabelMonitoringService {
 
           if (!existing) {
             releasesFound++;
+            newReleases.push(updated);
             existingByKey.set(key, updated);
             releasesStore.releases.push(updated);
           } else {
@@ -1326,6 +1424,7 @@ export class LabelMonitoringService {
         });
       }
 
+      notifyNewReleases();
       await this.writeScanStatus({
         status: this.scanAborted ? 'cancelled' : 'completed',
         processedLabels: processed,
@@ -4,13 +4,21 @@ import axios, { AxiosInstance } from 'axios';
 
 import {
   LastFmTopTrack,
+  ScrobbleTargetSummary,
   ScrobbleTrack,
   ScrobbleSession,
+  ScrobbleSource,
 } from '../../shared/types';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { AuthService } from './authService';
+import { EventStreamService } from './eventStreamService';
+import { DEFAULT_PROFILE_ID, withProfileQuery } from './profileService';
+import {
+  hasFailedTarget,
+  ScrobbleTargetService,
+} from './scrobbleTargetService';
 
 /**
  * Last.fm API response types
@@ -42,13 +50,63 @@ export interface LastFmRecentTrack {
   '@attr'?: { nowplaying: string };
 }
 
+/**
+ * Error returned in a Last.fm API response body, keeping the numeric code
+ * so callers can tell transient failures from permanent ones.
+ */
+export class LastFmApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number
+  ) {
+    super(message);
+    this.name = 'LastFmApiError';
+  }
+}
+
+// Operation failed, service offline, temporarily unavailable, rate limited
+const RETRYABLE_LASTFM_ERROR_CODES = [8, 11, 16, 29];
+
+/**
+ * Whether a scrobble error is worth retrying later: network failures,
+ * 5xx/429 responses and Last.fm's "try again later" error codes.
+ */
+export function isRetryableScrobbleError(error: unknown): boolean {
+  if (error instanceof LastFmApiError) {
+    return RETRYABLE_LASTFM_ERROR_CODES.includes(error.code);
+  }
+  if (axios.isAxiosError(error)) {
+    if (!error.response) return true;
+    const { status, data } = error.response;
+    if (status >= 500 || status === 429) return true;
+    return RETRYABLE_LASTFM_ERROR_CODES.includes(data?.error);
+  }
+  return false;
+}
+
+/**
+ * Minimal interface for the scrobble retry queue, used to avoid a circular
+ * import between LastFmService and ScrobbleQueueService.
+ */
+export interface ScrobbleRetryQueue {
+  enqueue(
+    items: Array<{ track: ScrobbleTrack; trackIndex?: number }>,
+    reason: string,
+    sessionId?: string
+  ): Promise<void>;
+}
+
 export class LastFmService {
   private axios: AxiosInstance;
   private fileStorage: FileStorage;
   private authService: AuthService;
+  private scrobbleQueue: ScrobbleRetryQueue | null = null;
+  private scrobbleTargets: ScrobbleTargetService | null = null;
   private baseUrl = 'https://ws.audioscrobbler.com/2.0/';
   private logger = createLogger('LastFmService');
 
+  private eventStreamService: EventStreamService | null = null;
+
   constructor(fileStorage: FileStorage, authService: AuthService) {
     this.fileStorage = fileStorage;
     this.authService = authService;
@@ -66,6 +124,27 @@ export class LastFmService {
     });
   }
 
+  /** Optional: publishes scrobble progress to the profile's event stream. */
+  setEventStreamService(service: EventStreamService): void {
+    this.eventStreamService = service;
+  }
+
+  /**
+   * Set the retry queue for scrobbles that fail for transient reasons.
+   * Called from server.ts after both services are constructed.
+   */
+  setScrobbleQueue(queue: ScrobbleRetryQueue): void {
+    this.scrobbleQueue = queue;
+  }
+
+  /**
+   * Set the additional targets (e.g. ListenBrainz) that batch scrobbles and
+   * resubmits fan out to. Called from server.ts.
+   */
+  setScrobbleTargets(targets: ScrobbleTargetService): void {
+    this.scrobbleTargets = targets;
+  }
+
   private generateApiSig(
     params: Record<string, string>,
     secret: string
@@ -85,16 +164,22 @@ export class LastFmService {
       .digest('hex');
   }
 
-  async getAuthUrl(): Promise<string> {
+  /**
+   * Last.fm login URL. The callback names `profileId` so the session is
+   * saved to the profile that started the login.
+   */
+  async getAuthUrl(profileId: string = DEFAULT_PROFILE_ID): Promise<string> {
     const credentials = await this.authService.getLastFmCredentials();
     if (!credentials.apiKey) {
       throw new Error('Last.fm API key not configured');
     }
 
     const backendPort = process.env.BACKEND_PORT || process.env.PORT || '3001';
-    const callbackUrl =
+    const callbackUrl = withProfileQuery(
       process.env.LASTFM_CALLBACK_URL ||
-      `http://localhost:${backendPort}/api/v1/auth/lastfm/callback`;
+        `http://localhost:${backendPort}/api/v1/auth/lastfm/callback`,
+      profileId
+    );
 
     return `http://www.last.fm/api/auth/?api_key=${credentials.apiKey}&cb=${encodeURIComponent(callbackUrl)}`;
   }
@@ -254,7 +339,10 @@ export class LastFmService {
           error: response.data.error,
           message: response.data.message,
         });
-        throw new Error(response.data.message || 'Scrobbling failed');
+        throw new LastFmApiError(
+          response.data.message || 'Scrobbling failed',
+          response.data.error
+        );
       }
 
       // Check scrobble status
@@ -301,21 +389,29 @@ export class LastFmService {
     }
   }
 
-  async scrobbleBatch(tracks: ScrobbleTrack[]): Promise<{
+  async scrobbleBatch(
+    tracks: ScrobbleTrack[],
+    source: ScrobbleSource = 'app'
+  ): Promise<{
     success: number;
     failed: number;
     ignored: number;
+    queued: number;
     errors: string[];
     failedTracks: ScrobbleTrack[];
     sessionId: string;
+    targets: ScrobbleTargetSummary[];
   }> {
     const results = {
       success: 0,
       failed: 0,
       ignored: 0,
+      queued: 0,
       errors: [] as string[],
       failedTracks: [] as ScrobbleTrack[],
     };
+    let queueFrom: number | null = null;
+    let queueReason = '';
 
     // Create scrobble session
     const session: ScrobbleSession = {
@@ -323,12 +419,10 @@ export class LastFmService {
       tracks,
       timestamp: Date.now(),
       status: 'pending',
+      source,
     };
 
-    await this.fileStorage.writeJSON(
-      `scrobbles/session-${session.id}.json`,
-      session
-    );
+    await this.saveSession(session);
 
     try {
       for (let i = 0; i < tracks.length; i++) {
@@ -363,17 +457,22 @@ export class LastFmService {
             failed: results.failed,
             ignored: results.ignored,
           };
-          await this.fileStorage.writeJSON(
-            `scrobbles/session-${session.id}.json`,
-            session
-          );
+          await this.saveSession(session);
         } catch (error) {
+          const message =
+            error instanceof Error ? error.message : 'Unknown error';
+          if (this.scrobbleQueue && isRetryableScrobbleError(error)) {
+            // Last.fm is unreachable or throttling: queue this and the
+            // remaining tracks instead of waiting on each to time out
+            queueFrom = i;
+            queueReason = message;
+            break;
+          }
+
           results.failed++;
           track.scrobbleStatus = 'failed';
           results.failedTracks.push(track);
-          results.errors.push(
-            `${track.artist} - ${track.track}: ${error instanceof Error ? error.message : 'Unknown error'}`
-          );
+          results.errors.push(`${track.artist} - ${track.track}: ${message}`);
 
           // Update session with error progress
           session.status = 'in-progress';
@@ -384,15 +483,34 @@ export class LastFmService {
             failed: results.failed,
             ignored: results.ignored,
           };
-          await this.fileStorage.writeJSON(
-            `scrobbles/session-${session.id}.json`,
-            session
-          );
+          await this.saveSession(session);
         }
       }
 
-      // Update session status
-      session.status = results.failed === 0 ? 'completed' : 'failed';
+      if (queueFrom !== null) {
+        await this.queueRemainingTracks(
+          tracks,
+          queueFrom,
+          queueReason,
+          session.id,
+          results
+        );
+      }
+
+      // Other targets get every track, whatever Last.fm made of it
+      const targets = await this.submitToTargets(tracks);
+      for (const summary of targets) {
+        if (summary.error) results.errors.push(summary.error);
+      }
+
+      // Update session status; queued tracks keep it pending until the
+      // retry queue delivers or gives up on them
+      session.status =
+        results.failed > 0 || tracks.some(hasFailedTarget)
+          ? 'failed'
+          : results.queued > 0
+            ? 'pending'
+            : 'completed';
       session.error =
         results.errors.length > 0 ? results.errors.join('; ') : undefined;
       session.progress = {
@@ -401,36 +519,149 @@ export class LastFmService {
         success: results.success,
         failed: results.failed,
         ignored: results.ignored,
+        queued: results.queued,
       };
-      await this.fileStorage.writeJSON(
-        `scrobbles/session-${session.id}.json`,
-        session
-      );
+      await this.saveSession(session);
 
       return {
         success: results.success,
         failed: results.failed,
         ignored: results.ignored,
+        queued: results.queued,
         errors: results.errors,
         failedTracks: results.failedTracks,
         sessionId: session.id,
+        targets,
       };
     } catch (error) {
       session.status = 'failed';
       session.error = error instanceof Error ? error.message : 'Unknown error';
-      await this.fileStorage.writeJSON(
-        `scrobbles/session-${session.id}.json`,
-        session
-      );
+      await this.saveSession(session);
       throw error;
     }
   }
 
+  /**
+   * Record tracks scrobbled one at a time (outside scrobbleBatch) as a
+   * completed session, so the history sync can tell where their plays
+   * came from.
+   */
+  async recordScrobbleSession(
+    tracks: ScrobbleTrack[],
+    source: ScrobbleSource
+  ): Promise<ScrobbleSession> {
+    const session: ScrobbleSession = {
+      id: this.authService.generateNonce(),
+      tracks: tracks.map(track => ({ ...track, scrobbleStatus: 'success' })),
+      timestamp: Date.now(),
+      status: 'completed',
+      source,
+      progress: {
+        current: tracks.length,
+        total: tracks.length,
+        success: tracks.length,
+        failed: 0,
+        ignored: 0,
+      },
+    };
+    await this.fileStorage.writeJSON(
+      `scrobbles/session-${session.id}.json`,
+      session
+    );
+    return session;
+  }
+
+  /**
+   * Write the session file and push its progress to live clients.
+   * Per-track updates are throttled; other status changes go out at once.
+   */
+  private async saveSession(session: ScrobbleSession): Promise<void> {
+    await this.fileStorage.writeJSON(
+      `scrobbles/session-${session.id}.json`,
+      session
+    );
+
+    const event = {
+      type: 'scrobble-progress' as const,
+      sessionId: session.id,
+      status: session.status,
+      progress: session.progress && { ...session.progress },
+      error: session.error,
+    };
+    if (session.status === 'in-progress') {
+      this.eventStreamService?.publish(event, `scrobble:${session.id}`);
+    } else {
+      this.eventStreamService?.publishNow(event, `scrobble:${session.id}`);
+    }
+  }
+
+  /**
+   * Hand tracks[from..] to the retry queue. If the queue can't be written
+   * the tracks are reported as failed so they can still be resubmitted.
+   */
+  private async queueRemainingTracks(
+    tracks: ScrobbleTrack[],
+    from: number,
+    reason: string,
+    sessionId: string,
+    results: {
+      failed: number;
+      queued: number;
+      errors: string[];
+      failedTracks: ScrobbleTrack[];
+    }
+  ): Promise<void> {
+    const items = tracks
+      .slice(from)
+      .map((track, offset) => ({ track, trackIndex: from + offset }));
+
+    try {
+      await this.scrobbleQueue!.enqueue(items, reason, sessionId);
+      for (const { track } of items) {
+        track.scrobbleStatus = 'queued';
+      }
+      results.queued += items.length;
+      results.errors.push(
+        `${items.length} track(s) queued for automatic retry: ${reason}`
+      );
+    } catch (error) {
+      this.logger.error('Failed to queue scrobbles for retry', error);
+      for (const { track } of items) {
+        track.scrobbleStatus = 'failed';
+        results.failed++;
+        results.failedTracks.push(track);
+        results.errors.push(`${track.artist} - ${track.track}: ${reason}`);
+      }
+    }
+  }
+
+  /**
+   * Submit tracks to the enabled additional targets, recording the outcome
+   * on each track. A target failure never fails the Last.fm scrobble.
+   */
+  private async submitToTargets(
+    tracks: ScrobbleTrack[],
+    options?: { onlyFailed?: boolean }
+  ): Promise<ScrobbleTargetSummary[]> {
+    if (!this.scrobbleTargets) return [];
+    try {
+      return await this.scrobbleTargets.submit(tracks, options);
+    } catch (error) {
+      this.logger.error('Failed to submit scrobbles to other targets', error);
+      return [];
+    }
+  }
+
+  /**
+   * Retry a session's tracks: Last.fm for tracks it didn't accept, and each
+   * additional target only for the tracks that target failed.
+   */
   async resubmitTracks(tracks: ScrobbleTrack[]): Promise<{
     success: number;
     failed: number;
     ignored: number;
     errors: string[];
+    targets: ScrobbleTargetSummary[];
   }> {
     const results = {
       success: 0,
@@ -470,11 +701,17 @@ export class LastFmService {
       }
     }
 
+    const targets = await this.submitToTargets(tracks, { onlyFailed: true });
+    for (const summary of targets) {
+      if (summary.error) results.errors.push(summary.error);
+    }
+
     return {
       success: results.success,
       failed: results.failed,
       ignored: results.ignored,
       errors: results.errors,
+      targets,
     };
   }
 
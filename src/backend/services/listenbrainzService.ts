@@ -0,0 +1,240 @@
+import axios, { AxiosInstance } from 'axios';
+
+import { ScrobbleTrack } from '../../shared/types';
+import { createLogger } from '../utils/logger';
+
+import { AuthService } from './authService';
+import { AdditionalScrobbleTarget } from './scrobbleTargetService';
+
+// ListenBrainz accepts at most this many listens per submit-listens call
+const MAX_LISTENS_PER_REQUEST = 1000;
+
+const SUBMISSION_CLIENT = 'RecordScrobbles';
+const SUBMISSION_CLIENT_VERSION = '1.0';
+
+/**
+ * Error response from the ListenBrainz API, keeping the HTTP status.
+ */
+export class ListenBrainzApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ListenBrainzApiError';
+  }
+}
+
+interface ListenPayload {
+  listened_at: number;
+  track_metadata: {
+    artist_name: string;
+    track_name: string;
+    release_name?: string;
+    additional_info: {
+      duration?: number;
+      media_player: string;
+      submission_client: string;
+      submission_client_version: string;
+    };
+  };
+}
+
+// A listen as returned by the user listens endpoint
+interface ListenResponse {
+  listened_at: number;
+  recording_msid?: string;
+  track_metadata?: { track_name?: string };
+}
+
+/**
+ * ListenBrainz client: user token validation and the submit-listens and
+ * delete-listen APIs.
+ * Scrobbles reach it through ScrobbleTargetService alongside Last.fm.
+ */
+export class ListenBrainzService implements AdditionalScrobbleTarget {
+  readonly id = 'listenbrainz' as const;
+  readonly name = 'ListenBrainz';
+
+  private axios: AxiosInstance;
+  private authService: AuthService;
+  private logger = createLogger('ListenBrainzService');
+
+  constructor(authService: AuthService) {
+    this.authService = authService;
+    this.axios = axios.create({
+      baseURL: 'https://api.listenbrainz.org/1/',
+      timeout: 10000,
+      headers: {
+        'User-Agent':
+          'RecordScrobbles/1.0 (https://github.com/recordscrobbles)',
+      },
+    });
+  }
+
+  /**
+   * Check a user token with ListenBrainz and return the account it belongs
+   * to, or null if ListenBrainz rejects it.
+   */
+  async validateToken(token: string): Promise<string | null> {
+    try {
+      const response = await this.axios.get('validate-token', {
+        headers: { Authorization: `Token ${token}` },
+      });
+      return response.data?.valid ? response.data.user_name || '' : null;
+    } catch (error) {
+      throw this.toApiError(error, 'Failed to validate ListenBrainz token');
+    }
+  }
+
+  /**
+   * Validate and store a user token, enabling submission.
+   */
+  async connect(token: string): Promise<string> {
+    const username = await this.validateToken(token);
+    if (username === null) {
+      throw new ListenBrainzApiError('Invalid ListenBrainz token', 401);
+    }
+    await this.authService.setListenBrainzToken(token, username || undefined);
+    this.logger.info('Connected ListenBrainz account');
+    return username;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    const credentials = await this.authService.getListenBrainzCredentials();
+    return !!credentials.token && credentials.enabled;
+  }
+
+  /**
+   * Submit listens, split into requests of at most 1000. Throws on the first
+   * request ListenBrainz rejects; earlier chunks stay submitted.
+   */
+  async submitListens(tracks: ScrobbleTrack[]): Promise<void> {
+    const { token } = await this.authService.getListenBrainzCredentials();
+    if (!token) {
+      throw new ListenBrainzApiError('ListenBrainz token not configured');
+    }
+
+    for (let i = 0; i < tracks.length; i += MAX_LISTENS_PER_REQUEST) {
+      const chunk = tracks.slice(i, i + MAX_LISTENS_PER_REQUEST);
+      try {
+        await this.axios.post(
+          'submit-listens',
+          {
+            // "single" is for a listen that just happened; everything else,
+            // including backdated batches, is an import
+            listen_type: chunk.length === 1 ? 'single' : 'import',
+            payload: chunk.map(track => this.toListen(track)),
+          },
+          { headers: { Authorization: `Token ${token}` } }
+        );
+      } catch (error) {
+        throw this.toApiError(error, 'Failed to submit listens');
+      }
+    }
+
+    this.logger.info(`Submitted ${tracks.length} listens to ListenBrainz`);
+  }
+
+  /**
+   * Delete previously submitted listens. ListenBrainz identifies a listen by
+   * its time and recording MSID, so each one is looked up in the user's
+   * listens first. Failures are counted rather than thrown so one missing
+   * listen doesn't stop the rest.
+   */
+  async deleteListens(
+    tracks: ScrobbleTrack[]
+  ): Promise<{ deleted: number; failed: number; error?: string }> {
+    const { token, username } =
+      await this.authService.getListenBrainzCredentials();
+    if (!token || !username) {
+      throw new ListenBrainzApiError('ListenBrainz token not configured');
+    }
+
+    const headers = { Authorization: `Token ${token}` };
+    let deleted = 0;
+    let failed = 0;
+    let lastError: string | undefined;
+
+    for (const track of tracks) {
+      const listenedAt = track.timestamp;
+      if (!listenedAt) {
+        failed++;
+        continue;
+      }
+
+      try {
+        // min_ts and max_ts are exclusive
+        const response = await this.axios.get(
+          `user/${encodeURIComponent(username)}/listens`,
+          {
+            params: { min_ts: listenedAt - 1, max_ts: listenedAt + 1 },
+            headers,
+          }
+        );
+        const listens: ListenResponse[] = response.data?.payload?.listens ?? [];
+        const name = track.track.trim().toLowerCase();
+        const match = listens.find(
+          listen =>
+            listen.listened_at === listenedAt &&
+            listen.recording_msid &&
+            listen.track_metadata?.track_name?.trim().toLowerCase() === name
+        );
+        if (!match) {
+          failed++;
+          lastError = `Listen not found: ${track.artist} - ${track.track}`;
+          continue;
+        }
+
+        await this.axios.post(
+          'delete-listen',
+          { listened_at: listenedAt, recording_msid: match.recording_msid },
+          { headers }
+        );
+        deleted++;
+      } catch (error) {
+        failed++;
+        lastError = this.toApiError(error, 'Failed to delete listen').message;
+      }
+    }
+
+    this.logger.info(`Deleted ${deleted} listens from ListenBrainz`, {
+      failed,
+    });
+    return { deleted, failed, ...(lastError ? { error: lastError } : {}) };
+  }
+
+  private toListen(track: ScrobbleTrack): ListenPayload {
+    const album = track.album?.trim();
+    return {
+      listened_at: track.timestamp || Math.floor(Date.now() / 1000),
+      track_metadata: {
+        artist_name: track.artist.trim(),
+        track_name: track.track.trim(),
+        ...(album ? { release_name: album } : {}),
+        additional_info: {
+          ...(track.duration && track.duration > 0
+            ? { duration: track.duration }
+            : {}),
+          media_player: 'Vinyl',
+          submission_client: SUBMISSION_CLIENT,
+          submission_client_version: SUBMISSION_CLIENT_VERSION,
+        },
+      },
+    };
+  }
+
+  private toApiError(error: unknown, fallback: string): ListenBrainzApiError {
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const message =
+        (error.response?.data as { error?: string } | undefined)?.error ||
+        error.message ||
+        fallback;
+      return new ListenBrainzApiError(message, status);
+    }
+    return new ListenBrainzApiError(
+      error instanceof Error ? error.message : fallback
+    );
+  }
+}
@@ -0,0 +1,756 @@
+import {
+  BackfillPlan,
+  BackfillPlannedAlbum,
+  BackfillPreset,
+  BackfillWindow,
+  BackfillWindowRequest,
+  CollectionItem,
+  DayPeriod,
+  DiscogsRelease,
+  ExistingScrobble,
+  ListeningPatterns,
+  ScrobbleConflictReport,
+  ScrobbleTrack,
+  TypicalStartTimes,
+} from '../../shared/types';
+import { createLogger } from '../utils/logger';
+
+import { artistMappingService } from './artistMappingService';
+import { DiscogsService } from './discogsService';
+import { DurationLookupService } from './durationLookupService';
+import { parseTrackDuration } from './savedCollectionService';
+import { ScrobbleHistoryStorage } from './scrobbleHistoryStorage';
+
+// A gap of more than 60 minutes between scrobbles starts a new session
+const SESSION_GAP_SECONDS = 60 * 60;
+
+// Only the most recent 6 months of history are analyzed
+const ANALYSIS_WINDOW_SECONDS = 180 * 24 * 60 * 60;
+
+// Last.fm rejects scrobbles older than 14 days
+const LASTFM_WINDOW_SECONDS = 14 * 24 * 60 * 60;
+
+// Fallbacks when the history is too thin to learn from
+const DEFAULT_TRACK_SECONDS = 180;
+const DEFAULT_GAP_SECONDS = 10 * 60;
+const DEFAULT_SESSION_SECONDS = 90 * 60;
+
+// Existing scrobbles only record a start time; assume a typical track length
+const EXISTING_PLAY_SECONDS = DEFAULT_TRACK_SECONDS;
+
+// Auto-shift looks for a free gap at most a day either side of the proposal
+const CONFLICT_SEARCH_SECONDS = 24 * 60 * 60;
+
+// Patterns are recalculated after a sync or once a day
+const PATTERN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Local hour bounds [start, end) for each part of the day */
+const PERIOD_HOURS: Record<DayPeriod, [number, number]> = {
+  night: [0, 6],
+  morning: [6, 12],
+  afternoon: [12, 18],
+  evening: [18, 24],
+};
+
+/** Default start hour per period when nothing can be learned */
+const PERIOD_DEFAULT_START: Record<DayPeriod, number> = {
+  night: 0,
+  morning: 9,
+  afternoon: 14,
+  evening: 20,
+};
+
+const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+interface DetectedSession {
+  start: number;
+  end: number;
+  albumCount: number;
+}
+
+/**
+ * Map a local hour (0-23) to its part of the day.
+ */
+export function getDayPeriod(hour: number): DayPeriod {
+  if (hour < 6) return 'night';
+  if (hour < 12) return 'morning';
+  if (hour < 18) return 'afternoon';
+  return 'evening';
+}
+
+/**
+ * Learns listening patterns (typical start times, session lengths, gaps
+ * between albums) from the scrobble history index and uses them to propose
+ * realistic timestamps when backfilling records into a past time window.
+ *
+ * Stateless apart from an in-memory pattern cache -- no data files.
+ */
+export class ListeningPatternService {
+  private logger = createLogger('ListeningPatternService');
+  private cachedPatterns: ListeningPatterns | null = null;
+  private cachedSyncTimestamp: number | null = null;
+
+  constructor(
+    private historyStorage: ScrobbleHistoryStorage,
+    private durationLookupService: DurationLookupService,
+    private discogsService: DiscogsService
+  ) {}
+
+  /**
+   * Get learned patterns, recalculating when the history index was synced
+   * since the last calculation or the cache is older than a day.
+   */
+  async getPatterns(): Promise<ListeningPatterns | null> {
+    const syncTimestamp = await this.historyStorage.getLastSyncTimestamp();
+    if (
+      this.cachedPatterns &&
+      this.cachedSyncTimestamp === syncTimestamp &&
+      Date.now() - this.cachedPatterns.calculatedAt < PATTERN_TTL_MS
+    ) {
+      return this.cachedPatterns;
+    }
+
+    const patterns = await this.calculatePatterns();
+    this.cachedSyncTimestamp = syncTimestamp;
+    return patterns;
+  }
+
+  /**
+   * Analyze the most recent 6 months of history and cache the result.
+   * Returns null when there is no history to learn from.
+   */
+  async calculatePatterns(): Promise<ListeningPatterns | null> {
+    const index = await this.historyStorage.getIndex();
+    if (!index || Object.keys(index.albums).length === 0) {
+      this.cachedPatterns = null;
+      return null;
+    }
+
+    let newest = 0;
+    for (const album of Object.values(index.albums)) {
+      if (album.lastPlayed > newest) newest = album.lastPlayed;
+    }
+    const cutoff = newest - ANALYSIS_WINDOW_SECONDS;
+
+    const plays: Array<{ timestamp: number; albumKey: string }> = [];
+    for (const [albumKey, album] of Object.entries(index.albums)) {
+      for (const play of album.plays) {
+        if (play.timestamp >= cutoff) {
+          plays.push({ timestamp: play.timestamp, albumKey });
+        }
+      }
+    }
+
+    if (plays.length === 0) {
+      this.cachedPatterns = null;
+      return null;
+    }
+
+    plays.sort((a, b) => a.timestamp - b.timestamp);
+
+    // Typical track length: median delta between consecutive plays of the
+    // same album. Used to turn album-transition deltas into real gaps.
+    const sameAlbumDeltas: number[] = [];
+    for (let i = 1; i < plays.length; i++) {
+      const delta = plays[i].timestamp - plays[i - 1].timestamp;
+      if (
+        plays[i].albumKey === plays[i - 1].albumKey &&
+        delta > 0 &&
+        delta < SESSION_GAP_SECONDS
+      ) {
+        sameAlbumDeltas.push(delta);
+      }
+    }
+    const typicalTrackSeconds =
+      sameAlbumDeltas.length > 0
+        ? this.median(sameAlbumDeltas)
+        : DEFAULT_TRACK_SECONDS;
+
+    const sessions: DetectedSession[] = [];
+    const albumGaps: number[] = [];
+    let sessionStart = plays[0].timestamp;
+    let albumCount = 1;
+
+    for (let i = 1; i <= plays.length; i++) {
+      const prev = plays[i - 1];
+      const current = plays[i];
+
+      if (
+        !current ||
+        current.timestamp - prev.timestamp > SESSION_GAP_SECONDS
+      ) {
+        sessions.push({
+          start: sessionStart,
+          end: prev.timestamp + typicalTrackSeconds,
+          albumCount,
+        });
+        if (current) {
+          sessionStart = current.timestamp;
+          albumCount = 1;
+        }
+        continue;
+      }
+
+      if (current.albumKey !== prev.albumKey) {
+        albumCount++;
+        albumGaps.push(
+          Math.max(0, current.timestamp - prev.timestamp - typicalTrackSeconds)
+        );
+      }
+    }
+
+    const patterns: ListeningPatterns = {
+      typicalStartTimes: await this.buildTypicalStartTimes(sessions),
+      averageSessionLength: Math.round(
+        this.mean(
+          sessions.map(s => s.end - s.start),
+          DEFAULT_SESSION_SECONDS
+        )
+      ),
+      averageGapBetweenAlbums: Math.round(
+        this.mean(albumGaps, DEFAULT_GAP_SECONDS)
+      ),
+      averageAlbumsPerSession:
+        Math.round(
+          this.mean(
+            sessions.map(s => s.albumCount),
+            1
+          ) * 10
+        ) / 10,
+      peakHour: this.peakKey(
+        await this.historyStorage.getHourlyDistribution(),
+        PERIOD_DEFAULT_START.evening
+      ),
+      peakDayOfWeek: this.peakKey(
+        await this.historyStorage.getDayOfWeekDistribution(),
+        6
+      ),
+      sessionCount: sessions.length,
+      analyzedFrom: plays[0].timestamp,
+      analyzedTo: plays[plays.length - 1].timestamp,
+      calculatedAt: Date.now(),
+    };
+
+    this.cachedPatterns = patterns;
+    this.logger.debug(
+      `Calculated listening patterns from ${plays.length} plays in ${sessions.length} sessions`
+    );
+    return patterns;
+  }
+
+  /**
+   * Average session start hour per day of week and part of the day.
+   * Buckets without sessions fall back to the busiest hour of that period
+   * from the hourly distribution, or null if nothing was ever played then.
+   */
+  private async buildTypicalStartTimes(
+    sessions: DetectedSession[]
+  ): Promise<TypicalStartTimes[]> {
+    const buckets = new Map<string, number[]>();
+    for (const session of sessions) {
+      const date = new Date(session.start * 1000);
+      const hour = date.getHours() + date.getMinutes() / 60;
+      const key = `${date.getDay()}|${getDayPeriod(date.getHours())}`;
+      const list = buckets.get(key);
+      if (list) {
+        list.push(hour);
+      } else {
+        buckets.set(key, [hour]);
+      }
+    }
+
+    const hourly = await this.historyStorage.getHourlyDistribution();
+    const periodPeak = (period: DayPeriod): number | null => {
+      const [from, to] = PERIOD_HOURS[period];
+      let best: number | null = null;
+      let bestCount = 0;
+      for (let h = from; h < to; h++) {
+        const count = hourly.get(h) || 0;
+        if (count > bestCount) {
+          best = h;
+          bestCount = count;
+        }
+      }
+      return best;
+    };
+
+    const startFor = (day: number, period: DayPeriod): number | null => {
+      const hours = buckets.get(`${day}|${period}`);
+      if (hours && hours.length > 0) {
+        return Math.round(this.mean(hours, 0) * 100) / 100;
+      }
+      return periodPeak(period);
+    };
+
+    const result: TypicalStartTimes[] = [];
+    for (let day = 0; day < 7; day++) {
+      result.push({
+        dayOfWeek: day,
+        morning: startFor(day, 'morning'),
+        afternoon: startFor(day, 'afternoon'),
+        evening: startFor(day, 'evening'),
+        night: startFor(day, 'night'),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Resolve a window request into concrete bounds plus a learned start time.
+   * Windows never extend into the future.
+   */
+  resolveWindow(
+    request: BackfillWindowRequest,
+    patterns: ListeningPatterns | null,
+    now: Date = new Date()
+  ): BackfillWindow {
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+
+    if (typeof request.start === 'number' && typeof request.end === 'number') {
+      if (request.end <= request.start) {
+        throw new Error('Window end must be after window start');
+      }
+      const end = Math.min(request.end, nowSeconds);
+      if (end <= request.start) {
+        throw new Error('Window must start in the past');
+      }
+      return {
+        label: 'Custom window',
+        start: request.start,
+        end,
+        suggestedStart: request.start,
+        outsideLastFmWindow: request.start < nowSeconds - LASTFM_WINDOW_SECONDS,
+      };
+    }
+
+    const period: DayPeriod = request.period ?? 'evening';
+    const day = new Date(now);
+    day.setHours(0, 0, 0, 0);
+    let dayLabel: string;
+
+    if (request.date) {
+      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(request.date);
+      if (!match) {
+        throw new Error('date must be in YYYY-MM-DD format');
+      }
+      day.setFullYear(
+        parseInt(match[1], 10),
+        parseInt(match[2], 10) - 1,
+        parseInt(match[3], 10)
+      );
+      dayLabel = day.toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+      });
+    } else if (typeof request.dayOfWeek === 'number') {
+      if (request.dayOfWeek < 0 || request.dayOfWeek > 6) {
+        throw new Error('dayOfWeek must be between 0 and 6');
+      }
+      // Most recent occurrence strictly before today
+      const daysBack = (now.getDay() - request.dayOfWeek + 7) % 7 || 7;
+      day.setDate(day.getDate() - daysBack);
+      dayLabel = `Last ${DAY_NAMES[request.dayOfWeek]}`;
+    } else {
+      const daysAgo = request.daysAgo ?? 1;
+      if (daysAgo < 0) {
+        throw new Error('daysAgo cannot be negative');
+      }
+      day.setDate(day.getDate() - daysAgo);
+      dayLabel =
+        daysAgo === 0
+          ? 'Today'
+          : daysAgo === 1
+            ? 'Yesterday'
+            : DAY_NAMES[day.getDay()];
+    }
+
+    const [fromHour, toHour] = PERIOD_HOURS[period];
+    const windowStart = new Date(day);
+    windowStart.setHours(fromHour, 0, 0, 0);
+    const windowEnd = new Date(day);
+    windowEnd.setHours(toHour, 0, 0, 0);
+
+    const start = Math.floor(windowStart.getTime() / 1000);
+    const end = Math.min(Math.floor(windowEnd.getTime() / 1000), nowSeconds);
+    if (end <= start) {
+      throw new Error('Window must start in the past');
+    }
+
+    const learnedHour =
+      patterns?.typicalStartTimes[day.getDay()]?.[period] ??
+      PERIOD_DEFAULT_START[period];
+    const suggested = new Date(day);
+    suggested.setHours(
+      Math.floor(learnedHour),
+      Math.round((learnedHour % 1) * 60),
+      0,
+      0
+    );
+    const suggestedStart = Math.min(
+      Math.max(Math.floor(suggested.getTime() / 1000), start),
+      end
+    );
+
+    return {
+      label: `${dayLabel} ${period}`,
+      start,
+      end,
+      suggestedStart,
+      outsideLastFmWindow: start < nowSeconds - LASTFM_WINDOW_SECONDS,
+    };
+  }
+
+  /**
+   * Ready-made windows for the backfill picker, resolved against the
+   * learned patterns. Presets that cannot be resolved (e.g. a period that
+   * hasn't happened yet today) are left out.
+   */
+  async getPresets(now: Date = new Date()): Promise<BackfillPreset[]> {
+    const patterns = await this.getPatterns();
+    const candidates: Array<{ id: string; request: BackfillWindowRequest }> = [
+      { id: 'today-afternoon', request: { daysAgo: 0, period: 'afternoon' } },
+      { id: 'yesterday-evening', request: { daysAgo: 1, period: 'evening' } },
+      {
+        id: 'yesterday-afternoon',
+        request: { daysAgo: 1, period: 'afternoon' },
+      },
+      {
+        id: 'last-saturday-evening',
+        request: { dayOfWeek: 6, period: 'evening' },
+      },
+      {
+        id: 'last-sunday-afternoon',
+        request: { dayOfWeek: 0, period: 'afternoon' },
+      },
+    ];
+
+    const presets: BackfillPreset[] = [];
+    for (const candidate of candidates) {
+      try {
+        presets.push({
+          ...candidate,
+          window: this.resolveWindow(candidate.request, patterns, now),
+        });
+      } catch {
+        // Window is in the future -- not a valid preset right now
+      }
+    }
+    return presets;
+  }
+
+  /**
+   * Propose per-track timestamps for a queue of collection items inside a
+   * window. Albums play back to back separated by the learned gap; the
+   * queue starts at the learned typical start time and is pulled earlier
+   * if it would otherwise run past the end of the window.
+   */
+  async planBackfill(
+    items: CollectionItem[],
+    windowRequest: BackfillWindowRequest,
+    options: { gapSeconds?: number; now?: Date } = {}
+  ): Promise<BackfillPlan> {
+    const patterns = await this.getPatterns();
+    const window = this.resolveWindow(windowRequest, patterns, options.now);
+    const gapBetweenAlbums =
+      options.gapSeconds ??
+      patterns?.averageGapBetweenAlbums ??
+      DEFAULT_GAP_SECONDS;
+
+    const skipped: BackfillPlan['skipped'] = [];
+    const resolved: Array<{
+      item: CollectionItem;
+      release: DiscogsRelease;
+      durations: number[];
+      unknownDurations: number;
+    }> = [];
+
+    for (const item of items) {
+      const release =
+        (await this.discogsService.getReleaseDetails(item.release.id)) ??
+        item.release;
+      if (!release.tracklist || release.tracklist.length === 0) {
+        skipped.push({ releaseId: item.release.id, reason: 'No tracklist' });
+        continue;
+      }
+
+      const { durations, unknownDurations } =
+        await this.resolveDurations(release);
+      resolved.push({ item, release, durations, unknownDurations });
+    }
+
+    const playSeconds = resolved.reduce(
+      (sum, r) => sum + r.durations.reduce((a, b) => a + b + 1, 0),
+      0
+    );
+    const totalDuration =
+      playSeconds + Math.max(0, resolved.length - 1) * gapBetweenAlbums;
+
+    // Start at the learned time, but pull earlier to fit inside the window
+    const latestFittingStart = window.end - totalDuration;
+    let cursor = Math.max(
+      window.start,
+      Math.min(window.suggestedStart, latestFittingStart)
+    );
+    const overflows = cursor + totalDuration > window.end;
+
+    const albums: BackfillPlannedAlbum[] = [];
+    for (const { item, release, durations, unknownDurations } of resolved) {
+      const albumStart = cursor;
+      const tracks: ScrobbleTrack[] = release.tracklist!.map((track, i) => {
+        const scrobbleTrack: ScrobbleTrack = {
+          artist: artistMappingService.getLastfmName(
+            track.artist || release.artist
+          ),
+          track: track.title,
+          album: release.title,
+          albumCover: item.release.cover_image || release.cover_image,
+          timestamp: cursor,
+          duration: durations[i],
+        };
+        // Same 1 second spacing as /scrobble/prepare-from-release
+        cursor += durations[i] + 1;
+        return scrobbleTrack;
+      });
+
+      albums.push({
+        releaseId: item.release.id,
+        artist: release.artist,
+        album: release.title,
+        start: albumStart,
+        end: cursor,
+        tracks,
+        unknownDurations,
+      });
+      cursor += gapBetweenAlbums;
+    }
+
+    return {
+      window,
+      albums,
+      gapBetweenAlbums,
+      totalDuration,
+      overflows,
+      skipped,
+    };
+  }
+
+  /**
+   * Check proposed scrobbles against the per-play timestamps in the history
+   * index. A proposed track occupies [timestamp, timestamp + duration); an
+   * existing scrobble is assumed to last a typical track length.
+   *
+   * With autoShift, the whole batch is moved (keeping its spacing) to the
+   * nearest position where it overlaps nothing, never into the future.
+   */
+  async checkConflicts(
+    tracks: Array<ScrobbleTrack & { timestamp: number }>,
+    options: { autoShift?: boolean; now?: Date } = {}
+  ): Promise<ScrobbleConflictReport> {
+    const report: ScrobbleConflictReport = {
+      tracks,
+      conflicts: [],
+      hasConflicts: false,
+    };
+    if (tracks.length === 0) {
+      return report;
+    }
+
+    const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+    const spans = tracks.map(track => ({
+      start: track.timestamp,
+      end: track.timestamp + (track.duration || DEFAULT_TRACK_SECONDS),
+    }));
+    const batchStart = Math.min(...spans.map(s => s.start));
+    const batchEnd = Math.max(...spans.map(s => s.end));
+    const rangeStart = batchStart - CONFLICT_SEARCH_SECONDS;
+    const rangeEnd = batchEnd + CONFLICT_SEARCH_SECONDS;
+
+    const existing: ExistingScrobble[] = [];
+    const index = await this.historyStorage.getIndex();
+    for (const [key, album] of Object.entries(index?.albums ?? {})) {
+      // Most albums were last played before the range -- skip their plays
+      if (album.lastPlayed + EXISTING_PLAY_SECONDS < rangeStart) continue;
+      const [artist, albumName] = key.split('|');
+      for (const play of album.plays) {
+        if (
+          play.timestamp + EXISTING_PLAY_SECONDS > rangeStart &&
+          play.timestamp < rangeEnd
+        ) {
+          existing.push({
+            artist,
+            album: albumName,
+            track: play.track,
+            timestamp: play.timestamp,
+          });
+        }
+      }
+    }
+    existing.sort((a, b) => a.timestamp - b.timestamp);
+
+    spans.forEach((span, trackIndex) => {
+      const overlapping = existing.filter(
+        play =>
+          play.timestamp < span.end &&
+          span.start < play.timestamp + EXISTING_PLAY_SECONDS
+      );
+      if (overlapping.length > 0) {
+        report.conflicts.push({
+          trackIndex,
+          timestamp: span.start,
+          existing: overlapping,
+        });
+      }
+    });
+    report.hasConflicts = report.conflicts.length > 0;
+
+    if (options.autoShift) {
+      const offset = report.hasConflicts
+        ? this.findFreeOffset(existing, {
+            batchStart,
+            length: batchEnd - batchStart,
+            // The last track must not start in the future
+            latestStart:
+              nowSeconds - (Math.max(...spans.map(s => s.start)) - batchStart),
+            // Don't push a batch that was inside Last.fm's window out of it
+            earliestStart: Math.max(
+              rangeStart,
+              Math.min(batchStart, nowSeconds - LASTFM_WINDOW_SECONDS)
+            ),
+            rangeEnd,
+          })
+        : 0;
+      report.autoShift =
+        offset === null
+          ? null
+          : {
+              tracks: tracks.map(track => ({
+                ...track,
+                timestamp: track.timestamp + offset,
+              })),
+              offsetSeconds: offset,
+            };
+    }
+
+    return report;
+  }
+
+  /**
+   * Smallest offset that moves a block of `length` seconds starting at
+   * `batchStart` into a gap between existing plays, or null if none fits.
+   */
+  private findFreeOffset(
+    existing: ExistingScrobble[],
+    bounds: {
+      batchStart: number;
+      length: number;
+      earliestStart: number;
+      latestStart: number;
+      rangeEnd: number;
+    }
+  ): number | null {
+    // Merge existing plays into busy intervals (already sorted by start)
+    const busy: Array<[number, number]> = [];
+    for (const play of existing) {
+      const end = play.timestamp + EXISTING_PLAY_SECONDS;
+      const last = busy[busy.length - 1];
+      if (last && play.timestamp <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        busy.push([play.timestamp, end]);
+      }
+    }
+
+    let best: number | null = null;
+    let gapStart = bounds.earliestStart;
+    for (const [busyStart, busyEnd] of [
+      ...busy,
+      [bounds.rangeEnd, bounds.rangeEnd] as [number, number],
+    ]) {
+      const lo = gapStart;
+      const hi = Math.min(busyStart - bounds.length, bounds.latestStart);
+      if (hi >= lo) {
+        const candidate = Math.min(Math.max(bounds.batchStart, lo), hi);
+        const offset = candidate - bounds.batchStart;
+        if (best === null || Math.abs(offset) < Math.abs(best)) {
+          best = offset;
+        }
+      }
+      gapStart = Math.max(gapStart, busyEnd);
+    }
+    return best;
+  }
+
+  /**
+   * Track durations in seconds: the tracklist value when present, otherwise
+   * the DurationLookupService chain, otherwise a 3 minute default.
+   */
+  private async resolveDurations(
+    release: DiscogsRelease
+  ): Promise<{ durations: number[]; unknownDurations: number }> {
+    const durations: number[] = [];
+    let unknownDurations = 0;
+
+    for (const track of release.tracklist ?? []) {
+      let seconds = track.duration ? parseTrackDuration(track.duration) : 0;
+
+      if (!seconds || seconds <= 0) {
+        try {
+          const lookup = await this.durationLookupService.lookupDuration(
+            track.artist || release.artist,
+            track.title,
+            release.title
+          );
+          seconds = lookup.duration ?? 0;
+        } catch (error) {
+          this.logger.warn('Duration lookup failed during backfill planning', {
+            track: track.title,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          seconds = 0;
+        }
+      }
+
+      if (!seconds || seconds <= 0) {
+        seconds = DEFAULT_TRACK_SECONDS;
+        unknownDurations++;
+      }
+      durations.push(seconds);
+    }
+
+    return { durations, unknownDurations };
+  }
+
+  private mean(values: number[], fallback: number): number {
+    if (values.length === 0) return fallback;
+    return values.reduce((a, b) => a + b, 0) / values.length;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[mid - 1] + sorted[mid]) / 2
+      : sorted[mid];
+  }
+
+  private peakKey(distribution: Map<number, number>, fallback: number): number {
+    let peak = fallback;
+    let peakCount = 0;
+    for (const [key, count] of distribution) {
+      if (count > peakCount) {
+        peak = key;
+        peakCount = count;
+      }
+    }
+    return peak;
+  }
+}
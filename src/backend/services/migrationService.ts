@@ -18,6 +18,12 @@ import { createLogger } from '../utils/logger';
 
 const log = createLogger('MigrationService');
 
+/**
+ * Schema version of the scrobble history index. v2 adds a source to each
+ * play (see ScrobbleSource).
+ */
+export const HISTORY_INDEX_SCHEMA_VERSION = 2;
+
 export class MigrationService {
   private storage: FileStorage;
   private registry: Map<string, DataFileMeta> = new Map();
@@ -37,8 +43,20 @@ export class MigrationService {
     // ============================================
     this.register('scrobble-history-index', {
       path: 'history/scrobble-history-index.json',
-      currentVersion: 1,
-      migrations: [],
+      currentVersion: HISTORY_INDEX_SCHEMA_VERSION,
+      migrations: [
+        {
+          fromVersion: 1,
+          toVersion: 2,
+          description: 'Flag existing plays for source tagging',
+          // Matching plays to session files needs the scrobble sessions, so
+          // the history sync does the tagging once it sees this flag
+          migrate: data => ({
+            ...(data as Record<string, unknown>),
+            needsSourceTagging: true,
+          }),
+        },
+      ],
     });
 
     // ============================================
@@ -153,6 +171,87 @@ export class MigrationService {
       optional: true,
     });
 
+    // ============================================
+    // Scrobble Retry Queue
+    // ============================================
+    this.register('scrobble-queue', {
+      path: 'scrobbles/queue.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    // ============================================
+    // Vinyl Side Memory
+    // ============================================
+    this.register('side-memory', {
+      path: 'scrobbles/side-memory.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    // ============================================
+    // Recognizer Sessions
+    // ============================================
+    this.register('recognizer-sessions', {
+      path: 'scrobbles/recognizer-sessions.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    this.register('recognizer-devices', {
+      path: 'settings/recognizer-devices.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    // ============================================
+    // Job History
+    // ============================================
+    this.register('job-history', {
+      path: 'jobs/jobs.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    // ============================================
+    // Notifications
+    // ============================================
+    this.register('notifications', {
+      path: 'notifications/notifications.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    this.register('notification-rules', {
+      path: 'notifications/rules.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    this.register('notification-channels', {
+      path: 'notifications/channels.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    // ============================================
+    // Scheduler
+    // ============================================
+    this.register('scheduler', {
+      path: 'scheduler/schedule.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
     // ============================================
     // Wishlist Files (already have schemaVersion)
     // ============================================
@@ -384,6 +483,27 @@ export class MigrationService {
       optional: true,
     });
 
+    this.register('collection-changes', {
+      path: 'collections/collection-changes.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    this.register('shelf-locations', {
+      path: 'collections/shelf-locations.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
+    this.register('barcode-index', {
+      path: 'collections/barcode-index.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
+
     // ============================================
     // Embedding & Recommendation Files
     // ============================================
@@ -421,6 +541,16 @@ export class MigrationService {
       migrations: [],
       optional: true,
     });
+
+    // ============================================
+    // Profiles (top-level data directory only)
+    // ============================================
+    this.register('profiles', {
+      path: 'profiles/profiles.json',
+      currentVersion: 1,
+      migrations: [],
+      optional: true,
+    });
   }
 
   private register(key: string, meta: DataFileMeta): void {
@@ -497,7 +627,8 @@ export class MigrationService {
     meta: DataFileMeta
   ): Record<string, unknown> {
     let current = { ...data };
-    let version = fromVersion;
+    // Unversioned files hold v1 data; stamping them changes nothing else
+    let version = Math.max(fromVersion, 1);
 
     const sortedMigrations = [...meta.migrations].sort(
       (a, b) => a.fromVersion - b.fromVersion
@@ -601,6 +732,13 @@ export class MigrationService {
           // Use writeJSONWithBackup to ensure backup is created
           await this.storage.writeJSONWithBackup(meta.path, migratedData);
           report.stamped++;
+
+          // Carry on to the current version rather than waiting for the
+          // next startup
+          if (meta.currentVersion > 1) {
+            await this.loadWithMigration(key);
+            report.migrated++;
+          }
         } else if (fileVersion < meta.currentVersion) {
           // Apply migrations
           onProgress?.(key, 'migrating');
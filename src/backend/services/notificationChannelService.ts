@@ -0,0 +1,389 @@
+/**
+ * Notification Channel Service - delivers notifications off the desktop.
+ *
+ * A channel is a JSON webhook, an ntfy/Gotify push server or an SMTP
+ * mailbox. Each channel only receives the categories it routes (optionally
+ * narrowed by price or label) and stays silent during its quiet hours.
+ * Channel secrets are encrypted at rest the same way AuthService encrypts
+ * Discogs and Last.fm tokens.
+ */
+
+import crypto from 'crypto';
+
+import axios, { AxiosInstance } from 'axios';
+
+import {
+  AppNotification,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelRoute,
+  NotificationChannelsStore,
+  NotificationQuietHours,
+} from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+import { sendMail } from '../utils/smtpClient';
+
+import { AuthService } from './authService';
+import { NotificationContext } from './notificationRules';
+
+const CHANNELS_FILE = 'notifications/channels.json';
+
+// Shown instead of stored secrets; sending it back keeps the stored value
+export const SECRET_PLACEHOLDER = '********';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/**
+ * The secret of a channel: webhook signing secret, push token or SMTP
+ * password.
+ */
+const getSecret = (channel: NotificationChannelInput): string | undefined => {
+  switch (channel.type) {
+    case 'webhook':
+      return channel.config.secret;
+    case 'push':
+      return channel.config.token;
+    case 'email':
+      return channel.config.password;
+  }
+};
+
+function withSecret<T extends NotificationChannelInput>(
+  channel: T,
+  secret: string | undefined
+): T {
+  switch (channel.type) {
+    case 'webhook':
+      return { ...channel, config: { ...channel.config, secret } };
+    case 'push':
+      return { ...channel, config: { ...channel.config, token: secret } };
+    case 'email':
+      return { ...channel, config: { ...channel.config, password: secret } };
+  }
+  return channel;
+}
+
+/**
+ * Whether any of a channel's routes accepts the notification.
+ */
+export function routeMatches(
+  routes: NotificationChannelRoute[],
+  notification: AppNotification,
+  context: NotificationContext
+): boolean {
+  const category: NotificationCategory = notification.rule ?? 'general';
+  return routes.some(route => {
+    if (route.category !== category) return false;
+    // Compared in the listing's own currency
+    if (
+      route.maxPrice !== undefined &&
+      (context.price === undefined || context.price > route.maxPrice)
+    ) {
+      return false;
+    }
+    if (
+      route.labelIds?.length &&
+      !context.labelIds?.some(id => route.labelIds!.includes(id))
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Whether a time falls inside quiet hours (server local time). A range
+ * whose end is before its start spans midnight.
+ */
+export function isQuietTime(
+  quietHours: NotificationQuietHours | undefined,
+  date: Date = new Date()
+): boolean {
+  if (!quietHours) return false;
+
+  const toMinutes = (value: string) => {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+export class NotificationChannelService {
+  private fileStorage: FileStorage;
+  private authService: AuthService;
+  private axios: AxiosInstance;
+  private channels: NotificationChannel[] | null = null;
+  private logger = createLogger('NotificationChannelService');
+
+  constructor(fileStorage: FileStorage, authService: AuthService) {
+    this.fileStorage = fileStorage;
+    this.authService = authService;
+    this.axios = axios.create({
+      timeout: DELIVERY_TIMEOUT_MS,
+      headers: {
+        'User-Agent':
+          'RecordScrobbles/1.0 (https://github.com/recordscrobbles)',
+      },
+    });
+  }
+
+  /**
+   * All channels, with secrets replaced by SECRET_PLACEHOLDER.
+   */
+  async getChannels(): Promise<NotificationChannel[]> {
+    const channels = await this.load();
+    return channels.map(channel => this.redact(channel));
+  }
+
+  async createChannel(
+    input: NotificationChannelInput
+  ): Promise<NotificationChannel> {
+    const channels = await this.load();
+    const channel = this.encryptSecret({
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+    } as NotificationChannel);
+
+    channels.push(channel);
+    await this.save();
+    this.logger.info(`Added ${channel.type} channel "${channel.name}"`);
+    return this.redact(channel);
+  }
+
+  /**
+   * Replace a channel's settings. A secret of SECRET_PLACEHOLDER keeps the
+   * stored one (if the channel type is unchanged).
+   */
+  async updateChannel(
+    id: string,
+    input: NotificationChannelInput
+  ): Promise<NotificationChannel | null> {
+    const channels = await this.load();
+    const index = channels.findIndex(channel => channel.id === id);
+    if (index === -1) return null;
+
+    const existing = channels[index];
+    let updated = {
+      ...existing,
+      ...input,
+      lastError: undefined,
+    } as NotificationChannel;
+
+    if (getSecret(input) === SECRET_PLACEHOLDER) {
+      updated = withSecret(
+        updated,
+        existing.type === input.type ? getSecret(existing) : undefined
+      );
+    } else {
+      updated = this.encryptSecret(updated);
+    }
+
+    channels[index] = updated;
+    await this.save();
+    return this.redact(updated);
+  }
+
+  async deleteChannel(id: string): Promise<boolean> {
+    const channels = await this.load();
+    const index = channels.findIndex(channel => channel.id === id);
+    if (index === -1) return false;
+
+    channels.splice(index, 1);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Send a sample notification through a channel, ignoring its routes and
+   * quiet hours. Returns false for an unknown channel and throws if
+   * delivery fails.
+   */
+  async sendTest(id: string): Promise<boolean> {
+    const channels = await this.load();
+    const channel = channels.find(c => c.id === id);
+    if (!channel) return false;
+
+    const notification: AppNotification = {
+      id: crypto.randomUUID(),
+      type: 'info',
+      title: 'Test notification',
+      message: `This is a test from RecordScrobbles for "${channel.name}".`,
+      timestamp: Date.now(),
+      read: false,
+    };
+
+    const error = await this.deliverAndRecord(channel, notification);
+    if (error) {
+      throw new Error(error);
+    }
+    return true;
+  }
+
+  /**
+   * Deliver a new notification to every enabled channel that routes it
+   * and isn't in quiet hours. Failures are recorded on the channel.
+   */
+  async dispatch(
+    notification: AppNotification,
+    context: NotificationContext = {}
+  ): Promise<void> {
+    const channels = await this.load();
+    const now = new Date();
+    const targets = channels.filter(
+      channel =>
+        channel.enabled &&
+        routeMatches(channel.routes, notification, context) &&
+        !isQuietTime(channel.quietHours, now)
+    );
+
+    await Promise.all(
+      targets.map(channel => this.deliverAndRecord(channel, notification))
+    );
+  }
+
+  /**
+   * Deliver and store the outcome on the channel. Returns the error
+   * message, if any.
+   */
+  private async deliverAndRecord(
+    channel: NotificationChannel,
+    notification: AppNotification
+  ): Promise<string | undefined> {
+    let error: string | undefined;
+    try {
+      await this.deliver(this.decryptSecret(channel), notification);
+      channel.lastDeliveredAt = Date.now();
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Delivery to "${channel.name}" failed: ${error}`);
+    }
+    channel.lastError = error;
+
+    try {
+      await this.save();
+    } catch (err) {
+      this.logger.warn('Failed to save channel delivery status', err);
+    }
+    return error;
+  }
+
+  private async deliver(
+    channel: NotificationChannel,
+    notification: AppNotification
+  ): Promise<void> {
+    switch (channel.type) {
+      case 'webhook': {
+        const body = JSON.stringify({
+          event: 'notification',
+          notification,
+        });
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+        };
+        if (channel.config.secret) {
+          const signature = crypto
+            .createHmac('sha256', channel.config.secret)
+            .update(body)
+            .digest('hex');
+          headers['X-Signature-256'] = `sha256=${signature}`;
+        }
+        await this.axios.post(channel.config.url, body, { headers });
+        return;
+      }
+
+      case 'push': {
+        const { server, token, topic, priority } = channel.config;
+        const baseUrl = channel.config.url.replace(/\/+$/, '');
+        const urgent = notification.type === 'alert';
+
+        if (server === 'gotify') {
+          await this.axios.post(
+            `${baseUrl}/message`,
+            {
+              title: notification.title,
+              message: notification.message,
+              priority: priority ?? (urgent ? 8 : 5),
+            },
+            { headers: token ? { 'X-Gotify-Key': token } : {} }
+          );
+          return;
+        }
+
+        await this.axios.post(
+          baseUrl,
+          {
+            topic,
+            title: notification.title,
+            message: notification.message,
+            priority: priority ?? (urgent ? 4 : 3),
+          },
+          { headers: token ? { Authorization: `Bearer ${token}` } : {} }
+        );
+        return;
+      }
+
+      case 'email': {
+        const { host, port, secure, username, password, from, to } =
+          channel.config;
+        await sendMail(
+          { host, port, secure, username, password },
+          {
+            from,
+            to,
+            subject: notification.title,
+            text: notification.message,
+          }
+        );
+        return;
+      }
+    }
+  }
+
+  private encryptSecret<T extends NotificationChannelInput>(channel: T): T {
+    const secret = getSecret(channel);
+    return withSecret(
+      channel,
+      secret ? this.authService.encryptSecret(secret) : undefined
+    );
+  }
+
+  private decryptSecret(channel: NotificationChannel): NotificationChannel {
+    const secret = getSecret(channel);
+    return withSecret(
+      channel,
+      secret ? this.authService.decryptSecret(secret) : undefined
+    );
+  }
+
+  private redact(channel: NotificationChannel): NotificationChannel {
+    return withSecret(
+      channel,
+      getSecret(channel) ? SECRET_PLACEHOLDER : undefined
+    );
+  }
+
+  private async load(): Promise<NotificationChannel[]> {
+    if (this.channels) return this.channels;
+
+    const store =
+      await this.fileStorage.readJSON<NotificationChannelsStore>(CHANNELS_FILE);
+    this.channels = store?.schemaVersion === 1 ? store.channels : [];
+    return this.channels;
+  }
+
+  private async save(): Promise<void> {
+    const store: NotificationChannelsStore = {
+      schemaVersion: 1,
+      channels: this.channels ?? [],
+    };
+    await this.fileStorage.writeJSON(CHANNELS_FILE, store);
+  }
+}
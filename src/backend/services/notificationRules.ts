@@ -0,0 +1,284 @@
+/**
+ * Notification rules - turn things that happened on the server into
+ * notifications. Each trigger is handled by exactly one rule, which the
+ * user can switch off in the notification settings.
+ *
+ * Rules are pure: they only describe the notifications to raise. Storing,
+ * de-duplicating and pushing them to clients is NotificationService's job.
+ */
+
+import {
+  AppNotification,
+  LabelRelease,
+  NotificationRuleId,
+  NotificationRuleSettings,
+  SellerMatch,
+  WebsiteItem,
+  WishlistNewRelease,
+} from '../../shared/types';
+
+export type NotificationInput = Omit<
+  AppNotification,
+  'id' | 'timestamp' | 'read'
+>;
+
+export type NotificationTrigger =
+  | {
+      type: 'seller-matches';
+      matches: SellerMatch[];
+      sellerNames: Record<string, string>;
+    }
+  | {
+      type: 'label-releases';
+      releases: LabelRelease[];
+      labelNames: Record<string, string>;
+    }
+  | { type: 'website-items'; items: WebsiteItem[] }
+  | { type: 'wishlist-releases'; releases: WishlistNewRelease[] }
+  | { type: 'listening-streak'; days: number; startedAt?: number }
+  | { type: 'backup-failed'; error: string };
+
+/**
+ * Details about what raised a notification, used to route it to outbound
+ * channels. Not stored with the notification.
+ */
+export interface NotificationContext {
+  price?: number;
+  currency?: string;
+  labelIds?: string[];
+}
+
+export interface NotificationDraft {
+  /** Raised at most once per key; omit for one-off events */
+  key?: string;
+  notification: NotificationInput;
+  context?: NotificationContext;
+}
+
+type RuleTable = {
+  [T in NotificationTrigger['type']]: {
+    rule: NotificationRuleId;
+    evaluate: (
+      trigger: Extract<NotificationTrigger, { type: T }>
+    ) => NotificationDraft[];
+  };
+};
+
+// Individual notifications per scan before the rest are summarised
+const MAX_INDIVIDUAL = 5;
+
+// Streak lengths (days) worth celebrating
+export const STREAK_MILESTONES = [7, 30, 50, 100, 200, 365, 500, 1000];
+
+export const DEFAULT_NOTIFICATION_RULES: Record<
+  NotificationRuleId,
+  NotificationRuleSettings
+> = {
+  'seller-match': { enabled: true },
+  'label-release': { enabled: true },
+  'website-item': { enabled: true },
+  'wishlist-release': { enabled: true },
+  'streak-milestone': { enabled: true },
+  'backup-failure': { enabled: true },
+};
+
+const formatPrice = (price: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency || 'USD',
+  }).format(price);
+
+const plural = (count: number, word: string): string =>
+  `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+/**
+ * Names of the first few entries, e.g. "A - B, C - D and 3 more".
+ */
+const summarise = (names: string[], shown = 3): string => {
+  const listed = names.slice(0, shown).join(', ');
+  return names.length > shown
+    ? `${listed} and ${names.length - shown} more`
+    : listed;
+};
+
+const RULES: RuleTable = {
+  'seller-matches': {
+    rule: 'seller-match',
+    evaluate: ({ matches, sellerNames }) => {
+      const drafts: NotificationDraft[] = matches
+        .slice(0, MAX_INDIVIDUAL)
+        .map(match => ({
+          key: `seller-match:${match.id}`,
+          notification: {
+            type: 'success',
+            title: 'Wishlist item at local seller!',
+            message: `${match.artist} - ${match.title} at ${
+              sellerNames[match.sellerId.toLowerCase()] || match.sellerId
+            } for ${formatPrice(match.price, match.currency)}`,
+            action: { label: 'View', route: 'marketplace?tab=matches' },
+          },
+          context: { price: match.price, currency: match.currency },
+        }));
+
+      if (matches.length > MAX_INDIVIDUAL) {
+        drafts.push({
+          notification: {
+            type: 'info',
+            title: `+${matches.length - MAX_INDIVIDUAL} more matches`,
+            message: 'View all matches on the Seller Matches page',
+            action: { label: 'View All', route: 'marketplace?tab=matches' },
+          },
+        });
+      }
+      return drafts;
+    },
+  },
+
+  'label-releases': {
+    rule: 'label-release',
+    evaluate: ({ releases, labelNames }) => {
+      const fresh = releases.filter(release => release.status === 'new');
+      if (fresh.length === 0) return [];
+
+      const labelIds = Array.from(
+        new Set(fresh.map(release => release.labelId))
+      );
+      const labels = labelIds.map(id => labelNames[id]).filter(Boolean);
+      return [
+        {
+          notification: {
+            type: 'info',
+            title:
+              fresh.length === 1
+                ? `New release on ${labels[0] || 'a followed label'}`
+                : `${plural(fresh.length, 'new release')} on followed labels`,
+            message: summarise(
+              fresh.map(release => `${release.artist} - ${release.title}`)
+            ),
+            action: { label: 'View', route: 'marketplace?tab=labels' },
+          },
+          context: { labelIds },
+        },
+      ];
+    },
+  },
+
+  'website-items': {
+    rule: 'website-item',
+    evaluate: ({ items }) => {
+      if (items.length === 0) return [];
+
+      const wanted = items.filter(
+        item => item.matches?.onWishlist || item.matches?.onLocalWant
+      );
+      const describe = (item: WebsiteItem) =>
+        item.artist ? `${item.artist} - ${item.title}` : item.title;
+      return [
+        {
+          notification: {
+            type: wanted.length > 0 ? 'success' : 'info',
+            title:
+              wanted.length > 0
+                ? `${plural(wanted.length, 'wishlist item')} found on watched websites`
+                : `${plural(items.length, 'new item')} on watched websites`,
+            message: summarise(
+              (wanted.length > 0 ? wanted : items).map(describe)
+            ),
+            action: { label: 'View', route: 'marketplace?tab=websites' },
+          },
+        },
+      ];
+    },
+  },
+
+  'wishlist-releases': {
+    rule: 'wishlist-release',
+    evaluate: ({ releases }) => {
+      if (releases.length === 0) return [];
+      return [
+        {
+          key: `wishlist-releases:${releases
+            .map(release => release.id)
+            .sort()
+            .join(',')}`,
+          notification: {
+            type: 'success',
+            title:
+              releases.length === 1
+                ? 'New vinyl pressing for your wishlist'
+                : `${plural(releases.length, 'new vinyl pressing')} for your wishlist`,
+            message: summarise(
+              releases.map(release => `${release.artist} - ${release.title}`)
+            ),
+            action: { label: 'View', route: 'marketplace?tab=wishlist' },
+          },
+        },
+      ];
+    },
+  },
+
+  'listening-streak': {
+    rule: 'streak-milestone',
+    evaluate: ({ days, startedAt }) => {
+      const milestone = [...STREAK_MILESTONES]
+        .reverse()
+        .find(value => days >= value);
+      if (!milestone) return [];
+      return [
+        {
+          // One notification per milestone of a given streak
+          key: `streak:${startedAt ?? 'current'}:${milestone}`,
+          notification: {
+            type: 'success',
+            title: `${milestone}-day listening streak!`,
+            message: `You've scrobbled something every day for ${plural(days, 'day')}.`,
+            action: { label: 'View Stats', route: 'stats' },
+          },
+        },
+      ];
+    },
+  },
+
+  'backup-failed': {
+    rule: 'backup-failure',
+    evaluate: ({ error }) => [
+      {
+        // At most one alert a day while backups keep failing
+        key: `backup-failed:${new Date().toISOString().slice(0, 10)}`,
+        notification: {
+          type: 'alert',
+          title: 'Automatic backup failed',
+          message: error,
+          action: { label: 'Backup Settings', route: 'settings?tab=backup' },
+        },
+      },
+    ],
+  },
+};
+
+/**
+ * The rule that handles a trigger.
+ */
+export function getRuleForTrigger(
+  trigger: NotificationTrigger
+): NotificationRuleId {
+  return RULES[trigger.type].rule;
+}
+
+/**
+ * Notifications a trigger should raise, or none if its rule is disabled.
+ */
+export function evaluateTrigger(
+  trigger: NotificationTrigger,
+  rules: Record<NotificationRuleId, NotificationRuleSettings>
+): NotificationDraft[] {
+  const entry = RULES[trigger.type];
+  if (!rules[entry.rule]?.enabled) return [];
+  const evaluate = entry.evaluate as (
+    trigger: NotificationTrigger
+  ) => NotificationDraft[];
+  return evaluate(trigger).map(draft => ({
+    ...draft,
+    notification: { ...draft.notification, rule: entry.rule },
+  }));
+}
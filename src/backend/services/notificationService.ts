@@ -0,0 +1,289 @@
+/**
+ * Notification Service - the server-side notification inbox.
+ *
+ * Each profile has its own inbox. Notifications live in the profile's
+ * notifications/notifications.json so they can be raised while no browser
+ * tab is open (scans, syncs and backups run on the server). New
+ * notifications are pushed to connected clients over the profile's event
+ * stream.
+ *
+ * Services report what happened with raise(); the rules in
+ * notificationRules.ts decide whether that becomes a notification.
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+
+import {
+  AppNotification,
+  NotificationRuleId,
+  NotificationRuleSettings,
+  NotificationRulesStore,
+  NotificationStore,
+} from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import { EventStreamService } from './eventStreamService';
+import {
+  DEFAULT_NOTIFICATION_RULES,
+  evaluateTrigger,
+  NotificationContext,
+  NotificationInput,
+  NotificationTrigger,
+} from './notificationRules';
+
+const logger = createLogger('NotificationService');
+
+const NOTIFICATIONS_FILE = 'notifications/notifications.json';
+const RULES_FILE = 'notifications/rules.json';
+
+// Oldest notifications are dropped beyond this
+const MAX_NOTIFICATIONS = 200;
+
+// Dedupe keys are kept longer than the notifications they raised, so
+// clearing the inbox doesn't bring old alerts back
+const MAX_RAISED_KEYS = 2000;
+
+type RuleSettingsMap = Record<NotificationRuleId, NotificationRuleSettings>;
+
+export type NotificationListener = (
+  notification: AppNotification,
+  context: NotificationContext
+) => void;
+
+export class NotificationService {
+  private emitter = new EventEmitter();
+  private fileStorage: FileStorage | null = null;
+  private notifications: AppNotification[] = [];
+  private raisedKeys: string[] = [];
+  private rules: RuleSettingsMap = { ...DEFAULT_NOTIFICATION_RULES };
+  private saving: Promise<void> = Promise.resolve();
+  private savePending = false;
+
+  constructor(private eventStreamService: EventStreamService) {}
+
+  /**
+   * Load stored notifications and rule settings. Notifications raised
+   * before this is called are kept.
+   */
+  async initialize(fileStorage: FileStorage): Promise<void> {
+    this.fileStorage = fileStorage;
+
+    try {
+      const store =
+        await fileStorage.readJSON<NotificationStore>(NOTIFICATIONS_FILE);
+      if (store && store.schemaVersion === 1) {
+        const ids = new Set(this.notifications.map(n => n.id));
+        this.notifications = [
+          ...this.notifications,
+          ...store.notifications.filter(n => !ids.has(n.id)),
+        ].slice(0, MAX_NOTIFICATIONS);
+        this.raisedKeys = [
+          ...this.raisedKeys,
+          ...(store.raisedKeys ?? []).filter(
+            key => !this.raisedKeys.includes(key)
+          ),
+        ].slice(-MAX_RAISED_KEYS);
+      }
+    } catch {
+      logger.debug('No stored notifications found, starting fresh');
+    }
+
+    try {
+      const rules =
+        await fileStorage.readJSON<NotificationRulesStore>(RULES_FILE);
+      if (rules && rules.schemaVersion === 1) {
+        this.rules = { ...DEFAULT_NOTIFICATION_RULES, ...rules.rules };
+      }
+    } catch {
+      logger.debug('No notification rule settings found, using defaults');
+    }
+
+    this.persist();
+  }
+
+  /**
+   * All notifications, newest first.
+   */
+  getNotifications(): AppNotification[] {
+    return this.notifications.map(n => ({ ...n }));
+  }
+
+  getUnreadCount(): number {
+    return this.notifications.filter(n => !n.read).length;
+  }
+
+  /**
+   * Store a notification and push it to connected clients and listeners.
+   */
+  add(
+    input: NotificationInput,
+    context: NotificationContext = {}
+  ): AppNotification {
+    const notification: AppNotification = {
+      ...input,
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      read: false,
+    };
+    this.notifications = [notification, ...this.notifications].slice(
+      0,
+      MAX_NOTIFICATIONS
+    );
+    this.persist();
+    this.eventStreamService.publishNow({
+      type: 'notification',
+      notification: { ...notification },
+    });
+    this.emitter.emit('notification', { ...notification }, context);
+    return notification;
+  }
+
+  /**
+   * Listen for new notifications (not imported ones). Returns a function
+   * that removes the listener.
+   */
+  subscribe(listener: NotificationListener): () => void {
+    this.emitter.on('notification', listener);
+    return () => {
+      this.emitter.off('notification', listener);
+    };
+  }
+
+  /**
+   * Merge notifications created elsewhere (the renderer's old local
+   * store), keeping their ids, timestamps and read state. Returns how many
+   * were added.
+   */
+  importNotifications(notifications: AppNotification[]): number {
+    const ids = new Set(this.notifications.map(n => n.id));
+    const added = notifications.filter(n => !ids.has(n.id));
+    if (added.length === 0) return 0;
+
+    this.notifications = [...this.notifications, ...added]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, MAX_NOTIFICATIONS);
+    this.persist();
+    return added.length;
+  }
+
+  /**
+   * Run a trigger through the rules and store what they raise. Drafts
+   * whose key was raised before are skipped.
+   */
+  raise(trigger: NotificationTrigger): AppNotification[] {
+    const raised: AppNotification[] = [];
+    for (const draft of evaluateTrigger(trigger, this.rules)) {
+      if (draft.key) {
+        if (this.raisedKeys.includes(draft.key)) continue;
+        this.raisedKeys.push(draft.key);
+      }
+      raised.push(this.add(draft.notification, draft.context));
+    }
+
+    if (this.raisedKeys.length > MAX_RAISED_KEYS) {
+      this.raisedKeys = this.raisedKeys.slice(-MAX_RAISED_KEYS);
+    }
+    if (raised.length > 0) {
+      logger.info(
+        `Raised ${raised.length} notification(s) for ${trigger.type}`
+      );
+    }
+    return raised;
+  }
+
+  markRead(id: string): AppNotification | undefined {
+    const notification = this.notifications.find(n => n.id === id);
+    if (!notification) return undefined;
+    if (!notification.read) {
+      notification.read = true;
+      this.persist();
+    }
+    return { ...notification };
+  }
+
+  markAllRead(): void {
+    if (this.notifications.every(n => n.read)) return;
+    this.notifications.forEach(n => (n.read = true));
+    this.persist();
+  }
+
+  remove(id: string): boolean {
+    const before = this.notifications.length;
+    this.notifications = this.notifications.filter(n => n.id !== id);
+    if (this.notifications.length === before) return false;
+    this.persist();
+    return true;
+  }
+
+  clear(): void {
+    this.notifications = [];
+    this.persist();
+  }
+
+  getRules(): RuleSettingsMap {
+    return { ...this.rules };
+  }
+
+  /**
+   * Update settings for some rules. Unknown rule ids are ignored.
+   */
+  async updateRules(
+    updates: Partial<
+      Record<NotificationRuleId, Partial<NotificationRuleSettings>>
+    >
+  ): Promise<RuleSettingsMap> {
+    for (const id of Object.keys(updates) as NotificationRuleId[]) {
+      if (!(id in DEFAULT_NOTIFICATION_RULES)) continue;
+      this.rules[id] = { ...this.rules[id], ...updates[id] };
+    }
+
+    if (this.fileStorage) {
+      const store: NotificationRulesStore = {
+        schemaVersion: 1,
+        rules: this.rules,
+      };
+      await this.fileStorage.writeJSON(RULES_FILE, store);
+    }
+    return this.getRules();
+  }
+
+  /**
+   * Wait for pending writes. Used by tests and on shutdown.
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  reset(): void {
+    this.notifications = [];
+    this.raisedKeys = [];
+    this.rules = { ...DEFAULT_NOTIFICATION_RULES };
+    this.fileStorage = null;
+  }
+
+  /**
+   * Queue a write of the current state. Writes are serialized, and several
+   * changes in quick succession share one write.
+   */
+  private persist(): void {
+    const fileStorage = this.fileStorage;
+    if (!fileStorage || this.savePending) return;
+
+    this.savePending = true;
+    this.saving = this.saving
+      .then(async () => {
+        this.savePending = false;
+        const store: NotificationStore = {
+          schemaVersion: 1,
+          notifications: this.notifications,
+          raisedKeys: this.raisedKeys,
+        };
+        await fileStorage.writeJSON(NOTIFICATIONS_FILE, store);
+      })
+      .catch(error => {
+        logger.warn('Failed to save notifications', error);
+      });
+  }
+}
@@ -0,0 +1,560 @@
+import fs from 'fs';
+import path from 'path';
+
+import Database from 'better-sqlite3';
+
+import {
+  AlbumHistoryEntry,
+  ScrobbleHistoryEntry,
+  ScrobbleHistoryIndex,
+  ScrobbleSource,
+} from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+export const PLAYS_DB_FILE = 'history/plays.db';
+
+// Bump with a new entry in SCHEMA_MIGRATIONS when the tables change
+const SCHEMA_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE albums (
+    album_key TEXT PRIMARY KEY,
+    last_played INTEGER NOT NULL,
+    play_count INTEGER NOT NULL
+  );
+  CREATE TABLE plays (
+    id INTEGER PRIMARY KEY,
+    album_key TEXT NOT NULL REFERENCES albums(album_key),
+    artist TEXT NOT NULL,
+    album TEXT NOT NULL,
+    track TEXT,
+    timestamp INTEGER NOT NULL,
+    source TEXT
+  );
+  CREATE INDEX idx_plays_album_key ON plays(album_key);
+  CREATE INDEX idx_plays_artist ON plays(artist);
+  CREATE INDEX idx_plays_album ON plays(album);
+  CREATE INDEX idx_plays_track ON plays(track);
+  CREATE INDEX idx_plays_timestamp ON plays(timestamp);
+  `,
+];
+
+// Index fields other than the albums, stored as one JSON meta row
+export type IndexMeta = Omit<ScrobbleHistoryIndex, 'albums'>;
+
+// Local calendar dates, matching how JS Date buckets plays elsewhere
+const LOCAL_DAY = `strftime('%Y-%m-%d', timestamp, 'unixepoch', 'localtime')`;
+
+// strftime() formats for the local-time play distributions
+const LOCAL_TIME_FORMATS = {
+  hour: '%H',
+  weekday: '%w',
+  year: '%Y',
+} as const;
+
+// Index artist and album, split from the album key
+const ALBUM_KEY_ARTIST = `substr(album_key, 1, instr(album_key, '|') - 1)`;
+const ALBUM_KEY_ALBUM = `substr(album_key, instr(album_key, '|') + 1)`;
+
+export interface ArtistPlayCountRow {
+  artist: string;
+  playCount: number;
+}
+
+export interface ArtistTotalsRow {
+  artist: string;
+  playCount: number;
+  albumCount: number;
+  lastPlayed: number;
+}
+
+/** A play added to an index album since the index was last written */
+export interface AppendedPlay {
+  albumKey: string;
+  play: ScrobbleHistoryEntry;
+}
+
+export interface AlbumPlayCountRow {
+  artist: string;
+  album: string;
+  playCount: number;
+  lastPlayed: number;
+}
+
+export interface TrackPlayCountRow extends AlbumPlayCountRow {
+  track: string;
+}
+
+export interface YearAlbumPlayCountRow {
+  year: number;
+  artist: string;
+  album: string;
+  playCount: number;
+}
+
+export interface TrackPageQuery {
+  page: number;
+  perPage: number;
+  sortBy: 'playCount' | 'lastPlayed' | 'artist' | 'album' | 'track';
+  sortOrder: 'asc' | 'desc';
+  searchQuery?: string;
+}
+
+export interface AlbumPageQuery extends Omit<TrackPageQuery, 'sortBy'> {
+  sortBy: Exclude<TrackPageQuery['sortBy'], 'track'>;
+}
+
+const PAGE_SORT_COLUMNS: Record<TrackPageQuery['sortBy'], string> = {
+  playCount: 'playCount',
+  lastPlayed: 'lastPlayed',
+  artist: 'artist COLLATE NOCASE',
+  album: 'album COLLATE NOCASE',
+  track: 'track COLLATE NOCASE',
+};
+
+function toHistoryEntry(row: {
+  timestamp: number;
+  track: string | null;
+  source: string | null;
+}): ScrobbleHistoryEntry {
+  const play: ScrobbleHistoryEntry = { timestamp: row.timestamp };
+  if (row.track !== null) play.track = row.track;
+  if (row.source !== null) play.source = row.source as ScrobbleSource;
+  return play;
+}
+
+/**
+ * Embedded SQLite store for the scrobble history, used instead of
+ * history/scrobble-history-index.json when HISTORY_STORAGE=sqlite.
+ *
+ * Each play is a row in `plays` (artist and album as in the index keys), so
+ * stats over a period, single albums and the history browser's pages are
+ * answered with indexed SQL rather than a scan of every play. Syncs append
+ * just their new plays; otherwise the whole index is read and written,
+ * which keeps the import and undo code unchanged and lets the JSON index be
+ * exported. See ScrobbleHistoryStorage.getIndex() for what still reads the
+ * whole index.
+ */
+export class PlayDatabase {
+  private logger = createLogger('PlayDatabase');
+  private db: Database.Database | null = null;
+  private readonly filePath: string;
+
+  constructor(fileStorage: FileStorage) {
+    this.filePath = fileStorage.resolvePath(PLAYS_DB_FILE);
+  }
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const db = new Database(this.filePath);
+    db.pragma('foreign_keys = ON');
+    // SQLite's lower() folds ASCII only; match the JSON path's toLowerCase()
+    db.function('js_lower', { deterministic: true }, (value: unknown) =>
+      typeof value === 'string' ? value.toLowerCase() : value
+    );
+
+    const version = db.pragma('user_version', { simple: true }) as number;
+    for (let v = version; v < SCHEMA_MIGRATIONS.length; v++) {
+      db.transaction(() => {
+        db.exec(SCHEMA_MIGRATIONS[v]);
+        db.pragma(`user_version = ${v + 1}`);
+      })();
+      this.logger.info(`Play database schema migrated to v${v + 1}`);
+    }
+
+    this.db = db;
+    return db;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Whether a history index has been written (by a sync, import or the
+   * migration from JSON).
+   */
+  hasIndex(): boolean {
+    return this.readMeta() !== null;
+  }
+
+  /**
+   * The index's sync fields and totals, without its albums.
+   */
+  readMeta(): IndexMeta | null {
+    const row = this.open()
+      .prepare('SELECT value FROM meta WHERE key = ?')
+      .get('index') as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as IndexMeta) : null;
+  }
+
+  /**
+   * Rebuild the full index, with plays in the order they were written.
+   */
+  readIndex(): ScrobbleHistoryIndex | null {
+    const meta = this.readMeta();
+    if (!meta) return null;
+
+    const db = this.open();
+    const albums: Record<string, AlbumHistoryEntry> = {};
+    const albumRows = db
+      .prepare('SELECT album_key, last_played, play_count FROM albums')
+      .all() as Array<{
+      album_key: string;
+      last_played: number;
+      play_count: number;
+    }>;
+    for (const row of albumRows) {
+      albums[row.album_key] = {
+        lastPlayed: row.last_played,
+        playCount: row.play_count,
+        plays: [],
+      };
+    }
+
+    const playRows = db
+      .prepare(
+        'SELECT album_key, timestamp, track, source FROM plays ORDER BY id'
+      )
+      .iterate() as IterableIterator<{
+      album_key: string;
+      timestamp: number;
+      track: string | null;
+      source: string | null;
+    }>;
+    for (const row of playRows) {
+      albums[row.album_key]?.plays.push(toHistoryEntry(row));
+    }
+
+    return { ...meta, albums };
+  }
+
+  /**
+   * One album's history by index key, with plays in the order they were
+   * written.
+   */
+  readAlbum(albumKey: string): AlbumHistoryEntry | null {
+    const db = this.open();
+    const row = db
+      .prepare('SELECT last_played, play_count FROM albums WHERE album_key = ?')
+      .get(albumKey) as { last_played: number; play_count: number } | undefined;
+    if (!row) return null;
+
+    const playRows = db
+      .prepare(
+        'SELECT timestamp, track, source FROM plays WHERE album_key = ? ORDER BY id'
+      )
+      .all(albumKey) as Array<{
+      timestamp: number;
+      track: string | null;
+      source: string | null;
+    }>;
+    return {
+      lastPlayed: row.last_played,
+      playCount: row.play_count,
+      plays: playRows.map(toHistoryEntry),
+    };
+  }
+
+  /**
+   * Replace the stored index in one transaction.
+   */
+  writeIndex(index: ScrobbleHistoryIndex): void {
+    const db = this.open();
+    const { albums, ...meta } = index;
+
+    const insertAlbum = db.prepare(
+      'INSERT INTO albums (album_key, last_played, play_count) VALUES (?, ?, ?)'
+    );
+    const insertPlay = this.prepareInsertPlay(db);
+
+    db.transaction(() => {
+      db.exec('DELETE FROM plays; DELETE FROM albums;');
+      for (const [key, entry] of Object.entries(albums)) {
+        insertAlbum.run(key, entry.lastPlayed, entry.playCount);
+        for (const play of entry.plays) {
+          insertPlay(key, play);
+        }
+      }
+      this.writeMeta(db, meta);
+    })();
+  }
+
+  /**
+   * Save an index that differs from the stored one only by `plays`, which
+   * were appended to their albums, as a sync does. Only those plays and
+   * their albums are written, rather than every row.
+   */
+  appendPlays(index: ScrobbleHistoryIndex, plays: AppendedPlay[]): void {
+    const db = this.open();
+    const { albums, ...meta } = index;
+
+    const upsertAlbum = db.prepare(
+      `INSERT INTO albums (album_key, last_played, play_count) VALUES (?, ?, ?)
+       ON CONFLICT (album_key) DO UPDATE
+       SET last_played = excluded.last_played, play_count = excluded.play_count`
+    );
+    const insertPlay = this.prepareInsertPlay(db);
+
+    db.transaction(() => {
+      for (const key of new Set(plays.map(p => p.albumKey))) {
+        upsertAlbum.run(key, albums[key].lastPlayed, albums[key].playCount);
+      }
+      for (const { albumKey, play } of plays) {
+        insertPlay(albumKey, play);
+      }
+      this.writeMeta(db, meta);
+    })();
+  }
+
+  private prepareInsertPlay(
+    db: Database.Database
+  ): (albumKey: string, play: ScrobbleHistoryEntry) => void {
+    const statement = db.prepare(
+      'INSERT INTO plays (album_key, artist, album, track, timestamp, source) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    return (albumKey, play) => {
+      const [artist, album = ''] = albumKey.split('|');
+      statement.run(
+        albumKey,
+        artist,
+        album,
+        play.track ?? null,
+        play.timestamp,
+        play.source ?? null
+      );
+    };
+  }
+
+  private writeMeta(db: Database.Database, meta: IndexMeta): void {
+    db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(
+      'index',
+      JSON.stringify(meta)
+    );
+  }
+
+  /**
+   * Remove the stored index, as when the history is cleared for a resync.
+   */
+  clear(): void {
+    const db = this.open();
+    db.transaction(() => {
+      db.exec(
+        "DELETE FROM plays; DELETE FROM albums; DELETE FROM meta WHERE key = 'index';"
+      );
+    })();
+  }
+
+  /**
+   * Number of albums and the latest play across all of them.
+   */
+  getAlbumSummary(): { albumCount: number; lastPlayed: number | null } {
+    return this.open()
+      .prepare(
+        'SELECT COUNT(*) AS albumCount, MAX(last_played) AS lastPlayed FROM albums'
+      )
+      .get() as { albumCount: number; lastPlayed: number | null };
+  }
+
+  /**
+   * All-time totals per index artist, from the album rows.
+   */
+  getArtistTotals(): ArtistTotalsRow[] {
+    return this.open()
+      .prepare(
+        `SELECT ${ALBUM_KEY_ARTIST} AS artist,
+                SUM(play_count) AS playCount, COUNT(*) AS albumCount,
+                MAX(last_played) AS lastPlayed
+         FROM albums
+         GROUP BY artist`
+      )
+      .all() as ArtistTotalsRow[];
+  }
+
+  /**
+   * Plays per index artist between two timestamps (seconds, inclusive).
+   */
+  getArtistPlayCounts(
+    startTime: number,
+    endTime: number
+  ): ArtistPlayCountRow[] {
+    return this.open()
+      .prepare(
+        `SELECT artist, COUNT(*) AS playCount
+         FROM plays
+         WHERE timestamp BETWEEN ? AND ?
+         GROUP BY artist`
+      )
+      .all(startTime, endTime) as ArtistPlayCountRow[];
+  }
+
+  /**
+   * Plays per album between two timestamps (seconds, inclusive).
+   */
+  getAlbumPlayCounts(startTime: number, endTime: number): AlbumPlayCountRow[] {
+    return this.open()
+      .prepare(
+        `SELECT artist, album, COUNT(*) AS playCount,
+                MAX(timestamp) AS lastPlayed
+         FROM plays
+         WHERE timestamp BETWEEN ? AND ?
+         GROUP BY album_key`
+      )
+      .all(startTime, endTime) as AlbumPlayCountRow[];
+  }
+
+  /**
+   * Plays per track name under each album between two timestamps (seconds,
+   * inclusive). Spellings that normalize alike are separate rows.
+   */
+  getTrackPlayCounts(startTime: number, endTime: number): TrackPlayCountRow[] {
+    return this.open()
+      .prepare(
+        `SELECT artist, album, track, COUNT(*) AS playCount,
+                MAX(timestamp) AS lastPlayed
+         FROM plays
+         WHERE timestamp BETWEEN ? AND ? AND track IS NOT NULL AND track != ''
+         GROUP BY album_key, track`
+      )
+      .all(startTime, endTime) as TrackPlayCountRow[];
+  }
+
+  /**
+   * Plays per local calendar day (YYYY-MM-DD) in [startTime, endTime).
+   */
+  getDailyPlayCounts(
+    startTime: number,
+    endTime: number
+  ): Array<{ date: string; count: number }> {
+    return this.open()
+      .prepare(
+        `SELECT ${LOCAL_DAY} AS date, COUNT(*) AS count
+         FROM plays
+         WHERE timestamp >= ? AND timestamp < ?
+         GROUP BY date
+         ORDER BY date`
+      )
+      .all(startTime, endTime) as Array<{ date: string; count: number }>;
+  }
+
+  /**
+   * All-time plays per local hour (0-23), weekday (0 = Sunday) or year.
+   */
+  getLocalTimePlayCounts(
+    unit: keyof typeof LOCAL_TIME_FORMATS
+  ): Array<{ value: number; count: number }> {
+    return this.open()
+      .prepare(
+        `SELECT CAST(strftime(?, timestamp, 'unixepoch', 'localtime') AS INTEGER) AS value,
+                COUNT(*) AS count
+         FROM plays
+         GROUP BY value`
+      )
+      .all(LOCAL_TIME_FORMATS[unit]) as Array<{ value: number; count: number }>;
+  }
+
+  /**
+   * Plays per album per year on a local calendar day (month 1-12).
+   */
+  getOnThisDayPlayCounts(month: number, day: number): YearAlbumPlayCountRow[] {
+    const monthDay = `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    return this.open()
+      .prepare(
+        `SELECT CAST(substr(${LOCAL_DAY}, 1, 4) AS INTEGER) AS year,
+                artist, album, COUNT(*) AS playCount
+         FROM plays
+         WHERE substr(${LOCAL_DAY}, 6) = ?
+         GROUP BY year, artist, album`
+      )
+      .all(monthDay) as YearAlbumPlayCountRow[];
+  }
+
+  /**
+   * One page of albums by all-time totals, as shown in the history browser.
+   */
+  getAlbumPage(query: AlbumPageQuery): {
+    items: AlbumPlayCountRow[];
+    total: number;
+  } {
+    const params: string[] = [];
+    let where = '1';
+
+    const search = query.searchQuery?.trim().toLowerCase();
+    if (search) {
+      where = 'instr(js_lower(artist), ?) > 0 OR instr(js_lower(album), ?) > 0';
+      params.push(search, search);
+    }
+
+    return this.getPage<AlbumPlayCountRow>(
+      `SELECT * FROM (
+         SELECT ${ALBUM_KEY_ARTIST} AS artist, ${ALBUM_KEY_ALBUM} AS album,
+                play_count AS playCount, last_played AS lastPlayed
+         FROM albums
+       )
+       WHERE ${where}`,
+      params,
+      query
+    );
+  }
+
+  /**
+   * One page of tracks aggregated by artist, album and case-insensitive
+   * track name, as shown in the history browser.
+   */
+  getTrackPage(query: TrackPageQuery): {
+    items: TrackPlayCountRow[];
+    total: number;
+  } {
+    const params: string[] = [];
+    let where = "track IS NOT NULL AND track != ''";
+
+    const search = query.searchQuery?.trim().toLowerCase();
+    if (search) {
+      where +=
+        ' AND (instr(js_lower(artist), ?) > 0 OR instr(js_lower(album), ?) > 0 OR instr(js_lower(track), ?) > 0)';
+      params.push(search, search, search);
+    }
+
+    return this.getPage<TrackPlayCountRow>(
+      `SELECT artist, album, MIN(track) AS track, COUNT(*) AS playCount,
+              MAX(timestamp) AS lastPlayed
+       FROM plays
+       WHERE ${where}
+       GROUP BY album_key, js_lower(track)`,
+      params,
+      query
+    );
+  }
+
+  /**
+   * Count the rows of `rowsSql` and return the requested sorted page.
+   */
+  private getPage<T>(
+    rowsSql: string,
+    params: string[],
+    query: TrackPageQuery | AlbumPageQuery
+  ): { items: T[]; total: number } {
+    const db = this.open();
+    const { total } = db
+      .prepare(`SELECT COUNT(*) AS total FROM (${rowsSql})`)
+      .get(...params) as { total: number };
+
+    const direction = query.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    const items = db
+      .prepare(
+        `${rowsSql}
+         ORDER BY ${PAGE_SORT_COLUMNS[query.sortBy]} ${direction}
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, query.perPage, (query.page - 1) * query.perPage) as T[];
+
+    return { items, total };
+  }
+}
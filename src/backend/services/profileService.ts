@@ -0,0 +1,209 @@
+import { ProfilesStore, UserProfile } from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+const PROFILES_FILE = 'profiles/profiles.json';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Name the profile in a URL the browser reaches without our X-Profile-Id
+ * header, such as an OAuth callback. Default-profile URLs are left as-is.
+ */
+export function withProfileQuery(url: string, profileId: string): string {
+  if (profileId === DEFAULT_PROFILE_ID) {
+    return url;
+  }
+  const parsed = new URL(url);
+  parsed.searchParams.set('profile', profileId);
+  return parsed.toString();
+}
+
+const MAX_NAME_LENGTH = 40;
+const MAX_ID_LENGTH = 32;
+
+/**
+ * Why a profile change was refused; `status` is the HTTP status to report.
+ */
+export class ProfileError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404 | 409
+  ) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+/**
+ * Manages the profiles sharing one installation.
+ *
+ * The default profile keeps using the top-level data directory; every other
+ * profile lives under profiles/<id>/ (see FileStorage.forProfile). The list
+ * itself is stored in the top-level directory.
+ */
+export class ProfileService {
+  private logger = createLogger('ProfileService');
+  private store: ProfilesStore | null = null;
+
+  constructor(private fileStorage: FileStorage) {}
+
+  private async loadStore(): Promise<ProfilesStore> {
+    if (this.store) return this.store;
+
+    const data = await this.fileStorage.readJSON<ProfilesStore>(PROFILES_FILE);
+    if (data && data.schemaVersion === 1) {
+      this.store = data;
+      return data;
+    }
+
+    this.store = {
+      schemaVersion: 1,
+      profiles: [
+        { id: DEFAULT_PROFILE_ID, name: 'Default', createdAt: Date.now() },
+      ],
+    };
+    return this.store;
+  }
+
+  private async saveStore(store: ProfilesStore): Promise<void> {
+    await this.fileStorage.writeJSONWithBackup(PROFILES_FILE, store);
+    this.store = store;
+  }
+
+  async getProfiles(): Promise<UserProfile[]> {
+    const store = await this.loadStore();
+    return store.profiles;
+  }
+
+  async getProfile(id: string): Promise<UserProfile | null> {
+    const profiles = await this.getProfiles();
+    return profiles.find(p => p.id === id) ?? null;
+  }
+
+  /**
+   * Storage for a profile's data; shared caches resolve to the top level.
+   */
+  getProfileStorage(id: string): FileStorage {
+    return id === DEFAULT_PROFILE_ID
+      ? this.fileStorage
+      : this.fileStorage.forProfile(id);
+  }
+
+  async createProfile(name: string): Promise<UserProfile> {
+    const trimmed = this.validateName(name);
+    const store = await this.loadStore();
+    this.assertNameAvailable(store, trimmed);
+
+    const profile: UserProfile = {
+      id: this.generateId(store, trimmed),
+      name: trimmed,
+      createdAt: Date.now(),
+    };
+
+    await this.getProfileStorage(profile.id).ensureDataDir();
+    await this.saveStore({
+      ...store,
+      profiles: [...store.profiles, profile],
+    });
+
+    this.logger.info('Created profile', { id: profile.id });
+    return profile;
+  }
+
+  async renameProfile(id: string, name: string): Promise<UserProfile> {
+    const trimmed = this.validateName(name);
+    const store = await this.loadStore();
+    const existing = store.profiles.find(p => p.id === id);
+    if (!existing) {
+      throw new ProfileError('Profile not found', 404);
+    }
+    this.assertNameAvailable(store, trimmed, id);
+
+    const updated: UserProfile = { ...existing, name: trimmed };
+    await this.saveStore({
+      ...store,
+      profiles: store.profiles.map(p => (p.id === id ? updated : p)),
+    });
+    return updated;
+  }
+
+  /**
+   * Remove a profile and all of its data. The default profile can't be
+   * removed because it owns the top-level data directory.
+   * @param stopProfile Stops the profile's running services. Called once the
+   *   profile is off the list, so no new requests reach it, and before its
+   *   data is removed, so nothing writes the data back.
+   */
+  async deleteProfile(
+    id: string,
+    stopProfile: (id: string) => Promise<void> = async () => undefined
+  ): Promise<void> {
+    if (id === DEFAULT_PROFILE_ID) {
+      throw new ProfileError('The default profile cannot be deleted', 400);
+    }
+
+    const store = await this.loadStore();
+    if (!store.profiles.some(p => p.id === id)) {
+      throw new ProfileError('Profile not found', 404);
+    }
+
+    await this.saveStore({
+      ...store,
+      profiles: store.profiles.filter(p => p.id !== id),
+    });
+    await stopProfile(id);
+    await this.fileStorage.deleteDirectory(`profiles/${id}`);
+
+    this.logger.info('Deleted profile', { id });
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      throw new ProfileError('Profile name is required', 400);
+    }
+    const trimmed = name.trim();
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new ProfileError(
+        `Profile name must be at most ${MAX_NAME_LENGTH} characters`,
+        400
+      );
+    }
+    return trimmed;
+  }
+
+  private assertNameAvailable(
+    store: ProfilesStore,
+    name: string,
+    exceptId?: string
+  ): void {
+    const taken = store.profiles.some(
+      p => p.id !== exceptId && p.name.toLowerCase() === name.toLowerCase()
+    );
+    if (taken) {
+      throw new ProfileError(`A profile named "${name}" already exists`, 409);
+    }
+  }
+
+  /**
+   * Derive a directory-safe id from the name, e.g. "Sam's Records" ->
+   * "sam-s-records", adding a number when it is already taken.
+   */
+  private generateId(store: ProfilesStore, name: string): string {
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .slice(0, MAX_ID_LENGTH)
+        .replace(/^-+|-+$/g, '') || 'profile';
+
+    const taken = new Set(store.profiles.map(p => p.id));
+    taken.add(DEFAULT_PROFILE_ID);
+
+    let id = base;
+    for (let n = 2; taken.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Recognizer Device Service - the registry of playback recognizers allowed
+ * to send events to POST /api/v1/scrobble/recognized.
+ *
+ * Each device gets its own API key, which is only good for that endpoint.
+ * The key is returned once at registration and stored as a SHA-256 hash,
+ * so a lost key means registering the device again. Devices keep running
+ * totals of what they scrobbled and how sure they were, and can be paused
+ * (events are still followed, nothing is scrobbled) or revoked.
+ */
+
+import crypto from 'crypto';
+
+import {
+  RecognizerDevice,
+  RecognizerDeviceRegistration,
+  RecognizerDeviceStore,
+  RecognizerDeviceSummary,
+  RecognizerEvent,
+  RecognizerEventResult,
+} from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+const DEVICES_FILE = 'settings/recognizer-devices.json';
+
+const KEY_PREFIX = 'rsk_';
+const MAX_NAME_LENGTH = 60;
+
+/**
+ * Why a registry change was refused; `status` is the HTTP status to report.
+ */
+export class RecognizerDeviceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404
+  ) {
+    super(message);
+    this.name = 'RecognizerDeviceError';
+  }
+}
+
+const hashKey = (apiKey: string): string =>
+  crypto.createHash('sha256').update(apiKey).digest('hex');
+
+const toSummary = (device: RecognizerDevice): RecognizerDeviceSummary => ({
+  id: device.id,
+  name: device.name,
+  keyPreview: device.keyPreview,
+  createdAt: device.createdAt,
+  lastSeenAt: device.lastSeenAt,
+  paused: device.paused,
+  scrobbled: device.stats.scrobbled,
+  rejected: device.stats.rejected,
+  averageConfidence:
+    device.stats.confidenceCount > 0
+      ? Math.round(
+          (device.stats.confidenceTotal / device.stats.confidenceCount) * 1000
+        ) / 1000
+      : null,
+});
+
+export class RecognizerDeviceService {
+  private logger = createLogger('RecognizerDeviceService');
+  private store: RecognizerDeviceStore | null = null;
+
+  constructor(private fileStorage: FileStorage) {}
+
+  private async loadStore(): Promise<RecognizerDeviceStore> {
+    if (this.store) return this.store;
+
+    try {
+      const data =
+        await this.fileStorage.readJSON<RecognizerDeviceStore>(DEVICES_FILE);
+      if (data && data.schemaVersion === 1) {
+        this.store = data;
+        return data;
+      }
+    } catch {
+      this.logger.debug('No recognizer devices found, creating new store');
+    }
+
+    this.store = { schemaVersion: 1, devices: [] };
+    return this.store;
+  }
+
+  private async saveStore(store: RecognizerDeviceStore): Promise<void> {
+    await this.fileStorage.writeJSON(DEVICES_FILE, store);
+  }
+
+  private async findDevice(id: string): Promise<RecognizerDevice> {
+    const store = await this.loadStore();
+    const device = store.devices.find(candidate => candidate.id === id);
+    if (!device) {
+      throw new RecognizerDeviceError('Recognizer not found', 404);
+    }
+    return device;
+  }
+
+  async getDevices(): Promise<RecognizerDeviceSummary[]> {
+    const store = await this.loadStore();
+    return store.devices.map(toSummary);
+  }
+
+  /**
+   * Register a recognizer and create its API key.
+   */
+  async registerDevice(name: string): Promise<RecognizerDeviceRegistration> {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+      throw new RecognizerDeviceError(
+        `Name must be 1-${MAX_NAME_LENGTH} characters`,
+        400
+      );
+    }
+
+    const apiKey = `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+    const device: RecognizerDevice = {
+      id: crypto.randomUUID(),
+      name: trimmed,
+      keyHash: hashKey(apiKey),
+      keyPreview: apiKey.slice(0, KEY_PREFIX.length + 6),
+      createdAt: Date.now(),
+      paused: false,
+      stats: {
+        scrobbled: 0,
+        rejected: 0,
+        confidenceTotal: 0,
+        confidenceCount: 0,
+      },
+    };
+
+    const store = await this.loadStore();
+    store.devices.push(device);
+    await this.saveStore(store);
+
+    this.logger.info(`Registered recognizer ${trimmed}`);
+    return { device: toSummary(device), apiKey };
+  }
+
+  /**
+   * Pause or resume auto-scrobbling from a device.
+   */
+  async setPaused(
+    id: string,
+    paused: boolean
+  ): Promise<RecognizerDeviceSummary> {
+    const device = await this.findDevice(id);
+    device.paused = paused;
+    await this.saveStore(await this.loadStore());
+    return toSummary(device);
+  }
+
+  /**
+   * Remove a device; its key stops working immediately.
+   */
+  async revokeDevice(id: string): Promise<void> {
+    const device = await this.findDevice(id);
+    const store = await this.loadStore();
+    store.devices = store.devices.filter(candidate => candidate !== device);
+    await this.saveStore(store);
+    this.logger.info(`Revoked recognizer ${device.name}`);
+  }
+
+  /**
+   * The device an API key belongs to, or null for unknown keys.
+   */
+  async authenticate(
+    apiKey: string | undefined
+  ): Promise<RecognizerDevice | null> {
+    if (!apiKey || !apiKey.startsWith(KEY_PREFIX)) return null;
+
+    const hash = Buffer.from(hashKey(apiKey), 'hex');
+    const store = await this.loadStore();
+    return (
+      store.devices.find(device =>
+        crypto.timingSafeEqual(Buffer.from(device.keyHash, 'hex'), hash)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Add an event and what it led to into the device's stats.
+   */
+  async recordEvent(
+    id: string,
+    event: RecognizerEvent,
+    result: RecognizerEventResult
+  ): Promise<void> {
+    const device = await this.findDevice(id);
+    device.lastSeenAt = Date.now();
+    device.stats.scrobbled += result.scrobbled.length;
+    device.stats.rejected += result.rejected.length;
+    if (event.event === 'track-start' || event.event === 'confidence') {
+      device.stats.confidenceTotal += event.confidence ?? 1;
+      device.stats.confidenceCount++;
+    }
+    await this.saveStore(await this.loadStore());
+  }
+}
@@ -0,0 +1,660 @@
+/**
+ * Recognizer Session Service - turns the event stream of a playback
+ * recognizer (such as the Raspberry Pi audio detector) into verified
+ * scrobbles.
+ *
+ * A recognizer reports what it hears several times per track, sometimes
+ * misses a track altogether and has no idea which pressing is on the
+ * turntable. Events from one recognizer are grouped into a session:
+ * repeated recognitions of a track become one play, each play is matched
+ * against the Discogs collection for its release, album title and duration,
+ * tracks missed between two recognized tracks on the same side are filled
+ * in, and a play is only scrobbled once it has run past the Last.fm
+ * threshold.
+ */
+
+import crypto from 'crypto';
+
+import {
+  RecognizedPlay,
+  RecognizedPlayRejectReason,
+  RecognizerEvent,
+  RecognizerEventResult,
+  RecognizerSession,
+  RecognizerSessionStore,
+  ScrobbleTrack,
+} from '../../shared/types';
+import { normalizeForMatching } from '../../shared/utils/trackNormalization';
+import {
+  getTrackDurations,
+  getTrackSide,
+  parseDuration,
+  TRACK_GAP_SECONDS,
+} from '../../shared/utils/vinylSides';
+import { getAllCachedCollectionItems } from '../utils/collectionCache';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import { artistMappingService } from './artistMappingService';
+import { AuthService } from './authService';
+import { DiscogsService } from './discogsService';
+import { DurationLookupService } from './durationLookupService';
+import { LastFmService } from './lastfmService';
+import { SideMemoryService } from './sideMemoryService';
+
+const SESSIONS_FILE = 'scrobbles/recognizer-sessions.json';
+
+/** Sessions kept for the history view. */
+const MAX_SESSIONS = 50;
+
+/** A session without events for this long is over. */
+export const SESSION_IDLE_SECONDS = 15 * 60;
+
+/** Recognitions below this confidence don't count as a new track. */
+export const MIN_CONFIDENCE = 0.5;
+
+/** The same track heard again this soon after it ended is the same play. */
+const REOPEN_SECONDS = 30;
+
+/** Last.fm only takes tracks longer than this... */
+const MIN_TRACK_SECONDS = 30;
+
+/** ...played for half their length or this long, whichever comes first. */
+const MAX_THRESHOLD_SECONDS = 240;
+
+/** Slack when fitting missed tracks into the time between two plays. */
+const GAP_TOLERANCE_SECONDS = 20;
+
+/** Collection releases checked for a recognized track. */
+const MAX_RELEASE_CANDIDATES = 5;
+
+/**
+ * Whether a play has run long enough to scrobble under the Last.fm rules.
+ * Without a known duration, a track that ended by itself only has to pass
+ * the minimum length; one still playing has to reach the four-minute mark.
+ */
+export function passesScrobbleThreshold(
+  duration: number | undefined,
+  played: number,
+  ended: boolean
+): boolean {
+  if (duration) {
+    return (
+      duration > MIN_TRACK_SECONDS &&
+      played >= Math.min(duration / 2, MAX_THRESHOLD_SECONDS)
+    );
+  }
+  return played >= (ended ? MIN_TRACK_SECONDS : MAX_THRESHOLD_SECONDS);
+}
+
+const trackKey = (artist: string, title: string): string =>
+  `${normalizeForMatching(artist)}|${normalizeForMatching(title)}`;
+
+const roundConfidence = (value: number): number =>
+  Math.round(value * 1000) / 1000;
+
+/** Plays decided while handling one event. */
+interface Outcome {
+  ready: RecognizedPlay[];
+  rejected: RecognizedPlay[];
+}
+
+export class RecognizerSessionService {
+  private logger = createLogger('RecognizerSessionService');
+  private store: RecognizerSessionStore | null = null;
+  // Events are handled one at a time so overlapping requests can't split
+  // or double-scrobble a play
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private fileStorage: FileStorage,
+    private authService: AuthService,
+    private discogsService: DiscogsService,
+    private lastfmService: LastFmService,
+    private durationLookupService?: DurationLookupService,
+    private sideMemoryService?: SideMemoryService
+  ) {}
+
+  private async loadStore(): Promise<RecognizerSessionStore> {
+    if (this.store) return this.store;
+
+    try {
+      const data =
+        await this.fileStorage.readJSON<RecognizerSessionStore>(SESSIONS_FILE);
+      if (data && data.schemaVersion === 1) {
+        this.store = data;
+        return data;
+      }
+    } catch {
+      this.logger.debug('No recognizer sessions found, creating new store');
+    }
+
+    this.store = { schemaVersion: 1, sessions: [] };
+    return this.store;
+  }
+
+  private async saveStore(store: RecognizerSessionStore): Promise<void> {
+    if (store.sessions.length > MAX_SESSIONS) {
+      store.sessions = store.sessions.slice(-MAX_SESSIONS);
+    }
+    await this.fileStorage.writeJSON(SESSIONS_FILE, store);
+  }
+
+  /**
+   * Recent sessions, newest first.
+   */
+  async getSessions(limit = 20): Promise<RecognizerSession[]> {
+    const store = await this.loadStore();
+    return store.sessions.slice(-limit).reverse();
+  }
+
+  /**
+   * Apply one recognizer event and scrobble whatever it completed. With
+   * `paused`, plays are followed as usual but rejected instead of scrobbled.
+   */
+  handleEvent(
+    event: RecognizerEvent,
+    options: { paused?: boolean } = {}
+  ): Promise<RecognizerEventResult> {
+    const run = this.pending.then(() =>
+      this.processEvent(event, options.paused ?? false)
+    );
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private async processEvent(
+    event: RecognizerEvent,
+    paused: boolean
+  ): Promise<RecognizerEventResult> {
+    const store = await this.loadStore();
+    const outcome: Outcome = { ready: [], rejected: [] };
+    const touched: RecognizerSession[] = [];
+
+    let session =
+      store.sessions.find(
+        candidate =>
+          candidate.source === event.source && candidate.endedAt === undefined
+      ) ?? null;
+
+    if (
+      session &&
+      event.timestamp - session.lastEventAt > SESSION_IDLE_SECONDS
+    ) {
+      // The record stopped without a needle-lift; the last event is the
+      // best guess for when
+      this.endSession(session, session.lastEventAt, outcome);
+      touched.push(session);
+      session = null;
+    }
+
+    if (!session && event.event === 'track-start') {
+      session = {
+        id: crypto.randomUUID(),
+        source: event.source,
+        startedAt: event.timestamp,
+        lastEventAt: event.timestamp,
+        plays: [],
+      };
+      store.sessions.push(session);
+    }
+
+    if (session) {
+      // Late events are treated as arriving now
+      const at = Math.max(event.timestamp, session.lastEventAt);
+      session.lastEventAt = at;
+      touched.push(session);
+
+      const current = this.currentPlay(session);
+      switch (event.event) {
+        case 'track-start':
+          await this.handleTrackStart(session, event, at, outcome);
+          break;
+        case 'confidence':
+          if (current) this.hear(current, event.confidence ?? 1, at);
+          break;
+        case 'track-end':
+          if (current) {
+            current.lastHeardAt = at;
+            this.closePlay(current, at, true, outcome);
+          }
+          break;
+        case 'needle-lift':
+          this.endSession(session, at, outcome);
+          break;
+      }
+
+      // Scrobble the track playing now as soon as it passes the threshold
+      const playing = this.currentPlay(session);
+      if (playing) this.judgePlay(playing, at, false, false, outcome);
+    }
+
+    if (paused) {
+      outcome.ready.forEach(play =>
+        this.reject(play, 'device-paused', outcome.rejected)
+      );
+      outcome.ready = [];
+    }
+    const scrobbled = outcome.ready.length
+      ? await this.scrobble(outcome.ready, outcome.rejected)
+      : [];
+    if (scrobbled.length) {
+      await this.rememberSides(touched, scrobbled);
+    }
+    await this.saveStore(store);
+
+    return { session, scrobbled, rejected: outcome.rejected };
+  }
+
+  /** The play still going, if any; at most one play is open at a time. */
+  private currentPlay(session: RecognizerSession): RecognizedPlay | null {
+    for (let i = session.plays.length - 1; i >= 0; i--) {
+      if (session.plays[i].endedAt === undefined) return session.plays[i];
+    }
+    return null;
+  }
+
+  /** The latest play the recognizer was confident about. */
+  private lastHeardPlay(session: RecognizerSession): RecognizedPlay | null {
+    for (let i = session.plays.length - 1; i >= 0; i--) {
+      if (session.plays[i].rejectReason !== 'low-confidence') {
+        return session.plays[i];
+      }
+    }
+    return null;
+  }
+
+  private async handleTrackStart(
+    session: RecognizerSession,
+    event: RecognizerEvent,
+    at: number,
+    outcome: Outcome
+  ): Promise<void> {
+    const artist = (event.artist || '').trim();
+    const title = (event.title || '').trim();
+    const confidence = event.confidence ?? 1;
+    const key = trackKey(artist, title);
+    const current = this.currentPlay(session);
+
+    // Still the same track
+    if (current && trackKey(current.artist, current.title) === key) {
+      this.hear(current, confidence, at);
+      return;
+    }
+
+    // The same track again right after it ended, e.g. the run-out of a
+    // track recognized once more
+    const last = this.lastHeardPlay(session);
+    if (
+      !current &&
+      last &&
+      !last.inferred &&
+      last.endedAt !== undefined &&
+      at - last.endedAt <= REOPEN_SECONDS &&
+      trackKey(last.artist, last.title) === key
+    ) {
+      last.endedAt = undefined;
+      if (last.status === 'rejected') {
+        last.status = 'playing';
+        delete last.rejectReason;
+      }
+      this.hear(last, confidence, at);
+      return;
+    }
+
+    // A doubtful match for a different track doesn't interrupt the one
+    // playing; it's kept so the session shows what was heard
+    if (confidence < MIN_CONFIDENCE) {
+      const blip: RecognizedPlay = {
+        id: crypto.randomUUID(),
+        artist,
+        title,
+        album: event.album?.trim() || undefined,
+        startedAt: at,
+        endedAt: at,
+        lastHeardAt: at,
+        confidence: roundConfidence(confidence),
+        recognitions: 1,
+        status: 'playing',
+      };
+      session.plays.push(blip);
+      this.reject(blip, 'low-confidence', outcome.rejected);
+      return;
+    }
+
+    const play: RecognizedPlay = {
+      id: crypto.randomUUID(),
+      artist,
+      title,
+      album: event.album?.trim() || undefined,
+      startedAt: at,
+      lastHeardAt: at,
+      confidence: roundConfidence(confidence),
+      recognitions: 1,
+      status: 'playing',
+    };
+    await this.resolveRelease(session, play);
+
+    const previous = current ?? last;
+    const missed = previous ? await this.inferMissedPlays(previous, play) : [];
+    if (current) {
+      // A new track means the previous one ended, or if tracks were missed
+      // in between, that it ended before them
+      const endedAt = missed.length
+        ? missed[0].startedAt - TRACK_GAP_SECONDS
+        : at;
+      this.closePlay(
+        current,
+        Math.max(endedAt, current.startedAt),
+        true,
+        outcome
+      );
+    }
+    for (const inferred of missed) {
+      this.judgePlay(inferred, inferred.endedAt as number, true, true, outcome);
+    }
+    session.plays.push(...missed, play);
+  }
+
+  /** Fold another report of the same track into its play. */
+  private hear(play: RecognizedPlay, confidence: number, at: number): void {
+    play.confidence = roundConfidence(
+      (play.confidence * play.recognitions + confidence) /
+        (play.recognitions + 1)
+    );
+    play.recognitions++;
+    play.lastHeardAt = Math.max(play.lastHeardAt, at);
+  }
+
+  private endSession(
+    session: RecognizerSession,
+    at: number,
+    outcome: Outcome
+  ): void {
+    const current = this.currentPlay(session);
+    if (current) this.closePlay(current, at, false, outcome);
+    session.endedAt = at;
+  }
+
+  /**
+   * End a play. `natural` means the track ran out by itself (a track-end or
+   * the next track) rather than being cut off.
+   */
+  private closePlay(
+    play: RecognizedPlay,
+    at: number,
+    natural: boolean,
+    outcome: Outcome
+  ): void {
+    play.endedAt = at;
+    this.judgePlay(play, at, natural, true, outcome);
+  }
+
+  /**
+   * Queue a play for scrobbling once it's past the threshold. A `final`
+   * judgement (the play has ended) rejects it otherwise.
+   */
+  private judgePlay(
+    play: RecognizedPlay,
+    at: number,
+    natural: boolean,
+    final: boolean,
+    outcome: Outcome
+  ): void {
+    if (play.status !== 'playing' || outcome.ready.includes(play)) return;
+
+    const duration =
+      play.duration ??
+      (play.inferred && play.endedAt !== undefined
+        ? play.endedAt - play.startedAt
+        : undefined);
+    if (!passesScrobbleThreshold(duration, at - play.startedAt, natural)) {
+      if (final) this.reject(play, 'too-short', outcome.rejected);
+      return;
+    }
+    if (play.confidence >= MIN_CONFIDENCE) {
+      outcome.ready.push(play);
+    } else if (final) {
+      this.reject(play, 'low-confidence', outcome.rejected);
+    }
+  }
+
+  private reject(
+    play: RecognizedPlay,
+    reason: RecognizedPlayRejectReason,
+    rejected: RecognizedPlay[]
+  ): void {
+    play.status = 'rejected';
+    play.rejectReason = reason;
+    rejected.push(play);
+  }
+
+  /**
+   * Pin a play to the release in the collection that has the track,
+   * preferring the record already on the turntable, and take the album
+   * title and duration from it.
+   */
+  private async resolveRelease(
+    session: RecognizerSession,
+    play: RecognizedPlay
+  ): Promise<void> {
+    try {
+      const settings = await this.authService.getUserSettings();
+      const username = settings.discogs.username;
+      if (username) {
+        const items = await getAllCachedCollectionItems(
+          username,
+          this.fileStorage
+        );
+        const artist = normalizeForMatching(play.artist);
+        const title = normalizeForMatching(play.title);
+        const album = play.album ? normalizeForMatching(play.album) : null;
+        const rank = (releaseId: number, releaseTitle: string): number => {
+          if (releaseId === session.releaseId) return 0;
+          return album && normalizeForMatching(releaseTitle) === album ? 1 : 2;
+        };
+
+        const candidates = items
+          .filter(
+            item =>
+              item.release.id === session.releaseId ||
+              normalizeForMatching(item.release.artist) === artist
+          )
+          .sort(
+            (a, b) =>
+              rank(a.release.id, a.release.title) -
+              rank(b.release.id, b.release.title)
+          )
+          .slice(0, MAX_RELEASE_CANDIDATES);
+
+        for (const item of candidates) {
+          const release = await this.discogsService.getReleaseDetails(
+            item.release.id
+          );
+          const tracklist = release?.tracklist || [];
+          const index = tracklist.findIndex(
+            track => normalizeForMatching(track.title) === title
+          );
+          if (index < 0) continue;
+
+          const track = tracklist[index];
+          play.album = release?.title || item.release.title;
+          play.releaseId = item.release.id;
+          play.collectionItemId = item.id;
+          play.position = track.position;
+          play.side = getTrackSide(track.position) ?? undefined;
+          play.trackIndex = index;
+          play.duration = parseDuration(track.duration) ?? undefined;
+          session.releaseId = item.release.id;
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Could not match recognized track to the collection', {
+        artist: play.artist,
+        track: play.title,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (play.duration !== undefined || !this.durationLookupService) return;
+    try {
+      const lookup = await this.durationLookupService.lookupDuration(
+        play.artist,
+        play.title,
+        play.album
+      );
+      if (lookup.duration !== null) play.duration = lookup.duration;
+    } catch (error) {
+      // Without a duration the play just waits longer to be scrobbled
+      this.logger.warn('Duration lookup failed for recognized track', {
+        artist: play.artist,
+        track: play.title,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Tracks between two plays on the same side of a release that the
+   * recognizer missed, provided they fit in the time between them.
+   */
+  private async inferMissedPlays(
+    previous: RecognizedPlay,
+    next: RecognizedPlay
+  ): Promise<RecognizedPlay[]> {
+    if (
+      next.releaseId === undefined ||
+      previous.releaseId !== next.releaseId ||
+      !next.side ||
+      previous.side !== next.side ||
+      previous.trackIndex === undefined ||
+      next.trackIndex === undefined ||
+      next.trackIndex - previous.trackIndex < 2
+    ) {
+      return [];
+    }
+
+    const release = await this.discogsService
+      .getReleaseDetails(next.releaseId)
+      .catch(() => null);
+    const tracklist = release?.tracklist;
+    if (!tracklist) return [];
+
+    const durations = getTrackDurations(tracklist);
+    const indices: number[] = [];
+    for (let i = previous.trackIndex + 1; i < next.trackIndex; i++) {
+      if (getTrackSide(tracklist[i].position) === next.side) indices.push(i);
+    }
+    if (indices.length === 0) return [];
+
+    // The missed tracks started once the previous one had run its course
+    const previousEnd = Math.min(
+      previous.endedAt ?? next.startedAt,
+      previous.startedAt + durations[previous.trackIndex]
+    );
+    const needed = indices.reduce(
+      (total, index) => total + durations[index] + TRACK_GAP_SECONDS,
+      0
+    );
+    if (needed > next.startedAt - previousEnd + GAP_TOLERANCE_SECONDS) {
+      return [];
+    }
+
+    let startedAt = previousEnd + TRACK_GAP_SECONDS;
+    return indices.map(index => {
+      const track = tracklist[index];
+      const play: RecognizedPlay = {
+        id: crypto.randomUUID(),
+        artist: track.artist || next.artist,
+        title: track.title,
+        album: next.album,
+        releaseId: next.releaseId,
+        collectionItemId: next.collectionItemId,
+        position: track.position,
+        side: next.side,
+        trackIndex: index,
+        duration: parseDuration(track.duration) ?? undefined,
+        startedAt,
+        endedAt: startedAt + durations[index],
+        lastHeardAt: startedAt,
+        confidence: Math.min(previous.confidence, next.confidence),
+        recognitions: 0,
+        inferred: true,
+        status: 'playing',
+      };
+      startedAt += durations[index] + TRACK_GAP_SECONDS;
+      return play;
+    });
+  }
+
+  /**
+   * Scrobble plays in the order they were heard. Queued scrobbles count as
+   * scrobbled since the retry queue will deliver them.
+   */
+  private async scrobble(
+    plays: RecognizedPlay[],
+    rejected: RecognizedPlay[]
+  ): Promise<RecognizedPlay[]> {
+    const ordered = [...plays].sort((a, b) => a.startedAt - b.startedAt);
+    const tracks: ScrobbleTrack[] = ordered.map(play => ({
+      artist: artistMappingService.getLastfmName(play.artist),
+      track: play.title,
+      album: play.album,
+      timestamp: play.startedAt,
+      duration: play.duration,
+    }));
+
+    try {
+      await this.lastfmService.scrobbleBatch(tracks, 'recognized');
+    } catch (error) {
+      this.logger.error('Failed to scrobble recognized tracks', error);
+    }
+
+    const scrobbled: RecognizedPlay[] = [];
+    ordered.forEach((play, index) => {
+      const status = tracks[index].scrobbleStatus;
+      if (status === 'success' || status === 'queued') {
+        play.status = 'scrobbled';
+        scrobbled.push(play);
+      } else {
+        this.reject(play, 'scrobble-failed', rejected);
+      }
+    });
+
+    this.logger.info(
+      `Scrobbled ${scrobbled.length} of ${ordered.length} recognized tracks`
+    );
+    return scrobbled;
+  }
+
+  /** Remember which sides of each release were played. */
+  private async rememberSides(
+    sessions: RecognizerSession[],
+    scrobbled: RecognizedPlay[]
+  ): Promise<void> {
+    if (!this.sideMemoryService) return;
+
+    const releaseIds = new Set(
+      scrobbled
+        .map(play => play.releaseId)
+        .filter((id): id is number => id !== undefined)
+    );
+    for (const releaseId of releaseIds) {
+      const sides = sessions
+        .flatMap(session => session.plays)
+        .filter(
+          play =>
+            play.releaseId === releaseId &&
+            play.status === 'scrobbled' &&
+            play.side
+        )
+        .map(play => play.side as string);
+      try {
+        await this.sideMemoryService.recordPlay(releaseId, sides);
+      } catch (error) {
+        this.logger.warn('Failed to record played sides', error);
+      }
+    }
+  }
+}
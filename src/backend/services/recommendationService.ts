@@ -19,6 +19,7 @@ import {
   RecommendationSettings,
   RecommendationWeights,
 } from '../../shared/types';
+import { parseCollectionScope } from '../../shared/utils/collectionScope';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 import { base64ToVector } from '../utils/vectorSerialization';
@@ -67,6 +68,8 @@ export interface GetRecommendationsParams {
   excludeRecent?: boolean;
   minScore?: number;
   recentScrobbles: RecentScrobble[];
+  /** Only score these releases (e.g. those in the configured collection scope). */
+  releaseIds?: Set<number>;
 }
 
 export class RecommendationService {
@@ -150,13 +153,19 @@ export class RecommendationService {
     const sessionEmbedding = base64ToVector(sessionEntry.sessionEmbedding);
 
     // 3. Load all record embeddings
-    const allEmbeddings = await this.embeddingStorageService.getAllEmbeddings();
+    const storedEmbeddings =
+      await this.embeddingStorageService.getAllEmbeddings();
 
-    if (allEmbeddings.length === 0) {
+    if (storedEmbeddings.length === 0) {
       log.warn('No record embeddings found — run rebuild first');
       return [];
     }
 
+    const releaseIds = params.releaseIds;
+    const allEmbeddings = releaseIds
+      ? storedEmbeddings.filter(e => releaseIds.has(e.discogsReleaseId))
+      : storedEmbeddings;
+
     log.info(`Scoring ${allEmbeddings.length} records`);
 
     // 4. Build context sets for scoring — load all inputs in parallel
@@ -438,6 +447,15 @@ export class RecommendationService {
         ? { ...current.embedding, ...settings.embedding }
         : current.embedding,
     };
+    // An empty or null scope clears the restriction
+    if ('collectionScope' in settings) {
+      const scope = parseCollectionScope(settings.collectionScope);
+      if (scope) {
+        updated.collectionScope = scope;
+      } else {
+        delete updated.collectionScope;
+      }
+    }
     await this.fileStorage.writeJSONWithBackup(SETTINGS_FILE, updated);
     log.info('Recommendation settings updated');
   }
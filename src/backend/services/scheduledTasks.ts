@@ -0,0 +1,148 @@
+/**
+ * The periodic tasks run by SchedulerService, with their default schedules.
+ *
+ * Each task waits for its work to finish so the scheduler can record the
+ * outcome and keep Discogs tasks from overlapping. Tasks whose feature
+ * isn't set up (no sellers, not connected, ...) complete without doing
+ * anything.
+ */
+
+import { AuthService } from './authService';
+import { BackupService } from './backupService';
+import { LabelMonitoringService } from './labelMonitoringService';
+import { NotificationService } from './notificationService';
+import { ScheduledTaskDefinition } from './schedulerService';
+import { ScrobbleHistorySyncService } from './scrobbleHistorySyncService';
+import { SellerMonitoringService } from './sellerMonitoringService';
+import { WishlistService } from './wishlistService';
+
+export interface ScheduledTaskServices {
+  authService: AuthService;
+  syncService: ScrobbleHistorySyncService;
+  wishlistService: WishlistService;
+  sellerMonitoringService: SellerMonitoringService;
+  labelMonitoringService: LabelMonitoringService;
+  backupService: BackupService;
+  notificationService: NotificationService;
+}
+
+export function createScheduledTasks({
+  authService,
+  syncService,
+  wishlistService,
+  sellerMonitoringService,
+  labelMonitoringService,
+  backupService,
+  notificationService,
+}: ScheduledTaskServices): ScheduledTaskDefinition[] {
+  return [
+    {
+      id: 'history-sync',
+      name: 'Scrobble history sync',
+      description: 'Fetch new scrobbles from Last.fm',
+      defaults: { schedule: '15 * * * *', jitterMinutes: 10 },
+      usesDiscogs: false,
+      run: async () => {
+        const { sessionKey } = await authService.getLastFmCredentials();
+        if (!sessionKey) return 'Last.fm is not connected';
+
+        await syncService.startIncrementalSync();
+        return 'History synced';
+      },
+    },
+    {
+      id: 'wishlist-sync',
+      name: 'Wishlist sync',
+      description: 'Refresh the Discogs wantlist and vinyl availability',
+      defaults: { schedule: '0 4 * * *', jitterMinutes: 30 },
+      usesDiscogs: true,
+      run: async () => {
+        const { discogs } = await authService.getUserSettings();
+        if (!discogs.username) return 'Discogs is not connected';
+
+        const status = await wishlistService.syncWishlist(discogs.username);
+        if (status.status === 'error') {
+          throw new Error(status.error || 'Wishlist sync failed');
+        }
+        return 'Wishlist synced';
+      },
+    },
+    {
+      id: 'new-release-check',
+      name: 'New pressings check',
+      description: 'Look for new vinyl pressings of wishlist items',
+      defaults: { schedule: '0 5 * * 1', jitterMinutes: 30 },
+      usesDiscogs: true,
+      run: async () => {
+        const settings = await wishlistService.getSettings();
+        if (!settings.newReleaseTracking?.enabled) {
+          return 'New release tracking is turned off';
+        }
+
+        const found = await wishlistService.checkForNewReleases();
+        return `${found.length} new pressings found`;
+      },
+    },
+    {
+      id: 'seller-scan',
+      name: 'Local seller scan',
+      description:
+        'Check monitored sellers for wishlist items. Sellers are fully ' +
+        'rescanned or quick-checked based on the seller scan settings.',
+      defaults: { schedule: '0 */6 * * *', jitterMinutes: 20 },
+      usesDiscogs: true,
+      run: async () => {
+        if ((await sellerMonitoringService.getSellers()).length === 0) {
+          return 'No sellers to scan';
+        }
+
+        await sellerMonitoringService.startScan();
+        await sellerMonitoringService.waitForScan();
+        const status = await sellerMonitoringService.getScanStatus();
+        if (status.status === 'error') {
+          throw new Error(status.error || 'Seller scan failed');
+        }
+        return `${status.newMatches} new matches`;
+      },
+    },
+    {
+      id: 'label-scan',
+      name: 'Label scan',
+      description: 'Look for new releases on monitored labels',
+      defaults: { schedule: '0 6 * * *', jitterMinutes: 30 },
+      usesDiscogs: true,
+      run: async () => {
+        if ((await labelMonitoringService.getLabels()).length === 0) {
+          return 'No labels to scan';
+        }
+
+        await labelMonitoringService.startScan();
+        await labelMonitoringService.waitForScan();
+        const status = await labelMonitoringService.getScanStatus();
+        if (status.status === 'error') {
+          throw new Error(status.error || 'Label scan failed');
+        }
+        return `${status.releasesFound ?? 0} new releases`;
+      },
+    },
+    {
+      id: 'auto-backup',
+      name: 'Automatic backup',
+      description:
+        'Write a backup when one is due under the backup frequency setting',
+      defaults: { schedule: '0 */6 * * *' },
+      usesDiscogs: false,
+      run: async () => {
+        try {
+          await backupService.runAutoBackup();
+        } catch (error) {
+          notificationService.raise({
+            type: 'backup-failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          throw error;
+        }
+      },
+    },
+  ];
+}
@@ -0,0 +1,330 @@
+/**
+ * Scheduler Service - runs periodic work (history sync, wishlist sync,
+ * seller/label scans, backups) on cron-like schedules.
+ *
+ * Tasks are registered at startup with a default schedule; the user can
+ * change the schedule, jitter and catch-up behaviour per task. The next run
+ * time is persisted, so a run missed while the machine slept or the server
+ * was stopped is made up once (if the task catches up) instead of silently
+ * skipped. Tasks that call Discogs share one budget: only one runs at a
+ * time, and none starts while the rate-limit window is nearly used up.
+ */
+
+import {
+  ScheduledTask,
+  ScheduledTaskId,
+  ScheduledTaskSettings,
+  ScheduledTaskState,
+  SchedulerSettings,
+  SchedulerStore,
+} from '../../shared/types';
+import { nextCronTime, parseCron } from '../utils/cron';
+import { getRateLimitState, withDiscogsPriority } from '../utils/discogsAxios';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import { EventStreamService } from './eventStreamService';
+
+const SCHEDULE_FILE = 'scheduler/schedule.json';
+
+// How often due tasks are checked for
+const TICK_INTERVAL_MS = 30 * 1000;
+
+// A run this late was missed (sleep, restart) rather than just delayed
+const MISSED_RUN_GRACE_MS = 5 * 60 * 1000;
+
+// Discogs reports the remaining requests per 60-second window
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+const DEFAULT_SETTINGS: SchedulerSettings = {
+  discogsMinRemaining: 20,
+};
+
+export interface ScheduledTaskDefinition {
+  id: ScheduledTaskId;
+  name: string;
+  description: string;
+  defaults: Partial<ScheduledTaskSettings> & { schedule: string };
+  usesDiscogs: boolean;
+  /** Resolves with a completion message, if any, once the work has finished. */
+  run: () => Promise<string | void>;
+}
+
+export class SchedulerService {
+  private fileStorage: FileStorage;
+  private definitions: Map<ScheduledTaskId, ScheduledTaskDefinition> =
+    new Map();
+  private states: Map<ScheduledTaskId, ScheduledTaskState> = new Map();
+  private settings: SchedulerSettings = { ...DEFAULT_SETTINGS };
+  private running: Set<ScheduledTaskId> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private loaded: Promise<void> | null = null;
+  private logger = createLogger('SchedulerService');
+
+  private eventStreamService: EventStreamService | null = null;
+
+  constructor(fileStorage: FileStorage) {
+    this.fileStorage = fileStorage;
+  }
+
+  /** Optional: publishes task state to the profile's event stream. */
+  setEventStreamService(service: EventStreamService): void {
+    this.eventStreamService = service;
+  }
+
+  register(definition: ScheduledTaskDefinition): void {
+    // Fail at startup rather than on the first tick
+    parseCron(definition.defaults.schedule);
+    this.definitions.set(definition.id, definition);
+  }
+
+  /**
+   * Load saved schedules and start checking for due tasks.
+   */
+  async start(): Promise<void> {
+    await this.load();
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        this.logger.error('Scheduler tick failed', error);
+      });
+    }, TICK_INTERVAL_MS);
+    this.timer.unref?.();
+
+    this.logger.info(`Scheduler started with ${this.definitions.size} tasks`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getTasks(): Promise<ScheduledTask[]> {
+    await this.load();
+    return Array.from(this.definitions.keys()).map(id => this.toTask(id));
+  }
+
+  async getSettings(): Promise<SchedulerSettings> {
+    await this.load();
+    return { ...this.settings };
+  }
+
+  async updateSettings(
+    updates: Partial<SchedulerSettings>
+  ): Promise<SchedulerSettings> {
+    await this.load();
+    this.settings = { ...this.settings, ...updates };
+    await this.save();
+    return { ...this.settings };
+  }
+
+  /**
+   * Change a task's settings. Throws CronError for an invalid schedule;
+   * returns null for an unknown task.
+   */
+  async updateTask(
+    id: ScheduledTaskId,
+    updates: Partial<ScheduledTaskSettings>
+  ): Promise<ScheduledTask | null> {
+    await this.load();
+    const state = this.states.get(id);
+    if (!state) return null;
+
+    if (updates.schedule !== undefined) {
+      parseCron(updates.schedule);
+    }
+
+    const updated: ScheduledTaskState = { ...state, ...updates };
+    updated.nextRunAt = this.computeNextRun(updated, Date.now());
+    this.states.set(id, updated);
+    await this.save();
+    this.publish(id);
+    return this.toTask(id);
+  }
+
+  /**
+   * Start a task now, whatever its schedule. Returns false if the task is
+   * unknown or already running; the run itself continues in the background.
+   */
+  async runNow(id: ScheduledTaskId): Promise<boolean> {
+    await this.load();
+    if (!this.definitions.has(id) || this.running.has(id)) return false;
+
+    this.execute(id).catch(error => {
+      this.logger.error(`Manual run of ${id} failed`, error);
+    });
+    return true;
+  }
+
+  /**
+   * Start every task that is due. Resolves once the tasks started by this
+   * tick have finished.
+   */
+  async tick(now: number = Date.now()): Promise<void> {
+    await this.load();
+    const started: Promise<void>[] = [];
+
+    for (const [id, definition] of this.definitions) {
+      const state = this.states.get(id)!;
+      if (!state.enabled || this.running.has(id)) continue;
+      if (state.nextRunAt === undefined || state.nextRunAt > now) continue;
+
+      if (!state.catchUp && now - state.nextRunAt > MISSED_RUN_GRACE_MS) {
+        this.logger.info(`Skipping missed run of ${id}`);
+        state.nextRunAt = this.computeNextRun(state, now);
+        await this.save();
+        this.publish(id);
+        continue;
+      }
+
+      if (definition.usesDiscogs && !this.hasDiscogsBudget()) {
+        // Stays due; checked again on the next tick
+        this.logger.debug(`Deferring ${id} until Discogs budget frees up`);
+        continue;
+      }
+
+      started.push(this.execute(id));
+    }
+
+    await Promise.all(started);
+  }
+
+  /**
+   * Whether another Discogs task may start: none is running and the
+   * current rate-limit window has enough requests left.
+   */
+  private hasDiscogsBudget(): boolean {
+    const discogsRunning = Array.from(this.running).some(
+      id => this.definitions.get(id)?.usesDiscogs
+    );
+    if (discogsRunning) return false;
+
+    const rateLimit = getRateLimitState();
+    if (rateLimit.isThrottled) return false;
+    const fresh = Date.now() - rateLimit.lastUpdated < RATE_LIMIT_WINDOW_MS;
+    return !fresh || rateLimit.remaining >= this.settings.discogsMinRemaining;
+  }
+
+  private async execute(id: ScheduledTaskId): Promise<void> {
+    const definition = this.definitions.get(id)!;
+    const startedAt = Date.now();
+    this.running.add(id);
+    this.publish(id);
+
+    let status: ScheduledTaskState['lastStatus'];
+    let message: string | undefined;
+    try {
+      message =
+        (await withDiscogsPriority('background', definition.run)) || undefined;
+      status = 'completed';
+    } catch (error) {
+      message = error instanceof Error ? error.message : 'Unknown error';
+      status = 'failed';
+      this.logger.warn(`Scheduled task ${id} failed: ${message}`);
+    } finally {
+      this.running.delete(id);
+    }
+
+    const state = this.states.get(id)!;
+    const finishedAt = Date.now();
+    Object.assign(state, {
+      lastRunAt: startedAt,
+      lastStatus: status,
+      lastMessage: message,
+      lastDurationMs: finishedAt - startedAt,
+      nextRunAt: this.computeNextRun(state, finishedAt),
+    });
+
+    try {
+      await this.save();
+    } catch (error) {
+      this.logger.warn('Failed to save scheduler state', error);
+    }
+    this.publish(id);
+  }
+
+  private computeNextRun(state: ScheduledTaskState, from: number): number {
+    const next = nextCronTime(state.schedule, new Date(from)).getTime();
+    const jitter = Math.floor(Math.random() * state.jitterMinutes * 60 * 1000);
+    return next + jitter;
+  }
+
+  private toTask(id: ScheduledTaskId): ScheduledTask {
+    const definition = this.definitions.get(id)!;
+    return {
+      ...this.states.get(id)!,
+      id,
+      name: definition.name,
+      description: definition.description,
+      usesDiscogs: definition.usesDiscogs,
+      running: this.running.has(id),
+    };
+  }
+
+  private publish(id: ScheduledTaskId): void {
+    this.eventStreamService?.publishNow({
+      type: 'scheduled-task',
+      task: this.toTask(id),
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.loadStore().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async loadStore(): Promise<void> {
+    const store =
+      await this.fileStorage.readJSON<SchedulerStore>(SCHEDULE_FILE);
+    const saved = store?.schemaVersion === 1 ? store : null;
+    if (saved) {
+      this.settings = {
+        discogsMinRemaining:
+          saved.discogsMinRemaining ?? DEFAULT_SETTINGS.discogsMinRemaining,
+      };
+    }
+
+    const now = Date.now();
+    for (const [id, definition] of this.definitions) {
+      const state: ScheduledTaskState = {
+        enabled: true,
+        jitterMinutes: 0,
+        catchUp: true,
+        ...definition.defaults,
+        ...saved?.tasks[id],
+      };
+
+      try {
+        parseCron(state.schedule);
+      } catch {
+        this.logger.warn(`Invalid saved schedule for ${id}, using the default`);
+        state.schedule = definition.defaults.schedule;
+        state.nextRunAt = undefined;
+      }
+
+      // Tasks run for the first time at their next scheduled slot; a saved
+      // run time in the past is handled by tick() as a missed run
+      if (state.nextRunAt === undefined) {
+        state.nextRunAt = this.computeNextRun(state, now);
+      }
+      this.states.set(id, state);
+    }
+  }
+
+  private async save(): Promise<void> {
+    const store: SchedulerStore = {
+      schemaVersion: 1,
+      ...this.settings,
+      tasks: Object.fromEntries(this.states),
+    };
+    await this.fileStorage.writeJSON(SCHEDULE_FILE, store);
+  }
+}
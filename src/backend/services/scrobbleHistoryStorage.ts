@@ -3,9 +3,16 @@ import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { ArtistNameResolver } from './artistNameResolver';
+import { ArtistTotalsRow, IndexMeta, PlayDatabase } from './playDatabase';
 
 const HISTORY_INDEX_FILE = 'history/scrobble-history-index.json';
 
+function toCountMap(
+  rows: Array<{ value: number; count: number }>
+): Map<number, number> {
+  return new Map(rows.map(({ value, count }) => [value, count]));
+}
+
 /**
  * Service for reading and querying the scrobble history index.
  * The index is written by ScrobbleHistorySyncService.
@@ -26,11 +33,46 @@ export class ScrobbleHistoryStorage {
   private cachedDayOfWeekDist: Map<number, number> | null = null;
 
   private artistNameResolver: ArtistNameResolver | null = null;
+  // Set when the history lives in SQLite instead of the JSON index
+  private playDatabase: PlayDatabase | null = null;
 
   constructor(fileStorage: FileStorage) {
     this.fileStorage = fileStorage;
   }
 
+  setPlayDatabase(playDatabase: PlayDatabase): void {
+    this.playDatabase = playDatabase;
+    this.invalidateCache();
+  }
+
+  /**
+   * One-time move of the JSON index into the play database. The JSON file
+   * is backed up and removed so it can't drift from the database; the
+   * index can be exported as JSON again at any time.
+   * Returns the number of plays moved, or null if there was nothing to move.
+   */
+  async migrateJsonIndexToDatabase(): Promise<number | null> {
+    if (!this.playDatabase || this.playDatabase.hasIndex()) return null;
+
+    const index =
+      await this.fileStorage.readJSON<ScrobbleHistoryIndex>(HISTORY_INDEX_FILE);
+    if (!index) return null;
+
+    this.playDatabase.writeIndex(index);
+    const backupPath = await this.fileStorage.createBackup(HISTORY_INDEX_FILE);
+    await this.fileStorage.delete(HISTORY_INDEX_FILE);
+    this.invalidateCache();
+
+    const plays = Object.values(index.albums).reduce(
+      (sum, entry) => sum + entry.plays.length,
+      0
+    );
+    this.logger.info(
+      `Moved ${plays} plays from the JSON history index to SQLite (JSON backup: ${backupPath ?? 'none'})`
+    );
+    return plays;
+  }
+
   setArtistNameResolver(resolver: ArtistNameResolver): void {
     this.artistNameResolver = resolver;
   }
@@ -175,6 +217,15 @@ export class ScrobbleHistoryStorage {
 
   /**
    * Get the full history index (with caching)
+   *
+   * With a play database this reads every play into memory, so the single
+   * album lookups, totals, distributions and history browser pages here
+   * query SQL instead. Callers that need all album keys or walk every play
+   * are meant to keep the full load: fuzzy matching (getAlbumHistoryFuzzy,
+   * batchLookup and the lookups built on them), getAllAlbums, and the
+   * analyses in StatsService, WrappedService, GenreAnalysisService,
+   * ListeningPatternService, SessionReconstructionService and
+   * RankingsService.
    */
   async getIndex(): Promise<ScrobbleHistoryIndex | null> {
     const now = Date.now();
@@ -183,10 +234,11 @@ export class ScrobbleHistoryStorage {
     }
 
     try {
-      const index =
-        await this.fileStorage.readJSON<ScrobbleHistoryIndex>(
-          HISTORY_INDEX_FILE
-        );
+      const index = this.playDatabase
+        ? this.playDatabase.readIndex()
+        : await this.fileStorage.readJSON<ScrobbleHistoryIndex>(
+            HISTORY_INDEX_FILE
+          );
       if (index) {
         this.cachedIndex = index;
         this.cacheTimestamp = now;
@@ -213,11 +265,19 @@ export class ScrobbleHistoryStorage {
     this.cachedDayOfWeekDist = null;
   }
 
+  /**
+   * The index's sync fields and totals; only these are read from a play
+   * database.
+   */
+  private async getIndexMeta(): Promise<IndexMeta | null> {
+    return this.playDatabase ? this.playDatabase.readMeta() : this.getIndex();
+  }
+
   /**
    * Check if index exists
    */
   async hasIndex(): Promise<boolean> {
-    const index = await this.getIndex();
+    const index = await this.getIndexMeta();
     return index !== null;
   }
 
@@ -225,7 +285,7 @@ export class ScrobbleHistoryStorage {
    * Get total scrobble count
    */
   async getTotalScrobbles(): Promise<number> {
-    const index = await this.getIndex();
+    const index = await this.getIndexMeta();
     return index?.totalScrobbles || 0;
   }
 
@@ -233,7 +293,7 @@ export class ScrobbleHistoryStorage {
    * Get last sync timestamp
    */
   async getLastSyncTimestamp(): Promise<number | null> {
-    const index = await this.getIndex();
+    const index = await this.getIndexMeta();
     return index?.lastSyncTimestamp || null;
   }
 
@@ -241,7 +301,7 @@ export class ScrobbleHistoryStorage {
    * Get oldest scrobble date
    */
   async getOldestScrobbleDate(): Promise<Date | null> {
-    const index = await this.getIndex();
+    const index = await this.getIndexMeta();
     if (!index?.oldestScrobbleDate) {
       return null;
     }
@@ -255,12 +315,16 @@ export class ScrobbleHistoryStorage {
     artist: string,
     album: string
   ): Promise<AlbumHistoryEntry | null> {
+    const key = this.normalizeKey(artist, album);
+    if (this.playDatabase) {
+      return this.playDatabase.readAlbum(key);
+    }
+
     const index = await this.getIndex();
     if (!index) {
       return null;
     }
 
-    const key = this.normalizeKey(artist, album);
     return index.albums[key] || null;
   }
 
@@ -581,6 +645,15 @@ export class ScrobbleHistoryStorage {
       lastPlayed: number;
     }>
   > {
+    if (this.playDatabase) {
+      return this.playDatabase.getAlbumPage({
+        page: 1,
+        perPage: limit,
+        sortBy: 'playCount',
+        sortOrder: 'desc',
+      }).items;
+    }
+
     const albums = await this.getAllAlbums();
     return albums
       .sort((a, b) => b.history.playCount - a.history.playCount)
@@ -604,6 +677,17 @@ export class ScrobbleHistoryStorage {
       lastPlayed: number;
     }>
   > {
+    if (this.playDatabase) {
+      return this.playDatabase
+        .getAlbumPage({
+          page: 1,
+          perPage: limit,
+          sortBy: 'lastPlayed',
+          sortOrder: 'desc',
+        })
+        .items.filter(a => a.lastPlayed > 0);
+    }
+
     const albums = await this.getAllAlbums();
     return albums
       .filter(a => a.history.lastPlayed > 0)
@@ -623,28 +707,24 @@ export class ScrobbleHistoryStorage {
   async getUniqueArtists(): Promise<
     Map<string, { playCount: number; albumCount: number; lastPlayed: number }>
   > {
-    const albums = await this.getAllAlbums();
+    const totals = await this.getArtistTotals();
     const artists = new Map<
       string,
       { playCount: number; albumCount: number; lastPlayed: number }
     >();
 
-    for (const { artist, history } of albums) {
+    for (const { artist, playCount, albumCount, lastPlayed } of totals) {
       const keys = this.resolveArtistNames(artist);
       for (const key of keys) {
         const existing = artists.get(key);
         if (existing) {
-          existing.playCount += history.playCount;
-          existing.albumCount++;
-          if (history.lastPlayed > existing.lastPlayed) {
-            existing.lastPlayed = history.lastPlayed;
+          existing.playCount += playCount;
+          existing.albumCount += albumCount;
+          if (lastPlayed > existing.lastPlayed) {
+            existing.lastPlayed = lastPlayed;
           }
         } else {
-          artists.set(key, {
-            playCount: history.playCount,
-            albumCount: 1,
-            lastPlayed: history.lastPlayed,
-          });
+          artists.set(key, { playCount, albumCount, lastPlayed });
         }
       }
     }
@@ -652,10 +732,37 @@ export class ScrobbleHistoryStorage {
     return artists;
   }
 
+  /**
+   * Totals per index artist from the database, or per album from the JSON
+   * index; callers merge them by resolved artist.
+   */
+  private async getArtistTotals(): Promise<ArtistTotalsRow[]> {
+    if (this.playDatabase) {
+      return this.playDatabase.getArtistTotals();
+    }
+    return (await this.getAllAlbums()).map(({ artist, history }) => ({
+      artist,
+      playCount: history.playCount,
+      albumCount: 1,
+      lastPlayed: history.lastPlayed,
+    }));
+  }
+
   /**
    * Get decade distribution from listening history
    */
   async getDecadeDistribution(): Promise<Map<number, number>> {
+    if (this.playDatabase) {
+      const decades = new Map<number, number>();
+      for (const { value, count } of this.playDatabase.getLocalTimePlayCounts(
+        'year'
+      )) {
+        const decade = Math.floor(value / 10) * 10;
+        decades.set(decade, (decades.get(decade) || 0) + count);
+      }
+      return decades;
+    }
+
     const index = await this.getIndex();
     if (!index) {
       return new Map();
@@ -694,6 +801,9 @@ export class ScrobbleHistoryStorage {
     if (this.cachedHourlyDist) {
       return this.cachedHourlyDist;
     }
+    if (this.playDatabase) {
+      return toCountMap(this.playDatabase.getLocalTimePlayCounts('hour'));
+    }
 
     const index = await this.getIndex();
     if (!index) {
@@ -731,6 +841,9 @@ export class ScrobbleHistoryStorage {
     if (this.cachedDayOfWeekDist) {
       return this.cachedDayOfWeekDist;
     }
+    if (this.playDatabase) {
+      return toCountMap(this.playDatabase.getLocalTimePlayCounts('weekday'));
+    }
 
     const index = await this.getIndex();
     if (!index) {
@@ -774,6 +887,17 @@ export class ScrobbleHistoryStorage {
     totalPages: number;
     page: number;
   }> {
+    if (this.playDatabase) {
+      const { items, total } = this.playDatabase.getAlbumPage({
+        page,
+        perPage,
+        sortBy,
+        sortOrder,
+        searchQuery,
+      });
+      return { items, total, totalPages: Math.ceil(total / perPage), page };
+    }
+
     const allAlbums = await this.getAllAlbums();
 
     // Filter by search query if provided
@@ -848,7 +972,7 @@ export class ScrobbleHistoryStorage {
     totalPages: number;
     page: number;
   }> {
-    const allAlbums = await this.getAllAlbums();
+    const totals = await this.getArtistTotals();
 
     // Aggregate by artist, preserving first-seen casing
     const artistMap = new Map<
@@ -861,15 +985,15 @@ export class ScrobbleHistoryStorage {
       }
     >();
 
-    for (const { artist, history } of allAlbums) {
+    for (const { artist, playCount, albumCount, lastPlayed } of totals) {
       const keys = this.resolveArtistNames(artist);
       for (const key of keys) {
         const existing = artistMap.get(key);
         if (existing) {
-          existing.playCount += history.playCount;
-          existing.albumCount++;
-          if (history.lastPlayed > existing.lastPlayed) {
-            existing.lastPlayed = history.lastPlayed;
+          existing.playCount += playCount;
+          existing.albumCount += albumCount;
+          if (lastPlayed > existing.lastPlayed) {
+            existing.lastPlayed = lastPlayed;
           }
         } else {
           const displayName = this.artistNameResolver
@@ -877,9 +1001,9 @@ export class ScrobbleHistoryStorage {
             : artist;
           artistMap.set(key, {
             artist: displayName,
-            playCount: history.playCount,
-            albumCount: 1,
-            lastPlayed: history.lastPlayed,
+            playCount,
+            albumCount,
+            lastPlayed,
           });
         }
       }
@@ -957,6 +1081,17 @@ export class ScrobbleHistoryStorage {
     totalPages: number;
     page: number;
   }> {
+    if (this.playDatabase) {
+      const { items, total } = this.playDatabase.getTrackPage({
+        page,
+        perPage,
+        sortBy,
+        sortOrder,
+        searchQuery,
+      });
+      return { items, total, totalPages: Math.ceil(total / perPage), page };
+    }
+
     const index = await this.getIndex();
     if (!index) {
       return { items: [], total: 0, totalPages: 0, page };
@@ -1063,9 +1198,28 @@ export class ScrobbleHistoryStorage {
     lastSync: Date | null;
     estimatedSizeBytes: number;
   }> {
-    const index = await this.getIndex();
+    let meta: IndexMeta | null;
+    let totalAlbums = 0;
+    let newestTimestamp = 0;
+    if (this.playDatabase) {
+      meta = this.playDatabase.readMeta();
+      const summary = this.playDatabase.getAlbumSummary();
+      totalAlbums = summary.albumCount;
+      newestTimestamp = summary.lastPlayed ?? 0;
+    } else {
+      const index = await this.getIndex();
+      meta = index;
+      if (index) {
+        totalAlbums = Object.keys(index.albums).length;
+        for (const history of Object.values(index.albums)) {
+          if (history.lastPlayed > newestTimestamp) {
+            newestTimestamp = history.lastPlayed;
+          }
+        }
+      }
+    }
 
-    if (!index) {
+    if (!meta) {
       return {
         totalAlbums: 0,
         totalScrobbles: 0,
@@ -1076,25 +1230,18 @@ export class ScrobbleHistoryStorage {
       };
     }
 
-    let newestTimestamp = 0;
-    for (const history of Object.values(index.albums)) {
-      if (history.lastPlayed > newestTimestamp) {
-        newestTimestamp = history.lastPlayed;
-      }
-    }
-
     // Rough estimate: ~100 bytes per scrobble entry
-    const estimatedSize = index.totalScrobbles * 100;
+    const estimatedSize = meta.totalScrobbles * 100;
 
     return {
-      totalAlbums: Object.keys(index.albums).length,
-      totalScrobbles: index.totalScrobbles,
-      oldestScrobble: index.oldestScrobbleDate
-        ? new Date(index.oldestScrobbleDate * 1000)
+      totalAlbums,
+      totalScrobbles: meta.totalScrobbles,
+      oldestScrobble: meta.oldestScrobbleDate
+        ? new Date(meta.oldestScrobbleDate * 1000)
         : null,
       newestScrobble: newestTimestamp ? new Date(newestTimestamp * 1000) : null,
-      lastSync: index.lastSyncTimestamp
-        ? new Date(index.lastSyncTimestamp)
+      lastSync: meta.lastSyncTimestamp
+        ? new Date(meta.lastSyncTimestamp)
         : null,
       estimatedSizeBytes: estimatedSize,
     };
@@ -6,12 +6,19 @@ import {
   SyncStatus,
   SyncSettings,
   ScrobbleHistoryIndex,
+  ScrobbleHistoryEntry,
   AlbumHistoryEntry,
+  ScrobbleSession,
+  ScrobbleSource,
 } from '../../shared/types';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { AuthService } from './authService';
+import { EventStreamService } from './eventStreamService';
+import { JobReport, JobService } from './jobService';
+import { HISTORY_INDEX_SCHEMA_VERSION } from './migrationService';
+import { AppendedPlay, PlayDatabase } from './playDatabase';
 import { ScrobbleHistoryStorage } from './scrobbleHistoryStorage';
 
 /**
@@ -34,7 +41,10 @@ interface LastFmTrack {
 
 const HISTORY_INDEX_FILE = 'history/scrobble-history-index.json';
 const SYNC_SETTINGS_FILE = 'history/sync-settings.json';
+const REVERTED_SCROBBLES_FILE = 'history/reverted-scrobbles.json';
 const SCROBBLES_PER_PAGE = 200; // Last.fm max per page
+// Last.fm can store a scrobble a few seconds off the time it was sent with
+const SOURCE_MATCH_TOLERANCE_SECONDS = 5;
 
 export class ScrobbleHistorySyncService extends EventEmitter {
   private axios: AxiosInstance;
@@ -42,6 +52,8 @@ export class ScrobbleHistorySyncService extends EventEmitter {
   private authService: AuthService;
   private historyStorage: ScrobbleHistoryStorage | null = null;
   private statsWarmer: StatsCacheWarmer | null = null;
+  // Set when the history lives in SQLite instead of the JSON index
+  private playDatabase: PlayDatabase | null = null;
   private baseUrl = 'https://ws.audioscrobbler.com/2.0/';
   private logger = createLogger('ScrobbleHistorySyncService');
 
@@ -62,6 +74,17 @@ export class ScrobbleHistorySyncService extends EventEmitter {
   private isSyncing = false;
   private isPaused = false;
   private syncAbortController: AbortController | null = null;
+  private syncJobId: string | null = null;
+  // Plays taken back with an undo, kept out of the index by later syncs
+  // until the user has deleted them from Last.fm
+  private revertedScrobbles: Set<string> = new Set();
+  // Timestamps of plays scrobbled through the app, sorted, for tagging
+  // synced plays with their source
+  private sessionSources: Array<{ timestamp: number; source: ScrobbleSource }> =
+    [];
+
+  private eventStreamService: EventStreamService | null = null;
+  private jobService: JobService | null = null;
 
   constructor(
     fileStorage: FileStorage,
@@ -80,6 +103,24 @@ export class ScrobbleHistorySyncService extends EventEmitter {
 
     // Load sync settings on init
     this.loadSyncSettings();
+
+    this.on('statusChange', (status: SyncStatus) => {
+      this.reportSyncJob(status);
+      this.eventStreamService?.publish(
+        { type: 'sync-progress', status: { ...status } },
+        'sync-progress'
+      );
+    });
+  }
+
+  /** Optional: publishes sync progress to the profile's event stream. */
+  setEventStreamService(service: EventStreamService): void {
+    this.eventStreamService = service;
+  }
+
+  /** Optional: mirrors syncs onto the profile's job list. */
+  setJobService(service: JobService): void {
+    this.jobService = service;
   }
 
   /**
@@ -92,6 +133,33 @@ export class ScrobbleHistorySyncService extends EventEmitter {
     }
   }
 
+  /**
+   * Mirror the sync status onto the shared job list.
+   */
+  private reportSyncJob(status: SyncStatus): void {
+    if (!this.jobService) return;
+    if (status.status === 'idle' && !this.syncJobId) return;
+
+    const reports: Record<SyncStatus['status'], JobReport> = {
+      syncing: {
+        state: 'running',
+        message: `Syncing scrobble history (${status.scrobblesFetched} scrobbles fetched)`,
+        progress: status.totalPages > 0 ? status.progress : undefined,
+      },
+      completed: { state: 'completed', message: 'Scrobble history synced' },
+      paused: { state: 'cancelled', message: 'History sync paused' },
+      idle: { state: 'cancelled', message: 'History sync cancelled' },
+      error: { state: 'failed', error: status.error },
+    };
+
+    this.syncJobId = this.jobService.report(
+      this.syncJobId,
+      'history-sync',
+      reports[status.status],
+      { onCancel: () => this.cancelSync() }
+    );
+  }
+
   /**
    * Set the history storage instance for cache invalidation
    */
@@ -99,6 +167,13 @@ export class ScrobbleHistorySyncService extends EventEmitter {
     this.historyStorage = historyStorage;
   }
 
+  /**
+   * Store the index in SQLite instead of the JSON file.
+   */
+  setPlayDatabase(playDatabase: PlayDatabase): void {
+    this.playDatabase = playDatabase;
+  }
+
   /**
    * Set the stats cache warmer (StatsService).
    * Called from server.ts after both services are constructed to avoid circular imports.
@@ -123,10 +198,23 @@ export class ScrobbleHistorySyncService extends EventEmitter {
   }
 
   /**
-   * Save index and invalidate storage cache so stats are fresh
+   * Save index and invalidate storage cache so stats are fresh.
+   * Pass `appended` when the only change since the last save is those
+   * plays, so the play database writes just them instead of every play.
    */
-  private async saveIndex(index: ScrobbleHistoryIndex): Promise<void> {
-    await this.fileStorage.writeJSON(HISTORY_INDEX_FILE, index);
+  private async saveIndex(
+    index: ScrobbleHistoryIndex,
+    appended?: AppendedPlay[]
+  ): Promise<void> {
+    if (this.playDatabase) {
+      if (appended) {
+        this.playDatabase.appendPlays(index, appended);
+      } else {
+        this.playDatabase.writeIndex(index);
+      }
+    } else {
+      await this.fileStorage.writeJSON(HISTORY_INDEX_FILE, index);
+    }
     // Invalidate the storage cache so getStorageStats returns fresh data
     if (this.historyStorage) {
       this.historyStorage.invalidateCache();
@@ -161,6 +249,109 @@ export class ScrobbleHistorySyncService extends EventEmitter {
     return { ...this.syncStatus };
   }
 
+  /**
+   * Key for a single play: its timestamp and lowercased track name
+   */
+  private playKey(timestamp: number, track: string): string {
+    return `${timestamp}|${track.toLowerCase().trim()}`;
+  }
+
+  private async loadRevertedScrobbles(): Promise<void> {
+    try {
+      const data = await this.fileStorage.readJSON<{ plays: string[] }>(
+        REVERTED_SCROBBLES_FILE
+      );
+      this.revertedScrobbles = new Set(data?.plays ?? []);
+    } catch {
+      this.revertedScrobbles = new Set();
+    }
+  }
+
+  /**
+   * Collect the plays the app scrobbled from the local session files.
+   * Undone sessions and tracks that never reached Last.fm are left out.
+   */
+  private async loadSessionSources(): Promise<void> {
+    const sources: Array<{ timestamp: number; source: ScrobbleSource }> = [];
+    try {
+      const files = await this.fileStorage.listFiles('scrobbles');
+      for (const file of files) {
+        if (!file.startsWith('session-')) continue;
+        const session = await this.fileStorage.readJSON<ScrobbleSession>(
+          `scrobbles/${file}`
+        );
+        if (!session || session.status === 'reverted') continue;
+
+        for (const track of session.tracks) {
+          if (
+            track.timestamp &&
+            track.scrobbleStatus !== 'failed' &&
+            track.scrobbleStatus !== 'ignored'
+          ) {
+            sources.push({
+              timestamp: track.timestamp,
+              source: session.source ?? 'app',
+            });
+          }
+        }
+      }
+    } catch {
+      // Without session files every play counts as external
+    }
+    this.sessionSources = sources.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Source of a play: that of the closest session track within the match
+   * tolerance, or 'external' if nothing the app scrobbled matches.
+   */
+  private matchPlaySource(timestamp: number): ScrobbleSource {
+    const sources = this.sessionSources;
+    let left = 0;
+    let right = sources.length - 1;
+    while (left <= right) {
+      const mid = Math.floor((left + right) / 2);
+      if (sources[mid].timestamp < timestamp) {
+        left = mid + 1;
+      } else {
+        right = mid - 1;
+      }
+    }
+
+    // left is the first session play at or after the timestamp
+    let best: { timestamp: number; source: ScrobbleSource } | undefined;
+    for (const candidate of [sources[left - 1], sources[left]]) {
+      if (
+        candidate &&
+        Math.abs(candidate.timestamp - timestamp) <=
+          SOURCE_MATCH_TOLERANCE_SECONDS &&
+        (!best ||
+          Math.abs(candidate.timestamp - timestamp) <
+            Math.abs(best.timestamp - timestamp))
+      ) {
+        best = candidate;
+      }
+    }
+    return best?.source ?? 'external';
+  }
+
+  /**
+   * Tag every play in the index with its source, for indexes migrated from
+   * before plays had one. Call loadSessionSources() first.
+   */
+  private tagAllPlays(index: ScrobbleHistoryIndex): number {
+    let tagged = 0;
+    for (const entry of Object.values(index.albums)) {
+      for (const play of entry.plays) {
+        play.source = this.matchPlaySource(play.timestamp);
+        tagged++;
+      }
+    }
+    delete index.needsSourceTagging;
+    index.schemaVersion = HISTORY_INDEX_SCHEMA_VERSION;
+    return tagged;
+  }
+
   /**
    * Normalize artist|album key for consistent matching
    */
@@ -225,15 +416,22 @@ export class ScrobbleHistorySyncService extends EventEmitter {
   }
 
   /**
-   * Process a batch of scrobbles and update the index
+   * Process a batch of scrobbles and update the index. Plays whose
+   * timestamp is in knownTimestamps are already indexed and are skipped.
    * Returns { processed: number, newestTimestamp: number }
    */
   private processScrobbles(
     tracks: LastFmTrack[],
-    index: ScrobbleHistoryIndex
-  ): { processed: number; newestTimestamp: number } {
+    index: ScrobbleHistoryIndex,
+    knownTimestamps?: Set<number>
+  ): {
+    processed: number;
+    newestTimestamp: number;
+    appended: AppendedPlay[];
+  } {
     let processed = 0;
     let newestTimestamp = 0;
+    const appended: AppendedPlay[] = [];
 
     for (const track of tracks) {
       // Skip currently playing tracks (they don't have a date)
@@ -259,6 +457,15 @@ export class ScrobbleHistorySyncService extends EventEmitter {
         newestTimestamp = timestamp;
       }
 
+      // Undone plays stay out until they're deleted from Last.fm
+      if (this.revertedScrobbles.has(this.playKey(timestamp, trackName))) {
+        continue;
+      }
+
+      if (knownTimestamps?.has(timestamp)) {
+        continue;
+      }
+
       const key = this.normalizeKey(artist, album);
 
       if (!index.albums[key]) {
@@ -270,8 +477,14 @@ export class ScrobbleHistorySyncService extends EventEmitter {
       }
 
       const entry = index.albums[key];
+      const play: ScrobbleHistoryEntry = {
+        timestamp,
+        track: trackName,
+        source: this.matchPlaySource(timestamp),
+      };
       entry.playCount++;
-      entry.plays.push({ timestamp, track: trackName });
+      entry.plays.push(play);
+      appended.push({ albumKey: key, play });
 
       // Update lastPlayed if this is more recent
       if (timestamp > entry.lastPlayed) {
@@ -289,7 +502,7 @@ export class ScrobbleHistorySyncService extends EventEmitter {
       processed++;
     }
 
-    return { processed, newestTimestamp };
+    return { processed, newestTimestamp, appended };
   }
 
   /**
@@ -305,6 +518,8 @@ export class ScrobbleHistorySyncService extends EventEmitter {
     this.isSyncing = true;
     this.isPaused = false;
     this.syncAbortController = new AbortController();
+    await this.loadRevertedScrobbles();
+    await this.loadSessionSources();
 
     // Invalidate stale overview cache at sync start so reads fall back to live computation
     if (this.statsWarmer) {
@@ -317,6 +532,7 @@ export class ScrobbleHistorySyncService extends EventEmitter {
     }
 
     const index: ScrobbleHistoryIndex = {
+      schemaVersion: HISTORY_INDEX_SCHEMA_VERSION,
       lastSyncTimestamp: Date.now(),
       totalScrobbles: 0,
       oldestScrobbleDate: 0,
@@ -358,6 +574,7 @@ export class ScrobbleHistorySyncService extends EventEmitter {
       // Use the newest scrobble timestamp (in ms) for accurate sync tracking
       index.lastSyncTimestamp = newestScrobbleTimestamp * 1000;
       await this.saveIndex(index);
+      let unsaved: AppendedPlay[] = [];
 
       // Fetch remaining pages
       for (let page = 2; page <= totalPages; page++) {
@@ -370,6 +587,8 @@ export class ScrobbleHistorySyncService extends EventEmitter {
 
         if (this.syncAbortController?.signal.aborted) {
           this.logger.info('Sync aborted');
+          this.syncStatus.status = 'idle';
+          this.emit('statusChange', this.syncStatus);
           return;
         }
 
@@ -381,6 +600,7 @@ export class ScrobbleHistorySyncService extends EventEmitter {
         try {
           const pageData = await this.fetchScrobblePage(page);
           const pageResult = this.processScrobbles(pageData.tracks, index);
+          unsaved = unsaved.concat(pageResult.appended);
           processedCount += pageResult.processed;
           if (pageResult.newestTimestamp > newestScrobbleTimestamp) {
             newestScrobbleTimestamp = pageResult.newestTimestamp;
@@ -398,7 +618,8 @@ export class ScrobbleHistorySyncService extends EventEmitter {
           // Save progress periodically (every 10 pages)
           if (page % 10 === 0) {
             index.lastSyncTimestamp = newestScrobbleTimestamp * 1000;
-            await this.saveIndex(index);
+            await this.saveIndex(index, unsaved);
+            unsaved = [];
             this.logger.debug(`Saved progress at page ${page}/${totalPages}`);
           }
         } catch (error) {
@@ -409,7 +630,7 @@ export class ScrobbleHistorySyncService extends EventEmitter {
 
       // Final save - use the newest scrobble timestamp (in ms) for accurate sync tracking
       index.lastSyncTimestamp = newestScrobbleTimestamp * 1000;
-      await this.saveIndex(index);
+      await this.saveIndex(index, unsaved);
 
       this.syncStatus.status = 'completed';
       this.syncStatus.progress = 100;
@@ -453,6 +674,14 @@ export class ScrobbleHistorySyncService extends EventEmitter {
     this.logger.info('Starting incremental scrobble sync');
     this.isSyncing = true;
     this.isPaused = false;
+    this.syncAbortController = new AbortController();
+    await this.loadRevertedScrobbles();
+    await this.loadSessionSources();
+    // Tagging touches every stored play, so the whole index is rewritten
+    const retagged = !!existingIndex.needsSourceTagging;
+    if (retagged) {
+      this.tagAllPlays(existingIndex);
+    }
 
     // Invalidate stale overview cache at sync start
     if (this.statsWarmer) {
@@ -468,9 +697,20 @@ export class ScrobbleHistorySyncService extends EventEmitter {
       let page = 1;
       let hasMore = true;
       let newScrobbles = 0;
+      let appended: AppendedPlay[] = [];
       let newestScrobbleTimestamp = existingIndex.lastSyncTimestamp / 1000; // Start with existing (Unix timestamp)
       const lastSyncTime = existingIndex.lastSyncTimestamp / 1000; // Convert to Unix timestamp
 
+      // An imported export can already hold plays after the last sync
+      const knownTimestamps = new Set<number>();
+      for (const entry of Object.values(existingIndex.albums)) {
+        for (const play of entry.plays) {
+          if (play.timestamp > lastSyncTime) {
+            knownTimestamps.add(play.timestamp);
+          }
+        }
+      }
+
       this.syncStatus = {
         status: 'syncing',
         progress: 0,
@@ -486,6 +726,14 @@ export class ScrobbleHistorySyncService extends EventEmitter {
           setTimeout(resolve, this.getRequestDelay())
         );
 
+        // Nothing is saved until the end, so the next sync starts over
+        if (this.syncAbortController?.signal.aborted) {
+          this.logger.info('Incremental sync aborted');
+          this.syncStatus.status = 'idle';
+          this.emit('statusChange', this.syncStatus);
+          return;
+        }
+
         const pageData = await this.fetchScrobblePage(page);
 
         // Check if we've reached scrobbles older than our last sync
@@ -503,14 +751,24 @@ export class ScrobbleHistorySyncService extends EventEmitter {
             const ts = parseInt(track.date?.uts || '0', 10);
             return ts > lastSyncTime;
           });
-          const result = this.processScrobbles(newTracks, existingIndex);
+          const result = this.processScrobbles(
+            newTracks,
+            existingIndex,
+            knownTimestamps
+          );
+          appended = appended.concat(result.appended);
           newScrobbles += result.processed;
           if (result.newestTimestamp > newestScrobbleTimestamp) {
             newestScrobbleTimestamp = result.newestTimestamp;
           }
           hasMore = false;
         } else {
-          const result = this.processScrobbles(pageData.tracks, existingIndex);
+          const result = this.processScrobbles(
+            pageData.tracks,
+            existingIndex,
+            knownTimestamps
+          );
+          appended = appended.concat(result.appended);
           newScrobbles += result.processed;
           if (result.newestTimestamp > newestScrobbleTimestamp) {
             newestScrobbleTimestamp = result.newestTimestamp;
@@ -532,7 +790,7 @@ export class ScrobbleHistorySyncService extends EventEmitter {
       // This ensures we don't skip scrobbles made after sync started but with timestamps before Date.now()
       existingIndex.lastSyncTimestamp = newestScrobbleTimestamp * 1000;
       existingIndex.totalScrobbles += newScrobbles;
-      await this.saveIndex(existingIndex);
+      await this.saveIndex(existingIndex, retagged ? undefined : appended);
 
       this.syncStatus.status = 'completed';
       this.syncStatus.lastSyncTimestamp = existingIndex.lastSyncTimestamp;
@@ -553,6 +811,17 @@ export class ScrobbleHistorySyncService extends EventEmitter {
       throw error;
     } finally {
       this.isSyncing = false;
+      this.syncAbortController = null;
+    }
+  }
+
+  /**
+   * Stop an ongoing sync. Pages already saved by a full sync are kept.
+   */
+  cancelSync(): void {
+    if (this.isSyncing) {
+      this.syncAbortController?.abort();
+      this.logger.info('Sync cancellation requested');
     }
   }
 
@@ -588,7 +857,11 @@ export class ScrobbleHistorySyncService extends EventEmitter {
       this.isSyncing = false;
     }
 
-    await this.fileStorage.delete(HISTORY_INDEX_FILE);
+    if (this.playDatabase) {
+      this.playDatabase.clear();
+    } else {
+      await this.fileStorage.delete(HISTORY_INDEX_FILE);
+    }
 
     this.syncStatus = {
       status: 'idle',
@@ -603,11 +876,161 @@ export class ScrobbleHistorySyncService extends EventEmitter {
     this.logger.info('History index cleared');
   }
 
+  /**
+   * Whether a full or incremental sync is running.
+   */
+  isSyncInProgress(): boolean {
+    return this.isSyncing;
+  }
+
+  /**
+   * Save an index built outside a sync, such as from an imported export
+   * file, and refresh the stats that depend on it.
+   */
+  async saveImportedIndex(index: ScrobbleHistoryIndex): Promise<void> {
+    if (this.isSyncing) {
+      throw new Error('Cannot save an imported index while a sync is running');
+    }
+
+    await this.loadSessionSources();
+    this.tagAllPlays(index);
+    await this.saveIndex(index);
+    if (this.statsWarmer) {
+      await this.statsWarmer.invalidateStatsCache().catch(err => {
+        this.logger.error('Failed to invalidate stats cache after import', err);
+      });
+    }
+    this.triggerCacheWarm();
+  }
+
+  /**
+   * Tag the plays of an index migrated from before plays had a source, by
+   * matching them against the local scrobble sessions. Does nothing if the
+   * index is already tagged or a sync is running (the sync tags it then).
+   * Returns how many plays were tagged.
+   */
+  async tagPlaySources(): Promise<number> {
+    if (this.isSyncing) return 0;
+
+    const index = await this.getHistoryIndex();
+    if (!index?.needsSourceTagging) return 0;
+
+    await this.loadSessionSources();
+    // A sync may have started while the sessions were read
+    if (this.isSyncing) return 0;
+
+    const tagged = this.tagAllPlays(index);
+    await this.saveIndex(index);
+    if (this.statsWarmer) {
+      await this.statsWarmer.invalidateStatsCache().catch(err => {
+        this.logger.error(
+          'Failed to invalidate stats cache after source tagging',
+          err
+        );
+      });
+    }
+    this.triggerCacheWarm();
+
+    this.logger.info(`Tagged ${tagged} plays with their source`);
+    return tagged;
+  }
+
+  /**
+   * Remove plays from the index, such as those of an undone scrobble
+   * session, and keep later syncs from adding them back. Plays are matched
+   * by timestamp and track name, under their album when the names line up
+   * and anywhere in the index otherwise (Last.fm may have corrected them).
+   * Returns how many plays were removed.
+   */
+  async removeScrobbles(
+    plays: Array<{
+      artist: string;
+      album?: string;
+      track: string;
+      timestamp: number;
+    }>
+  ): Promise<number> {
+    if (this.isSyncing) {
+      throw new Error('Cannot remove scrobbles while a sync is running');
+    }
+    if (plays.length === 0) return 0;
+
+    await this.loadRevertedScrobbles();
+    for (const play of plays) {
+      this.revertedScrobbles.add(this.playKey(play.timestamp, play.track));
+    }
+    await this.fileStorage.writeJSON(REVERTED_SCROBBLES_FILE, {
+      plays: Array.from(this.revertedScrobbles),
+    });
+
+    const index = await this.getHistoryIndex();
+    if (!index) return 0;
+
+    const removeFrom = (key: string, timestamp: number, track: string) => {
+      const entry = index.albums[key];
+      const target = this.playKey(timestamp, track);
+      const playIndex = entry?.plays.findIndex(
+        p => this.playKey(p.timestamp, p.track ?? '') === target
+      );
+      if (!entry || playIndex === undefined || playIndex === -1) return false;
+
+      entry.plays.splice(playIndex, 1);
+      entry.playCount = Math.max(0, entry.playCount - 1);
+      if (entry.plays.length === 0) {
+        delete index.albums[key];
+      } else {
+        entry.lastPlayed = entry.plays.reduce(
+          (latest, p) => Math.max(latest, p.timestamp),
+          0
+        );
+      }
+      return true;
+    };
+
+    let removed = 0;
+    for (const play of plays) {
+      const albumKey = play.album
+        ? this.normalizeKey(play.artist, play.album)
+        : null;
+      const found =
+        (albumKey && removeFrom(albumKey, play.timestamp, play.track)) ||
+        Object.keys(index.albums).some(key =>
+          removeFrom(key, play.timestamp, play.track)
+        );
+      if (found) removed++;
+    }
+
+    if (removed === 0) return 0;
+
+    index.totalScrobbles = Math.max(0, index.totalScrobbles - removed);
+    let oldest = 0;
+    for (const entry of Object.values(index.albums)) {
+      for (const p of entry.plays) {
+        if (oldest === 0 || p.timestamp < oldest) oldest = p.timestamp;
+      }
+    }
+    index.oldestScrobbleDate = oldest;
+
+    await this.saveIndex(index);
+    if (this.statsWarmer) {
+      await this.statsWarmer.invalidateStatsCache().catch(err => {
+        this.logger.error('Failed to invalidate stats cache after undo', err);
+      });
+    }
+    this.triggerCacheWarm();
+
+    this.logger.info(`Removed ${removed} undone scrobble(s) from the index`);
+    return removed;
+  }
+
   /**
    * Get the current history index
    */
   async getHistoryIndex(): Promise<ScrobbleHistoryIndex | null> {
     try {
+      if (this.playDatabase) {
+        return this.playDatabase.readIndex();
+      }
       return await this.fileStorage.readJSON<ScrobbleHistoryIndex>(
         HISTORY_INDEX_FILE
       );
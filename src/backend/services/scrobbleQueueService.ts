@@ -0,0 +1,423 @@
+/**
+ * Scrobble Queue Service - durable outbound queue for scrobbles that could
+ * not be delivered to Last.fm.
+ *
+ * LastFmService hands over tracks that fail for transient reasons (offline,
+ * rate limited, 5xx). server.ts drains the queue on a timer; each failed
+ * attempt doubles the wait before the next one. Entries that fall outside
+ * Last.fm's 14-day acceptance window, or that Last.fm rejects outright, are
+ * moved to the failed list with a reason instead of being retried forever.
+ */
+
+import crypto from 'crypto';
+
+import {
+  FailedQueuedScrobble,
+  QueuedScrobble,
+  ScrobbleQueueDrainResult,
+  ScrobbleQueueStatus,
+  ScrobbleQueueStore,
+  ScrobbleSession,
+  ScrobbleTrack,
+} from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import { EventStreamService } from './eventStreamService';
+import {
+  isRetryableScrobbleError,
+  LastFmApiError,
+  LastFmService,
+  ScrobbleRetryQueue,
+} from './lastfmService';
+import { ScrobbleHistorySyncService } from './scrobbleHistorySyncService';
+import { hasFailedTarget } from './scrobbleTargetService';
+
+const QUEUE_FILE = 'scrobbles/queue.json';
+
+// First retry after a minute, doubling up to six hours
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Last.fm rejects scrobbles with timestamps older than 14 days
+const LASTFM_WINDOW_SECONDS = 14 * 24 * 60 * 60;
+
+// Keep retrying after a revoked session -- the user can re-authenticate
+const INVALID_SESSION_KEY_CODE = 9;
+
+// Only the most recent failures are kept for display
+const MAX_FAILED_ENTRIES = 200;
+
+export class ScrobbleQueueService implements ScrobbleRetryQueue {
+  private logger = createLogger('ScrobbleQueueService');
+  private store: ScrobbleQueueStore | null = null;
+  private draining = false;
+
+  private eventStreamService: EventStreamService | null = null;
+
+  constructor(
+    private fileStorage: FileStorage,
+    private lastfmService: LastFmService,
+    private syncService?: ScrobbleHistorySyncService
+  ) {}
+
+  /** Optional: publishes retried sessions' progress to the profile's event stream. */
+  setEventStreamService(service: EventStreamService): void {
+    this.eventStreamService = service;
+  }
+
+  /**
+   * Load store from file, return empty store if not exists
+   */
+  private async loadStore(): Promise<ScrobbleQueueStore> {
+    if (this.store) {
+      return this.store;
+    }
+
+    try {
+      const data =
+        await this.fileStorage.readJSON<ScrobbleQueueStore>(QUEUE_FILE);
+      if (data && data.schemaVersion === 1) {
+        this.store = data;
+        return data;
+      }
+    } catch {
+      this.logger.debug('No scrobble queue file found, creating new store');
+    }
+
+    this.store = { schemaVersion: 1, pending: [], failed: [] };
+    return this.store;
+  }
+
+  private async saveStore(store: ScrobbleQueueStore): Promise<void> {
+    this.store = store;
+    await this.fileStorage.writeJSON(QUEUE_FILE, store);
+  }
+
+  /**
+   * Add tracks to the queue. Tracks without a timestamp are pinned to now
+   * so a later retry doesn't scrobble them at the retry time.
+   */
+  async enqueue(
+    items: Array<{ track: ScrobbleTrack; trackIndex?: number }>,
+    reason: string,
+    sessionId?: string
+  ): Promise<void> {
+    if (items.length === 0) return;
+
+    const store = await this.loadStore();
+    const now = Date.now();
+    for (const { track, trackIndex } of items) {
+      store.pending.push({
+        id: crypto.randomUUID(),
+        track: {
+          ...track,
+          timestamp: track.timestamp || Math.floor(now / 1000),
+          scrobbleStatus: undefined,
+        },
+        sessionId,
+        trackIndex,
+        queuedAt: now,
+        attempts: 0,
+        nextAttemptAt: now + BASE_RETRY_DELAY_MS,
+        lastError: reason,
+      });
+    }
+    await this.saveStore(store);
+
+    this.logger.info(`Queued ${items.length} scrobble(s) for retry`, {
+      reason,
+    });
+  }
+
+  async getStatus(): Promise<ScrobbleQueueStatus> {
+    const store = await this.loadStore();
+    return {
+      pending: store.pending.length,
+      failed: store.failed.length,
+      nextAttemptAt:
+        store.pending.length > 0
+          ? Math.min(...store.pending.map(e => e.nextAttemptAt))
+          : null,
+      oldestQueuedAt:
+        store.pending.length > 0
+          ? Math.min(...store.pending.map(e => e.queuedAt))
+          : null,
+      lastDrainAt: store.lastDrainAt ?? null,
+    };
+  }
+
+  async getEntries(): Promise<{
+    pending: QueuedScrobble[];
+    failed: FailedQueuedScrobble[];
+  }> {
+    const store = await this.loadStore();
+    return { pending: store.pending, failed: store.failed };
+  }
+
+  /**
+   * Try every entry that is due (or all of them with `force`). Stops at the
+   * first transient failure -- Last.fm is still unavailable -- and pushes
+   * the remaining due entries back with the same delay.
+   */
+  async drain(
+    options: { force?: boolean; now?: number } = {}
+  ): Promise<ScrobbleQueueDrainResult> {
+    const result: ScrobbleQueueDrainResult = {
+      succeeded: 0,
+      retrying: 0,
+      failed: 0,
+    };
+    if (this.draining) {
+      return result;
+    }
+
+    this.draining = true;
+    try {
+      const store = await this.loadStore();
+      const now = options.now ?? Date.now();
+      const cutoffSeconds = Math.floor(now / 1000) - LASTFM_WINDOW_SECONDS;
+      const succeededTimestamps: number[] = [];
+
+      // Expire entries Last.fm would reject for age, whether due or not
+      for (const entry of [...store.pending]) {
+        if ((entry.track.timestamp ?? 0) < cutoffSeconds) {
+          await this.fail(
+            store,
+            entry,
+            "Expired: older than Last.fm's 14-day scrobble window",
+            now
+          );
+          result.failed++;
+        }
+      }
+
+      const due = store.pending
+        .filter(entry => options.force || entry.nextAttemptAt <= now)
+        .sort((a, b) => (a.track.timestamp ?? 0) - (b.track.timestamp ?? 0));
+
+      for (let i = 0; i < due.length; i++) {
+        const entry = due[i];
+
+        if (await this.isAlreadyScrobbled(entry)) {
+          this.remove(store, entry.id);
+          continue;
+        }
+
+        try {
+          const response = await this.lastfmService.scrobbleTrack(entry.track);
+          if (response.success) {
+            this.remove(store, entry.id);
+            await this.updateSessionTrack(entry, 'success');
+            succeededTimestamps.push(entry.track.timestamp!);
+            result.succeeded++;
+          } else {
+            await this.fail(
+              store,
+              entry,
+              `Rejected by Last.fm: ${response.message}`,
+              now
+            );
+            result.failed++;
+          }
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : 'Unknown error';
+          if (
+            error instanceof LastFmApiError &&
+            error.code !== INVALID_SESSION_KEY_CODE &&
+            !isRetryableScrobbleError(error)
+          ) {
+            await this.fail(
+              store,
+              entry,
+              `Rejected by Last.fm: ${message}`,
+              now
+            );
+            result.failed++;
+            continue;
+          }
+
+          // Still unavailable: back off this entry and everything after it
+          const nextAttemptAt = now + this.getRetryDelay(entry.attempts + 1);
+          for (const remaining of due.slice(i)) {
+            remaining.attempts++;
+            remaining.nextAttemptAt = nextAttemptAt;
+            remaining.lastError = message;
+          }
+          result.retrying = due.length - i;
+          this.logger.warn(
+            `Scrobble retry failed, ${result.retrying} entries backed off until ${new Date(nextAttemptAt).toISOString()}`,
+            { error: message }
+          );
+          break;
+        }
+      }
+
+      store.lastDrainAt = now;
+      await this.saveStore(store);
+
+      if (succeededTimestamps.length > 0) {
+        this.logger.info(`Delivered ${result.succeeded} queued scrobble(s)`);
+        // Queued scrobbles are backdated; make sure the next incremental
+        // sync reaches back far enough to index them
+        await this.syncService
+          ?.adjustSyncTimestampForBackdatedScrobbles(
+            Math.min(...succeededTimestamps)
+          )
+          .catch(err =>
+            this.logger.error('Failed to adjust sync timestamp', err)
+          );
+      }
+
+      return result;
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Remove a pending entry without scrobbling it.
+   */
+  async removeEntry(id: string): Promise<boolean> {
+    const store = await this.loadStore();
+    const removed = this.remove(store, id);
+    if (removed) {
+      await this.saveStore(store);
+    }
+    return removed;
+  }
+
+  /**
+   * Drop a session's pending entries, e.g. when the session is undone.
+   */
+  async removeSessionEntries(sessionId: string): Promise<number> {
+    const store = await this.loadStore();
+    const before = store.pending.length;
+    store.pending = store.pending.filter(e => e.sessionId !== sessionId);
+    const removed = before - store.pending.length;
+    if (removed > 0) {
+      await this.saveStore(store);
+    }
+    return removed;
+  }
+
+  async clearFailed(): Promise<number> {
+    const store = await this.loadStore();
+    const count = store.failed.length;
+    store.failed = [];
+    await this.saveStore(store);
+    return count;
+  }
+
+  /**
+   * Exponential backoff: 1m, 2m, 4m, ... capped at 6h.
+   */
+  getRetryDelay(attempts: number): number {
+    return Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+      MAX_RETRY_DELAY_MS
+    );
+  }
+
+  private remove(store: ScrobbleQueueStore, id: string): boolean {
+    const index = store.pending.findIndex(e => e.id === id);
+    if (index === -1) return false;
+    store.pending.splice(index, 1);
+    return true;
+  }
+
+  private async fail(
+    store: ScrobbleQueueStore,
+    entry: QueuedScrobble,
+    reason: string,
+    now: number
+  ): Promise<void> {
+    this.remove(store, entry.id);
+    store.failed.push({ ...entry, failedAt: now, reason });
+    if (store.failed.length > MAX_FAILED_ENTRIES) {
+      store.failed = store.failed.slice(-MAX_FAILED_ENTRIES);
+    }
+    await this.updateSessionTrack(entry, 'failed');
+    this.logger.warn(
+      `Gave up on queued scrobble ${entry.track.artist} - ${entry.track.track}`,
+      { reason }
+    );
+  }
+
+  private async readSession(
+    entry: QueuedScrobble
+  ): Promise<ScrobbleSession | null> {
+    if (!entry.sessionId) return null;
+    try {
+      return await this.fileStorage.readJSON<ScrobbleSession>(
+        `scrobbles/session-${entry.sessionId}.json`
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * The user may have resubmitted the session by hand in the meantime.
+   */
+  private async isAlreadyScrobbled(entry: QueuedScrobble): Promise<boolean> {
+    const session = await this.readSession(entry);
+    return (
+      entry.trackIndex !== undefined &&
+      session?.tracks[entry.trackIndex]?.scrobbleStatus === 'success'
+    );
+  }
+
+  /**
+   * Reflect the outcome in the originating session file so the history
+   * page shows it, completing the session once nothing is left to retry.
+   */
+  private async updateSessionTrack(
+    entry: QueuedScrobble,
+    status: 'success' | 'failed'
+  ): Promise<void> {
+    const session = await this.readSession(entry);
+    const track =
+      entry.trackIndex !== undefined
+        ? session?.tracks[entry.trackIndex]
+        : undefined;
+    if (!session || !track || session.status === 'reverted') return;
+
+    track.scrobbleStatus = status;
+    const statuses = session.tracks.map(t => t.scrobbleStatus);
+    if (session.progress) {
+      session.progress = {
+        ...session.progress,
+        success: statuses.filter(s => s === 'success').length,
+        failed: statuses.filter(s => s === 'failed').length,
+        queued: statuses.filter(s => s === 'queued').length,
+      };
+    }
+    if (!statuses.includes('queued')) {
+      session.status =
+        statuses.includes('failed') || session.tracks.some(hasFailedTarget)
+          ? 'failed'
+          : 'completed';
+    }
+
+    try {
+      await this.fileStorage.writeJSON(
+        `scrobbles/session-${entry.sessionId}.json`,
+        session
+      );
+      this.eventStreamService?.publish(
+        {
+          type: 'scrobble-progress',
+          sessionId: session.id,
+          status: session.status,
+          progress: session.progress && { ...session.progress },
+          error: session.error,
+        },
+        `scrobble:${session.id}`
+      );
+    } catch (error) {
+      this.logger.error('Failed to update scrobble session', error);
+    }
+  }
+}
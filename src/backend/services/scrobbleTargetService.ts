@@ -0,0 +1,111 @@
+/**
+ * Scrobble Target Service - fans scrobbles out to the services enabled
+ * alongside Last.fm (currently ListenBrainz).
+ *
+ * Each target's outcome is written to ScrobbleTrack.targets, so a session
+ * file shows per-target success or failure and a resubmit can retry just
+ * the targets that failed. A failing target never fails the scrobble as a
+ * whole; Last.fm's result is reported as before.
+ */
+
+import {
+  ScrobbleTargetId,
+  ScrobbleTargetSummary,
+  ScrobbleTrack,
+} from '../../shared/types';
+import { createLogger } from '../utils/logger';
+
+/**
+ * A service scrobbles can be submitted to besides Last.fm.
+ */
+export interface AdditionalScrobbleTarget {
+  readonly id: ScrobbleTargetId;
+  readonly name: string;
+  isEnabled(): Promise<boolean>;
+  submitListens(tracks: ScrobbleTrack[]): Promise<void>;
+}
+
+/**
+ * Whether any additional target failed for this track.
+ */
+export function hasFailedTarget(track: ScrobbleTrack): boolean {
+  return Object.values(track.targets || {}).some(
+    result => result?.status === 'failed'
+  );
+}
+
+export class ScrobbleTargetService {
+  private logger = createLogger('ScrobbleTargetService');
+
+  constructor(private targets: AdditionalScrobbleTarget[]) {}
+
+  async getEnabledTargets(): Promise<AdditionalScrobbleTarget[]> {
+    const enabled: AdditionalScrobbleTarget[] = [];
+    for (const target of this.targets) {
+      try {
+        if (await target.isEnabled()) enabled.push(target);
+      } catch (error) {
+        this.logger.warn(`Could not check whether ${target.name} is enabled`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return enabled;
+  }
+
+  /**
+   * Submit tracks to every enabled target and record the outcome on each
+   * track. With `onlyFailed`, each target only gets the tracks it failed
+   * before, for resubmitting a session.
+   */
+  async submit(
+    tracks: ScrobbleTrack[],
+    options: { onlyFailed?: boolean } = {}
+  ): Promise<ScrobbleTargetSummary[]> {
+    const summaries: ScrobbleTargetSummary[] = [];
+
+    for (const target of await this.getEnabledTargets()) {
+      const pending = options.onlyFailed
+        ? tracks.filter(t => t.targets?.[target.id]?.status === 'failed')
+        : tracks;
+      if (pending.length === 0) continue;
+
+      const submittedAt = Date.now();
+      try {
+        await target.submitListens(pending);
+        for (const track of pending) {
+          track.targets = {
+            ...track.targets,
+            [target.id]: { status: 'success', submittedAt },
+          };
+        }
+        summaries.push({
+          target: target.id,
+          success: pending.length,
+          failed: 0,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : 'Submission failed';
+        this.logger.warn(`Failed to submit scrobbles to ${target.name}`, {
+          tracks: pending.length,
+          error: message,
+        });
+        for (const track of pending) {
+          track.targets = {
+            ...track.targets,
+            [target.id]: { status: 'failed', error: message, submittedAt },
+          };
+        }
+        summaries.push({
+          target: target.id,
+          success: 0,
+          failed: pending.length,
+          error: `${target.name}: ${message}`,
+        });
+      }
+    }
+
+    return summaries;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Scrobble Undo Service - takes back a session scrobbled by mistake, such
+ * as the wrong pressing or the wrong day.
+ *
+ * The Last.fm API cannot delete scrobbles, so undoing a session removes its
+ * plays from the local history index, cancels anything still queued for
+ * retry and marks the session reverted. It then returns the exact Last.fm
+ * library entries for the user to delete by hand. ListenBrainz does have a
+ * delete API, so listens sent there are deleted directly.
+ */
+
+import {
+  LastFmRemovalEntry,
+  LastFmRemovalGuide,
+  ScrobbleSession,
+  ScrobbleTrack,
+  ScrobbleUndoResult,
+} from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import { AuthService } from './authService';
+import { ListenBrainzService } from './listenbrainzService';
+import { ScrobbleHistorySyncService } from './scrobbleHistorySyncService';
+import { ScrobbleQueueService } from './scrobbleQueueService';
+import { StatsService } from './statsService';
+
+/**
+ * Why a session can't be undone; `status` is the HTTP status to report.
+ */
+export class ScrobbleUndoError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 404 | 409
+  ) {
+    super(message);
+    this.name = 'ScrobbleUndoError';
+  }
+}
+
+// Last.fm writes spaces in library URLs as '+'
+const encodeLastFmPath = (value: string): string =>
+  encodeURIComponent(value).replace(/%20/g, '+');
+
+export class ScrobbleUndoService {
+  private logger = createLogger('ScrobbleUndoService');
+
+  constructor(
+    private fileStorage: FileStorage,
+    private authService: AuthService,
+    private syncService: ScrobbleHistorySyncService,
+    private statsService: StatsService,
+    private scrobbleQueue?: ScrobbleQueueService,
+    private listenBrainzService?: ListenBrainzService
+  ) {}
+
+  /**
+   * Undo a completed or partly failed session. Throws ScrobbleUndoError if
+   * the session doesn't exist, is still running, was already undone or
+   * never reached Last.fm.
+   */
+  async undoSession(sessionId: string): Promise<ScrobbleUndoResult> {
+    const session = await this.readSession(sessionId);
+
+    if (session.status === 'reverted') {
+      throw new ScrobbleUndoError('This session has already been undone', 409);
+    }
+    if (session.status === 'pending' || session.status === 'in-progress') {
+      throw new ScrobbleUndoError(
+        'Only finished sessions can be undone; delete a pending session instead',
+        409
+      );
+    }
+    if (this.syncService.isSyncInProgress()) {
+      throw new ScrobbleUndoError(
+        'A history sync is running; try again when it has finished',
+        409
+      );
+    }
+
+    const scrobbled = this.getScrobbledTracks(session);
+    const queued = session.tracks.some(t => t.scrobbleStatus === 'queued');
+    if (scrobbled.length === 0 && !queued) {
+      throw new ScrobbleUndoError(
+        'Nothing from this session was scrobbled',
+        409
+      );
+    }
+
+    // Cancel retries first so nothing reaches Last.fm after the undo
+    const queuedCancelled = this.scrobbleQueue
+      ? await this.scrobbleQueue.removeSessionEntries(session.id)
+      : 0;
+
+    const playsRemoved = await this.syncService.removeScrobbles(
+      scrobbled.map(track => ({
+        artist: track.artist,
+        album: track.album,
+        track: track.track,
+        timestamp: track.timestamp!,
+      }))
+    );
+    this.statsService.clearForgottenFavoritesCache();
+
+    const listenbrainz = await this.deleteFromListenBrainz(session);
+
+    for (const track of session.tracks) {
+      if (track.scrobbleStatus === 'queued') track.scrobbleStatus = undefined;
+    }
+    session.status = 'reverted';
+    session.revertedAt = Date.now();
+    session.error = undefined;
+    await this.fileStorage.writeJSON(
+      `scrobbles/session-${session.id}.json`,
+      session
+    );
+
+    this.logger.info(`Undid scrobble session ${session.id}`, {
+      playsRemoved,
+      queuedCancelled,
+    });
+
+    return {
+      session,
+      playsRemoved,
+      queuedCancelled,
+      lastfm: await this.buildRemovalGuide(session),
+      ...(listenbrainz ? { listenbrainz } : {}),
+    };
+  }
+
+  /**
+   * The Last.fm entries to delete by hand for an undone session.
+   */
+  async getRemovalGuide(sessionId: string): Promise<LastFmRemovalGuide> {
+    const session = await this.readSession(sessionId);
+    if (session.status !== 'reverted') {
+      throw new ScrobbleUndoError('This session has not been undone', 409);
+    }
+    return this.buildRemovalGuide(session);
+  }
+
+  private async readSession(sessionId: string): Promise<ScrobbleSession> {
+    const session = await this.fileStorage.readJSON<ScrobbleSession>(
+      `scrobbles/session-${sessionId}.json`
+    );
+    if (!session) {
+      throw new ScrobbleUndoError('Session not found', 404);
+    }
+    return session;
+  }
+
+  /**
+   * Tracks that reached Last.fm. Sessions from before per-track statuses
+   * were recorded count every track once the session completed.
+   */
+  private getScrobbledTracks(session: ScrobbleSession): ScrobbleTrack[] {
+    const tracked = session.tracks.some(t => t.scrobbleStatus);
+    return session.tracks.filter(
+      track =>
+        !!track.timestamp &&
+        (tracked
+          ? track.scrobbleStatus === 'success'
+          : session.status === 'completed' || session.status === 'reverted')
+    );
+  }
+
+  private async buildRemovalGuide(
+    session: ScrobbleSession
+  ): Promise<LastFmRemovalGuide> {
+    const { username } = await this.authService.getLastFmCredentials();
+
+    const entries: LastFmRemovalEntry[] = this.getScrobbledTracks(session)
+      .map(track => ({
+        artist: track.artist,
+        track: track.track,
+        ...(track.album ? { album: track.album } : {}),
+        timestamp: track.timestamp!,
+        ...(username
+          ? {
+              libraryUrl: `https://www.last.fm/user/${encodeLastFmPath(username)}/library/music/${encodeLastFmPath(track.artist)}/_/${encodeLastFmPath(track.track)}`,
+            }
+          : {}),
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+      sessionId: session.id,
+      ...(username ? { username } : {}),
+      entries,
+    };
+  }
+
+  /**
+   * Delete the session's listens from ListenBrainz where they were sent.
+   * Errors are reported in the result; the undo itself still succeeds.
+   */
+  private async deleteFromListenBrainz(
+    session: ScrobbleSession
+  ): Promise<ScrobbleUndoResult['listenbrainz']> {
+    const submitted = session.tracks.filter(
+      track => track.targets?.listenbrainz?.status === 'success'
+    );
+    if (!this.listenBrainzService || submitted.length === 0) {
+      return undefined;
+    }
+
+    try {
+      return await this.listenBrainzService.deleteListens(submitted);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Failed to delete listens';
+      this.logger.warn('Could not delete listens from ListenBrainz', {
+        error: message,
+      });
+      return { deleted: 0, failed: submitted.length, error: message };
+    }
+  }
+}
@@ -14,11 +14,14 @@ import {
   SellerScanStatus,
 } from '../../shared/types';
 import { safeJsonParse } from '../../shared/utils/safeJsonParse';
-import { getDiscogsAxios } from '../utils/discogsAxios';
+import { getDiscogsAxios, withDiscogsPriority } from '../utils/discogsAxios';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { AuthService } from './authService';
+import { EventStreamService } from './eventStreamService';
+import { JobReport, JobService } from './jobService';
+import { NotificationService } from './notificationService';
 import { WishlistService } from './wishlistService';
 
 // Scan timing constants
@@ -34,6 +37,10 @@ const MAX_RETRIES = 3;
 // This catches new pressings/reissues for albums already in the cache
 const MASTER_RELEASE_REFRESH_DAYS = 30;
 
+// How long raw Discogs responses are reused from the shared disk cache
+const VERSIONS_RESPONSE_TTL_MS = 24 * 60 * 60 * 1000;
+const RELEASE_RESPONSE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 // Release cache for mapping release_id -> master_id
 interface ReleaseMasterCache {
   // Maps release_id -> master_id
@@ -81,8 +88,14 @@ export class SellerMonitoringService {
   // Track scan state
   private scanInProgress = false;
   private scanAborted = false;
+  private scanJobId: string | null = null;
+  private activeScan: Promise<void> | null = null;
   private initialized = false;
 
+  private eventStreamService: EventStreamService | null = null;
+  private jobService: JobService | null = null;
+  private notificationService: NotificationService | null = null;
+
   constructor(
     fileStorage: FileStorage,
     authService: AuthService,
@@ -112,6 +125,21 @@ export class SellerMonitoringService {
     this.initialize();
   }
 
+  /** Optional: publishes scan progress to the profile's event stream. */
+  setEventStreamService(service: EventStreamService): void {
+    this.eventStreamService = service;
+  }
+
+  /** Optional: mirrors scans onto the profile's job list. */
+  setJobService(service: JobService): void {
+    this.jobService = service;
+  }
+
+  /** Optional: raises new-match notifications in the profile's inbox. */
+  setNotificationService(service: NotificationService): void {
+    this.notificationService = service;
+  }
+
   /**
    * Initialize the service - reset scan status if it was left in a bad state
    * This handles the case where the server was stopped during a scan
@@ -347,6 +375,45 @@ export class SellerMonitoringService {
       delete updated.matchingProgress;
     }
     await this.fileStorage.writeJSON(this.SCAN_STATUS_FILE, updated);
+    this.reportScanJob(updated);
+    this.eventStreamService?.publish(
+      { type: 'scan-progress', scan: 'seller', status: updated },
+      'scan-progress:seller'
+    );
+  }
+
+  /**
+   * Mirror the scan status onto the shared job list.
+   */
+  private reportScanJob(status: SellerScanStatus): void {
+    if (!this.jobService || status.status === 'idle') return;
+
+    const scanning = status.currentSeller
+      ? `Scanning ${status.currentSeller}...`
+      : 'Scanning seller inventories...';
+    const reports: Record<
+      Exclude<SellerScanStatus['status'], 'idle'>,
+      JobReport
+    > = {
+      scanning: { state: 'running', message: scanning },
+      matching: {
+        state: 'running',
+        message: `Matching ${status.currentSeller ?? 'inventory'} against wishlist...`,
+      },
+      completed: {
+        state: 'completed',
+        message: `Seller scan complete: ${status.newMatches} new matches`,
+      },
+      error: { state: 'failed', error: status.error },
+      cancelled: { state: 'cancelled', message: 'Seller scan cancelled' },
+    };
+
+    this.scanJobId = this.jobService.report(
+      this.scanJobId,
+      'seller-scan',
+      { ...reports[status.status], progress: status.progress },
+      { onCancel: () => this.cancelScan() }
+    );
   }
 
   // ============================================
@@ -553,7 +620,7 @@ export class SellerMonitoringService {
   }
 
   /**
-   * Mark a match as notified (called by frontend after creating notification)
+   * Mark a match as notified without raising a notification
    */
   async markMatchAsNotified(matchId: string): Promise<void> {
     const store = await this.getMatchesStore();
@@ -1344,6 +1411,7 @@ export class SellerMonitoringService {
                 page,
                 per_page: 100,
               },
+              discogsCache: { ttlMs: VERSIONS_RESPONSE_TTL_MS },
             }),
           `fetch versions for master ${masterId} page ${page}`
         );
@@ -1622,7 +1690,11 @@ export class SellerMonitoringService {
     try {
       const headers = await this.getAuthHeaders();
       const response = await this.executeWithRetry(
-        () => this.axios.get(`/releases/${releaseId}`, { headers }),
+        () =>
+          this.axios.get(`/releases/${releaseId}`, {
+            headers,
+            discogsCache: { ttlMs: RELEASE_RESPONSE_TTL_MS },
+          }),
         `lookup master_id for release ${releaseId}`
       );
       return { masterId: response.data?.master_id, rateLimited: false };
@@ -2211,7 +2283,9 @@ export class SellerMonitoringService {
 
     // Pass full sellers array so incremental saves don't wipe other sellers.
     // targetUsername ensures only the requested seller is scanned.
-    this.runScanInBackground(sellers, true, username).catch(error => {
+    this.activeScan = withDiscogsPriority('background', () =>
+      this.runScanInBackground(sellers, true, username)
+    ).catch(error => {
       this.logger.error('Background single-seller scan failed', error);
       this.updateScanStatus({
         status: 'error',
@@ -2224,6 +2298,14 @@ export class SellerMonitoringService {
     return initialStatus;
   }
 
+  /**
+   * Resolve once the scan started by startScan() or startSingleSellerScan()
+   * has finished. Check getScanStatus() for the outcome.
+   */
+  async waitForScan(): Promise<void> {
+    await this.activeScan;
+  }
+
   /**
    * Cancel a running scan. The scan will stop within one iteration of the
    * matching loop, save partial progress, and transition to 'cancelled' status.
@@ -2265,7 +2347,9 @@ export class SellerMonitoringService {
     await this.updateScanStatus(initialStatus);
 
     // Start scan in background (don't await)
-    this.runScanInBackground(sellers, forceFresh).catch(error => {
+    this.activeScan = withDiscogsPriority('background', () =>
+      this.runScanInBackground(sellers, forceFresh)
+    ).catch(error => {
       this.logger.error('Background scan failed', error);
       this.updateScanStatus({
         status: 'error',
@@ -2396,6 +2480,8 @@ export class SellerMonitoringService {
       // Prune stale matches (sold > 30 days)
       await this.removeStaleMatches();
 
+      await this.notifyNewMatches(sellers, settings);
+
       await this.updateScanStatus({
         status: 'completed',
         progress: 100,
@@ -2412,4 +2498,38 @@ export class SellerMonitoringService {
       this.scanAborted = false;
     }
   }
+
+  /**
+   * Raise notifications for active matches nobody has been told about yet,
+   * then mark them notified so later scans don't repeat them.
+   */
+  private async notifyNewMatches(
+    sellers: MonitoredSeller[],
+    settings: SellerMonitoringSettings
+  ): Promise<void> {
+    if (!settings.notifyOnNewMatch) return;
+
+    const store = await this.getMatchesStore();
+    const unnotified = store.matches.filter(
+      m => !m.notified && m.status === 'active'
+    );
+    if (unnotified.length === 0) return;
+
+    this.notificationService?.raise({
+      type: 'seller-matches',
+      matches: unnotified,
+      sellerNames: Object.fromEntries(
+        sellers.map(s => [
+          s.username.toLowerCase(),
+          s.displayName || s.username,
+        ])
+      ),
+    });
+
+    for (const match of unnotified) {
+      match.notified = true;
+    }
+    store.lastUpdated = Date.now();
+    await this.fileStorage.writeJSONWithBackup(this.MATCHES_FILE, store);
+  }
 }
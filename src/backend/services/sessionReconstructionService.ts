@@ -0,0 +1,343 @@
+import {
+  AlbumHistoryEntry,
+  ListeningSession,
+  ListeningSessionAlbum,
+  ListeningSessionDay,
+  ListeningSessionKind,
+  ListeningSessionsResult,
+  ListeningSessionSummary,
+  WrappedSessionStats,
+} from '../../shared/types';
+import { normalizeForMatching } from '../../shared/utils/trackNormalization';
+import { createLogger } from '../utils/logger';
+
+import { ArtistNameResolver } from './artistNameResolver';
+import { ScrobbleHistoryStorage } from './scrobbleHistoryStorage';
+
+// A gap of more than 30 minutes between plays ends a session; flipping a
+// record or changing discs takes far less
+const SESSION_GAP_SECONDS = 30 * 60;
+
+// Three plays of the same album in a row count as sitting down with it;
+// shorter runs next to other short runs are a shuffle
+const MIN_ALBUM_RUN = 3;
+
+// A session covering this share of the album's known tracks is a full play
+const FULL_ALBUM_COVERAGE = 0.9;
+
+// Albums with fewer known tracks are too short to tell full from partial
+const MIN_FULL_ALBUM_TRACKS = 4;
+
+// Default window for the sessions endpoint
+const DEFAULT_RANGE_SECONDS = 30 * 24 * 60 * 60;
+
+interface TimedPlay {
+  timestamp: number;
+  albumKey: string;
+  track?: string;
+}
+
+/**
+ * Reconstructs listening sessions from the scrobble history index: plays
+ * are grouped into sessions at time gaps and album changes, then each is
+ * classed as a full-album play, a partial play or a shuffle.
+ *
+ * The history index has no tracklists, so an album's track count is the
+ * number of distinct tracks of it ever scrobbled. Stateless -- sessions
+ * are rebuilt on each request, no data files.
+ */
+export class SessionReconstructionService {
+  private logger = createLogger('SessionReconstructionService');
+  private artistNameResolver: ArtistNameResolver | null = null;
+
+  constructor(private historyStorage: ScrobbleHistoryStorage) {}
+
+  setArtistNameResolver(resolver: ArtistNameResolver): void {
+    this.artistNameResolver = resolver;
+  }
+
+  /**
+   * Sessions in a date range (Unix seconds, default the last 30 days),
+   * grouped by local day, newest first. With an album filter, only
+   * sessions that include the album (fuzzy matched, as on the album page)
+   * are returned and counted.
+   */
+  async getSessions(
+    startDate?: number,
+    endDate?: number,
+    filter?: { artist: string; album: string }
+  ): Promise<ListeningSessionsResult> {
+    const end = endDate ?? Math.floor(Date.now() / 1000);
+    const start = startDate ?? end - DEFAULT_RANGE_SECONDS;
+
+    let albumKeys: Set<string> | null = null;
+    if (filter) {
+      const match = await this.historyStorage.getAlbumHistoryFuzzy(
+        filter.artist,
+        filter.album,
+        { countsOnly: true }
+      );
+      albumKeys = new Set(match.matchedKeys ?? []);
+    }
+
+    const sessions = (await this.reconstruct(start, end)).filter(
+      session =>
+        !albumKeys || session.albumKeys.some(key => albumKeys!.has(key))
+    );
+
+    const days = new Map<string, ListeningSessionDay>();
+    for (const { session } of sessions) {
+      const date = this.formatLocalDate(session.start);
+      if (!days.has(date)) {
+        days.set(date, { date, playCount: 0, sessions: [] });
+      }
+      const day = days.get(date)!;
+      day.sessions.push(session);
+      day.playCount += session.playCount;
+    }
+
+    return {
+      startDate: start,
+      endDate: end,
+      ...this.summarize(sessions.map(({ session }) => session)),
+      days: Array.from(days.values())
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map(day => ({
+          ...day,
+          sessions: day.sessions.sort((a, b) => b.start - a.start),
+        })),
+    };
+  }
+
+  /**
+   * Session counts for Wrapped, with the album played in full most often.
+   */
+  async getWrappedStats(
+    startDate: number,
+    endDate: number
+  ): Promise<WrappedSessionStats> {
+    const sessions = (await this.reconstruct(startDate, endDate)).map(
+      ({ session }) => session
+    );
+
+    const fullPlays = new Map<
+      string,
+      { artist: string; album: string; count: number }
+    >();
+    for (const session of sessions) {
+      if (session.kind !== 'full-album') continue;
+      const { artist, album } = session.albums[0];
+      const key = `${artist}|${album}`;
+      const existing = fullPlays.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        fullPlays.set(key, { artist, album, count: 1 });
+      }
+    }
+
+    let topFullAlbum: WrappedSessionStats['topFullAlbum'] = null;
+    for (const candidate of fullPlays.values()) {
+      if (!topFullAlbum || candidate.count > topFullAlbum.count) {
+        topFullAlbum = candidate;
+      }
+    }
+
+    return { ...this.summarize(sessions), topFullAlbum };
+  }
+
+  /**
+   * Rebuild the sessions that start within a date range, oldest first,
+   * each with the index keys of its albums.
+   */
+  private async reconstruct(
+    startDate: number,
+    endDate: number
+  ): Promise<Array<{ session: ListeningSession; albumKeys: string[] }>> {
+    const index = await this.historyStorage.getIndex();
+    if (!index) return [];
+
+    // Take plays a gap either side of the range so sessions crossing its
+    // edges are rebuilt whole
+    const plays: TimedPlay[] = [];
+    for (const [albumKey, entry] of Object.entries(index.albums)) {
+      for (const play of entry.plays) {
+        if (
+          play.timestamp >= startDate - SESSION_GAP_SECONDS &&
+          play.timestamp <= endDate + SESSION_GAP_SECONDS
+        ) {
+          plays.push({
+            timestamp: play.timestamp,
+            albumKey,
+            track: play.track,
+          });
+        }
+      }
+    }
+    plays.sort((a, b) => a.timestamp - b.timestamp);
+
+    const knownTracks = new Map<string, number>();
+    const countKnownTracks = (albumKey: string): number => {
+      if (!knownTracks.has(albumKey)) {
+        knownTracks.set(
+          albumKey,
+          this.countDistinctTracks(index.albums[albumKey])
+        );
+      }
+      return knownTracks.get(albumKey)!;
+    };
+
+    const sessions: Array<{ session: ListeningSession; albumKeys: string[] }> =
+      [];
+    for (const block of this.splitAtGaps(plays)) {
+      for (const group of this.groupRuns(block)) {
+        const session = this.buildSession(group, countKnownTracks);
+        if (
+          session.session.start >= startDate &&
+          session.session.start <= endDate
+        ) {
+          sessions.push(session);
+        }
+      }
+    }
+
+    this.logger.debug(
+      `Reconstructed ${sessions.length} sessions from ${plays.length} plays`
+    );
+    return sessions;
+  }
+
+  /**
+   * Split time-ordered plays wherever the gap between two is too long.
+   */
+  private splitAtGaps(plays: TimedPlay[]): TimedPlay[][] {
+    const blocks: TimedPlay[][] = [];
+    let current: TimedPlay[] = [];
+    for (const play of plays) {
+      const previous = current[current.length - 1];
+      if (
+        previous &&
+        play.timestamp - previous.timestamp > SESSION_GAP_SECONDS
+      ) {
+        blocks.push(current);
+        current = [];
+      }
+      current.push(play);
+    }
+    if (current.length > 0) blocks.push(current);
+    return blocks;
+  }
+
+  /**
+   * Split a block of back-to-back plays at album changes. Long runs of one
+   * album stand alone; short runs next to each other are kept together as
+   * a shuffle.
+   */
+  private groupRuns(block: TimedPlay[]): TimedPlay[][] {
+    const runs: TimedPlay[][] = [];
+    for (const play of block) {
+      const run = runs[runs.length - 1];
+      if (run && run[0].albumKey === play.albumKey) {
+        run.push(play);
+      } else {
+        runs.push([play]);
+      }
+    }
+
+    const groups: TimedPlay[][] = [];
+    let shortRuns: TimedPlay[] = [];
+    for (const run of runs) {
+      if (run.length >= MIN_ALBUM_RUN) {
+        if (shortRuns.length > 0) groups.push(shortRuns);
+        shortRuns = [];
+        groups.push(run);
+      } else {
+        shortRuns.push(...run);
+      }
+    }
+    if (shortRuns.length > 0) groups.push(shortRuns);
+    return groups;
+  }
+
+  private buildSession(
+    plays: TimedPlay[],
+    countKnownTracks: (albumKey: string) => number
+  ): { session: ListeningSession; albumKeys: string[] } {
+    const byAlbum = new Map<string, TimedPlay[]>();
+    for (const play of plays) {
+      if (!byAlbum.has(play.albumKey)) byAlbum.set(play.albumKey, []);
+      byAlbum.get(play.albumKey)!.push(play);
+    }
+
+    const albums: ListeningSessionAlbum[] = [];
+    for (const [albumKey, albumPlays] of byAlbum) {
+      const [artist, album] = albumKey.split('|');
+      albums.push({
+        artist: this.displayArtist(artist),
+        album: this.titleCase(album),
+        plays: albumPlays.length,
+        tracksPlayed: new Set(
+          albumPlays.map(p => normalizeForMatching(p.track ?? ''))
+        ).size,
+        knownTracks: countKnownTracks(albumKey),
+      });
+    }
+
+    let kind: ListeningSessionKind = 'shuffle';
+    if (albums.length === 1) {
+      const [only] = albums;
+      kind =
+        only.knownTracks >= MIN_FULL_ALBUM_TRACKS &&
+        only.tracksPlayed >= only.knownTracks * FULL_ALBUM_COVERAGE
+          ? 'full-album'
+          : 'partial';
+    }
+
+    return {
+      session: {
+        start: plays[0].timestamp,
+        end: plays[plays.length - 1].timestamp,
+        kind,
+        playCount: plays.length,
+        albums: albums.sort((a, b) => b.plays - a.plays),
+      },
+      albumKeys: Array.from(byAlbum.keys()),
+    };
+  }
+
+  private summarize(sessions: ListeningSession[]): ListeningSessionSummary {
+    return {
+      totalSessions: sessions.length,
+      fullAlbumPlays: sessions.filter(s => s.kind === 'full-album').length,
+      partialPlays: sessions.filter(s => s.kind === 'partial').length,
+      shuffles: sessions.filter(s => s.kind === 'shuffle').length,
+    };
+  }
+
+  private countDistinctTracks(entry: AlbumHistoryEntry | undefined): number {
+    if (!entry) return 0;
+    const tracks = new Set<string>();
+    for (const play of entry.plays) {
+      if (play.track) tracks.add(normalizeForMatching(play.track));
+    }
+    return tracks.size;
+  }
+
+  private formatLocalDate(timestamp: number): string {
+    const date = new Date(timestamp * 1000);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  private displayArtist(artist: string): string {
+    return this.artistNameResolver
+      ? this.artistNameResolver.getDisplayName(artist)
+      : this.titleCase(artist);
+  }
+
+  private titleCase(value: string): string {
+    return value
+      .split(' ')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
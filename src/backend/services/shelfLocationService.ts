@@ -0,0 +1,198 @@
+import {
+  ShelfImportResult,
+  ShelfLocation,
+  ShelfLocationEntry,
+  ShelfLocationSaveResult,
+  ShelfLocationStore,
+} from '../../shared/types';
+import {
+  formatShelfLocation,
+  parseShelfLocation,
+} from '../../shared/utils/shelfLocation';
+import { getAllCachedCollectionItems } from '../utils/collectionCache';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+import {
+  CollectionEditError,
+  CollectionEditService,
+} from './collectionEditService';
+
+const LOCATIONS_FILE = 'collections/shelf-locations.json';
+
+/**
+ * Where each record sits on the shelves, keyed by collection instance.
+ *
+ * A Discogs custom note field can be chosen to mirror the locations: saving
+ * a location then also writes it to that field, and locations already noted
+ * there can be imported. The local store stays the source of truth, so a
+ * failed Discogs write never loses a location.
+ */
+export class ShelfLocationService {
+  private logger = createLogger('ShelfLocationService');
+  private store: ShelfLocationStore | null = null;
+
+  constructor(
+    private fileStorage: FileStorage,
+    private collectionEditService: CollectionEditService
+  ) {}
+
+  private async loadStore(): Promise<ShelfLocationStore> {
+    if (this.store) return this.store;
+
+    const data =
+      await this.fileStorage.readJSON<ShelfLocationStore>(LOCATIONS_FILE);
+    if (data && data.schemaVersion === 1) {
+      this.store = data;
+      return data;
+    }
+
+    this.store = { schemaVersion: 1, locations: {} };
+    return this.store;
+  }
+
+  private async saveStore(store: ShelfLocationStore): Promise<void> {
+    await this.fileStorage.writeJSONWithBackup(LOCATIONS_FILE, store);
+    this.store = store;
+  }
+
+  async getLocations(): Promise<ShelfLocationEntry[]> {
+    const store = await this.loadStore();
+    return Object.values(store.locations);
+  }
+
+  async getLocation(
+    collectionItemId: number
+  ): Promise<ShelfLocationEntry | null> {
+    const store = await this.loadStore();
+    return store.locations[String(collectionItemId)] ?? null;
+  }
+
+  async getSyncFieldId(): Promise<number | undefined> {
+    return (await this.loadStore()).syncFieldId;
+  }
+
+  /**
+   * Choose the custom note field that mirrors locations, or stop mirroring
+   * with null.
+   */
+  async setSyncFieldId(fieldId: number | null): Promise<void> {
+    const store = { ...(await this.loadStore()) };
+    if (fieldId) {
+      store.syncFieldId = fieldId;
+    } else {
+      delete store.syncFieldId;
+    }
+    await this.saveStore(store);
+  }
+
+  /**
+   * Set (or with null, clear) the location of a collection instance, and
+   * write it to the mirrored note field if one is chosen.
+   */
+  async setLocation(
+    username: string,
+    collectionItemId: number,
+    location: ShelfLocation | null
+  ): Promise<ShelfLocationSaveResult> {
+    const item = await this.collectionEditService.getInstance(
+      username,
+      collectionItemId
+    );
+    if (!item) {
+      throw new CollectionEditError(
+        'This record is not in the collection cache',
+        404
+      );
+    }
+
+    const store = await this.loadStore();
+    const locations = { ...store.locations };
+    let entry: ShelfLocationEntry | null = null;
+    if (location) {
+      entry = {
+        ...location,
+        collectionItemId,
+        releaseId: item.release.id,
+        artist: item.release.artist,
+        title: item.release.title,
+        updatedAt: Date.now(),
+      };
+      locations[String(collectionItemId)] = entry;
+    } else {
+      delete locations[String(collectionItemId)];
+    }
+    await this.saveStore({ ...store, locations });
+
+    if (!store.syncFieldId) return { entry };
+
+    try {
+      await this.collectionEditService.editInstance(
+        username,
+        collectionItemId,
+        {
+          type: 'field',
+          fieldId: store.syncFieldId,
+          value: location ? formatShelfLocation(location) : '',
+        }
+      );
+      return { entry };
+    } catch (error) {
+      this.logger.warn(
+        `Saved location of ${collectionItemId} but could not update Discogs`,
+        error
+      );
+      return {
+        entry,
+        syncError:
+          error instanceof Error ? error.message : 'Failed to update Discogs',
+      };
+    }
+  }
+
+  /**
+   * Add locations noted in the mirrored field on Discogs for records that
+   * don't have one here yet.
+   */
+  async importFromField(username: string): Promise<ShelfImportResult> {
+    const store = await this.loadStore();
+    if (!store.syncFieldId) {
+      throw new Error('Choose a Discogs note field for shelf locations first');
+    }
+
+    const items = await getAllCachedCollectionItems(username, this.fileStorage);
+    const locations = { ...store.locations };
+    const now = Date.now();
+    let imported = 0;
+    let skipped = 0;
+
+    for (const item of items) {
+      const note = item.notes?.find(n => n.field_id === store.syncFieldId);
+      if (!note?.value) continue;
+
+      const location = parseShelfLocation(note.value);
+      if (!location || locations[String(item.id)]) {
+        skipped++;
+        continue;
+      }
+
+      locations[String(item.id)] = {
+        ...location,
+        collectionItemId: item.id,
+        releaseId: item.release.id,
+        artist: item.release.artist,
+        title: item.release.title,
+        updatedAt: now,
+      };
+      imported++;
+    }
+
+    if (imported > 0) {
+      await this.saveStore({ ...store, locations });
+    }
+    this.logger.info(
+      `Imported ${imported} shelf locations from Discogs notes (${skipped} skipped)`
+    );
+    return { imported, skipped };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Side Memory Service - remembers which sides of a vinyl release were
+ * scrobbled last, so the release page can suggest "continue with side C".
+ */
+
+import { ReleaseSideMemory, SideMemoryStore } from '../../shared/types';
+import { FileStorage } from '../utils/fileStorage';
+import { createLogger } from '../utils/logger';
+
+const SIDE_MEMORY_FILE = 'scrobbles/side-memory.json';
+
+export class SideMemoryService {
+  private logger = createLogger('SideMemoryService');
+  private store: SideMemoryStore | null = null;
+
+  constructor(private fileStorage: FileStorage) {}
+
+  /**
+   * Load store from file, return empty store if not exists
+   */
+  private async loadStore(): Promise<SideMemoryStore> {
+    if (this.store) {
+      return this.store;
+    }
+
+    try {
+      const data =
+        await this.fileStorage.readJSON<SideMemoryStore>(SIDE_MEMORY_FILE);
+      if (data && data.schemaVersion === 1) {
+        this.store = data;
+        return data;
+      }
+    } catch {
+      this.logger.debug('No side memory file found, creating new store');
+    }
+
+    this.store = { schemaVersion: 1, releases: {} };
+    return this.store;
+  }
+
+  /**
+   * Last play recorded for a release, or null if none.
+   */
+  async getMemory(releaseId: number): Promise<ReleaseSideMemory | null> {
+    const store = await this.loadStore();
+    return store.releases[String(releaseId)] || null;
+  }
+
+  /**
+   * Record the sides just scrobbled for a release, replacing the previous
+   * play. Sides are stored in alphabetical order so the last one is the
+   * side the record was left on.
+   */
+  async recordPlay(
+    releaseId: number,
+    sides: string[]
+  ): Promise<ReleaseSideMemory | null> {
+    const played = Array.from(new Set(sides.map(side => side.toUpperCase())))
+      .filter(side => /^[A-Z]$/.test(side))
+      .sort();
+    if (played.length === 0) return null;
+
+    const memory: ReleaseSideMemory = {
+      releaseId,
+      sides: played,
+      lastSide: played[played.length - 1],
+      playedAt: Date.now(),
+    };
+
+    const store = await this.loadStore();
+    store.releases[String(releaseId)] = memory;
+    await this.fileStorage.writeJSON(SIDE_MEMORY_FILE, store);
+
+    this.logger.debug(`Release ${releaseId} left on side ${memory.lastSide}`);
+    return memory;
+  }
+}
@@ -3,6 +3,7 @@ import {
   AlbumDetailResponse,
   AlbumDetailTrack,
   AlbumPlayCount,
+  AlbumSourceSplit,
   ArtistDetailResponse,
   ArtistPlayCount,
   CalendarHeatmapData,
@@ -19,9 +20,10 @@ import {
   OnThisDayResult,
   OnThisDayYear,
   RoiScoreItem,
+  PlaySourceSplit,
   ScrobbleCounts,
-  ScrobbleSession,
   SourceBreakdownItem,
+  SourceSplitReport,
   StatsCache,
   StatsOverview,
   StreakInfo,
@@ -35,11 +37,18 @@ import {
 } from '../../shared/utils/trackNormalization';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
+import {
+  addToSourceSplit,
+  createSourceSplit,
+  finishSourceSplit,
+} from '../utils/playSources';
 
 import { artistMappingService } from './artistMappingService';
 import { ArtistNameResolver } from './artistNameResolver';
 import { CompoundArtistMappingServiceLike } from './compoundArtistMappingService';
 import { MappingService } from './mappingService';
+import { NotificationService } from './notificationService';
+import { PlayDatabase } from './playDatabase';
 import { ScrobbleHistoryStorage } from './scrobbleHistoryStorage';
 import { TrackMappingService } from './trackMappingService';
 
@@ -73,6 +82,9 @@ export class StatsService {
   private artistNameResolver: ArtistNameResolver | null = null;
   private compoundArtistMappingService: CompoundArtistMappingServiceLike | null =
     null;
+  // When set, period stats are aggregated in SQLite instead of by scanning
+  // every play in the index
+  private playDatabase: PlayDatabase | null = null;
   private logger = createLogger('StatsService');
 
   // In-memory cache for forgotten favorites (5 minute TTL)
@@ -83,6 +95,8 @@ export class StatsService {
   } | null = null;
   private readonly FORGOTTEN_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
+  private notificationService: NotificationService | null = null;
+
   constructor(
     fileStorage: FileStorage,
     historyStorage: ScrobbleHistoryStorage
@@ -91,6 +105,11 @@ export class StatsService {
     this.historyStorage = historyStorage;
   }
 
+  /** Optional: raises listening-streak notifications in the profile's inbox. */
+  setNotificationService(service: NotificationService): void {
+    this.notificationService = service;
+  }
+
   /**
    * Set the track mapping service for applying mappings in forgotten favorites.
    * This is optional and should be set after construction.
@@ -111,6 +130,11 @@ export class StatsService {
     this.artistNameResolver = resolver;
   }
 
+  /** Optional: serves top lists, heatmaps and on-this-day from SQLite. */
+  setPlayDatabase(playDatabase: PlayDatabase): void {
+    this.playDatabase = playDatabase;
+  }
+
   /** Optional: enables compound-artist surfacing on the album detail endpoint. */
   setCompoundArtistMappingService(
     service: CompoundArtistMappingServiceLike
@@ -300,6 +324,14 @@ export class StatsService {
       });
 
       this.logger.info('Stats cache warmed successfully');
+
+      // Streaks only change with new scrobbles, so this is where milestones
+      // are noticed
+      this.notificationService?.raise({
+        type: 'listening-streak',
+        days: streaks.currentStreak,
+        startedAt: streaks.currentStreakStart,
+      });
     } catch (error) {
       this.logger.error('Failed to warm stats cache', error);
     }
@@ -618,8 +650,10 @@ export class StatsService {
       }
     }
 
-    const index = await this.historyStorage.getIndex();
-    if (!index) {
+    const index = this.playDatabase
+      ? null
+      : await this.historyStorage.getIndex();
+    if (!this.playDatabase && !index) {
       return [];
     }
 
@@ -643,7 +677,22 @@ export class StatsService {
     // (e.g., "Danny Brown, Jane Remover") add a play to each component.
     const artistCounts = new Map<string, number>();
 
-    for (const [key, albumHistory] of Object.entries(index.albums)) {
+    if (this.playDatabase) {
+      const rows = this.playDatabase.getArtistPlayCounts(
+        cutoffTimestamp,
+        endTimestamp
+      );
+      for (const row of rows) {
+        for (const canonical of this.resolveArtistNames(row.artist)) {
+          artistCounts.set(
+            canonical,
+            (artistCounts.get(canonical) || 0) + row.playCount
+          );
+        }
+      }
+    }
+
+    for (const [key, albumHistory] of Object.entries(index?.albums ?? {})) {
       const [artist] = key.split('|');
       for (const play of albumHistory.plays) {
         if (
@@ -703,8 +752,10 @@ export class StatsService {
       }
     }
 
-    const index = await this.historyStorage.getIndex();
-    if (!index) {
+    const index = this.playDatabase
+      ? null
+      : await this.historyStorage.getIndex();
+    if (!this.playDatabase && !index) {
       return [];
     }
 
@@ -726,7 +777,22 @@ export class StatsService {
     // Count plays per album in the period
     const albumCounts: AlbumPlayCount[] = [];
 
-    for (const [key, albumHistory] of Object.entries(index.albums)) {
+    if (this.playDatabase) {
+      const rows = this.playDatabase.getAlbumPlayCounts(
+        cutoffTimestamp,
+        endTimestamp
+      );
+      for (const row of rows) {
+        albumCounts.push({
+          artist: this.capitalizeArtist(row.artist),
+          album: this.capitalizeTitle(row.album),
+          playCount: row.playCount,
+          lastPlayed: row.lastPlayed,
+        });
+      }
+    }
+
+    for (const [key, albumHistory] of Object.entries(index?.albums ?? {})) {
       const [artist, album] = key.split('|');
       let periodPlays = 0;
       let periodLastPlayed = 0;
@@ -813,8 +879,10 @@ export class StatsService {
       }
     }
 
-    const index = await this.historyStorage.getIndex();
-    if (!index) {
+    const index = this.playDatabase
+      ? null
+      : await this.historyStorage.getIndex();
+    if (!this.playDatabase && !index) {
       return [];
     }
 
@@ -846,7 +914,35 @@ export class StatsService {
       }
     >();
 
-    for (const [key, albumHistory] of Object.entries(index.albums)) {
+    if (this.playDatabase) {
+      // Rows are per exact track name; merge names that normalize alike
+      const rows = this.playDatabase.getTrackPlayCounts(
+        cutoffTimestamp,
+        endTimestamp
+      );
+      for (const row of rows) {
+        const trackKey = createNormalizedTrackKey(
+          row.artist,
+          row.album,
+          row.track
+        );
+        const existing = trackCounts.get(trackKey);
+        if (existing) {
+          existing.count += row.playCount;
+          existing.lastPlayed = Math.max(existing.lastPlayed, row.lastPlayed);
+        } else {
+          trackCounts.set(trackKey, {
+            artist: row.artist,
+            album: row.album,
+            track: row.track,
+            count: row.playCount,
+            lastPlayed: row.lastPlayed,
+          });
+        }
+      }
+    }
+
+    for (const [key, albumHistory] of Object.entries(index?.albums ?? {})) {
       const [artist, album] = key.split('|');
 
       for (const play of albumHistory.plays) {
@@ -1189,15 +1285,19 @@ export class StatsService {
    * Get calendar heatmap data for the past year
    */
   async getCalendarHeatmap(year?: number): Promise<CalendarHeatmapData[]> {
+    const targetYear = year || new Date().getFullYear();
+    const yearStart = new Date(targetYear, 0, 1).getTime() / 1000;
+    const yearEnd = new Date(targetYear + 1, 0, 1).getTime() / 1000;
+
+    if (this.playDatabase) {
+      return this.playDatabase.getDailyPlayCounts(yearStart, yearEnd);
+    }
+
     const index = await this.historyStorage.getIndex();
     if (!index) {
       return [];
     }
 
-    const targetYear = year || new Date().getFullYear();
-    const yearStart = new Date(targetYear, 0, 1).getTime() / 1000;
-    const yearEnd = new Date(targetYear + 1, 0, 1).getTime() / 1000;
-
     // Count scrobbles per day
     const dayCounts = new Map<string, number>();
 
@@ -1413,8 +1513,9 @@ export class StatsService {
   }
 
   /**
-   * Get source breakdown - identifies scrobbles from this app vs other sources
-   * We identify "RecordScrobbles" scrobbles by matching timestamps from our scrobble sessions
+   * Get source breakdown - scrobbles made through RecordScrobbles (from
+   * releases, the vinyl recognizer or memory scrobbles) vs other sources,
+   * from the source each play is tagged with in the history index
    */
   async getSourceBreakdown(): Promise<SourceBreakdownItem[]> {
     const index = await this.historyStorage.getIndex();
@@ -1422,116 +1523,125 @@ export class StatsService {
       return [];
     }
 
-    // Get all our scrobble session timestamps
-    const ourScrobbleTimestamps = new Set<number>();
-    try {
-      const files = await this.fileStorage.listFiles('scrobbles');
-      for (const file of files) {
-        if (file.startsWith('session-')) {
-          const session = await this.fileStorage.readJSON<ScrobbleSession>(
-            `scrobbles/${file}`
-          );
-          if (session && session.status === 'completed') {
-            for (const track of session.tracks) {
-              if (track.timestamp) {
-                ourScrobbleTimestamps.add(track.timestamp);
-              }
-            }
-          }
-        }
-      }
-    } catch {
-      // If we can't read sessions, all scrobbles will be "Other"
-    }
-
-    // Count all scrobbles and match against our sessions
-    // Optimization: Convert Set to sorted array for efficient binary search
-    const sortedTimestamps = Array.from(ourScrobbleTimestamps).sort(
-      (a, b) => a - b
-    );
-
-    // Binary search helper to check if a timestamp is within tolerance of any in our list
-    const isOurScrobble = (
-      targetTs: number,
-      tolerance: number = 5
-    ): boolean => {
-      if (sortedTimestamps.length === 0) return false;
-
-      // Binary search to find the closest timestamp
-      let left = 0;
-      let right = sortedTimestamps.length - 1;
-
-      while (left <= right) {
-        const mid = Math.floor((left + right) / 2);
-        const midTs = sortedTimestamps[mid];
-
-        if (Math.abs(midTs - targetTs) <= tolerance) {
-          return true;
-        }
-
-        if (midTs < targetTs) {
-          left = mid + 1;
-        } else {
-          right = mid - 1;
-        }
-      }
-
-      // Check neighbors after binary search (in case we're between two values)
-      if (
-        left < sortedTimestamps.length &&
-        Math.abs(sortedTimestamps[left] - targetTs) <= tolerance
-      ) {
-        return true;
-      }
-      if (
-        right >= 0 &&
-        Math.abs(sortedTimestamps[right] - targetTs) <= tolerance
-      ) {
-        return true;
-      }
-
-      return false;
-    };
-
-    let totalScrobbles = 0;
-    let ourScrobbles = 0;
-
+    const split = createSourceSplit();
     for (const albumHistory of Object.values(index.albums)) {
       for (const play of albumHistory.plays) {
-        totalScrobbles++;
-        if (isOurScrobble(play.timestamp)) {
-          ourScrobbles++;
-        }
+        addToSourceSplit(split, play.source);
       }
     }
 
-    const otherScrobbles = totalScrobbles - ourScrobbles;
-
+    const totalScrobbles = split.physical + split.streaming;
     if (totalScrobbles === 0) {
       return [];
     }
 
     const result: SourceBreakdownItem[] = [];
 
-    if (ourScrobbles > 0) {
+    if (split.physical > 0) {
       result.push({
         source: 'RecordScrobbles',
-        count: ourScrobbles,
-        percentage: Math.round((ourScrobbles / totalScrobbles) * 100),
+        count: split.physical,
+        percentage: Math.round((split.physical / totalScrobbles) * 100),
       });
     }
 
-    if (otherScrobbles > 0) {
+    if (split.streaming > 0) {
       result.push({
         source: 'Other',
-        count: otherScrobbles,
-        percentage: Math.round((otherScrobbles / totalScrobbles) * 100),
+        count: split.streaming,
+        percentage: Math.round((split.streaming / totalScrobbles) * 100),
       });
     }
 
     return result.sort((a, b) => b.count - a.count);
   }
 
+  /**
+   * Physical vs streaming plays overall and per album, artist and month,
+   * optionally within a date range (Unix seconds). Albums and artists are
+   * the `limit` most played in the range; months are in date order.
+   */
+  async getSourceSplits(
+    limit: number = 20,
+    startDate?: number,
+    endDate?: number
+  ): Promise<SourceSplitReport> {
+    const report: SourceSplitReport = {
+      total: createSourceSplit(),
+      albums: [],
+      artists: [],
+      periods: [],
+    };
+    const index = await this.historyStorage.getIndex();
+    if (!index) {
+      return report;
+    }
+
+    const albums: AlbumSourceSplit[] = [];
+    const artists = new Map<string, PlaySourceSplit>();
+    const periods = new Map<string, PlaySourceSplit>();
+
+    for (const [key, albumHistory] of Object.entries(index.albums)) {
+      const [artist, album] = key.split('|');
+      const albumSplit = createSourceSplit();
+      const canonicals = this.resolveArtistNames(artist);
+
+      for (const play of albumHistory.plays) {
+        if (
+          (startDate !== undefined && play.timestamp < startDate) ||
+          (endDate !== undefined && play.timestamp > endDate)
+        ) {
+          continue;
+        }
+
+        addToSourceSplit(report.total, play.source);
+        addToSourceSplit(albumSplit, play.source);
+        for (const canonical of canonicals) {
+          if (!artists.has(canonical)) {
+            artists.set(canonical, createSourceSplit());
+          }
+          addToSourceSplit(artists.get(canonical)!, play.source);
+        }
+
+        const date = new Date(play.timestamp * 1000);
+        const period = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+        if (!periods.has(period)) {
+          periods.set(period, createSourceSplit());
+        }
+        addToSourceSplit(periods.get(period)!, play.source);
+      }
+
+      if (albumSplit.physical + albumSplit.streaming > 0) {
+        albums.push({
+          artist: this.capitalizeArtist(artist),
+          album: this.capitalizeTitle(album),
+          ...albumSplit,
+        });
+      }
+    }
+
+    const byPlays = (a: PlaySourceSplit, b: PlaySourceSplit) =>
+      b.physical + b.streaming - (a.physical + a.streaming);
+
+    finishSourceSplit(report.total);
+    report.albums = albums.sort(byPlays).slice(0, limit).map(finishSourceSplit);
+    report.artists = Array.from(artists.entries())
+      .map(([artist, split]) => ({
+        artist: this.artistNameResolver
+          ? this.artistNameResolver.getDisplayName(artist)
+          : this.capitalizeArtist(artist),
+        ...split,
+      }))
+      .sort(byPlays)
+      .slice(0, limit)
+      .map(finishSourceSplit);
+    report.periods = Array.from(periods.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, split]) => finishSourceSplit({ period, ...split }));
+
+    return report;
+  }
+
   /**
    * Get listening timeline data aggregated by week or month
    * @param period - Time period preset or 'custom' for custom range
@@ -2389,7 +2499,9 @@ export class StatsService {
    * @returns The queried date and an array of year summaries with album breakdowns
    */
   async getOnThisDay(month: number, day: number): Promise<OnThisDayResult> {
-    const index = await this.historyStorage.getIndex();
+    const index = this.playDatabase
+      ? null
+      : await this.historyStorage.getIndex();
     const currentYear = new Date().getFullYear();
 
     // Map: year -> Map<albumKey, { artist, album, playCount }>
@@ -2398,6 +2510,19 @@ export class StatsService {
       Map<string, { artist: string; album: string; playCount: number }>
     >();
 
+    if (this.playDatabase) {
+      for (const row of this.playDatabase.getOnThisDayPlayCounts(month, day)) {
+        if (!yearData.has(row.year)) {
+          yearData.set(row.year, new Map());
+        }
+        yearData.get(row.year)!.set(`${row.artist}|${row.album}`, {
+          artist: this.capitalizeArtist(row.artist),
+          album: this.capitalizeTitle(row.album),
+          playCount: row.playCount,
+        });
+      }
+    }
+
     if (index) {
       for (const [key, albumHistory] of Object.entries(index.albums)) {
         const [artist, album] = key.split('|');
@@ -19,7 +19,11 @@ import {
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
+import { EventStreamService } from './eventStreamService';
+import { JobReport, JobService } from './jobService';
+import { NotificationService } from './notificationService';
 import { OllamaService } from './ollamaService';
+import { PlayDatabase } from './playDatabase';
 import { WishlistService } from './wishlistService';
 
 const DEFAULT_TIMEOUT_MS = 15_000;
@@ -69,9 +73,16 @@ export class WebsiteMonitoringService {
 
   private scanInProgress = false;
   private scanAborted = false;
+  private scanJobId: string | null = null;
   private initialized = false;
 
   private wishlistService: WishlistService;
+  // Set when the scrobble history lives in SQLite instead of the JSON index
+  private playDatabase: PlayDatabase | null = null;
+
+  private eventStreamService: EventStreamService | null = null;
+  private jobService: JobService | null = null;
+  private notificationService: NotificationService | null = null;
 
   constructor(
     fileStorage: FileStorage,
@@ -84,6 +95,25 @@ export class WebsiteMonitoringService {
     this.initialize();
   }
 
+  /** Optional: publishes scan progress to the profile's event stream. */
+  setEventStreamService(service: EventStreamService): void {
+    this.eventStreamService = service;
+  }
+
+  /** Optional: mirrors scans onto the profile's job list. */
+  setJobService(service: JobService): void {
+    this.jobService = service;
+  }
+
+  /** Optional: raises new-item notifications in the profile's inbox. */
+  setNotificationService(service: NotificationService): void {
+    this.notificationService = service;
+  }
+
+  setPlayDatabase(playDatabase: PlayDatabase): void {
+    this.playDatabase = playDatabase;
+  }
+
   private async initialize(): Promise<void> {
     if (this.initialized) return;
     this.initialized = true;
@@ -169,6 +199,48 @@ export class WebsiteMonitoringService {
       status: merged,
     };
     await this.fileStorage.writeJSON(this.SCAN_STATUS_FILE, store);
+    this.reportScanJob(merged);
+    this.eventStreamService?.publish(
+      { type: 'scan-progress', scan: 'website', status: merged },
+      'scan-progress:website'
+    );
+  }
+
+  /**
+   * Mirror the scan status onto the shared job list.
+   */
+  private reportScanJob(status: WebsiteScanStatus): void {
+    if (!this.jobService || status.status === 'idle') return;
+
+    const processed = status.processedWebsites ?? 0;
+    const total = status.totalWebsites ?? 0;
+    const reports: Record<
+      Exclude<WebsiteScanStatus['status'], 'idle'>,
+      JobReport
+    > = {
+      scanning: {
+        state: 'running',
+        message: status.currentWebsiteName
+          ? `Scanning ${status.currentWebsiteName} (${processed}/${total} websites)`
+          : 'Scanning websites...',
+      },
+      completed: {
+        state: 'completed',
+        message: `Website scan complete: ${status.itemsFound ?? 0} new items`,
+      },
+      cancelled: { state: 'cancelled', message: 'Website scan cancelled' },
+      error: { state: 'failed', error: status.error },
+    };
+
+    this.scanJobId = this.jobService.report(
+      this.scanJobId,
+      'website-scan',
+      {
+        ...reports[status.status],
+        progress: total > 0 ? (processed / total) * 100 : undefined,
+      },
+      { onCancel: () => this.cancelScan() }
+    );
   }
 
   // ============================================
@@ -814,13 +886,20 @@ export class WebsiteMonitoringService {
     }
 
     try {
-      const index = await this.fileStorage.readJSON<{
-        albums?: Record<string, unknown>;
-      }>('history/scrobble-history-index.json');
-      for (const key of Object.keys(index?.albums ?? {})) {
+      const rawArtists = this.playDatabase
+        ? this.playDatabase
+            .getArtistPlayCounts(0, Number.MAX_SAFE_INTEGER)
+            .map(row => row.artist)
+        : Object.keys(
+            (
+              await this.fileStorage.readJSON<{
+                albums?: Record<string, unknown>;
+              }>('history/scrobble-history-index.json')
+            )?.albums ?? {}
+          ).map(key => key.split('|', 1)[0]);
+      for (const rawArtist of rawArtists) {
         // keys look like "artist|album" already lowercased — re-normalize so
         // "the von bondies|..." and "von bondies|..." both collapse correctly.
-        const rawArtist = key.split('|', 1)[0];
         if (rawArtist) ctx.lastfmArtists.add(normalizeArtistName(rawArtist));
       }
     } catch (error) {
@@ -1053,6 +1132,14 @@ export class WebsiteMonitoringService {
 
       let processed = 0;
       let itemsFound = 0;
+      const newItems: WebsiteItem[] = [];
+
+      // Tell the user about what was found, even if the scan was cancelled
+      const notifyNewItems = () =>
+        this.notificationService?.raise({
+          type: 'website-items',
+          items: newItems,
+        });
 
       // Detect Ollama availability up front
       let ollamaAvailable = false;
@@ -1070,6 +1157,7 @@ export class WebsiteMonitoringService {
       for (const website of sitesToScan) {
         if (this.scanAborted) {
           this.logger.info('Website scan cancelled between sites');
+          notifyNewItems();
           await this.writeScanStatus({
             status: 'cancelled',
             processedWebsites: processed,
@@ -1129,6 +1217,7 @@ export class WebsiteMonitoringService {
             item.websiteId = website.id;
             existingByKey.set(key, item);
             itemsStore.items.push(item);
+            newItems.push(item);
             itemsFound++;
           }
 
@@ -1157,6 +1246,7 @@ export class WebsiteMonitoringService {
         });
       }
 
+      notifyNewItems();
       await this.writeScanStatus({
         status: this.scanAborted ? 'cancelled' : 'completed',
         processedWebsites: processed,
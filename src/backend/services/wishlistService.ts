@@ -26,10 +26,13 @@ import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
 
 import { AuthService } from './authService';
+import { NotificationService } from './notificationService';
 
 // Cache expiration times
 const WISHLIST_CACHE_HOURS = 24;
 const VERSIONS_CACHE_DAYS = 7;
+// Raw versions pages in the shared Discogs response cache
+const VERSIONS_RESPONSE_TTL_MS = 24 * 60 * 60 * 1000;
 // const PRICE_CACHE_HOURS = 24; // Reserved for future use
 
 // Rate limiting
@@ -78,6 +81,8 @@ export class WishlistService {
   // Track sync state
   private syncInProgress = false;
 
+  private notificationService: NotificationService | null = null;
+
   constructor(fileStorage: FileStorage, authService: AuthService) {
     this.fileStorage = fileStorage;
     this.authService = authService;
@@ -99,6 +104,11 @@ export class WishlistService {
     this.axios = getDiscogsAxios();
   }
 
+  /** Optional: raises new-release notifications in the profile's inbox. */
+  setNotificationService(service: NotificationService): void {
+    this.notificationService = service;
+  }
+
   /**
    * Get OAuth headers for authenticated requests
    */
@@ -588,6 +598,7 @@ export class WishlistService {
             page,
             per_page: 50,
           },
+          discogsCache: { ttlMs: VERSIONS_RESPONSE_TTL_MS },
         });
 
         const { pagination, versions: versionData } = response.data;
@@ -1676,6 +1687,17 @@ export class WishlistService {
       // Save new releases and always update lastCheck timestamp
       await this.saveNewReleasesAndUpdateLastCheck(newReleases);
 
+      if (
+        newReleases.length > 0 &&
+        settings.newReleaseTracking?.notifyOnNewRelease !== false
+      ) {
+        this.notificationService?.raise({
+          type: 'wishlist-releases',
+          releases: newReleases,
+        });
+        await this.markNewReleasesAsNotified(newReleases.map(r => r.id));
+      }
+
       // Update sync status
       await this.updateNewReleaseSyncStatus({
         status: 'completed',
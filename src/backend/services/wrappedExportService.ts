@@ -0,0 +1,269 @@
+import { Resvg } from '@resvg/resvg-js';
+
+import {
+  WrappedData,
+  WrappedExportCard,
+  WrappedExportOptions,
+} from '../../shared/types';
+import { createLogger } from '../utils/logger';
+import {
+  buildWrappedCards,
+  CARD_WIDTH,
+  formatPeriodLabel,
+  renderCardSvg,
+  renderWrappedHtml,
+  WrappedCardContent,
+} from '../utils/wrappedExport';
+
+import { HiddenItemService } from './hiddenItemService';
+import { ImageService } from './imageService';
+import { WrappedService } from './wrappedService';
+
+// Card downloads arrive one request per card; keep the last export around
+// long enough that they share one Wrapped generation
+const EXPORT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const HIDDEN_ARTIST = 'Hidden artist';
+const HIDDEN_ALBUM = 'Hidden album';
+const HIDDEN_TRACK = 'Hidden track';
+
+interface PreparedExport {
+  key: string;
+  preparedAt: number;
+  data: WrappedData;
+  cards: WrappedCardContent[];
+  images: Map<string, string>;
+}
+
+/**
+ * Exports Wrapped for sharing outside the app: a single offline HTML page
+ * and 1080×1920 PNG story cards rendered from SVG. Cover art is downloaded
+ * through ImageService and inlined, and hidden artists and albums can be
+ * redacted first.
+ */
+export class WrappedExportService {
+  private logger = createLogger('WrappedExportService');
+  private prepared: PreparedExport | null = null;
+
+  constructor(
+    private wrappedService: WrappedService,
+    private imageService: ImageService,
+    private hiddenItemService: HiddenItemService
+  ) {}
+
+  /**
+   * A standalone HTML page with every card.
+   */
+  async exportHtml(
+    startDate: number,
+    endDate: number,
+    options: WrappedExportOptions = {}
+  ): Promise<string> {
+    const prepared = await this.prepare(startDate, endDate, options);
+    return renderWrappedHtml(
+      prepared.cards,
+      formatPeriodLabel(prepared.data.startDate, prepared.data.endDate),
+      prepared.data.generatedAt,
+      prepared.images
+    );
+  }
+
+  /**
+   * The cards available for a period, in slideshow order.
+   */
+  async listCards(
+    startDate: number,
+    endDate: number,
+    options: WrappedExportOptions = {}
+  ): Promise<WrappedExportCard[]> {
+    const prepared = await this.prepare(startDate, endDate, options);
+    return prepared.cards.map(({ id, title }) => ({ id, title }));
+  }
+
+  /**
+   * One card as a PNG, or null if the period has no card with that id.
+   */
+  async renderCardPng(
+    startDate: number,
+    endDate: number,
+    cardId: string,
+    options: WrappedExportOptions = {}
+  ): Promise<Buffer | null> {
+    const prepared = await this.prepare(startDate, endDate, options);
+    const card = prepared.cards.find(c => c.id === cardId);
+    if (!card) return null;
+
+    const svg = renderCardSvg(
+      card,
+      formatPeriodLabel(prepared.data.startDate, prepared.data.endDate),
+      prepared.images
+    );
+    const resvg = new Resvg(svg, {
+      fitTo: { mode: 'width', value: CARD_WIDTH },
+      font: { loadSystemFonts: true, defaultFontFamily: 'Arial' },
+    });
+    return resvg.render().asPng();
+  }
+
+  /**
+   * Generate (or reuse) the Wrapped data, redact it and download its images.
+   */
+  private async prepare(
+    startDate: number,
+    endDate: number,
+    options: WrappedExportOptions
+  ): Promise<PreparedExport> {
+    const key = `${startDate}|${endDate}|${options.redactHidden ? 1 : 0}`;
+    if (
+      this.prepared?.key === key &&
+      Date.now() - this.prepared.preparedAt < EXPORT_CACHE_TTL_MS
+    ) {
+      return this.prepared;
+    }
+
+    let data = await this.wrappedService.generateWrapped(startDate, endDate);
+    if (options.redactHidden) {
+      data = await this.redactHidden(data);
+    }
+    const cards = buildWrappedCards(data);
+
+    const urls = new Set<string>();
+    for (const card of cards) {
+      for (const item of card.items ?? []) {
+        if (item.imageUrl) urls.add(item.imageUrl);
+      }
+    }
+    const images = new Map<string, string>();
+    await Promise.all(
+      Array.from(urls).map(async url => {
+        const dataUri = await this.imageService.getImageDataUri(url);
+        if (dataUri) images.set(url, dataUri);
+      })
+    );
+
+    this.logger.info('Prepared Wrapped export', {
+      cards: cards.length,
+      images: images.size,
+      redacted: !!options.redactHidden,
+    });
+
+    this.prepared = { key, preparedAt: Date.now(), data, cards, images };
+    return this.prepared;
+  }
+
+  /**
+   * Replace names of hidden artists and albums, and drop their images, so
+   * nothing hidden can be recognised in the export.
+   */
+  private async redactHidden(data: WrappedData): Promise<WrappedData> {
+    const [hiddenArtists, hiddenAlbums] = await Promise.all([
+      this.hiddenItemService.getAllHiddenArtists(),
+      this.hiddenItemService.getAllHiddenAlbums(),
+    ]);
+    const normalize = (value: string): string => value.toLowerCase().trim();
+    const artists = new Set(hiddenArtists.map(a => normalize(a.artist)));
+    const albums = new Set(
+      hiddenAlbums.map(a => `${normalize(a.artist)}|${normalize(a.album)}`)
+    );
+
+    const isArtistHidden = (artist: string): boolean =>
+      artists.has(normalize(artist));
+    const isAlbumHidden = (artist: string, album?: string): boolean =>
+      isArtistHidden(artist) ||
+      (!!album && albums.has(`${normalize(artist)}|${normalize(album)}`));
+    const artistName = (artist: string): string =>
+      isArtistHidden(artist) ? HIDDEN_ARTIST : artist;
+
+    const { listening, collection } = data;
+    return {
+      ...data,
+      listening: {
+        ...listening,
+        topArtists: listening.topArtists.map(item =>
+          isArtistHidden(item.artist)
+            ? {
+                ...item,
+                name: HIDDEN_ARTIST,
+                artist: HIDDEN_ARTIST,
+                imageUrl: undefined,
+              }
+            : item
+        ),
+        topAlbums: listening.topAlbums.map(item =>
+          isAlbumHidden(item.artist, item.album)
+            ? {
+                ...item,
+                name: `${artistName(item.artist)} - ${HIDDEN_ALBUM}`,
+                artist: artistName(item.artist),
+                album: HIDDEN_ALBUM,
+                imageUrl: undefined,
+              }
+            : item
+        ),
+        topTracks: listening.topTracks.map(item =>
+          isAlbumHidden(item.artist, item.album)
+            ? {
+                ...item,
+                name: HIDDEN_TRACK,
+                artist: artistName(item.artist),
+                album: item.album ? HIDDEN_ALBUM : undefined,
+                imageUrl: undefined,
+              }
+            : item
+        ),
+        newArtistsList: listening.newArtistsList.map(item =>
+          isArtistHidden(item.name)
+            ? { ...item, name: HIDDEN_ARTIST, imageUrl: undefined }
+            : item
+        ),
+        ...(listening.sessions
+          ? {
+              sessions: {
+                ...listening.sessions,
+                topFullAlbum:
+                  listening.sessions.topFullAlbum &&
+                  isAlbumHidden(
+                    listening.sessions.topFullAlbum.artist,
+                    listening.sessions.topFullAlbum.album
+                  )
+                    ? {
+                        ...listening.sessions.topFullAlbum,
+                        artist: artistName(
+                          listening.sessions.topFullAlbum.artist
+                        ),
+                        album: HIDDEN_ALBUM,
+                      }
+                    : listening.sessions.topFullAlbum,
+              },
+            }
+          : {}),
+      },
+      collection: {
+        ...collection,
+        recordsList: collection.recordsList.map(item =>
+          isAlbumHidden(item.artist, item.title)
+            ? {
+                ...item,
+                artist: artistName(item.artist),
+                title: HIDDEN_ALBUM,
+                coverUrl: undefined,
+              }
+            : item
+        ),
+        mostPlayedNewAddition:
+          collection.mostPlayedNewAddition &&
+          isAlbumHidden(
+            collection.mostPlayedNewAddition.artist,
+            collection.mostPlayedNewAddition.title
+          )
+            ? {
+                ...collection.mostPlayedNewAddition,
+                artist: artistName(collection.mostPlayedNewAddition.artist),
+                title: HIDDEN_ALBUM,
+                coverUrl: undefined,
+              }
+            : collection.mostPlayedNewAddition,
+      },
+    };
+  }
+}
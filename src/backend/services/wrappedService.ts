@@ -1,27 +1,43 @@
 import {
   CollectionItem,
-  ScrobbleSession,
   WrappedCollectionItem,
   WrappedCollectionStats,
+  WrappedComparison,
   WrappedCrossSourceStats,
   WrappedData,
   WrappedListeningStats,
   WrappedNewArtist,
+  WrappedRankComparison,
+  WrappedRankMovement,
   WrappedTopItem,
 } from '../../shared/types';
 import { getAllCachedCollectionItems } from '../utils/collectionCache';
 import { FileStorage } from '../utils/fileStorage';
 import { createLogger } from '../utils/logger';
+import {
+  addToSourceSplit,
+  createSourceSplit,
+  finishSourceSplit,
+} from '../utils/playSources';
+import {
+  compareRankings,
+  compareStat,
+  RankedEntry,
+} from '../utils/wrappedComparison';
 
 import { ArtistNameResolver } from './artistNameResolver';
 import { DiscogsService } from './discogsService';
 import { ImageService } from './imageService';
 import { ScrobbleHistoryStorage } from './scrobbleHistoryStorage';
+import { SessionReconstructionService } from './sessionReconstructionService';
 import { StatsService } from './statsService';
 
 // Average track duration in minutes for listening time estimation
 const AVG_TRACK_DURATION_MINUTES = 3.5;
 
+// Length of the top lists compared in compare mode
+const COMPARE_TOP_LIMIT = 10;
+
 /**
  * Service for generating Wrapped (Period In Review) data.
  * Aggregates listening and collection stats for a given date range.
@@ -36,7 +52,8 @@ export class WrappedService {
     private historyStorage: ScrobbleHistoryStorage,
     private discogsService: DiscogsService,
     private imageService: ImageService,
-    private fileStorage: FileStorage
+    private fileStorage: FileStorage,
+    private sessionReconstructionService?: SessionReconstructionService
   ) {}
 
   setArtistNameResolver(resolver: ArtistNameResolver): void {
@@ -101,6 +118,206 @@ export class WrappedService {
     };
   }
 
+  /**
+   * Generate wrapped data for two ranges and the deltas between them.
+   * @param startDate Start of the current range in milliseconds
+   * @param endDate End of the current range in milliseconds
+   * @param compareStartDate Start of the earlier range in milliseconds
+   * @param compareEndDate End of the earlier range in milliseconds
+   */
+  async compareWrapped(
+    startDate: number,
+    endDate: number,
+    compareStartDate: number,
+    compareEndDate: number
+  ): Promise<WrappedComparison> {
+    this.logger.info('Comparing wrapped periods', {
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+      compareStartDate: new Date(compareStartDate).toISOString(),
+      compareEndDate: new Date(compareEndDate).toISOString(),
+    });
+
+    const [current, previous, currentRankings, previousRankings] =
+      await Promise.all([
+        this.generateWrapped(startDate, endDate),
+        this.generateWrapped(compareStartDate, compareEndDate),
+        this.getFullRankings(startDate / 1000, endDate / 1000),
+        this.getFullRankings(compareStartDate / 1000, compareEndDate / 1000),
+      ]);
+
+    const topArtists = compareRankings(
+      currentRankings.artists,
+      previousRankings.artists,
+      COMPARE_TOP_LIMIT
+    );
+    const topAlbums = compareRankings(
+      currentRankings.albums,
+      previousRankings.albums,
+      COMPARE_TOP_LIMIT
+    );
+    const topTracks = compareRankings(
+      currentRankings.tracks,
+      previousRankings.tracks,
+      COMPARE_TOP_LIMIT
+    );
+
+    await Promise.all([
+      this.enrichArtistMovementsWithImages(topArtists),
+      this.enrichAlbumMovementsWithImages(topAlbums),
+    ]);
+
+    return {
+      current,
+      previous,
+      listening: {
+        totalScrobbles: compareStat(
+          current.listening.totalScrobbles,
+          previous.listening.totalScrobbles
+        ),
+        estimatedListeningHours: compareStat(
+          current.listening.estimatedListeningHours,
+          previous.listening.estimatedListeningHours
+        ),
+        uniqueArtists: compareStat(
+          current.listening.uniqueArtists,
+          previous.listening.uniqueArtists
+        ),
+        uniqueAlbums: compareStat(
+          current.listening.uniqueAlbums,
+          previous.listening.uniqueAlbums
+        ),
+        newArtistsDiscovered: compareStat(
+          current.listening.newArtistsDiscovered,
+          previous.listening.newArtistsDiscovered
+        ),
+      },
+      topArtists,
+      topAlbums,
+      topTracks,
+      stoppedPlaying: topArtists.dropOuts.filter(
+        item => item.currentPlayCount === 0
+      ),
+      collection: {
+        recordsAdded: compareStat(
+          current.collection.recordsAdded,
+          previous.collection.recordsAdded
+        ),
+      },
+      crossSource: {
+        vinylScrobbles: compareStat(
+          current.crossSource.vinylScrobbles,
+          previous.crossSource.vinylScrobbles
+        ),
+        otherScrobbles: compareStat(
+          current.crossSource.otherScrobbles,
+          previous.crossSource.otherScrobbles
+        ),
+        vinylPercentage: compareStat(
+          current.crossSource.vinylPercentage,
+          previous.crossSource.vinylPercentage
+        ),
+      },
+    };
+  }
+
+  /**
+   * Rank every artist, album and track played in a range, so rank movements
+   * can be measured from outside the top list.
+   */
+  private async getFullRankings(
+    startSec: number,
+    endSec: number
+  ): Promise<{
+    artists: RankedEntry[];
+    albums: RankedEntry[];
+    tracks: RankedEntry[];
+  }> {
+    const limit = Number.MAX_SAFE_INTEGER;
+    const [artists, albums, tracks] = await Promise.all([
+      this.statsService.getTopArtists('custom', limit, startSec, endSec),
+      this.statsService.getTopAlbums('custom', limit, startSec, endSec),
+      this.statsService.getTopTracks('custom', limit, startSec, endSec),
+    ]);
+
+    return {
+      artists: artists.map(a => ({
+        key: a.artist.toLowerCase().trim(),
+        name: a.artist,
+        artist: a.artist,
+        playCount: a.playCount,
+      })),
+      albums: albums.map(a => ({
+        key: `${a.artist.toLowerCase().trim()}|${a.album.toLowerCase().trim()}`,
+        name: a.album,
+        artist: a.artist,
+        album: a.album,
+        playCount: a.playCount,
+      })),
+      tracks: tracks.map(t => ({
+        key: `${t.artist.toLowerCase().trim()}|${t.track.toLowerCase().trim()}`,
+        name: t.track,
+        artist: t.artist,
+        album: t.album,
+        playCount: t.playCount,
+      })),
+    };
+  }
+
+  /**
+   * Enrich compared artists (top list and drop-outs) with image URLs.
+   */
+  private async enrichArtistMovementsWithImages(
+    comparison: WrappedRankComparison
+  ): Promise<void> {
+    const movements = this.uniqueMovements(comparison);
+    if (movements.length === 0) return;
+
+    const artistImages = await this.imageService.batchGetArtistImages(
+      movements.map(m => m.artist)
+    );
+    for (const movement of movements) {
+      const imageUrl = artistImages.get(movement.artist.toLowerCase().trim());
+      if (imageUrl) movement.imageUrl = imageUrl;
+    }
+  }
+
+  /**
+   * Enrich compared albums (top list and drop-outs) with cover art URLs.
+   */
+  private async enrichAlbumMovementsWithImages(
+    comparison: WrappedRankComparison
+  ): Promise<void> {
+    const movements = this.uniqueMovements(comparison);
+    if (movements.length === 0) return;
+
+    const albumCovers = await this.imageService.batchGetAlbumCovers(
+      movements.map(m => ({ artist: m.artist, album: m.album || '' }))
+    );
+    for (const movement of movements) {
+      const key = `${movement.artist.toLowerCase().trim()}|${(movement.album || '').toLowerCase().trim()}`;
+      const imageUrl = albumCovers.get(key);
+      if (imageUrl) movement.imageUrl = imageUrl;
+    }
+  }
+
+  /**
+   * newEntries and biggestClimber reference objects in items, while dropOuts
+   * are separate objects from the earlier ranking. Collect each object once
+   * so enrichment covers every list without looking anything up twice.
+   */
+  private uniqueMovements(
+    comparison: WrappedRankComparison
+  ): WrappedRankMovement[] {
+    return Array.from(
+      new Set([
+        ...comparison.items,
+        ...comparison.newEntries,
+        ...comparison.dropOuts,
+      ])
+    );
+  }
+
   /**
    * Compute all listening stats from the scrobble history index.
    */
@@ -273,6 +490,14 @@ export class WrappedService {
       .map(([date, count]) => ({ date, count }))
       .sort((a, b) => a.date.localeCompare(b.date));
 
+    // Full-album plays from reconstructed listening sessions
+    const sessions = this.sessionReconstructionService
+      ? await this.sessionReconstructionService.getWrappedStats(
+          startSec,
+          endSec
+        )
+      : undefined;
+
     return {
       totalScrobbles,
       estimatedListeningHours,
@@ -287,6 +512,7 @@ export class WrappedService {
       peakListeningHour,
       longestStreak,
       heatmapData,
+      ...(sessions ? { sessions } : {}),
     };
   }
 
@@ -447,8 +673,8 @@ export class WrappedService {
   }
 
   /**
-   * Compute source breakdown for a specific date range.
-   * Identifies RecordScrobbles scrobbles by matching timestamps from session files.
+   * Compute source breakdown for a specific date range, from the source
+   * each play is tagged with in the history index.
    */
   private async computeSourceBreakdownForRange(
     startSec: number,
@@ -459,91 +685,21 @@ export class WrappedService {
       return { vinyl: 0, other: 0, vinylPercentage: 0 };
     }
 
-    // Load our scrobble session timestamps
-    const ourTimestamps = new Set<number>();
-    try {
-      const files = await this.fileStorage.listFiles('scrobbles');
-      for (const file of files) {
-        if (file.startsWith('session-')) {
-          const session = await this.fileStorage.readJSON<ScrobbleSession>(
-            `scrobbles/${file}`
-          );
-          if (session && session.status === 'completed') {
-            for (const track of session.tracks) {
-              if (track.timestamp) {
-                ourTimestamps.add(track.timestamp);
-              }
-            }
-          }
-        }
-      }
-    } catch {
-      // If sessions can't be read, all will be "Other"
-    }
-
-    const sortedTimestamps = Array.from(ourTimestamps).sort((a, b) => a - b);
-
-    let vinyl = 0;
-    let other = 0;
-
+    const split = createSourceSplit();
     for (const albumHistory of Object.values(index.albums)) {
       for (const play of albumHistory.plays) {
         if (play.timestamp >= startSec && play.timestamp <= endSec) {
-          if (this.isOurScrobble(play.timestamp, sortedTimestamps)) {
-            vinyl++;
-          } else {
-            other++;
-          }
+          addToSourceSplit(split, play.source);
         }
       }
     }
+    finishSourceSplit(split);
 
-    const total = vinyl + other;
-    const vinylPercentage = total > 0 ? Math.round((vinyl / total) * 100) : 0;
-
-    return { vinyl, other, vinylPercentage };
-  }
-
-  /**
-   * Binary search to check if a timestamp matches one of our scrobble sessions.
-   */
-  private isOurScrobble(
-    targetTs: number,
-    sortedTimestamps: number[],
-    tolerance: number = 5
-  ): boolean {
-    if (sortedTimestamps.length === 0) return false;
-
-    let left = 0;
-    let right = sortedTimestamps.length - 1;
-
-    while (left <= right) {
-      const mid = Math.floor((left + right) / 2);
-      if (Math.abs(sortedTimestamps[mid] - targetTs) <= tolerance) {
-        return true;
-      }
-      if (sortedTimestamps[mid] < targetTs) {
-        left = mid + 1;
-      } else {
-        right = mid - 1;
-      }
-    }
-
-    // Check neighbors
-    if (
-      left < sortedTimestamps.length &&
-      Math.abs(sortedTimestamps[left] - targetTs) <= tolerance
-    ) {
-      return true;
-    }
-    if (
-      right >= 0 &&
-      Math.abs(sortedTimestamps[right] - targetTs) <= tolerance
-    ) {
-      return true;
-    }
-
-    return false;
+    return {
+      vinyl: split.physical,
+      other: split.streaming,
+      vinylPercentage: split.physicalPercentage,
+    };
   }
 
   /**
@@ -1,4 +1,37 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+import axios, {
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+
+import {
+  DiscogsBudget,
+  DiscogsRequestPriority,
+  DiscogsResponseCacheEntry,
+} from '../../shared/types';
+
+import { FileStorage } from './fileStorage';
+import { createLogger } from './logger';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * Discogs queue priority. Defaults to the priority of the surrounding
+     * withDiscogsPriority() call, or interactive outside one.
+     */
+    priority?: DiscogsRequestPriority;
+    /**
+     * Keep a GET response on disk. Within ttlMs it is served without a
+     * request; after that it is revalidated with its ETag when it has one.
+     */
+    discogsCache?: { ttlMs: number };
+  }
+}
+
+const log = createLogger('DiscogsClient');
 
 /**
  * Token-bucket rate limiter with adaptive throttling based on Discogs API headers.
@@ -93,6 +126,49 @@ class TokenBucket {
   }
 }
 
+/**
+ * Waiting requests, handed a token-bucket slot one at a time. Every
+ * interactive request goes before any background one, so a page load is
+ * never stuck behind a long scan.
+ */
+class PriorityRequestQueue {
+  private waiting: Record<DiscogsRequestPriority, Array<() => void>> = {
+    interactive: [],
+    background: [],
+  };
+  private draining = false;
+
+  constructor(private readonly bucket: TokenBucket) {}
+
+  acquire(priority: DiscogsRequestPriority): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting[priority].push(resolve);
+      void this.drain();
+    });
+  }
+
+  size(priority: DiscogsRequestPriority): number {
+    return this.waiting[priority].length;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (this.waiting.interactive.length + this.waiting.background.length) {
+        // Pick the request only once a slot is free, so anything interactive
+        // that arrived during the wait still goes first
+        await this.bucket.acquire();
+        const next =
+          this.waiting.interactive.shift() ?? this.waiting.background.shift();
+        next?.();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+}
+
 /** Current rate limit state from Discogs API headers */
 export interface RateLimitState {
   /** Total requests allowed per minute */
@@ -109,18 +185,21 @@ export interface RateLimitState {
 
 /**
  * Shared rate-limited Axios instance for all Discogs API calls.
- * Uses a token-bucket algorithm with adaptive throttling:
+ * Every service shares one budget:
  * - Allows bursting up to 5 rapid requests
  * - Throttles to 1 req/sec (Discogs allows 60 req/min authenticated)
- * - Reads X-Discogs-Ratelimit-Remaining from responses
+ * - Queues requests by priority; interactive before background
+ * - Reads X-Discogs-Ratelimit-* from responses
  * - Proactively slows down when approaching the limit
  * - Pauses all requests when a 429 is received
+ * - Optionally caches GET responses on disk (see `discogsCache`)
  *
  * Individual requests can override the timeout via config:
  *   this.axios.get('/path', { timeout: 30000 })
  */
 let sharedInstance: AxiosInstance | null = null;
 const bucket = new TokenBucket(5, 1);
+const queue = new PriorityRequestQueue(bucket);
 
 /** Threshold below which we start throttling proactively */
 const RATE_LIMIT_THROTTLE_THRESHOLD = 10;
@@ -128,6 +207,9 @@ const RATE_LIMIT_THROTTLE_THRESHOLD = 10;
 /** How long to pause on 429 (Discogs rate limit window is ~60 seconds) */
 const RATE_LIMIT_PAUSE_MS = 30000;
 
+/** Directory for cached responses */
+const CACHE_DIR = 'cache/discogs';
+
 /** Current rate limit state, updated from response headers */
 let rateLimitState: RateLimitState = {
   limit: 60,
@@ -137,6 +219,26 @@ let rateLimitState: RateLimitState = {
   lastUpdated: 0,
 };
 
+const emptyCounters = (): Pick<
+  DiscogsBudget,
+  'requests' | 'rateLimited' | 'cache'
+> => ({
+  requests: { interactive: 0, background: 0 },
+  rateLimited: 0,
+  cache: { hits: 0, revalidated: 0, misses: 0 },
+});
+
+let counters = emptyCounters();
+
+/** Priority for requests made inside withDiscogsPriority() */
+const priorityContext = new AsyncLocalStorage<DiscogsRequestPriority>();
+
+/** Set once the server has a data directory; no caching until then */
+let cacheStorage: FileStorage | null = null;
+
+/** Responses served from the cache, which must not be written back */
+const cachedResponses = new WeakSet<AxiosResponse>();
+
 export function getDiscogsAxios(): AxiosInstance {
   if (sharedInstance) return sharedInstance;
 
@@ -148,9 +250,28 @@ export function getDiscogsAxios(): AxiosInstance {
     },
   });
 
-  // Request interceptor: token-bucket rate limiting
+  // Request interceptor: serve from cache, else wait for a queue slot
   sharedInstance.interceptors.request.use(async config => {
-    await bucket.acquire();
+    const entry = await readCacheEntry(config);
+    if (entry && Date.now() - entry.storedAt < config.discogsCache!.ttlMs) {
+      counters.cache.hits++;
+      config.adapter = async () => cachedResponse(config, entry);
+      return config;
+    }
+
+    if (entry?.etag) {
+      // A 304 is answered from the stored entry in the response interceptor
+      const validateStatus = config.validateStatus;
+      config.headers.set('If-None-Match', entry.etag);
+      config.validateStatus = status =>
+        status === 304 ||
+        (validateStatus ? validateStatus(status) : status < 300);
+    }
+
+    const priority =
+      config.priority ?? priorityContext.getStore() ?? 'interactive';
+    await queue.acquire(priority);
+    counters.requests[priority]++;
     return config;
   });
 
@@ -158,7 +279,7 @@ export function getDiscogsAxios(): AxiosInstance {
   sharedInstance.interceptors.response.use(
     (response: AxiosResponse) => {
       updateRateLimitFromHeaders(response);
-      return response;
+      return storeCachedResponse(response);
     },
     error => {
       // On 429, pause the bucket to prevent further requests
@@ -167,6 +288,7 @@ export function getDiscogsAxios(): AxiosInstance {
         bucket.pause(RATE_LIMIT_PAUSE_MS);
         rateLimitState.isThrottled = true;
         rateLimitState.lastUpdated = Date.now();
+        counters.rateLimited++;
       }
       return Promise.reject(error);
     }
@@ -175,6 +297,108 @@ export function getDiscogsAxios(): AxiosInstance {
   return sharedInstance;
 }
 
+/**
+ * Run a task with every Discogs request inside it at the given priority.
+ * Scans and syncs wrap their work in 'background'.
+ */
+export function withDiscogsPriority<T>(
+  priority: DiscogsRequestPriority,
+  task: () => Promise<T>
+): Promise<T> {
+  return priorityContext.run(priority, task);
+}
+
+/**
+ * Enable the on-disk response cache. Called once at server startup.
+ */
+export function initializeDiscogsCache(fileStorage: FileStorage): void {
+  cacheStorage = fileStorage;
+}
+
+function cacheFilePath(url: string): string {
+  const hash = crypto.createHash('sha256').update(url).digest('hex');
+  return `${CACHE_DIR}/${hash.slice(0, 32)}.json`;
+}
+
+function cacheUrl(config: InternalAxiosRequestConfig): string | null {
+  if (!cacheStorage || !config.discogsCache || !sharedInstance) return null;
+  if ((config.method ?? 'get').toLowerCase() !== 'get') return null;
+  return sharedInstance.getUri(config);
+}
+
+async function readCacheEntry(
+  config: InternalAxiosRequestConfig
+): Promise<DiscogsResponseCacheEntry | null> {
+  const url = cacheUrl(config);
+  if (!url) return null;
+
+  try {
+    const entry = await cacheStorage!.readJSON<DiscogsResponseCacheEntry>(
+      cacheFilePath(url)
+    );
+    // Guard against a hash collision
+    return entry?.url === url ? entry : null;
+  } catch (error) {
+    log.warn(`Ignoring unreadable Discogs cache entry for ${url}`, error);
+    return null;
+  }
+}
+
+function cachedResponse(
+  config: InternalAxiosRequestConfig,
+  entry: DiscogsResponseCacheEntry
+): AxiosResponse {
+  const response: AxiosResponse = {
+    data: entry.data,
+    status: 200,
+    statusText: 'OK',
+    headers: entry.etag ? { etag: entry.etag } : {},
+    config,
+  };
+  cachedResponses.add(response);
+  return response;
+}
+
+/**
+ * Store a fresh response, or answer a 304 from the stored entry.
+ * Cache write failures are logged; the response is still returned.
+ */
+async function storeCachedResponse(
+  response: AxiosResponse
+): Promise<AxiosResponse> {
+  if (cachedResponses.has(response)) return response;
+  const url = cacheUrl(response.config);
+  if (!url) return response;
+
+  const filePath = cacheFilePath(url);
+  try {
+    if (response.status === 304) {
+      const entry = await readCacheEntry(response.config);
+      if (!entry) return response;
+      counters.cache.revalidated++;
+      await cacheStorage!.writeJSON(filePath, {
+        ...entry,
+        storedAt: Date.now(),
+      });
+      return { ...response, status: 200, statusText: 'OK', data: entry.data };
+    }
+
+    counters.cache.misses++;
+    const etag = response.headers?.['etag'];
+    const entry: DiscogsResponseCacheEntry = {
+      schemaVersion: 1,
+      url,
+      ...(typeof etag === 'string' && { etag }),
+      storedAt: Date.now(),
+      data: response.data,
+    };
+    await cacheStorage!.writeJSON(filePath, entry);
+  } catch (error) {
+    log.warn(`Failed to cache Discogs response for ${url}`, error);
+  }
+  return response;
+}
+
 /**
  * Update rate limit state from Discogs response headers.
  * Proactively throttles when approaching the limit.
@@ -222,6 +446,23 @@ export function getRateLimitState(): RateLimitState {
   };
 }
 
+/**
+ * Get the shared budget with queue and cache counters, for the UI.
+ */
+export function getDiscogsBudget(): DiscogsBudget {
+  return {
+    ...getRateLimitState(),
+    queued: {
+      interactive: queue.size('interactive'),
+      background: queue.size('background'),
+    },
+    requests: { ...counters.requests },
+    rateLimited: counters.rateLimited,
+    cache: { ...counters.cache },
+  };
+}
+
 export function resetDiscogsAxios(): void {
   sharedInstance = null;
+  counters = emptyCounters();
 }
@@ -5,17 +5,78 @@ import { createLogger } from './logger';
 
 const log = createLogger('FileStorage');
 
+/**
+ * Caches of public metadata that every profile reads from the top-level
+ * data directory, so cover art, Discogs responses and MusicBrainz lookups
+ * are fetched once per installation rather than once per profile.
+ */
+export const SHARED_CACHE_PATHS = [
+  'images',
+  'cache',
+  'embeddings/mb-artist-genres.json',
+];
+
+export interface FileStorageOptions {
+  // Directory that SHARED_CACHE_PATHS resolve against instead of dataDir
+  sharedDir?: string;
+}
+
 export class FileStorage {
   private dataDir: string;
+  private sharedDir: string | null;
   // Strict allowlist pattern for file/directory names
   private readonly SAFE_PATH_PATTERN = /^[a-zA-Z0-9_-]+$/;
   private readonly SAFE_FILENAME_PATTERN =
-    /^[a-zA-Z0-9_-]+\.(json|txt|md|bak)$/;
+    /^[a-zA-Z0-9_-]+\.(json|txt|md|bak|db)$/;
   // Maximum number of backup files to keep per original file
   private readonly MAX_BACKUPS = 10;
 
-  constructor(dataDir: string = process.env.DATA_DIR || './data') {
+  constructor(
+    dataDir: string = process.env.DATA_DIR || './data',
+    options: FileStorageOptions = {}
+  ) {
     this.dataDir = path.resolve(dataDir);
+    this.sharedDir = options.sharedDir ? path.resolve(options.sharedDir) : null;
+  }
+
+  /**
+   * Absolute path of the directory this storage reads and writes.
+   */
+  getDataDir(): string {
+    return this.dataDir;
+  }
+
+  /**
+   * Validated absolute path of a file, for libraries that open files
+   * themselves (such as the SQLite play database).
+   */
+  resolvePath(filePath: string): string {
+    return this.validateAndResolvePath(filePath);
+  }
+
+  /**
+   * Create storage for a profile's data directory (profiles/<id>), sharing
+   * this storage's caches.
+   */
+  forProfile(profileId: string): FileStorage {
+    this.validatePathComponent(profileId);
+    return new FileStorage(path.join(this.dataDir, 'profiles', profileId), {
+      sharedDir: this.sharedDir ?? this.dataDir,
+    });
+  }
+
+  /**
+   * Shared caches resolve against the shared directory; everything else
+   * against this storage's own directory.
+   */
+  private getRootFor(pathParts: string[]): string {
+    if (!this.sharedDir) return this.dataDir;
+
+    const relativePath = pathParts.join('/');
+    const isShared = SHARED_CACHE_PATHS.some(
+      shared => relativePath === shared || relativePath.startsWith(`${shared}/`)
+    );
+    return isShared ? this.sharedDir : this.dataDir;
   }
 
   /**
@@ -59,8 +120,9 @@ export class FileStorage {
     pathParts.forEach(part => this.validatePathComponent(part));
 
     // Resolve the full path
-    const fullPath = path.resolve(this.dataDir, filePath);
-    const resolvedDataDir = path.resolve(this.dataDir);
+    const root = this.getRootFor(pathParts);
+    const fullPath = path.resolve(root, filePath);
+    const resolvedDataDir = path.resolve(root);
 
     // Ensure the resolved path is within dataDir
     if (
@@ -142,6 +204,17 @@ export class FileStorage {
     }
   }
 
+  /**
+   * Recursively removes a directory and everything in it.
+   */
+  async deleteDirectory(directory: string): Promise<void> {
+    const fullPath = this.validateAndResolvePath(directory);
+    if (fullPath === path.resolve(this.dataDir)) {
+      throw new Error('Cannot delete the data directory');
+    }
+    await fs.rm(fullPath, { recursive: true, force: true });
+  }
+
   async listFiles(directory: string): Promise<string[]> {
     try {
       const fullPath = this.validateAndResolvePath(directory);
@@ -0,0 +1,337 @@
+/**
+ * Parsers for listening history export files, used to build the scrobble
+ * history index without paging through the Last.fm API.
+ *
+ * Supported formats:
+ * - Last.fm CSV: either with a header row (uts, artist, album, track, ...)
+ *   or the headerless "artist,album,track,date" layout where the date looks
+ *   like "31 Jan 2024 12:34" (UTC)
+ * - Last.fm JSON: user.getRecentTracks pages or flat track objects
+ * - ListenBrainz: a JSON array of listens or the JSON-lines dump
+ */
+
+import { HistoryImportFormat } from '../../shared/types';
+
+export interface ImportedPlay {
+  artist: string;
+  album: string;
+  track: string;
+  timestamp: number; // seconds
+}
+
+export interface ParsedHistoryExport {
+  format: HistoryImportFormat;
+  plays: ImportedPlay[];
+  skipped: number; // rows missing an artist, album, track or time
+}
+
+export class HistoryExportParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryExportParseError';
+  }
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+// "31 Jan 2024 12:34" or "31 Jan 2024, 12:34"
+const LASTFM_DATE_PATTERN =
+  /^(\d{1,2}) ([A-Za-z]{3}) (\d{4}),? (\d{1,2}):(\d{2})$/;
+
+/**
+ * Parse a play time into Unix seconds. Accepts seconds, milliseconds, the
+ * Last.fm export date format and ISO dates; returns 0 when unparseable.
+ */
+export function parsePlayTime(value: unknown): number {
+  if (typeof value === 'number') {
+    return value > 1e12 ? Math.floor(value / 1000) : Math.floor(value);
+  }
+  if (typeof value !== 'string') return 0;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parsePlayTime(Number(trimmed));
+  }
+
+  const match = trimmed.match(LASTFM_DATE_PATTERN);
+  if (match) {
+    const month = MONTHS[match[2].toLowerCase()];
+    if (month === undefined) return 0;
+    return Math.floor(
+      Date.UTC(
+        Number(match[3]),
+        month,
+        Number(match[1]),
+        Number(match[4]),
+        Number(match[5])
+      ) / 1000
+    );
+  }
+
+  const parsed = Date.parse(trimmed);
+  return isNaN(parsed) ? 0 : Math.floor(parsed / 1000);
+}
+
+/**
+ * Split CSV content into rows of fields. Handles quoted fields with
+ * escaped quotes ("") and line breaks inside quotes.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+const text = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (value && typeof value === 'object') {
+    const named = value as { '#text'?: unknown; name?: unknown };
+    return text(named['#text'] ?? named.name);
+  }
+  return '';
+};
+
+const toPlay = (
+  artist: unknown,
+  album: unknown,
+  track: unknown,
+  time: unknown
+): ImportedPlay | null => {
+  const play = {
+    artist: text(artist),
+    album: text(album),
+    track: text(track),
+    timestamp: parsePlayTime(time),
+  };
+  return play.artist && play.album && play.track && play.timestamp > 0
+    ? play
+    : null;
+};
+
+const collectPlays = (
+  rows: unknown[],
+  convert: (row: Record<string, unknown>) => ImportedPlay | null,
+  format: HistoryImportFormat
+): ParsedHistoryExport => {
+  const plays: ImportedPlay[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const play =
+      row && typeof row === 'object'
+        ? convert(row as Record<string, unknown>)
+        : null;
+    if (play) {
+      plays.push(play);
+    } else {
+      skipped++;
+    }
+  }
+  return { format, plays, skipped };
+};
+
+function parseLastFmCsv(content: string): ParsedHistoryExport {
+  const rows = parseCsv(content);
+  if (rows.length === 0) {
+    return { format: 'lastfm-csv', plays: [], skipped: 0 };
+  }
+
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  const hasHeader = header.includes('artist');
+  const column = (...names: string[]) =>
+    names.map(name => header.indexOf(name)).find(index => index >= 0) ?? -1;
+
+  const columns = hasHeader
+    ? {
+        artist: column('artist', 'artist_name'),
+        album: column('album', 'album_name', 'release_name'),
+        track: column('track', 'track_name', 'name', 'title'),
+        time: column('uts', 'timestamp', 'date', 'utc_time', 'time'),
+      }
+    : { artist: 0, album: 1, track: 2, time: 3 };
+
+  if (Object.values(columns).some(index => index < 0)) {
+    throw new HistoryExportParseError(
+      'CSV needs artist, album, track and time columns'
+    );
+  }
+
+  return collectPlays(
+    hasHeader ? rows.slice(1) : rows,
+    row => {
+      const fields = row as unknown as string[];
+      return toPlay(
+        fields[columns.artist],
+        fields[columns.album],
+        fields[columns.track],
+        fields[columns.time]
+      );
+    },
+    'lastfm-csv'
+  );
+}
+
+type TrackPage = { track?: unknown; recenttracks?: { track?: unknown } };
+
+const pageTracks = (value: unknown): unknown[] | null => {
+  if (!value || typeof value !== 'object') return null;
+  const page = value as TrackPage;
+  if (Array.isArray(page.recenttracks?.track)) return page.recenttracks.track;
+  if (Array.isArray(page.track)) return page.track;
+  return null;
+};
+
+/**
+ * Flatten Last.fm JSON exports into track objects: getRecentTracks
+ * responses, pages of tracks, or a plain list of tracks.
+ */
+function flattenLastFmTracks(data: unknown): unknown[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(item =>
+      Array.isArray(item) || pageTracks(item)
+        ? flattenLastFmTracks(item)
+        : [item]
+    );
+  }
+  return pageTracks(data) || [];
+}
+
+function parseLastFmJson(data: unknown): ParsedHistoryExport {
+  return collectPlays(
+    flattenLastFmTracks(data),
+    track => {
+      // Skip the "now playing" entry getRecentTracks puts first
+      const attr = track['@attr'] as { nowplaying?: string } | undefined;
+      if (attr?.nowplaying === 'true') return null;
+
+      const date = track.date as { uts?: unknown } | string | undefined;
+      return toPlay(
+        track.artist,
+        track.album,
+        typeof track.name === 'string' ? track.name : track.track,
+        (typeof date === 'object' ? date?.uts : date) ??
+          track.uts ??
+          track.timestamp
+      );
+    },
+    'lastfm-json'
+  );
+}
+
+function parseListenBrainz(listens: unknown[]): ParsedHistoryExport {
+  return collectPlays(
+    listens,
+    listen => {
+      const metadata = (listen.track_metadata || {}) as Record<string, unknown>;
+      return toPlay(
+        metadata.artist_name,
+        metadata.release_name,
+        metadata.track_name,
+        listen.listened_at
+      );
+    },
+    'listenbrainz'
+  );
+}
+
+const isListen = (value: unknown): boolean =>
+  !!value &&
+  typeof value === 'object' &&
+  ('listened_at' in value || 'track_metadata' in value);
+
+/**
+ * Parse an export file. The format is detected from the content unless
+ * given; throws HistoryExportParseError for content that isn't a
+ * supported export.
+ */
+export function parseHistoryExport(
+  content: string,
+  format?: HistoryImportFormat
+): ParsedHistoryExport {
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+  if (!trimmed) {
+    throw new HistoryExportParseError('The export file is empty');
+  }
+
+  const looksLikeJson = trimmed.startsWith('[') || trimmed.startsWith('{');
+  if (format === 'lastfm-csv' || (!format && !looksLikeJson)) {
+    return parseLastFmCsv(trimmed);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    // ListenBrainz dumps are one listen per line
+    try {
+      data = trimmed
+        .split(/\r?\n/)
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+    } catch {
+      throw new HistoryExportParseError('The export file is not valid JSON');
+    }
+  }
+
+  const listens = Array.isArray(data)
+    ? data
+    : ((data as { payload?: { listens?: unknown } })?.payload?.listens ?? null);
+  if (
+    format === 'listenbrainz' ||
+    (!format && Array.isArray(listens) && listens.some(isListen))
+  ) {
+    if (!Array.isArray(listens)) {
+      throw new HistoryExportParseError('No ListenBrainz listens found');
+    }
+    return parseListenBrainz(listens);
+  }
+
+  return parseLastFmJson(data);
+}
@@ -0,0 +1,41 @@
+import { PlaySourceSplit, ScrobbleSource } from '../../shared/types';
+
+/**
+ * Whether a play came off a record: anything the app scrobbled, whether
+ * from a release, the vinyl recognizer or a memory scrobble. Untagged plays
+ * count as streaming, the same as external ones.
+ */
+export function isPhysicalSource(source: ScrobbleSource | undefined): boolean {
+  return source === 'app' || source === 'recognized' || source === 'memory';
+}
+
+export function createSourceSplit(): PlaySourceSplit {
+  return {
+    physical: 0,
+    streaming: 0,
+    physicalPercentage: 0,
+    bySource: { app: 0, recognized: 0, memory: 0, external: 0 },
+  };
+}
+
+/**
+ * Count a play in a split. Call finishSourceSplit() once all are counted.
+ */
+export function addToSourceSplit(
+  split: PlaySourceSplit,
+  source: ScrobbleSource | undefined
+): void {
+  if (isPhysicalSource(source)) {
+    split.physical++;
+  } else {
+    split.streaming++;
+  }
+  split.bySource[source ?? 'external']++;
+}
+
+export function finishSourceSplit<T extends PlaySourceSplit>(split: T): T {
+  const total = split.physical + split.streaming;
+  split.physicalPercentage =
+    total > 0 ? Math.round((split.physical / total) * 100) : 0;
+  return split;
+}
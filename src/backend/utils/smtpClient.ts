@@ -0,0 +1,338 @@
+/**
+ * Minimal SMTP client for sending plain-text notification emails.
+ *
+ * Supports implicit TLS (port 465), STARTTLS when the server offers it, and
+ * AUTH PLAIN / AUTH LOGIN. Credentials are never sent over an unencrypted
+ * connection.
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+const CRLF = '\r\n';
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS; otherwise upgrade with STARTTLS if offered
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string; // "Name <address>" or a bare address
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * An SMTP server rejected a command.
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads SMTP replies from a socket and sends commands.
+ */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private partial: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  constructor(
+    socket: net.Socket,
+    private timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  get encrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  /**
+   * Send a command and check the reply code. The command text is left out
+   * of errors since it may contain credentials.
+   */
+  async command(
+    line: string,
+    expected: number[],
+    step = line.split(' ')[0]
+  ): Promise<SmtpReply> {
+    this.socket.write(line + CRLF);
+    return this.expect(expected, step);
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(
+        `SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`.trim(),
+        reply.code
+      );
+    }
+    return reply;
+  }
+
+  /**
+   * Upgrade the connection after a successful STARTTLS.
+   */
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('timeout');
+
+    const secure = tls.connect({ socket: plain, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('timeout', () => {
+      this.fail(new SmtpError('SMTP server timed out'));
+      socket.destroy();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () =>
+      this.fail(new SmtpError('SMTP connection closed unexpectedly'))
+    );
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.partial.push(line);
+
+      // "250-..." continues a multi-line reply; "250 ..." ends it
+      if (!/^\d{3}-/.test(line)) {
+        this.replies.push({
+          code: parseInt(line.slice(0, 3), 10),
+          lines: this.partial.map(part => part.slice(4)),
+        });
+        this.partial = [];
+      }
+    }
+
+    if (this.waiter && this.replies.length > 0) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(this.replies.shift()!);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure ?? error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(this.failure);
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.replies.length > 0) {
+      return Promise.resolve(this.replies.shift()!);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+}
+
+const stripLineBreaks = (value: string): string =>
+  value.replace(/[\r\n]+/g, ' ');
+
+/**
+ * The address part of "Name <address>".
+ */
+const extractAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/);
+  return stripLineBreaks(match ? match[1] : value).trim();
+};
+
+/**
+ * RFC 2047 encode a header value if it isn't plain ASCII.
+ */
+const encodeHeader = (value: string): string => {
+  const clean = stripLineBreaks(value);
+  return /^[\x20-\x7e]*$/.test(clean)
+    ? clean
+    : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+};
+
+/**
+ * Build the message headers and base64-encoded body. Base64 lines never
+ * start with ".", so no dot-stuffing is needed.
+ */
+export function formatMessage(message: MailMessage): string {
+  const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text, 'utf8').toString('base64');
+  const bodyLines = body.match(/.{1,76}/g) ?? [];
+
+  return [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to.map(stripLineBreaks).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...bodyLines,
+  ].join(CRLF);
+}
+
+function connect(options: SmtpConnectionOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({
+          host: options.host,
+          port: options.port,
+          servername: options.host,
+        })
+      : net.connect({ host: options.host, port: options.port });
+
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new SmtpError(`Could not connect to ${options.host}`));
+    }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+async function authenticate(
+  session: SmtpSession,
+  capabilities: string[],
+  username: string,
+  password: string
+): Promise<void> {
+  const encode = (value: string) =>
+    Buffer.from(value, 'utf8').toString('base64');
+  const auth = capabilities.find(line => /^AUTH\b/i.test(line)) ?? '';
+
+  if (/\bPLAIN\b/i.test(auth)) {
+    await session.command(
+      `AUTH PLAIN ${encode(`\0${username}\0${password}`)}`,
+      [235]
+    );
+    return;
+  }
+
+  await session.command('AUTH LOGIN', [334]);
+  await session.command(encode(username), [334], 'AUTH');
+  await session.command(encode(password), [235], 'AUTH');
+}
+
+/**
+ * Send a plain-text email. Resolves once the server has accepted it.
+ */
+export async function sendMail(
+  options: SmtpConnectionOptions,
+  message: MailMessage
+): Promise<void> {
+  if (message.to.length === 0) {
+    throw new SmtpError('No recipients');
+  }
+
+  const socket = await connect(options);
+  const session = new SmtpSession(
+    socket,
+    options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  );
+  const clientName = stripLineBreaks(os.hostname()) || 'localhost';
+
+  try {
+    await session.expect([220], 'greeting');
+    let ehlo = await session.command(`EHLO ${clientName}`, [250]);
+
+    if (
+      !session.encrypted &&
+      ehlo.lines.some(line => /^STARTTLS\b/i.test(line))
+    ) {
+      await session.command('STARTTLS', [220]);
+      await session.startTls(options.host);
+      ehlo = await session.command(`EHLO ${clientName}`, [250]);
+    }
+
+    if (options.username) {
+      if (!session.encrypted) {
+        throw new SmtpError(
+          'SMTP server does not support encryption; refusing to send credentials'
+        );
+      }
+      await authenticate(
+        session,
+        ehlo.lines,
+        options.username,
+        options.password ?? ''
+      );
+    }
+
+    await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(
+        `RCPT TO:<${extractAddress(recipient)}>`,
+        [250, 251]
+      );
+    }
+    await session.command('DATA', [354]);
+    await session.command(
+      `${formatMessage(message)}${CRLF}.`,
+      [250],
+      'message'
+    );
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
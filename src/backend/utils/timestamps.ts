@@ -63,3 +63,24 @@ export function areConsecutiveLocalDays(ts1Ms: number, ts2Ms: number): boolean {
     Math.abs(date2.getTime() - date1.getTime()) / (1000 * 60 * 60 * 24);
   return Math.round(diffDays) === 1;
 }
+
+/** Spacing (seconds) between batch scrobbles that have no timestamp of their own */
+export const BATCH_TRACK_SPACING_SECONDS = 180;
+
+/**
+ * Fill in missing scrobble timestamps (Unix seconds) the way
+ * POST /scrobble/batch does: tracks without a timestamp are spaced
+ * 3 minutes apart so the last one lands on baseTimestamp (default: now).
+ */
+export function assignBatchTimestamps<T extends { timestamp?: number }>(
+  tracks: T[],
+  baseTimestamp?: number
+): Array<T & { timestamp: number }> {
+  const currentTime = baseTimestamp || Math.floor(Date.now() / 1000);
+  return tracks.map((track, index) => ({
+    ...track,
+    timestamp:
+      track.timestamp ||
+      currentTime - (tracks.length - index - 1) * BATCH_TRACK_SPACING_SECONDS,
+  }));
+}
@@ -0,0 +1,121 @@
+import {
+  WrappedCompareMode,
+  WrappedRankComparison,
+  WrappedRankMovement,
+  WrappedStatDelta,
+} from '../../shared/types';
+
+/**
+ * One row of a full play-count ranking, sorted by play count descending.
+ * `key` identifies the same artist/album/track across both periods.
+ */
+export interface RankedEntry {
+  key: string;
+  name: string;
+  artist: string;
+  album?: string;
+  playCount: number;
+  imageUrl?: string;
+}
+
+/**
+ * Work out the range to compare a Wrapped period against.
+ * 'previous' is the same length immediately before; 'lastYear' is the same
+ * dates one year earlier (Feb 29 rolls over to Mar 1).
+ */
+export function getComparisonRange(
+  startMs: number,
+  endMs: number,
+  mode: WrappedCompareMode
+): { startMs: number; endMs: number } {
+  if (mode === 'lastYear') {
+    const start = new Date(startMs);
+    const end = new Date(endMs);
+    start.setFullYear(start.getFullYear() - 1);
+    end.setFullYear(end.getFullYear() - 1);
+    return { startMs: start.getTime(), endMs: end.getTime() };
+  }
+
+  const previousEnd = startMs - 1;
+  return { startMs: previousEnd - (endMs - startMs), endMs: previousEnd };
+}
+
+export function compareStat(
+  current: number,
+  previous: number
+): WrappedStatDelta {
+  const change = Math.round((current - previous) * 10) / 10;
+  return {
+    current,
+    previous,
+    change,
+    percentChange:
+      previous === 0 ? null : Math.round((change / previous) * 100),
+  };
+}
+
+/**
+ * Compare the top `topLimit` of two full rankings.
+ * Ranks come from the full rankings, so an artist can climb from #40 into the
+ * top list; anything not played at all in a period has a null rank there.
+ */
+export function compareRankings(
+  currentRanking: RankedEntry[],
+  previousRanking: RankedEntry[],
+  topLimit: number
+): WrappedRankComparison {
+  const currentByKey = indexRanking(currentRanking);
+  const previousByKey = indexRanking(previousRanking);
+
+  const toMovement = (entry: RankedEntry): WrappedRankMovement => {
+    const current = currentByKey.get(entry.key);
+    const previous = previousByKey.get(entry.key);
+    const movement: WrappedRankMovement = {
+      name: entry.name,
+      artist: entry.artist,
+      currentRank: current ? current.rank : null,
+      previousRank: previous ? previous.rank : null,
+      currentPlayCount: current ? current.entry.playCount : 0,
+      previousPlayCount: previous ? previous.entry.playCount : 0,
+      movement: current && previous ? previous.rank - current.rank : null,
+    };
+    if (entry.album) movement.album = entry.album;
+    const imageUrl = current?.entry.imageUrl || previous?.entry.imageUrl;
+    if (imageUrl) movement.imageUrl = imageUrl;
+    return movement;
+  };
+
+  const items = currentRanking.slice(0, topLimit).map(toMovement);
+  const newEntries = items.filter(
+    item => item.previousRank === null || item.previousRank > topLimit
+  );
+  const dropOuts = previousRanking
+    .slice(0, topLimit)
+    .map(toMovement)
+    .filter(item => item.currentRank === null || item.currentRank > topLimit);
+
+  let biggestClimber: WrappedRankMovement | null = null;
+  for (const item of items) {
+    if (
+      item.movement !== null &&
+      item.movement > 0 &&
+      (!biggestClimber || item.movement > (biggestClimber.movement ?? 0))
+    ) {
+      biggestClimber = item;
+    }
+  }
+
+  return { items, newEntries, dropOuts, biggestClimber };
+}
+
+function indexRanking(
+  ranking: RankedEntry[]
+): Map<string, { rank: number; entry: RankedEntry }> {
+  const byKey = new Map<string, { rank: number; entry: RankedEntry }>();
+  ranking.forEach((entry, index) => {
+    if (!byKey.has(entry.key)) {
+      byKey.set(entry.key, { rank: index + 1, entry });
+    }
+  });
+  return byKey;
+}
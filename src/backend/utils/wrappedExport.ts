@@ -0,0 +1,477 @@
+import { WrappedData, WrappedExportCard } from '../../shared/types';
+
+/**
+ * Card templates for exporting Wrapped outside the app: the same slides as
+ * WrappedSlideshow, as 1080×1920 SVG story cards and as sections of a
+ * standalone HTML page. Images are looked up in a map of URL to data URI so
+ * the output never references the network.
+ */
+
+export const CARD_WIDTH = 1080;
+export const CARD_HEIGHT = 1920;
+
+// Rows fit a story card; longer lists are cut
+const MAX_CARD_ITEMS = 5;
+const MAX_ITEMS_WITH_NUMBER = 3;
+
+// SVG text doesn't wrap, so long names are cut to fit the card width
+const MAX_PRIMARY_CHARS = 30;
+const MAX_SECONDARY_CHARS = 40;
+const MAX_LINE_CHARS = 44;
+
+const COLORS = {
+  backgroundTop: '#1c1a2e',
+  backgroundBottom: '#0e0d16',
+  accent: '#d4a24e',
+  text: '#f5f1e8',
+  muted: '#a8a3b8',
+  placeholder: '#2c2940',
+};
+
+const FONT_FAMILY = "'Helvetica Neue', Helvetica, Arial, sans-serif";
+
+export interface WrappedCardItem {
+  primary: string;
+  secondary?: string;
+  imageUrl?: string;
+}
+
+/**
+ * What a card shows. Every part is optional so one layout serves all slides.
+ */
+export interface WrappedCardContent extends WrappedExportCard {
+  lead?: string;
+  bigNumber?: string;
+  label?: string;
+  subtitle?: string;
+  items?: WrappedCardItem[];
+}
+
+const formatHour = (hour: number): string => {
+  if (hour === 0) return '12 AM';
+  if (hour === 12) return '12 PM';
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+};
+
+const formatDay = (date: string | number): string =>
+  new Date(
+    typeof date === 'string' ? `${date}T00:00:00` : date
+  ).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+const plural = (count: number, word: string): string =>
+  `${count.toLocaleString('en-US')} ${word}${count !== 1 ? 's' : ''}`;
+
+/**
+ * A label for the Wrapped period: the year alone for a calendar year,
+ * otherwise the first and last day.
+ */
+export function formatPeriodLabel(startDate: number, endDate: number): string {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  if (
+    start.getMonth() === 0 &&
+    start.getDate() === 1 &&
+    end.getFullYear() === start.getFullYear() &&
+    end.getMonth() === 11 &&
+    end.getDate() === 31
+  ) {
+    return String(start.getFullYear());
+  }
+  return `${formatDay(startDate)} – ${formatDay(endDate)}`;
+}
+
+/**
+ * The cards for a Wrapped, in slideshow order. Cards for collection data
+ * and listening sessions are left out when the slideshow leaves them out.
+ */
+export function buildWrappedCards(data: WrappedData): WrappedCardContent[] {
+  const { listening, collection, crossSource } = data;
+  const cards: WrappedCardContent[] = [
+    {
+      id: 'total',
+      title: 'Total Scrobbles',
+      lead: 'You listened to',
+      bigNumber: listening.totalScrobbles.toLocaleString('en-US'),
+      label: 'tracks',
+      subtitle: `That's about ${plural(listening.estimatedListeningHours, 'hour')} of music`,
+    },
+    {
+      id: 'top-artists',
+      title: 'Your Top Artists',
+      items: listening.topArtists.map(artist => ({
+        primary: artist.name,
+        secondary: plural(artist.playCount, 'play'),
+        imageUrl: artist.imageUrl,
+      })),
+    },
+    {
+      id: 'top-albums',
+      title: 'Your Top Albums',
+      items: listening.topAlbums.map(album => ({
+        primary: album.album ?? album.name,
+        secondary: `${album.artist} · ${plural(album.playCount, 'play')}`,
+        imageUrl: album.imageUrl,
+      })),
+    },
+    {
+      id: 'top-tracks',
+      title: 'Your Top Tracks',
+      items: listening.topTracks.map(track => ({
+        primary: track.name,
+        secondary: `${track.artist} · ${plural(track.playCount, 'play')}`,
+        imageUrl: track.imageUrl,
+      })),
+    },
+    {
+      id: 'unique',
+      title: 'Your Musical Breadth',
+      bigNumber: listening.uniqueArtists.toLocaleString('en-US'),
+      label: 'different artists',
+      subtitle: `across ${plural(listening.uniqueAlbums, 'album')}`,
+    },
+    {
+      id: 'new-artists',
+      title: 'New Discoveries',
+      lead: 'You discovered',
+      bigNumber: listening.newArtistsDiscovered.toLocaleString('en-US'),
+      label: 'new artists',
+      items: listening.newArtistsList.map(artist => ({
+        primary: artist.name,
+        secondary: plural(artist.playCount, 'play'),
+        imageUrl: artist.imageUrl,
+      })),
+    },
+    listening.peakListeningDay
+      ? {
+          id: 'peak-day',
+          title: 'Peak Listening Day',
+          lead: 'Your biggest listening day was',
+          subtitle: formatDay(listening.peakListeningDay.date),
+          bigNumber:
+            listening.peakListeningDay.scrobbleCount.toLocaleString('en-US'),
+          label: 'tracks played',
+        }
+      : {
+          id: 'peak-day',
+          title: 'Peak Listening Day',
+          subtitle: 'Not enough data to find your biggest day.',
+        },
+    listening.peakListeningHour
+      ? {
+          id: 'peak-hour',
+          title: 'Peak Listening Hour',
+          lead: 'You listened most at',
+          bigNumber: formatHour(listening.peakListeningHour.hour),
+          label: `${plural(listening.peakListeningHour.scrobbleCount, 'track')} played`,
+        }
+      : {
+          id: 'peak-hour',
+          title: 'Peak Listening Hour',
+          subtitle: 'Not enough data to determine your peak hour.',
+        },
+    listening.longestStreak && listening.longestStreak.days > 1
+      ? {
+          id: 'streak',
+          title: 'Listening Streak',
+          lead: 'Your longest streak was',
+          bigNumber: String(listening.longestStreak.days),
+          label: 'consecutive days',
+          subtitle: `${formatDay(listening.longestStreak.startDate)} – ${formatDay(listening.longestStreak.endDate)}`,
+        }
+      : {
+          id: 'streak',
+          title: 'Listening Streak',
+          subtitle: 'No multi-day listening streak in this period.',
+        },
+  ];
+
+  const sessions = listening.sessions;
+  if (sessions && sessions.totalSessions > 0) {
+    cards.push({
+      id: 'full-albums',
+      title: 'Full Album Plays',
+      lead: 'You played',
+      bigNumber: sessions.fullAlbumPlays.toLocaleString('en-US'),
+      label: 'full albums start to finish',
+      subtitle: sessions.topFullAlbum
+        ? `Most played in full: ${sessions.topFullAlbum.album} by ${sessions.topFullAlbum.artist}`
+        : `${plural(sessions.partialPlays, 'partial play')} out of ${plural(sessions.totalSessions, 'session')}`,
+    });
+  }
+
+  if (collection.recordsAdded > 0 || collection.recordsList.length > 0) {
+    cards.push({
+      id: 'records',
+      title: 'Collection Growth',
+      lead: 'You added',
+      bigNumber: collection.recordsAdded.toLocaleString('en-US'),
+      label: 'records to your collection',
+      items: collection.recordsList.map(record => ({
+        primary: record.title,
+        secondary: record.artist,
+        imageUrl: record.coverUrl,
+      })),
+    });
+  }
+  if (collection.mostPlayedNewAddition) {
+    const addition = collection.mostPlayedNewAddition;
+    cards.push({
+      id: 'most-played',
+      title: 'Most-Played Addition',
+      lead: 'Your most-played new addition',
+      items: [
+        {
+          primary: addition.title,
+          secondary: addition.artist,
+          imageUrl: addition.coverUrl,
+        },
+      ],
+      bigNumber: addition.playCount.toLocaleString('en-US'),
+      label: 'plays',
+      subtitle: `Added ${formatDay(addition.dateAdded)}`,
+    });
+  }
+  if (crossSource.totalCollectionSize > 0) {
+    cards.push(
+      {
+        id: 'coverage',
+        title: 'Collection Coverage',
+        lead: 'Of your collection, you listened to',
+        bigNumber: `${crossSource.collectionCoverage}%`,
+        subtitle: `${crossSource.albumsPlayed.toLocaleString('en-US')} of ${plural(crossSource.totalCollectionSize, 'record')}`,
+      },
+      {
+        id: 'vinyl',
+        title: 'Vinyl vs Digital',
+        bigNumber: `${crossSource.vinylPercentage}%`,
+        label: 'of your plays came off a record',
+        subtitle: `${plural(crossSource.vinylScrobbles, 'record play')} · ${plural(crossSource.otherScrobbles, 'other play')}`,
+      }
+    );
+  }
+
+  return cards.map(card =>
+    card.items ? { ...card, items: card.items.slice(0, MAX_CARD_ITEMS) } : card
+  );
+}
+
+/**
+ * Escape text for SVG and HTML alike.
+ */
+export function escapeMarkup(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const truncate = (value: string, max: number): string =>
+  value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value;
+
+const svgText = (
+  value: string,
+  x: number,
+  y: number,
+  size: number,
+  options: { color?: string; weight?: number; anchor?: 'start' | 'middle' } = {}
+): string =>
+  `<text x="${x}" y="${y}" font-family="${escapeMarkup(FONT_FAMILY)}" font-size="${size}" font-weight="${options.weight ?? 400}" fill="${options.color ?? COLORS.text}" text-anchor="${options.anchor ?? 'middle'}">${escapeMarkup(value)}</text>`;
+
+/**
+ * Render a card as a 1080×1920 SVG document.
+ */
+export function renderCardSvg(
+  card: WrappedCardContent,
+  periodLabel: string,
+  images: Map<string, string>
+): string {
+  const centre = CARD_WIDTH / 2;
+  const parts: string[] = [
+    `<defs><linearGradient id="bg" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${COLORS.backgroundTop}"/><stop offset="1" stop-color="${COLORS.backgroundBottom}"/></linearGradient><clipPath id="cover"><rect width="180" height="180" rx="16"/></clipPath></defs>`,
+    `<rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#bg)"/>`,
+    svgText('YOUR WRAPPED', centre, 150, 36, {
+      color: COLORS.accent,
+      weight: 700,
+    }),
+    svgText(truncate(periodLabel, MAX_LINE_CHARS), centre, 210, 36, {
+      color: COLORS.muted,
+    }),
+    svgText(truncate(card.title, MAX_PRIMARY_CHARS), centre, 330, 72, {
+      weight: 700,
+    }),
+  ];
+
+  let y = 460;
+  if (card.lead) {
+    parts.push(
+      svgText(truncate(card.lead, MAX_LINE_CHARS), centre, y, 44, {
+        color: COLORS.muted,
+      })
+    );
+    y += 60;
+  }
+
+  // A number and a list share the card, so the list is kept short
+  const items = (card.items ?? []).slice(
+    0,
+    card.bigNumber ? MAX_ITEMS_WITH_NUMBER : MAX_CARD_ITEMS
+  );
+
+  if (card.bigNumber) {
+    // Without a list the number sits in the middle of the card
+    const numberY = items.length > 0 ? y + 170 : 1000;
+    parts.push(
+      svgText(card.bigNumber, centre, numberY, 200, {
+        color: COLORS.accent,
+        weight: 800,
+      })
+    );
+    y = numberY + 100;
+    if (card.label) {
+      parts.push(svgText(truncate(card.label, MAX_LINE_CHARS), centre, y, 48));
+      y += 80;
+    }
+  } else if (items.length === 0) {
+    y = 1000;
+  }
+
+  if (items.length > 0) {
+    y += 20;
+    items.forEach((item, index) => {
+      const image = item.imageUrl ? images.get(item.imageUrl) : undefined;
+      const rowTop = y + index * 220;
+      parts.push(
+        `<g transform="translate(100 ${rowTop})"><rect width="180" height="180" rx="16" fill="${COLORS.placeholder}"/>${
+          image
+            ? `<image href="${escapeMarkup(image)}" width="180" height="180" preserveAspectRatio="xMidYMid slice" clip-path="url(#cover)"/>`
+            : ''
+        }</g>`,
+        svgText(
+          `${items.length > 1 ? `${index + 1}. ` : ''}${truncate(item.primary, MAX_PRIMARY_CHARS)}`,
+          320,
+          rowTop + 80,
+          48,
+          { weight: 700, anchor: 'start' }
+        )
+      );
+      if (item.secondary) {
+        parts.push(
+          svgText(
+            truncate(item.secondary, MAX_SECONDARY_CHARS),
+            320,
+            rowTop + 136,
+            34,
+            { color: COLORS.muted, anchor: 'start' }
+          )
+        );
+      }
+    });
+    y += items.length * 220 + 40;
+  }
+
+  if (card.subtitle) {
+    parts.push(
+      svgText(truncate(card.subtitle, MAX_LINE_CHARS), centre, y, 38, {
+        color: COLORS.muted,
+      })
+    );
+  }
+
+  parts.push(
+    svgText('RecordScrobbles', centre, CARD_HEIGHT - 90, 32, {
+      color: COLORS.muted,
+    })
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}">${parts.join('')}</svg>`;
+}
+
+const HTML_STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; padding: 48px 16px; background: ${COLORS.backgroundBottom}; color: ${COLORS.text}; font-family: ${FONT_FAMILY}; }
+header { text-align: center; margin-bottom: 40px; }
+header p { margin: 0; color: ${COLORS.accent}; font-weight: 700; letter-spacing: 0.1em; }
+header h1 { margin: 8px 0 0; font-size: 2rem; }
+main { display: grid; gap: 32px; max-width: 560px; margin: 0 auto; }
+.card { background: linear-gradient(${COLORS.backgroundTop}, ${COLORS.backgroundBottom}); border: 1px solid ${COLORS.placeholder}; border-radius: 24px; padding: 32px; text-align: center; }
+.card h2 { margin: 0 0 16px; font-size: 1.6rem; }
+.lead, .label, .subtitle { margin: 8px 0; }
+.lead, .subtitle { color: ${COLORS.muted}; }
+.big-number { font-size: 4rem; font-weight: 800; color: ${COLORS.accent}; line-height: 1.1; }
+ol { list-style: none; margin: 16px 0; padding: 0; text-align: left; }
+li { display: flex; align-items: center; gap: 16px; padding: 8px 0; }
+li img, li .placeholder { width: 64px; height: 64px; border-radius: 8px; object-fit: cover; background: ${COLORS.placeholder}; flex-shrink: 0; }
+.primary { font-weight: 700; }
+.secondary { color: ${COLORS.muted}; font-size: 0.9rem; }
+footer { text-align: center; color: ${COLORS.muted}; margin-top: 40px; font-size: 0.85rem; }
+`;
+
+const renderCardHtml = (
+  card: WrappedCardContent,
+  images: Map<string, string>
+): string => {
+  const parts = [`<h2>${escapeMarkup(card.title)}</h2>`];
+  if (card.lead) {
+    parts.push(`<p class="lead">${escapeMarkup(card.lead)}</p>`);
+  }
+  if (card.items && card.items.length > 0) {
+    const rows = card.items.map(item => {
+      const image = item.imageUrl ? images.get(item.imageUrl) : undefined;
+      return `<li>${
+        image
+          ? `<img src="${escapeMarkup(image)}" alt="">`
+          : '<span class="placeholder"></span>'
+      }<div><div class="primary">${escapeMarkup(item.primary)}</div>${
+        item.secondary
+          ? `<div class="secondary">${escapeMarkup(item.secondary)}</div>`
+          : ''
+      }</div></li>`;
+    });
+    parts.push(`<ol>${rows.join('')}</ol>`);
+  }
+  if (card.bigNumber) {
+    parts.push(`<div class="big-number">${escapeMarkup(card.bigNumber)}</div>`);
+  }
+  if (card.label) {
+    parts.push(`<p class="label">${escapeMarkup(card.label)}</p>`);
+  }
+  if (card.subtitle) {
+    parts.push(`<p class="subtitle">${escapeMarkup(card.subtitle)}</p>`);
+  }
+  return `<section class="card" id="${escapeMarkup(card.id)}">${parts.join('')}</section>`;
+};
+
+/**
+ * Render all cards as one HTML page with styles and images inlined, so it
+ * opens offline and can be shared as a single file.
+ */
+export function renderWrappedHtml(
+  cards: WrappedCardContent[],
+  periodLabel: string,
+  generatedAt: number,
+  images: Map<string, string>
+): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Your Wrapped · ${escapeMarkup(periodLabel)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header><p>YOUR WRAPPED</p><h1>${escapeMarkup(periodLabel)}</h1></header>
+<main>
+${cards.map(card => renderCardHtml(card, images)).join('\n')}
+</main>
+<footer>Made with RecordScrobbles on ${escapeMarkup(formatDay(generatedAt))}</footer>
+</body>
+</html>
+`;
+}
@@ -2,6 +2,7 @@ import React, { useCallback, useState, useEffect } from 'react';
 
 import { AuthStatus } from '../shared/types';
 
+import ActivityPanel from './components/ActivityPanel';
 import ErrorBoundary from './components/ErrorBoundary';
 import Header from './components/Header';
 import KeyboardShortcutsHelp from './components/KeyboardShortcutsHelp';
@@ -18,8 +19,8 @@ import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { DEFAULT_ROUTE, ROUTE_REDIRECTS, ROUTES, navigate } from './routes';
 
 const JobPollerSetup: React.FC = () => {
-  useJobPoller();
-  return null;
+  const { activeJobs, cancelJob } = useJobPoller();
+  return <ActivityPanel jobs={activeJobs} onCancel={cancelJob} />;
 };
 
 const SIDEBAR_COLLAPSED_KEY = 'sidebar-collapsed';
@@ -0,0 +1,64 @@
+import { Activity, X } from 'lucide-react';
+import React from 'react';
+
+import { Job } from '../../shared/types';
+
+import { ProgressBar } from './ui/ProgressBar';
+
+interface ActivityPanelProps {
+  jobs: Job[];
+  onCancel: (id: string) => void;
+}
+
+/**
+ * Floating list of background jobs (syncs, scans, rebuilds) that are queued
+ * or running. Renders nothing when nothing is in progress.
+ */
+const ActivityPanel: React.FC<ActivityPanelProps> = ({ jobs, onCancel }) => {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='activity-panel' role='status' aria-label='Background jobs'>
+      <div className='activity-panel-header'>
+        <Activity size={14} aria-hidden='true' />
+        <span>Background activity</span>
+      </div>
+      <ul className='activity-panel-list'>
+        {jobs.map(job => (
+          <li key={job.id} className='activity-panel-item'>
+            <div className='activity-panel-item-row'>
+              <span className='activity-panel-message'>
+                {job.status === 'queued'
+                  ? `Waiting: ${job.message}`
+                  : job.message}
+              </span>
+              {job.cancellable && (
+                <button
+                  className='activity-panel-cancel'
+                  onClick={() => onCancel(job.id)}
+                  disabled={job.cancelRequested}
+                  aria-label={`Cancel ${job.message}`}
+                  title={job.cancelRequested ? 'Cancelling...' : 'Cancel'}
+                >
+                  <X size={14} aria-hidden='true' />
+                </button>
+              )}
+            </div>
+            {job.status === 'running' && (
+              <ProgressBar
+                value={job.progress ?? 0}
+                size='small'
+                indeterminate={job.progress === undefined}
+                animated
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ActivityPanel;
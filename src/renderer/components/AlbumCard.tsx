@@ -6,6 +6,7 @@ import { formatRelativeTime } from '../utils/dateUtils';
 
 import ArtistLink from './ArtistLink';
 import { Button } from './ui/Button';
+import { StarRating } from './ui/StarRating';
 
 interface AlbumCardProps {
   item: CollectionItem;
@@ -16,6 +17,8 @@ interface AlbumCardProps {
   onAddToDiscardPile?: (item: CollectionItem) => void;
   playCount?: number;
   lastPlayed?: number | null;
+  /** Makes the rating editable; called with the new rating (0 clears it) */
+  onRatingChange?: (item: CollectionItem, rating: number) => void;
 }
 
 const AlbumCard: React.FC<AlbumCardProps> = ({
@@ -27,6 +30,7 @@ const AlbumCard: React.FC<AlbumCardProps> = ({
   onAddToDiscardPile,
   playCount,
   lastPlayed,
+  onRatingChange,
 }) => {
   const { release } = item;
 
@@ -106,6 +110,20 @@ const AlbumCard: React.FC<AlbumCardProps> = ({
           <div className='album-metadata'>{formatArray(release.label)}</div>
         )}
 
+        {(onRatingChange || (item.rating ?? 0) > 0) && (
+          <div className='album-rating'>
+            <StarRating
+              value={item.rating ?? 0}
+              size={14}
+              onChange={
+                onRatingChange
+                  ? rating => onRatingChange(item, rating)
+                  : undefined
+              }
+            />
+          </div>
+        )}
+
         {lastPlayed != null && lastPlayed > 0 && (
           <div className='album-last-played'>
             Last played {formatRelativeTime(lastPlayed)}
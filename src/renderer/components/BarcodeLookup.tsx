@@ -0,0 +1,180 @@
+import { Music, ScanBarcode } from 'lucide-react';
+import React, { useState } from 'react';
+
+import { BarcodeMatch } from '../../shared/types';
+import { normalizeBarcode } from '../../shared/utils/shelfLocation';
+import { useApp } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { ROUTES, navigate } from '../routes';
+import { getApiService } from '../services/api';
+import { createLogger } from '../utils/logger';
+
+import ShelfLocationTag from './ShelfLocationTag';
+import { Button } from './ui/Button';
+
+const logger = createLogger('BarcodeLookup');
+
+/**
+ * Open a release the same way AlbumCard does. Only an exact pressing is
+ * linked to its collection instance.
+ */
+const openRelease = (match: BarcodeMatch) => {
+  localStorage.setItem(
+    'selectedRelease',
+    JSON.stringify({
+      id: match.releaseId,
+      artist: match.artist,
+      title: match.title,
+    })
+  );
+  if (match.collectionItemId && !match.otherPressing) {
+    localStorage.setItem(
+      'selectedCollectionItemId',
+      String(match.collectionItemId)
+    );
+  } else {
+    localStorage.removeItem('selectedCollectionItemId');
+  }
+  navigate(ROUTES.RELEASE_DETAILS);
+};
+
+/**
+ * The release to open straight away: the one owned pressing, or the only
+ * release Discogs knows for the barcode.
+ */
+const directMatch = (matches: BarcodeMatch[]): BarcodeMatch | null => {
+  const owned = matches.filter(
+    match => match.collectionItemId && !match.otherPressing
+  );
+  if (owned.length === 1) return owned[0];
+  if (owned.length === 0 && matches.length === 1) return matches[0];
+  return null;
+};
+
+/**
+ * Barcode box for typed codes or a USB scanner (which types the digits and
+ * presses Enter). Jumps straight to the release when the match is
+ * unambiguous, otherwise lists the candidates with their shelf locations.
+ */
+const BarcodeLookup: React.FC = () => {
+  const { state } = useApp();
+  const { authStatus } = useAuth();
+  const username = authStatus.discogs.username;
+  const [code, setCode] = useState('');
+  const [looking, setLooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [matches, setMatches] = useState<BarcodeMatch[] | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username) return;
+
+    const barcode = normalizeBarcode(code);
+    setMatches(null);
+    if (!barcode) {
+      setError('Not a valid EAN or UPC barcode');
+      return;
+    }
+
+    setError(null);
+    setLooking(true);
+    try {
+      const result = await getApiService(state.serverUrl).lookupBarcode(
+        username,
+        barcode
+      );
+      const direct = directMatch(result.matches);
+      if (direct) {
+        setCode('');
+        openRelease(direct);
+        return;
+      }
+      setMatches(result.matches);
+    } catch (err) {
+      logger.warn('Barcode lookup failed', err);
+      setError(
+        (err as { response?: { data?: { error?: string } } })?.response?.data
+          ?.error || 'Barcode lookup failed'
+      );
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  return (
+    <div className='barcode-lookup'>
+      <form className='barcode-lookup-form' onSubmit={handleSubmit}>
+        <label htmlFor='barcode-lookup-input' className='sr-only'>
+          Barcode
+        </label>
+        <input
+          id='barcode-lookup-input'
+          type='text'
+          inputMode='numeric'
+          autoComplete='off'
+          placeholder='Scan or type a barcode...'
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          disabled={looking || !username}
+          className='barcode-lookup-input'
+        />
+        <Button
+          type='submit'
+          size='small'
+          variant='secondary'
+          disabled={looking || !code.trim() || !username}
+          iconLeft={<ScanBarcode size={14} aria-hidden='true' />}
+        >
+          {looking ? 'Looking up...' : 'Find'}
+        </Button>
+      </form>
+
+      {error && <div className='message error'>{error}</div>}
+
+      {matches && matches.length === 0 && (
+        <p className='barcode-lookup-empty'>
+          No release on Discogs has this barcode.
+        </p>
+      )}
+
+      {matches && matches.length > 0 && (
+        <ul className='barcode-lookup-results'>
+          {matches.map(match => (
+            <li key={match.releaseId}>
+              <button
+                type='button'
+                className='barcode-lookup-result'
+                onClick={() => openRelease(match)}
+              >
+                {match.coverImage ? (
+                  <img src={match.coverImage} alt='' loading='lazy' />
+                ) : (
+                  <span className='barcode-lookup-cover-placeholder'>
+                    <Music size={16} aria-hidden='true' />
+                  </span>
+                )}
+                <span className='barcode-lookup-result-text'>
+                  <strong>
+                    {match.artist} - {match.title}
+                  </strong>
+                  <span className='barcode-lookup-result-meta'>
+                    {[match.year, match.formats.join(', ')]
+                      .filter(Boolean)
+                      .join(' • ')}
+                    {match.collectionItemId &&
+                      (match.otherPressing
+                        ? ' • You own another pressing'
+                        : ' • In your collection')}
+                  </span>
+                </span>
+                <ShelfLocationTag location={match.shelfLocation} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BarcodeLookup;
@@ -1,5 +1,12 @@
 import React from 'react';
 
+import {
+  CollectionCustomField,
+  CollectionFolder,
+  CollectionScope,
+} from '../../shared/types';
+
+import CollectionScopeControls from './CollectionScopeControls';
 import { Button } from './ui/Button';
 
 interface FilterOptions {
@@ -16,6 +23,10 @@ interface CollectionFilterControlsProps {
   onFilterYearToChange: (value: string) => void;
   filterDateAdded: string;
   onFilterDateAddedChange: (value: string) => void;
+  filterScope: CollectionScope;
+  onFilterScopeChange: (scope: CollectionScope) => void;
+  folders: CollectionFolder[];
+  fields: CollectionCustomField[];
   hasActiveFilters: boolean;
   onClearFilters: () => void;
   filteredCount: number;
@@ -32,6 +43,10 @@ const CollectionFilterControls: React.FC<CollectionFilterControlsProps> = ({
   onFilterYearToChange,
   filterDateAdded,
   onFilterDateAddedChange,
+  filterScope,
+  onFilterScopeChange,
+  folders,
+  fields,
   hasActiveFilters,
   onClearFilters,
   filteredCount,
@@ -105,6 +120,15 @@ const CollectionFilterControls: React.FC<CollectionFilterControlsProps> = ({
         </select>
       </div>
 
+      {/* Discogs Folder and Custom Field Filters */}
+      <CollectionScopeControls
+        scope={filterScope}
+        onChange={onFilterScopeChange}
+        folders={folders}
+        fields={fields}
+        idPrefix='filter'
+      />
+
       {/* Clear Filters Button */}
       {hasActiveFilters && (
         <Button
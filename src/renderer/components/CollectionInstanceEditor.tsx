@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+
+import {
+  CollectionCustomField,
+  CollectionFolder,
+  CollectionItem,
+} from '../../shared/types';
+import '../pages/CollectionPage.page.css';
+
+import { StarRating } from './ui/StarRating';
+
+interface CollectionInstanceEditorProps {
+  item: CollectionItem;
+  folders: CollectionFolder[];
+  fields: CollectionCustomField[];
+  saving: boolean;
+  onRatingChange: (rating: number) => void;
+  onFolderChange: (folderId: number) => void;
+  onFieldChange: (fieldId: number, value: string) => void;
+}
+
+const noteValue = (item: CollectionItem, fieldId: number): string =>
+  item.notes?.find(note => note.field_id === fieldId)?.value ?? '';
+
+/**
+ * Rating, folder and custom note fields of a collection instance. Dropdown
+ * fields and the folder save as soon as they change; text fields save when
+ * they lose focus.
+ */
+const CollectionInstanceEditor: React.FC<CollectionInstanceEditorProps> = ({
+  item,
+  folders,
+  fields,
+  saving,
+  onRatingChange,
+  onFolderChange,
+  onFieldChange,
+}) => {
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  // Drop unsaved text when the item is replaced (saved, reverted or
+  // refreshed from Discogs)
+  useEffect(() => {
+    setDrafts({});
+  }, [item]);
+
+  // Folder 0 is Discogs' built-in "All" folder and can't hold records
+  const selectableFolders = folders.filter(folder => folder.id !== 0);
+
+  const saveDraft = (fieldId: number) => {
+    const draft = drafts[fieldId];
+    if (draft !== undefined && draft !== noteValue(item, fieldId)) {
+      onFieldChange(fieldId, draft);
+    }
+  };
+
+  return (
+    <div className='collection-instance-editor'>
+      <div className='collection-filter-group'>
+        <span className='collection-filter-label'>Rating:</span>
+        <StarRating
+          value={item.rating ?? 0}
+          onChange={onRatingChange}
+          disabled={saving}
+        />
+      </div>
+
+      {selectableFolders.length > 0 && (
+        <div className='collection-filter-group'>
+          <label
+            htmlFor={`instance-${item.id}-folder`}
+            className='collection-filter-label'
+          >
+            Folder:
+          </label>
+          <select
+            id={`instance-${item.id}-folder`}
+            value={item.folder_id ? String(item.folder_id) : ''}
+            onChange={e => onFolderChange(Number(e.target.value))}
+            disabled={saving}
+            className='collection-filter-select'
+          >
+            {!item.folder_id && <option value=''>Unknown</option>}
+            {selectableFolders.map(folder => (
+              <option key={folder.id} value={folder.id}>
+                {folder.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {fields.map(field => {
+        const id = `instance-${item.id}-field-${field.id}`;
+        const value = noteValue(item, field.id);
+        return (
+          <div key={field.id} className='collection-filter-group'>
+            <label htmlFor={id} className='collection-filter-label'>
+              {field.name}:
+            </label>
+            {field.type === 'dropdown' ? (
+              <select
+                id={id}
+                value={value}
+                onChange={e => onFieldChange(field.id, e.target.value)}
+                disabled={saving}
+                className='collection-filter-select'
+              >
+                <option value=''>None</option>
+                {(field.options ?? []).map(option => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                id={id}
+                type='text'
+                value={drafts[field.id] ?? value}
+                onChange={e =>
+                  setDrafts(prev => ({ ...prev, [field.id]: e.target.value }))
+                }
+                onBlur={() => saveDraft(field.id)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') saveDraft(field.id);
+                }}
+                disabled={saving}
+                className='collection-filter-input collection-filter-input--text'
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CollectionInstanceEditor;
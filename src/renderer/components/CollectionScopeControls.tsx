@@ -0,0 +1,112 @@
+import React from 'react';
+
+import {
+  CollectionCustomField,
+  CollectionFolder,
+  CollectionScope,
+} from '../../shared/types';
+import '../pages/CollectionPage.page.css';
+
+interface CollectionScopeControlsProps {
+  scope: CollectionScope;
+  onChange: (scope: CollectionScope) => void;
+  folders: CollectionFolder[];
+  fields: CollectionCustomField[];
+  idPrefix: string;
+}
+
+/**
+ * Folder and custom note field filters. Dropdown fields offer their Discogs
+ * options; text fields take free text matched anywhere in the note.
+ */
+const CollectionScopeControls: React.FC<CollectionScopeControlsProps> = ({
+  scope,
+  onChange,
+  folders,
+  fields,
+  idPrefix,
+}) => {
+  // Folder 0 is Discogs' built-in "All" folder, covered by the empty option
+  const selectableFolders = folders.filter(folder => folder.id !== 0);
+
+  const setFieldValue = (fieldId: number, value: string) => {
+    const fieldValues = { ...scope.fieldValues };
+    if (value) {
+      fieldValues[String(fieldId)] = value;
+    } else {
+      delete fieldValues[String(fieldId)];
+    }
+    onChange({ ...scope, fieldValues });
+  };
+
+  return (
+    <>
+      {selectableFolders.length > 0 && (
+        <div className='collection-filter-group'>
+          <label
+            htmlFor={`${idPrefix}-folder`}
+            className='collection-filter-label'
+          >
+            Folder:
+          </label>
+          <select
+            id={`${idPrefix}-folder`}
+            value={scope.folderId ? String(scope.folderId) : ''}
+            onChange={e =>
+              onChange({
+                ...scope,
+                folderId: e.target.value ? Number(e.target.value) : undefined,
+              })
+            }
+            className='collection-filter-select'
+          >
+            <option value=''>All Folders</option>
+            {selectableFolders.map(folder => (
+              <option key={folder.id} value={folder.id}>
+                {folder.name} ({folder.count})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {fields.map(field => {
+        const id = `${idPrefix}-field-${field.id}`;
+        const value = scope.fieldValues?.[String(field.id)] ?? '';
+        return (
+          <div key={field.id} className='collection-filter-group'>
+            <label htmlFor={id} className='collection-filter-label'>
+              {field.name}:
+            </label>
+            {field.type === 'dropdown' ? (
+              <select
+                id={id}
+                value={value}
+                onChange={e => setFieldValue(field.id, e.target.value)}
+                className='collection-filter-select'
+              >
+                <option value=''>Any</option>
+                {(field.options ?? []).map(option => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                id={id}
+                type='text'
+                placeholder='Any'
+                value={value}
+                onChange={e => setFieldValue(field.id, e.target.value)}
+                className='collection-filter-input collection-filter-input--text'
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default React.memo(CollectionScopeControls);
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+
+import { DiscogsBudget } from '../../shared/types';
+import { useApp } from '../context/AppContext';
+import { getApiService } from '../services/api';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('DiscogsBudgetStatus');
+
+// Rate-limit headers change with every request, so refresh often while shown
+const BUDGET_POLL_INTERVAL_MS = 3000;
+
+/**
+ * One-line view of the Discogs rate-limit budget shared by every scanner.
+ * Render it only while a scan is running; it polls while mounted.
+ */
+const DiscogsBudgetStatus: React.FC = () => {
+  const { state } = useApp();
+  const api = getApiService(state.serverUrl);
+  const [budget, setBudget] = useState<DiscogsBudget | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const data = await api.getDiscogsBudget();
+        if (!cancelled) setBudget(data);
+      } catch (err) {
+        logger.warn('Failed to load Discogs budget', err);
+      }
+    };
+
+    load();
+    const id = setInterval(load, BUDGET_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [api]);
+
+  if (!budget || budget.lastUpdated === 0) return null;
+
+  const waiting = budget.queued.interactive + budget.queued.background;
+
+  return (
+    <div className='discogs-budget-status' role='status'>
+      Discogs: {budget.remaining} of {budget.limit} requests left this minute
+      {waiting > 0 && <>, {waiting} waiting</>}
+      {budget.cache.hits > 0 && (
+        <>, {budget.cache.hits.toLocaleString()} served from cache</>
+      )}
+      {budget.isThrottled && (
+        <span className='discogs-budget-throttled'>
+          {' '}
+          &mdash; paused by the rate limit
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default DiscogsBudgetStatus;
@@ -5,6 +5,7 @@ import { useTheme } from '../context/ThemeContext';
 import { useNotifications } from '../hooks/useNotifications';
 
 import { NotificationBell } from './NotificationBell';
+import ProfileSwitcher from './ProfileSwitcher';
 
 const Header: React.FC = () => {
   const { isDarkMode, toggleDarkMode } = useTheme();
@@ -24,6 +25,8 @@ const Header: React.FC = () => {
       </div>
 
       <div className='header-controls'>
+        <ProfileSwitcher />
+
         <NotificationBell
           notifications={notifications}
           unreadCount={unreadCount}
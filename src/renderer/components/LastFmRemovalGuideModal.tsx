@@ -0,0 +1,107 @@
+import { ExternalLink } from 'lucide-react';
+import React from 'react';
+
+import { LastFmRemovalGuide, ScrobbleUndoResult } from '../../shared/types';
+
+import { Modal, ModalFooter } from './ui';
+import { Button } from './ui/Button';
+
+interface LastFmRemovalGuideModalProps {
+  isOpen: boolean;
+  guide: LastFmRemovalGuide | null;
+  /** Set right after an undo to summarise what was already taken back. */
+  result?: ScrobbleUndoResult | null;
+  formatTrackTimestamp: (timestampMs: number) => string;
+  onClose: () => void;
+}
+
+/**
+ * Walks the user through deleting an undone session's scrobbles on the
+ * Last.fm website, since the Last.fm API can't delete them.
+ */
+const LastFmRemovalGuideModal: React.FC<LastFmRemovalGuideModalProps> = ({
+  isOpen,
+  guide,
+  result,
+  formatTrackTimestamp,
+  onClose,
+}) => {
+  const entries = guide?.entries ?? [];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title='Remove Scrobbles from Last.fm'
+      size='medium'
+    >
+      {result && (
+        <div className='message success'>
+          Removed {result.playsRemoved} play
+          {result.playsRemoved !== 1 ? 's' : ''} from your local history
+          {result.queuedCancelled > 0 &&
+            ` and cancelled ${result.queuedCancelled} queued retr${result.queuedCancelled !== 1 ? 'ies' : 'y'}`}
+          .
+          {result.listenbrainz &&
+            ` Deleted ${result.listenbrainz.deleted} listen${result.listenbrainz.deleted !== 1 ? 's' : ''} from ListenBrainz.`}
+        </div>
+      )}
+      {result?.listenbrainz?.error && (
+        <div className='error-message'>
+          {result.listenbrainz.failed} ListenBrainz listen
+          {result.listenbrainz.failed !== 1 ? 's' : ''} could not be deleted:{' '}
+          {result.listenbrainz.error}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p>Nothing from this session reached Last.fm.</p>
+      ) : (
+        <>
+          <p>
+            Last.fm doesn't let apps delete scrobbles. Open each track below,
+            find the scrobble at the listed time and choose &ldquo;Delete
+            scrobble&rdquo; from its menu. Until then, history syncs will keep
+            these plays out of your local stats.
+          </p>
+          <div className='history-session-tracklist'>
+            {entries.map(entry => (
+              <div
+                key={`${entry.timestamp}-${entry.track}`}
+                className='history-session-track'
+              >
+                <div className='history-session-track-title'>
+                  {entry.libraryUrl ? (
+                    <a
+                      href={entry.libraryUrl}
+                      target='_blank'
+                      rel='noopener noreferrer'
+                    >
+                      {entry.track}{' '}
+                      <ExternalLink size={12} aria-hidden='true' />
+                    </a>
+                  ) : (
+                    entry.track
+                  )}
+                </div>
+                <div className='history-session-track-meta'>
+                  {entry.artist}
+                  {entry.album && <> &bull; {entry.album}</>}
+                </div>
+                <div className='history-session-track-timestamp'>
+                  Scrobbled: {formatTrackTimestamp(entry.timestamp * 1000)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <ModalFooter>
+        <Button onClick={onClose}>Done</Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export default LastFmRemovalGuideModal;
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+
+import { UserProfile } from '../../shared/types';
+import { useApp } from '../context/AppContext';
+import { getApiService } from '../services/api';
+import { createLogger } from '../utils/logger';
+import { getActiveProfileId, switchProfile } from '../utils/profileUtils';
+
+import { Modal, ModalFooter } from './ui';
+import { Button } from './ui/Button';
+
+const log = createLogger('ProfileSwitcher');
+
+const NEW_PROFILE_OPTION = '__new__';
+
+/**
+ * Header control for choosing whose accounts and data the app shows.
+ */
+const ProfileSwitcher: React.FC = () => {
+  const { state } = useApp();
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const activeProfileId = getActiveProfileId();
+
+  useEffect(() => {
+    getApiService(state.serverUrl)
+      .getProfiles()
+      .then(setProfiles)
+      .catch(err => log.warn('Failed to load profiles', err));
+  }, [state.serverUrl]);
+
+  const handleChange = (e: React.ChangeEvent<globalThis.HTMLSelectElement>) => {
+    if (e.target.value === NEW_PROFILE_OPTION) {
+      setNewName('');
+      setError(null);
+      setIsCreating(true);
+      return;
+    }
+    if (e.target.value !== activeProfileId) {
+      switchProfile(e.target.value);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const profile = await getApiService(state.serverUrl).createProfile(
+        newName
+      );
+      switchProfile(profile.id);
+    } catch (err) {
+      const message =
+        (err as { response?: { data?: { error?: string } } }).response?.data
+          ?.error || 'Failed to create profile';
+      setError(message);
+      setSaving(false);
+    }
+  };
+
+  // Nothing to switch between until profiles have loaded
+  if (profiles.length === 0) return null;
+
+  return (
+    <>
+      <select
+        className='form-select header-profile-select'
+        value={activeProfileId}
+        onChange={handleChange}
+        aria-label='Profile'
+        title='Switch profile'
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+        <option value={NEW_PROFILE_OPTION}>New profile…</option>
+      </select>
+
+      <Modal
+        isOpen={isCreating}
+        onClose={() => setIsCreating(false)}
+        title='New Profile'
+        size='small'
+      >
+        <form id='new-profile-form' onSubmit={handleCreate}>
+          <div className='form-group'>
+            <label className='form-label' htmlFor='new-profile-name'>
+              Name
+            </label>
+            <input
+              id='new-profile-name'
+              className='form-input'
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              maxLength={40}
+              autoFocus
+            />
+            <div className='form-hint'>
+              Each profile has its own Discogs and Last.fm accounts, history and
+              backups.
+            </div>
+          </div>
+          {error && <div className='form-error'>{error}</div>}
+        </form>
+        <ModalFooter>
+          <Button variant='secondary' onClick={() => setIsCreating(false)}>
+            Cancel
+          </Button>
+          <Button
+            type='submit'
+            form='new-profile-form'
+            disabled={saving || newName.trim().length === 0}
+          >
+            Create and Switch
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </>
+  );
+};
+
+export default ProfileSwitcher;
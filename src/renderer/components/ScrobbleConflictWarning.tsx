@@ -0,0 +1,76 @@
+import { AlertTriangle } from 'lucide-react';
+import React from 'react';
+
+import { ScrobbleConflictReport } from '../../shared/types';
+import { formatLocalTimeClean } from '../utils/dateUtils';
+
+import { Button } from './ui/Button';
+
+// Long batches can conflict on every track; list only the first few
+const MAX_LISTED_CONFLICTS = 5;
+
+interface ScrobbleConflictWarningProps {
+  report: ScrobbleConflictReport;
+  onAutoShift: () => void;
+  shifting?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Warns that proposed scrobbles overlap plays already in the Last.fm
+ * history, and offers to shift the batch into the nearest free gap.
+ * Renders nothing when the report has no conflicts.
+ */
+const ScrobbleConflictWarning: React.FC<ScrobbleConflictWarningProps> = ({
+  report,
+  onAutoShift,
+  shifting = false,
+  disabled = false,
+}) => {
+  if (!report.hasConflicts) {
+    return null;
+  }
+
+  const listed = report.conflicts.slice(0, MAX_LISTED_CONFLICTS);
+  const remaining = report.conflicts.length - listed.length;
+
+  return (
+    <div className='warning-message scrobble-conflict-warning' role='alert'>
+      <div className='scrobble-conflict-warning-header'>
+        <AlertTriangle size={16} aria-hidden='true' />
+        <strong>
+          {report.conflicts.length} of {report.tracks.length} tracks overlap
+          existing scrobbles
+        </strong>
+      </div>
+      <ul className='scrobble-conflict-warning-list'>
+        {listed.map(conflict => {
+          const proposed = report.tracks[conflict.trackIndex];
+          const existing = conflict.existing[0];
+          return (
+            <li key={conflict.trackIndex}>
+              {proposed?.track} (
+              {formatLocalTimeClean(conflict.timestamp * 1000)}) overlaps{' '}
+              {existing.artist} – {existing.track || existing.album} (
+              {formatLocalTimeClean(existing.timestamp * 1000)})
+              {conflict.existing.length > 1 &&
+                ` and ${conflict.existing.length - 1} more`}
+            </li>
+          );
+        })}
+        {remaining > 0 && <li>…and {remaining} more tracks</li>}
+      </ul>
+      <Button
+        size='small'
+        variant='outline'
+        onClick={onAutoShift}
+        disabled={disabled || shifting}
+        loading={shifting}
+      >
+        Shift to nearest free gap
+      </Button>
+    </div>
+  );
+};
+
+export default ScrobbleConflictWarning;
@@ -1,7 +1,11 @@
-import { Check, RefreshCw, XCircle } from 'lucide-react';
+import { Check, Clock, RefreshCw, Undo2, XCircle } from 'lucide-react';
 import React from 'react';
 
-import { ScrobbleSession, ScrobbleTrack } from '../../shared/types';
+import {
+  ScrobbleSession,
+  ScrobbleTargetId,
+  ScrobbleTrack,
+} from '../../shared/types';
 
 import { Button } from './ui/Button';
 
@@ -21,10 +25,37 @@ interface ScrobbleSessionCardProps {
   onDelete: (sessionId: string) => void;
   onResubmit: (sessionId: string) => void;
   onResubmitTrack: (sessionId: string, trackIndex: number) => void;
+  onUndo: (sessionId: string) => void;
+  onShowUndoGuide: (sessionId: string) => void;
   actionLoading: string | null;
   getUniqueAlbumCovers: (tracks: ScrobbleTrack[]) => UniqueAlbum[];
 }
 
+const TARGET_NAMES: Record<ScrobbleTargetId, string> = {
+  listenbrainz: 'ListenBrainz',
+};
+
+/** Additional targets (e.g. ListenBrainz) that failed for this track. */
+const getFailedTargets = (track: ScrobbleTrack): ScrobbleTargetId[] =>
+  (Object.keys(track.targets || {}) as ScrobbleTargetId[]).filter(
+    id => track.targets?.[id]?.status === 'failed'
+  );
+
+// Something reached Last.fm (or is queued for it) that an undo can take back.
+// Sessions from before per-track statuses only record the session status.
+const canUndoSession = (session: ScrobbleSession): boolean =>
+  (session.status === 'completed' || session.status === 'failed') &&
+  (session.tracks.some(
+    t => t.scrobbleStatus === 'success' || t.scrobbleStatus === 'queued'
+  ) ||
+    (session.status === 'completed' &&
+      !session.tracks.some(t => t.scrobbleStatus)));
+
+// A track can be resubmitted if Last.fm or any other target failed
+const canResubmitTrack = (track: ScrobbleTrack): boolean =>
+  (!!track.scrobbleStatus && track.scrobbleStatus !== 'success') ||
+  getFailedTargets(track).length > 0;
+
 const getStatusClass = (status: string): string => {
   switch (status) {
     case 'completed':
@@ -48,10 +79,13 @@ const ScrobbleSessionCard: React.FC<ScrobbleSessionCardProps> = ({
   onDelete,
   onResubmit,
   onResubmitTrack,
+  onUndo,
+  onShowUndoGuide,
   actionLoading,
   getUniqueAlbumCovers,
 }) => {
   const uniqueAlbums = getUniqueAlbumCovers(session.tracks);
+  const isReverted = session.status === 'reverted';
 
   return (
     <div className='card'>
@@ -79,6 +113,14 @@ const ScrobbleSessionCard: React.FC<ScrobbleSessionCardProps> = ({
                 &bull; Successfully scrobbled
               </span>
             )}
+            {isReverted && (
+              <span className='history-session-error'>
+                &bull; Undone
+                {session.revertedAt
+                  ? ` on ${formatDate(session.revertedAt)}`
+                  : ''}
+              </span>
+            )}
             {session.status === 'failed' && session.error && (
               <span className='history-session-error'>
                 &bull; {session.error}
@@ -110,7 +152,9 @@ const ScrobbleSessionCard: React.FC<ScrobbleSessionCardProps> = ({
             {isExpanded ? 'Hide Details' : 'View Details'}
           </Button>
 
-          {(session.status === 'pending' || session.status === 'failed') && (
+          {(session.status === 'pending' ||
+            session.status === 'failed' ||
+            isReverted) && (
             <Button
               variant='danger'
               size='small'
@@ -122,24 +166,45 @@ const ScrobbleSessionCard: React.FC<ScrobbleSessionCardProps> = ({
                 : 'Delete'}
             </Button>
           )}
-          {(session.tracks.some(
-            t => t.scrobbleStatus && t.scrobbleStatus !== 'success'
-          ) ||
-            ((session.status === 'pending' || session.status === 'failed') &&
-              !session.tracks.some(t => t.scrobbleStatus))) && (
+          {canUndoSession(session) && (
             <Button
+              variant='secondary'
               size='small'
-              onClick={() => onResubmit(session.id)}
-              disabled={actionLoading === `resubmit-${session.id}`}
+              onClick={() => onUndo(session.id)}
+              disabled={actionLoading === `undo-${session.id}`}
+              title='Take this session back out of your history'
             >
-              <RefreshCw size={14} aria-hidden='true' />{' '}
-              {actionLoading === `resubmit-${session.id}`
-                ? 'Resubmitting...'
-                : session.tracks.some(t => t.scrobbleStatus)
-                  ? 'Resubmit Failed'
-                  : 'Resubmit'}
+              <Undo2 size={14} aria-hidden='true' />{' '}
+              {actionLoading === `undo-${session.id}` ? 'Undoing...' : 'Undo'}
             </Button>
           )}
+          {isReverted && (
+            <Button
+              variant='secondary'
+              size='small'
+              onClick={() => onShowUndoGuide(session.id)}
+              disabled={actionLoading === `undo-guide-${session.id}`}
+            >
+              Last.fm Cleanup
+            </Button>
+          )}
+          {!isReverted &&
+            (session.tracks.some(canResubmitTrack) ||
+              ((session.status === 'pending' || session.status === 'failed') &&
+                !session.tracks.some(t => t.scrobbleStatus))) && (
+              <Button
+                size='small'
+                onClick={() => onResubmit(session.id)}
+                disabled={actionLoading === `resubmit-${session.id}`}
+              >
+                <RefreshCw size={14} aria-hidden='true' />{' '}
+                {actionLoading === `resubmit-${session.id}`
+                  ? 'Resubmitting...'
+                  : session.tracks.some(t => t.scrobbleStatus)
+                    ? 'Resubmit Failed'
+                    : 'Resubmit'}
+              </Button>
+            )}
         </div>
       </div>
 
@@ -177,6 +242,12 @@ const ScrobbleSessionCard: React.FC<ScrobbleSessionCardProps> = ({
                         color='var(--success-color)'
                         aria-label='Success'
                       />
+                    ) : track.scrobbleStatus === 'queued' ? (
+                      <Clock
+                        size={14}
+                        color='var(--warning-color)'
+                        aria-label='Queued for retry'
+                      />
                     ) : (
                       <XCircle
                         size={14}
@@ -198,8 +269,20 @@ const ScrobbleSessionCard: React.FC<ScrobbleSessionCardProps> = ({
                       Scrobbled: {formatTrackTimestamp(track.timestamp * 1000)}
                     </div>
                   )}
+                  {getFailedTargets(track).map(id => (
+                    <div
+                      key={id}
+                      className='history-session-track-meta'
+                      style={{ color: 'var(--error-color)' }}
+                    >
+                      {TARGET_NAMES[id]} failed
+                      {track.targets?.[id]?.error
+                        ? `: ${track.targets[id]?.error}`
+                        : ''}
+                    </div>
+                  ))}
                 </div>
-                {track.scrobbleStatus && track.scrobbleStatus !== 'success' && (
+                {!isReverted && canResubmitTrack(track) && (
                   <Button
                     size='small'
                     onClick={() => onResubmitTrack(session.id, index)}
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+
+import { ShelfLocation } from '../../shared/types';
+import '../pages/CollectionPage.page.css';
+
+import { Button } from './ui/Button';
+
+interface ShelfLocationEditorProps {
+  itemId: number;
+  location: ShelfLocation | null;
+  saving: boolean;
+  /** Save a location, or clear it with null */
+  onSave: (location: ShelfLocation | null) => void;
+}
+
+interface Draft {
+  shelf: string;
+  row: string;
+  position: string;
+}
+
+const toDraft = (location: ShelfLocation | null): Draft => ({
+  shelf: location?.shelf ?? '',
+  row: location?.row ?? '',
+  position: location?.position ? String(location.position) : '',
+});
+
+/**
+ * Shelf, row and position inputs for one collection instance.
+ */
+const ShelfLocationEditor: React.FC<ShelfLocationEditorProps> = ({
+  itemId,
+  location,
+  saving,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(location));
+
+  // Start over from the saved location whenever it changes
+  useEffect(() => {
+    setDraft(toDraft(location));
+  }, [location]);
+
+  const shelf = draft.shelf.trim();
+  const position = Number(draft.position);
+  const positionValid =
+    !draft.position || (Number.isInteger(position) && position > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shelf || !positionValid) return;
+    onSave({
+      shelf,
+      ...(draft.row.trim() ? { row: draft.row.trim() } : {}),
+      ...(draft.position ? { position } : {}),
+    });
+  };
+
+  const update =
+    (key: keyof Draft) => (e: React.ChangeEvent<HTMLInputElement>) =>
+      setDraft(prev => ({ ...prev, [key]: e.target.value }));
+
+  return (
+    <form className='shelf-location-editor' onSubmit={handleSubmit}>
+      <span className='collection-filter-label'>Where is it?</span>
+      <label htmlFor={`shelf-${itemId}-shelf`} className='sr-only'>
+        Shelf
+      </label>
+      <input
+        id={`shelf-${itemId}-shelf`}
+        type='text'
+        placeholder='Shelf'
+        value={draft.shelf}
+        onChange={update('shelf')}
+        disabled={saving}
+        maxLength={40}
+        className='collection-filter-input'
+      />
+      <label htmlFor={`shelf-${itemId}-row`} className='sr-only'>
+        Row
+      </label>
+      <input
+        id={`shelf-${itemId}-row`}
+        type='text'
+        placeholder='Row'
+        value={draft.row}
+        onChange={update('row')}
+        disabled={saving}
+        maxLength={40}
+        className='collection-filter-input'
+      />
+      <label htmlFor={`shelf-${itemId}-position`} className='sr-only'>
+        Position
+      </label>
+      <input
+        id={`shelf-${itemId}-position`}
+        type='number'
+        min={1}
+        placeholder='#'
+        value={draft.position}
+        onChange={update('position')}
+        disabled={saving}
+        className='collection-filter-input'
+      />
+      <Button
+        type='submit'
+        size='small'
+        disabled={saving || !shelf || !positionValid}
+      >
+        Save
+      </Button>
+      {location && (
+        <Button
+          type='button'
+          variant='secondary'
+          size='small'
+          onClick={() => onSave(null)}
+          disabled={saving}
+        >
+          Clear
+        </Button>
+      )}
+    </form>
+  );
+};
+
+export default ShelfLocationEditor;
@@ -0,0 +1,33 @@
+import { MapPin } from 'lucide-react';
+import React from 'react';
+
+import { ShelfLocation } from '../../shared/types';
+import { formatShelfLocation } from '../../shared/utils/shelfLocation';
+
+interface ShelfLocationTagProps {
+  location?: ShelfLocation | null;
+  /** Say "Not shelved" instead of rendering nothing when there's no location */
+  showMissing?: boolean;
+}
+
+/**
+ * "Where is it?" answer for an owned record: its shelf, row and position.
+ */
+const ShelfLocationTag: React.FC<ShelfLocationTagProps> = ({
+  location,
+  showMissing = false,
+}) => {
+  if (!location && !showMissing) return null;
+
+  return (
+    <span
+      className={`shelf-location-tag${location ? '' : ' shelf-location-tag--missing'}`}
+      title='Where is it?'
+    >
+      <MapPin size={12} aria-hidden='true' />
+      {location ? formatShelfLocation(location) : 'Not shelved'}
+    </span>
+  );
+};
+
+export default ShelfLocationTag;
@@ -1,10 +1,15 @@
 import { Music } from 'lucide-react';
 import React, { useState } from 'react';
 
-import { SuggestionResult, SuggestionFactors } from '../../shared/types';
+import {
+  ShelfLocation,
+  SuggestionResult,
+  SuggestionFactors,
+} from '../../shared/types';
 import { navigate } from '../routes';
 import { createLogger } from '../utils/logger';
 
+import ShelfLocationTag from './ShelfLocationTag';
 import { Button } from './ui/Button';
 
 const logger = createLogger('SuggestionCard');
@@ -13,12 +18,15 @@ interface SuggestionCardProps {
   suggestion: SuggestionResult;
   onDismiss?: (albumId: number) => void;
   showScore?: boolean;
+  /** Where the record sits, when known */
+  shelfLocation?: ShelfLocation | null;
 }
 
 const SuggestionCard: React.FC<SuggestionCardProps> = ({
   suggestion,
   onDismiss,
   showScore = false,
+  shelfLocation,
 }) => {
   const [showFactors, setShowFactors] = useState(false);
 
@@ -123,6 +131,8 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({
           {release.format?.join(', ') || 'Unknown Format'}
         </div>
 
+        <ShelfLocationTag location={shelfLocation} />
+
         <div className='suggestion-card-reason'>{reason}</div>
 
         {showScore && (
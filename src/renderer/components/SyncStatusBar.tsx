@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 
-import { SyncStatus } from '../../shared/types';
+import { ScrobbleQueueStatus, SyncStatus } from '../../shared/types';
 import { getApiService } from '../services/api';
 
 import { Button } from './ui/Button';
@@ -27,6 +27,10 @@ const SyncStatusBar: React.FC<SyncStatusBarProps> = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isStartingSync, setIsStartingSync] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<ScrobbleQueueStatus | null>(
+    null
+  );
+  const [isRetryingQueue, setIsRetryingQueue] = useState(false);
 
   // Use ref to track sync status for interval callback to avoid stale closure
   const syncStatusRef = useRef<SyncStatus | null>(null);
@@ -73,6 +77,24 @@ const SyncStatusBar: React.FC<SyncStatusBarProps> = ({
     }
   }, [api]);
 
+  // The retry queue is secondary: a failure here must not hide sync status
+  const fetchQueueStatus = useCallback(async () => {
+    try {
+      setQueueStatus(await api.getScrobbleQueueStatus());
+    } catch {
+      setQueueStatus(null);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    if (globalBar) return;
+    fetchQueueStatus();
+
+    // The server drains the queue every minute; keep the count roughly current
+    const interval = setInterval(fetchQueueStatus, 60000);
+    return () => clearInterval(interval);
+  }, [fetchQueueStatus, globalBar]);
+
   useEffect(() => {
     fetchStatus();
 
@@ -133,6 +155,18 @@ const SyncStatusBar: React.FC<SyncStatusBarProps> = ({
     }
   };
 
+  const handleRetryQueue = async () => {
+    try {
+      setIsRetryingQueue(true);
+      const { status } = await api.retryScrobbleQueue();
+      setQueueStatus(status);
+    } catch {
+      await fetchQueueStatus();
+    } finally {
+      setIsRetryingQueue(false);
+    }
+  };
+
   const formatTimeRemaining = (seconds: number): string => {
     if (seconds < 60) return `${seconds}s`;
     if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
@@ -172,6 +206,33 @@ const SyncStatusBar: React.FC<SyncStatusBarProps> = ({
 
   if (!syncStatus) return null;
 
+  const queueNotice =
+    queueStatus && (queueStatus.pending > 0 || queueStatus.failed > 0) ? (
+      <div className='sync-queue-status' role='status'>
+        {queueStatus.pending > 0 && (
+          <span className='sync-queue-pending'>
+            {queueStatus.pending} scrobble
+            {queueStatus.pending === 1 ? '' : 's'} queued for retry
+          </span>
+        )}
+        {queueStatus.failed > 0 && (
+          <span className='sync-queue-failed'>
+            {queueStatus.failed} could not be delivered
+          </span>
+        )}
+        {queueStatus.pending > 0 && (
+          <Button
+            variant='ghost'
+            size='small'
+            onClick={handleRetryQueue}
+            disabled={isRetryingQueue}
+          >
+            {isRetryingQueue ? 'Retrying...' : 'Retry now'}
+          </Button>
+        )}
+      </div>
+    ) : null;
+
   // Global bar mode: only show during active syncing or paused states
   if (globalBar) {
     const isActive =
@@ -206,6 +267,7 @@ const SyncStatusBar: React.FC<SyncStatusBarProps> = ({
         <div className='sync-status-compact'>
           <ProgressBar value={syncStatus.progress} size='small' animated />
           <span className='sync-text'>Syncing: {syncStatus.progress}%</span>
+          {queueNotice}
         </div>
       );
     }
@@ -216,6 +278,7 @@ const SyncStatusBar: React.FC<SyncStatusBarProps> = ({
           <span className='sync-text'>
             {storageStats.totalScrobbles.toLocaleString()} scrobbles indexed
           </span>
+          {queueNotice}
         </div>
       );
     }
@@ -229,6 +292,7 @@ const SyncStatusBar: React.FC<SyncStatusBarProps> = ({
         >
           Sync history to enable suggestions
         </Button>
+        {queueNotice}
       </div>
     );
   }
@@ -373,6 +437,8 @@ const SyncStatusBar: React.FC<SyncStatusBarProps> = ({
           </Button>
         </div>
       )}
+
+      {queueNotice}
     </div>
   );
 };
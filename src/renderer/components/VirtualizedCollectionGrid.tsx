@@ -18,11 +18,12 @@ interface VirtualizedCollectionGridProps {
   onAddToDiscardPile: (item: CollectionItem) => void;
   playCounts?: Map<string, AlbumPlayCountResult>;
   getPlayCountKey?: (artist: string, title: string) => string;
+  onRatingChange?: (item: CollectionItem, rating: number) => void;
 }
 
 const CARD_MIN_WIDTH = 280;
 const CARD_GAP = 24; // 1.5rem
-const ROW_HEIGHT = 400; // Slightly above min-height: 380px + gap
+const ROW_HEIGHT = 420; // Card with its rating row + gap
 
 const VirtualizedCollectionGrid: React.FC<VirtualizedCollectionGridProps> = ({
   items,
@@ -33,6 +34,7 @@ const VirtualizedCollectionGrid: React.FC<VirtualizedCollectionGridProps> = ({
   onAddToDiscardPile,
   playCounts,
   getPlayCountKey,
+  onRatingChange,
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [columns, setColumns] = useState(4);
@@ -108,6 +110,7 @@ const VirtualizedCollectionGrid: React.FC<VirtualizedCollectionGridProps> = ({
                     onAddToDiscardPile={onAddToDiscardPile}
                     playCount={pcData?.playCount}
                     lastPlayed={pcData?.lastPlayed}
+                    onRatingChange={onRatingChange}
                   />
                 );
               })}
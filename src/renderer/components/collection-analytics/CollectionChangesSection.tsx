@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { CollectionChange, CollectionChangeType } from '../../../shared/types';
+import { useApp } from '../../context/AppContext';
+import { useAuth } from '../../context/AuthContext';
+import { getApiService } from '../../services/api';
+import { formatLocalDateOnly } from '../../utils/dateUtils';
+import { createLogger } from '../../utils/logger';
+import { Button } from '../ui/Button';
+
+const log = createLogger('CollectionChangesSection');
+
+const PAGE_SIZE = 50;
+
+const FILTERS: Array<{ type: CollectionChangeType | null; label: string }> = [
+  { type: null, label: 'All' },
+  { type: 'added', label: 'Added' },
+  { type: 'removed', label: 'Removed' },
+  { type: 'rating', label: 'Rating' },
+  { type: 'notes', label: 'Notes' },
+  { type: 'folder', label: 'Folder' },
+];
+
+const describeChange = (change: CollectionChange): string => {
+  switch (change.type) {
+    case 'added':
+      return 'Added to the collection';
+    case 'removed':
+      return 'Removed from the collection';
+    case 'rating':
+      return `Rating ${change.before || 'none'} → ${change.after || 'none'}`;
+    case 'notes':
+      return change.after ? `Notes: ${change.after}` : 'Notes cleared';
+    case 'folder':
+      return `Moved from folder ${change.before} to ${change.after}`;
+  }
+};
+
+/**
+ * Timeline of what changed in the collection between cache refreshes.
+ */
+const CollectionChangesSection: React.FC = () => {
+  const { state } = useApp();
+  const { authStatus } = useAuth();
+  const username = authStatus.discogs.username;
+  const [filter, setFilter] = useState<CollectionChangeType | null>(null);
+  const [changes, setChanges] = useState<CollectionChange[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChanges = useCallback(
+    async (offset: number) => {
+      if (!username) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await getApiService(
+          state.serverUrl
+        ).getCollectionChanges(username, {
+          type: filter ?? undefined,
+          limit: PAGE_SIZE,
+          offset,
+        });
+        setChanges(prev =>
+          offset === 0 ? result.changes : [...prev, ...result.changes]
+        );
+        setTotal(result.total);
+      } catch (err) {
+        log.error('Failed to load collection changes', err);
+        setError('Failed to load collection changes');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [state.serverUrl, username, filter]
+  );
+
+  useEffect(() => {
+    loadChanges(0);
+  }, [loadChanges]);
+
+  return (
+    <div className='analytics-full-width-chart'>
+      <h3>Collection Changes</h3>
+
+      <div className='analytics-granularity-toggle'>
+        {FILTERS.map(({ type, label }) => (
+          <button
+            key={label}
+            className={`analytics-granularity-btn${filter === type ? ' analytics-granularity-btn--active' : ''}`}
+            onClick={() => setFilter(type)}
+            aria-pressed={filter === type}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className='analytics-changes-error'>{error}</div>}
+
+      {!error && !loading && changes.length === 0 ? (
+        <p className='analytics-changes-empty'>
+          No changes recorded yet. Additions, removals and edits made on Discogs
+          appear here after the collection is next refreshed.
+        </p>
+      ) : (
+        <ul className='analytics-changes-list'>
+          {changes.map(change => (
+            <li
+              key={`${change.type}-${change.instanceId}-${change.timestamp}`}
+              className={`analytics-changes-item analytics-changes-item--${change.type}`}
+            >
+              {change.coverImage ? (
+                <img
+                  className='analytics-valuable-cover'
+                  src={change.coverImage}
+                  alt=''
+                  loading='lazy'
+                />
+              ) : (
+                <div className='analytics-valuable-cover' />
+              )}
+              <div className='analytics-valuable-info'>
+                <div className='analytics-valuable-title'>{change.title}</div>
+                <div className='analytics-valuable-artist'>{change.artist}</div>
+                <div className='analytics-valuable-meta'>
+                  {describeChange(change)}
+                </div>
+              </div>
+              <time
+                className='analytics-changes-date'
+                dateTime={new Date(change.timestamp).toISOString()}
+              >
+                {formatLocalDateOnly(change.timestamp)}
+              </time>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {loading && <div className='analytics-loading'>Loading...</div>}
+
+      {!loading && changes.length < total && (
+        <Button
+          variant='secondary'
+          size='small'
+          onClick={() => loadChanges(changes.length)}
+        >
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default CollectionChangesSection;
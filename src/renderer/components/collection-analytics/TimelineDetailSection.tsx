@@ -63,7 +63,7 @@ const TimelineDetailSection: React.FC<TimelineDetailSectionProps> = ({
     if (points.length === 0) return 'No growth data available.';
     const first = points[0];
     const last = points[points.length - 1];
-    return `Collection growth chart (${granularity}ly). From ${first.period} to ${last.period}, collection grew from ${first.cumulative} to ${last.cumulative} records. Total added: ${growthData.totalAdded}.`;
+    return `Collection growth chart (${granularity}ly). From ${first.period} to ${last.period}, collection grew from ${first.cumulative} to ${last.cumulative} records. Total added: ${growthData.totalAdded}. Total removed: ${growthData.totalRemoved}.`;
   }, [growthData, granularity]);
 
   const decadeSrText = useMemo(() => {
@@ -14,6 +14,7 @@ import {
 } from '../../../shared/types';
 import { collectionAnalyticsApi } from '../../services/statsApi';
 import { createLogger } from '../../utils/logger';
+import DiscogsBudgetStatus from '../DiscogsBudgetStatus';
 import { Button } from '../ui/Button';
 import { ProgressBar } from '../ui/ProgressBar';
 
@@ -172,6 +173,7 @@ const ValueEstimationSection: React.FC = () => {
                   </>
                 )}
               </div>
+              <DiscogsBudgetStatus />
             </div>
           ) : (
             <Button onClick={handleStartScan} disabled={scanning}>
@@ -263,6 +265,7 @@ const ValueEstimationSection: React.FC = () => {
                 </>
               )}
             </div>
+            <DiscogsBudgetStatus />
           </div>
         )}
       </div>
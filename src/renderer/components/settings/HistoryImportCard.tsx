@@ -0,0 +1,219 @@
+import { Upload } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+
+import {
+  HistoryImportFormat,
+  HistoryImportPreview,
+} from '../../../shared/types';
+import ApiService from '../../services/api';
+import { createLogger } from '../../utils/logger';
+import { Button } from '../ui/Button';
+
+const logger = createLogger('HistoryImportCard');
+
+interface HistoryImportCardProps {
+  api: ApiService;
+  /** Called after an import is written so the sync stats can refresh. */
+  onImported?: () => void;
+}
+
+const FORMAT_LABELS: Record<HistoryImportFormat, string> = {
+  'lastfm-csv': 'Last.fm CSV',
+  'lastfm-json': 'Last.fm JSON',
+  listenbrainz: 'ListenBrainz',
+};
+
+const formatPlayDate = (timestamp: number | null): string =>
+  timestamp ? new Date(timestamp * 1000).toLocaleDateString() : 'Unknown';
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  const response = (error as { response?: { data?: { error?: string } } })
+    ?.response;
+  return (
+    response?.data?.error ||
+    (error instanceof Error ? error.message : fallback) ||
+    fallback
+  );
+};
+
+const HistoryImportCard: React.FC<HistoryImportCardProps> = ({
+  api,
+  onImported,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<HistoryImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setPreview(null);
+    setError('');
+    setSuccess('');
+
+    try {
+      setBusy(true);
+      const content = await file.text();
+      setPreview(await api.previewHistoryImport(content));
+    } catch (err) {
+      logger.warn('Failed to preview history import', err);
+      setError(errorMessage(err, 'Failed to read export file'));
+    } finally {
+      setBusy(false);
+    }
+
+    // Reset file input so the same file can be chosen again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    try {
+      setBusy(true);
+      setError('');
+      const result = await api.applyHistoryImport(preview.importId);
+      setPreview(null);
+      setSuccess(
+        `Imported ${result.playsAdded.toLocaleString()} plays across ${result.albumsAdded.toLocaleString()} new albums`
+      );
+      onImported?.();
+    } catch (err) {
+      logger.warn('Failed to apply history import', err);
+      setError(errorMessage(err, 'Failed to import listening history'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setPreview(null);
+    setFileName('');
+  };
+
+  return (
+    <div className='settings-section-card'>
+      <div className='settings-section-header'>
+        <span className='settings-section-icon'>
+          <Upload size={18} aria-hidden='true' />
+        </span>
+        <div>
+          <h3>Import Listening History</h3>
+          <p className='settings-section-description'>
+            Build your history index from a Last.fm or ListenBrainz export
+            instead of a full sync
+          </p>
+        </div>
+      </div>
+
+      <div className='settings-section-content'>
+        {error && <div className='error-message'>{error}</div>}
+        {success && <div className='message success'>{success}</div>}
+
+        {preview ? (
+          <>
+            <p className='settings-hint-text'>
+              {fileName} ({FORMAT_LABELS[preview.format]}):{' '}
+              {preview.totalPlays.toLocaleString()} plays from{' '}
+              {formatPlayDate(preview.oldestPlay)} to{' '}
+              {formatPlayDate(preview.newestPlay)}
+            </p>
+            <div className='settings-sync-stats'>
+              <div className='settings-sync-stat'>
+                <span className='settings-sync-stat-label'>New Plays</span>
+                <span className='settings-sync-stat-value'>
+                  {preview.newPlays.toLocaleString()}
+                </span>
+              </div>
+              <div className='settings-sync-stat'>
+                <span className='settings-sync-stat-label'>New Albums</span>
+                <span className='settings-sync-stat-value'>
+                  {preview.newAlbums.toLocaleString()}
+                </span>
+              </div>
+              <div className='settings-sync-stat'>
+                <span className='settings-sync-stat-label'>Updated Albums</span>
+                <span className='settings-sync-stat-value'>
+                  {preview.updatedAlbums.toLocaleString()}
+                </span>
+              </div>
+              <div className='settings-sync-stat'>
+                <span className='settings-sync-stat-label'>New Artists</span>
+                <span className='settings-sync-stat-value'>
+                  {preview.newArtists.toLocaleString()}
+                </span>
+              </div>
+              <div className='settings-sync-stat'>
+                <span className='settings-sync-stat-label'>
+                  Already Indexed
+                </span>
+                <span className='settings-sync-stat-value'>
+                  {preview.duplicatePlays.toLocaleString()}
+                </span>
+              </div>
+            </div>
+
+            {preview.newArtistNames.length > 0 && (
+              <p className='settings-hint-text'>
+                New artists include {preview.newArtistNames.join(', ')}
+                {preview.newArtists > preview.newArtistNames.length && '…'}
+              </p>
+            )}
+            {preview.skippedRows > 0 && (
+              <p className='settings-hint-text'>
+                {preview.skippedRows.toLocaleString()} rows without an artist,
+                album, track or time will be skipped.
+              </p>
+            )}
+
+            <div className='settings-sync-actions'>
+              <Button
+                onClick={handleImport}
+                disabled={busy || preview.newPlays === 0}
+              >
+                {busy ? 'Importing...' : 'Import'}
+              </Button>
+              <Button variant='secondary' onClick={handleCancel}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className='settings-sync-actions'>
+            <input
+              type='file'
+              ref={fileInputRef}
+              accept='.csv,.json,.jsonl,.txt'
+              onChange={handleFileSelect}
+              style={{ display: 'none' }}
+            />
+            <Button
+              variant='secondary'
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy}
+            >
+              {busy ? 'Reading...' : 'Choose Export File...'}
+            </Button>
+          </div>
+        )}
+
+        <div className='settings-sync-info'>
+          <p>
+            Accepts Last.fm exports as CSV or JSON and ListenBrainz listen
+            dumps. Plays already in the index are skipped, and artist names are
+            matched through your artist mappings.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryImportCard;
@@ -0,0 +1,636 @@
+import React, { useState, useEffect, useCallback } from 'react';
+
+import {
+  MonitoredLabel,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelType,
+} from '../../../shared/types';
+import ApiService from '../../services/api';
+import { createLogger } from '../../utils/logger';
+import { Button } from '../ui/Button';
+
+const logger = createLogger('NotificationChannelsCard');
+
+interface NotificationChannelsCardProps {
+  api: ApiService;
+}
+
+const CHANNEL_TYPES: Array<{ id: NotificationChannelType; label: string }> = [
+  { id: 'webhook', label: 'Webhook (JSON)' },
+  { id: 'push', label: 'Push (ntfy / Gotify)' },
+  { id: 'email', label: 'Email (SMTP)' },
+];
+
+const CATEGORIES: Array<{ id: NotificationCategory; label: string }> = [
+  { id: 'seller-match', label: 'Seller matches' },
+  { id: 'label-release', label: 'Label releases' },
+  { id: 'website-item', label: 'Website items' },
+  { id: 'wishlist-release', label: 'Wishlist pressings' },
+  { id: 'streak-milestone', label: 'Streak milestones' },
+  { id: 'backup-failure', label: 'Backup failures' },
+  { id: 'general', label: 'Everything else' },
+];
+
+// Form state keeps every field as typed; it's converted on save
+interface ChannelForm {
+  name: string;
+  type: NotificationChannelType;
+  url: string;
+  secret: string;
+  server: 'ntfy' | 'gotify';
+  topic: string;
+  host: string;
+  port: string;
+  secure: boolean;
+  username: string;
+  from: string;
+  to: string;
+  categories: NotificationCategory[];
+  maxPrice: string;
+  labelIds: string[];
+  quietHours: boolean;
+  quietStart: string;
+  quietEnd: string;
+}
+
+const EMPTY_FORM: ChannelForm = {
+  name: '',
+  type: 'webhook',
+  url: '',
+  secret: '',
+  server: 'ntfy',
+  topic: '',
+  host: '',
+  port: '587',
+  secure: false,
+  username: '',
+  from: '',
+  to: '',
+  categories: ['seller-match', 'label-release'],
+  maxPrice: '',
+  labelIds: [],
+  quietHours: false,
+  quietStart: '22:00',
+  quietEnd: '07:00',
+};
+
+const toForm = (channel: NotificationChannel): ChannelForm => {
+  const sellerRoute = channel.routes.find(r => r.category === 'seller-match');
+  const labelRoute = channel.routes.find(r => r.category === 'label-release');
+  const form: ChannelForm = {
+    ...EMPTY_FORM,
+    name: channel.name,
+    type: channel.type,
+    categories: channel.routes.map(route => route.category),
+    maxPrice: sellerRoute?.maxPrice?.toString() ?? '',
+    labelIds: labelRoute?.labelIds ?? [],
+    quietHours: !!channel.quietHours,
+    quietStart: channel.quietHours?.start ?? EMPTY_FORM.quietStart,
+    quietEnd: channel.quietHours?.end ?? EMPTY_FORM.quietEnd,
+  };
+
+  switch (channel.type) {
+    case 'webhook':
+      return {
+        ...form,
+        url: channel.config.url,
+        secret: channel.config.secret ?? '',
+      };
+    case 'push':
+      return {
+        ...form,
+        server: channel.config.server,
+        url: channel.config.url,
+        topic: channel.config.topic ?? '',
+        secret: channel.config.token ?? '',
+      };
+    case 'email':
+      return {
+        ...form,
+        host: channel.config.host,
+        port: channel.config.port.toString(),
+        secure: channel.config.secure,
+        username: channel.config.username ?? '',
+        secret: channel.config.password ?? '',
+        from: channel.config.from,
+        to: channel.config.to.join(', '),
+      };
+  }
+  return form;
+};
+
+const toInput = (
+  form: ChannelForm,
+  enabled: boolean
+): NotificationChannelInput => {
+  const maxPrice = parseFloat(form.maxPrice);
+  const base = {
+    name: form.name.trim(),
+    enabled,
+    routes: form.categories.map(category => ({
+      category,
+      maxPrice:
+        category === 'seller-match' && !isNaN(maxPrice) ? maxPrice : undefined,
+      labelIds:
+        category === 'label-release' && form.labelIds.length > 0
+          ? form.labelIds
+          : undefined,
+    })),
+    quietHours: form.quietHours
+      ? { start: form.quietStart, end: form.quietEnd }
+      : undefined,
+  };
+  const secret = form.secret || undefined;
+
+  switch (form.type) {
+    case 'webhook':
+      return {
+        ...base,
+        type: 'webhook',
+        config: { url: form.url.trim(), secret },
+      };
+    case 'push':
+      return {
+        ...base,
+        type: 'push',
+        config: {
+          server: form.server,
+          url: form.url.trim(),
+          topic: form.server === 'ntfy' ? form.topic.trim() : undefined,
+          token: secret,
+        },
+      };
+    case 'email':
+      return {
+        ...base,
+        type: 'email',
+        config: {
+          host: form.host.trim(),
+          port: parseInt(form.port, 10),
+          secure: form.secure,
+          username: form.username.trim() || undefined,
+          password: secret,
+          from: form.from.trim(),
+          to: form.to
+            .split(',')
+            .map(address => address.trim())
+            .filter(Boolean),
+        },
+      };
+  }
+};
+
+const SECRET_LABELS: Record<NotificationChannelType, string> = {
+  webhook: 'Signing secret (optional)',
+  push: 'Access token',
+  email: 'Password',
+};
+
+const NotificationChannelsCard: React.FC<NotificationChannelsCardProps> = ({
+  api,
+}) => {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [labels, setLabels] = useState<MonitoredLabel[]>([]);
+  const [form, setForm] = useState<ChannelForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadChannels = useCallback(async () => {
+    try {
+      setChannels(await api.getNotificationChannels());
+    } catch (err) {
+      logger.warn('Failed to load notification channels', err);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadChannels();
+    api
+      .getLabels()
+      .then(setLabels)
+      .catch(err => logger.warn('Failed to load labels', err));
+  }, [api, loadChannels]);
+
+  const update = (changes: Partial<ChannelForm>) =>
+    setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const toggleCategory = (category: NotificationCategory) => {
+    if (!form) return;
+    update({
+      categories: form.categories.includes(category)
+        ? form.categories.filter(c => c !== category)
+        : [...form.categories, category],
+    });
+  };
+
+  const toggleLabel = (labelId: string) => {
+    if (!form) return;
+    update({
+      labelIds: form.labelIds.includes(labelId)
+        ? form.labelIds.filter(id => id !== labelId)
+        : [...form.labelIds, labelId],
+    });
+  };
+
+  const startEditing = (channel?: NotificationChannel) => {
+    setError('');
+    setSuccess('');
+    setEditingId(channel?.id ?? null);
+    setForm(channel ? toForm(channel) : { ...EMPTY_FORM });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (form.categories.length === 0) {
+      setError('Choose at least one category to send');
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError('');
+      const existing = channels.find(c => c.id === editingId);
+      const input = toInput(form, existing?.enabled ?? true);
+      if (editingId) {
+        await api.updateNotificationChannel(editingId, input);
+      } else {
+        await api.createNotificationChannel(input);
+      }
+      setForm(null);
+      setEditingId(null);
+      setSuccess(`Saved channel: ${input.name}`);
+      await loadChannels();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to save channel settings'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = async (channel: NotificationChannel) => {
+    try {
+      setError('');
+      await api.updateNotificationChannel(
+        channel.id,
+        toInput(toForm(channel), !channel.enabled)
+      );
+      await loadChannels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update channel');
+    }
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    try {
+      setBusy(true);
+      setError('');
+      setSuccess('');
+      const result = await api.testNotificationChannel(channel.id);
+      if (result.delivered) {
+        setSuccess(`Test sent to ${channel.name}`);
+      } else {
+        setError(`Test to ${channel.name} failed: ${result.error}`);
+      }
+      await loadChannels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (channel: NotificationChannel) => {
+    try {
+      setError('');
+      await api.deleteNotificationChannel(channel.id);
+      await loadChannels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove channel');
+    }
+  };
+
+  return (
+    <div className='settings-card'>
+      <h3>Delivery Channels</h3>
+      <p className='settings-description'>
+        Send notifications to a webhook, an ntfy or Gotify server, or an email
+        address. Passwords and tokens are stored encrypted.
+      </p>
+
+      {channels.length === 0 && !form && (
+        <p className='settings-empty-state'>No channels configured.</p>
+      )}
+
+      {channels.length > 0 && (
+        <ul className='auto-backup-list'>
+          {channels.map(channel => (
+            <li key={channel.id} className='auto-backup-item'>
+              <label className='checkbox-label'>
+                <input
+                  type='checkbox'
+                  checked={channel.enabled}
+                  onChange={() => handleToggle(channel)}
+                  aria-label={`Enable ${channel.name}`}
+                />
+                <span>{channel.name}</span>
+              </label>
+              <span className='backup-meta'>
+                {CHANNEL_TYPES.find(t => t.id === channel.type)?.label}
+                {channel.lastError &&
+                  ` — last delivery failed: ${channel.lastError}`}
+              </span>
+              <Button
+                variant='secondary'
+                size='small'
+                onClick={() => handleTest(channel)}
+                disabled={busy}
+              >
+                Send Test
+              </Button>
+              <Button
+                variant='secondary'
+                size='small'
+                onClick={() => startEditing(channel)}
+              >
+                Edit
+              </Button>
+              <Button
+                variant='danger'
+                size='small'
+                onClick={() => handleDelete(channel)}
+              >
+                Delete
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {form && (
+        <div className='settings-form-grid'>
+          <div className='form-group'>
+            <label htmlFor='channel-name'>Name:</label>
+            <input
+              id='channel-name'
+              className='form-input'
+              value={form.name}
+              onChange={e => update({ name: e.target.value })}
+            />
+          </div>
+
+          <div className='form-group'>
+            <label htmlFor='channel-type'>Type:</label>
+            <select
+              id='channel-type'
+              value={form.type}
+              disabled={!!editingId}
+              onChange={e =>
+                update({
+                  type: e.target.value as NotificationChannelType,
+                  secret: '',
+                })
+              }
+            >
+              {CHANNEL_TYPES.map(type => (
+                <option key={type.id} value={type.id}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {form.type === 'push' && (
+            <div className='form-group'>
+              <label htmlFor='channel-server'>Server:</label>
+              <select
+                id='channel-server'
+                value={form.server}
+                onChange={e =>
+                  update({ server: e.target.value as 'ntfy' | 'gotify' })
+                }
+              >
+                <option value='ntfy'>ntfy</option>
+                <option value='gotify'>Gotify</option>
+              </select>
+            </div>
+          )}
+
+          {form.type !== 'email' && (
+            <div className='form-group'>
+              <label htmlFor='channel-url'>
+                {form.type === 'webhook' ? 'Webhook URL:' : 'Server URL:'}
+              </label>
+              <input
+                id='channel-url'
+                className='form-input'
+                type='url'
+                value={form.url}
+                onChange={e => update({ url: e.target.value })}
+              />
+            </div>
+          )}
+
+          {form.type === 'push' && form.server === 'ntfy' && (
+            <div className='form-group'>
+              <label htmlFor='channel-topic'>Topic:</label>
+              <input
+                id='channel-topic'
+                className='form-input'
+                value={form.topic}
+                onChange={e => update({ topic: e.target.value })}
+              />
+            </div>
+          )}
+
+          {form.type === 'email' && (
+            <>
+              <div className='form-group'>
+                <label htmlFor='channel-host'>SMTP host:</label>
+                <input
+                  id='channel-host'
+                  className='form-input'
+                  value={form.host}
+                  onChange={e => update({ host: e.target.value })}
+                />
+              </div>
+              <div className='form-group'>
+                <label htmlFor='channel-port'>Port:</label>
+                <input
+                  id='channel-port'
+                  className='form-input'
+                  type='number'
+                  value={form.port}
+                  onChange={e => update({ port: e.target.value })}
+                />
+              </div>
+              <label className='checkbox-label'>
+                <input
+                  type='checkbox'
+                  checked={form.secure}
+                  onChange={e => update({ secure: e.target.checked })}
+                />
+                <span>Use TLS from the start (usually port 465)</span>
+              </label>
+              <div className='form-group'>
+                <label htmlFor='channel-username'>Username:</label>
+                <input
+                  id='channel-username'
+                  className='form-input'
+                  value={form.username}
+                  onChange={e => update({ username: e.target.value })}
+                />
+              </div>
+              <div className='form-group'>
+                <label htmlFor='channel-from'>From:</label>
+                <input
+                  id='channel-from'
+                  className='form-input'
+                  value={form.from}
+                  onChange={e => update({ from: e.target.value })}
+                />
+              </div>
+              <div className='form-group'>
+                <label htmlFor='channel-to'>To:</label>
+                <input
+                  id='channel-to'
+                  className='form-input'
+                  value={form.to}
+                  onChange={e => update({ to: e.target.value })}
+                />
+                <span className='form-hint'>
+                  Separate addresses with commas
+                </span>
+              </div>
+            </>
+          )}
+
+          <div className='form-group'>
+            <label htmlFor='channel-secret'>{SECRET_LABELS[form.type]}:</label>
+            <input
+              id='channel-secret'
+              className='form-input'
+              type='password'
+              autoComplete='new-password'
+              value={form.secret}
+              onChange={e => update({ secret: e.target.value })}
+            />
+          </div>
+
+          <fieldset className='form-group'>
+            <legend className='form-label'>Send:</legend>
+            {CATEGORIES.map(category => (
+              <label key={category.id} className='checkbox-label'>
+                <input
+                  type='checkbox'
+                  checked={form.categories.includes(category.id)}
+                  onChange={() => toggleCategory(category.id)}
+                />
+                <span>{category.label}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          {form.categories.includes('seller-match') && (
+            <div className='form-group'>
+              <label htmlFor='channel-max-price'>
+                Only seller matches up to:
+              </label>
+              <input
+                id='channel-max-price'
+                className='form-input settings-price-input'
+                type='number'
+                min='0'
+                value={form.maxPrice}
+                onChange={e => update({ maxPrice: e.target.value })}
+              />
+              <span className='form-hint'>Leave empty for any price</span>
+            </div>
+          )}
+
+          {form.categories.includes('label-release') && labels.length > 0 && (
+            <fieldset className='form-group'>
+              <legend className='form-label'>
+                Only releases from these labels (none = all):
+              </legend>
+              {labels.map(label => (
+                <label key={label.id} className='checkbox-label'>
+                  <input
+                    type='checkbox'
+                    checked={form.labelIds.includes(label.id)}
+                    onChange={() => toggleLabel(label.id)}
+                  />
+                  <span>{label.name}</span>
+                </label>
+              ))}
+            </fieldset>
+          )}
+
+          <label className='checkbox-label'>
+            <input
+              type='checkbox'
+              checked={form.quietHours}
+              onChange={e => update({ quietHours: e.target.checked })}
+            />
+            <span>Quiet hours</span>
+          </label>
+          {form.quietHours && (
+            <div className='form-group'>
+              <label htmlFor='channel-quiet-start'>From:</label>
+              <input
+                id='channel-quiet-start'
+                type='time'
+                value={form.quietStart}
+                onChange={e => update({ quietStart: e.target.value })}
+              />
+              <label htmlFor='channel-quiet-end'>Until:</label>
+              <input
+                id='channel-quiet-end'
+                type='time'
+                value={form.quietEnd}
+                onChange={e => update({ quietEnd: e.target.value })}
+              />
+            </div>
+          )}
+
+          <div className='button-group'>
+            <Button onClick={handleSave} disabled={busy}>
+              {busy ? 'Saving...' : 'Save Channel'}
+            </Button>
+            <Button
+              variant='secondary'
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!form && (
+        <div className='button-group'>
+          <Button variant='secondary' onClick={() => startEditing()}>
+            Add Channel
+          </Button>
+        </div>
+      )}
+
+      {error && <div className='error-message'>{error}</div>}
+      {success && <div className='success-message'>{success}</div>}
+    </div>
+  );
+};
+
+export default NotificationChannelsCard;
@@ -0,0 +1,211 @@
+import { Radio } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { RecognizerDeviceSummary } from '../../../shared/types';
+import { useConfirmModal } from '../../hooks/useConfirmModal';
+import ApiService from '../../services/api';
+import { createLogger } from '../../utils/logger';
+import { Button } from '../ui/Button';
+
+const logger = createLogger('RecognizerDevicesCard');
+
+interface RecognizerDevicesCardProps {
+  api: ApiService;
+}
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  const response = (error as { response?: { data?: { error?: string } } })
+    ?.response;
+  return (
+    response?.data?.error ||
+    (error instanceof Error ? error.message : fallback) ||
+    fallback
+  );
+};
+
+const describeStats = (device: RecognizerDeviceSummary): string =>
+  [
+    `${device.scrobbled} scrobbled`,
+    `${device.rejected} rejected`,
+    device.averageConfidence !== null
+      ? `${Math.round(device.averageConfidence * 100)}% avg. confidence`
+      : null,
+    device.lastSeenAt
+      ? `last seen ${new Date(device.lastSeenAt).toLocaleString()}`
+      : 'never seen',
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+/**
+ * Register playback recognizers, see what each has scrobbled, and pause or
+ * revoke them.
+ */
+const RecognizerDevicesCard: React.FC<RecognizerDevicesCardProps> = ({
+  api,
+}) => {
+  const [confirmAction, ConfirmModal] = useConfirmModal();
+  const [devices, setDevices] = useState<RecognizerDeviceSummary[]>([]);
+  const [name, setName] = useState('');
+  const [newKey, setNewKey] = useState<{ name: string; apiKey: string } | null>(
+    null
+  );
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setDevices(await api.getRecognizerDevices());
+    } catch (err) {
+      logger.warn('Failed to load recognizers', err);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setError('');
+    try {
+      setBusy(true);
+      const registration = await api.registerRecognizerDevice(name.trim());
+      setNewKey({
+        name: registration.device.name,
+        apiKey: registration.apiKey,
+      });
+      setName('');
+      await loadDevices();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to register recognizer'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTogglePaused = async (device: RecognizerDeviceSummary) => {
+    setError('');
+    try {
+      const updated = await api.setRecognizerDevicePaused(
+        device.id,
+        !device.paused
+      );
+      setDevices(prev =>
+        prev.map(candidate =>
+          candidate.id === updated.id ? updated : candidate
+        )
+      );
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update recognizer'));
+    }
+  };
+
+  const handleRevoke = async (device: RecognizerDeviceSummary) => {
+    const confirmed = await confirmAction(
+      `Revoke ${device.name}? Its API key stops working immediately.`,
+      { title: 'Revoke Recognizer', confirmLabel: 'Revoke' }
+    );
+    if (!confirmed) return;
+
+    setError('');
+    try {
+      await api.revokeRecognizerDevice(device.id);
+      setDevices(prev => prev.filter(candidate => candidate.id !== device.id));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to revoke recognizer'));
+    }
+  };
+
+  return (
+    <div className='settings-section-card'>
+      {ConfirmModal}
+      <div className='settings-section-header'>
+        <span className='settings-section-icon'>
+          <Radio size={18} aria-hidden='true' />
+        </span>
+        <div>
+          <h3>Playback Recognizers</h3>
+          <p className='settings-section-description'>
+            Devices that listen to your turntable and scrobble what they hear
+          </p>
+        </div>
+      </div>
+
+      <div className='settings-section-content'>
+        {error && <div className='error-message'>{error}</div>}
+
+        {newKey && (
+          <div className='message success'>
+            <p>
+              API key for {newKey.name}. Copy it now; it won&apos;t be shown
+              again.
+            </p>
+            <code className='recognizer-api-key'>{newKey.apiKey}</code>
+          </div>
+        )}
+
+        {devices.length === 0 ? (
+          <p className='settings-hint-text'>No recognizers registered.</p>
+        ) : (
+          <ul className='recognizer-device-list'>
+            {devices.map(device => (
+              <li key={device.id} className='recognizer-device'>
+                <strong>
+                  {device.name}
+                  {device.paused && ' (paused)'}
+                </strong>
+                <span className='recognizer-device-meta'>
+                  {device.keyPreview}… • {describeStats(device)}
+                </span>
+                <Button
+                  variant='secondary'
+                  size='small'
+                  onClick={() => handleTogglePaused(device)}
+                >
+                  {device.paused ? 'Resume' : 'Pause'}
+                </Button>
+                <Button
+                  variant='danger'
+                  size='small'
+                  onClick={() => handleRevoke(device)}
+                >
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form className='settings-sync-actions' onSubmit={handleRegister}>
+          <label htmlFor='recognizer-name' className='sr-only'>
+            Recognizer name
+          </label>
+          <input
+            id='recognizer-name'
+            className='form-input'
+            placeholder='e.g. Turntable Pi'
+            value={name}
+            maxLength={60}
+            onChange={e => setName(e.target.value)}
+            disabled={busy}
+          />
+          <Button type='submit' disabled={busy || !name.trim()}>
+            {busy ? 'Registering...' : 'Register'}
+          </Button>
+        </form>
+
+        <div className='settings-sync-info'>
+          <p>
+            Recognizers send their key as an &quot;Authorization: Bearer&quot;
+            header to /api/v1/scrobble/recognized. A paused recognizer&apos;s
+            tracks are still followed but not scrobbled.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecognizerDevicesCard;
@@ -7,6 +7,17 @@ import { Button } from '../ui/Button';
 
 const log = createLogger('SettingsConnectionsSection');
 
+// Prefer the API's error message (e.g. an invalid token) over axios's generic one
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const response = (error as { response?: { data?: { error?: string } } })
+    ?.response;
+  return (
+    response?.data?.error ||
+    (error instanceof Error ? error.message : fallback) ||
+    fallback
+  );
+};
+
 interface SettingsConnectionsSectionProps {
   api: ApiService;
 }
@@ -25,6 +36,7 @@ const SettingsConnectionsSection: React.FC<SettingsConnectionsSectionProps> = ({
   const [discogsToken, setDiscogsToken] = useState('');
   const [discogsUsername, setDiscogsUsername] = useState('');
   const [lastfmToken, setLastfmToken] = useState('');
+  const [listenBrainzToken, setListenBrainzToken] = useState('');
 
   const handleDiscogsAuth = async () => {
     setLoading('discogs');
@@ -328,6 +340,64 @@ const SettingsConnectionsSection: React.FC<SettingsConnectionsSectionProps> = ({
     }
   };
 
+  const handleListenBrainzConnect = async () => {
+    setLoading('listenbrainz');
+    setMessage(null);
+
+    try {
+      const result = await api.connectListenBrainz(listenBrainzToken.trim());
+      setAuthStatus(await api.getAuthStatus());
+
+      setMessage({
+        type: 'success',
+        text: `Successfully connected to ListenBrainz as ${result.username || 'user'}`,
+      });
+      setListenBrainzToken('');
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: getErrorMessage(error, 'Failed to connect to ListenBrainz'),
+      });
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleListenBrainzToggle = async (enabled: boolean) => {
+    setLoading('listenbrainz-toggle');
+    setMessage(null);
+
+    try {
+      await api.setListenBrainzEnabled(enabled);
+      setAuthStatus(await api.getAuthStatus());
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: getErrorMessage(error, 'Failed to update ListenBrainz'),
+      });
+    } finally {
+      setLoading('');
+    }
+  };
+
+  const handleListenBrainzDisconnect = async () => {
+    setLoading('listenbrainz-disconnect');
+    setMessage(null);
+
+    try {
+      await api.disconnectListenBrainz();
+      setAuthStatus(await api.getAuthStatus());
+      setMessage({ type: 'success', text: 'ListenBrainz disconnected' });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: getErrorMessage(error, 'Failed to disconnect ListenBrainz'),
+      });
+    } finally {
+      setLoading('');
+    }
+  };
+
   const handleClearAuth = async () => {
     setLoading('clear');
     setMessage(null);
@@ -535,6 +605,84 @@ const SettingsConnectionsSection: React.FC<SettingsConnectionsSectionProps> = ({
         </div>
       </div>
 
+      {/* ListenBrainz Setup */}
+      <div className='card'>
+        <h3>ListenBrainz</h3>
+        <div className='status-margin-bottom'>
+          <div
+            className={`status ${authStatus.listenbrainz?.authenticated ? 'connected' : 'disconnected'}`}
+          >
+            <span className='status-dot'></span>
+            {authStatus.listenbrainz?.authenticated
+              ? `Connected as ${authStatus.listenbrainz.username || 'user'}`
+              : 'Not connected'}
+          </div>
+        </div>
+
+        <p>
+          Optionally send every scrobble to ListenBrainz as well as Last.fm. A
+          failed submission to either is recorded on the session and can be
+          retried from History.
+        </p>
+
+        {authStatus.listenbrainz?.authenticated ? (
+          <>
+            <div className='form-group'>
+              <label className='form-label'>
+                <input
+                  type='checkbox'
+                  checked={authStatus.listenbrainz.enabled}
+                  onChange={e => handleListenBrainzToggle(e.target.checked)}
+                  disabled={loading === 'listenbrainz-toggle'}
+                />{' '}
+                Submit scrobbles to ListenBrainz
+              </label>
+            </div>
+            <Button
+              variant='secondary'
+              onClick={handleListenBrainzDisconnect}
+              disabled={loading === 'listenbrainz-disconnect'}
+            >
+              {loading === 'listenbrainz-disconnect'
+                ? 'Disconnecting...'
+                : 'Disconnect ListenBrainz'}
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className='form-group'>
+              <label className='form-label'>User Token:</label>
+              <input
+                type='password'
+                className='form-input'
+                value={listenBrainzToken}
+                onChange={e => setListenBrainzToken(e.target.value)}
+                placeholder='your_listenbrainz_token'
+              />
+              <small className='form-helper-text'>
+                Find your token on your{' '}
+                <a
+                  href='https://listenbrainz.org/settings/'
+                  target='_blank'
+                  rel='noopener noreferrer'
+                >
+                  ListenBrainz settings page
+                </a>
+              </small>
+            </div>
+
+            <Button
+              onClick={handleListenBrainzConnect}
+              disabled={loading === 'listenbrainz' || !listenBrainzToken.trim()}
+            >
+              {loading === 'listenbrainz'
+                ? 'Connecting...'
+                : 'Connect to ListenBrainz'}
+            </Button>
+          </>
+        )}
+      </div>
+
       {/* Clear Authentication */}
       <div className='card'>
         <h3>Clear Authentication</h3>
@@ -10,6 +10,10 @@ import { createLogger } from '../../utils/logger';
 import SyncStatusBar from '../SyncStatusBar';
 import { Button } from '../ui/Button';
 
+import HistoryImportCard from './HistoryImportCard';
+import RecognizerDevicesCard from './RecognizerDevicesCard';
+import ShelfLocationsCard from './ShelfLocationsCard';
+
 const logger = createLogger('SettingsIntegrationsSection');
 
 interface SettingsIntegrationsSectionProps {
@@ -440,6 +444,11 @@ const SettingsIntegrationsSection: React.FC<
         )}
       </div>
 
+      {/* History Import Section - works without a Last.fm connection */}
+      <HistoryImportCard api={api} onImported={loadSyncStatus} />
+
+      <RecognizerDevicesCard api={api} />
+
       {/* Discogs Collection Cache Section */}
       <div className='settings-section-card'>
         <div className='settings-section-header'>
@@ -473,6 +482,8 @@ const SettingsIntegrationsSection: React.FC<
         </div>
       </div>
 
+      <ShelfLocationsCard api={api} username={authStatus.discogs.username} />
+
       {/* AI Recommendations Section */}
       <div className='settings-section-card'>
         <div className='settings-section-header'>
@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useCallback } from 'react';
+
+import {
+  NotificationRuleId,
+  NotificationRuleSettings,
+} from '../../../shared/types';
+import ApiService from '../../services/api';
+import { createLogger } from '../../utils/logger';
+
+import NotificationChannelsCard from './NotificationChannelsCard';
+
+const logger = createLogger('SettingsNotificationsSection');
+
+interface SettingsNotificationsSectionProps {
+  api: ApiService;
+}
+
+const RULES: Array<{ id: NotificationRuleId; label: string }> = [
+  { id: 'seller-match', label: 'Wishlist items found at local sellers' },
+  { id: 'label-release', label: 'New releases on followed labels' },
+  { id: 'website-item', label: 'New items on watched websites' },
+  { id: 'wishlist-release', label: 'New vinyl pressings for wishlist items' },
+  { id: 'streak-milestone', label: 'Listening streak milestones' },
+  { id: 'backup-failure', label: 'Automatic backup failures' },
+];
+
+const SettingsNotificationsSection: React.FC<
+  SettingsNotificationsSectionProps
+> = ({ api }) => {
+  const [rules, setRules] = useState<Record<
+    NotificationRuleId,
+    NotificationRuleSettings
+  > | null>(null);
+  const [saving, setSaving] = useState<NotificationRuleId | null>(null);
+  const [error, setError] = useState('');
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await api.getNotificationRules());
+    } catch (err) {
+      logger.warn('Failed to load notification rules', err);
+      setError('Failed to load notification settings');
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleToggle = async (id: NotificationRuleId, enabled: boolean) => {
+    try {
+      setSaving(id);
+      setError('');
+      setRules(await api.updateNotificationRules({ [id]: { enabled } }));
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to save notification settings'
+      );
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className='settings-section'>
+      <div className='settings-card'>
+        <h3>Notifications</h3>
+        <p className='settings-description'>
+          Choose what the server notifies you about. These are checked in the
+          background, even when the app isn&apos;t open.
+        </p>
+
+        {rules &&
+          RULES.map(rule => (
+            <label key={rule.id} className='checkbox-label'>
+              <input
+                type='checkbox'
+                checked={rules[rule.id]?.enabled ?? true}
+                disabled={saving === rule.id}
+                onChange={e => handleToggle(rule.id, e.target.checked)}
+              />
+              <span>{rule.label}</span>
+            </label>
+          ))}
+
+        {error && <div className='error-message'>{error}</div>}
+      </div>
+
+      <NotificationChannelsCard api={api} />
+    </div>
+  );
+};
+
+export default SettingsNotificationsSection;
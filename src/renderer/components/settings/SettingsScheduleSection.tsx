@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useCallback } from 'react';
+
+import { ScheduledTask, SchedulerSettings } from '../../../shared/types';
+import { useServerEvent } from '../../hooks/useServerEvents';
+import ApiService from '../../services/api';
+import { formatLocalTimeClean } from '../../utils/dateUtils';
+import { createLogger } from '../../utils/logger';
+import { Button } from '../ui/Button';
+
+const logger = createLogger('SettingsScheduleSection');
+
+// Without the event stream, refresh this often while a task is running
+const RUNNING_POLL_INTERVAL_MS = 5000;
+
+interface SettingsScheduleSectionProps {
+  api: ApiService;
+}
+
+interface TaskForm {
+  schedule: string;
+  jitterMinutes: string;
+  catchUp: boolean;
+}
+
+const formatDuration = (ms: number): string => {
+  if (ms < 1000) return 'under a second';
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const describeLastRun = (task: ScheduledTask): string => {
+  if (!task.lastRunAt) return 'Never run';
+  const outcome = task.lastStatus === 'failed' ? 'failed' : 'completed';
+  const detail = task.lastMessage ? `: ${task.lastMessage}` : '';
+  const duration =
+    task.lastDurationMs !== undefined
+      ? ` (${formatDuration(task.lastDurationMs)})`
+      : '';
+  return `Last run ${formatLocalTimeClean(task.lastRunAt)}, ${outcome}${duration}${detail}`;
+};
+
+const SettingsScheduleSection: React.FC<SettingsScheduleSectionProps> = ({
+  api,
+}) => {
+  const [tasks, setTasks] = useState<ScheduledTask[]>([]);
+  const [settings, setSettings] = useState<SchedulerSettings | null>(null);
+  const [budget, setBudget] = useState('');
+  const [editingId, setEditingId] = useState<ScheduledTask['id'] | null>(null);
+  const [form, setForm] = useState<TaskForm | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadScheduler = useCallback(async () => {
+    try {
+      const data = await api.getScheduler();
+      setTasks(data.tasks);
+      setSettings(data.settings);
+      setBudget(data.settings.discogsMinRemaining.toString());
+    } catch (err) {
+      logger.warn('Failed to load scheduled tasks', err);
+      setError('Failed to load scheduled tasks');
+    }
+  }, [api]);
+
+  useEffect(() => {
+    loadScheduler();
+  }, [loadScheduler]);
+
+  const streamConnected = useServerEvent('scheduled-task', event => {
+    setTasks(prev =>
+      prev.map(task => (task.id === event.task.id ? event.task : task))
+    );
+  });
+
+  const anyRunning = tasks.some(task => task.running);
+  useEffect(() => {
+    if (streamConnected || !anyRunning) return;
+    const id = setInterval(loadScheduler, RUNNING_POLL_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [streamConnected, anyRunning, loadScheduler]);
+
+  const replaceTask = (updated: ScheduledTask) =>
+    setTasks(prev =>
+      prev.map(task => (task.id === updated.id ? updated : task))
+    );
+
+  const handleToggle = async (task: ScheduledTask) => {
+    try {
+      setError('');
+      replaceTask(
+        await api.updateScheduledTask(task.id, { enabled: !task.enabled })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update task');
+    }
+  };
+
+  const handleRun = async (task: ScheduledTask) => {
+    try {
+      setError('');
+      setSuccess('');
+      await api.runScheduledTask(task.id);
+      setSuccess(`Started: ${task.name}`);
+      await loadScheduler();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start task');
+    }
+  };
+
+  const startEditing = (task: ScheduledTask) => {
+    setError('');
+    setSuccess('');
+    setEditingId(task.id);
+    setForm({
+      schedule: task.schedule,
+      jitterMinutes: task.jitterMinutes.toString(),
+      catchUp: task.catchUp,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingId || !form) return;
+    const jitterMinutes = parseInt(form.jitterMinutes, 10);
+    if (isNaN(jitterMinutes) || jitterMinutes < 0) {
+      setError('Jitter must be a whole number of minutes');
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError('');
+      replaceTask(
+        await api.updateScheduledTask(editingId, {
+          schedule: form.schedule.trim(),
+          jitterMinutes,
+          catchUp: form.catchUp,
+        })
+      );
+      setEditingId(null);
+      setForm(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveBudget = async () => {
+    const discogsMinRemaining = parseInt(budget, 10);
+    if (isNaN(discogsMinRemaining)) {
+      setError('Discogs headroom must be a number');
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError('');
+      setSuccess('');
+      setSettings(await api.updateSchedulerSettings({ discogsMinRemaining }));
+      setSuccess('Discogs budget saved');
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to save scheduler settings'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className='settings-section'>
+      <div className='settings-card'>
+        <h3>Scheduled Tasks</h3>
+        <p className='settings-description'>
+          Syncs, scans and backups run on the server on these schedules, even
+          when the app isn&apos;t open. A run missed while the computer was
+          asleep or the server was stopped is made up once when catch-up is on.
+        </p>
+
+        {tasks.length > 0 && (
+          <ul className='auto-backup-list'>
+            {tasks.map(task => (
+              <li key={task.id} className='auto-backup-item'>
+                <label className='checkbox-label'>
+                  <input
+                    type='checkbox'
+                    checked={task.enabled}
+                    onChange={() => handleToggle(task)}
+                    aria-label={`Enable ${task.name}`}
+                  />
+                  <span>{task.name}</span>
+                </label>
+                <span className='backup-meta'>
+                  {task.description}
+                  <br />
+                  <code>{task.schedule}</code>
+                  {task.usesDiscogs && ' · uses Discogs'}
+                  <br />
+                  {task.running ? 'Running now' : describeLastRun(task)}
+                  {task.enabled && task.nextRunAt && !task.running && (
+                    <>
+                      <br />
+                      Next run {formatLocalTimeClean(task.nextRunAt)}
+                    </>
+                  )}
+                </span>
+                <Button
+                  variant='secondary'
+                  size='small'
+                  onClick={() => handleRun(task)}
+                  disabled={task.running}
+                >
+                  Run Now
+                </Button>
+                <Button
+                  variant='secondary'
+                  size='small'
+                  onClick={() => startEditing(task)}
+                >
+                  Edit
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {form && editingId && (
+          <div className='settings-form-grid'>
+            <div className='form-group'>
+              <label htmlFor='task-schedule'>
+                Schedule for {tasks.find(t => t.id === editingId)?.name}:
+              </label>
+              <input
+                id='task-schedule'
+                className='form-input'
+                value={form.schedule}
+                onChange={e => setForm({ ...form, schedule: e.target.value })}
+              />
+              <p className='form-hint'>
+                Cron format: minute hour day-of-month month day-of-week, in the
+                server&apos;s time zone. For example <code>0 */6 * * *</code>{' '}
+                runs every six hours and <code>30 3 * * 1</code> runs Mondays at
+                03:30.
+              </p>
+            </div>
+            <div className='form-group'>
+              <label htmlFor='task-jitter'>Random delay (minutes):</label>
+              <input
+                id='task-jitter'
+                type='number'
+                min='0'
+                className='form-input'
+                value={form.jitterMinutes}
+                onChange={e =>
+                  setForm({ ...form, jitterMinutes: e.target.value })
+                }
+              />
+              <p className='form-hint'>
+                Spreads runs out so tasks don&apos;t all start at once.
+              </p>
+            </div>
+            <label className='checkbox-label'>
+              <input
+                type='checkbox'
+                checked={form.catchUp}
+                onChange={e => setForm({ ...form, catchUp: e.target.checked })}
+              />
+              <span>Catch up on missed runs</span>
+            </label>
+            <div className='button-group'>
+              <Button onClick={handleSave} disabled={busy}>
+                Save
+              </Button>
+              <Button
+                variant='secondary'
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(null);
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <div className='error-message'>{error}</div>}
+        {success && <div className='success-message'>{success}</div>}
+      </div>
+
+      {settings && (
+        <div className='settings-card'>
+          <h3>Discogs Budget</h3>
+          <p className='settings-description'>
+            Scheduled Discogs tasks run one at a time and wait while the Discogs
+            rate limit is nearly used up, leaving room for what you do in the
+            app.
+          </p>
+          <div className='form-group'>
+            <label htmlFor='discogs-min-remaining'>
+              Keep this many requests per minute free:
+            </label>
+            <input
+              id='discogs-min-remaining'
+              type='number'
+              min='0'
+              max='60'
+              className='form-input'
+              value={budget}
+              onChange={e => setBudget(e.target.value)}
+            />
+          </div>
+          <div className='button-group'>
+            <Button onClick={handleSaveBudget} disabled={busy}>
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsScheduleSection;
@@ -0,0 +1,149 @@
+import { MapPin } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+
+import { CollectionCustomField } from '../../../shared/types';
+import ApiService from '../../services/api';
+import { createLogger } from '../../utils/logger';
+import { Button } from '../ui/Button';
+
+const logger = createLogger('ShelfLocationsCard');
+
+interface ShelfLocationsCardProps {
+  api: ApiService;
+  username?: string;
+}
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  const response = (error as { response?: { data?: { error?: string } } })
+    ?.response;
+  return (
+    response?.data?.error ||
+    (error instanceof Error ? error.message : fallback) ||
+    fallback
+  );
+};
+
+/**
+ * Choose the Discogs note field that shelf locations are mirrored to, and
+ * import locations already written there.
+ */
+const ShelfLocationsCard: React.FC<ShelfLocationsCardProps> = ({
+  api,
+  username,
+}) => {
+  const [fields, setFields] = useState<CollectionCustomField[]>([]);
+  const [syncFieldId, setSyncFieldId] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    api
+      .getShelfSettings()
+      .then(settings => setSyncFieldId(settings.syncFieldId))
+      .catch(err => logger.warn('Failed to load shelf settings', err));
+  }, [api]);
+
+  useEffect(() => {
+    if (!username) return;
+    api
+      .getCollectionFields(username)
+      .then(setFields)
+      .catch(err => logger.warn('Failed to load collection fields', err));
+  }, [api, username]);
+
+  // Locations are free text, so only text fields can hold them
+  const textFields = fields.filter(field => field.type === 'textarea');
+
+  const handleFieldChange = async (value: string) => {
+    const fieldId = value ? Number(value) : null;
+    setError('');
+    setSuccess('');
+    try {
+      setBusy(true);
+      await api.setShelfSyncField(fieldId);
+      setSyncFieldId(fieldId);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save shelf settings'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!username) return;
+    setError('');
+    setSuccess('');
+    try {
+      setBusy(true);
+      const result = await api.importShelfLocations(username);
+      const skipped = result.skipped > 0 ? ` (${result.skipped} skipped)` : '';
+      setSuccess(`Imported ${result.imported} shelf locations${skipped}`);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to import shelf locations'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className='settings-section-card'>
+      <div className='settings-section-header'>
+        <span className='settings-section-icon'>
+          <MapPin size={18} aria-hidden='true' />
+        </span>
+        <div>
+          <h3>Shelf Locations</h3>
+          <p className='settings-section-description'>
+            Keep shelf locations in a Discogs note field as well
+          </p>
+        </div>
+      </div>
+
+      <div className='settings-section-content'>
+        {error && <div className='error-message'>{error}</div>}
+        {success && <div className='message success'>{success}</div>}
+
+        <div className='form-group'>
+          <label htmlFor='shelf-sync-field' className='form-label'>
+            Discogs Note Field
+          </label>
+          <select
+            id='shelf-sync-field'
+            className='form-select'
+            value={syncFieldId ? String(syncFieldId) : ''}
+            onChange={e => handleFieldChange(e.target.value)}
+            disabled={busy}
+          >
+            <option value=''>Don&apos;t write to Discogs</option>
+            {textFields.map(field => (
+              <option key={field.id} value={field.id}>
+                {field.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className='settings-sync-actions'>
+          <Button
+            variant='secondary'
+            onClick={handleImport}
+            disabled={busy || !syncFieldId || !username}
+          >
+            {busy ? 'Working...' : 'Import from Discogs'}
+          </Button>
+        </div>
+
+        <div className='settings-sync-info'>
+          <p>
+            Saved locations are written to this field as text like &quot;Shelf
+            B, Row 2, #14&quot;. Importing reads that text back for records that
+            don&apos;t have a location here yet.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShelfLocationsCard;
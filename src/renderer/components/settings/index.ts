@@ -3,5 +3,7 @@ export { default as SettingsIntegrationsSection } from './SettingsIntegrationsSe
 export { default as SettingsMappingsSection } from './SettingsMappingsSection';
 export { default as SettingsFiltersSection } from './SettingsFiltersSection';
 export { default as SettingsWishlistSection } from './SettingsWishlistSection';
+export { default as SettingsNotificationsSection } from './SettingsNotificationsSection';
+export { default as SettingsScheduleSection } from './SettingsScheduleSection';
 export { default as SettingsBackupSection } from './SettingsBackupSection';
 export { default as BackupImportDialog } from './BackupImportDialog';
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+
+import {
+  ListeningSession,
+  ListeningSessionKind,
+  ListeningSessionsResult,
+} from '../../../shared/types';
+import { statsApi } from '../../services/statsApi';
+import { createLogger } from '../../utils/logger';
+import { EmptyState } from '../ui/EmptyState';
+import { Skeleton } from '../ui/Skeleton';
+import './AlbumListeningSessions.css';
+
+const logger = createLogger('AlbumListeningSessions');
+
+// Most recent sessions listed under the counts
+const RECENT_SESSION_LIMIT = 5;
+
+const KIND_LABELS: Record<ListeningSessionKind, string> = {
+  'full-album': 'Full album',
+  partial: 'Partial',
+  shuffle: 'Shuffle',
+};
+
+interface AlbumListeningSessionsProps {
+  artist: string;
+  album: string;
+}
+
+function formatSessionDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function describeSession(session: ListeningSession): string {
+  const [main] = session.albums;
+  if (session.kind === 'shuffle') {
+    return `${session.playCount} plays across ${session.albums.length} albums`;
+  }
+  return main.knownTracks > 0
+    ? `${main.tracksPlayed} of ${main.knownTracks} tracks`
+    : `${session.playCount} plays`;
+}
+
+/**
+ * How an album gets played: full sittings vs a side or a few tracks,
+ * from sessions rebuilt out of its whole scrobble history.
+ * Fetches its own data from the stats API.
+ */
+export const AlbumListeningSessions: React.FC<AlbumListeningSessionsProps> = ({
+  artist,
+  album,
+}) => {
+  const [data, setData] = useState<ListeningSessionsResult | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!artist || !album) return;
+
+    setLoading(true);
+    setData(null);
+
+    statsApi
+      .getListeningSessions(
+        { startDate: 0, endDate: Math.floor(Date.now() / 1000) },
+        { artist, album }
+      )
+      .then(res => {
+        if (res.success && res.data) {
+          setData(res.data);
+        }
+      })
+      .catch(err => {
+        logger.error('Failed to load album listening sessions', {
+          artist,
+          album,
+          err,
+        });
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [artist, album]);
+
+  if (loading) {
+    return (
+      <div className='album-sessions-container'>
+        <p className='album-sessions-label'>Listening Sessions</p>
+        <Skeleton variant='rectangular' width='100%' height={96} />
+      </div>
+    );
+  }
+
+  if (!data || data.totalSessions === 0) {
+    return (
+      <div className='album-sessions-container'>
+        <p className='album-sessions-label'>Listening Sessions</p>
+        <EmptyState
+          title='No listening sessions found'
+          description='Sessions appear once this album has been scrobbled.'
+          size='small'
+        />
+      </div>
+    );
+  }
+
+  const recent = data.days
+    .flatMap(day => day.sessions)
+    .slice(0, RECENT_SESSION_LIMIT);
+
+  return (
+    <div className='album-sessions-container' aria-label='Listening sessions'>
+      <p className='album-sessions-label'>Listening Sessions</p>
+      <div className='album-sessions-counts'>
+        <div className='album-sessions-count'>
+          <span className='album-sessions-count-value'>
+            {data.fullAlbumPlays.toLocaleString()}
+          </span>
+          <span className='album-sessions-count-label'>Full album plays</span>
+        </div>
+        <div className='album-sessions-count'>
+          <span className='album-sessions-count-value'>
+            {data.partialPlays.toLocaleString()}
+          </span>
+          <span className='album-sessions-count-label'>Partial plays</span>
+        </div>
+        <div className='album-sessions-count'>
+          <span className='album-sessions-count-value'>
+            {data.shuffles.toLocaleString()}
+          </span>
+          <span className='album-sessions-count-label'>In a shuffle</span>
+        </div>
+      </div>
+      <ul className='album-sessions-list'>
+        {recent.map(session => (
+          <li key={session.start} className='album-sessions-item'>
+            <span className={`album-sessions-kind ${session.kind}`}>
+              {KIND_LABELS[session.kind]}
+            </span>
+            <span className='album-sessions-date'>
+              {formatSessionDate(session.start)}
+            </span>
+            <span className='album-sessions-detail'>
+              {describeSession(session)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AlbumListeningSessions;
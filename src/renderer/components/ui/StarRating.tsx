@@ -0,0 +1,105 @@
+import { Star } from 'lucide-react';
+import React from 'react';
+
+import './StarRating.css';
+
+export interface StarRatingProps {
+  /**
+   * Current rating, 0 (unrated) to `max`.
+   */
+  value: number;
+  /**
+   * Called with the chosen rating. Choosing the current rating again clears
+   * it to 0. Omit for a read-only display.
+   */
+  onChange?: (rating: number) => void;
+  /**
+   * Number of stars.
+   */
+  max?: number;
+  /**
+   * Whether the stars are temporarily not clickable (e.g. while saving).
+   */
+  disabled?: boolean;
+  /**
+   * Star size in pixels.
+   */
+  size?: number;
+  /**
+   * Additional class names.
+   */
+  className?: string;
+}
+
+/**
+ * A row of stars showing a rating, clickable when `onChange` is given.
+ */
+export const StarRating: React.FC<StarRatingProps> = ({
+  value,
+  onChange,
+  max = 5,
+  disabled = false,
+  size = 16,
+  className = '',
+}) => {
+  const classNames = [
+    'star-rating',
+    onChange && !disabled && 'star-rating--editable',
+    className,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  if (!onChange) {
+    return (
+      <span
+        className={classNames}
+        role='img'
+        aria-label={value > 0 ? `Rated ${value} of ${max}` : 'Not rated'}
+      >
+        {Array.from({ length: max }, (_, i) => (
+          <Star
+            key={i}
+            size={size}
+            className={`star-rating-star${i < value ? ' star-rating-star--filled' : ''}`}
+            aria-hidden='true'
+          />
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <span className={classNames} role='group' aria-label='Rating'>
+      {Array.from({ length: max }, (_, i) => {
+        const rating = i + 1;
+        return (
+          <button
+            key={rating}
+            type='button'
+            className='star-rating-button'
+            disabled={disabled}
+            aria-pressed={rating <= value}
+            aria-label={
+              rating === value
+                ? 'Clear rating'
+                : `Rate ${rating} ${rating === 1 ? 'star' : 'stars'}`
+            }
+            onClick={e => {
+              e.stopPropagation();
+              onChange(rating === value ? 0 : rating);
+            }}
+          >
+            <Star
+              size={size}
+              className={`star-rating-star${rating <= value ? ' star-rating-star--filled' : ''}`}
+              aria-hidden='true'
+            />
+          </button>
+        );
+      })}
+    </span>
+  );
+};
+
+export default StarRating;
@@ -20,6 +20,10 @@ export type {
   StatusBadgeProps,
 } from './Badge';
 
+// StarRating
+export { StarRating } from './StarRating';
+export type { StarRatingProps } from './StarRating';
+
 // ProgressBar
 export { ProgressBar, CircularProgress, MultiProgressBar } from './ProgressBar';
 export type {
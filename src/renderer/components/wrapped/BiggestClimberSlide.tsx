@@ -0,0 +1,50 @@
+import React from 'react';
+
+import { WrappedRankMovement } from '../../../shared/types';
+
+import WrappedSlide from './WrappedSlide';
+
+interface BiggestClimberSlideProps {
+  climber: WrappedRankMovement;
+  kind: 'artist' | 'album';
+}
+
+const BiggestClimberSlide: React.FC<BiggestClimberSlideProps> = ({
+  climber,
+  kind,
+}) => {
+  const places = climber.movement ?? 0;
+
+  return (
+    <WrappedSlide>
+      <p className='wrapped-slide-label'>Your biggest climber</p>
+      <div className='wrapped-featured-section'>
+        {climber.imageUrl ? (
+          <img
+            className={`wrapped-featured-cover${kind === 'artist' ? ' wrapped-rank-image-circle' : ''}`}
+            src={climber.imageUrl}
+            alt={climber.name}
+          />
+        ) : (
+          <div className='wrapped-featured-cover wrapped-cover-placeholder'>
+            ♪
+          </div>
+        )}
+        <h2 className='wrapped-featured-title'>{climber.name}</h2>
+        {kind === 'album' && (
+          <p className='wrapped-featured-album'>{climber.artist}</p>
+        )}
+      </div>
+      <div className='wrapped-big-number'>
+        #{climber.previousRank} → #{climber.currentRank}
+      </div>
+      <p className='wrapped-subtitle'>
+        Up {places} place{places !== 1 ? 's' : ''}, from{' '}
+        {climber.previousPlayCount.toLocaleString()} to{' '}
+        {climber.currentPlayCount.toLocaleString()} plays
+      </p>
+    </WrappedSlide>
+  );
+};
+
+export default BiggestClimberSlide;
@@ -0,0 +1,86 @@
+import React from 'react';
+
+import { WrappedComparison, WrappedStatDelta } from '../../../shared/types';
+
+import WrappedSlide from './WrappedSlide';
+
+interface ComparisonSummarySlideProps {
+  comparison: WrappedComparison;
+}
+
+const formatDate = (ms: number): string =>
+  new Date(ms).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+const formatChange = (delta: WrappedStatDelta, unit: string): string => {
+  const sign = delta.change > 0 ? '+' : delta.change < 0 ? '−' : '±';
+  const amount = `${sign}${Math.abs(delta.change).toLocaleString()}${unit}`;
+  if (unit || delta.percentChange === null) return amount;
+  return `${amount} (${sign}${Math.abs(delta.percentChange)}%)`;
+};
+
+const DeltaRow: React.FC<{
+  label: string;
+  delta: WrappedStatDelta;
+  unit?: string;
+}> = ({ label, delta, unit = '' }) => {
+  const direction =
+    delta.change > 0 ? 'up' : delta.change < 0 ? 'down' : 'same';
+
+  return (
+    <div className='wrapped-delta-item'>
+      <span className='wrapped-delta-label'>{label}</span>
+      <span className='wrapped-delta-value'>
+        {delta.current.toLocaleString()}
+        {unit}
+      </span>
+      <span className={`wrapped-delta-change wrapped-delta-${direction}`}>
+        {formatChange(delta, unit)}
+      </span>
+    </div>
+  );
+};
+
+const ComparisonSummarySlide: React.FC<ComparisonSummarySlideProps> = ({
+  comparison,
+}) => {
+  const { listening, collection, crossSource, previous } = comparison;
+  const hasSourceData =
+    crossSource.vinylScrobbles.current + crossSource.otherScrobbles.current >
+      0 &&
+    crossSource.vinylScrobbles.previous + crossSource.otherScrobbles.previous >
+      0;
+
+  return (
+    <WrappedSlide>
+      <h2 className='wrapped-slide-heading'>Then vs Now</h2>
+      <p className='wrapped-subtitle'>
+        Compared with {formatDate(previous.startDate)} –{' '}
+        {formatDate(previous.endDate)}
+      </p>
+      <div className='wrapped-delta-list'>
+        <DeltaRow label='Scrobbles' delta={listening.totalScrobbles} />
+        <DeltaRow
+          label='Hours listened'
+          delta={listening.estimatedListeningHours}
+        />
+        <DeltaRow label='Artists' delta={listening.uniqueArtists} />
+        <DeltaRow label='Albums' delta={listening.uniqueAlbums} />
+        <DeltaRow label='New artists' delta={listening.newArtistsDiscovered} />
+        <DeltaRow label='Records added' delta={collection.recordsAdded} />
+        {hasSourceData && (
+          <DeltaRow
+            label='Vinyl share'
+            delta={crossSource.vinylPercentage}
+            unit='%'
+          />
+        )}
+      </div>
+    </WrappedSlide>
+  );
+};
+
+export default ComparisonSummarySlide;
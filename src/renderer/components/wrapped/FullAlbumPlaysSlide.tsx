@@ -0,0 +1,49 @@
+import React from 'react';
+
+import { WrappedSessionStats } from '../../../shared/types';
+
+import WrappedSlide from './WrappedSlide';
+
+interface FullAlbumPlaysSlideProps {
+  sessions: WrappedSessionStats;
+}
+
+const FullAlbumPlaysSlide: React.FC<FullAlbumPlaysSlideProps> = ({
+  sessions,
+}) => {
+  if (sessions.fullAlbumPlays === 0) {
+    return (
+      <WrappedSlide>
+        <h2 className='wrapped-slide-heading'>Full Album Plays</h2>
+        <p className='wrapped-subtitle'>
+          No albums played start to finish in this period.
+        </p>
+      </WrappedSlide>
+    );
+  }
+
+  return (
+    <WrappedSlide>
+      <p className='wrapped-slide-label'>You played</p>
+      <div className='wrapped-big-number'>
+        {sessions.fullAlbumPlays.toLocaleString()}
+      </div>
+      <p className='wrapped-slide-label'>
+        full album{sessions.fullAlbumPlays !== 1 ? 's' : ''} start to finish
+      </p>
+      <p className='wrapped-subtitle'>
+        {sessions.partialPlays.toLocaleString()} partial plays and{' '}
+        {sessions.shuffles.toLocaleString()} shuffles out of{' '}
+        {sessions.totalSessions.toLocaleString()} sessions
+      </p>
+      {sessions.topFullAlbum && (
+        <p className='wrapped-subtitle'>
+          Most played in full: {sessions.topFullAlbum.album} by{' '}
+          {sessions.topFullAlbum.artist} ({sessions.topFullAlbum.count}×)
+        </p>
+      )}
+    </WrappedSlide>
+  );
+};
+
+export default FullAlbumPlaysSlide;
@@ -0,0 +1,51 @@
+import React from 'react';
+
+import { WrappedRankMovement } from '../../../shared/types';
+
+import WrappedSlide from './WrappedSlide';
+
+interface StoppedPlayingSlideProps {
+  artists: WrappedRankMovement[];
+}
+
+const StoppedPlayingSlide: React.FC<StoppedPlayingSlideProps> = ({
+  artists,
+}) => {
+  if (artists.length === 0) return null;
+
+  return (
+    <WrappedSlide>
+      <h2 className='wrapped-slide-heading'>Who You Stopped Playing</h2>
+      <p className='wrapped-subtitle'>
+        Top artists last time with no plays at all this time
+      </p>
+      <div className='wrapped-ranked-list'>
+        {artists.map(artist => (
+          <div key={artist.name} className='wrapped-rank-item'>
+            <span className='wrapped-rank-number'>{artist.previousRank}</span>
+            {artist.imageUrl ? (
+              <img
+                className='wrapped-rank-image wrapped-rank-image-circle'
+                src={artist.imageUrl}
+                alt={artist.name}
+                loading='lazy'
+              />
+            ) : (
+              <div className='wrapped-rank-image wrapped-rank-image-circle wrapped-rank-placeholder'>
+                ♪
+              </div>
+            )}
+            <div className='wrapped-rank-info'>
+              <span className='wrapped-rank-name'>{artist.name}</span>
+            </div>
+            <span className='wrapped-rank-count'>
+              {artist.previousPlayCount} plays before
+            </span>
+          </div>
+        ))}
+      </div>
+    </WrappedSlide>
+  );
+};
+
+export default StoppedPlayingSlide;
@@ -0,0 +1,132 @@
+import React, { useCallback, useState } from 'react';
+
+import { getApiService } from '../../services/api';
+import { createLogger } from '../../utils/logger';
+import { Button } from '../ui/Button';
+
+const log = createLogger('WrappedExportPanel');
+
+interface WrappedExportPanelProps {
+  startDate: number;
+  endDate: number;
+}
+
+const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Download Wrapped for sharing: a standalone HTML page or PNG story cards,
+ * optionally with hidden artists and albums redacted.
+ */
+const WrappedExportPanel: React.FC<WrappedExportPanelProps> = ({
+  startDate,
+  endDate,
+}) => {
+  const [redactHidden, setRedactHidden] = useState(true);
+  const [exporting, setExporting] = useState<'html' | 'cards' | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fileDate = new Date(startDate).toISOString().split('T')[0];
+
+  const handleExportHtml = useCallback(async () => {
+    setExporting('html');
+    setStatus(null);
+    setError(null);
+    try {
+      const blob = await getApiService().exportWrappedHtml(
+        startDate,
+        endDate,
+        redactHidden
+      );
+      downloadBlob(blob, `wrapped-${fileDate}.html`);
+      setStatus('Downloaded your Wrapped as a web page.');
+    } catch (err) {
+      log.error('Failed to export wrapped HTML', err);
+      setError('Failed to export your Wrapped. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  }, [startDate, endDate, redactHidden, fileDate]);
+
+  const handleExportCards = useCallback(async () => {
+    setExporting('cards');
+    setStatus(null);
+    setError(null);
+    try {
+      const api = getApiService();
+      const cards = await api.getWrappedCards(startDate, endDate, redactHidden);
+      for (const [index, card] of cards.entries()) {
+        setStatus(`Rendering card ${index + 1} of ${cards.length}...`);
+        const blob = await api.getWrappedCardImage(
+          startDate,
+          endDate,
+          card.id,
+          redactHidden
+        );
+        downloadBlob(
+          blob,
+          `wrapped-${fileDate}-${String(index + 1).padStart(2, '0')}-${card.id}.png`
+        );
+      }
+      setStatus(
+        `Downloaded ${cards.length} story card${cards.length !== 1 ? 's' : ''}.`
+      );
+    } catch (err) {
+      log.error('Failed to export wrapped cards', err);
+      setStatus(null);
+      setError('Failed to export story cards. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  }, [startDate, endDate, redactHidden, fileDate]);
+
+  return (
+    <div className='wrapped-export-section'>
+      <h3 className='wrapped-section-label'>Share your Wrapped</h3>
+      <p className='wrapped-export-description'>
+        Save it as a web page that opens offline, or as 1080×1920 story cards
+        ready to post.
+      </p>
+      <label className='checkbox-label'>
+        <input
+          type='checkbox'
+          checked={redactHidden}
+          onChange={e => setRedactHidden(e.target.checked)}
+          disabled={exporting !== null}
+        />
+        <span>Hide names of artists and albums I&apos;ve hidden</span>
+      </label>
+      <div className='wrapped-export-buttons'>
+        <Button
+          variant='outline'
+          onClick={handleExportHtml}
+          disabled={exporting !== null}
+          loading={exporting === 'html'}
+        >
+          Download Web Page
+        </Button>
+        <Button
+          variant='outline'
+          onClick={handleExportCards}
+          disabled={exporting !== null}
+          loading={exporting === 'cards'}
+        >
+          Download Story Cards
+        </Button>
+      </div>
+      {status && <p className='wrapped-export-status'>{status}</p>}
+      {error && <div className='error-message'>{error}</div>}
+    </div>
+  );
+};
+
+export default WrappedExportPanel;
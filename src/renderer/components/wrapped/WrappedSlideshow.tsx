@@ -1,14 +1,18 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
 
-import { WrappedData } from '../../../shared/types';
+import { WrappedComparison, WrappedData } from '../../../shared/types';
 
+import BiggestClimberSlide from './BiggestClimberSlide';
 import CollectionCoverageSlide from './CollectionCoverageSlide';
+import ComparisonSummarySlide from './ComparisonSummarySlide';
+import FullAlbumPlaysSlide from './FullAlbumPlaysSlide';
 import HeatmapSlide from './HeatmapSlide';
 import MostPlayedAdditionSlide from './MostPlayedAdditionSlide';
 import NewArtistsSlide from './NewArtistsSlide';
 import PeakDaySlide from './PeakDaySlide';
 import PeakHourSlide from './PeakHourSlide';
 import RecordsAddedSlide from './RecordsAddedSlide';
+import StoppedPlayingSlide from './StoppedPlayingSlide';
 import StreakSlide from './StreakSlide';
 import TopAlbumsSlide from './TopAlbumsSlide';
 import TopArtistsSlide from './TopArtistsSlide';
@@ -20,11 +24,14 @@ import WrappedNav from './WrappedNav';
 
 interface WrappedSlideshowProps {
   data: WrappedData;
+  // Present when the period was generated in compare mode
+  comparison?: WrappedComparison | null;
   onExit: () => void;
 }
 
 const WrappedSlideshow: React.FC<WrappedSlideshowProps> = ({
   data,
+  comparison,
   onExit,
 }) => {
   const [currentSlide, setCurrentSlide] = useState(0);
@@ -49,6 +56,48 @@ const WrappedSlideshow: React.FC<WrappedSlideshowProps> = ({
       />,
     ];
 
+    // Period-over-period slides (compare mode only)
+    if (comparison) {
+      slideList.push(
+        <ComparisonSummarySlide key='compare-summary' comparison={comparison} />
+      );
+      if (comparison.topArtists.biggestClimber) {
+        slideList.push(
+          <BiggestClimberSlide
+            key='compare-climber'
+            climber={comparison.topArtists.biggestClimber}
+            kind='artist'
+          />
+        );
+      } else if (comparison.topAlbums.biggestClimber) {
+        slideList.push(
+          <BiggestClimberSlide
+            key='compare-climber'
+            climber={comparison.topAlbums.biggestClimber}
+            kind='album'
+          />
+        );
+      }
+      if (comparison.stoppedPlaying.length > 0) {
+        slideList.push(
+          <StoppedPlayingSlide
+            key='compare-stopped'
+            artists={comparison.stoppedPlaying.slice(0, 5)}
+          />
+        );
+      }
+    }
+
+    // Only when session reconstruction ran and found sessions
+    if (data.listening.sessions && data.listening.sessions.totalSessions > 0) {
+      slideList.push(
+        <FullAlbumPlaysSlide
+          key='full-albums'
+          sessions={data.listening.sessions}
+        />
+      );
+    }
+
     // Discogs-dependent slides (conditionally included based on data availability)
     if (
       data.collection.recordsAdded > 0 ||
@@ -77,7 +126,7 @@ const WrappedSlideshow: React.FC<WrappedSlideshowProps> = ({
     }
 
     return slideList;
-  }, [data]);
+  }, [data, comparison]);
 
   const totalSlides = slides.length;
 
@@ -0,0 +1,147 @@
+import { useCallback, useState } from 'react';
+
+import { CollectionItem } from '../../shared/types';
+import { useApp } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { getApiService } from '../services/api';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('useCollectionEdit');
+
+const CONFLICT_MESSAGE =
+  'This record was changed on Discogs; showing the current value instead.';
+
+interface UseCollectionEditOptions {
+  /** Called with the item as it should now be shown */
+  onItemChange: (item: CollectionItem) => void;
+  /** Called with a message when an edit fails */
+  onError?: (message: string) => void;
+}
+
+interface UseCollectionEditResult {
+  saving: boolean;
+  error: string | null;
+  clearError: () => void;
+  setRating: (item: CollectionItem, rating: number) => Promise<boolean>;
+  setFieldValue: (
+    item: CollectionItem,
+    fieldId: number,
+    value: string
+  ) => Promise<boolean>;
+  moveToFolder: (item: CollectionItem, folderId: number) => Promise<boolean>;
+}
+
+type EditError = {
+  response?: { status?: number; data?: { error?: string; data?: unknown } };
+};
+
+/**
+ * Edits a collection item and writes the change back to Discogs. The change
+ * is shown straight away; if Discogs refuses it the item goes back to how it
+ * was, or to the live values when it was changed on Discogs in the meantime.
+ * Each edit resolves to whether it was saved.
+ */
+export function useCollectionEdit({
+  onItemChange,
+  onError,
+}: UseCollectionEditOptions): UseCollectionEditResult {
+  const { state } = useApp();
+  const { authStatus } = useAuth();
+  const username = authStatus.discogs.username;
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = useCallback(
+    async (
+      item: CollectionItem,
+      optimistic: CollectionItem,
+      save: (username: string) => Promise<CollectionItem>
+    ): Promise<boolean> => {
+      if (!username) return false;
+
+      onItemChange(optimistic);
+      setSaving(true);
+      setError(null);
+      try {
+        onItemChange(await save(username));
+        return true;
+      } catch (err) {
+        const response = (err as EditError)?.response;
+        const live = response?.data?.data as CollectionItem | undefined;
+        let message: string;
+        if (response?.status === 409 && live) {
+          onItemChange({
+            ...item,
+            rating: live.rating,
+            folder_id: live.folder_id,
+            notes: live.notes,
+          });
+          message = CONFLICT_MESSAGE;
+        } else {
+          onItemChange(item);
+          message = response?.data?.error || 'Failed to update Discogs';
+        }
+        log.warn(`Failed to update collection item ${item.id}`, err);
+        setError(message);
+        onError?.(message);
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [username, onItemChange, onError]
+  );
+
+  const setRating = useCallback(
+    (item: CollectionItem, rating: number) =>
+      apply(item, { ...item, rating }, user =>
+        getApiService(state.serverUrl).setCollectionRating(
+          user,
+          item.id,
+          rating,
+          item.rating ?? 0
+        )
+      ),
+    [apply, state.serverUrl]
+  );
+
+  const setFieldValue = useCallback(
+    (item: CollectionItem, fieldId: number, value: string) => {
+      const notes = (item.notes ?? []).filter(
+        note => note.field_id !== fieldId
+      );
+      if (value) notes.push({ field_id: fieldId, value });
+      const expected =
+        item.notes?.find(note => note.field_id === fieldId)?.value ?? '';
+      return apply(item, { ...item, notes }, user =>
+        getApiService(state.serverUrl).setCollectionFieldValue(
+          user,
+          item.id,
+          fieldId,
+          value,
+          expected
+        )
+      );
+    },
+    [apply, state.serverUrl]
+  );
+
+  const moveToFolder = useCallback(
+    (item: CollectionItem, folderId: number) =>
+      apply(item, { ...item, folder_id: folderId }, user =>
+        getApiService(state.serverUrl).moveCollectionInstance(
+          user,
+          item.id,
+          folderId,
+          item.folder_id
+        )
+      ),
+    [apply, state.serverUrl]
+  );
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { saving, error, clearError, setRating, setFieldValue, moveToFolder };
+}
+
+export default useCollectionEdit;
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+
+import { CollectionCustomField, CollectionFolder } from '../../shared/types';
+import { useApp } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { getApiService } from '../services/api';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('useCollectionScopeOptions');
+
+interface UseCollectionScopeOptionsResult {
+  folders: CollectionFolder[];
+  fields: CollectionCustomField[];
+}
+
+/**
+ * Folder names and custom field definitions from the user's Discogs
+ * collection, for building folder and custom-field filters. Both lists stay
+ * empty if Discogs can't be reached.
+ */
+export function useCollectionScopeOptions(): UseCollectionScopeOptionsResult {
+  const { state } = useApp();
+  const { authStatus } = useAuth();
+  const username = authStatus.discogs.username;
+  const [folders, setFolders] = useState<CollectionFolder[]>([]);
+  const [fields, setFields] = useState<CollectionCustomField[]>([]);
+
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+    const api = getApiService(state.serverUrl);
+
+    api
+      .getCollectionFolders(username)
+      .then(result => {
+        if (!cancelled) setFolders(result);
+      })
+      .catch(err => log.warn('Failed to load collection folders', err));
+
+    api
+      .getCollectionFields(username)
+      .then(result => {
+        if (!cancelled) setFields(result);
+      })
+      .catch(err => log.warn('Failed to load collection fields', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.serverUrl, username]);
+
+  return { folders, fields };
+}
+
+export default useCollectionScopeOptions;
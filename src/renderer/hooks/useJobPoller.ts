@@ -1,62 +1,105 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
+import { Job } from '../../shared/types';
 import { useApp } from '../context/AppContext';
 import { useToast } from '../context/ToastContext';
 import { getApiService } from '../services/api';
 import { createLogger } from '../utils/logger';
 
+import { useServerEvent } from './useServerEvents';
+
 const logger = createLogger('useJobPoller');
 
 const POLL_INTERVAL = 3000;
 
-interface JobStatus {
-  id: string;
-  type: string;
-  status: string;
-  message: string;
-  error?: string;
-  startedAt: number;
-  completedAt?: number;
+// With the event stream connected, polling only catches anything missed
+const CONNECTED_POLL_INTERVAL = 30000;
+
+const isActive = (job: Job): boolean =>
+  job.status === 'queued' || job.status === 'running';
+
+export interface JobPollerResult {
+  /** Queued and running jobs, most recent first */
+  activeJobs: Job[];
+  cancelJob: (id: string) => Promise<void>;
 }
 
-export function useJobPoller(): void {
+export function useJobPoller(): JobPollerResult {
   const { showToast } = useToast();
   const { state } = useApp();
+  const [activeJobs, setActiveJobs] = useState<Job[]>([]);
   const seenJobIds = useRef<Set<string>>(new Set());
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  const announce = useCallback(
+    (job: Job) => {
+      if (seenJobIds.current.has(job.id)) return;
+
+      if (job.status === 'completed') {
+        seenJobIds.current.add(job.id);
+        showToast('success', job.message);
+        logger.info(`Job completed: ${job.id} - ${job.message}`);
+      } else if (job.status === 'failed') {
+        seenJobIds.current.add(job.id);
+        showToast('error', job.error || job.message);
+        logger.error(`Job failed: ${job.id} - ${job.error || job.message}`);
+      } else if (job.status === 'cancelled') {
+        seenJobIds.current.add(job.id);
+        showToast('info', job.message);
+        logger.info(`Job cancelled: ${job.id} - ${job.message}`);
+      }
+      // Queued and running jobs are not added to seen - we'll check them again
+    },
+    [showToast]
+  );
+
+  const connected = useServerEvent('job', ({ job }) => {
+    announce(job);
+    setActiveJobs(jobs => {
+      const others = jobs.filter(j => j.id !== job.id);
+      return isActive(job)
+        ? [job, ...others].sort((a, b) => b.queuedAt - a.queuedAt)
+        : others;
+    });
+  });
+
   useEffect(() => {
     const api = getApiService(state.serverUrl);
 
     const poll = async () => {
       try {
-        const jobs: JobStatus[] = await api.getJobStatuses();
-
-        for (const job of jobs) {
-          if (seenJobIds.current.has(job.id)) continue;
-
-          if (job.status === 'completed') {
-            seenJobIds.current.add(job.id);
-            showToast('success', job.message);
-            logger.info(`Job completed: ${job.id} - ${job.message}`);
-          } else if (job.status === 'failed') {
-            seenJobIds.current.add(job.id);
-            showToast('error', job.error || job.message);
-            logger.error(`Job failed: ${job.id} - ${job.error || job.message}`);
-          }
-          // Running jobs are not added to seen - we'll check them again
-        }
+        const jobs: Job[] = await api.getJobStatuses();
+        jobs.forEach(announce);
+        setActiveJobs(jobs.filter(isActive));
       } catch {
         // Silently ignore poll failures (server may be restarting)
       }
     };
 
-    intervalRef.current = setInterval(poll, POLL_INTERVAL);
+    intervalRef.current = setInterval(
+      poll,
+      connected ? CONNECTED_POLL_INTERVAL : POLL_INTERVAL
+    );
 
     return () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
     };
-  }, [showToast, state.serverUrl]);
+  }, [announce, connected, state.serverUrl]);
+
+  const cancelJob = useCallback(
+    async (id: string) => {
+      try {
+        const job = await getApiService(state.serverUrl).cancelJob(id);
+        setActiveJobs(jobs => jobs.map(j => (j.id === id ? job : j)));
+      } catch (error) {
+        logger.error(`Failed to cancel job ${id}`, error);
+        showToast('error', 'Could not cancel the job');
+      }
+    },
+    [showToast, state.serverUrl]
+  );
+
+  return { activeJobs, cancelJob };
 }
@@ -1,121 +1,162 @@
 import { useCallback, useEffect, useState } from 'react';
 
-import { AppNotification, NotificationStore } from '../../shared/types';
+import { AppNotification } from '../../shared/types';
+import { useApp } from '../context/AppContext';
+import ApiService, { getApiService } from '../services/api';
 import { createLogger } from '../utils/logger';
 
+import { useServerEvent } from './useServerEvents';
+
 const logger = createLogger('useNotifications');
 
-const STORAGE_KEY = 'recordscrobbles.notifications';
-const MAX_NOTIFICATIONS = 50;
+// Where notifications were kept before the server stored them
+const LEGACY_STORAGE_KEY = 'recordscrobbles.notifications';
+const MAX_NOTIFICATIONS = 200;
+
+// Without the event stream, refresh this often to pick up new ones
+const REFRESH_INTERVAL = 60000;
+
+/**
+ * Move notifications left in localStorage by older versions to the server.
+ */
+async function moveLocalNotifications(api: ApiService): Promise<void> {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  try {
+    const data = JSON.parse(stored);
+    if (Array.isArray(data.notifications) && data.notifications.length > 0) {
+      await api.importNotifications(data.notifications);
+    }
+  } catch (error) {
+    logger.error('Failed to move stored notifications to the server', error);
+    return;
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
 
 /**
  * Hook for managing application notifications.
- * Notifications are stored in localStorage for persistence.
+ * Notifications are stored on the server, which also raises its own (scan
+ * results, backup failures, streaks). New ones arrive over the event stream.
  */
 export function useNotifications() {
+  const { state } = useApp();
   const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
 
-  // Load notifications from localStorage
-  useEffect(() => {
+  const upsert = useCallback((notification: AppNotification) => {
+    setNotifications(prev =>
+      [notification, ...prev.filter(n => n.id !== notification.id)].slice(
+        0,
+        MAX_NOTIFICATIONS
+      )
+    );
+  }, []);
+
+  const refresh = useCallback(async () => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const data = JSON.parse(stored);
-
-        // Handle missing schemaVersion (legacy data) - stamp without modifying data
-        if (typeof data.schemaVersion !== 'number') {
-          data.schemaVersion = 1;
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-        }
-
-        // Future: Add client-side migrations here
-        // if (data.schemaVersion < CURRENT_VERSION) {
-        //   data = migrateNotifications(data);
-        //   localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-        // }
-
-        if (data.schemaVersion === 1 && Array.isArray(data.notifications)) {
-          setNotifications(data.notifications);
-        }
-      }
+      const data = await getApiService(state.serverUrl).getNotifications();
+      setNotifications(data.notifications);
     } catch (error) {
       logger.error('Failed to load notifications', error);
     }
-    setIsLoaded(true);
-  }, []);
+  }, [state.serverUrl]);
 
-  // Save notifications to localStorage whenever they change
+  // Load notifications
   useEffect(() => {
-    if (!isLoaded) return;
+    let cancelled = false;
+    const load = async () => {
+      await moveLocalNotifications(getApiService(state.serverUrl));
+      await refresh();
+      if (!cancelled) setIsLoaded(true);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [refresh, state.serverUrl]);
+
+  const connected = useServerEvent('notification', ({ notification }) =>
+    upsert(notification)
+  );
 
-    try {
-      const data: NotificationStore = {
-        schemaVersion: 1,
-        notifications,
-      };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    } catch (error) {
-      logger.error('Failed to save notifications', error);
-    }
-  }, [notifications, isLoaded]);
+  useEffect(() => {
+    if (connected) return undefined;
+    const id = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(id);
+  }, [connected, refresh]);
 
   /**
    * Add a new notification
    */
   const addNotification = useCallback(
-    (
-      notification: Omit<AppNotification, 'id' | 'timestamp' | 'read'>
-    ): string => {
-      const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      const newNotification: AppNotification = {
-        ...notification,
-        id,
-        timestamp: Date.now(),
-        read: false,
-      };
-
-      setNotifications(prev => {
-        // Add new notification at the beginning
-        const updated = [newNotification, ...prev];
-        // Keep only the most recent MAX_NOTIFICATIONS
-        return updated.slice(0, MAX_NOTIFICATIONS);
-      });
-
-      return id;
+    (notification: Omit<AppNotification, 'id' | 'timestamp' | 'read'>) => {
+      getApiService(state.serverUrl)
+        .createNotification(notification)
+        .then(upsert)
+        .catch(error => {
+          logger.error('Failed to save notification', error);
+        });
     },
-    []
+    [state.serverUrl, upsert]
   );
 
   /**
    * Mark a notification as read
    */
-  const markAsRead = useCallback((id: string) => {
-    setNotifications(prev =>
-      prev.map(n => (n.id === id ? { ...n, read: true } : n))
-    );
-  }, []);
+  const markAsRead = useCallback(
+    (id: string) => {
+      setNotifications(prev =>
+        prev.map(n => (n.id === id ? { ...n, read: true } : n))
+      );
+      getApiService(state.serverUrl)
+        .markNotificationRead(id)
+        .catch(error => {
+          logger.error('Failed to mark notification as read', error);
+        });
+    },
+    [state.serverUrl]
+  );
 
   /**
    * Mark all notifications as read
    */
   const markAllAsRead = useCallback(() => {
     setNotifications(prev => prev.map(n => ({ ...n, read: true })));
-  }, []);
+    getApiService(state.serverUrl)
+      .markAllNotificationsRead()
+      .catch(error => {
+        logger.error('Failed to mark notifications as read', error);
+      });
+  }, [state.serverUrl]);
 
   /**
    * Remove a notification
    */
-  const removeNotification = useCallback((id: string) => {
-    setNotifications(prev => prev.filter(n => n.id !== id));
-  }, []);
+  const removeNotification = useCallback(
+    (id: string) => {
+      setNotifications(prev => prev.filter(n => n.id !== id));
+      getApiService(state.serverUrl)
+        .deleteNotification(id)
+        .catch(error => {
+          logger.error('Failed to remove notification', error);
+        });
+    },
+    [state.serverUrl]
+  );
 
   /**
    * Clear all notifications
    */
   const clearAll = useCallback(() => {
     setNotifications([]);
-  }, []);
+    getApiService(state.serverUrl)
+      .clearNotifications()
+      .catch(error => {
+        logger.error('Failed to clear notifications', error);
+      });
+  }, [state.serverUrl]);
 
   /**
    * Get unread count
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 
-import { RecommendationResult } from '../../shared/types';
+import { CollectionScope, RecommendationResult } from '../../shared/types';
 import { getApiService } from '../services/api';
 import { createLogger } from '../utils/logger';
 
@@ -13,6 +13,8 @@ interface UseRecommendationsResult {
   refresh: () => void;
   windowHours: number;
   setWindowHours: (hours: number) => void;
+  collectionScope: CollectionScope;
+  setCollectionScope: (scope: CollectionScope) => void;
   submitFeedback: (
     releaseId: number,
     action: 'played' | 'skipped' | 'not_interested'
@@ -26,6 +28,7 @@ export function useRecommendations(): UseRecommendationsResult {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [windowHours, setWindowHours] = useState(168); // default 1 week
+  const [collectionScope, setScopeState] = useState<CollectionScope>({});
   const fetchIdRef = useRef(0);
 
   const fetchRecommendations = useCallback(async () => {
@@ -60,6 +63,36 @@ export function useRecommendations(): UseRecommendationsResult {
     fetchRecommendations();
   }, [fetchRecommendations]);
 
+  useEffect(() => {
+    getApiService()
+      .getRecommendationSettings()
+      .then(response => {
+        if (response.success && response.data?.collectionScope) {
+          setScopeState(response.data.collectionScope);
+        }
+      })
+      .catch(err => {
+        log.warn('Failed to load recommendation settings', err);
+      });
+  }, []);
+
+  // The scope is stored in recommendation settings, which the server applies
+  const setCollectionScope = useCallback(
+    async (scope: CollectionScope) => {
+      setScopeState(scope);
+      try {
+        await getApiService().updateRecommendationSettings({
+          collectionScope: scope,
+        });
+        await fetchRecommendations();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        log.error('Failed to save collection scope', { error: message });
+      }
+    },
+    [fetchRecommendations]
+  );
+
   const submitFeedback = useCallback(
     async (
       releaseId: number,
@@ -91,6 +124,8 @@ export function useRecommendations(): UseRecommendationsResult {
     refresh: fetchRecommendations,
     windowHours,
     setWindowHours,
+    collectionScope,
+    setCollectionScope,
     submitFeedback,
   };
 }
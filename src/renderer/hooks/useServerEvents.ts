@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { ServerEvent, ServerEventType } from '../../shared/types';
+import { useApp } from '../context/AppContext';
+import { createLogger } from '../utils/logger';
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from '../utils/profileUtils';
+
+const logger = createLogger('useServerEvents');
+
+// EventSource retries dropped connections itself, but gives up if the
+// server answers with an error; reopen it ourselves after this long
+const REOPEN_DELAY_MS = 5000;
+
+type Listener = (event: ServerEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+interface Connection {
+  source: EventSource | null;
+  connected: boolean;
+  listeners: Set<Listener>;
+  statusListeners: Set<StatusListener>;
+  reopenTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * One EventSource per server, shared by every component that listens and
+ * closed when the last one unmounts.
+ */
+const connections = new Map<string, Connection>();
+
+function setConnected(connection: Connection, connected: boolean): void {
+  if (connection.connected === connected) return;
+  connection.connected = connected;
+  connection.statusListeners.forEach(listener => listener(connected));
+}
+
+function open(url: string, connection: Connection): void {
+  const source = new EventSource(url);
+  connection.source = source;
+
+  source.onopen = () => setConnected(connection, true);
+  source.onmessage = message => {
+    let event: ServerEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch {
+      logger.warn('Ignoring malformed server event');
+      return;
+    }
+    connection.listeners.forEach(listener => listener(event));
+  };
+  source.onerror = () => {
+    setConnected(connection, false);
+    if (source.readyState === EventSource.CLOSED) {
+      connection.source = null;
+      connection.reopenTimer = setTimeout(() => {
+        connection.reopenTimer = null;
+        open(url, connection);
+      }, REOPEN_DELAY_MS);
+    }
+  };
+}
+
+function subscribe(
+  url: string,
+  listener: Listener,
+  statusListener: StatusListener
+): () => void {
+  let connection = connections.get(url);
+  if (!connection) {
+    connection = {
+      source: null,
+      connected: false,
+      listeners: new Set(),
+      statusListeners: new Set(),
+      reopenTimer: null,
+    };
+    connections.set(url, connection);
+    open(url, connection);
+  }
+  connection.listeners.add(listener);
+  connection.statusListeners.add(statusListener);
+
+  const current = connection;
+  return () => {
+    current.listeners.delete(listener);
+    current.statusListeners.delete(statusListener);
+    if (current.listeners.size > 0) return;
+
+    current.source?.close();
+    if (current.reopenTimer) clearTimeout(current.reopenTimer);
+    connections.delete(url);
+  };
+}
+
+/**
+ * Listen for one type of event pushed by the server. Returns whether the
+ * stream is connected, so callers can fall back to polling when it isn't.
+ * Does nothing where EventSource is unavailable.
+ */
+export function useServerEvent<T extends ServerEventType>(
+  type: T,
+  handler: (event: Extract<ServerEvent, { type: T }>) => void
+): boolean {
+  const { state } = useApp();
+  const [connected, setConnectedState] = useState(false);
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    // EventSource can't send the profile header, so name it in the query
+    const profileId = getActiveProfileId();
+    const url =
+      profileId === DEFAULT_PROFILE_ID
+        ? `${state.serverUrl}/api/v1/events`
+        : `${state.serverUrl}/api/v1/events?profile=${encodeURIComponent(profileId)}`;
+    const unsubscribe = subscribe(
+      url,
+      event => {
+        if (event.type === type) {
+          handlerRef.current(event as Extract<ServerEvent, { type: T }>);
+        }
+      },
+      setConnectedState
+    );
+    setConnectedState(connections.get(url)?.connected ?? false);
+
+    return () => {
+      unsubscribe();
+      setConnectedState(false);
+    };
+  }, [state.serverUrl, type]);
+
+  return connected;
+}
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { ShelfLocation, ShelfLocationEntry } from '../../shared/types';
+import { useApp } from '../context/AppContext';
+import { useAuth } from '../context/AuthContext';
+import { getApiService } from '../services/api';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('useShelfLocations');
+
+interface UseShelfLocationsResult {
+  /** Locations keyed by collection instance ID */
+  byItemId: Map<number, ShelfLocationEntry>;
+  /** Locations keyed by release ID (first instance wins) */
+  byReleaseId: Map<number, ShelfLocationEntry>;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+  /** Set when the location saved locally but the Discogs note didn't */
+  syncError: string | null;
+  /** Save (or with null, clear) a location; resolves true on success */
+  saveLocation: (
+    collectionItemId: number,
+    location: ShelfLocation | null
+  ) => Promise<boolean>;
+}
+
+/**
+ * Shelf locations of the whole collection, for "Where is it?" badges, plus
+ * saving a single location.
+ */
+export function useShelfLocations(): UseShelfLocationsResult {
+  const { state } = useApp();
+  const { authStatus } = useAuth();
+  const username = authStatus.discogs.username;
+  const [entries, setEntries] = useState<ShelfLocationEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getApiService(state.serverUrl)
+      .getShelfLocations()
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(err => log.warn('Failed to load shelf locations', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.serverUrl]);
+
+  const byItemId = useMemo(
+    () => new Map(entries.map(entry => [entry.collectionItemId, entry])),
+    [entries]
+  );
+
+  const byReleaseId = useMemo(() => {
+    const map = new Map<number, ShelfLocationEntry>();
+    for (const entry of entries) {
+      if (!map.has(entry.releaseId)) map.set(entry.releaseId, entry);
+    }
+    return map;
+  }, [entries]);
+
+  const saveLocation = useCallback(
+    async (
+      collectionItemId: number,
+      location: ShelfLocation | null
+    ): Promise<boolean> => {
+      if (!username) return false;
+      const api = getApiService(state.serverUrl);
+      setSaving(true);
+      setError(null);
+      setSyncError(null);
+      try {
+        const result = location
+          ? await api.setShelfLocation(username, collectionItemId, location)
+          : await api.clearShelfLocation(username, collectionItemId);
+        setEntries(prev => {
+          const rest = prev.filter(
+            entry => entry.collectionItemId !== collectionItemId
+          );
+          return result.entry ? [...rest, result.entry] : rest;
+        });
+        if (result.syncError) setSyncError(result.syncError);
+        return true;
+      } catch (err) {
+        setError(
+          (err as { response?: { data?: { error?: string } } })?.response?.data
+            ?.error ||
+            (err instanceof Error ? err.message : 'Failed to save location')
+        );
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [state.serverUrl, username]
+  );
+
+  return {
+    byItemId,
+    byReleaseId,
+    loading,
+    saving,
+    error,
+    syncError,
+    saveLocation,
+  };
+}
+
+export default useShelfLocations;
@@ -5,11 +5,14 @@ import './AlbumDetailPage.page.css';
 
 import { AlbumDetailResponse } from '../../shared/types';
 import ArtistLink from '../components/ArtistLink';
+import ShelfLocationTag from '../components/ShelfLocationTag';
 import { AlbumListeningArc } from '../components/stats/AlbumListeningArc';
+import { AlbumListeningSessions } from '../components/stats/AlbumListeningSessions';
 import TrackLink from '../components/TrackLink';
 import { Button } from '../components/ui/Button';
 import { EmptyState } from '../components/ui/EmptyState';
 import { Skeleton } from '../components/ui/Skeleton';
+import { useShelfLocations } from '../hooks/useShelfLocations';
 import { ROUTES, navigate } from '../routes';
 import { statsApi } from '../services/statsApi';
 import { formatLocalDateOnly, formatRelativeTime } from '../utils/dateUtils';
@@ -56,6 +59,7 @@ const AlbumDetailPage: React.FC = () => {
   const [data, setData] = useState<AlbumDetailResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const { byReleaseId: shelfLocations } = useShelfLocations();
 
   /**
    * Album info parsed from localStorage. `null` if missing or malformed —
@@ -362,6 +366,13 @@ const AlbumDetailPage: React.FC = () => {
         <AlbumListeningArc artist={data.artist} album={data.album} />
       </section>
 
+      <section
+        className='album-detail-arc-section'
+        aria-label='Listening sessions'
+      >
+        <AlbumListeningSessions artist={data.artist} album={data.album} />
+      </section>
+
       {/* Two-column content: Tracks | Mappings */}
       <div className='album-detail-content-grid'>
         {/* Tracks list */}
@@ -424,6 +435,15 @@ const AlbumDetailPage: React.FC = () => {
                   </strong>
                 </p>
               )}
+              {data.collectionReleaseId && (
+                <p className='detail-page-meta'>
+                  Where is it?{' '}
+                  <ShelfLocationTag
+                    location={shelfLocations.get(data.collectionReleaseId)}
+                    showMissing
+                  />
+                </p>
+              )}
               {data.collectionReleaseId && (
                 <Button
                   variant='outline'
@@ -5,6 +5,7 @@ import './CollectionAnalyticsPage.page.css';
 
 import { CollectionAnalyticsOverview } from '../../shared/types';
 import AnalyticsOverviewSection from '../components/collection-analytics/AnalyticsOverviewSection';
+import CollectionChangesSection from '../components/collection-analytics/CollectionChangesSection';
 import FormatDetailSection from '../components/collection-analytics/FormatDetailSection';
 import LabelDetailSection from '../components/collection-analytics/LabelDetailSection';
 import TimelineDetailSection from '../components/collection-analytics/TimelineDetailSection';
@@ -20,7 +21,13 @@ import { getTabFromUrl } from '../utils/tabUtils';
 
 const log = createLogger('CollectionAnalyticsPage');
 
-type TabId = 'overview' | 'value' | 'formats' | 'labels' | 'timeline';
+type TabId =
+  | 'overview'
+  | 'value'
+  | 'formats'
+  | 'labels'
+  | 'timeline'
+  | 'changes';
 
 const VALID_TABS: TabId[] = [
   'overview',
@@ -28,6 +35,7 @@ const VALID_TABS: TabId[] = [
   'formats',
   'labels',
   'timeline',
+  'changes',
 ];
 
 const TAB_LABELS: Record<TabId, string> = {
@@ -36,6 +44,7 @@ const TAB_LABELS: Record<TabId, string> = {
   formats: 'Formats',
   labels: 'Labels',
   timeline: 'Timeline',
+  changes: 'Changes',
 };
 
 const CollectionAnalyticsPage: React.FC = () => {
@@ -172,6 +181,8 @@ const CollectionAnalyticsPage: React.FC = () => {
             decades={overview.decades}
           />
         );
+      case 'changes':
+        return <CollectionChangesSection />;
       default:
         return null;
     }
@@ -7,13 +7,19 @@ import {
   AlbumPlayCountResult,
   CollectionFilterPreset,
   CollectionItem,
+  CollectionScope,
   CollectionSortBy,
   DiscardReason,
   DiscogsRelease,
   AddDiscardPileItemRequest,
   MarketplaceStats,
 } from '../../shared/types';
+import {
+  isCollectionScopeActive,
+  matchesCollectionScope,
+} from '../../shared/utils/collectionScope';
 import AlbumCard from '../components/AlbumCard';
+import BarcodeLookup from '../components/BarcodeLookup';
 import CacheStatusIndicator from '../components/CacheStatusIndicator';
 import CollectionFilterControls from '../components/CollectionFilterControls';
 import SearchBar from '../components/SearchBar';
@@ -24,6 +30,8 @@ import VirtualizedCollectionGrid from '../components/VirtualizedCollectionGrid';
 import { useApp } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
+import { useCollectionEdit } from '../hooks/useCollectionEdit';
+import { useCollectionScopeOptions } from '../hooks/useCollectionScopeOptions';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 import { navigate } from '../routes';
 import { getApiService } from '../services/api';
@@ -66,6 +74,30 @@ const CollectionPage: React.FC = () => {
   const [filterYearFrom, setFilterYearFrom] = useState<string>('');
   const [filterYearTo, setFilterYearTo] = useState<string>('');
   const [filterDateAdded, setFilterDateAdded] = useState<string>('');
+  const [filterScope, setFilterScope] = useState<CollectionScope>({});
+  const { folders, fields } = useCollectionScopeOptions();
+
+  // Ratings edited on the cards are written back to Discogs
+  const replaceCollectionItem = useCallback((updated: CollectionItem) => {
+    const replace = (items: CollectionItem[]) =>
+      items.map(item => (item.id === updated.id ? updated : item));
+    setEntireCollection(replace);
+    setFilteredCollection(replace);
+  }, []);
+  const showEditError = useCallback(
+    (message: string) => showToast('error', message),
+    [showToast]
+  );
+  const { setRating } = useCollectionEdit({
+    onItemChange: replaceCollectionItem,
+    onError: showEditError,
+  });
+  const handleRatingChange = useCallback(
+    (item: CollectionItem, rating: number) => {
+      setRating(item, rating);
+    },
+    [setRating]
+  );
   const [usingCache, setUsingCache] = useState<boolean>(false);
   const [authChecked, setAuthChecked] = useState<boolean>(false);
   const [cacheStatus, setCacheStatus] = useState<
@@ -207,9 +239,15 @@ const CollectionPage: React.FC = () => {
       yearFrom: string;
       yearTo: string;
       dateAdded: string;
+      scope: CollectionScope;
     }
   ): CollectionItem[] => {
     return items.filter(item => {
+      // Discogs folder and custom field filters
+      if (!matchesCollectionScope(item, filters.scope)) {
+        return false;
+      }
+
       // Format filter
       if (filters.format && item.release.format) {
         if (!item.release.format.includes(filters.format)) {
@@ -263,7 +301,8 @@ const CollectionPage: React.FC = () => {
     filterFormat ||
     filterYearFrom ||
     filterYearTo ||
-    filterDateAdded
+    filterDateAdded ||
+    isCollectionScopeActive(filterScope)
   );
 
   // Clear all filters
@@ -272,6 +311,7 @@ const CollectionPage: React.FC = () => {
     setFilterYearFrom('');
     setFilterYearTo('');
     setFilterDateAdded('');
+    setFilterScope({});
   };
 
   // Load filter presets from user preferences on mount
@@ -303,6 +343,7 @@ const CollectionPage: React.FC = () => {
         yearFrom: filterYearFrom,
         yearTo: filterYearTo,
         dateAdded: filterDateAdded,
+        scope: filterScope,
       },
       createdAt: Date.now(),
     };
@@ -325,6 +366,7 @@ const CollectionPage: React.FC = () => {
     setFilterYearFrom(preset.filters.yearFrom);
     setFilterYearTo(preset.filters.yearTo);
     setFilterDateAdded(preset.filters.dateAdded);
+    setFilterScope(preset.filters.scope ?? {});
     showToast('success', `Applied preset "${preset.name}"`);
   };
 
@@ -385,7 +427,13 @@ const CollectionPage: React.FC = () => {
       isSearchMode,
       sortBy,
       sortOrder,
-      filters: { filterFormat, filterYearFrom, filterYearTo, filterDateAdded },
+      filters: {
+        filterFormat,
+        filterYearFrom,
+        filterYearTo,
+        filterDateAdded,
+        filterScope,
+      },
     });
 
     // Only use local filtering if not in search mode
@@ -396,6 +444,7 @@ const CollectionPage: React.FC = () => {
         yearFrom: filterYearFrom,
         yearTo: filterYearTo,
         dateAdded: filterDateAdded,
+        scope: filterScope,
       };
       const filtered = applyFilters(entireCollection, currentFilters);
       const sorted = sortCollection(filtered);
@@ -429,6 +478,7 @@ const CollectionPage: React.FC = () => {
     filterYearFrom,
     filterYearTo,
     filterDateAdded,
+    filterScope,
     playCounts,
   ]);
 
@@ -1192,6 +1242,8 @@ const CollectionPage: React.FC = () => {
           disabled={loading}
         />
 
+        <BarcodeLookup />
+
         {/* Filters Section */}
         <CollectionFilterControls
           filterFormat={filterFormat}
@@ -1202,6 +1254,10 @@ const CollectionPage: React.FC = () => {
           onFilterYearToChange={setFilterYearTo}
           filterDateAdded={filterDateAdded}
           onFilterDateAddedChange={setFilterDateAdded}
+          filterScope={filterScope}
+          onFilterScopeChange={setFilterScope}
+          folders={folders}
+          fields={fields}
           hasActiveFilters={hasActiveFilters}
           onClearFilters={clearFilters}
           filteredCount={filteredCollection.length}
@@ -1387,6 +1443,7 @@ const CollectionPage: React.FC = () => {
                   onAddToDiscardPile={handleOpenDiscardModal}
                   playCount={pcData?.playCount}
                   lastPlayed={pcData?.lastPlayed}
+                  onRatingChange={handleRatingChange}
                 />
               );
             })}
@@ -1401,6 +1458,7 @@ const CollectionPage: React.FC = () => {
             onAddToDiscardPile={handleOpenDiscardModal}
             playCounts={playCounts}
             getPlayCountKey={getPlayCountKey}
+            onRatingChange={handleRatingChange}
           />
         ))}
 
@@ -1460,6 +1518,7 @@ const CollectionPage: React.FC = () => {
                   onAddToDiscardPile={handleOpenDiscardModal}
                   playCount={pcData?.playCount}
                   lastPlayed={pcData?.lastPlayed}
+                  onRatingChange={handleRatingChange}
                 />
               );
             })()}
@@ -1861,6 +1920,20 @@ const CollectionPage: React.FC = () => {
               </span>
             )}
             {filterDateAdded && <span>Added: {filterDateAdded}</span>}
+            {!!filterScope.folderId && (
+              <span>
+                Folder:{' '}
+                {folders.find(f => f.id === filterScope.folderId)?.name ??
+                  filterScope.folderId}
+              </span>
+            )}
+            {fields
+              .filter(field => filterScope.fieldValues?.[String(field.id)])
+              .map(field => (
+                <span key={field.id}>
+                  {field.name}: {filterScope.fieldValues?.[String(field.id)]}
+                </span>
+              ))}
           </div>
         </div>
         <div className='modal-footer'>
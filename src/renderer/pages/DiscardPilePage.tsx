@@ -115,6 +115,7 @@ const DiscardPilePage: React.FC = () => {
     status: 'marked' as DiscardStatus,
     marketplaceUrl: '',
     actualSalePrice: '',
+    removeFromDiscogs: false,
   });
 
   // Marketplace stats for edit modal
@@ -362,6 +363,19 @@ const DiscardPilePage: React.FC = () => {
     if (!editModal.item) return;
 
     try {
+      // Remove from Discogs first so a failure leaves the status unchanged
+      const username = authStatus.discogs.username;
+      if (
+        editForm.status === 'removed' &&
+        editForm.removeFromDiscogs &&
+        username
+      ) {
+        await api.removeCollectionInstance(
+          username,
+          editModal.item.collectionItemId
+        );
+      }
+
       const updated = await api.updateDiscardPileItem(editModal.item.id, {
         reason: editForm.reason,
         reasonNote: editForm.reasonNote || undefined,
@@ -377,12 +391,23 @@ const DiscardPilePage: React.FC = () => {
       });
       setItems(prev => prev.map(i => (i.id === updated.id ? updated : i)));
       closeEditModal();
-      addNotification(createSuccessNotification('Updated', 'Item updated'));
+      addNotification(
+        createSuccessNotification(
+          'Updated',
+          editForm.status === 'removed' && editForm.removeFromDiscogs
+            ? 'Item updated and removed from your Discogs collection'
+            : 'Item updated'
+        )
+      );
       // Reload stats
       const newStats = await api.getDiscardPileStats();
       setStats(newStats);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update item');
+      setError(
+        (err as { response?: { data?: { error?: string } } })?.response?.data
+          ?.error ||
+          (err instanceof Error ? err.message : 'Failed to update item')
+      );
     }
   };
 
@@ -395,6 +420,7 @@ const DiscardPilePage: React.FC = () => {
       status: item.status,
       marketplaceUrl: item.marketplaceUrl || '',
       actualSalePrice: item.actualSalePrice?.toString() || '',
+      removeFromDiscogs: false,
     });
     setEditModal({ isOpen: true, item });
     setEditMarketplaceStats(null);
@@ -454,10 +480,8 @@ const DiscardPilePage: React.FC = () => {
       const interval = setInterval(async () => {
         try {
           const jobs = await api.getJobStatuses();
-          const job = jobs.find(
-            (j: { id: string; status: string }) => j.id === result.jobId
-          );
-          if (job && (job.status === 'completed' || job.status === 'failed')) {
+          const job = jobs.find(j => j.id === result.jobId);
+          if (job && !['queued', 'running'].includes(job.status)) {
             clearInterval(interval);
             setRefreshing(false);
             loadData();
@@ -800,6 +824,24 @@ const DiscardPilePage: React.FC = () => {
               ))}
             </select>
           </div>
+          {editForm.status === 'removed' &&
+            editModal.item.status !== 'removed' && (
+              <div className='form-group'>
+                <label className='discard-remove-from-discogs'>
+                  <input
+                    type='checkbox'
+                    checked={editForm.removeFromDiscogs}
+                    onChange={e =>
+                      setEditForm({
+                        ...editForm,
+                        removeFromDiscogs: e.target.checked,
+                      })
+                    }
+                  />
+                  Also remove from my Discogs collection
+                </label>
+              </div>
+            )}
           <div className='form-group'>
             <label>Estimated Value ({editModal.item.currency})</label>
             <input
@@ -1,10 +1,16 @@
-import { Check, Circle, Clock, FileText, XCircle } from 'lucide-react';
+import { Check, Circle, Clock, FileText, Undo2, XCircle } from 'lucide-react';
 import React, { useState, useEffect, useMemo } from 'react';
 
 import './HistoryPage.page.css';
 
-import { ScrobbleSession, ScrobbleTrack } from '../../shared/types';
+import {
+  LastFmRemovalGuide,
+  ScrobbleSession,
+  ScrobbleTrack,
+  ScrobbleUndoResult,
+} from '../../shared/types';
 import LastFmHistoryTab from '../components/LastFmHistoryTab';
+import LastFmRemovalGuideModal from '../components/LastFmRemovalGuideModal';
 import ScrobbleSessionCard from '../components/ScrobbleSessionCard';
 import { Button } from '../components/ui/Button';
 import { EmptyState } from '../components/ui/EmptyState';
@@ -52,6 +58,10 @@ const HistoryPage: React.FC = () => {
     useState<ScrobbleSession | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [backfillLoading, setBackfillLoading] = useState(false);
+  const [undoGuide, setUndoGuide] = useState<{
+    guide: LastFmRemovalGuide;
+    result?: ScrobbleUndoResult;
+  } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
 
   const normalizedQuery = searchQuery.trim().toLowerCase();
@@ -178,6 +188,43 @@ const HistoryPage: React.FC = () => {
     }
   };
 
+  const handleUndoSession = async (sessionId: string) => {
+    const confirmed = await confirmAction(
+      "Undo this session? Its plays are removed from your local history and stats, and anything still queued won't be sent. Last.fm can't delete scrobbles through its API, so you'll get a list of the entries to delete on Last.fm.",
+      { title: 'Undo Session', confirmLabel: 'Undo' }
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    setActionLoading(`undo-${sessionId}`);
+    try {
+      const result = await api.undoScrobbleSession(sessionId);
+      setUndoGuide({ guide: result.lastfm, result });
+      await loadHistory();
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to undo session'
+      );
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleShowUndoGuide = async (sessionId: string) => {
+    setActionLoading(`undo-guide-${sessionId}`);
+    try {
+      const guide = await api.getScrobbleUndoGuide(sessionId);
+      setUndoGuide({ guide });
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to load undo guide'
+      );
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleBackfillCovers = async () => {
     if (!authStatus.discogs.authenticated || !authStatus.discogs.username) {
       setError('Discogs authentication required to backfill album covers');
@@ -224,6 +271,8 @@ const HistoryPage: React.FC = () => {
         return <XCircle size={14} aria-hidden='true' />;
       case 'pending':
         return <Clock size={14} aria-hidden='true' />;
+      case 'reverted':
+        return <Undo2 size={14} aria-hidden='true' />;
       default:
         return <Circle size={14} aria-hidden='true' />;
     }
@@ -266,6 +315,13 @@ const HistoryPage: React.FC = () => {
   return (
     <div>
       {ConfirmModal}
+      <LastFmRemovalGuideModal
+        isOpen={!!undoGuide}
+        guide={undoGuide?.guide ?? null}
+        result={undoGuide?.result}
+        formatTrackTimestamp={formatLocalTimeClean}
+        onClose={() => setUndoGuide(null)}
+      />
       {/* Page Header */}
       <div className='card'>
         <h2>History</h2>
@@ -436,6 +492,8 @@ const HistoryPage: React.FC = () => {
                   onDelete={handleDeleteSession}
                   onResubmit={handleResubmitSession}
                   onResubmitTrack={handleResubmitTrack}
+                  onUndo={handleUndoSession}
+                  onShowUndoGuide={handleShowUndoGuide}
                   actionLoading={actionLoading}
                   getUniqueAlbumCovers={getUniqueAlbumCovers}
                 />
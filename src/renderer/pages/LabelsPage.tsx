@@ -10,7 +10,13 @@ import {
   Trash2,
   X,
 } from 'lucide-react';
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 
 import './LabelsPage.page.css';
 
@@ -20,6 +26,7 @@ import {
   LabelScanStatus,
   MonitoredLabel,
 } from '../../shared/types';
+import DiscogsBudgetStatus from '../components/DiscogsBudgetStatus';
 import { Badge } from '../components/ui/Badge';
 import { Button, IconButton } from '../components/ui/Button';
 import { EmptyState } from '../components/ui/EmptyState';
@@ -29,6 +36,7 @@ import { ListItemSkeleton } from '../components/ui/Skeleton';
 import { useApp } from '../context/AppContext';
 import { useToast } from '../context/ToastContext';
 import { useConfirmModal } from '../hooks/useConfirmModal';
+import { useServerEvent } from '../hooks/useServerEvents';
 import { getApiService } from '../services/api';
 
 interface LabelsPageProps {
@@ -61,6 +69,7 @@ const LabelsPage: React.FC<LabelsPageProps> = ({ embedded = false }) => {
   const [labels, setLabels] = useState<MonitoredLabel[]>([]);
   const [releases, setReleases] = useState<LabelRelease[]>([]);
   const [scanStatus, setScanStatus] = useState<LabelScanStatus | null>(null);
+  const scanningRef = useRef(false);
   const [settings, setSettings] = useState<LabelMonitoringSettings | null>(
     null
   );
@@ -151,39 +160,59 @@ const LabelsPage: React.FC<LabelsPageProps> = ({ embedded = false }) => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [addDialogOpen, labels.length]);
 
-  // Poll while scanning
+  const applyScanStatus = useCallback(
+    async (next: LabelScanStatus) => {
+      const wasScanning = scanningRef.current;
+      scanningRef.current = next.status === 'scanning';
+      setScanStatus(next);
+      if (!wasScanning || next.status === 'scanning') return;
+
+      // Scan finished — refresh dependent data
+      try {
+        const [labelsData, releasesData] = await Promise.all([
+          api.getLabels(),
+          api.getLabelReleases(),
+        ]);
+        setLabels(labelsData);
+        setReleases(releasesData);
+      } catch {
+        // Refresh errors are non-critical
+      }
+      if (next.status === 'completed') {
+        const found = next.releasesFound ?? 0;
+        showToast(
+          'success',
+          found > 0
+            ? `Scan complete — ${found} new release${found !== 1 ? 's' : ''} found`
+            : 'Scan complete — no new releases'
+        );
+      } else if (next.status === 'error') {
+        showToast('error', next.error || 'Label scan failed');
+      }
+    },
+    [api, showToast]
+  );
+
   useEffect(() => {
-    if (scanStatus?.status !== 'scanning') return undefined;
+    scanningRef.current = scanStatus?.status === 'scanning';
+  }, [scanStatus?.status]);
+
+  const streamConnected = useServerEvent('scan-progress', event => {
+    if (event.scan === 'label') void applyScanStatus(event.status);
+  });
+
+  // Poll while scanning, unless the event stream is pushing updates
+  useEffect(() => {
+    if (scanStatus?.status !== 'scanning' || streamConnected) return undefined;
     const id = window.setInterval(async () => {
       try {
-        const next = await api.getLabelScanStatus();
-        setScanStatus(next);
-        if (next.status !== 'scanning') {
-          // Scan finished — refresh dependent data
-          const [labelsData, releasesData] = await Promise.all([
-            api.getLabels(),
-            api.getLabelReleases(),
-          ]);
-          setLabels(labelsData);
-          setReleases(releasesData);
-          if (next.status === 'completed') {
-            const found = next.releasesFound ?? 0;
-            showToast(
-              'success',
-              found > 0
-                ? `Scan complete — ${found} new release${found !== 1 ? 's' : ''} found`
-                : 'Scan complete — no new releases'
-            );
-          } else if (next.status === 'error') {
-            showToast('error', next.error || 'Label scan failed');
-          }
-        }
+        await applyScanStatus(await api.getLabelScanStatus());
       } catch {
         // Polling errors are non-critical
       }
     }, 2500);
     return () => window.clearInterval(id);
-  }, [scanStatus?.status, api, showToast]);
+  }, [scanStatus?.status, streamConnected, api, applyScanStatus]);
 
   const handleSearchLabels = useCallback(
     async (overrideQuery?: string) => {
@@ -587,6 +616,7 @@ const LabelsPage: React.FC<LabelsPageProps> = ({ embedded = false }) => {
             size='small'
             animated
           />
+          <DiscogsBudgetStatus />
           {(scanStatus?.releasesFound ?? 0) > 0 && (
             <div className='labels-scan-found'>
               {scanStatus?.releasesFound} new release
@@ -3,6 +3,7 @@ import {
   Check,
   ChevronDown,
   ChevronUp,
+  Clock,
   FolderOpen,
   Send,
   Trash2,
@@ -14,12 +15,14 @@ import './MemoryScrobblePage.page.css';
 import {
   MemoryScrobbleTrack,
   SavedCollectionTrack,
+  ScrobbleConflictReport,
   ScrobbleTrack,
   TrackSearchResult,
 } from '../../shared/types';
 import { SavedCollectionManager } from '../components/memory-scrobble/SavedCollectionManager';
 import { SessionTimelineBar } from '../components/memory-scrobble/SessionTimelineBar';
 import { TrackTypeahead } from '../components/memory-scrobble/TrackTypeahead';
+import ScrobbleConflictWarning from '../components/ScrobbleConflictWarning';
 import { Button, IconButton } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { useApp } from '../context/AppContext';
@@ -82,9 +85,13 @@ const MemoryScrobblePage: React.FC = () => {
     null
   );
   const [overflows, setOverflows] = useState(false);
+  const [conflictReport, setConflictReport] =
+    useState<ScrobbleConflictReport | null>(null);
+  const [isShifting, setIsShifting] = useState(false);
   const [scrobbleResult, setScrobbleResult] = useState<{
     success: number;
     failed: number;
+    queued: number;
   } | null>(null);
   const [isScrobbling, setIsScrobbling] = useState(false);
   const [isPreparing, setIsPreparing] = useState(false);
@@ -285,7 +292,17 @@ const MemoryScrobblePage: React.FC = () => {
       if (response.success && response.data) {
         setPreparedTracks(response.data.tracks);
         setOverflows(response.data.overflows);
+        setConflictReport(null);
         setShowReviewModal(true);
+
+        try {
+          setConflictReport(
+            await api.checkScrobbleConflicts(response.data.tracks)
+          );
+        } catch (err) {
+          // Conflict checks are advisory and never block scrobbling
+          log.warn('Conflict check failed', err);
+        }
       } else {
         setError(response.error ?? 'Failed to prepare scrobble.');
       }
@@ -297,16 +314,54 @@ const MemoryScrobblePage: React.FC = () => {
     }
   }, [tracks, sessionStart, sessionEnd, sessionValid, api]);
 
+  const handleAutoShift = useCallback(async () => {
+    if (!preparedTracks || preparedTracks.length === 0) return;
+
+    setIsShifting(true);
+    setError(null);
+    try {
+      const report = await api.checkScrobbleConflicts(
+        preparedTracks,
+        undefined,
+        true
+      );
+      if (report.autoShift) {
+        setPreparedTracks(report.autoShift.tracks);
+        setConflictReport(
+          await api.checkScrobbleConflicts(report.autoShift.tracks)
+        );
+      } else {
+        setError('No free gap found within a day of this session.');
+      }
+    } catch (err) {
+      log.error('Auto-shift failed', err);
+      setError('Failed to shift timestamps. Please try again.');
+    } finally {
+      setIsShifting(false);
+    }
+  }, [preparedTracks, api]);
+
+  const conflictingIndices = useMemo(
+    () => new Set(conflictReport?.conflicts.map(c => c.trackIndex) ?? []),
+    [conflictReport]
+  );
+
   const handleConfirmScrobble = useCallback(async () => {
     if (!preparedTracks || preparedTracks.length === 0) return;
 
     setIsScrobbling(true);
     setError(null);
     try {
-      const result = await api.scrobbleBatch(preparedTracks);
+      const result = await api.scrobbleBatch(
+        preparedTracks,
+        undefined,
+        undefined,
+        'memory'
+      );
       setScrobbleResult({
         success: result.success,
         failed: result.failed,
+        queued: result.queued ?? 0,
       });
       setShowReviewModal(false);
 
@@ -325,7 +380,8 @@ const MemoryScrobblePage: React.FC = () => {
           }));
         setTracks(failedAsMemoryTracks);
         setPreparedTracks(null);
-      } else if (result.success > 0) {
+      } else if (result.success > 0 || result.queued > 0) {
+        // Queued tracks are retried server-side; nothing left to do here
         setTracks([]);
         setPreparedTracks(null);
         setSessionStart(Date.now() - 3600000);
@@ -651,6 +707,13 @@ const MemoryScrobblePage: React.FC = () => {
               below so you can retry.
             </div>
           )}
+          {scrobbleResult.queued > 0 && (
+            <div className='memory-scrobble-result-queued'>
+              <Clock size={16} aria-hidden='true' />
+              Queued: {scrobbleResult.queued} tracks will be retried
+              automatically when Last.fm is reachable.
+            </div>
+          )}
         </div>
       )}
 
@@ -695,10 +758,25 @@ const MemoryScrobblePage: React.FC = () => {
             or extend beyond the end time.
           </div>
         )}
+        {conflictReport && (
+          <ScrobbleConflictWarning
+            report={conflictReport}
+            onAutoShift={handleAutoShift}
+            shifting={isShifting}
+            disabled={isScrobbling}
+          />
+        )}
         {preparedTracks && (
           <div className='memory-scrobble-review-list'>
             {preparedTracks.map((track, idx) => (
-              <div key={idx} className='memory-scrobble-review-row'>
+              <div
+                key={idx}
+                className={`memory-scrobble-review-row${
+                  conflictingIndices.has(idx)
+                    ? ' memory-scrobble-review-row--conflict'
+                    : ''
+                }`}
+              >
                 <span className='memory-scrobble-review-num'>{idx + 1}</span>
                 <span className='memory-scrobble-review-time'>
                   {track.timestamp
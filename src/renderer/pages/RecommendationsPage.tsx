@@ -3,12 +3,14 @@ import React, { useState, useCallback } from 'react';
 
 import './RecommendationsPage.page.css';
 
+import CollectionScopeControls from '../components/CollectionScopeControls';
 import EmbeddingManager from '../components/recommendations/EmbeddingManager';
 import RecommendationCard from '../components/recommendations/RecommendationCard';
 import { Button } from '../components/ui/Button';
 import { EmptyState } from '../components/ui/EmptyState';
 import { Modal } from '../components/ui/Modal';
 import { AlbumCardSkeleton } from '../components/ui/Skeleton';
+import { useCollectionScopeOptions } from '../hooks/useCollectionScopeOptions';
 import useEmbeddingStatus from '../hooks/useEmbeddingStatus';
 import {
   createSuccessNotification,
@@ -41,8 +43,11 @@ const RecommendationsPage: React.FC = () => {
     refresh,
     windowHours,
     setWindowHours,
+    collectionScope,
+    setCollectionScope,
     submitFeedback,
   } = useRecommendations();
+  const { folders, fields } = useCollectionScopeOptions();
 
   const {
     status: embeddingStatus,
@@ -153,6 +158,21 @@ const RecommendationsPage: React.FC = () => {
             ))}
           </div>
         </div>
+
+        {(folders.length > 0 || fields.length > 0) && (
+          <div className='recommendations-page__scope'>
+            <span className='listening-window-selector__label'>
+              Recommend from:
+            </span>
+            <CollectionScopeControls
+              scope={collectionScope}
+              onChange={setCollectionScope}
+              folders={folders}
+              fields={fields}
+              idPrefix='recommendations-scope'
+            />
+          </div>
+        )}
       </div>
 
       {(showEmbeddingBanner || embeddingStatus?.isRebuilding) && (
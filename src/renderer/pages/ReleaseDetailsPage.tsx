@@ -6,24 +6,43 @@ import {
   Play,
   XCircle,
 } from 'lucide-react';
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useMemo,
+  useCallback,
+  useRef,
+} from 'react';
 import './ReleaseDetailsPage.page.css';
 
 import {
+  CollectionItem,
   DiscogsRelease,
   DiscardReason,
   AddDiscardPileItemRequest,
   MarketplaceStats,
+  ReleaseSideMemory,
 } from '../../shared/types';
 import { normalizeForMatching } from '../../shared/utils/trackNormalization';
+import {
+  getNextSide,
+  getReleaseSides,
+  scheduleTracks,
+} from '../../shared/utils/vinylSides';
 import AlbumScrobbleHistory from '../components/AlbumScrobbleHistory';
 import ArtistLink from '../components/ArtistLink';
+import CollectionInstanceEditor from '../components/CollectionInstanceEditor';
+import ShelfLocationEditor from '../components/ShelfLocationEditor';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { ProgressBar } from '../components/ui/ProgressBar';
 import { ReleaseDetailsSkeleton } from '../components/ui/Skeleton';
 import { useApp } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
+import { useCollectionEdit } from '../hooks/useCollectionEdit';
+import { useCollectionScopeOptions } from '../hooks/useCollectionScopeOptions';
+import { useServerEvent } from '../hooks/useServerEvents';
+import { useShelfLocations } from '../hooks/useShelfLocations';
 import { navigate } from '../routes';
 import { getApiService } from '../services/api';
 import { formatLocalTimeClean, formatRelativeTime } from '../utils/dateUtils';
@@ -46,6 +65,9 @@ interface AlbumHistoryData {
   plays: Array<{ timestamp: number; track?: string }>;
 }
 
+const formatSideDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
 const ReleaseDetailsPage: React.FC = () => {
   const { authStatus } = useAuth();
   const { state } = useApp();
@@ -58,6 +80,7 @@ const ReleaseDetailsPage: React.FC = () => {
     success: number;
     failed: number;
     ignored: number;
+    queued?: number;
     errors: string[];
   } | null>(null);
   const [connectionTest, setConnectionTest] = useState<{
@@ -73,6 +96,7 @@ const ReleaseDetailsPage: React.FC = () => {
     failed: number;
     ignored: number;
   } | null>(null);
+  const scrobbleSessionRef = useRef<string | null>(null);
   const [artistMapping, setArtistMapping] = useState<{
     lastfmName: string;
     hasMapping: boolean;
@@ -97,14 +121,30 @@ const ReleaseDetailsPage: React.FC = () => {
     useState<MarketplaceStats | null>(null);
   const [loadingMarketplaceStats, setLoadingMarketplaceStats] = useState(false);
   const [collectionItemId, setCollectionItemId] = useState<number | null>(null);
+  // The cached collection instance, edited and written back to Discogs
+  const [collectionItem, setCollectionItem] = useState<CollectionItem | null>(
+    null
+  );
+  const { folders, fields } = useCollectionScopeOptions();
+  const collectionEdit = useCollectionEdit({ onItemChange: setCollectionItem });
+  const shelfLocations = useShelfLocations();
 
   // Track scrobble stats state
   const [albumHistory, setAlbumHistory] = useState<AlbumHistoryData | null>(
     null
   );
 
+  // Sides of this release scrobbled last time, for "continue with side C"
+  const [sideMemory, setSideMemory] = useState<ReleaseSideMemory | null>(null);
+
   const api = getApiService(state.serverUrl);
 
+  useServerEvent('scrobble-progress', event => {
+    if (event.sessionId === scrobbleSessionRef.current && event.progress) {
+      setScrobbleProgress(event.progress);
+    }
+  });
+
   // Pattern to detect Discogs disambiguation suffix like (2), (11), etc.
   const DISAMBIGUATION_PATTERN = /\s*\(\d+\)\s*$/;
 
@@ -127,6 +167,16 @@ const ReleaseDetailsPage: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [release?.artist]);
 
+  useEffect(() => {
+    const username = authStatus.discogs.username;
+    if (!collectionItemId || !username) return;
+    api
+      .getCollectionInstance(username, collectionItemId)
+      .then(setCollectionItem)
+      .catch(err => logger.warn('Failed to load collection instance', err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [collectionItemId, authStatus.discogs.username]);
+
   // Load album history function (must be defined before useEffect that uses it)
   const loadAlbumHistory = useCallback(
     async (artist: string, album: string) => {
@@ -148,6 +198,24 @@ const ReleaseDetailsPage: React.FC = () => {
     }
   }, [release?.artist, release?.title, loadAlbumHistory]);
 
+  const loadSideMemory = useCallback(
+    async (releaseId: number) => {
+      try {
+        setSideMemory(await api.getSideMemory(releaseId));
+      } catch (err) {
+        logger.warn('Failed to load last played side', err);
+        setSideMemory(null);
+      }
+    },
+    [api]
+  );
+
+  useEffect(() => {
+    if (release?.id) {
+      loadSideMemory(release.id);
+    }
+  }, [release?.id, loadSideMemory]);
+
   // Calculate per-track scrobble stats from album history
   const trackScrobbleStats = useMemo((): Map<string, TrackScrobbleStats> => {
     const stats = new Map<string, TrackScrobbleStats>();
@@ -357,55 +425,33 @@ const ReleaseDetailsPage: React.FC = () => {
     }
   };
 
-  // Parse track positions to determine sides and groups
-  const parseSides = () => {
-    if (!release?.tracklist) return { sides: [], discs: [] };
+  // Sides from track positions (A1, B3, ...) with their discs; A&B = Disc
+  // 1, C&D = Disc 2, etc.
+  const releaseSides = useMemo(
+    () => getReleaseSides(release?.tracklist || []),
+    [release?.tracklist]
+  );
 
-    const sides: string[] = [];
+  const parseSides = () => {
+    const sides = releaseSides.map(side => side.side);
     const discs: { [key: string]: string[] } = {};
-
-    release.tracklist.forEach((track, _index) => {
-      const position = track.position.trim();
-
-      // Check for letter-number format (A1, B1, C1, etc.) OR just a single letter (C, D, etc.)
-      // Single letter means the entire side is one track
-      const letterMatch = position.match(/^([A-Z])(\d*)$/);
-      if (letterMatch) {
-        const side = letterMatch[1];
-        if (!sides.includes(side)) {
-          sides.push(side);
-        }
-
-        // Group sides into discs (A&B = Disc 1, C&D = Disc 2, etc.)
-        const discNumber = Math.floor((side.charCodeAt(0) - 65) / 2) + 1;
-        const discKey = `Disc ${discNumber}`;
-        if (!discs[discKey]) {
-          discs[discKey] = [];
-        }
-        if (!discs[discKey].includes(side)) {
-          discs[discKey].push(side);
-        }
-      }
-    });
-
-    // Sort sides alphabetically
-    sides.sort();
-
-    // Sort disc sides
-    Object.keys(discs).forEach(disc => {
-      discs[disc].sort();
+    releaseSides.forEach(({ side, disc }) => {
+      const discKey = `Disc ${disc}`;
+      discs[discKey] = [...(discs[discKey] || []), side];
     });
-
     return { sides, discs };
   };
 
-  const getSideTrackIndices = (side: string): number[] => {
-    if (!release?.tracklist) return [];
+  const getSideTrackIndices = (side: string): number[] =>
+    releaseSides.find(entry => entry.side === side)?.trackIndices || [];
+
+  const nextSide = getNextSide(releaseSides, sideMemory?.lastSide);
 
-    return release.tracklist
-      .map((track, index) => ({ track, index }))
-      .filter(({ track }) => track.position.startsWith(side))
-      .map(({ index }) => index);
+  // Select only the side after the one the record was left on
+  const handleContinueWithNextSide = () => {
+    if (!nextSide) return;
+    setSelectedTracks(new Set(nextSide.trackIndices));
+    setStartTime('');
   };
 
   const getDiscTrackIndices = (sides: string[]): number[] => {
@@ -553,33 +599,21 @@ const ReleaseDetailsPage: React.FC = () => {
       setScrobbleResult(null);
       setScrobbleProgress(null);
 
-      // Parse start time
-      let startTimestamp: number;
-      if (startTime) {
-        // If user provided a specific time, use it
-        const date = new Date(startTime);
-        startTimestamp = Math.floor(date.getTime() / 1000);
-      } else {
-        // Default to current time minus total duration of selected tracks
-        const selectedTrackIndices = Array.from(selectedTracks);
-        const selectedTracksList = selectedTrackIndices
-          .map(i => release.tracklist?.[i])
-          .filter(Boolean);
-        const totalDuration = selectedTracksList.reduce((total, track) => {
-          const duration = track?.duration
-            ? parseTrackDuration(track.duration)
-            : 180;
-          return total + duration + 1; // +1 for gap between tracks
-        }, 0);
-        startTimestamp = Math.floor(Date.now() / 1000) - totalDuration;
-      }
+      // A start time the user picked, otherwise time the play so the last
+      // track finished just now
+      const startTimestamp = startTime
+        ? Math.floor(new Date(startTime).getTime() / 1000)
+        : undefined;
 
-      // Prepare tracks for scrobbling with proper timing
+      // Prepare tracks for scrobbling with timing from the side durations
       const selectedTrackIndices = Array.from(selectedTracks);
       const result = await api.prepareTracksFromRelease(
         release,
         selectedTrackIndices,
-        startTimestamp
+        startTimestamp,
+        startTimestamp === undefined
+          ? { endTime: Math.floor(Date.now() / 1000) }
+          : undefined
       );
 
       logger.info(
@@ -599,8 +633,13 @@ const ReleaseDetailsPage: React.FC = () => {
         releaseId: release.id,
         artist: release.artist,
         album: release.title,
+        sides: result.sides?.map(side => side.side),
       });
 
+      // Progress also arrives over the event stream; polling below still
+      // decides when the batch is done
+      scrobbleSessionRef.current = scrobbleResult.sessionId;
+
       // Start polling for progress
       const pollProgress = async () => {
         try {
@@ -611,15 +650,25 @@ const ReleaseDetailsPage: React.FC = () => {
             setScrobbleProgress(progress.progress);
           }
 
-          if (progress.status === 'completed' || progress.status === 'failed') {
+          // A session with queued tracks stays pending until the server
+          // retry queue delivers them, but this batch is done
+          const queued = progress.progress?.queued || 0;
+          if (
+            progress.status === 'completed' ||
+            progress.status === 'failed' ||
+            (progress.status === 'pending' && queued > 0)
+          ) {
             setScrobbleResult({
               success: progress.progress?.success || 0,
               failed: progress.progress?.failed || 0,
               ignored: progress.progress?.ignored || 0,
+              queued,
               errors: progress.error ? [progress.error] : [],
             });
             setScrobbling(false);
             setScrobbleProgress(null);
+            scrobbleSessionRef.current = null;
+            loadSideMemory(release.id);
             return;
           }
 
@@ -641,24 +690,6 @@ const ReleaseDetailsPage: React.FC = () => {
     }
   };
 
-  // Helper function to parse track duration
-  const parseTrackDuration = (duration: string): number => {
-    if (typeof duration === 'number') {
-      return duration;
-    }
-
-    if (typeof duration === 'string') {
-      const parts = duration.split(':');
-      if (parts.length === 2) {
-        const minutes = parseInt(parts[0]);
-        const seconds = parseInt(parts[1]);
-        return minutes * 60 + seconds;
-      }
-    }
-
-    return 180; // Default 3 minutes
-  };
-
   // Handle auto timing button - calculates timing so tracks end at current time
   const handleAutoTiming = () => {
     if (selectedTracks.size === 0) {
@@ -666,17 +697,12 @@ const ReleaseDetailsPage: React.FC = () => {
       return;
     }
 
-    // Calculate total duration of selected tracks
-    const selectedTrackIndices = Array.from(selectedTracks);
-    const selectedTracksList = selectedTrackIndices
-      .map(i => release?.tracklist?.[i])
-      .filter(Boolean);
-    const totalDuration = selectedTracksList.reduce((total, track) => {
-      const duration = track?.duration
-        ? parseTrackDuration(track.duration)
-        : 180;
-      return total + duration + 1; // +1 for gap between tracks
-    }, 0);
+    // Calculate total duration of selected tracks, including record flips
+    const { totalDuration } = scheduleTracks(
+      release?.tracklist || [],
+      Array.from(selectedTracks),
+      0
+    );
 
     // Calculate start time so that scrobbles end at current time
     const now = new Date();
@@ -1020,6 +1046,49 @@ const ReleaseDetailsPage: React.FC = () => {
                 )}
               </div>
             )}
+
+            {/* Rating, folder and notes, written back to Discogs */}
+            {collectionItem && (
+              <>
+                <CollectionInstanceEditor
+                  item={collectionItem}
+                  folders={folders}
+                  fields={fields}
+                  saving={collectionEdit.saving}
+                  onRatingChange={rating =>
+                    collectionEdit.setRating(collectionItem, rating)
+                  }
+                  onFolderChange={folderId =>
+                    collectionEdit.moveToFolder(collectionItem, folderId)
+                  }
+                  onFieldChange={(fieldId, value) =>
+                    collectionEdit.setFieldValue(collectionItem, fieldId, value)
+                  }
+                />
+                {collectionEdit.error && (
+                  <div className='message error'>{collectionEdit.error}</div>
+                )}
+                <ShelfLocationEditor
+                  itemId={collectionItem.id}
+                  location={
+                    shelfLocations.byItemId.get(collectionItem.id) ?? null
+                  }
+                  saving={shelfLocations.saving}
+                  onSave={location =>
+                    shelfLocations.saveLocation(collectionItem.id, location)
+                  }
+                />
+                {shelfLocations.error && (
+                  <div className='message error'>{shelfLocations.error}</div>
+                )}
+                {shelfLocations.syncError && (
+                  <div className='message warning'>
+                    Location saved, but not written to Discogs:{' '}
+                    {shelfLocations.syncError}
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </div>
 
@@ -1080,6 +1149,12 @@ const ReleaseDetailsPage: React.FC = () => {
                 {scrobbleResult.failed} failed
               </span>
             )}
+            {!!scrobbleResult.queued && (
+              <span className='text-warning'>
+                {' '}
+                {scrobbleResult.queued} queued for retry
+              </span>
+            )}
 
             {scrobbleResult.errors.length > 0 && (
               <div className='release-details-error-details'>
@@ -1155,6 +1230,26 @@ const ReleaseDetailsPage: React.FC = () => {
                     Select by Side
                   </h5>
 
+                  {nextSide && sideMemory && (
+                    <div className='release-details-side-continue'>
+                      <Button
+                        variant='secondary'
+                        size='small'
+                        onClick={handleContinueWithNextSide}
+                      >
+                        Continue with side {nextSide.side}
+                      </Button>
+                      <span className='release-details-side-continue-meta'>
+                        Left on side {sideMemory.lastSide} (
+                        {formatRelativeTime(
+                          Math.floor(sideMemory.playedAt / 1000)
+                        ).toLowerCase()}
+                        ) &middot; side {nextSide.side} runs{' '}
+                        {formatSideDuration(nextSide.durationSeconds)}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Disc-level buttons for multi-disc albums */}
                   {Object.keys(discs).length > 1 && (
                     <div className='release-details-disc-group'>
@@ -1,12 +1,16 @@
-import { Check, XCircle } from 'lucide-react';
+import { AlertTriangle, Check, Clock, XCircle } from 'lucide-react';
 import React, { useState, useEffect } from 'react';
 import './ScrobblePage.page.css';
 
 import {
+  BackfillPlan,
+  BackfillPreset,
   CollectionItem,
+  ScrobbleConflictReport,
   ScrobbleTrack,
   ScrobbleProgress,
 } from '../../shared/types';
+import ScrobbleConflictWarning from '../components/ScrobbleConflictWarning';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { ProgressBar } from '../components/ui/ProgressBar';
@@ -20,6 +24,26 @@ import { createLogger } from '../utils/logger';
 
 const logger = createLogger('ScrobblePage');
 
+type TimestampMode = 'now' | 'custom' | 'backfill';
+
+// Wait for the selection to settle before asking the server about conflicts
+const CONFLICT_CHECK_DELAY_MS = 500;
+
+/**
+ * Base timestamp (Unix seconds) sent with the batch. Backfilled tracks
+ * already carry their planned timestamps.
+ */
+const resolveBaseTimestamp = (
+  mode: TimestampMode,
+  customTimestamp: string
+): number | undefined => {
+  if (mode === 'backfill') return undefined;
+  if (mode === 'now') return Math.floor(Date.now() / 1000);
+  return customTimestamp
+    ? Math.floor(new Date(customTimestamp).getTime() / 1000)
+    : undefined;
+};
+
 const ScrobblePage: React.FC = () => {
   const { authStatus, setAuthStatus } = useAuth();
   const { state } = useApp();
@@ -27,12 +51,24 @@ const ScrobblePage: React.FC = () => {
   const [preparedTracks, setPreparedTracks] = useState<ScrobbleTrack[]>([]);
   const [selectedTracks, setSelectedTracks] = useState<Set<number>>(new Set());
   const [customTimestamp, setCustomTimestamp] = useState<string>('');
-  const [useCurrentTime, setUseCurrentTime] = useState(true);
+  const [timestampMode, setTimestampMode] = useState<TimestampMode>('now');
+  const useCurrentTime = timestampMode === 'now';
+  const [backfillPresets, setBackfillPresets] = useState<BackfillPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string>('');
+  const [backfillPlan, setBackfillPlan] = useState<BackfillPlan | null>(null);
+  const [planningBackfill, setPlanningBackfill] = useState(false);
+  const [conflictReport, setConflictReport] =
+    useState<ScrobbleConflictReport | null>(null);
+  const [shiftingConflicts, setShiftingConflicts] = useState(false);
+  const [conflictShiftSeconds, setConflictShiftSeconds] = useState<
+    number | null
+  >(null);
   const [scrobbling, setScrobbling] = useState(false);
   const [progress, setProgress] = useState<ScrobbleProgress | null>(null);
   const [results, setResults] = useState<{
     success: number;
     failed: number;
+    queued?: number;
     errors?: string[];
   } | null>(null);
   const [error, setError] = useState<string>('');
@@ -66,6 +102,47 @@ const ScrobblePage: React.FC = () => {
     }
   }, []);
 
+  useEffect(() => {
+    const tracksToCheck = preparedTracks.filter((_, index) =>
+      selectedTracks.has(index)
+    );
+    if (
+      tracksToCheck.length === 0 ||
+      (timestampMode === 'backfill' && !backfillPlan)
+    ) {
+      setConflictReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const report = await api.checkScrobbleConflicts(
+          tracksToCheck,
+          resolveBaseTimestamp(timestampMode, customTimestamp)
+        );
+        if (!cancelled) {
+          setConflictReport(report);
+        }
+      } catch (error) {
+        // Conflict checks are advisory and never block scrobbling
+        logger.warn('Error checking scrobble conflicts', error);
+      }
+    }, CONFLICT_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    api,
+    preparedTracks,
+    selectedTracks,
+    timestampMode,
+    customTimestamp,
+    backfillPlan,
+  ]);
+
   const checkAuthStatus = async () => {
     try {
       const status = await api.getAuthStatus();
@@ -119,6 +196,105 @@ const ScrobblePage: React.FC = () => {
     }
   };
 
+  // Drop planned or shifted timestamps so the batch uses the chosen base time
+  const clearTrackTimestamps = () => {
+    setConflictShiftSeconds(null);
+    setPreparedTracks(prev =>
+      prev.map(track => ({ ...track, timestamp: undefined }))
+    );
+  };
+
+  const handleTimestampModeChange = async (mode: TimestampMode) => {
+    if (timestampMode === 'backfill' && mode !== 'backfill') {
+      setBackfillPlan(null);
+      clearTrackTimestamps();
+    } else if (conflictShiftSeconds !== null) {
+      clearTrackTimestamps();
+    }
+    setTimestampMode(mode);
+
+    if (mode === 'backfill' && backfillPresets.length === 0) {
+      try {
+        const presets = await api.getBackfillPresets();
+        setBackfillPresets(presets);
+        if (presets.length > 0) {
+          setSelectedPresetId(presets[0].id);
+        }
+      } catch (error) {
+        logger.error('Error loading backfill presets', error);
+        setError('Failed to load backfill windows');
+      }
+    }
+  };
+
+  const handlePlanBackfill = async () => {
+    const preset = backfillPresets.find(p => p.id === selectedPresetId);
+    if (!preset) return;
+
+    try {
+      setError('');
+      setPlanningBackfill(true);
+      const plan = await api.planBackfill(selectedAlbums, preset.request);
+      const plannedTracks = plan.albums.flatMap(album => album.tracks);
+      setBackfillPlan(plan);
+      setConflictShiftSeconds(null);
+      setPreparedTracks(plannedTracks);
+      setSelectedTracks(new Set(plannedTracks.map((_, index) => index)));
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to plan backfill'
+      );
+    } finally {
+      setPlanningBackfill(false);
+    }
+  };
+
+  const handleCustomTimestampChange = (value: string) => {
+    if (conflictShiftSeconds !== null) {
+      clearTrackTimestamps();
+    }
+    setCustomTimestamp(value);
+  };
+
+  const handleAutoShift = async () => {
+    const selectedIndices = preparedTracks
+      .map((_, index) => index)
+      .filter(index => selectedTracks.has(index));
+
+    try {
+      setError('');
+      setShiftingConflicts(true);
+      const report = await api.checkScrobbleConflicts(
+        selectedIndices.map(index => preparedTracks[index]),
+        resolveBaseTimestamp(timestampMode, customTimestamp),
+        true
+      );
+      if (!report.autoShift) {
+        setError('No free gap found within a day of the chosen time');
+        return;
+      }
+
+      const shiftedTracks = report.autoShift.tracks;
+      setPreparedTracks(prev =>
+        prev.map((track, index) => {
+          const position = selectedIndices.indexOf(index);
+          return position === -1
+            ? track
+            : { ...track, timestamp: shiftedTracks[position].timestamp };
+        })
+      );
+      setConflictShiftSeconds(
+        (conflictShiftSeconds ?? 0) + report.autoShift.offsetSeconds
+      );
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to shift timestamps'
+      );
+    } finally {
+      setShiftingConflicts(false);
+    }
+  };
+
   const handleTrackSelection = (index: number) => {
     const newSelected = new Set(selectedTracks);
     if (newSelected.has(index)) {
@@ -214,6 +390,10 @@ const ScrobblePage: React.FC = () => {
       setError('Please select at least one track to scrobble');
       return;
     }
+    if (timestampMode === 'backfill' && !backfillPlan) {
+      setError('Plan backfill timestamps before scrobbling');
+      return;
+    }
     // Check for disambiguation warning before proceeding
     await checkDisambiguationWarning();
   };
@@ -234,11 +414,10 @@ const ScrobblePage: React.FC = () => {
         status: 'preparing',
       });
 
-      const baseTimestamp = useCurrentTime
-        ? Math.floor(Date.now() / 1000)
-        : customTimestamp
-          ? Math.floor(new Date(customTimestamp).getTime() / 1000)
-          : undefined;
+      const baseTimestamp = resolveBaseTimestamp(
+        timestampMode,
+        customTimestamp
+      );
 
       setProgress(prev => (prev ? { ...prev, status: 'scrobbling' } : null));
 
@@ -262,6 +441,11 @@ const ScrobblePage: React.FC = () => {
   };
 
   const formatTimestamp = () => {
+    if (timestampMode === 'backfill') {
+      return backfillPlan && backfillPlan.albums.length > 0
+        ? formatLocalTimeClean(new Date(backfillPlan.albums[0].start * 1000))
+        : 'Choose a window and plan timestamps';
+    }
     if (useCurrentTime) {
       return formatLocalTimeClean(new Date());
     } else if (customTimestamp) {
@@ -386,8 +570,8 @@ const ScrobblePage: React.FC = () => {
             <label className='scrobble-radio-label'>
               <input
                 type='radio'
-                checked={useCurrentTime}
-                onChange={() => setUseCurrentTime(true)}
+                checked={timestampMode === 'now'}
+                onChange={() => handleTimestampModeChange('now')}
               />
               Use current time
             </label>
@@ -395,24 +579,130 @@ const ScrobblePage: React.FC = () => {
             <label className='scrobble-radio-label'>
               <input
                 type='radio'
-                checked={!useCurrentTime}
-                onChange={() => setUseCurrentTime(false)}
+                checked={timestampMode === 'custom'}
+                onChange={() => handleTimestampModeChange('custom')}
               />
               Use custom time
             </label>
 
-            {!useCurrentTime && (
+            <label className='scrobble-radio-label'>
+              <input
+                type='radio'
+                checked={timestampMode === 'backfill'}
+                onChange={() => handleTimestampModeChange('backfill')}
+              />
+              Backfill into a past listening window
+            </label>
+
+            {timestampMode === 'custom' && (
               <input
                 type='datetime-local'
                 className='form-input scrobble-datetime-input'
                 value={customTimestamp}
-                onChange={e => setCustomTimestamp(e.target.value)}
+                onChange={e => handleCustomTimestampChange(e.target.value)}
               />
             )}
 
+            {timestampMode === 'backfill' && (
+              <div className='scrobble-backfill-controls'>
+                <select
+                  className='form-select scrobble-backfill-select'
+                  value={selectedPresetId}
+                  onChange={e => setSelectedPresetId(e.target.value)}
+                  aria-label='Backfill window'
+                  disabled={planningBackfill || scrobbling}
+                >
+                  {backfillPresets.map(preset => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.window.label} (from{' '}
+                      {formatLocalTimeClean(
+                        new Date(preset.window.suggestedStart * 1000)
+                      )}
+                      )
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  size='small'
+                  onClick={handlePlanBackfill}
+                  disabled={
+                    !selectedPresetId ||
+                    planningBackfill ||
+                    scrobbling ||
+                    preparingTracks
+                  }
+                >
+                  {planningBackfill ? 'Planning...' : 'Plan Timestamps'}
+                </Button>
+              </div>
+            )}
+
+            {timestampMode === 'backfill' && backfillPlan && (
+              <div className='scrobble-backfill-preview'>
+                <ul className='scrobble-backfill-list'>
+                  {backfillPlan.albums.map(album => (
+                    <li
+                      key={album.releaseId}
+                      className='scrobble-backfill-item'
+                    >
+                      <strong>{album.album}</strong>{' '}
+                      {formatLocalTimeClean(new Date(album.start * 1000))} –{' '}
+                      {formatLocalTimeClean(new Date(album.end * 1000))}
+                    </li>
+                  ))}
+                </ul>
+                {(backfillPlan.overflows ||
+                  backfillPlan.window.outsideLastFmWindow ||
+                  backfillPlan.skipped.length > 0 ||
+                  backfillPlan.albums.some(a => a.unknownDurations > 0)) && (
+                  <div className='warning-message scrobble-backfill-warnings'>
+                    <AlertTriangle size={16} aria-hidden='true' />
+                    <ul className='scrobble-backfill-list'>
+                      {backfillPlan.overflows && (
+                        <li>These albums run past the end of the window.</li>
+                      )}
+                      {backfillPlan.window.outsideLastFmWindow && (
+                        <li>Last.fm rejects scrobbles older than 14 days.</li>
+                      )}
+                      {backfillPlan.skipped.length > 0 && (
+                        <li>
+                          {backfillPlan.skipped.length} album(s) skipped: no
+                          tracklist.
+                        </li>
+                      )}
+                      {backfillPlan.albums.some(
+                        a => a.unknownDurations > 0
+                      ) && (
+                        <li>
+                          Some tracks have no known duration and use 3 minutes.
+                        </li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className='scrobble-timestamp-display'>
               Scrobble time: {formatTimestamp()}
             </div>
+
+            {conflictShiftSeconds !== null && conflictShiftSeconds !== 0 && (
+              <div className='scrobble-timestamp-display'>
+                Shifted {Math.round(Math.abs(conflictShiftSeconds) / 60)} min{' '}
+                {conflictShiftSeconds < 0 ? 'earlier' : 'later'} to avoid
+                existing scrobbles
+              </div>
+            )}
+
+            {conflictReport && (
+              <ScrobbleConflictWarning
+                report={conflictReport}
+                onAutoShift={handleAutoShift}
+                shifting={shiftingConflicts}
+                disabled={scrobbling || planningBackfill}
+              />
+            )}
           </div>
         </div>
 
@@ -501,6 +791,12 @@ const ScrobblePage: React.FC = () => {
                   {results.failed} tracks
                 </div>
               )}
+              {!!results.queued && (
+                <div className='scrobble-result-queued'>
+                  <Clock size={14} aria-hidden='true' /> Queued for automatic
+                  retry: {results.queued} tracks
+                </div>
+              )}
               {results.errors && results.errors.length > 0 && (
                 <details className='scrobble-error-details'>
                   <summary>View Errors</summary>
@@ -1,9 +1,10 @@
 import { AlertTriangle } from 'lucide-react';
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 
 import './MarketplacePage.page.css';
 
 import { MonitoredSeller, SellerScanStatus } from '../../shared/types';
+import DiscogsBudgetStatus from '../components/DiscogsBudgetStatus';
 import SellerCard from '../components/SellerCard';
 import { Modal, ModalFooter } from '../components/ui';
 import { Button } from '../components/ui/Button';
@@ -12,21 +13,19 @@ import { ListItemSkeleton } from '../components/ui/Skeleton';
 import { useApp } from '../context/AppContext';
 import { useToast } from '../context/ToastContext';
 import { useConfirmModal } from '../hooks/useConfirmModal';
-import {
-  useNotifications,
-  createSuccessNotification,
-  createInfoNotification,
-} from '../hooks/useNotifications';
+import { useServerEvent } from '../hooks/useServerEvents';
 import { navigate } from '../routes';
 import { getApiService } from '../services/api';
 
+const isScanActive = (status: SellerScanStatus | null): boolean =>
+  status?.status === 'scanning' || status?.status === 'matching';
+
 interface SellersPageProps {
   embedded?: boolean;
 }
 
 const SellersPage: React.FC<SellersPageProps> = ({ embedded = false }) => {
   const { state } = useApp();
-  const { addNotification } = useNotifications();
   const { showToast } = useToast();
   const [confirmAction, ConfirmModal] = useConfirmModal();
   const api = getApiService(state.serverUrl);
@@ -36,6 +35,7 @@ const SellersPage: React.FC<SellersPageProps> = ({ embedded = false }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [scanStatus, setScanStatus] = useState<SellerScanStatus | null>(null);
+  const scanningRef = useRef(false);
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [newSellerUsername, setNewSellerUsername] = useState('');
   const [newSellerDisplayName, setNewSellerDisplayName] = useState('');
@@ -101,81 +101,42 @@ const SellersPage: React.FC<SellersPageProps> = ({ embedded = false }) => {
     checkWishlist();
   }, [loadSellers, checkWishlist]);
 
-  // Poll scan status while scanning or matching
-  useEffect(() => {
-    if (
-      scanStatus?.status === 'scanning' ||
-      scanStatus?.status === 'matching'
-    ) {
-      const interval = setInterval(async () => {
-        try {
-          const status = await api.getSellerScanStatus();
-          setScanStatus(status);
-
-          // If scan completed, reload sellers to get updated counts
-          if (
-            status.status === 'completed' ||
-            status.status === 'error' ||
-            status.status === 'cancelled'
-          ) {
-            loadSellers();
-
-            // Check for new matches to notify
-            if (status.status === 'completed' && status.newMatches > 0) {
-              // Check if notifications are enabled in settings
-              const settings = await api.getSellerSettings();
-              if (!settings.notifyOnNewMatch) {
-                // Notifications disabled - skip notification creation
-                return;
-              }
+  const applyScanStatus = useCallback(
+    (status: SellerScanStatus) => {
+      const wasScanning = scanningRef.current;
+      scanningRef.current = isScanActive(status);
+      setScanStatus(status);
 
-              // Load matches and create notifications for unnotified ones
-              const matches = await api.getSellerMatches();
-              const unnotified = matches.filter(
-                m => !m.notified && m.status === 'active'
-              );
-
-              // Create notifications for up to 5 matches
-              const toNotify = unnotified.slice(0, 5);
-              for (const match of toNotify) {
-                const seller = sellers.find(
-                  s => s.username.toLowerCase() === match.sellerId.toLowerCase()
-                );
-                const sellerName = seller?.displayName || match.sellerId;
-
-                addNotification(
-                  createSuccessNotification(
-                    'Wishlist item at local seller!',
-                    `${match.artist} - ${match.title} at ${sellerName} for ${formatPrice(match.price, match.currency)}`,
-                    {
-                      label: 'View',
-                      route: 'marketplace?tab=matches',
-                    }
-                  )
-                );
-              }
+      // If scan completed, reload sellers to get updated counts. The server
+      // raises notifications for any new matches.
+      if (
+        wasScanning &&
+        (status.status === 'completed' ||
+          status.status === 'error' ||
+          status.status === 'cancelled')
+      ) {
+        loadSellers();
+      }
+    },
+    [loadSellers]
+  );
 
-              // If more than 5, add a summary notification
-              if (unnotified.length > 5) {
-                addNotification(
-                  createInfoNotification(
-                    `+${unnotified.length - 5} more matches`,
-                    'View all matches on the Seller Matches page',
-                    {
-                      label: 'View All',
-                      route: 'marketplace?tab=matches',
-                    }
-                  )
-                );
-              }
+  const scanActive = isScanActive(scanStatus);
+  useEffect(() => {
+    scanningRef.current = scanActive;
+  }, [scanActive]);
 
-              // Mark ALL unnotified matches as notified (not just the 5 we showed)
-              // This prevents them from accumulating forever
-              for (const match of unnotified) {
-                await api.markMatchAsNotified(match.id);
-              }
-            }
-          }
+  const streamConnected = useServerEvent('scan-progress', event => {
+    if (event.scan === 'seller') applyScanStatus(event.status);
+  });
+
+  // Poll scan status while scanning or matching, unless the event stream
+  // is pushing updates
+  useEffect(() => {
+    if (scanActive && !streamConnected) {
+      const interval = setInterval(async () => {
+        try {
+          applyScanStatus(await api.getSellerScanStatus());
         } catch {
           // Ignore polling errors
         }
@@ -183,7 +144,7 @@ const SellersPage: React.FC<SellersPageProps> = ({ embedded = false }) => {
 
       return () => clearInterval(interval);
     }
-  }, [scanStatus?.status, api, loadSellers, addNotification, sellers]);
+  }, [scanActive, streamConnected, api, applyScanStatus]);
 
   // Handle add seller
   const handleAddSeller = async () => {
@@ -332,14 +293,6 @@ const SellersPage: React.FC<SellersPageProps> = ({ embedded = false }) => {
     }
   };
 
-  // Format price
-  const formatPrice = (price: number, currency: string): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency || 'USD',
-    }).format(price);
-  };
-
   // Format relative time
   const formatRelativeTime = (timestamp: number): string => {
     const now = Date.now();
@@ -595,6 +548,7 @@ const SellersPage: React.FC<SellersPageProps> = ({ embedded = false }) => {
               )}
             </div>
           )}
+          <DiscogsBudgetStatus />
           {scanStatus.newMatches > 0 && (
             <div className='sellers-scan-matches-found'>
               {scanStatus.newMatches} new match
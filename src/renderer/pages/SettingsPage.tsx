@@ -1,5 +1,7 @@
 import {
   ArrowLeftRight,
+  Bell,
+  CalendarClock,
   Database,
   Eye,
   Link2,
@@ -17,6 +19,8 @@ import {
   SettingsFiltersSection,
   SettingsWishlistSection,
   SettingsBackupSection,
+  SettingsNotificationsSection,
+  SettingsScheduleSection,
 } from '../components/settings';
 import { useApp } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
@@ -32,6 +36,8 @@ type SettingsTab =
   | 'mappings'
   | 'filters'
   | 'wishlist'
+  | 'notifications'
+  | 'schedule'
   | 'backup';
 
 interface TabConfig {
@@ -72,6 +78,18 @@ const TABS: TabConfig[] = [
     icon: <Music size={16} aria-hidden='true' />,
     description: 'Wishlist & sellers',
   },
+  {
+    id: 'notifications',
+    label: 'Notifications',
+    icon: <Bell size={16} aria-hidden='true' />,
+    description: 'Alerts raised by the server',
+  },
+  {
+    id: 'schedule',
+    label: 'Schedule',
+    icon: <CalendarClock size={16} aria-hidden='true' />,
+    description: 'Automatic syncs, scans & backups',
+  },
   {
     id: 'backup',
     label: 'Backup',
@@ -183,6 +201,10 @@ const SettingsPage: React.FC = () => {
         return <SettingsFiltersSection api={api} />;
       case 'wishlist':
         return <SettingsWishlistSection api={api} />;
+      case 'notifications':
+        return <SettingsNotificationsSection api={api} />;
+      case 'schedule':
+        return <SettingsScheduleSection api={api} />;
       case 'backup':
         return <SettingsBackupSection api={api} />;
       default:
@@ -4,18 +4,22 @@ import React, { useEffect, useState, useCallback } from 'react';
 import './SuggestionsPage.page.css';
 
 import {
+  CollectionScope,
   SuggestionResult,
   SuggestionSettings,
   SuggestionWeights,
   AISuggestion,
 } from '../../shared/types';
 import AISuggestionCard from '../components/AISuggestionCard';
+import CollectionScopeControls from '../components/CollectionScopeControls';
 import SuggestionCard from '../components/SuggestionCard';
 import SuggestionWeightControls from '../components/SuggestionWeightControls';
 import { Button } from '../components/ui/Button';
 import { EmptyState } from '../components/ui/EmptyState';
 import { AlbumCardSkeleton } from '../components/ui/Skeleton';
 import { useApp } from '../context/AppContext';
+import { useCollectionScopeOptions } from '../hooks/useCollectionScopeOptions';
+import { useShelfLocations } from '../hooks/useShelfLocations';
 import { navigate } from '../routes';
 import { getApiService } from '../services/api';
 import { createLogger } from '../utils/logger';
@@ -38,6 +42,8 @@ const SuggestionsPage: React.FC<SuggestionsPageProps> = ({
     useState<SuggestionWeights | null>(null);
   const [showWeightControls, setShowWeightControls] = useState(false);
   const [savingSettings, setSavingSettings] = useState(false);
+  const { folders, fields } = useCollectionScopeOptions();
+  const { byItemId: shelfLocations } = useShelfLocations();
 
   // AI suggestion state
   const [aiEnabled, setAiEnabled] = useState(false);
@@ -192,6 +198,20 @@ const SuggestionsPage: React.FC<SuggestionsPageProps> = ({
     }
   };
 
+  const handleScopeChange = async (collectionScope: CollectionScope) => {
+    if (!settings) return;
+
+    const newSettings = { ...settings, collectionScope };
+    setSettings(newSettings);
+
+    try {
+      await api.saveSuggestionSettings(newSettings);
+      await loadSuggestions();
+    } catch (err) {
+      logger.error('Failed to save collection scope', err);
+    }
+  };
+
   return (
     <div className='suggestions-page'>
       <div className='suggestions-header'>
@@ -209,6 +229,19 @@ const SuggestionsPage: React.FC<SuggestionsPageProps> = ({
         </div>
       </div>
 
+      {settings && (folders.length > 0 || fields.length > 0) && (
+        <div className='suggestions-scope'>
+          <span className='suggestions-scope-label'>Suggest from:</span>
+          <CollectionScopeControls
+            scope={settings.collectionScope ?? {}}
+            onChange={handleScopeChange}
+            folders={folders}
+            fields={fields}
+            idPrefix='suggestions-scope'
+          />
+        </div>
+      )}
+
       {showWeightControls && settings && (
         <div className='suggestions-weight-panel'>
           <SuggestionWeightControls
@@ -307,6 +340,7 @@ const SuggestionsPage: React.FC<SuggestionsPageProps> = ({
                   suggestion={suggestion}
                   onDismiss={handleDismiss}
                   showScore={showWeightControls}
+                  shelfLocation={shelfLocations.get(suggestion.album.id)}
                 />
               ))}
             </div>
@@ -12,7 +12,13 @@ import {
   Trash2,
   X,
 } from 'lucide-react';
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 
 import './WebsitesPage.page.css';
 
@@ -31,6 +37,7 @@ import { ListItemSkeleton } from '../components/ui/Skeleton';
 import { useApp } from '../context/AppContext';
 import { useToast } from '../context/ToastContext';
 import { useConfirmModal } from '../hooks/useConfirmModal';
+import { useServerEvent } from '../hooks/useServerEvents';
 import { getApiService } from '../services/api';
 
 interface WebsitesPageProps {
@@ -73,6 +80,7 @@ const WebsitesPage: React.FC<WebsitesPageProps> = ({ embedded = false }) => {
   const [websites, setWebsites] = useState<MonitoredWebsite[]>([]);
   const [items, setItems] = useState<WebsiteItem[]>([]);
   const [scanStatus, setScanStatus] = useState<WebsiteScanStatus | null>(null);
+  const scanningRef = useRef(false);
   const [settings, setSettings] = useState<WebsiteMonitoringSettings | null>(
     null
   );
@@ -255,38 +263,58 @@ const WebsitesPage: React.FC<WebsitesPageProps> = ({ embedded = false }) => {
     [api, showToast]
   );
 
-  // Poll while scanning
+  const applyScanStatus = useCallback(
+    async (next: WebsiteScanStatus) => {
+      const wasScanning = scanningRef.current;
+      scanningRef.current = next.status === 'scanning';
+      setScanStatus(next);
+      if (!wasScanning || next.status === 'scanning') return;
+
+      try {
+        const [websitesData, itemsData] = await Promise.all([
+          api.getWebsites(),
+          api.getWebsiteItems(),
+        ]);
+        setWebsites(websitesData);
+        setItems(itemsData);
+      } catch {
+        // Ignore refresh errors
+      }
+      if (next.status === 'completed') {
+        const found = next.itemsFound ?? 0;
+        showToast(
+          'success',
+          found > 0
+            ? `Scan complete — ${found} new item${found !== 1 ? 's' : ''} found`
+            : 'Scan complete — no new items'
+        );
+      } else if (next.status === 'error') {
+        showToast('error', next.error || 'Website scan failed');
+      }
+    },
+    [api, showToast]
+  );
+
   useEffect(() => {
-    if (scanStatus?.status !== 'scanning') return undefined;
+    scanningRef.current = scanStatus?.status === 'scanning';
+  }, [scanStatus?.status]);
+
+  const streamConnected = useServerEvent('scan-progress', event => {
+    if (event.scan === 'website') void applyScanStatus(event.status);
+  });
+
+  // Poll while scanning, unless the event stream is pushing updates
+  useEffect(() => {
+    if (scanStatus?.status !== 'scanning' || streamConnected) return undefined;
     const id = window.setInterval(async () => {
       try {
-        const next = await api.getWebsiteScanStatus();
-        setScanStatus(next);
-        if (next.status !== 'scanning') {
-          const [websitesData, itemsData] = await Promise.all([
-            api.getWebsites(),
-            api.getWebsiteItems(),
-          ]);
-          setWebsites(websitesData);
-          setItems(itemsData);
-          if (next.status === 'completed') {
-            const found = next.itemsFound ?? 0;
-            showToast(
-              'success',
-              found > 0
-                ? `Scan complete — ${found} new item${found !== 1 ? 's' : ''} found`
-                : 'Scan complete — no new items'
-            );
-          } else if (next.status === 'error') {
-            showToast('error', next.error || 'Website scan failed');
-          }
-        }
+        await applyScanStatus(await api.getWebsiteScanStatus());
       } catch {
         // Ignore polling errors
       }
     }, 2500);
     return () => window.clearInterval(id);
-  }, [scanStatus?.status, api, showToast]);
+  }, [scanStatus?.status, streamConnected, api, applyScanStatus]);
 
   const openAddDialog = () => {
     setForm(EMPTY_FORM);
@@ -3,11 +3,16 @@ import React, { useState, useCallback, useMemo } from 'react';
 
 import './WrappedPage.page.css';
 
-import { WrappedData } from '../../shared/types';
+import {
+  WrappedCompareMode,
+  WrappedComparison,
+  WrappedData,
+} from '../../shared/types';
 import { Button } from '../components/ui/Button';
 import { EmptyState } from '../components/ui/EmptyState';
 import { ProgressBar } from '../components/ui/ProgressBar';
 import { Skeleton } from '../components/ui/Skeleton';
+import WrappedExportPanel from '../components/wrapped/WrappedExportPanel';
 import WrappedSlideshow from '../components/wrapped/WrappedSlideshow';
 import { getApiService } from '../services/api';
 import { createLogger } from '../utils/logger';
@@ -21,6 +26,12 @@ interface DatePreset {
 
 const WrappedPage: React.FC = () => {
   const [wrappedData, setWrappedData] = useState<WrappedData | null>(null);
+  const [comparison, setComparison] = useState<WrappedComparison | null>(null);
+  const [compareTo, setCompareTo] = useState<WrappedCompareMode | ''>('');
+  const [wrappedRange, setWrappedRange] = useState<{
+    start: number;
+    end: number;
+  } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSlideshow, setShowSlideshow] = useState(false);
@@ -85,11 +96,24 @@ const WrappedPage: React.FC = () => {
       setLoading(true);
       setError(null);
       setWrappedData(null);
+      setComparison(null);
 
       try {
         const api = getApiService();
-        const data = await api.getWrapped(startDate, endDate);
+        let data: WrappedData;
+        if (compareTo) {
+          const result = await api.getWrappedComparison(
+            startDate,
+            endDate,
+            compareTo
+          );
+          data = result.current;
+          setComparison(result);
+        } else {
+          data = await api.getWrapped(startDate, endDate);
+        }
         setWrappedData(data);
+        setWrappedRange({ start: startDate, end: endDate });
 
         if (data.listening.totalScrobbles === 0) {
           setError('No listening data found for this period.');
@@ -103,7 +127,7 @@ const WrappedPage: React.FC = () => {
         setLoading(false);
       }
     },
-    []
+    [compareTo]
   );
 
   const handlePresetClick = useCallback(
@@ -142,7 +166,13 @@ const WrappedPage: React.FC = () => {
 
   // Slideshow mode
   if (showSlideshow && wrappedData) {
-    return <WrappedSlideshow data={wrappedData} onExit={handleExitSlideshow} />;
+    return (
+      <WrappedSlideshow
+        data={wrappedData}
+        comparison={comparison}
+        onExit={handleExitSlideshow}
+      />
+    );
   }
 
   // Date picker mode
@@ -154,6 +184,25 @@ const WrappedPage: React.FC = () => {
           Choose a time period to generate your personal listening recap.
         </p>
 
+        <div className='wrapped-compare-section'>
+          <label className='wrapped-date-label'>
+            Compare with:
+            <select
+              className='form-select wrapped-compare-select'
+              value={compareTo}
+              onChange={e =>
+                setCompareTo(e.target.value as WrappedCompareMode | '')
+              }
+              disabled={loading}
+              aria-label='Compare with'
+            >
+              <option value=''>No comparison</option>
+              <option value='previous'>Previous period</option>
+              <option value='lastYear'>Same period last year</option>
+            </select>
+          </label>
+        </div>
+
         <div className='wrapped-presets-section'>
           <h3 className='wrapped-section-label'>Quick Presets</h3>
           <div className='wrapped-preset-buttons'>
@@ -220,6 +269,25 @@ const WrappedPage: React.FC = () => {
           </div>
         )}
 
+        {wrappedData &&
+          wrappedRange &&
+          wrappedData.listening.totalScrobbles > 0 &&
+          !loading && (
+            <>
+              <Button
+                variant='primary'
+                size='medium'
+                onClick={() => setShowSlideshow(true)}
+              >
+                Replay Slideshow
+              </Button>
+              <WrappedExportPanel
+                startDate={wrappedRange.start}
+                endDate={wrappedRange.end}
+              />
+            </>
+          )}
+
         {error && !loading && (
           <EmptyState
             icon={<Music size={48} aria-hidden='true' />}
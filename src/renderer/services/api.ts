@@ -6,21 +6,31 @@ import {
   AlbumMapping,
   AlbumPlayCountResponse,
   ApiResponse,
+  AppNotification,
   ArtistDisambiguationStatus,
   ArtistMapping,
   ArtistMbidMapping,
   AuthStatus,
   AutoBackupInfo,
+  BackfillPlan,
+  BackfillPreset,
+  BackfillWindowRequest,
   BackupExportOptions,
   BackupImportOptions,
   BackupImportPreview,
   BackupImportResult,
   BackupPreview,
   BackupSettings,
+  BarcodeLookupResult,
   CollectionArtist,
+  CollectionChange,
+  CollectionChangeType,
+  CollectionCustomField,
   CollectionFilterPreset,
+  CollectionFolder,
   CollectionItem,
   DashboardData,
+  DiscogsBudget,
   DiscogsCollectionProgress,
   DiscogsUserIdentity,
   DiscardPileItem,
@@ -31,18 +41,25 @@ import {
   EnrichedWishlistItem,
   EntireCollectionResponse,
   ExcludedArtistResponse,
+  FailedQueuedScrobble,
   ForgottenTrack,
   HiddenAlbum,
   HiddenArtist,
   HiddenRelease,
+  HistoryImportFormat,
+  HistoryImportPreview,
+  HistoryImportResult,
+  Job,
   LabelMonitoringSettings,
   LabelRelease,
   LabelScanStatus,
   LastFmConnectionTestResult,
   LastFmRecentTrack,
+  LastFmRemovalGuide,
   LastFmSessionKeyInfo,
   LastFmTopArtist,
   LastFmTopTrack,
+  ListeningPatterns,
   LocalWantItem,
   MarketplaceStats,
   MissingAlbum,
@@ -52,20 +69,41 @@ import {
   MonitoredWebsite,
   MusicBrainzArtistMatch,
   NewReleaseSyncStatus,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationRuleId,
+  NotificationRuleSettings,
+  QueuedScrobble,
+  RecognizerDeviceRegistration,
+  RecognizerDeviceSummary,
   RecommendationResult,
   RecommendationSettings,
+  ReleaseSideMemory,
   ReleaseTrackingSyncStatus,
   ReleaseVersion,
   SavedCollection,
   SavedCollectionTrack,
+  ScheduledTask,
+  ScheduledTaskId,
+  ScheduledTaskSettings,
+  SchedulerSettings,
   ScrobbleArtistMapping,
   ScrobbleArtistMappingStats,
+  ScrobbleConflictReport,
+  ScrobbleQueueDrainResult,
+  ScrobbleQueueStatus,
   ScrobbleTrack,
   ScrobbleSession,
+  ScrobbleSource,
+  ScrobbleUndoResult,
   SellerMatch,
   SellerMatchesResponse,
   SellerMonitoringSettings,
   SellerScanStatus,
+  ShelfImportResult,
+  ShelfLocation,
+  ShelfLocationEntry,
+  ShelfLocationSaveResult,
   SuggestionResult,
   SuggestionSettings,
   SyncSettings,
@@ -74,15 +112,25 @@ import {
   TrackMapping,
   TrackSearchResult,
   UpdateDiscardPileItemRequest,
+  UserProfile,
+  VinylSide,
   WebsiteItem,
   WebsiteMonitoringSettings,
   WebsiteScanStatus,
   WishlistNewRelease,
   WishlistSettings,
   WishlistSyncStatus,
+  WrappedCompareMode,
+  WrappedComparison,
   WrappedData,
+  WrappedExportCard,
 } from '../../shared/types';
 import { createLogger } from '../utils/logger';
+import {
+  DEFAULT_PROFILE_ID,
+  PROFILE_HEADER,
+  getActiveProfileId,
+} from '../utils/profileUtils';
 
 const log = createLogger('ApiService');
 
@@ -102,10 +150,14 @@ class ApiService {
       },
     });
 
-    // Request interceptor for logging
+    // Request interceptor for logging and the active profile
     this.api.interceptors.request.use(
       config => {
         log.debug(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+        const profileId = getActiveProfileId();
+        if (profileId !== DEFAULT_PROFILE_ID) {
+          config.headers.set(PROFILE_HEADER, profileId);
+        }
         return config;
       },
       error => {
@@ -208,6 +260,21 @@ class ApiService {
     return response.data.data;
   }
 
+  async connectListenBrainz(token: string): Promise<{ username: string }> {
+    const response = await this.api.post('/auth/listenbrainz/token', {
+      token,
+    });
+    return response.data.data;
+  }
+
+  async setListenBrainzEnabled(enabled: boolean): Promise<void> {
+    await this.api.patch('/auth/listenbrainz', { enabled });
+  }
+
+  async disconnectListenBrainz(): Promise<void> {
+    await this.api.delete('/auth/listenbrainz');
+  }
+
   async clearAuth(): Promise<void> {
     await this.api.post('/auth/clear');
   }
@@ -338,6 +405,143 @@ class ApiService {
     return response.data;
   }
 
+  async getCollectionChanges(
+    username: string,
+    options: {
+      type?: CollectionChangeType;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ changes: CollectionChange[]; total: number }> {
+    const response = await this.api.get(`/collection/${username}/changes`, {
+      params: options,
+    });
+    return { changes: response.data.data, total: response.data.total };
+  }
+
+  async getCollectionFolders(username: string): Promise<CollectionFolder[]> {
+    const response = await this.api.get(`/collection/${username}/folders`);
+    return response.data.data;
+  }
+
+  async getCollectionFields(
+    username: string
+  ): Promise<CollectionCustomField[]> {
+    const response = await this.api.get(`/collection/${username}/fields`);
+    return response.data.data;
+  }
+
+  // Collection write-back. A 409 response carries the live instance in
+  // `response.data.data` when Discogs has a different value.
+  async getCollectionInstance(
+    username: string,
+    instanceId: number
+  ): Promise<CollectionItem> {
+    const response = await this.api.get(
+      `/collection/${username}/instances/${instanceId}`
+    );
+    return response.data.data;
+  }
+
+  async setCollectionRating(
+    username: string,
+    instanceId: number,
+    rating: number,
+    expected?: number
+  ): Promise<CollectionItem> {
+    const response = await this.api.put(
+      `/collection/${username}/instances/${instanceId}/rating`,
+      { rating, expected }
+    );
+    return response.data.data;
+  }
+
+  async setCollectionFieldValue(
+    username: string,
+    instanceId: number,
+    fieldId: number,
+    value: string,
+    expected?: string
+  ): Promise<CollectionItem> {
+    const response = await this.api.put(
+      `/collection/${username}/instances/${instanceId}/fields/${fieldId}`,
+      { value, expected }
+    );
+    return response.data.data;
+  }
+
+  async moveCollectionInstance(
+    username: string,
+    instanceId: number,
+    folderId: number,
+    expected?: number
+  ): Promise<CollectionItem> {
+    const response = await this.api.put(
+      `/collection/${username}/instances/${instanceId}/folder`,
+      { folderId, expected }
+    );
+    return response.data.data;
+  }
+
+  async removeCollectionInstance(
+    username: string,
+    instanceId: number
+  ): Promise<void> {
+    await this.api.delete(`/collection/${username}/instances/${instanceId}`);
+  }
+
+  // Shelf location methods
+  async getShelfLocations(): Promise<ShelfLocationEntry[]> {
+    const response = await this.api.get('/shelf/locations');
+    return response.data.data;
+  }
+
+  async getShelfSettings(): Promise<{ syncFieldId: number | null }> {
+    const response = await this.api.get('/shelf/settings');
+    return response.data.data;
+  }
+
+  async setShelfSyncField(syncFieldId: number | null): Promise<void> {
+    await this.api.put('/shelf/settings', { syncFieldId });
+  }
+
+  async setShelfLocation(
+    username: string,
+    instanceId: number,
+    location: ShelfLocation
+  ): Promise<ShelfLocationSaveResult> {
+    const response = await this.api.put(
+      `/shelf/${username}/locations/${instanceId}`,
+      location
+    );
+    return response.data.data;
+  }
+
+  async clearShelfLocation(
+    username: string,
+    instanceId: number
+  ): Promise<ShelfLocationSaveResult> {
+    const response = await this.api.delete(
+      `/shelf/${username}/locations/${instanceId}`
+    );
+    return response.data.data;
+  }
+
+  async importShelfLocations(username: string): Promise<ShelfImportResult> {
+    const response = await this.api.post(`/shelf/${username}/import`);
+    return response.data.data;
+  }
+
+  async lookupBarcode(
+    username: string,
+    barcode: string
+  ): Promise<BarcodeLookupResult> {
+    const response = await this.api.get(
+      `/shelf/${username}/barcode/${encodeURIComponent(barcode)}`
+    );
+    return response.data.data;
+  }
+
   // Scrobbling methods
   async scrobbleTrack(track: ScrobbleTrack): Promise<void> {
     await this.api.post('/scrobble/track', track);
@@ -350,11 +554,14 @@ class ApiService {
       releaseId: number;
       artist: string;
       album: string;
-    }
+      sides?: string[]; // vinyl sides played, remembered for next time
+    },
+    source?: ScrobbleSource
   ): Promise<{
     success: number;
     failed: number;
     ignored: number;
+    queued: number;
     errors: string[];
     failedTracks: ScrobbleTrack[];
     sessionId: string;
@@ -365,6 +572,7 @@ class ApiService {
         tracks,
         baseTimestamp,
         collectionRelease,
+        source,
       },
       {
         timeout: 300000, // 5 minutes — each track can take 10s+ with Last.fm retries
@@ -382,6 +590,7 @@ class ApiService {
       success: number;
       failed: number;
       ignored: number;
+      queued?: number;
     };
     error?: string;
   }> {
@@ -389,13 +598,20 @@ class ApiService {
     return response.data.data;
   }
 
+  /**
+   * Lay out timestamps for tracks of a release. Tracks can be picked by
+   * index, or by vinyl side or disc through `options`; `options.endTime`
+   * times the play to finish then instead of starting at `startTime`.
+   */
   async prepareTracksFromRelease(
     release: DiscogsRelease,
     selectedTracks?: number[],
-    startTime?: number
+    startTime?: number,
+    options?: { sides?: string[]; disc?: number; endTime?: number }
   ): Promise<{
     tracks: ScrobbleTrack[];
     release: DiscogsRelease;
+    sides: VinylSide[];
     startTime: number;
     totalDuration: number;
   }> {
@@ -403,10 +619,16 @@ class ApiService {
       release,
       selectedTracks,
       startTime,
+      ...options,
     });
     return response.data.data;
   }
 
+  async getSideMemory(releaseId: number): Promise<ReleaseSideMemory | null> {
+    const response = await this.api.get(`/scrobble/side-memory/${releaseId}`);
+    return response.data.data;
+  }
+
   async getScrobbleHistory(): Promise<ScrobbleSession[]> {
     const response = await this.api.get('/scrobble/history');
     return response.data.data;
@@ -422,6 +644,16 @@ class ApiService {
     return response.data.data;
   }
 
+  async undoScrobbleSession(sessionId: string): Promise<ScrobbleUndoResult> {
+    const response = await this.api.post(`/scrobble/session/${sessionId}/undo`);
+    return response.data.data;
+  }
+
+  async getScrobbleUndoGuide(sessionId: string): Promise<LastFmRemovalGuide> {
+    const response = await this.api.get(`/scrobble/session/${sessionId}/undo`);
+    return response.data.data;
+  }
+
   async resubmitScrobbleSession(sessionId: string): Promise<{
     message: string;
     results: {
@@ -455,6 +687,110 @@ class ApiService {
     return response.data.data;
   }
 
+  // ============================================
+  // Listening pattern & backfill methods
+  // ============================================
+
+  async getListeningPatterns(): Promise<ListeningPatterns | null> {
+    const response = await this.api.get('/patterns');
+    return response.data.data;
+  }
+
+  async getBackfillPresets(): Promise<BackfillPreset[]> {
+    const response = await this.api.get('/patterns/presets');
+    return response.data.data;
+  }
+
+  async planBackfill(
+    items: CollectionItem[],
+    window: BackfillWindowRequest,
+    gapSeconds?: number
+  ): Promise<BackfillPlan> {
+    const response = await this.api.post(
+      '/patterns/backfill-plan',
+      { items, window, gapSeconds },
+      {
+        timeout: 120000, // release details may need to be fetched from Discogs
+      }
+    );
+    return response.data.data;
+  }
+
+  async checkScrobbleConflicts(
+    tracks: ScrobbleTrack[],
+    baseTimestamp?: number,
+    autoShift: boolean = false
+  ): Promise<ScrobbleConflictReport> {
+    const response = await this.api.post('/patterns/check-conflicts', {
+      tracks,
+      baseTimestamp,
+      autoShift,
+    });
+    return response.data.data;
+  }
+
+  // Recognizer registry methods
+  async getRecognizerDevices(): Promise<RecognizerDeviceSummary[]> {
+    const response = await this.api.get('/recognizers');
+    return response.data.data;
+  }
+
+  async registerRecognizerDevice(
+    name: string
+  ): Promise<RecognizerDeviceRegistration> {
+    const response = await this.api.post('/recognizers', { name });
+    return response.data.data;
+  }
+
+  async setRecognizerDevicePaused(
+    id: string,
+    paused: boolean
+  ): Promise<RecognizerDeviceSummary> {
+    const response = await this.api.patch(
+      `/recognizers/${encodeURIComponent(id)}`,
+      { paused }
+    );
+    return response.data.data;
+  }
+
+  async revokeRecognizerDevice(id: string): Promise<void> {
+    await this.api.delete(`/recognizers/${encodeURIComponent(id)}`);
+  }
+
+  // Scrobble retry queue methods
+  async getScrobbleQueueStatus(): Promise<ScrobbleQueueStatus> {
+    const response = await this.api.get('/scrobble-queue/status');
+    return response.data.data;
+  }
+
+  async getScrobbleQueue(): Promise<{
+    status: ScrobbleQueueStatus;
+    pending: QueuedScrobble[];
+    failed: FailedQueuedScrobble[];
+  }> {
+    const response = await this.api.get('/scrobble-queue');
+    return response.data.data;
+  }
+
+  async retryScrobbleQueue(): Promise<{
+    result: ScrobbleQueueDrainResult;
+    status: ScrobbleQueueStatus;
+  }> {
+    const response = await this.api.post('/scrobble-queue/retry', undefined, {
+      timeout: 300000, // a long queue is delivered one track at a time
+    });
+    return response.data.data;
+  }
+
+  async removeQueuedScrobble(id: string): Promise<void> {
+    await this.api.delete(`/scrobble-queue/${encodeURIComponent(id)}`);
+  }
+
+  async clearFailedScrobbles(): Promise<{ cleared: number }> {
+    const response = await this.api.delete('/scrobble-queue/failed');
+    return response.data.data;
+  }
+
   // Artist mapping methods
   async getArtistMappings(): Promise<{
     mappings: ScrobbleArtistMapping[];
@@ -733,6 +1069,28 @@ class ApiService {
     return response.data.data;
   }
 
+  // ============================================
+  // History import methods
+  // ============================================
+
+  async previewHistoryImport(
+    content: string,
+    format?: HistoryImportFormat
+  ): Promise<HistoryImportPreview> {
+    const response = await this.api.post('/history-import/preview', content, {
+      params: format ? { format } : undefined,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+    return response.data.data;
+  }
+
+  async applyHistoryImport(importId: string): Promise<HistoryImportResult> {
+    const response = await this.api.post(
+      `/history-import/${encodeURIComponent(importId)}/apply`
+    );
+    return response.data.data;
+  }
+
   // ============================================
   // Album history paginated (for History page)
   // ============================================
@@ -959,6 +1317,75 @@ class ApiService {
     return response.data.data;
   }
 
+  /**
+   * Generate wrapped data for a date range along with deltas against an
+   * earlier period.
+   * @param compareTo 'previous' period of the same length or 'lastYear'
+   */
+  async getWrappedComparison(
+    startDate: number,
+    endDate: number,
+    compareTo: WrappedCompareMode
+  ): Promise<WrappedComparison> {
+    const response = await this.api.get('/wrapped/compare', {
+      params: { startDate, endDate, compareTo },
+      timeout: 120000, // Two periods of data aggregation
+    });
+    return response.data.data;
+  }
+
+  /**
+   * Download wrapped as a standalone HTML page.
+   * @param redactHidden Replace names of hidden artists and albums
+   */
+  async exportWrappedHtml(
+    startDate: number,
+    endDate: number,
+    redactHidden: boolean
+  ): Promise<Blob> {
+    const response = await this.api.get('/wrapped/export/html', {
+      params: { startDate, endDate, redactHidden },
+      responseType: 'blob',
+      timeout: 120000, // Generation plus cover downloads
+    });
+    return response.data;
+  }
+
+  /**
+   * List the story cards available for a wrapped period.
+   */
+  async getWrappedCards(
+    startDate: number,
+    endDate: number,
+    redactHidden: boolean
+  ): Promise<WrappedExportCard[]> {
+    const response = await this.api.get('/wrapped/export/cards', {
+      params: { startDate, endDate, redactHidden },
+      timeout: 120000,
+    });
+    return response.data.data;
+  }
+
+  /**
+   * Download one story card as a PNG.
+   */
+  async getWrappedCardImage(
+    startDate: number,
+    endDate: number,
+    cardId: string,
+    redactHidden: boolean
+  ): Promise<Blob> {
+    const response = await this.api.get(
+      `/wrapped/export/cards/${encodeURIComponent(cardId)}`,
+      {
+        params: { startDate, endDate, redactHidden },
+        responseType: 'blob',
+        timeout: 120000,
+      }
+    );
+    return response.data;
+  }
+
   // ============================================
   // Discovery Mapping methods (mark "missing" items as in collection)
   // ============================================
@@ -1436,17 +1863,6 @@ class ApiService {
     return response.data.data;
   }
 
-  async getRateLimitState(): Promise<{
-    limit: number;
-    used: number;
-    remaining: number;
-    isThrottled: boolean;
-    lastUpdated: number;
-  }> {
-    const response = await this.api.get('/sellers/scan/ratelimit');
-    return response.data.data;
-  }
-
   async markMatchAsSeen(matchId: string): Promise<void> {
     await this.api.post(`/sellers/matches/${matchId}/seen`);
   }
@@ -2244,21 +2660,175 @@ class ApiService {
   }
 
   // Job status tracking
-  async getJobStatuses(): Promise<
-    {
-      id: string;
-      type: string;
-      status: string;
-      message: string;
-      error?: string;
-      startedAt: number;
-      completedAt?: number;
-    }[]
-  > {
+  async getJobStatuses(): Promise<Job[]> {
     const response = await this.api.get('/jobs');
     return response.data.data;
   }
 
+  async getJob(id: string): Promise<Job> {
+    const response = await this.api.get(`/jobs/${encodeURIComponent(id)}`);
+    return response.data.data;
+  }
+
+  async getJobHistory(params?: {
+    type?: string;
+    limit?: number;
+  }): Promise<Job[]> {
+    const response = await this.api.get('/jobs/history', { params });
+    return response.data.data;
+  }
+
+  async cancelJob(id: string): Promise<Job> {
+    const response = await this.api.post(
+      `/jobs/${encodeURIComponent(id)}/cancel`
+    );
+    return response.data.data;
+  }
+
+  // ============================================
+  // Notification methods
+  // ============================================
+
+  async getNotifications(): Promise<{
+    notifications: AppNotification[];
+    unreadCount: number;
+  }> {
+    const response = await this.api.get('/notifications');
+    return response.data.data;
+  }
+
+  async createNotification(
+    notification: Omit<AppNotification, 'id' | 'timestamp' | 'read'>
+  ): Promise<AppNotification> {
+    const response = await this.api.post('/notifications', notification);
+    return response.data.data;
+  }
+
+  async importNotifications(
+    notifications: AppNotification[]
+  ): Promise<{ imported: number }> {
+    const response = await this.api.post('/notifications/import', {
+      notifications,
+    });
+    return response.data.data;
+  }
+
+  async markNotificationRead(id: string): Promise<AppNotification> {
+    const response = await this.api.patch(
+      `/notifications/${encodeURIComponent(id)}`,
+      { read: true }
+    );
+    return response.data.data;
+  }
+
+  async markAllNotificationsRead(): Promise<void> {
+    await this.api.post('/notifications/read-all');
+  }
+
+  async deleteNotification(id: string): Promise<void> {
+    await this.api.delete(`/notifications/${encodeURIComponent(id)}`);
+  }
+
+  async clearNotifications(): Promise<void> {
+    await this.api.delete('/notifications');
+  }
+
+  async getNotificationRules(): Promise<
+    Record<NotificationRuleId, NotificationRuleSettings>
+  > {
+    const response = await this.api.get('/notifications/rules');
+    return response.data.data;
+  }
+
+  async updateNotificationRules(
+    rules: Partial<Record<NotificationRuleId, NotificationRuleSettings>>
+  ): Promise<Record<NotificationRuleId, NotificationRuleSettings>> {
+    const response = await this.api.put('/notifications/rules', rules);
+    return response.data.data;
+  }
+
+  async getNotificationChannels(): Promise<NotificationChannel[]> {
+    const response = await this.api.get('/notification-channels');
+    return response.data.data;
+  }
+
+  async createNotificationChannel(
+    channel: NotificationChannelInput
+  ): Promise<NotificationChannel> {
+    const response = await this.api.post('/notification-channels', channel);
+    return response.data.data;
+  }
+
+  async updateNotificationChannel(
+    id: string,
+    channel: NotificationChannelInput
+  ): Promise<NotificationChannel> {
+    const response = await this.api.put(
+      `/notification-channels/${encodeURIComponent(id)}`,
+      channel
+    );
+    return response.data.data;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<void> {
+    await this.api.delete(`/notification-channels/${encodeURIComponent(id)}`);
+  }
+
+  async testNotificationChannel(
+    id: string
+  ): Promise<{ delivered: boolean; error?: string }> {
+    const response = await this.api.post(
+      `/notification-channels/${encodeURIComponent(id)}/test`
+    );
+    return response.data.data;
+  }
+
+  // ============================================
+  // Scheduler methods
+  // ============================================
+
+  async getScheduler(): Promise<{
+    tasks: ScheduledTask[];
+    settings: SchedulerSettings;
+  }> {
+    const response = await this.api.get('/scheduler');
+    return response.data.data;
+  }
+
+  async updateScheduledTask(
+    id: ScheduledTaskId,
+    updates: Partial<ScheduledTaskSettings>
+  ): Promise<ScheduledTask> {
+    const response = await this.api.put(
+      `/scheduler/tasks/${encodeURIComponent(id)}`,
+      updates
+    );
+    return response.data.data;
+  }
+
+  async runScheduledTask(id: ScheduledTaskId): Promise<void> {
+    await this.api.post(`/scheduler/tasks/${encodeURIComponent(id)}/run`);
+  }
+
+  async updateSchedulerSettings(
+    settings: SchedulerSettings
+  ): Promise<SchedulerSettings> {
+    const response = await this.api.put('/scheduler/settings', settings);
+    return response.data.data;
+  }
+
+  // ============================================
+  // Discogs client methods
+  // ============================================
+
+  /**
+   * Shared Discogs rate-limit budget, queue and cache counters
+   */
+  async getDiscogsBudget(): Promise<DiscogsBudget> {
+    const response = await this.api.get('/discogs/budget');
+    return response.data.data;
+  }
+
   // ============================================
   // Recommendations methods
   // ============================================
@@ -2490,6 +3060,29 @@ class ApiService {
     return response.data;
   }
 
+  // Profiles
+  async getProfiles(): Promise<UserProfile[]> {
+    const response = await this.api.get('/profiles');
+    return response.data.data;
+  }
+
+  async createProfile(name: string): Promise<UserProfile> {
+    const response = await this.api.post('/profiles', { name });
+    return response.data.data;
+  }
+
+  async renameProfile(id: string, name: string): Promise<UserProfile> {
+    const response = await this.api.patch(
+      `/profiles/${encodeURIComponent(id)}`,
+      { name }
+    );
+    return response.data.data;
+  }
+
+  async deleteProfile(id: string): Promise<void> {
+    await this.api.delete(`/profiles/${encodeURIComponent(id)}`);
+  }
+
   // Update base URL (for when server URL changes)
   updateBaseUrl(baseUrl: string): void {
     this.baseUrl = baseUrl;
@@ -0,0 +1,53 @@
+/**
+ * The profile this browser works with is kept in localStorage and sent to
+ * the server with every API request, so each household member sees their
+ * own accounts and data.
+ */
+export const ACTIVE_PROFILE_STORAGE_KEY = 'activeProfileId';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILE_HEADER = 'X-Profile-Id';
+
+/**
+ * Returns the active profile id, falling back to the default profile.
+ */
+export const getActiveProfileId = (): string =>
+  localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_PROFILE_ID;
+
+/**
+ * Makes `profileId` the active profile for future requests.
+ */
+export const setActiveProfileId = (profileId: string): void => {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+};
+
+/**
+ * Makes `profileId` active and reloads the app so no state from the
+ * previous profile lingers.
+ */
+export const switchProfile = (profileId: string): void => {
+  setActiveProfileId(profileId);
+  window.location.reload();
+};
+
+/**
+ * `fetch` with the active profile header added. The server treats requests
+ * without the header as the default profile, so none is sent for it.
+ */
+export const profileFetch = (
+  input: string,
+  init?: globalThis.RequestInit
+): Promise<globalThis.Response> => {
+  const profileId = getActiveProfileId();
+  if (profileId === DEFAULT_PROFILE_ID) {
+    return init ? fetch(input, init) : fetch(input);
+  }
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...(init?.headers as Record<string, string> | undefined),
+      [PROFILE_HEADER]: profileId,
+    },
+  });
+};
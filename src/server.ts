@@ -18,15 +18,26 @@ import createCollectionRouter from './backend/routes/collection';
 import createCollectionAnalyticsRouter from './backend/routes/collectionAnalytics';
 import { createCompoundArtistRouter } from './backend/routes/compoundArtists';
 import createDiscardPileRouter from './backend/routes/discardPile';
+import createDiscogsRouter from './backend/routes/discogs';
 import { createEmbeddingsRouter } from './backend/routes/embeddings';
+import createEventsRouter from './backend/routes/events';
+import createHistoryImportRouter from './backend/routes/historyImport';
 import createImagesRouter from './backend/routes/images';
-import jobsRouter from './backend/routes/jobs';
+import createJobsRouter from './backend/routes/jobs';
 import createLabelsRouter from './backend/routes/labels';
 import { createMemoryScrobbleRouter } from './backend/routes/memoryScrobble';
+import createNotificationChannelsRouter from './backend/routes/notificationChannels';
+import createNotificationsRouter from './backend/routes/notifications';
+import createPatternsRouter from './backend/routes/patterns';
+import createProfilesRouter from './backend/routes/profiles';
+import createRecognizersRouter from './backend/routes/recognizers';
 import { createRecommendationsRouter } from './backend/routes/recommendations';
 import createReleasesRouter from './backend/routes/releases';
+import createSchedulerRouter from './backend/routes/scheduler';
 import createScrobbleRouter from './backend/routes/scrobble';
+import createScrobbleQueueRouter from './backend/routes/scrobbleQueue';
 import createSellersRouter from './backend/routes/sellers';
+import createShelfRouter from './backend/routes/shelf';
 import createStatsRouter from './backend/routes/stats';
 import createSuggestionsRouter from './backend/routes/suggestions';
 import createWebsitesRouter from './backend/routes/websites';
@@ -39,8 +50,11 @@ import { ArtistSimilarityEnricherService } from './backend/services/artistSimila
 import { ArtistSimilarityStorageService } from './backend/services/artistSimilarityStorageService';
 import { AuthService } from './backend/services/authService';
 import { BackupService } from './backend/services/backupService';
+import { BarcodeLookupService } from './backend/services/barcodeLookupService';
 import { CleanupService } from './backend/services/cleanupService';
 import { CollectionAnalyticsService } from './backend/services/collectionAnalyticsService';
+import { CollectionChangeService } from './backend/services/collectionChangeService';
+import { CollectionEditService } from './backend/services/collectionEditService';
 import { CollectionIndexerService } from './backend/services/collectionIndexerService';
 import { CompoundArtistMappingService } from './backend/services/compoundArtistMappingService';
 import { DiscardPileService } from './backend/services/discardPileService';
@@ -48,39 +62,63 @@ import { DiscogsGenreEnricherService } from './backend/services/discogsGenreEnri
 import { DiscogsService } from './backend/services/discogsService';
 import { DurationLookupService } from './backend/services/durationLookupService';
 import { EmbeddingStorageService } from './backend/services/embeddingStorageService';
+import { EventStreamService } from './backend/services/eventStreamService';
 import { GenreAnalysisService } from './backend/services/genreAnalysisService';
 import { HiddenItemService } from './backend/services/hiddenItemService';
 import { HiddenReleasesService } from './backend/services/hiddenReleasesService';
+import { HistoryImportService } from './backend/services/historyImportService';
 import { HistoryIndexMergeService } from './backend/services/historyIndexMergeService';
 import { ImageService } from './backend/services/imageService';
+import { JobService } from './backend/services/jobService';
 import { LabelMonitoringService } from './backend/services/labelMonitoringService';
 import { LastFmService } from './backend/services/lastfmService';
+import { ListenBrainzService } from './backend/services/listenbrainzService';
+import { ListeningPatternService } from './backend/services/listeningPatternService';
 import { ListeningSessionStorageService } from './backend/services/listeningSessionStorageService';
 import { MappingService } from './backend/services/mappingService';
 import { MigrationService } from './backend/services/migrationService';
 import { MusicBrainzGenreEnricherService } from './backend/services/musicbrainzGenreEnricherService';
 import { MusicBrainzService } from './backend/services/musicbrainzService';
+import { NotificationChannelService } from './backend/services/notificationChannelService';
+import { NotificationService } from './backend/services/notificationService';
 import { OllamaEmbedderService } from './backend/services/ollamaEmbedderService';
 import { OllamaService } from './backend/services/ollamaService';
+import { PlayDatabase } from './backend/services/playDatabase';
 import { ProfileBuilderService } from './backend/services/profileBuilderService';
+import {
+  DEFAULT_PROFILE_ID,
+  ProfileService,
+} from './backend/services/profileService';
 import { RankingsService } from './backend/services/rankingsService';
+import { RecognizerDeviceService } from './backend/services/recognizerDeviceService';
+import { RecognizerSessionService } from './backend/services/recognizerSessionService';
 import { RecommendationLogService } from './backend/services/recommendationLogService';
 import { RecommendationService } from './backend/services/recommendationService';
 import { ReleaseTrackingService } from './backend/services/releaseTrackingService';
 import { SavedCollectionService } from './backend/services/savedCollectionService';
+import { createScheduledTasks } from './backend/services/scheduledTasks';
+import { SchedulerService } from './backend/services/schedulerService';
 import { ScoringEngineService } from './backend/services/scoringEngineService';
 import { ScrobbleHistoryStorage } from './backend/services/scrobbleHistoryStorage';
 import { ScrobbleHistorySyncService } from './backend/services/scrobbleHistorySyncService';
+import { ScrobbleQueueService } from './backend/services/scrobbleQueueService';
+import { ScrobbleTargetService } from './backend/services/scrobbleTargetService';
+import { ScrobbleUndoService } from './backend/services/scrobbleUndoService';
 import { SellerMonitoringService } from './backend/services/sellerMonitoringService';
 import { SessionEmbedderService } from './backend/services/sessionEmbedderService';
+import { SessionReconstructionService } from './backend/services/sessionReconstructionService';
+import { ShelfLocationService } from './backend/services/shelfLocationService';
+import { SideMemoryService } from './backend/services/sideMemoryService';
 import { StatsService } from './backend/services/statsService';
 import { SuggestionService } from './backend/services/suggestionService';
 import { TagEnricherService } from './backend/services/tagEnricherService';
 import { TrackMappingService } from './backend/services/trackMappingService';
 import { WebsiteMonitoringService } from './backend/services/websiteMonitoringService';
 import { WishlistService } from './backend/services/wishlistService';
+import { WrappedExportService } from './backend/services/wrappedExportService';
 import { WrappedService } from './backend/services/wrappedService';
 import { sendError } from './backend/utils/apiResponse';
+import { initializeDiscogsCache } from './backend/utils/discogsAxios';
 import { FileStorage } from './backend/utils/fileStorage';
 import { createLogger } from './backend/utils/logger';
 
@@ -240,7 +278,12 @@ app.use(
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Requested-With',
+      'X-Profile-Id',
+    ],
     optionsSuccessStatus: 200, // Some legacy browsers choke on 204
   })
 );
@@ -302,156 +345,677 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Initialize services
-const authService = new AuthService(fileStorage);
-const lastfmService = new LastFmService(fileStorage, authService);
-const discogsService = new DiscogsService(fileStorage, authService);
-
-// Initialize suggestion-related services
-const historyStorage = new ScrobbleHistoryStorage(fileStorage);
-const syncService = new ScrobbleHistorySyncService(
-  fileStorage,
-  authService,
-  historyStorage
-);
-const mappingService = new MappingService(fileStorage);
-const trackMappingService = new TrackMappingService(fileStorage);
-const hiddenItemService = new HiddenItemService(fileStorage);
-const hiddenReleasesService = new HiddenReleasesService(fileStorage);
-const analyticsService = new AnalyticsService(historyStorage, lastfmService);
-analyticsService.setMappingService(mappingService);
-const suggestionService = new SuggestionService(
-  analyticsService,
-  historyStorage
-);
-suggestionService.setMappingService(mappingService);
-const statsService = new StatsService(fileStorage, historyStorage);
-statsService.setTrackMappingService(trackMappingService);
-statsService.setMappingService(mappingService);
-
-// Wire up stats cache warming: after each sync StatsService precomputes
-// expensive stats and persists them so dashboard reads are instant.
-syncService.setStatsWarmer(statsService);
-const rankingsService = new RankingsService(historyStorage);
-const imageService = new ImageService(fileStorage, lastfmService);
-imageService.setMappingService(mappingService);
-const wishlistService = new WishlistService(fileStorage, authService);
-const collectionAnalyticsService = new CollectionAnalyticsService(
-  fileStorage,
-  authService,
-  wishlistService
-);
-const sellerMonitoringService = new SellerMonitoringService(
-  fileStorage,
-  authService,
-  wishlistService
-);
-const labelMonitoringService = new LabelMonitoringService(
-  fileStorage,
-  authService,
-  wishlistService,
-  discogsService
-);
+// Installation-wide services. Artist mappings are a module singleton shared
+// by every profile; so are the Discogs response cache and MusicBrainz (one
+// client keeps its 1 req/s limit). Notification channels deliver every
+// profile's notifications.
+const profileService = new ProfileService(fileStorage);
 const musicBrainzService = new MusicBrainzService();
-const releaseTrackingService = new ReleaseTrackingService(
-  fileStorage,
-  discogsService,
-  musicBrainzService,
-  wishlistService,
-  hiddenReleasesService
-);
-const backupService = new BackupService(fileStorage, 'data');
-const discardPileService = new DiscardPileService(fileStorage);
-const savedCollectionService = new SavedCollectionService(fileStorage);
-const durationLookupService = new DurationLookupService(
+const notificationChannelService = new NotificationChannelService(
   fileStorage,
-  lastfmService,
-  discogsService
-);
-const genreAnalysisService = new GenreAnalysisService(
-  lastfmService,
-  historyStorage,
-  fileStorage
-);
-const wrappedService = new WrappedService(
-  statsService,
-  historyStorage,
-  discogsService,
-  imageService,
-  fileStorage
+  new AuthService(fileStorage)
 );
 
-// API routes
-app.use(
-  '/api/v1/auth',
-  createAuthRouter(fileStorage, authService, discogsService, lastfmService)
-);
-app.use(
-  '/api/v1/collection',
-  createCollectionRouter(fileStorage, authService, discogsService)
-);
-app.use(
-  '/api/v1/scrobble',
-  createScrobbleRouter(
-    fileStorage,
+/**
+ * A profile's services and the API routes bound to them.
+ */
+interface ProfileRuntime {
+  router: express.Router;
+  stop(): void;
+}
+
+/**
+ * Build the service graph and routes for one profile, running the same
+ * startup work (migrations, cleanup, auto-backup, artist name resolution)
+ * the single-user server ran once. Routes are relative to /api/v1.
+ */
+async function createProfileRuntime(
+  profileId: string
+): Promise<ProfileRuntime> {
+  const profileStorage = profileService.getProfileStorage(profileId);
+  await profileStorage.ensureDataDir();
+
+  const router = express.Router();
+
+  // Jobs, notifications and live events belong to the profile, so one
+  // profile's scans and alerts never reach another's activity panel.
+  // Jobs interrupted by the last shutdown are marked failed on load.
+  const eventStreamService = new EventStreamService();
+  const jobService = new JobService(eventStreamService);
+  await jobService.initialize(profileStorage);
+  const notificationService = new NotificationService(eventStreamService);
+  await notificationService.initialize(profileStorage);
+
+  // Forward new notifications to webhook, push and email channels
+  const stopNotificationDelivery = notificationService.subscribe(
+    (notification, context) => {
+      notificationChannelService
+        .dispatch(notification, context)
+        .catch(error => log.warn('Failed to deliver notification', error));
+    }
+  );
+
+  // Initialize services
+  const authService = new AuthService(profileStorage);
+  const lastfmService = new LastFmService(profileStorage, authService);
+  lastfmService.setEventStreamService(eventStreamService);
+  const discogsService = new DiscogsService(profileStorage, authService);
+  const collectionChangeService = new CollectionChangeService(profileStorage);
+  discogsService.setCollectionChangeService(collectionChangeService);
+  const collectionEditService = new CollectionEditService(
+    profileStorage,
+    discogsService
+  );
+  const shelfLocationService = new ShelfLocationService(
+    profileStorage,
+    collectionEditService
+  );
+  const barcodeLookupService = new BarcodeLookupService(
+    profileStorage,
+    discogsService,
+    shelfLocationService
+  );
+
+  // Initialize suggestion-related services
+  const historyStorage = new ScrobbleHistoryStorage(profileStorage);
+  const syncService = new ScrobbleHistorySyncService(
+    profileStorage,
     authService,
+    historyStorage
+  );
+  syncService.setEventStreamService(eventStreamService);
+  syncService.setJobService(jobService);
+
+  // HISTORY_STORAGE=sqlite keeps the history in an embedded database
+  // instead of the JSON index
+  const playDatabase =
+    process.env.HISTORY_STORAGE === 'sqlite'
+      ? new PlayDatabase(profileStorage)
+      : null;
+  if (playDatabase) {
+    historyStorage.setPlayDatabase(playDatabase);
+    syncService.setPlayDatabase(playDatabase);
+  }
+
+  // Builds the history index from Last.fm/ListenBrainz export files
+  const historyImportService = new HistoryImportService(syncService);
+
+  // Transiently failed scrobbles are queued and retried on a timer
+  const scrobbleQueueService = new ScrobbleQueueService(
+    profileStorage,
     lastfmService,
-    discogsService,
+    syncService
+  );
+  scrobbleQueueService.setEventStreamService(eventStreamService);
+  lastfmService.setScrobbleQueue(scrobbleQueueService);
+
+  // Scrobbles also go to ListenBrainz when it's connected and enabled
+  const listenBrainzService = new ListenBrainzService(authService);
+  const scrobbleTargetService = new ScrobbleTargetService([
+    listenBrainzService,
+  ]);
+  lastfmService.setScrobbleTargets(scrobbleTargetService);
+  const sideMemoryService = new SideMemoryService(profileStorage);
+  const mappingService = new MappingService(profileStorage);
+  const trackMappingService = new TrackMappingService(profileStorage);
+  const hiddenItemService = new HiddenItemService(profileStorage);
+  const hiddenReleasesService = new HiddenReleasesService(profileStorage);
+  const analyticsService = new AnalyticsService(historyStorage, lastfmService);
+  analyticsService.setMappingService(mappingService);
+  const suggestionService = new SuggestionService(
+    analyticsService,
+    historyStorage
+  );
+  suggestionService.setMappingService(mappingService);
+  const statsService = new StatsService(profileStorage, historyStorage);
+  statsService.setTrackMappingService(trackMappingService);
+  statsService.setMappingService(mappingService);
+  if (playDatabase) statsService.setPlayDatabase(playDatabase);
+  statsService.setNotificationService(notificationService);
+
+  // Wire up stats cache warming: after each sync StatsService precomputes
+  // expensive stats and persists them so dashboard reads are instant.
+  syncService.setStatsWarmer(statsService);
+
+  // Undoing a session takes its plays back out of the index and stats
+  const scrobbleUndoService = new ScrobbleUndoService(
+    profileStorage,
+    authService,
     syncService,
-    mappingService,
-    durationLookupService
-  )
-);
-// Artist mapping, suggestions, and stats routes are mounted in startServer() to inject runtime dependencies
-app.use(
-  '/api/v1/images',
-  createImagesRouter(fileStorage, authService, imageService)
-);
-app.use(
-  '/api/v1/wishlist',
-  createWishlistRouter(
-    fileStorage,
+    statsService,
+    scrobbleQueueService,
+    listenBrainzService
+  );
+  const rankingsService = new RankingsService(historyStorage);
+  const imageService = new ImageService(profileStorage, lastfmService);
+  imageService.setMappingService(mappingService);
+  const wishlistService = new WishlistService(profileStorage, authService);
+  wishlistService.setNotificationService(notificationService);
+  const collectionAnalyticsService = new CollectionAnalyticsService(
+    profileStorage,
     authService,
-    wishlistService,
-    sellerMonitoringService
-  )
-);
-app.use(
-  '/api/v1/sellers',
-  createSellersRouter(fileStorage, authService, sellerMonitoringService)
-);
-app.use('/api/v1/labels', createLabelsRouter(labelMonitoringService));
-app.use(
-  '/api/v1/releases',
-  createReleasesRouter(
+    wishlistService
+  );
+  collectionAnalyticsService.setCollectionChangeService(
+    collectionChangeService
+  );
+  collectionAnalyticsService.setEventStreamService(eventStreamService);
+  collectionAnalyticsService.setJobService(jobService);
+  const sellerMonitoringService = new SellerMonitoringService(
+    profileStorage,
     authService,
-    releaseTrackingService,
+    wishlistService
+  );
+  sellerMonitoringService.setEventStreamService(eventStreamService);
+  sellerMonitoringService.setJobService(jobService);
+  sellerMonitoringService.setNotificationService(notificationService);
+  const labelMonitoringService = new LabelMonitoringService(
+    profileStorage,
+    authService,
+    wishlistService,
+    discogsService
+  );
+  labelMonitoringService.setEventStreamService(eventStreamService);
+  labelMonitoringService.setJobService(jobService);
+  labelMonitoringService.setNotificationService(notificationService);
+  const releaseTrackingService = new ReleaseTrackingService(
+    profileStorage,
+    discogsService,
+    musicBrainzService,
+    wishlistService,
     hiddenReleasesService
-  )
-);
-app.use('/api/v1/backup', createBackupRouter(backupService));
-app.use(
-  '/api/v1/discard-pile',
-  createDiscardPileRouter(discardPileService, wishlistService)
-);
-app.use(
-  '/api/v1/memory-scrobble',
-  createMemoryScrobbleRouter(
-    savedCollectionService,
+  );
+  // Each profile backs up and restores only its own data
+  const backupService = new BackupService(
+    profileStorage,
+    profileStorage.getDataDir()
+  );
+  backupService.setNotificationService(notificationService);
+
+  // Periodic syncs, scans and backups run on user-editable schedules
+  const schedulerService = new SchedulerService(profileStorage);
+  schedulerService.setEventStreamService(eventStreamService);
+  createScheduledTasks({
+    authService,
+    syncService,
+    wishlistService,
+    sellerMonitoringService,
+    labelMonitoringService,
+    backupService,
+    notificationService,
+  }).forEach(task => schedulerService.register(task));
+
+  const discardPileService = new DiscardPileService(profileStorage);
+  const savedCollectionService = new SavedCollectionService(profileStorage);
+  const durationLookupService = new DurationLookupService(
+    profileStorage,
+    lastfmService,
+    discogsService
+  );
+  const recognizerDeviceService = new RecognizerDeviceService(profileStorage);
+  const recognizerSessionService = new RecognizerSessionService(
+    profileStorage,
+    authService,
+    discogsService,
+    lastfmService,
+    durationLookupService,
+    sideMemoryService
+  );
+  const listeningPatternService = new ListeningPatternService(
+    historyStorage,
     durationLookupService,
+    discogsService
+  );
+  const genreAnalysisService = new GenreAnalysisService(
+    lastfmService,
+    historyStorage,
+    profileStorage
+  );
+  const sessionReconstructionService = new SessionReconstructionService(
+    historyStorage
+  );
+  const wrappedService = new WrappedService(
+    statsService,
+    historyStorage,
+    discogsService,
+    imageService,
+    profileStorage,
+    sessionReconstructionService
+  );
+  const wrappedExportService = new WrappedExportService(
+    wrappedService,
+    imageService,
+    hiddenItemService
+  );
+
+  // Await migrations before accepting requests to prevent hitting un-migrated schemas
+  const migrationService = new MigrationService(profileStorage);
+  const cleanupService = new CleanupService(profileStorage);
+
+  const migrationReport = await migrationService.migrateAllOnStartup(
+    (file, status) => {
+      if (status === 'migrating') {
+        log.info(`Migrating data file: ${file}`, { profileId });
+      }
+    }
+  );
+  if (migrationReport.errors.length > 0) {
+    log.warn(
+      `Migration completed with ${migrationReport.errors.length} errors`,
+      { profileId }
+    );
+  }
+
+  // Move an existing JSON index into the database the first time it is used
+  await historyStorage.migrateJsonIndexToDatabase();
+
+  // Tag the plays of a history index migrated to per-play sources; this
+  // reads every scrobble session, so it runs in the background
+  syncService.tagPlaySources().catch(err => {
+    log.error('Failed to tag history plays with their source', err);
+  });
+
+  // Cleanup and backup are best-effort -- don't block startup
+  const cleanupPromise = cleanupService
+    .runCleanup()
+    .then(cleanupReport => {
+      if (cleanupReport && cleanupReport.errors.length > 0) {
+        log.warn(
+          `Cleanup completed with ${cleanupReport.errors.length} errors`,
+          { profileId }
+        );
+      }
+    })
+    .catch(err => {
+      log.error('Startup cleanup failed:', err);
+    });
+
+  const backupPromise = backupService.checkAndRunAutoBackup().catch(err => {
+    log.error('Startup auto-backup check failed:', err);
+  });
+
+  // In test environment, await startup tasks to prevent async leaks
+  if (process.env.NODE_ENV === 'test') {
+    await Promise.allSettled([cleanupPromise, backupPromise]);
+  }
+
+  // Build compound artist mapping service (persisted 1-to-N decompositions)
+  const compoundMappingService = new CompoundArtistMappingService(
+    profileStorage
+  );
+  statsService.setCompoundArtistMappingService(compoundMappingService);
+
+  // Build artist name resolver from all mapping sources
+  const artistNameResolver = new ArtistNameResolver(
+    artistMappingService,
+    mappingService,
+    compoundMappingService
+  );
+
+  // Build play counts for display name weighting, register provider
+  const playCountMap = await statsService.buildArtistPlayCountMap();
+  artistNameResolver.setPlayCountProvider(() =>
+    statsService.buildArtistPlayCountMap()
+  );
+  await artistNameResolver.rebuild(playCountMap);
+
+  // Auto-detect and create missing artist mappings from album mappings
+  const missingMappings =
+    await artistNameResolver.detectMissingScrobbleMappings();
+  if (missingMappings.length > 0) {
+    for (const missing of missingMappings) {
+      artistMappingService.setMapping(missing.discogsName, missing.lastfmName);
+    }
+    log.info(`Auto-created ${missingMappings.length} missing artist mappings`);
+  }
+
+  // Auto-detect compound artist mappings from album mappings
+  const albumMappings = await mappingService.getAllAlbumMappings();
+  const detectedCompounds =
+    await compoundMappingService.autoDetectFromAlbumMappings(albumMappings);
+
+  // Rebuild if any new mappings were detected
+  if (missingMappings.length > 0 || detectedCompounds > 0) {
+    await artistNameResolver.rebuild();
+  }
+
+  // Inject resolver into services that support artist name resolution
+  statsService.setArtistNameResolver(artistNameResolver);
+  historyStorage.setArtistNameResolver(artistNameResolver);
+  wrappedService.setArtistNameResolver(artistNameResolver);
+  sessionReconstructionService.setArtistNameResolver(artistNameResolver);
+  historyImportService.setArtistNameResolver(artistNameResolver);
+
+  // Create merge service for detecting and merging split history index entries
+  const historyIndexMergeService = new HistoryIndexMergeService(
+    artistNameResolver,
+    profileStorage
+  );
+  if (playDatabase) historyIndexMergeService.setPlayDatabase(playDatabase);
+
+  // Log split entry warnings at startup
+  const splitEntries = await historyIndexMergeService.findSplitEntries();
+  if (splitEntries.length > 0) {
+    log.warn(
+      `Found ${splitEntries.length} split history index entries that can be merged via /api/v1/stats/merge-split-entries`,
+      { profileId }
+    );
+  }
+
+  // Instantiate embedding & recommendation services
+  const embeddingStorageService = new EmbeddingStorageService(profileStorage);
+  const tagEnricherService = new TagEnricherService(
+    lastfmService,
+    embeddingStorageService
+  );
+  const artistSimilarityStorageService = new ArtistSimilarityStorageService(
+    profileStorage
+  );
+  const artistSimilarityEnricherService = new ArtistSimilarityEnricherService(
+    lastfmService,
+    artistSimilarityStorageService
+  );
+  const discogsGenreEnricherService = new DiscogsGenreEnricherService(
+    discogsService
+  );
+  const musicBrainzGenreEnricherService = new MusicBrainzGenreEnricherService(
+    musicBrainzService,
+    releaseTrackingService,
+    profileStorage
+  );
+  const profileBuilderService = new ProfileBuilderService(
+    tagEnricherService,
+    artistSimilarityEnricherService,
+    mappingService,
+    musicBrainzGenreEnricherService
+  );
+  const ollamaService = new OllamaService();
+  const websiteMonitoringService = new WebsiteMonitoringService(
+    profileStorage,
+    ollamaService,
+    wishlistService
+  );
+  if (playDatabase) websiteMonitoringService.setPlayDatabase(playDatabase);
+  websiteMonitoringService.setEventStreamService(eventStreamService);
+  websiteMonitoringService.setJobService(jobService);
+  websiteMonitoringService.setNotificationService(notificationService);
+  const ollamaEmbedderService = new OllamaEmbedderService(ollamaService);
+  const listeningSessionStorageService = new ListeningSessionStorageService(
+    profileStorage
+  );
+  const sessionEmbedderService = new SessionEmbedderService(
+    ollamaEmbedderService,
+    listeningSessionStorageService
+  );
+  const collectionIndexerService = new CollectionIndexerService(
+    ollamaEmbedderService,
+    embeddingStorageService
+  );
+  const recommendationLogService = new RecommendationLogService(profileStorage);
+  const scoringEngineService = new ScoringEngineService(
+    artistSimilarityStorageService,
+    recommendationLogService
+  );
+  const recommendationService = new RecommendationService(
+    embeddingStorageService,
+    scoringEngineService,
+    sessionEmbedderService,
+    profileBuilderService,
+    collectionIndexerService,
+    recommendationLogService,
+    profileStorage,
+    artistSimilarityStorageService,
     historyStorage
-  )
+  );
+
+  // API routes
+  router.use(
+    '/auth',
+    createAuthRouter(
+      profileStorage,
+      authService,
+      discogsService,
+      lastfmService,
+      listenBrainzService,
+      profileId
+    )
+  );
+  router.use(
+    '/collection',
+    createCollectionRouter(
+      profileStorage,
+      authService,
+      discogsService,
+      collectionChangeService,
+      jobService,
+      collectionEditService
+    )
+  );
+  router.use(
+    '/shelf',
+    createShelfRouter(shelfLocationService, barcodeLookupService)
+  );
+  router.use(
+    '/scrobble',
+    createScrobbleRouter(
+      profileStorage,
+      authService,
+      lastfmService,
+      discogsService,
+      syncService,
+      mappingService,
+      recognizerSessionService,
+      sideMemoryService,
+      scrobbleTargetService,
+      scrobbleUndoService,
+      recognizerDeviceService
+    )
+  );
+  router.use('/recognizers', createRecognizersRouter(recognizerDeviceService));
+  router.use(
+    '/images',
+    createImagesRouter(profileStorage, authService, imageService)
+  );
+  router.use(
+    '/wishlist',
+    createWishlistRouter(
+      profileStorage,
+      authService,
+      wishlistService,
+      jobService,
+      sellerMonitoringService
+    )
+  );
+  router.use(
+    '/sellers',
+    createSellersRouter(profileStorage, authService, sellerMonitoringService)
+  );
+  router.use('/labels', createLabelsRouter(labelMonitoringService));
+  router.use(
+    '/releases',
+    createReleasesRouter(
+      authService,
+      releaseTrackingService,
+      hiddenReleasesService
+    )
+  );
+  router.use('/backup', createBackupRouter(backupService));
+  router.use(
+    '/discard-pile',
+    createDiscardPileRouter(discardPileService, wishlistService, jobService)
+  );
+  router.use(
+    '/memory-scrobble',
+    createMemoryScrobbleRouter(
+      savedCollectionService,
+      durationLookupService,
+      historyStorage
+    )
+  );
+  router.use('/patterns', createPatternsRouter(listeningPatternService));
+  router.use(
+    '/scrobble-queue',
+    createScrobbleQueueRouter(scrobbleQueueService)
+  );
+  router.use(
+    '/wrapped',
+    createWrappedRouter(wrappedService, wrappedExportService)
+  );
+  router.use(
+    '/collection-analytics',
+    createCollectionAnalyticsRouter(
+      profileStorage,
+      authService,
+      collectionAnalyticsService
+    )
+  );
+  router.use('/scheduler', createSchedulerRouter(schedulerService));
+  router.use(
+    '/history-import',
+    createHistoryImportRouter(historyImportService)
+  );
+
+  // Artist mapping routes with resolver for rebuild-on-change
+  router.use('/artist-mappings', createArtistMappingRouter(artistNameResolver));
+  router.use(
+    '/compound-artist-mappings',
+    createCompoundArtistRouter(
+      compoundMappingService,
+      mappingService,
+      artistNameResolver
+    )
+  );
+  router.use(
+    '/suggestions',
+    createSuggestionsRouter(
+      profileStorage,
+      authService,
+      discogsService,
+      historyStorage,
+      syncService,
+      analyticsService,
+      suggestionService,
+      mappingService,
+      trackMappingService,
+      hiddenItemService,
+      statsService,
+      artistNameResolver
+    )
+  );
+  router.use(
+    '/stats',
+    createStatsRouter(
+      profileStorage,
+      authService,
+      statsService,
+      historyStorage,
+      wishlistService,
+      sellerMonitoringService,
+      analyticsService,
+      rankingsService,
+      mappingService,
+      historyIndexMergeService,
+      imageService,
+      genreAnalysisService,
+      sessionReconstructionService
+    )
+  );
+  router.use(
+    '/embeddings',
+    createEmbeddingsRouter(
+      collectionIndexerService,
+      embeddingStorageService,
+      profileBuilderService,
+      discogsService,
+      authService,
+      profileStorage,
+      jobService,
+      eventStreamService,
+      discogsGenreEnricherService,
+      musicBrainzGenreEnricherService
+    )
+  );
+  router.use(
+    '/recommendations',
+    createRecommendationsRouter(
+      recommendationService,
+      lastfmService,
+      authService,
+      profileStorage
+    )
+  );
+  router.use(
+    '/websites',
+    createWebsitesRouter(websiteMonitoringService, ollamaService)
+  );
+  router.use('/jobs', createJobsRouter(jobService));
+  router.use('/events', createEventsRouter(eventStreamService));
+  router.use('/notifications', createNotificationsRouter(notificationService));
+
+  // Syncs, scans and the periodic auto-backup check (in addition to the
+  // startup check) run from the scheduler; queued scrobbles are retried
+  // with the queue applying its own per-entry backoff
+  let queueDrainTimer: NodeJS.Timeout | null = null;
+  if (process.env.NODE_ENV !== 'test') {
+    schedulerService.start().catch(err => {
+      log.error('Failed to start scheduler:', err);
+    });
+
+    const QUEUE_DRAIN_INTERVAL_MS = 60 * 1000;
+    queueDrainTimer = setInterval(() => {
+      scrobbleQueueService.drain().catch(err => {
+        log.warn('Scrobble queue drain failed:', err);
+      });
+    }, QUEUE_DRAIN_INTERVAL_MS);
+  }
+
+  log.info('Profile services initialized', { profileId });
+
+  return {
+    router,
+    stop: () => {
+      stopNotificationDelivery();
+      schedulerService.stop();
+      if (queueDrainTimer) clearInterval(queueDrainTimer);
+      playDatabase?.close();
+    },
+  };
+}
+
+// Profile runtimes are built on first use and kept for the server's lifetime
+const profileRuntimes = new Map<string, Promise<ProfileRuntime>>();
+
+function getProfileRuntime(profileId: string): Promise<ProfileRuntime> {
+  let runtime = profileRuntimes.get(profileId);
+  if (!runtime) {
+    runtime = createProfileRuntime(profileId);
+    profileRuntimes.set(profileId, runtime);
+    // Let a failed startup be retried by the next request
+    runtime.catch(() => profileRuntimes.delete(profileId));
+  }
+  return runtime;
+}
+
+async function stopProfileRuntime(profileId: string): Promise<void> {
+  const runtime = profileRuntimes.get(profileId);
+  profileRuntimes.delete(profileId);
+  try {
+    (await runtime)?.stop();
+  } catch {
+    // Never finished starting; nothing to stop
+  }
+}
+
+// Installation-wide API routes
+app.use(
+  '/api/v1/profiles',
+  createProfilesRouter(profileService, stopProfileRuntime)
 );
-app.use('/api/v1/wrapped', createWrappedRouter(wrappedService));
 app.use(
-  '/api/v1/collection-analytics',
-  createCollectionAnalyticsRouter(
-    fileStorage,
-    authService,
-    collectionAnalyticsService
-  )
+  '/api/v1/notification-channels',
+  createNotificationChannelsRouter(notificationChannelService)
 );
-app.use('/api/v1/jobs', jobsRouter);
+app.use('/api/v1/discogs', createDiscogsRouter());
 
 // API info endpoint
 app.get('/api/v1', (req, res) => {
@@ -473,15 +1037,52 @@ app.get('/api/v1', (req, res) => {
       backup: '/api/v1/backup',
       discardPile: '/api/v1/discard-pile',
       memoryScrobble: '/api/v1/memory-scrobble',
+      patterns: '/api/v1/patterns',
+      scrobbleQueue: '/api/v1/scrobble-queue',
       wrapped: '/api/v1/wrapped',
       collectionAnalytics: '/api/v1/collection-analytics',
       jobs: '/api/v1/jobs',
+      events: '/api/v1/events',
+      notifications: '/api/v1/notifications',
+      notificationChannels: '/api/v1/notification-channels',
+      scheduler: '/api/v1/scheduler',
+      discogs: '/api/v1/discogs',
+      historyImport: '/api/v1/history-import',
       recommendations: '/api/v1/recommendations',
       embeddings: '/api/v1/embeddings',
+      profiles: '/api/v1/profiles',
+      recognizers: '/api/v1/recognizers',
     },
   });
 });
 
+// Every other API route belongs to a profile, chosen per request with the
+// X-Profile-Id header (or ?profile= where headers can't be set, such as
+// EventSource and image URLs). Requests without one use the default profile.
+app.use(
+  '/api/v1',
+  async (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    const profileId =
+      req.get('X-Profile-Id') ||
+      (typeof req.query.profile === 'string' ? req.query.profile : '') ||
+      DEFAULT_PROFILE_ID;
+    try {
+      if (!(await profileService.getProfile(profileId))) {
+        sendError(res, 404, 'Profile not found');
+        return;
+      }
+      const runtime = await getProfileRuntime(profileId);
+      runtime.router(req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // Error handling and 404 handlers are registered in startServer() after all routes
 
 async function startServer() {
@@ -502,254 +1103,14 @@ async function startServer() {
       log.info(`Server lock acquired (PID: ${process.pid})`);
     }
 
-    // Await migrations before accepting requests to prevent hitting un-migrated schemas
-    const migrationService = new MigrationService(fileStorage);
-    const cleanupService = new CleanupService(fileStorage);
+    // Cache selected Discogs responses on disk from here on
+    initializeDiscogsCache(fileStorage);
 
-    const migrationReport = await migrationService.migrateAllOnStartup(
-      (file, status) => {
-        if (status === 'migrating') {
-          log.info(`Migrating data file: ${file}`);
-        }
-      }
-    );
-    if (migrationReport.errors.length > 0) {
-      log.warn(
-        `Migration completed with ${migrationReport.errors.length} errors`
-      );
+    // Start every profile's services so their schedules run in the background
+    for (const profile of await profileService.getProfiles()) {
+      await getProfileRuntime(profile.id);
     }
 
-    // Cleanup and backup are best-effort -- don't block server startup
-    const cleanupPromise = cleanupService
-      .runCleanup()
-      .then(cleanupReport => {
-        if (cleanupReport && cleanupReport.errors.length > 0) {
-          log.warn(
-            `Cleanup completed with ${cleanupReport.errors.length} errors`
-          );
-        }
-      })
-      .catch(err => {
-        log.error('Startup cleanup failed:', err);
-      });
-
-    const backupPromise = backupService.checkAndRunAutoBackup().catch(err => {
-      log.error('Startup auto-backup check failed:', err);
-    });
-
-    // In test environment, await startup tasks to prevent async leaks
-    if (process.env.NODE_ENV === 'test') {
-      await Promise.allSettled([cleanupPromise, backupPromise]);
-    }
-
-    // Build compound artist mapping service (persisted 1-to-N decompositions)
-    const compoundMappingService = new CompoundArtistMappingService(
-      fileStorage
-    );
-    statsService.setCompoundArtistMappingService(compoundMappingService);
-
-    // Build artist name resolver from all mapping sources
-    const artistNameResolver = new ArtistNameResolver(
-      artistMappingService,
-      mappingService,
-      compoundMappingService
-    );
-
-    // Build play counts for display name weighting, register provider
-    const playCountMap = await statsService.buildArtistPlayCountMap();
-    artistNameResolver.setPlayCountProvider(() =>
-      statsService.buildArtistPlayCountMap()
-    );
-    await artistNameResolver.rebuild(playCountMap);
-
-    // Auto-detect and create missing artist mappings from album mappings
-    const missingMappings =
-      await artistNameResolver.detectMissingScrobbleMappings();
-    if (missingMappings.length > 0) {
-      for (const missing of missingMappings) {
-        artistMappingService.setMapping(
-          missing.discogsName,
-          missing.lastfmName
-        );
-      }
-      log.info(
-        `Auto-created ${missingMappings.length} missing artist mappings`
-      );
-    }
-
-    // Auto-detect compound artist mappings from album mappings
-    const albumMappings = await mappingService.getAllAlbumMappings();
-    const detectedCompounds =
-      await compoundMappingService.autoDetectFromAlbumMappings(albumMappings);
-
-    // Rebuild if any new mappings were detected
-    if (missingMappings.length > 0 || detectedCompounds > 0) {
-      await artistNameResolver.rebuild();
-    }
-
-    // Mount artist mapping routes with resolver for rebuild-on-change
-    app.use(
-      '/api/v1/artist-mappings',
-      createArtistMappingRouter(artistNameResolver)
-    );
-
-    // Mount compound artist mapping routes
-    app.use(
-      '/api/v1/compound-artist-mappings',
-      createCompoundArtistRouter(
-        compoundMappingService,
-        mappingService,
-        artistNameResolver
-      )
-    );
-
-    // Mount suggestions routes now that artistNameResolver is available
-    app.use(
-      '/api/v1/suggestions',
-      createSuggestionsRouter(
-        fileStorage,
-        authService,
-        discogsService,
-        historyStorage,
-        syncService,
-        analyticsService,
-        suggestionService,
-        mappingService,
-        trackMappingService,
-        hiddenItemService,
-        statsService,
-        artistNameResolver
-      )
-    );
-
-    // Inject resolver into services that support artist name resolution
-    statsService.setArtistNameResolver(artistNameResolver);
-    historyStorage.setArtistNameResolver(artistNameResolver);
-    wrappedService.setArtistNameResolver(artistNameResolver);
-
-    // Create merge service for detecting and merging split history index entries
-    const historyIndexMergeService = new HistoryIndexMergeService(
-      artistNameResolver,
-      fileStorage
-    );
-
-    // Log split entry warnings at startup
-    const splitEntries = await historyIndexMergeService.findSplitEntries();
-    if (splitEntries.length > 0) {
-      log.warn(
-        `Found ${splitEntries.length} split history index entries that can be merged via /api/v1/stats/merge-split-entries`
-      );
-    }
-
-    // Mount stats routes now that historyIndexMergeService is available
-    app.use(
-      '/api/v1/stats',
-      createStatsRouter(
-        fileStorage,
-        authService,
-        statsService,
-        historyStorage,
-        wishlistService,
-        sellerMonitoringService,
-        analyticsService,
-        rankingsService,
-        mappingService,
-        historyIndexMergeService,
-        imageService,
-        genreAnalysisService
-      )
-    );
-
-    // Instantiate embedding & recommendation services
-    const embeddingStorageService = new EmbeddingStorageService(fileStorage);
-    const tagEnricherService = new TagEnricherService(
-      lastfmService,
-      embeddingStorageService
-    );
-    const artistSimilarityStorageService = new ArtistSimilarityStorageService(
-      fileStorage
-    );
-    const artistSimilarityEnricherService = new ArtistSimilarityEnricherService(
-      lastfmService,
-      artistSimilarityStorageService
-    );
-    const discogsGenreEnricherService = new DiscogsGenreEnricherService(
-      discogsService
-    );
-    const musicBrainzGenreEnricherService = new MusicBrainzGenreEnricherService(
-      musicBrainzService,
-      releaseTrackingService,
-      fileStorage
-    );
-    const profileBuilderService = new ProfileBuilderService(
-      tagEnricherService,
-      artistSimilarityEnricherService,
-      mappingService,
-      musicBrainzGenreEnricherService
-    );
-    const ollamaService = new OllamaService();
-    const websiteMonitoringService = new WebsiteMonitoringService(
-      fileStorage,
-      ollamaService,
-      wishlistService
-    );
-    const ollamaEmbedderService = new OllamaEmbedderService(ollamaService);
-    const listeningSessionStorageService = new ListeningSessionStorageService(
-      fileStorage
-    );
-    const sessionEmbedderService = new SessionEmbedderService(
-      ollamaEmbedderService,
-      listeningSessionStorageService
-    );
-    const collectionIndexerService = new CollectionIndexerService(
-      ollamaEmbedderService,
-      embeddingStorageService
-    );
-    const recommendationLogService = new RecommendationLogService(fileStorage);
-    const scoringEngineService = new ScoringEngineService(
-      artistSimilarityStorageService,
-      recommendationLogService
-    );
-    const recommendationService = new RecommendationService(
-      embeddingStorageService,
-      scoringEngineService,
-      sessionEmbedderService,
-      profileBuilderService,
-      collectionIndexerService,
-      recommendationLogService,
-      fileStorage,
-      artistSimilarityStorageService,
-      historyStorage
-    );
-
-    // Mount embedding & recommendation routes
-    app.use(
-      '/api/v1/embeddings',
-      createEmbeddingsRouter(
-        collectionIndexerService,
-        embeddingStorageService,
-        profileBuilderService,
-        discogsService,
-        authService,
-        fileStorage,
-        discogsGenreEnricherService,
-        musicBrainzGenreEnricherService
-      )
-    );
-    app.use(
-      '/api/v1/recommendations',
-      createRecommendationsRouter(
-        recommendationService,
-        lastfmService,
-        authService,
-        fileStorage
-      )
-    );
-    app.use(
-      '/api/v1/websites',
-      createWebsitesRouter(websiteMonitoringService, ollamaService)
-    );
-
     // Error handling middleware (registered after all routes including stats)
     app.use(
       (
@@ -790,15 +1151,6 @@ async function startServer() {
       server.on('error', error => {
         log.error('Server error', error);
       });
-
-      // Periodic auto-backup check every 6 hours (in addition to startup check)
-      // This ensures backups happen even during long-running sessions
-      const SIX_HOURS_MS = 6 * 60 * 60 * 1000;
-      setInterval(() => {
-        backupService.checkAndRunAutoBackup().catch(err => {
-          log.warn('Periodic auto-backup check failed:', err);
-        });
-      }, SIX_HOURS_MS);
     }
   } catch (error) {
     log.error('Failed to start server', error);
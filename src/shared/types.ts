@@ -40,6 +40,114 @@ export interface CollectionItem {
   selected?: boolean;
 }
 
+/**
+ * A folder in a user's Discogs collection. Folder 0 ("All") contains every
+ * item; folder 1 ("Uncategorized") holds items not filed anywhere else.
+ */
+export interface CollectionFolder {
+  id: number;
+  name: string;
+  count: number;
+}
+
+/**
+ * Definition of a custom note field (e.g. "Condition", "Storage location").
+ * CollectionNote.field_id refers to CollectionCustomField.id.
+ */
+export interface CollectionCustomField {
+  id: number;
+  name: string;
+  type: 'dropdown' | 'textarea';
+  options?: string[]; // dropdown fields only
+  position: number;
+}
+
+/**
+ * Restricts which collection items a feature works with. Field values match
+ * case-insensitively anywhere in the item's note, so both a dropdown option
+ * and part of a free-text note work.
+ */
+export interface CollectionScope {
+  folderId?: number; // omitted or 0 = all folders
+  fieldValues?: Record<string, string>; // field id -> value
+}
+
+/**
+ * A change written back to a Discogs collection instance. `expected` is the
+ * value the caller last saw; the edit is refused if Discogs has a different
+ * one now. Field values are the note text, '' for an empty note.
+ */
+export type CollectionEdit =
+  | { type: 'rating'; rating: number; expected?: number }
+  | { type: 'field'; fieldId: number; value: string; expected?: string }
+  | { type: 'folder'; folderId: number; expected?: number };
+
+// ============================================
+// Shelf Locations & Barcode Lookup
+// ============================================
+
+/**
+ * Where a record physically sits. Only the shelf is required; row and
+ * position narrow it down on larger shelving units.
+ */
+export interface ShelfLocation {
+  shelf: string;
+  row?: string;
+  position?: number; // 1-based slot along the row
+}
+
+export interface ShelfLocationEntry extends ShelfLocation {
+  collectionItemId: number; // Discogs collection instance ID
+  releaseId: number;
+  artist: string;
+  title: string;
+  updatedAt: number; // milliseconds since epoch
+}
+
+export interface ShelfLocationStore {
+  schemaVersion: 1;
+  syncFieldId?: number; // Discogs custom note field mirroring the location
+  locations: Record<string, ShelfLocationEntry>; // collection item id -> entry
+}
+
+export interface ShelfLocationSaveResult {
+  entry: ShelfLocationEntry | null; // null once removed
+  syncError?: string; // saved locally but the Discogs note wasn't updated
+}
+
+export interface ShelfImportResult {
+  imported: number;
+  skipped: number; // already located locally, or note not recognised
+}
+
+/**
+ * A release found for a scanned barcode. `collectionItemId` is set when
+ * the release (or, with `otherPressing`, another pressing of the same
+ * master) is in the collection.
+ */
+export interface BarcodeMatch {
+  releaseId: number;
+  masterId?: number;
+  title: string;
+  artist: string;
+  year?: number;
+  coverImage?: string;
+  formats: string[];
+  collectionItemId?: number;
+  otherPressing?: boolean;
+  shelfLocation?: ShelfLocation;
+}
+
+export interface BarcodeLookupResult {
+  barcode: string; // normalised digits
+  matches: BarcodeMatch[]; // collection matches first
+}
+
+export interface BarcodeIndexStore {
+  schemaVersion: 1;
+  barcodes: Record<string, BarcodeMatch[]>; // barcode -> Discogs search results
+}
+
 export interface ScrobbleTrack {
   artist: string;
   track: string;
@@ -47,14 +155,35 @@ export interface ScrobbleTrack {
   timestamp?: number;
   duration?: number;
   albumCover?: string;
-  scrobbleStatus?: 'success' | 'failed' | 'ignored';
+  scrobbleStatus?: 'success' | 'failed' | 'ignored' | 'queued'; // Last.fm
+  targets?: Partial<Record<ScrobbleTargetId, ScrobbleTargetResult>>;
+}
+
+/**
+ * Services scrobbled to alongside Last.fm. Last.fm's own outcome stays in
+ * ScrobbleTrack.scrobbleStatus.
+ */
+export type ScrobbleTargetId = 'listenbrainz';
+
+export interface ScrobbleTargetResult {
+  status: 'success' | 'failed';
+  error?: string;
+  submittedAt: number; // milliseconds since epoch
+}
+
+/** Outcome of submitting a set of tracks to one additional target. */
+export interface ScrobbleTargetSummary {
+  target: ScrobbleTargetId;
+  success: number;
+  failed: number;
+  error?: string;
 }
 
 export interface ScrobbleSession {
   id: string;
   tracks: ScrobbleTrack[];
   timestamp: number;
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  status: 'pending' | 'in-progress' | 'completed' | 'failed' | 'reverted';
   error?: string;
   progress?: {
     current: number;
@@ -62,6 +191,44 @@ export interface ScrobbleSession {
     success: number;
     failed: number;
     ignored: number;
+    queued?: number;
+  };
+  // Set when the session was undone (status 'reverted')
+  revertedAt?: number;
+  // How the plays were scrobbled; sessions from before this was recorded
+  // are treated as 'app'
+  source?: ScrobbleSource;
+}
+
+/**
+ * A Last.fm scrobble the user has to delete by hand after undoing a
+ * session; the Last.fm API has no way to delete scrobbles.
+ */
+export interface LastFmRemovalEntry {
+  artist: string;
+  track: string;
+  album?: string;
+  timestamp: number;
+  // The track's page in the user's Last.fm library, which lists its
+  // scrobbles with a delete option
+  libraryUrl?: string;
+}
+
+export interface LastFmRemovalGuide {
+  sessionId: string;
+  username?: string;
+  entries: LastFmRemovalEntry[];
+}
+
+export interface ScrobbleUndoResult {
+  session: ScrobbleSession;
+  playsRemoved: number;
+  queuedCancelled: number;
+  lastfm: LastFmRemovalGuide;
+  listenbrainz?: {
+    deleted: number;
+    failed: number;
+    error?: string;
   };
 }
 
@@ -73,6 +240,7 @@ export interface CollectionFilterPreset {
     yearFrom: string;
     yearTo: string;
     dateAdded: string;
+    scope?: CollectionScope; // Discogs folder and custom fields
   };
   createdAt: number; // milliseconds since epoch
 }
@@ -87,6 +255,11 @@ export interface UserSettings {
     sessionKey?: string;
     username?: string;
   };
+  listenbrainz?: {
+    token?: string;
+    username?: string;
+    enabled?: boolean; // submit scrobbles; defaults to true once connected
+  };
   preferences: {
     defaultTimestamp: 'now' | 'custom';
     batchSize: number;
@@ -121,6 +294,11 @@ export interface AuthStatus {
     authenticated: boolean;
     username?: string;
   };
+  listenbrainz?: {
+    authenticated: boolean;
+    username?: string;
+    enabled: boolean;
+  };
 }
 
 export interface AppState {
@@ -199,15 +377,26 @@ export interface SuggestionSettings {
   weights: SuggestionWeights;
   excludeRecentlyPlayed: boolean;
   preferNeverPlayed: boolean;
+  collectionScope?: CollectionScope; // only suggest from these items
 }
 
 // ============================================
 // Scrobble History Index Types
 // ============================================
 
+/**
+ * Where a play in the history index came from: scrobbled in the app
+ * (batch or release scrobble), by the vinyl recognizer, as a memory
+ * scrobble, or by anything else scrobbling to Last.fm ('external').
+ */
+export type ScrobbleSource = 'app' | 'recognized' | 'memory' | 'external';
+
 export interface ScrobbleHistoryEntry {
   timestamp: number;
   track?: string;
+  // Tagged by the history sync from local session files; missing until
+  // a play has been tagged
+  source?: ScrobbleSource;
 }
 
 export interface AlbumHistoryEntry {
@@ -217,10 +406,14 @@ export interface AlbumHistoryEntry {
 }
 
 export interface ScrobbleHistoryIndex {
+  schemaVersion?: number;
   lastSyncTimestamp: number;
   totalScrobbles: number;
   oldestScrobbleDate: number;
   albums: Record<string, AlbumHistoryEntry>; // key: normalized "artist|album"
+  // Set by the v2 migration until existing plays have been tagged with
+  // their source
+  needsSourceTagging?: boolean;
 }
 
 export interface SyncStatus {
@@ -240,6 +433,44 @@ export interface SyncSettings {
   syncPace: 'fast' | 'normal' | 'slow'; // requests per second
 }
 
+// ============================================
+// History Import Types
+// ============================================
+
+/**
+ * Listening history export formats that can be imported into the history
+ * index instead of syncing page by page from Last.fm.
+ */
+export type HistoryImportFormat = 'lastfm-csv' | 'lastfm-json' | 'listenbrainz';
+
+/**
+ * What importing an uploaded export would add to the history index. The
+ * parsed file is kept on the server under importId until it's applied or
+ * expires.
+ */
+export interface HistoryImportPreview {
+  importId: string;
+  format: HistoryImportFormat;
+  totalPlays: number; // plays read from the file
+  skippedRows: number; // rows without artist, album, track or time
+  duplicatePlays: number; // already in the index (same album and timestamp)
+  newPlays: number;
+  newAlbums: number;
+  updatedAlbums: number; // existing albums that gain plays
+  newArtists: number;
+  newArtistNames: string[]; // first few, for display
+  oldestPlay: number | null; // seconds
+  newestPlay: number | null; // seconds
+  expiresAt: number; // ms
+}
+
+export interface HistoryImportResult {
+  playsAdded: number;
+  albumsAdded: number;
+  artistsAdded: number;
+  totalScrobbles: number; // index total after the import
+}
+
 // ============================================
 // History Index Merge Types
 // ============================================
@@ -561,6 +792,37 @@ export interface SourceBreakdownItem {
   percentage: number;
 }
 
+/**
+ * Plays split into physical (scrobbled from records through the app,
+ * the recognizer or memory scrobbles) and streaming (external) plays.
+ */
+export interface PlaySourceSplit {
+  physical: number;
+  streaming: number;
+  physicalPercentage: number;
+  bySource: Record<ScrobbleSource, number>;
+}
+
+export interface AlbumSourceSplit extends PlaySourceSplit {
+  artist: string;
+  album: string;
+}
+
+export interface ArtistSourceSplit extends PlaySourceSplit {
+  artist: string;
+}
+
+export interface PeriodSourceSplit extends PlaySourceSplit {
+  period: string; // YYYY-MM
+}
+
+export interface SourceSplitReport {
+  total: PlaySourceSplit;
+  albums: AlbumSourceSplit[];
+  artists: ArtistSourceSplit[];
+  periods: PeriodSourceSplit[];
+}
+
 export interface TimelineDataPoint {
   date: string; // YYYY-MM-DD or YYYY-MM or YYYY-Www depending on granularity
   count: number;
@@ -877,11 +1139,106 @@ export interface AppNotification {
     route: string;
     externalUrl?: string;
   };
+  rule?: NotificationRuleId; // Set when raised by a server-side rule
 }
 
 export interface NotificationStore {
   schemaVersion: 1;
   notifications: AppNotification[];
+  raisedKeys?: string[]; // Dedupe keys of rule notifications already raised
+}
+
+/**
+ * Server-side rules that raise notifications without a browser tab open
+ */
+export type NotificationRuleId =
+  | 'seller-match'
+  | 'label-release'
+  | 'website-item'
+  | 'wishlist-release'
+  | 'streak-milestone'
+  | 'backup-failure';
+
+export interface NotificationRuleSettings {
+  enabled: boolean;
+}
+
+export interface NotificationRulesStore {
+  schemaVersion: 1;
+  rules: Record<NotificationRuleId, NotificationRuleSettings>;
+}
+
+/**
+ * Outbound delivery of notifications (webhook, ntfy/Gotify push, email)
+ */
+export type NotificationChannelType = 'webhook' | 'push' | 'email';
+
+// Rule notifications are routed by rule; everything else is 'general'
+export type NotificationCategory = NotificationRuleId | 'general';
+
+export interface NotificationChannelRoute {
+  category: NotificationCategory;
+  maxPrice?: number; // seller-match only: skip matches priced above this
+  labelIds?: string[]; // label-release only: MonitoredLabel ids to send
+}
+
+export interface NotificationQuietHours {
+  start: string; // HH:MM, server local time
+  end: string; // HH:MM; may be earlier than start to span midnight
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret?: string; // HMAC-SHA256 signing secret (encrypted at rest)
+}
+
+export interface PushChannelConfig {
+  server: 'ntfy' | 'gotify';
+  url: string; // Server base URL
+  topic?: string; // ntfy only
+  token?: string; // ntfy access token or Gotify app token (encrypted at rest)
+  priority?: number; // ntfy 1-5, Gotify 0-10
+}
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS
+  username?: string;
+  password?: string; // Encrypted at rest
+  from: string;
+  to: string[];
+}
+
+interface NotificationChannelBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  routes: NotificationChannelRoute[];
+  quietHours?: NotificationQuietHours;
+  createdAt: number;
+  lastDeliveredAt?: number;
+  lastError?: string; // Error of the most recent failed delivery
+}
+
+export type NotificationChannelTarget =
+  | { type: 'webhook'; config: WebhookChannelConfig }
+  | { type: 'push'; config: PushChannelConfig }
+  | { type: 'email'; config: EmailChannelConfig };
+
+export type NotificationChannel = NotificationChannelBase &
+  NotificationChannelTarget;
+
+// Fields the client sends when creating or updating a channel
+export type NotificationChannelInput = Pick<
+  NotificationChannelBase,
+  'name' | 'enabled' | 'routes' | 'quietHours'
+> &
+  NotificationChannelTarget;
+
+export interface NotificationChannelsStore {
+  schemaVersion: 1;
+  channels: NotificationChannel[];
 }
 
 // ============================================
@@ -1222,7 +1579,7 @@ export interface SellerMatch {
   listingUrl: string; // Direct URL to listing
   listingId: number; // Discogs listing ID (used as stable ID)
   dateFound: number; // When we found this match
-  notified: boolean; // Whether notification was created (client-side)
+  notified: boolean; // Whether a notification has been raised for it
   status: 'active' | 'sold' | 'seen'; // Match status
   statusChangedAt?: number; // When status last changed (for cleanup of sold matches)
   statusConfidence?: 'verified' | 'unverified'; // Confidence level of sold status
@@ -2274,6 +2631,16 @@ export interface WrappedListeningStats {
     endDate: string; // YYYY-MM-DD
   } | null;
   heatmapData: { date: string; count: number }[];
+  // Left out when session reconstruction is not available
+  sessions?: WrappedSessionStats;
+}
+
+export interface WrappedSessionStats extends ListeningSessionSummary {
+  topFullAlbum: {
+    artist: string;
+    album: string;
+    count: number;
+  } | null;
 }
 
 export interface WrappedTopItem {
@@ -2320,6 +2687,75 @@ export interface WrappedCrossSourceStats {
   vinylPercentage: number; // 0-100
 }
 
+/** Which earlier range a Wrapped period is compared against. */
+export type WrappedCompareMode = 'previous' | 'lastYear';
+
+export interface WrappedStatDelta {
+  current: number;
+  previous: number;
+  change: number; // current - previous
+  percentChange: number | null; // null when previous is 0
+}
+
+export interface WrappedRankMovement {
+  name: string; // Artist name, album title or track name
+  artist: string;
+  album?: string;
+  currentRank: number | null; // 1-based, null when not played this period
+  previousRank: number | null; // 1-based, null when not played last period
+  currentPlayCount: number;
+  previousPlayCount: number;
+  // Positions climbed (negative = fell); null when unranked in either period
+  movement: number | null;
+  imageUrl?: string;
+}
+
+export interface WrappedRankComparison {
+  items: WrappedRankMovement[]; // Current top list with movements
+  newEntries: WrappedRankMovement[]; // In the current top list only
+  dropOuts: WrappedRankMovement[]; // In the previous top list only
+  biggestClimber: WrappedRankMovement | null;
+}
+
+/**
+ * Two Wrapped periods side by side -- generated fresh, not persisted
+ */
+export interface WrappedComparison {
+  current: WrappedData;
+  previous: WrappedData;
+  listening: {
+    totalScrobbles: WrappedStatDelta;
+    estimatedListeningHours: WrappedStatDelta;
+    uniqueArtists: WrappedStatDelta;
+    uniqueAlbums: WrappedStatDelta;
+    newArtistsDiscovered: WrappedStatDelta;
+  };
+  topArtists: WrappedRankComparison;
+  topAlbums: WrappedRankComparison;
+  topTracks: WrappedRankComparison;
+  // Previous top artists with no plays at all in the current period
+  stoppedPlaying: WrappedRankMovement[];
+  collection: {
+    recordsAdded: WrappedStatDelta;
+  };
+  crossSource: {
+    vinylScrobbles: WrappedStatDelta;
+    otherScrobbles: WrappedStatDelta;
+    vinylPercentage: WrappedStatDelta;
+  };
+}
+
+export interface WrappedExportOptions {
+  /** Replace names of hidden artists and albums and drop their images. */
+  redactHidden?: boolean;
+}
+
+/** A Wrapped slide that can be downloaded as a PNG story card. */
+export interface WrappedExportCard {
+  id: string;
+  title: string;
+}
+
 // ============================================
 // Discogs Raw API Response Types
 // ============================================
@@ -2404,12 +2840,36 @@ export interface DiscogsRawBasicInformation {
  */
 export interface DiscogsRawCollectionItem {
   id: number;
+  folder_id?: number;
   date_added: string;
   rating: number;
   notes?: CollectionNote[];
   basic_information: DiscogsRawBasicInformation;
 }
 
+/**
+ * Raw folder from Discogs /users/{username}/collection/folders endpoint.
+ */
+export interface DiscogsRawCollectionFolder {
+  id: number;
+  name: string;
+  count: number;
+  resource_url?: string;
+}
+
+/**
+ * Raw custom field from Discogs /users/{username}/collection/fields endpoint.
+ */
+export interface DiscogsRawCollectionField {
+  id: number;
+  name: string;
+  type: 'dropdown' | 'textarea';
+  options?: string[];
+  position: number;
+  public?: boolean;
+  lines?: number;
+}
+
 /**
  * Raw release data from Discogs /releases/{id} endpoint.
  */
@@ -2461,6 +2921,60 @@ export interface DiscogsCollectionProgress {
   error?: string;
 }
 
+/**
+ * Kind of change detected between two refreshes of the collection cache.
+ */
+export type CollectionChangeType =
+  | 'added'
+  | 'removed'
+  | 'rating'
+  | 'notes'
+  | 'folder';
+
+/**
+ * One entry in a collection's change log.
+ */
+export interface CollectionChange {
+  type: CollectionChangeType;
+  timestamp: number; // ms; date_added for additions, otherwise when detected
+  instanceId: number;
+  releaseId: number;
+  artist: string;
+  title: string;
+  coverImage?: string;
+  dateAdded?: string; // Discogs date_added of the collection item
+  before?: number | string; // rating, notes text or folder id
+  after?: number | string;
+}
+
+/**
+ * The fields of a collection item the change log compares between refreshes.
+ */
+export interface CollectionSnapshotEntry {
+  releaseId: number;
+  artist: string;
+  title: string;
+  coverImage?: string;
+  dateAdded: string;
+  rating: number;
+  notes: string;
+  folderId?: number;
+}
+
+export interface CollectionChangeLog {
+  snapshot: Record<string, CollectionSnapshotEntry>; // keyed by instance id
+  changes: CollectionChange[]; // oldest first
+  lastRefresh: number; // ms
+}
+
+/**
+ * Versioned store for collection change logs, keyed by Discogs username.
+ */
+export interface CollectionChangesStore extends VersionedStore {
+  schemaVersion: 1;
+  users: Record<string, CollectionChangeLog>;
+}
+
 /**
  * Cache entry with a timestamp for validation.
  */
@@ -2776,6 +3290,7 @@ export interface RecommendationSettings extends VersionedStore {
   excludeRecentlyRecommended: boolean;
   recentlyRecommendedWindowDays: number; // default 7
   embedding: EmbeddingSettings;
+  collectionScope?: CollectionScope; // only recommend from these items
 }
 
 /**
@@ -2817,12 +3332,14 @@ export interface GrowthTimeline {
   dataPoints: GrowthDataPoint[];
   granularity: 'month' | 'year';
   totalAdded: number;
+  totalRemoved: number;
 }
 
 export interface GrowthDataPoint {
   period: string;
   added: number;
-  cumulative: number;
+  removed: number;
+  cumulative: number; // net of removals
 }
 
 /**
@@ -2862,7 +3379,7 @@ export interface CollectionValueItem {
  * Value scan progress tracking
  */
 export interface ValueScanStatus {
-  status: 'idle' | 'scanning' | 'completed' | 'error';
+  status: 'idle' | 'scanning' | 'completed' | 'cancelled' | 'error';
   itemsScanned: number;
   totalItems: number;
   progress: number;
@@ -2935,6 +3452,51 @@ export interface AlbumArcBucket {
   trackCount: number;
 }
 
+/**
+ * How a reconstructed listening session played out: a whole album, part of
+ * one (such as a side or two), or a mix of albums a track or two at a time.
+ */
+export type ListeningSessionKind = 'full-album' | 'partial' | 'shuffle';
+
+export interface ListeningSessionAlbum {
+  artist: string;
+  album: string;
+  plays: number;
+  tracksPlayed: number; // distinct tracks played in the session
+  knownTracks: number; // distinct tracks of the album seen in all history
+}
+
+/**
+ * A run of consecutive plays reconstructed from the history index; what
+ * "sat down and played a record" looks like in scrobbles.
+ */
+export interface ListeningSession {
+  start: number; // Unix timestamp (seconds) of the first play
+  end: number; // Unix timestamp (seconds) of the last play
+  kind: ListeningSessionKind;
+  playCount: number;
+  albums: ListeningSessionAlbum[];
+}
+
+export interface ListeningSessionDay {
+  date: string; // YYYY-MM-DD, local time
+  playCount: number;
+  sessions: ListeningSession[];
+}
+
+export interface ListeningSessionSummary {
+  totalSessions: number;
+  fullAlbumPlays: number;
+  partialPlays: number;
+  shuffles: number;
+}
+
+export interface ListeningSessionsResult extends ListeningSessionSummary {
+  startDate: number; // Unix timestamp (seconds)
+  endDate: number; // Unix timestamp (seconds)
+  days: ListeningSessionDay[]; // Newest first
+}
+
 export interface TasteDriftGenre {
   name: string;
   weight: number;
@@ -3023,3 +3585,543 @@ export interface DurationLookupResult {
   duration: number | null; // seconds, null if not found
   source: 'discogs_collection' | 'lastfm' | 'discogs_search' | 'not_found';
 }
+
+// ============================================
+// Listening Pattern & Backfill Types (Feature 3)
+// ============================================
+
+/**
+ * Part of the day used when picking a backfill window.
+ * Hours (local time): morning 6-11, afternoon 12-17, evening 18-23, night 0-5.
+ */
+export type DayPeriod = 'morning' | 'afternoon' | 'evening' | 'night';
+
+/**
+ * Learned session start hour (0-23, fractional) for one day of the week.
+ * null when no session ever started in that part of the day.
+ */
+export interface TypicalStartTimes {
+  dayOfWeek: number; // 0-6 (Sunday = 0)
+  morning: number | null;
+  afternoon: number | null;
+  evening: number | null;
+  night: number | null;
+}
+
+/**
+ * Listening patterns learned from the scrobble history index.
+ * Durations are in seconds; timestamps are Unix seconds.
+ */
+export interface ListeningPatterns {
+  typicalStartTimes: TypicalStartTimes[];
+  averageSessionLength: number; // seconds
+  averageGapBetweenAlbums: number; // seconds
+  averageAlbumsPerSession: number;
+  peakHour: number; // 0-23, from the hourly distribution
+  peakDayOfWeek: number; // 0-6, from the day-of-week distribution
+  sessionCount: number;
+  analyzedFrom: number; // Unix seconds
+  analyzedTo: number; // Unix seconds
+  calculatedAt: number; // ms (Date.now())
+}
+
+/**
+ * A time window to backfill into. Either explicit bounds (start/end) or a
+ * day + period that is resolved against the learned patterns.
+ */
+export interface BackfillWindowRequest {
+  start?: number; // Unix seconds
+  end?: number; // Unix seconds
+  date?: string; // YYYY-MM-DD (local)
+  daysAgo?: number; // 1 = yesterday
+  dayOfWeek?: number; // most recent past occurrence, e.g. 6 = "last Saturday"
+  period?: DayPeriod;
+}
+
+/**
+ * A resolved backfill window with a human-readable label.
+ */
+export interface BackfillWindow {
+  label: string;
+  start: number; // Unix seconds
+  end: number; // Unix seconds
+  suggestedStart: number; // Unix seconds, learned typical start inside the window
+  outsideLastFmWindow: boolean; // true if older than Last.fm's 14-day limit
+}
+
+/**
+ * One album from the backfill queue with its planned track timestamps.
+ */
+export interface BackfillPlannedAlbum {
+  releaseId: number;
+  artist: string;
+  album: string;
+  start: number; // Unix seconds
+  end: number; // Unix seconds
+  tracks: ScrobbleTrack[];
+  unknownDurations: number; // tracks that fell back to the default duration
+}
+
+/**
+ * Proposed per-track timestamps for a queue of collection items.
+ */
+export interface BackfillPlan {
+  window: BackfillWindow;
+  albums: BackfillPlannedAlbum[];
+  gapBetweenAlbums: number; // seconds
+  totalDuration: number; // seconds, from first track start to last track end
+  overflows: boolean; // true if the queue does not fit in the window
+  skipped: Array<{ releaseId: number; reason: string }>;
+}
+
+/**
+ * A ready-made backfill window ("Yesterday evening", "Last Saturday evening").
+ * `request` can be sent back as-is to the backfill planner.
+ */
+export interface BackfillPreset {
+  id: string;
+  request: BackfillWindowRequest;
+  window: BackfillWindow;
+}
+
+/**
+ * An existing scrobble from the history index that overlaps a proposed one.
+ * Artist/album come from the index key and are lowercased.
+ */
+export interface ExistingScrobble {
+  artist: string;
+  album: string;
+  track?: string;
+  timestamp: number; // Unix seconds
+}
+
+/**
+ * A proposed track whose play time overlaps existing scrobbles.
+ * `trackIndex` refers to the position in the checked track list.
+ */
+export interface ScrobbleConflict {
+  trackIndex: number;
+  timestamp: number; // Unix seconds
+  existing: ExistingScrobble[];
+}
+
+/**
+ * Result of checking proposed scrobbles against the history index.
+ */
+export interface ScrobbleConflictReport {
+  tracks: ScrobbleTrack[]; // checked tracks with timestamps filled in
+  conflicts: ScrobbleConflict[];
+  hasConflicts: boolean;
+  // Only set when auto-shift was requested. null means no free gap was
+  // found within a day either side of the proposed time.
+  autoShift?: {
+    tracks: ScrobbleTrack[];
+    offsetSeconds: number; // negative = moved earlier
+  } | null;
+}
+
+// ============================================
+// Scrobble Retry Queue Types
+// ============================================
+
+/**
+ * A scrobble that failed for a transient reason (Last.fm offline, rate
+ * limited, network error) and is waiting to be retried.
+ */
+export interface QueuedScrobble {
+  id: string;
+  track: ScrobbleTrack; // timestamp is always set
+  sessionId?: string; // scrobbles/session-<id>.json the track came from
+  trackIndex?: number; // index of the track within that session
+  queuedAt: number; // ms
+  attempts: number;
+  nextAttemptAt: number; // ms
+  lastError?: string;
+}
+
+/**
+ * A queued scrobble that was given up on, with the reason shown to the user.
+ */
+export interface FailedQueuedScrobble extends QueuedScrobble {
+  failedAt: number; // ms
+  reason: string;
+}
+
+/**
+ * Persisted retry queue (scrobbles/queue.json).
+ */
+export interface ScrobbleQueueStore {
+  schemaVersion: 1;
+  pending: QueuedScrobble[];
+  failed: FailedQueuedScrobble[]; // most recent last, capped
+  lastDrainAt?: number; // ms
+}
+
+export interface ScrobbleQueueStatus {
+  pending: number;
+  failed: number;
+  nextAttemptAt: number | null; // ms, earliest pending retry
+  oldestQueuedAt: number | null; // ms
+  lastDrainAt: number | null; // ms
+}
+
+export interface ScrobbleQueueDrainResult {
+  succeeded: number;
+  retrying: number; // still pending after a failed attempt
+  failed: number; // expired or rejected during this drain
+}
+
+// ============================================
+// Vinyl Side Types
+// ============================================
+
+/**
+ * One side of a vinyl release, derived from track positions ("A1", "B3").
+ */
+export interface VinylSide {
+  side: string; // "A", "B", ...
+  disc: number; // A/B = 1, C/D = 2, ...
+  trackIndices: number[]; // positions in the release tracklist
+  durationSeconds: number; // missing track durations are estimated
+}
+
+/**
+ * The sides of a release scrobbled most recently, used to suggest which
+ * side to play next.
+ */
+export interface ReleaseSideMemory {
+  releaseId: number;
+  sides: string[]; // sides scrobbled in the last play, in order
+  lastSide: string; // final side of that play
+  playedAt: number; // ms
+}
+
+/**
+ * Persisted side memory (scrobbles/side-memory.json), keyed by release ID.
+ */
+export interface SideMemoryStore {
+  schemaVersion: 1;
+  releases: Record<string, ReleaseSideMemory>;
+}
+
+// ============================================
+// Recognizer Session Types
+// ============================================
+
+/**
+ * Events a playback recognizer (such as the Raspberry Pi audio detector)
+ * streams to POST /api/v1/scrobble/recognized while a record plays.
+ * - track-start: a track was recognized; repeats of the same track are
+ *   folded into one play
+ * - confidence: a new match confidence for the track playing now
+ * - track-end: the track playing now finished
+ * - needle-lift: playback stopped, ending the session
+ */
+export type RecognizerEventType =
+  | 'track-start'
+  | 'confidence'
+  | 'track-end'
+  | 'needle-lift';
+
+export interface RecognizerEvent {
+  event: RecognizerEventType;
+  source: string; // recognizer name
+  artist?: string; // track-start only
+  title?: string; // track-start only
+  album?: string;
+  confidence?: number; // 0-1
+  timestamp: number; // seconds since epoch
+}
+
+export type RecognizedPlayRejectReason =
+  | 'low-confidence'
+  | 'too-short'
+  | 'scrobble-failed'
+  | 'device-paused';
+
+/**
+ * One track heard during a recognizer session. Inferred plays were not
+ * recognized but sit between two recognized tracks on the same side.
+ */
+export interface RecognizedPlay {
+  id: string;
+  artist: string;
+  title: string;
+  album?: string; // release title once resolved against the collection
+  releaseId?: number;
+  collectionItemId?: number;
+  position?: string; // Discogs tracklist position, e.g. "B2"
+  side?: string;
+  trackIndex?: number; // index in the release tracklist
+  duration?: number; // seconds
+  startedAt: number; // seconds
+  endedAt?: number; // seconds; unset while the track is playing
+  lastHeardAt: number; // seconds
+  confidence: number; // average over all reports of this track
+  recognitions: number; // track-start and confidence reports
+  inferred?: boolean;
+  status: 'playing' | 'scrobbled' | 'rejected';
+  rejectReason?: RecognizedPlayRejectReason;
+}
+
+export interface RecognizerSession {
+  id: string;
+  source: string;
+  startedAt: number; // seconds
+  lastEventAt: number; // seconds
+  endedAt?: number; // seconds; unset while the session is active
+  releaseId?: number; // release currently on the turntable, once known
+  plays: RecognizedPlay[];
+}
+
+/**
+ * Persisted recognizer sessions (scrobbles/recognizer-sessions.json),
+ * oldest first.
+ */
+export interface RecognizerSessionStore {
+  schemaVersion: 1;
+  sessions: RecognizerSession[];
+}
+
+/** What handling one recognizer event changed. */
+export interface RecognizerEventResult {
+  session: RecognizerSession | null; // null when no session was active
+  scrobbled: RecognizedPlay[];
+  rejected: RecognizedPlay[];
+}
+
+/** Running totals for one registered recognizer. */
+export interface RecognizerDeviceStats {
+  scrobbled: number;
+  rejected: number;
+  confidenceTotal: number; // sum of reported confidences
+  confidenceCount: number;
+}
+
+/**
+ * A recognizer allowed to send events. Only a hash of its API key is
+ * stored; the key itself is shown once, when the device is registered.
+ */
+export interface RecognizerDevice {
+  id: string;
+  name: string;
+  keyHash: string; // SHA-256, hex
+  keyPreview: string; // start of the key, to tell keys apart
+  createdAt: number; // ms
+  lastSeenAt?: number; // ms
+  paused: boolean; // events are followed but nothing is scrobbled
+  stats: RecognizerDeviceStats;
+}
+
+/**
+ * Persisted recognizer registry (settings/recognizer-devices.json).
+ */
+export interface RecognizerDeviceStore {
+  schemaVersion: 1;
+  devices: RecognizerDevice[];
+}
+
+/** A registered recognizer as listed in Settings. */
+export interface RecognizerDeviceSummary {
+  id: string;
+  name: string;
+  keyPreview: string;
+  createdAt: number; // ms
+  lastSeenAt?: number; // ms
+  paused: boolean;
+  scrobbled: number;
+  rejected: number;
+  averageConfidence: number | null; // 0-1, null before any report
+}
+
+export interface RecognizerDeviceRegistration {
+  device: RecognizerDeviceSummary;
+  apiKey: string;
+}
+
+// ============================================
+// Job System Types
+// ============================================
+
+export type JobState =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * A background job (sync, scan, rebuild, ...) tracked by JobService.
+ */
+export interface Job {
+  id: string;
+  type: string; // e.g. 'history-sync', 'seller-scan'
+  status: JobState;
+  message: string;
+  error?: string;
+  progress?: number; // 0-100, absent when the total isn't known
+  cancellable: boolean;
+  cancelRequested?: boolean;
+  queuedAt: number; // ms
+  startedAt?: number; // ms, absent while queued
+  completedAt?: number; // ms
+}
+
+/**
+ * Persisted job history (jobs/jobs.json).
+ */
+export interface JobHistoryStore extends VersionedStore {
+  schemaVersion: 1;
+  jobs: Job[]; // most recent first, finished jobs capped
+}
+
+// ============================================
+// Discogs API Client Types
+// ============================================
+
+/**
+ * Queue priority for Discogs requests. Interactive requests are sent
+ * before any queued background (scan and sync) requests.
+ */
+export type DiscogsRequestPriority = 'interactive' | 'background';
+
+/**
+ * Shared Discogs rate-limit budget and client counters since startup
+ */
+export interface DiscogsBudget {
+  limit: number;
+  used: number;
+  remaining: number;
+  isThrottled: boolean;
+  lastUpdated: number;
+  // Requests waiting for a rate-limit token
+  queued: Record<DiscogsRequestPriority, number>;
+  // Requests sent to Discogs
+  requests: Record<DiscogsRequestPriority, number>;
+  // 429 responses received
+  rateLimited: number;
+  cache: {
+    hits: number; // Served from disk without a request
+    revalidated: number; // 304 Not Modified for a stored ETag
+    misses: number; // Fetched in full and stored
+  };
+}
+
+/**
+ * Stored Discogs GET response (cache/discogs/<hash>.json)
+ */
+export interface DiscogsResponseCacheEntry {
+  schemaVersion: 1;
+  url: string;
+  etag?: string;
+  storedAt: number;
+  data: unknown;
+}
+
+// ============================================
+// Scheduler Types
+// ============================================
+
+export type ScheduledTaskId =
+  | 'history-sync'
+  | 'wishlist-sync'
+  | 'new-release-check'
+  | 'seller-scan'
+  | 'label-scan'
+  | 'auto-backup';
+
+/**
+ * User-editable settings for one scheduled task.
+ */
+export interface ScheduledTaskSettings {
+  enabled: boolean;
+  schedule: string; // 5-field cron expression, server local time
+  jitterMinutes: number; // random delay added to each run
+  catchUp: boolean; // run once after a missed run (sleep, restart)
+}
+
+/**
+ * Persisted state of a scheduled task.
+ */
+export interface ScheduledTaskState extends ScheduledTaskSettings {
+  nextRunAt?: number; // ms, jitter included
+  lastRunAt?: number; // ms, when the last run started
+  lastStatus?: 'completed' | 'failed';
+  lastMessage?: string; // completion message or error
+  lastDurationMs?: number;
+}
+
+/**
+ * A scheduled task as returned by the API.
+ */
+export interface ScheduledTask extends ScheduledTaskState {
+  id: ScheduledTaskId;
+  name: string;
+  description: string;
+  usesDiscogs: boolean;
+  running: boolean;
+}
+
+export interface SchedulerSettings {
+  // Discogs tasks wait while fewer requests than this remain in the
+  // current rate-limit window
+  discogsMinRemaining: number;
+}
+
+/**
+ * Persisted scheduler state (scheduler/schedule.json).
+ */
+export interface SchedulerStore extends VersionedStore, SchedulerSettings {
+  schemaVersion: 1;
+  tasks: Partial<Record<ScheduledTaskId, ScheduledTaskState>>;
+}
+
+// ============================================
+// Server-Sent Event Types
+// ============================================
+
+/**
+ * Events pushed to the renderer over GET /api/v1/events.
+ */
+export type ServerEvent =
+  | { type: 'job'; job: Job }
+  | {
+      type: 'scrobble-progress';
+      sessionId: string;
+      status: ScrobbleSession['status'];
+      progress?: ScrobbleSession['progress'];
+      error?: string;
+    }
+  | { type: 'scan-progress'; scan: 'seller'; status: SellerScanStatus }
+  | { type: 'scan-progress'; scan: 'label'; status: LabelScanStatus }
+  | { type: 'scan-progress'; scan: 'website'; status: WebsiteScanStatus }
+  | { type: 'scan-progress'; scan: 'value'; status: ValueScanStatus }
+  | { type: 'sync-progress'; status: SyncStatus }
+  | {
+      type: 'embedding-progress';
+      progress: EmbeddingStatus['rebuildProgress'] | null;
+    }
+  | { type: 'notification'; notification: AppNotification }
+  | { type: 'scheduled-task'; task: ScheduledTask };
+
+export type ServerEventType = ServerEvent['type'];
+
+// ============================================
+// Profile Types
+// ============================================
+
+/**
+ * A person sharing the installation. Each profile has its own accounts,
+ * settings and history; the default profile uses the top-level data
+ * directory so single-user installs need no migration.
+ */
+export interface UserProfile {
+  id: string;
+  name: string;
+  createdAt: number; // milliseconds
+}
+
+export interface ProfilesStore extends VersionedStore {
+  schemaVersion: 1;
+  profiles: UserProfile[];
+}
@@ -0,0 +1,92 @@
+/**
+ * Collection scope utilities
+ *
+ * Shared by the collection page filters, suggestions and recommendations so
+ * that a folder or custom-field restriction means the same thing everywhere.
+ */
+
+import { CollectionItem, CollectionScope } from '../types';
+
+/**
+ * Whether a scope restricts anything at all.
+ */
+export function isCollectionScopeActive(
+  scope: CollectionScope | undefined
+): boolean {
+  if (!scope) return false;
+  if (scope.folderId) return true;
+  return Object.values(scope.fieldValues ?? {}).some(
+    value => value.trim() !== ''
+  );
+}
+
+/**
+ * Whether a collection item falls within the scope. Items cached before
+ * folder ids were kept never match a folder restriction.
+ */
+export function matchesCollectionScope(
+  item: CollectionItem,
+  scope: CollectionScope | undefined
+): boolean {
+  if (!scope) return true;
+
+  if (scope.folderId && item.folder_id !== scope.folderId) {
+    return false;
+  }
+
+  for (const [fieldId, wanted] of Object.entries(scope.fieldValues ?? {})) {
+    const target = wanted.trim().toLowerCase();
+    if (!target) continue;
+
+    const note = item.notes?.find(n => String(n.field_id) === fieldId);
+    const value = (note?.value ?? '').trim().toLowerCase();
+    if (!value.includes(target)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Items within the scope; returns the input unchanged when the scope is
+ * empty.
+ */
+export function filterByCollectionScope<T extends CollectionItem>(
+  items: T[],
+  scope: CollectionScope | undefined
+): T[] {
+  if (!isCollectionScopeActive(scope)) return items;
+  return items.filter(item => matchesCollectionScope(item, scope));
+}
+
+/**
+ * Build a scope from untrusted input (request bodies, stored settings),
+ * dropping anything malformed. Returns undefined when nothing is restricted.
+ */
+export function parseCollectionScope(
+  raw: unknown
+): CollectionScope | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const input = raw as { folderId?: unknown; fieldValues?: unknown };
+
+  const scope: CollectionScope = {};
+  const folderId = Number(input.folderId);
+  if (Number.isInteger(folderId) && folderId > 0) {
+    scope.folderId = folderId;
+  }
+
+  if (input.fieldValues && typeof input.fieldValues === 'object') {
+    const fieldValues: Record<string, string> = {};
+    for (const [fieldId, value] of Object.entries(input.fieldValues)) {
+      if (/^\d+$/.test(fieldId) && typeof value === 'string' && value.trim()) {
+        fieldValues[fieldId] = value.trim();
+      }
+    }
+    if (Object.keys(fieldValues).length > 0) {
+      scope.fieldValues = fieldValues;
+    }
+  }
+
+  return isCollectionScopeActive(scope) ? scope : undefined;
+}
@@ -0,0 +1,96 @@
+/**
+ * Shelf location and barcode utilities
+ *
+ * Locations are written to a Discogs custom note field as text like
+ * "Shelf B, Row 2, #14" and read back from the same format, so the
+ * formatter and parser here must stay in step.
+ */
+
+import { ShelfLocation } from '../types';
+
+/**
+ * Human-readable location, e.g. "Shelf B, Row 2, #14".
+ */
+export function formatShelfLocation(location: ShelfLocation): string {
+  const parts = [`Shelf ${location.shelf}`];
+  if (location.row) parts.push(`Row ${location.row}`);
+  if (location.position) parts.push(`#${location.position}`);
+  return parts.join(', ');
+}
+
+/**
+ * Read a location from note text written by `formatShelfLocation`. Also
+ * accepts a bare "B/2/14" or "B-2-14". Returns null when the text isn't a
+ * location.
+ */
+export function parseShelfLocation(text: string): ShelfLocation | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const labelled = trimmed.match(
+    /^shelf\s+([^,]+?)(?:\s*,\s*row\s+([^,]+?))?(?:\s*,\s*#\s*(\d+))?$/i
+  );
+  if (labelled) {
+    return buildLocation(labelled[1], labelled[2], labelled[3]);
+  }
+
+  const bare = trimmed.match(/^([^/\s-]+)\s*[/-]\s*([^/\s-]+)\s*[/-]\s*(\d+)$/);
+  if (bare) {
+    return buildLocation(bare[1], bare[2], bare[3]);
+  }
+
+  return null;
+}
+
+/**
+ * Build a location from untrusted input (request bodies), trimming and
+ * dropping anything malformed. Returns null without a shelf.
+ */
+export function sanitizeShelfLocation(raw: unknown): ShelfLocation | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const input = raw as { shelf?: unknown; row?: unknown; position?: unknown };
+  if (typeof input.shelf !== 'string') return null;
+
+  return buildLocation(
+    input.shelf,
+    typeof input.row === 'string' ? input.row : undefined,
+    input.position
+  );
+}
+
+function buildLocation(
+  shelf: string,
+  row: string | undefined,
+  position: unknown
+): ShelfLocation | null {
+  const location: ShelfLocation = { shelf: shelf.trim().slice(0, 40) };
+  if (!location.shelf) return null;
+
+  const trimmedRow = row?.trim().slice(0, 40);
+  if (trimmedRow) location.row = trimmedRow;
+
+  const slot = Number(position);
+  if (Number.isInteger(slot) && slot > 0) location.position = slot;
+
+  return location;
+}
+
+/**
+ * Digits of an EAN-13, EAN-8, UPC-A or GTIN-14 barcode, or null if the
+ * input isn't one. Spaces and dashes (as printed under the bars) are
+ * ignored; the check digit must be right, which catches mistyped codes.
+ */
+export function normalizeBarcode(raw: string): string | null {
+  const digits = raw.replace(/[\s-]/g, '');
+  if (!/^(\d{8}|\d{12,14})$/.test(digits)) return null;
+
+  // GTIN check digit: weights 3,1,3,... from the right, excluding the check
+  // digit itself
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 3 ? 1 : 3;
+  }
+  const check = (10 - (sum % 10)) % 10;
+  return check === Number(digits[digits.length - 1]) ? digits : null;
+}
@@ -0,0 +1,192 @@
+/**
+ * Vinyl side utilities
+ *
+ * Discogs encodes the side of a vinyl track in its position: "A1", "B3",
+ * "C" (a single track filling side C) or "A2a" (a sub-track). These helpers
+ * group a tracklist into sides and discs (A/B = disc 1, C/D = disc 2, ...)
+ * and lay out scrobble timestamps from the actual track durations, so a
+ * partial play such as "side B only" or "sides C and D" can be scrobbled
+ * with realistic timing.
+ */
+
+import { Track, VinylSide } from '../types';
+
+/** Fallback when neither the track nor the release has any durations. */
+export const DEFAULT_TRACK_DURATION_SECONDS = 180;
+
+/** Gap between consecutive tracks on the same side. */
+export const TRACK_GAP_SECONDS = 1;
+
+/** Time to flip or change the record between sides. */
+export const SIDE_CHANGE_SECONDS = 30;
+
+const SIDE_POSITION_PATTERN = /^([A-Z])(\d+[a-z]?)?$/;
+
+/**
+ * Side letter for a track position ("B3" -> "B"), or null when the position
+ * doesn't look like a vinyl side (CD positions, index tracks, headings).
+ */
+export function getTrackSide(position: string | undefined): string | null {
+  const match = (position || '').trim().match(SIDE_POSITION_PATTERN);
+  return match ? match[1] : null;
+}
+
+/**
+ * Disc number for a side letter (A/B -> 1, C/D -> 2, ...).
+ */
+export function getSideDisc(side: string): number {
+  return Math.floor((side.charCodeAt(0) - 65) / 2) + 1;
+}
+
+/**
+ * Parse a Discogs duration ("3:45" or "1:02:30") into seconds, or null when
+ * the duration is missing or malformed.
+ */
+export function parseDuration(
+  duration: string | number | undefined
+): number | null {
+  if (typeof duration === 'number') {
+    return duration > 0 ? duration : null;
+  }
+  if (!duration) return null;
+
+  const parts = duration.trim().split(':');
+  if (parts.length < 2 || parts.length > 3) return null;
+  if (!parts.every(part => /^\d+$/.test(part))) return null;
+
+  const seconds = parts.reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds > 0 ? seconds : null;
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0
+    ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : null;
+
+/**
+ * Duration in seconds for every track of a release. Tracks without a listed
+ * duration get the average of the other tracks on the same side, then of the
+ * whole release, before falling back to the default.
+ */
+export function getTrackDurations(tracklist: Track[]): number[] {
+  const parsed = tracklist.map(track => parseDuration(track.duration));
+
+  const knownBySide = new Map<string, number[]>();
+  tracklist.forEach((track, index) => {
+    const side = getTrackSide(track.position);
+    const duration = parsed[index];
+    if (side && duration !== null) {
+      knownBySide.set(side, [...(knownBySide.get(side) || []), duration]);
+    }
+  });
+  const releaseAverage = average(
+    parsed.filter((duration): duration is number => duration !== null)
+  );
+
+  return tracklist.map((track, index) => {
+    const duration = parsed[index];
+    if (duration !== null) return duration;
+
+    const side = getTrackSide(track.position);
+    const sideAverage = side ? average(knownBySide.get(side) || []) : null;
+    return sideAverage ?? releaseAverage ?? DEFAULT_TRACK_DURATION_SECONDS;
+  });
+}
+
+/**
+ * Sides of a release in alphabetical order with their tracks and playing
+ * time. Returns an empty list for releases without side positions.
+ */
+export function getReleaseSides(tracklist: Track[]): VinylSide[] {
+  const durations = getTrackDurations(tracklist);
+  const sides = new Map<string, VinylSide>();
+
+  tracklist.forEach((track, index) => {
+    const side = getTrackSide(track.position);
+    if (!side) return;
+
+    const entry = sides.get(side) || {
+      side,
+      disc: getSideDisc(side),
+      trackIndices: [],
+      durationSeconds: 0,
+    };
+    entry.trackIndices.push(index);
+    entry.durationSeconds += durations[index];
+    sides.set(side, entry);
+  });
+
+  return Array.from(sides.values()).sort((a, b) =>
+    a.side.localeCompare(b.side)
+  );
+}
+
+/**
+ * Tracklist indices for the given sides, in tracklist order.
+ */
+export function getSideTrackIndices(
+  tracklist: Track[],
+  sides: string[]
+): number[] {
+  const wanted = new Set(sides.map(side => side.toUpperCase()));
+  return tracklist
+    .map((track, index) => ({ side: getTrackSide(track.position), index }))
+    .filter(({ side }) => side !== null && wanted.has(side))
+    .map(({ index }) => index);
+}
+
+/**
+ * The side to suggest after `lastSide` was played: the next side of the
+ * release, or null when `lastSide` was the final side (or isn't on it).
+ */
+export function getNextSide(
+  sides: VinylSide[],
+  lastSide: string | undefined
+): VinylSide | null {
+  if (!lastSide) return null;
+  const index = sides.findIndex(side => side.side === lastSide);
+  return index >= 0 && index < sides.length - 1 ? sides[index + 1] : null;
+}
+
+export interface ScheduledTrack {
+  index: number; // position in the release tracklist
+  timestamp: number; // seconds
+  duration: number; // seconds
+}
+
+/**
+ * Lay out start timestamps for the selected tracks, beginning at
+ * `startTime` (seconds). Consecutive tracks are a second apart; moving to
+ * another side adds time to flip or change the record.
+ */
+export function scheduleTracks(
+  tracklist: Track[],
+  trackIndices: number[],
+  startTime: number
+): { tracks: ScheduledTrack[]; totalDuration: number } {
+  const durations = getTrackDurations(tracklist);
+  const tracks: ScheduledTrack[] = [];
+  let currentTime = startTime;
+  let previousSide: string | null = null;
+
+  [...trackIndices]
+    .sort((a, b) => a - b)
+    .forEach(index => {
+      const side = getTrackSide(tracklist[index]?.position);
+      if (tracks.length > 0) {
+        currentTime +=
+          side && previousSide && side !== previousSide
+            ? SIDE_CHANGE_SECONDS
+            : TRACK_GAP_SECONDS;
+      }
+      tracks.push({
+        index,
+        timestamp: currentTime,
+        duration: durations[index],
+      });
+      currentTime += durations[index];
+      previousSide = side;
+    });
+
+  return { tracks, totalDuration: currentTime - startTime };
+}
@@ -107,6 +107,42 @@ describe('AuthService', () => {
     });
   });
 
+  describe('ListenBrainz Authentication', () => {
+    it('should store the token encrypted and enable submission', async () => {
+      await authService.setListenBrainzToken('lb-token', 'lb-user');
+
+      const credentials = await authService.getListenBrainzCredentials();
+      expect(credentials).toEqual({
+        token: 'lb-token',
+        username: 'lb-user',
+        enabled: true,
+      });
+
+      const raw = await fileStorage.readJSON<{
+        listenbrainz: { token: string };
+      }>('settings/user-settings.json');
+      expect(raw?.listenbrainz.token).not.toBe('lb-token');
+    });
+
+    it('should disable submission without forgetting the token', async () => {
+      await authService.setListenBrainzToken('lb-token', 'lb-user');
+      await authService.setListenBrainzEnabled(false);
+
+      const credentials = await authService.getListenBrainzCredentials();
+      expect(credentials.token).toBe('lb-token');
+      expect(credentials.enabled).toBe(false);
+    });
+
+    it('should clear the token on its own', async () => {
+      await authService.setListenBrainzToken('lb-token', 'lb-user');
+      await authService.clearListenBrainzToken();
+
+      const credentials = await authService.getListenBrainzCredentials();
+      expect(credentials.token).toBeUndefined();
+      expect(credentials.username).toBeUndefined();
+    });
+  });
+
   describe('User Settings', () => {
     it('should get default user settings', async () => {
       const settings = await authService.getUserSettings();
@@ -223,6 +223,36 @@ describe('BackupService', () => {
       expect(backup.data.userSettings).not.toHaveProperty('discogs.token');
     });
 
+    it('should keep the ListenBrainz token out of the plain settings', async () => {
+      await fileStorage.writeJSON('settings/user-settings.json', {
+        discogs: {},
+        lastfm: {},
+        listenbrainz: { username: 'lb-user', token: 'lb-secret' },
+        preferences: {
+          defaultTimestamp: 'now',
+          batchSize: 50,
+          autoScrobble: false,
+        },
+      });
+
+      const withoutCredentials: BackupFile = JSON.parse(
+        await service.exportBackup({ includeCredentials: false })
+      );
+      const withCredentials: BackupFile = JSON.parse(
+        await service.exportBackup({
+          includeCredentials: true,
+          password: 'test-password-123',
+        })
+      );
+
+      expect(withoutCredentials.data.userSettings).not.toHaveProperty(
+        'listenbrainz'
+      );
+      expect(JSON.stringify(withCredentials.data.userSettings)).not.toContain(
+        'lb-secret'
+      );
+    });
+
     it('should include all data types in backup', async () => {
       // Setup comprehensive test data
       await fileStorage.writeJSON('mappings/album-mappings.json', {
@@ -579,6 +609,7 @@ describe('BackupService', () => {
       const testCredentials = {
         discogs: { username: 'test-user', token: 'secret-token-123' },
         lastfm: { username: 'lastfm-user', sessionKey: 'secret-session-key' },
+        listenbrainz: { username: 'lb-user', token: 'lb-token' },
       };
 
       await fileStorage.writeJSON('settings/user-settings.json', {
@@ -614,12 +645,14 @@ describe('BackupService', () => {
       const restored = await fileStorage.readJSON<{
         discogs: { username: string; token: string };
         lastfm: { username: string; sessionKey: string };
+        listenbrainz: { username: string; token: string };
       }>('settings/user-settings.json');
 
       expect(restored?.discogs.username).toBe('test-user');
       expect(restored?.discogs.token).toBe('secret-token-123');
       expect(restored?.lastfm.username).toBe('lastfm-user');
       expect(restored?.lastfm.sessionKey).toBe('secret-session-key');
+      expect(restored?.listenbrainz.token).toBe('lb-token');
     });
 
     it('should reject wrong password for decryption', async () => {
@@ -408,6 +408,31 @@ describe('CleanupService', () => {
     });
   });
 
+  describe('cleanupDiscogsResponseCache', () => {
+    it('should remove responses not used for 30 days', async () => {
+      // Arrange
+      await fs.mkdir(`${testDataDir}/cache/discogs`, { recursive: true });
+      const oldPath = `${testDataDir}/cache/discogs/old.json`;
+      await fs.writeFile(oldPath, JSON.stringify({ schemaVersion: 1 }));
+      const oldTime = new Date(daysAgo(31));
+      await fs.utimes(oldPath, oldTime, oldTime);
+      const freshPath = `${testDataDir}/cache/discogs/fresh.json`;
+      await fs.writeFile(freshPath, JSON.stringify({ schemaVersion: 1 }));
+
+      // Act
+      const removed = await cleanupService.cleanupDiscogsResponseCache();
+
+      // Assert
+      expect(removed).toBe(1);
+      await expect(fs.access(oldPath)).rejects.toThrow();
+      await expect(fs.access(freshPath)).resolves.toBeUndefined();
+    });
+
+    it('should handle a missing cache directory', async () => {
+      expect(await cleanupService.cleanupDiscogsResponseCache()).toBe(0);
+    });
+  });
+
   describe('runCleanup', () => {
     it('should return cleanup report with all operations', async () => {
       // Arrange - create various data files
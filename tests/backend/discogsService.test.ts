@@ -1,6 +1,10 @@
 import { AuthService } from '../../src/backend/services/authService';
+import { CollectionChangeService } from '../../src/backend/services/collectionChangeService';
 import { DiscogsService } from '../../src/backend/services/discogsService';
-import { getDiscogsAxios } from '../../src/backend/utils/discogsAxios';
+import {
+  getDiscogsAxios,
+  withDiscogsPriority,
+} from '../../src/backend/utils/discogsAxios';
 import { FileStorage } from '../../src/backend/utils/fileStorage';
 
 // Mock dependencies
@@ -11,6 +15,9 @@ jest.mock('../../src/backend/utils/fileStorage');
 const mockedGetDiscogsAxios = getDiscogsAxios as jest.MockedFunction<
   typeof getDiscogsAxios
 >;
+const mockedWithDiscogsPriority = withDiscogsPriority as jest.MockedFunction<
+  typeof withDiscogsPriority
+>;
 const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
 const MockedFileStorage = FileStorage as jest.MockedClass<typeof FileStorage>;
 
@@ -53,6 +60,7 @@ describe('DiscogsService', () => {
     };
 
     mockedGetDiscogsAxios.mockReturnValue(mockAxiosInstance);
+    mockedWithDiscogsPriority.mockImplementation((_priority, task) => task());
 
     // Create service instance
     discogsService = new DiscogsService(mockFileStorage, mockAuthService);
@@ -370,6 +378,22 @@ describe('DiscogsService', () => {
       expect(mockFileStorage.delete).toHaveBeenCalledTimes(2);
     });
 
+    it('should clear cached folders and fields but keep the change log', async () => {
+      mockFileStorage.listFiles.mockResolvedValue([
+        'test-folders.json',
+        'test-fields.json',
+        'collection-changes.json',
+      ]);
+      mockFileStorage.delete.mockResolvedValue();
+
+      await discogsService.clearCache();
+
+      expect(mockFileStorage.delete).toHaveBeenCalledTimes(2);
+      expect(mockFileStorage.delete).not.toHaveBeenCalledWith(
+        'collections/collection-changes.json'
+      );
+    });
+
     it('should handle cache clearing errors by propagating them', async () => {
       mockFileStorage.listFiles.mockRejectedValue(
         new Error('File system error')
@@ -468,6 +492,21 @@ describe('DiscogsService', () => {
       );
     });
 
+    it('should name a non-default profile in the callback URL', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: 'oauth_token=test-token&oauth_token_secret=test-secret',
+      });
+      mockAuthService.storeOAuthTokenSecret.mockResolvedValue();
+
+      const result = await discogsService.getAuthUrl('sam');
+
+      const callbackUrl = new URL(
+        new URL(result).searchParams.get('oauth_callback')!
+      );
+      expect(callbackUrl.pathname).toBe('/api/v1/auth/discogs/callback');
+      expect(callbackUrl.searchParams.get('profile')).toBe('sam');
+    });
+
     it('should handle OAuth request token errors', async () => {
       mockAxiosInstance.get.mockRejectedValue(new Error('OAuth error'));
 
@@ -650,6 +689,280 @@ describe('DiscogsService', () => {
     });
   });
 
+  describe('getCollectionFolders', () => {
+    beforeEach(() => {
+      jest.spyOn(discogsService as any, 'getAuthHeaders').mockResolvedValue({
+        Authorization: 'Discogs token=test-token',
+      });
+    });
+
+    it('should fetch and cache folders when there is no cache', async () => {
+      mockFileStorage.readJSON.mockResolvedValue(null);
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          folders: [
+            { id: 0, name: 'All', count: 3, resource_url: 'x' },
+            { id: 5, name: 'Living room shelf', count: 2, resource_url: 'y' },
+          ],
+        },
+      });
+
+      const folders = await discogsService.getCollectionFolders('testuser');
+
+      expect(folders).toEqual([
+        { id: 0, name: 'All', count: 3 },
+        { id: 5, name: 'Living room shelf', count: 2 },
+      ]);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/users/testuser/collection/folders',
+        expect.any(Object)
+      );
+      expect(mockFileStorage.writeJSON).toHaveBeenCalledWith(
+        'collections/testuser-folders.json',
+        expect.objectContaining({ folders })
+      );
+    });
+
+    it('should return cached folders without calling the API', async () => {
+      mockFileStorage.readJSON.mockResolvedValue({
+        timestamp: Date.now(),
+        folders: [{ id: 5, name: 'Living room shelf', count: 2 }],
+      });
+
+      const folders = await discogsService.getCollectionFolders('testuser');
+
+      expect(folders).toHaveLength(1);
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCollectionFields', () => {
+    beforeEach(() => {
+      jest.spyOn(discogsService as any, 'getAuthHeaders').mockResolvedValue({
+        Authorization: 'Discogs token=test-token',
+      });
+      mockFileStorage.readJSON.mockResolvedValue(null);
+    });
+
+    it('should return field definitions ordered by position', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          fields: [
+            {
+              id: 3,
+              name: 'Storage location',
+              type: 'textarea',
+              position: 2,
+              public: false,
+              lines: 1,
+            },
+            {
+              id: 1,
+              name: 'Media Condition',
+              type: 'dropdown',
+              options: ['Mint (M)', 'Very Good (VG)'],
+              position: 1,
+              public: true,
+            },
+          ],
+        },
+      });
+
+      const fields = await discogsService.getCollectionFields('testuser');
+
+      expect(fields).toEqual([
+        {
+          id: 1,
+          name: 'Media Condition',
+          type: 'dropdown',
+          options: ['Mint (M)', 'Very Good (VG)'],
+          position: 1,
+        },
+        { id: 3, name: 'Storage location', type: 'textarea', position: 2 },
+      ]);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/users/testuser/collection/fields',
+        expect.any(Object)
+      );
+    });
+
+    it('should propagate API errors', async () => {
+      mockAxiosInstance.get.mockRejectedValue(new Error('API error'));
+
+      await expect(
+        discogsService.getCollectionFields('testuser')
+      ).rejects.toThrow('API error');
+    });
+  });
+
+  describe('collection instance write-back', () => {
+    const rawInstance = (id: number) => ({
+      id,
+      folder_id: 4,
+      date_added: '2024-01-15T10:00:00-08:00',
+      rating: 3,
+      notes: [{ field_id: 3, value: 'Shelf A' }],
+      basic_information: {
+        id: 123,
+        title: 'Test Album',
+        artists: [{ name: 'Test Artist' }],
+        formats: [{ name: 'Vinyl' }],
+        labels: [{ name: 'Test Label' }],
+        resource_url: 'https://api.discogs.com/releases/123',
+      },
+    });
+
+    beforeEach(() => {
+      jest.spyOn(discogsService as any, 'getAuthHeaders').mockResolvedValue({
+        Authorization: 'Discogs token=test-token',
+      });
+      mockAxiosInstance.delete = jest.fn().mockResolvedValue({});
+      mockAxiosInstance.post.mockResolvedValue({});
+    });
+
+    it('should fetch the live instance of a release', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { releases: [rawInstance(1), rawInstance(2)] },
+      });
+
+      const item = await discogsService.getCollectionInstance(
+        'testuser',
+        123,
+        2
+      );
+
+      expect(item).toEqual(
+        expect.objectContaining({
+          id: 2,
+          folder_id: 4,
+          rating: 3,
+          notes: [{ field_id: 3, value: 'Shelf A' }],
+        })
+      );
+      expect(item?.release.artist).toBe('Test Artist');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/users/testuser/collection/releases/123',
+        expect.any(Object)
+      );
+    });
+
+    it('should return null when the instance is no longer collected', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { releases: [rawInstance(1)] },
+      });
+
+      expect(
+        await discogsService.getCollectionInstance('testuser', 123, 2)
+      ).toBeNull();
+    });
+
+    it('should post rating and folder changes to the instance', async () => {
+      await discogsService.updateCollectionInstance('testuser', 4, 123, 2, {
+        rating: 5,
+      });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/users/testuser/collection/folders/4/releases/123/instances/2',
+        { rating: 5 },
+        expect.any(Object)
+      );
+    });
+
+    it('should post a custom field value', async () => {
+      await discogsService.setCollectionFieldValue(
+        'testuser',
+        4,
+        123,
+        2,
+        3,
+        'Shelf B'
+      );
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/users/testuser/collection/folders/4/releases/123/instances/2/fields/3',
+        null,
+        expect.objectContaining({ params: { value: 'Shelf B' } })
+      );
+    });
+
+    it('should delete an instance', async () => {
+      await discogsService.deleteCollectionInstance('testuser', 4, 123, 2);
+
+      expect(mockAxiosInstance.delete).toHaveBeenCalledWith(
+        '/users/testuser/collection/folders/4/releases/123/instances/2',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('searchReleasesByBarcode', () => {
+    beforeEach(() => {
+      jest.spyOn(discogsService as any, 'getAuthHeaders').mockResolvedValue({
+        Authorization: 'Discogs token=test-token',
+      });
+    });
+
+    it('should search the database and split artist from title', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          results: [
+            {
+              id: 249504,
+              master_id: 96559,
+              title: 'Rick Astley - Never Gonna Give You Up',
+              year: '1987',
+              cover_image: 'cover.jpg',
+              format: ['Vinyl', '7"', '45 RPM'],
+            },
+            {
+              id: 3,
+              master_id: 0,
+              title: 'Sonic Youth* - Daydream Nation - Deluxe',
+            },
+          ],
+        },
+      });
+
+      const matches =
+        await discogsService.searchReleasesByBarcode('5012394144777');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/database/search',
+        expect.objectContaining({
+          params: { barcode: '5012394144777', type: 'release', per_page: 25 },
+        })
+      );
+      expect(matches).toEqual([
+        {
+          releaseId: 249504,
+          masterId: 96559,
+          title: 'Never Gonna Give You Up',
+          artist: 'Rick Astley',
+          year: 1987,
+          coverImage: 'cover.jpg',
+          formats: ['Vinyl', '7"', '45 RPM'],
+        },
+        {
+          releaseId: 3,
+          masterId: undefined,
+          title: 'Daydream Nation - Deluxe',
+          artist: 'Sonic Youth',
+          year: undefined,
+          coverImage: undefined,
+          formats: [],
+        },
+      ]);
+    });
+
+    it('should return no matches when nothing has the barcode', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { results: [] } });
+
+      await expect(
+        discogsService.searchReleasesByBarcode('4006381333931')
+      ).resolves.toEqual([]);
+    });
+  });
+
   describe('getReleaseDetails with API calls', () => {
     it('should fetch release from API when not cached', async () => {
       jest.spyOn(discogsService as any, 'getAuthHeaders').mockResolvedValue({
@@ -842,6 +1155,77 @@ describe('DiscogsService', () => {
       // Should continue despite individual page failures
       expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
     }, 10000);
+
+    const rawItem = (id: number) => ({
+      id,
+      folder_id: 1,
+      date_added: '2024-01-15T10:00:00Z',
+      rating: 0,
+      basic_information: {
+        id: id * 100,
+        title: `Album ${id}`,
+        artists: [{ name: `Artist ${id}` }],
+        formats: [{ name: 'Vinyl' }],
+        labels: [{ name: 'Label' }],
+      },
+    });
+
+    it('should pass the complete collection to the change log', async () => {
+      jest.spyOn(discogsService as any, 'getAuthHeaders').mockResolvedValue({
+        Authorization: 'Discogs token=test-token',
+      });
+      const recordRefresh = jest.fn().mockResolvedValue([]);
+      discogsService.setCollectionChangeService({
+        recordRefresh,
+      } as unknown as CollectionChangeService);
+
+      mockFileStorage.readJSON.mockResolvedValue(null);
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({
+          data: {
+            pagination: { page: 1, pages: 2, per_page: 1, items: 2 },
+            releases: [rawItem(1)],
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            pagination: { page: 2, pages: 2, per_page: 1, items: 2 },
+            releases: [rawItem(2)],
+          },
+        });
+
+      await discogsService.preloadAllCollectionPages('testuser');
+
+      expect(recordRefresh).toHaveBeenCalledWith('testuser', [
+        expect.objectContaining({ id: 1, folder_id: 1 }),
+        expect.objectContaining({ id: 2, folder_id: 1 }),
+      ]);
+    });
+
+    it('should not log changes when a page fails to load', async () => {
+      jest.spyOn(discogsService as any, 'getAuthHeaders').mockResolvedValue({
+        Authorization: 'Discogs token=test-token',
+      });
+      const recordRefresh = jest.fn().mockResolvedValue([]);
+      discogsService.setCollectionChangeService({
+        recordRefresh,
+      } as unknown as CollectionChangeService);
+
+      mockFileStorage.readJSON.mockResolvedValue(null);
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({
+          data: {
+            pagination: { page: 1, pages: 2, per_page: 1, items: 2 },
+            releases: [rawItem(1)],
+          },
+        })
+        .mockRejectedValueOnce(new Error('Page 2 failed'));
+
+      await discogsService.preloadAllCollectionPages('testuser');
+
+      // A partial view would look like removals
+      expect(recordRefresh).not.toHaveBeenCalled();
+    });
   });
 
   describe('isCacheValid', () => {
@@ -1260,6 +1644,68 @@ describe('DiscogsService', () => {
       expect(mockFileStorage.writeJSON).toHaveBeenCalled();
     });
 
+    describe('collection change log', () => {
+      const cacheTimestamp = Date.now() - 1000 * 60 * 60;
+      const cachedPage = {
+        timestamp: cacheTimestamp,
+        data: [{ id: 1, release: { id: 123, title: 'Old', artist: 'A' } }],
+      };
+      let recordRefresh: jest.Mock;
+
+      const discogsPage = (total: number) => ({
+        status: 200,
+        data: {
+          pagination: { items: total },
+          releases: [
+            {
+              id: 2,
+              date_added: new Date(cacheTimestamp + 60000).toISOString(),
+              basic_information: { id: 124, title: 'New', artists: [] },
+            },
+            {
+              id: 1,
+              date_added: new Date(cacheTimestamp - 60000).toISOString(),
+              basic_information: { id: 123, title: 'Old', artists: [] },
+            },
+          ],
+        },
+      });
+
+      beforeEach(() => {
+        jest.spyOn(discogsService as any, 'getAuthHeaders').mockResolvedValue({
+          Authorization: 'Discogs token=test-token',
+        });
+        recordRefresh = jest.fn().mockResolvedValue([]);
+        discogsService.setCollectionChangeService({
+          recordRefresh,
+        } as unknown as CollectionChangeService);
+        mockFileStorage.readJSON
+          .mockResolvedValueOnce(cachedPage)
+          .mockResolvedValueOnce(cachedPage)
+          .mockResolvedValueOnce(null);
+      });
+
+      it('should record a merge that covers the whole collection', async () => {
+        mockAxiosInstance.get.mockResolvedValueOnce(discogsPage(2));
+
+        await discogsService.updateCacheWithNewItems('testuser');
+
+        expect(recordRefresh).toHaveBeenCalledWith('testuser', [
+          expect.objectContaining({ id: 2 }),
+          expect.objectContaining({ id: 1 }),
+        ]);
+      });
+
+      it('should not record a merge with items missing from the cache', async () => {
+        mockAxiosInstance.get.mockResolvedValueOnce(discogsPage(3));
+
+        await discogsService.updateCacheWithNewItems('testuser');
+
+        // The missing item would look like a removal
+        expect(recordRefresh).not.toHaveBeenCalled();
+      });
+    });
+
     it('should fallback to unauthenticated when auth fails', async () => {
       const cacheTimestamp = Date.now() - 1000 * 60 * 60;
       const cachedData = {
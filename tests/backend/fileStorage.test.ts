@@ -336,4 +336,63 @@ describe('FileStorage', () => {
       expect(result).toEqual(unicodeData);
     });
   });
+
+  describe('profiles', () => {
+    it('should keep profile data in its own directory', async () => {
+      const profileStorage = fileStorage.forProfile('sam');
+      await profileStorage.ensureDataDir();
+
+      await profileStorage.writeJSON('settings/user-settings.json', {
+        owner: 'sam',
+      });
+
+      expect(profileStorage.getDataDir()).toBe(
+        path.resolve(testDataDir, 'profiles', 'sam')
+      );
+      expect(
+        await fileStorage.readJSON('settings/user-settings.json')
+      ).toBeNull();
+      expect(
+        await profileStorage.readJSON('settings/user-settings.json')
+      ).toEqual({ owner: 'sam' });
+    });
+
+    it('should share caches with the top-level directory', async () => {
+      const samStorage = fileStorage.forProfile('sam');
+      const alexStorage = fileStorage.forProfile('alex');
+
+      await samStorage.writeJSON('images/albums.json', { cached: true });
+      await samStorage.writeJSON('embeddings/mb-artist-genres.json', {
+        artists: 1,
+      });
+
+      expect(await fileStorage.readJSON('images/albums.json')).toEqual({
+        cached: true,
+      });
+      expect(await alexStorage.readJSON('images/albums.json')).toEqual({
+        cached: true,
+      });
+      expect(
+        await alexStorage.readJSON('embeddings/mb-artist-genres.json')
+      ).toEqual({ artists: 1 });
+    });
+
+    it('should reject unsafe profile ids', () => {
+      expect(() => fileStorage.forProfile('../other')).toThrow();
+    });
+
+    it('should delete a directory recursively', async () => {
+      await fileStorage.writeJSON('profiles/sam/settings/a.json', { a: 1 });
+
+      await fileStorage.deleteDirectory('profiles/sam');
+
+      expect(await fileStorage.exists('profiles/sam/settings/a.json')).toBe(
+        false
+      );
+    });
+
+    it('should refuse to delete the data directory itself', async () => {
+      await expect(fileStorage.deleteDirectory('.')).rejects.toThrow();
+    });
+  });
 });
@@ -1,3 +1,5 @@
+import axios from 'axios';
+
 import { ImageService } from '../../src/backend/services/imageService';
 import { LastFmService } from '../../src/backend/services/lastfmService';
 import { FileStorage } from '../../src/backend/utils/fileStorage';
@@ -6,6 +8,9 @@ import { CollectionItem } from '../../src/shared/types';
 // Mock dependencies
 jest.mock('../../src/backend/services/lastfmService');
 jest.mock('../../src/backend/utils/fileStorage');
+jest.mock('axios');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
 
 describe('ImageService', () => {
   let imageService: ImageService;
@@ -455,6 +460,37 @@ describe('ImageService', () => {
       );
     });
 
+    it('should keep entries other profiles saved since the cache loaded', async () => {
+      // Arrange
+      await imageService.getArtistImage('Cached'); // loads an empty cache
+      const otherEntry = { url: 'https://other.jpg', fetchedAt: Date.now() };
+      mockFileStorage.readJSON.mockResolvedValue({
+        schemaVersion: 1,
+        entries: { other: otherEntry },
+      });
+      mockLastFmService.getArtistInfo.mockResolvedValue({
+        name: 'Artist',
+        image: [{ size: 'large', '#text': 'https://artist.jpg' }],
+      });
+
+      // Act
+      await imageService.getArtistImage('Artist');
+
+      // Assert
+      expect(mockFileStorage.writeJSON).toHaveBeenLastCalledWith(
+        'images/artist-images.json',
+        expect.objectContaining({
+          entries: expect.objectContaining({
+            other: otherEntry,
+            artist: expect.objectContaining({ url: 'https://artist.jpg' }),
+          }),
+        })
+      );
+      expect(await imageService.getArtistImage('Other')).toBe(
+        'https://other.jpg'
+      );
+    });
+
     it('should handle write errors gracefully', async () => {
       // Arrange
       mockFileStorage.writeJSON.mockRejectedValue(new Error('Write error'));
@@ -787,4 +823,95 @@ describe('ImageService', () => {
       expect(url).toBe('https://maniac.jpg');
     });
   });
+  describe('getImageDataUri', () => {
+    it('should download an image as a data URI', async () => {
+      // Arrange
+      mockedAxios.get.mockResolvedValue({
+        data: Buffer.from('png-bytes'),
+        headers: { 'content-type': 'image/png; charset=binary' },
+      });
+
+      // Act
+      const dataUri = await imageService.getImageDataUri(
+        'https://img.example/cover.png'
+      );
+
+      // Assert
+      expect(dataUri).toBe(
+        `data:image/png;base64,${Buffer.from('png-bytes').toString('base64')}`
+      );
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://img.example/cover.png',
+        expect.objectContaining({ responseType: 'arraybuffer' })
+      );
+    });
+
+    it('should remember downloaded images instead of downloading again', async () => {
+      // Arrange
+      mockedAxios.get.mockResolvedValue({
+        data: Buffer.from('png-bytes'),
+        headers: { 'content-type': 'image/png' },
+      });
+
+      // Act
+      const first = await imageService.getImageDataUri(
+        'https://img.example/cover.png'
+      );
+      const second = await imageService.getImageDataUri(
+        'https://img.example/cover.png'
+      );
+
+      // Assert
+      expect(second).toBe(first);
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry images that failed to download', async () => {
+      // Arrange
+      mockedAxios.get
+        .mockRejectedValueOnce(new Error('timeout of 10000ms exceeded'))
+        .mockResolvedValueOnce({
+          data: Buffer.from('png-bytes'),
+          headers: { 'content-type': 'image/png' },
+        });
+
+      // Act
+      const first = await imageService.getImageDataUri(
+        'https://img.example/slow.png'
+      );
+      const second = await imageService.getImageDataUri(
+        'https://img.example/slow.png'
+      );
+
+      // Assert
+      expect(first).toBeNull();
+      expect(second).toMatch(/^data:image\/png;base64,/);
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject responses that are not images', async () => {
+      // Arrange
+      mockedAxios.get.mockResolvedValue({
+        data: Buffer.from('<html></html>'),
+        headers: { 'content-type': 'text/html' },
+      });
+
+      // Act
+      const dataUri = await imageService.getImageDataUri(
+        'https://img.example/page'
+      );
+
+      // Assert
+      expect(dataUri).toBeNull();
+    });
+
+    it('should not fetch URLs that are not http', async () => {
+      // Act
+      const dataUri = await imageService.getImageDataUri('file:///etc/passwd');
+
+      // Assert
+      expect(dataUri).toBeNull();
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,417 @@
+import { EventStreamService } from '../../src/backend/services/eventStreamService';
+import { JobService } from '../../src/backend/services/jobService';
+import { FileStorage } from '../../src/backend/utils/fileStorage';
+import { Job, JobHistoryStore } from '../../src/shared/types';
+import { mockJSONFiles } from '../fixtures/fileStorageFixtures';
+
+jest.mock('../../src/backend/utils/fileStorage');
+
+const MockedFileStorage = FileStorage as jest.MockedClass<typeof FileStorage>;
+
+const NOW = new Date('2024-03-10T12:00:00Z').getTime();
+
+/** Resolves once `ms` of fake time has passed */
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+describe('JobService', () => {
+  let service: JobService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    service = new JobService(new EventStreamService());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('startJob / completeJob / failJob', () => {
+    it('should create a running job and return an id', () => {
+      // Act
+      const id = service.startJob('history-sync', 'Syncing...');
+
+      // Assert
+      expect(service.getJob(id)).toMatchObject({
+        id,
+        type: 'history-sync',
+        status: 'running',
+        message: 'Syncing...',
+        cancellable: false,
+        queuedAt: NOW,
+        startedAt: NOW,
+      });
+    });
+
+    it('should record the completion message and time', () => {
+      // Arrange
+      const id = service.startJob('history-sync', 'Syncing...');
+      service.updateProgress(id, 40);
+      jest.advanceTimersByTime(1000);
+
+      // Act
+      service.completeJob(id, 'Done!');
+
+      // Assert
+      expect(service.getJob(id)).toMatchObject({
+        status: 'completed',
+        message: 'Done!',
+        progress: 100,
+        completedAt: NOW + 1000,
+      });
+    });
+
+    it('should record the error of a failed job', () => {
+      // Arrange
+      const id = service.startJob('history-sync', 'Syncing...');
+
+      // Act
+      service.failJob(id, 'Network error');
+
+      // Assert
+      expect(service.getJob(id)).toMatchObject({
+        status: 'failed',
+        error: 'Network error',
+      });
+    });
+
+    it('should ignore updates to finished or unknown jobs', () => {
+      // Arrange
+      const id = service.startJob('history-sync', 'Syncing...');
+      service.completeJob(id, 'Done');
+
+      // Act
+      service.failJob(id, 'late error');
+      service.completeJob('nonexistent');
+
+      // Assert
+      expect(service.getJob(id)?.status).toBe('completed');
+      expect(service.getRecentJobs()).toHaveLength(1);
+    });
+  });
+
+  describe('updateProgress', () => {
+    it('should clamp and round progress', () => {
+      // Arrange
+      const id = service.startJob('seller-scan', 'Scanning...');
+
+      // Act & Assert
+      service.updateProgress(id, 33.6, 'Scanning page 2');
+      expect(service.getJob(id)).toMatchObject({
+        progress: 34,
+        message: 'Scanning page 2',
+      });
+
+      service.updateProgress(id, 140);
+      expect(service.getJob(id)?.progress).toBe(100);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should complete with the message the task returns', async () => {
+      // Act
+      const id = service.runJob('collection-preload', 'Preloading...', () =>
+        Promise.resolve('Collection preloaded')
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      // Assert
+      expect(service.getJob(id)).toMatchObject({
+        status: 'completed',
+        message: 'Collection preloaded',
+      });
+    });
+
+    it('should fail with the configured message when the task throws', async () => {
+      // Act
+      const id = service.runJob(
+        'collection-preload',
+        'Preloading...',
+        () => Promise.reject(new Error('boom')),
+        { failureMessage: 'Collection preload failed' }
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      // Assert
+      expect(service.getJob(id)).toMatchObject({
+        status: 'failed',
+        error: 'Collection preload failed',
+      });
+    });
+
+    it('should queue jobs beyond the per-type concurrency limit', async () => {
+      // Arrange
+      const first = service.runJob('refresh-values', 'First', () =>
+        sleep(1000)
+      );
+      const second = service.runJob('refresh-values', 'Second', () =>
+        sleep(1000)
+      );
+      const other = service.runJob('label-scan', 'Other', () => sleep(1000));
+
+      // Assert
+      expect(service.getJob(first)?.status).toBe('running');
+      expect(service.getJob(second)?.status).toBe('queued');
+      expect(service.getJob(other)?.status).toBe('running');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(service.getJob(first)?.status).toBe('completed');
+      expect(service.getJob(second)).toMatchObject({
+        status: 'running',
+        startedAt: NOW + 1000,
+      });
+    });
+
+    it('should honour a raised concurrency limit', () => {
+      // Arrange
+      service.setConcurrencyLimit('refresh-values', 2);
+
+      // Act
+      const ids = [1, 2, 3].map(n =>
+        service.runJob('refresh-values', `Job ${n}`, () => sleep(1000))
+      );
+
+      // Assert
+      expect(ids.map(id => service.getJob(id)?.status)).toEqual([
+        'running',
+        'running',
+        'queued',
+      ]);
+    });
+
+    it('should report progress from the task', async () => {
+      // Arrange
+      const id = service.runJob(
+        'refresh-values',
+        'Refreshing...',
+        async job => {
+          job.progress(50, 'Halfway');
+          await sleep(1000);
+        }
+      );
+
+      // Assert
+      expect(service.getJob(id)).toMatchObject({
+        progress: 50,
+        message: 'Halfway',
+      });
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should stop a running task that checks for cancellation', async () => {
+      // Arrange
+      const onCancel = jest.fn();
+      const id = service.runJob(
+        'refresh-values',
+        'Refreshing...',
+        async job => {
+          while (!job.isCancelled()) {
+            await sleep(100);
+          }
+        },
+        { onCancel }
+      );
+
+      // Act
+      const cancelled = await service.cancelJob(id);
+      expect(service.getJob(id)).toMatchObject({
+        status: 'running',
+        cancelRequested: true,
+      });
+      await jest.advanceTimersByTimeAsync(100);
+
+      // Assert
+      expect(cancelled).toBe(true);
+      expect(onCancel).toHaveBeenCalled();
+      expect(service.getJob(id)).toMatchObject({
+        status: 'cancelled',
+        message: 'Refreshing... (cancelled)',
+      });
+    });
+
+    it('should drop a queued job without running it', async () => {
+      // Arrange
+      const task = jest.fn(() => sleep(1000));
+      service.runJob('refresh-values', 'First', () => sleep(1000));
+      const queued = service.runJob('refresh-values', 'Second', task);
+
+      // Act
+      await service.cancelJob(queued);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      // Assert
+      expect(service.getJob(queued)?.status).toBe('cancelled');
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('should refuse jobs without a cancel handler or that have finished', async () => {
+      // Arrange
+      const plain = service.startJob('history-sync', 'Syncing...');
+      const done = service.startJob('seller-scan', 'Scanning...', {
+        onCancel: jest.fn(),
+      });
+      service.completeJob(done);
+
+      // Act & Assert
+      expect(await service.cancelJob(plain)).toBe(false);
+      expect(await service.cancelJob(done)).toBe(false);
+      expect(await service.cancelJob('nonexistent')).toBe(false);
+    });
+  });
+
+  describe('report', () => {
+    it('should start, update and finish a job from service status', () => {
+      // Act
+      const id = service.report(null, 'label-scan', {
+        state: 'running',
+        message: 'Scanning labels...',
+      });
+      const sameId = service.report(id, 'label-scan', {
+        state: 'running',
+        message: 'Scanning Warp (1/4 labels)',
+        progress: 25,
+      });
+
+      // Assert
+      expect(sameId).toBe(id);
+      expect(service.getJob(id!)).toMatchObject({
+        status: 'running',
+        message: 'Scanning Warp (1/4 labels)',
+        progress: 25,
+      });
+
+      expect(
+        service.report(id, 'label-scan', {
+          state: 'completed',
+          message: 'Label scan complete',
+        })
+      ).toBeNull();
+      expect(service.getJob(id!)?.status).toBe('completed');
+    });
+
+    it('should ignore terminal status without a running job', () => {
+      // Act
+      const id = service.report(null, 'label-scan', { state: 'completed' });
+
+      // Assert
+      expect(id).toBeNull();
+      expect(service.getRecentJobs()).toHaveLength(0);
+    });
+  });
+
+  describe('getRecentJobs / getHistory', () => {
+    it('should drop finished jobs from the recent feed after 5 minutes', () => {
+      // Arrange
+      const old = service.startJob('history-sync', 'Old');
+      service.completeJob(old);
+      jest.advanceTimersByTime(6 * 60 * 1000);
+      const running = service.startJob('seller-scan', 'Long running');
+
+      // Act
+      const recent = service.getRecentJobs();
+
+      // Assert
+      expect(recent.map(job => job.id)).toEqual([running]);
+      expect(service.getHistory().map(job => job.id)).toEqual([running, old]);
+    });
+
+    it('should filter history by type and limit', () => {
+      // Arrange
+      for (let i = 0; i < 3; i++) {
+        service.completeJob(service.startJob('seller-scan', `Scan ${i}`));
+        jest.advanceTimersByTime(1000);
+      }
+      service.startJob('history-sync', 'Syncing...');
+
+      // Act
+      const history = service.getHistory({ type: 'seller-scan', limit: 2 });
+
+      // Assert
+      expect(history.map(job => job.message)).toEqual(['Scan 2', 'Scan 1']);
+    });
+  });
+
+  describe('persistence', () => {
+    let mockFileStorage: jest.Mocked<FileStorage>;
+    let files: Record<string, unknown>;
+
+    const storedJobs = () => (files['jobs/jobs.json'] as JobHistoryStore).jobs;
+
+    beforeEach(() => {
+      mockFileStorage = new MockedFileStorage(
+        'test'
+      ) as jest.Mocked<FileStorage>;
+      files = mockJSONFiles(mockFileStorage);
+    });
+
+    it('should not touch disk before initialize', async () => {
+      // Act
+      service.completeJob(service.startJob('history-sync', 'Syncing...'));
+      await service.flush();
+
+      // Assert
+      expect(mockFileStorage.writeJSON).not.toHaveBeenCalled();
+    });
+
+    it('should save state changes after initialize', async () => {
+      // Arrange
+      await service.initialize(mockFileStorage);
+
+      // Act
+      const id = service.startJob('history-sync', 'Syncing...');
+      service.completeJob(id, 'Synced');
+      await service.flush();
+
+      // Assert
+      expect(storedJobs()).toEqual([
+        expect.objectContaining({ id, status: 'completed', message: 'Synced' }),
+      ]);
+    });
+
+    it('should restore history and fail jobs interrupted by a restart', async () => {
+      // Arrange
+      const interrupted: Job = {
+        id: 'a',
+        type: 'seller-scan',
+        status: 'running',
+        message: 'Scanning...',
+        cancellable: true,
+        cancelRequested: true,
+        queuedAt: NOW - 2000,
+        startedAt: NOW - 2000,
+      };
+      const finished: Job = {
+        id: 'b',
+        type: 'history-sync',
+        status: 'completed',
+        message: 'Synced',
+        cancellable: false,
+        queuedAt: NOW - 5000,
+        startedAt: NOW - 5000,
+        completedAt: NOW - 4000,
+      };
+      files['jobs/jobs.json'] = {
+        schemaVersion: 1,
+        jobs: [interrupted, finished],
+      };
+
+      // Act
+      await service.initialize(mockFileStorage);
+      await service.flush();
+
+      // Assert
+      expect(service.getJob('a')).toMatchObject({
+        status: 'failed',
+        error: 'Interrupted by server restart',
+        completedAt: NOW,
+      });
+      expect(service.getJob('a')?.cancelRequested).toBeUndefined();
+      expect(service.getJob('b')).toEqual(finished);
+      expect(storedJobs().map(job => job.status)).toEqual([
+        'failed',
+        'completed',
+      ]);
+    });
+  });
+});
@@ -4,6 +4,7 @@ import axios from 'axios';
 
 import { AuthService } from '../../src/backend/services/authService';
 import { LastFmService } from '../../src/backend/services/lastfmService';
+import { ScrobbleTargetService } from '../../src/backend/services/scrobbleTargetService';
 import { FileStorage } from '../../src/backend/utils/fileStorage';
 import { ScrobbleTrack } from '../../src/shared/types';
 
@@ -121,6 +122,29 @@ describe('LastFmService', () => {
       expect(result).toContain('cb=');
     });
 
+    it('should name a non-default profile in the callback URL', async () => {
+      mockAuthService.getLastFmCredentials.mockResolvedValue({
+        apiKey: 'testkey',
+      });
+
+      const result = await lastfmService.getAuthUrl('sam');
+
+      const callbackUrl = new URL(new URL(result).searchParams.get('cb')!);
+      expect(callbackUrl.pathname).toBe('/api/v1/auth/lastfm/callback');
+      expect(callbackUrl.searchParams.get('profile')).toBe('sam');
+    });
+
+    it('should leave the default profile out of the callback URL', async () => {
+      mockAuthService.getLastFmCredentials.mockResolvedValue({
+        apiKey: 'testkey',
+      });
+
+      const result = await lastfmService.getAuthUrl();
+
+      const callbackUrl = new URL(new URL(result).searchParams.get('cb')!);
+      expect(callbackUrl.searchParams.has('profile')).toBe(false);
+    });
+
     it('should throw error when API key is not configured', async () => {
       mockAuthService.getLastFmCredentials.mockResolvedValue({});
 
@@ -446,9 +470,11 @@ describe('LastFmService', () => {
         success: 2,
         failed: 0,
         ignored: 0,
+        queued: 0,
         errors: [],
         failedTracks: [],
         sessionId: 'session-123',
+        targets: [],
       });
 
       expect(mockFileStorage.writeJSON).toHaveBeenCalledWith(
@@ -457,10 +483,28 @@ describe('LastFmService', () => {
           id: 'session-123',
           tracks: mockTracks,
           status: 'completed',
+          source: 'app',
         })
       );
     });
 
+    it('should record the source the batch was scrobbled as', async () => {
+      mockAuthService.getLastFmCredentials.mockResolvedValue({
+        apiKey: 'testkey',
+        sessionKey: 'testsession',
+      });
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { scrobbles: { '@attr': { accepted: 1, ignored: 0 } } },
+      });
+
+      await lastfmService.scrobbleBatch(mockTracks, 'memory');
+
+      expect(mockFileStorage.writeJSON).toHaveBeenLastCalledWith(
+        'scrobbles/session-session-123.json',
+        expect.objectContaining({ source: 'memory' })
+      );
+    });
+
     it('should handle partial failures in batch', async () => {
       mockAuthService.getLastFmCredentials.mockResolvedValue({
         apiKey: 'testkey',
@@ -484,12 +528,139 @@ describe('LastFmService', () => {
         success: 1,
         failed: 1,
         ignored: 0,
+        queued: 0,
         errors: ['Artist 2 - Track 2: Network error'],
         failedTracks: expect.any(Array),
         sessionId: 'session-123',
+        targets: [],
       });
     });
 
+    it('should queue the remaining tracks on a transient Last.fm error', async () => {
+      mockAuthService.getLastFmCredentials.mockResolvedValue({
+        apiKey: 'testkey',
+        sessionKey: 'testsession',
+      });
+      const mockQueue = { enqueue: jest.fn().mockResolvedValue(undefined) };
+      lastfmService.setScrobbleQueue(mockQueue);
+
+      // Error 16: service temporarily unavailable
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { error: 16, message: 'Service temporarily unavailable' },
+      });
+
+      const tracks = mockTracks.map(t => ({ ...t }));
+      const result = await lastfmService.scrobbleBatch(tracks);
+
+      expect(result.queued).toBe(2);
+      expect(result.failed).toBe(0);
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+      expect(mockQueue.enqueue).toHaveBeenCalledWith(
+        [
+          { track: tracks[0], trackIndex: 0 },
+          { track: tracks[1], trackIndex: 1 },
+        ],
+        'Service temporarily unavailable',
+        'session-123'
+      );
+      expect(mockFileStorage.writeJSON).toHaveBeenLastCalledWith(
+        'scrobbles/session-session-123.json',
+        expect.objectContaining({
+          status: 'pending',
+          progress: expect.objectContaining({ queued: 2 }),
+        })
+      );
+    });
+
+    it('should fail tracks on a permanent Last.fm error even with a queue', async () => {
+      mockAuthService.getLastFmCredentials.mockResolvedValue({
+        apiKey: 'testkey',
+        sessionKey: 'testsession',
+      });
+      const mockQueue = { enqueue: jest.fn().mockResolvedValue(undefined) };
+      lastfmService.setScrobbleQueue(mockQueue);
+
+      // Error 6: invalid parameters
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { error: 6, message: 'Invalid parameters' },
+      });
+
+      const result = await lastfmService.scrobbleBatch(
+        mockTracks.map(t => ({ ...t }))
+      );
+
+      expect(result.failed).toBe(2);
+      expect(result.queued).toBe(0);
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should report tracks as failed when the queue cannot be written', async () => {
+      mockAuthService.getLastFmCredentials.mockResolvedValue({
+        apiKey: 'testkey',
+        sessionKey: 'testsession',
+      });
+      lastfmService.setScrobbleQueue({
+        enqueue: jest.fn().mockRejectedValue(new Error('disk full')),
+      });
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { error: 11, message: 'Service offline' },
+      });
+
+      const result = await lastfmService.scrobbleBatch(
+        mockTracks.map(t => ({ ...t }))
+      );
+
+      expect(result.failed).toBe(2);
+      expect(result.queued).toBe(0);
+      expect(result.failedTracks).toHaveLength(2);
+    });
+
+    it('should record additional target results on the session', async () => {
+      mockAuthService.getLastFmCredentials.mockResolvedValue({
+        apiKey: 'testkey',
+        sessionKey: 'testsession',
+      });
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { scrobbles: { '@attr': { accepted: 1, ignored: 0 } } },
+      });
+      const submit = jest.fn(async (tracks: ScrobbleTrack[]) => {
+        for (const track of tracks) {
+          track.targets = {
+            listenbrainz: {
+              status: 'failed',
+              error: 'Unauthorized',
+              submittedAt: 1,
+            },
+          };
+        }
+        return [
+          {
+            target: 'listenbrainz' as const,
+            success: 0,
+            failed: tracks.length,
+            error: 'ListenBrainz: Unauthorized',
+          },
+        ];
+      });
+      lastfmService.setScrobbleTargets({
+        submit,
+      } as unknown as ScrobbleTargetService);
+
+      const result = await lastfmService.scrobbleBatch(
+        mockTracks.map(t => ({ ...t }))
+      );
+
+      expect(result.success).toBe(2);
+      expect(result.targets).toEqual([
+        expect.objectContaining({ target: 'listenbrainz', failed: 2 }),
+      ]);
+      expect(result.errors).toEqual(['ListenBrainz: Unauthorized']);
+      expect(mockFileStorage.writeJSON).toHaveBeenLastCalledWith(
+        'scrobbles/session-session-123.json',
+        expect.objectContaining({ status: 'failed' })
+      );
+    });
+
     it('should handle empty batch', async () => {
       const result = await lastfmService.scrobbleBatch([]);
 
@@ -497,10 +668,36 @@ describe('LastFmService', () => {
         success: 0,
         failed: 0,
         ignored: 0,
+        queued: 0,
         errors: [],
         failedTracks: [],
         sessionId: 'session-123',
+        targets: [],
+      });
+    });
+  });
+
+  describe('recordScrobbleSession', () => {
+    it('should save tracks scrobbled on their own as a completed session', async () => {
+      mockFileStorage.writeJSON.mockResolvedValue();
+      mockAuthService.generateNonce.mockReturnValue('session-456');
+      const track = { artist: 'Artist', track: 'Track', timestamp: 1234567890 };
+
+      const session = await lastfmService.recordScrobbleSession(
+        [track],
+        'recognized'
+      );
+
+      expect(session).toMatchObject({
+        id: 'session-456',
+        status: 'completed',
+        source: 'recognized',
+        tracks: [{ ...track, scrobbleStatus: 'success' }],
       });
+      expect(mockFileStorage.writeJSON).toHaveBeenCalledWith(
+        'scrobbles/session-session-456.json',
+        session
+      );
     });
   });
 
@@ -957,6 +1154,7 @@ describe('LastFmService', () => {
         failed: 0,
         ignored: 0,
         errors: [],
+        targets: [],
       });
     });
 
@@ -983,6 +1181,7 @@ describe('LastFmService', () => {
         failed: 1,
         ignored: 0,
         errors: ['Artist 2 - Track 2: Network error'],
+        targets: [],
       });
     });
 
@@ -1004,9 +1203,26 @@ describe('LastFmService', () => {
           'Artist 1 - Track 1: Network error',
           'Artist 2 - Track 2: Network error',
         ],
+        targets: [],
       });
     });
 
+    it('should only retry the targets that failed', async () => {
+      const submit = jest.fn().mockResolvedValue([]);
+      lastfmService.setScrobbleTargets({
+        submit,
+      } as unknown as ScrobbleTargetService);
+      const tracks = mockTracks.map(t => ({
+        ...t,
+        scrobbleStatus: 'success' as const,
+      }));
+
+      await lastfmService.resubmitTracks(tracks);
+
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+      expect(submit).toHaveBeenCalledWith(tracks, { onlyFailed: true });
+    });
+
     it('should handle empty array', async () => {
       const result = await lastfmService.resubmitTracks([]);
 
@@ -1015,6 +1231,7 @@ describe('LastFmService', () => {
         failed: 0,
         ignored: 0,
         errors: [],
+        targets: [],
       });
     });
   });
@@ -444,7 +444,7 @@ describe('MigrationService', () => {
       );
 
       // Assert - All nested data preserved
-      expect(result?.schemaVersion).toBe(1);
+      expect(result?.schemaVersion).toBe(2);
       expect(result).toMatchObject(complexData);
     });
 
@@ -539,4 +539,55 @@ describe('MigrationService', () => {
       expect(content).toEqual(versionedData);
     });
   });
+
+  describe('scrobble history index v2', () => {
+    const indexPath = `${testDataDir}/history/scrobble-history-index.json`;
+    const index = {
+      lastSyncTimestamp: 1768709524000,
+      totalScrobbles: 1,
+      oldestScrobbleDate: 1768362364,
+      albums: {
+        'artist|album': {
+          lastPlayed: 1768362364,
+          playCount: 1,
+          plays: [{ timestamp: 1768362364, track: 'Track 1' }],
+        },
+      },
+    };
+
+    it('should flag a v1 index for source tagging', async () => {
+      // Arrange
+      await fs.mkdir(`${testDataDir}/history`, { recursive: true });
+      await fs.writeFile(
+        indexPath,
+        JSON.stringify({ schemaVersion: 1, ...index })
+      );
+
+      // Act
+      const report = await migrationService.migrateAllOnStartup();
+
+      // Assert
+      expect(report.migrated).toBe(1);
+      const content = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+      expect(content.schemaVersion).toBe(2);
+      expect(content.needsSourceTagging).toBe(true);
+      expect(content.albums).toEqual(index.albums);
+    });
+
+    it('should stamp and migrate an unversioned index in one pass', async () => {
+      // Arrange
+      await fs.mkdir(`${testDataDir}/history`, { recursive: true });
+      await fs.writeFile(indexPath, JSON.stringify(index));
+
+      // Act
+      const report = await migrationService.migrateAllOnStartup();
+
+      // Assert
+      expect(report.stamped).toBe(1);
+      expect(report.migrated).toBe(1);
+      const content = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+      expect(content.schemaVersion).toBe(2);
+      expect(content.needsSourceTagging).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,369 @@
+import { EventStreamService } from '../../src/backend/services/eventStreamService';
+import {
+  evaluateTrigger,
+  DEFAULT_NOTIFICATION_RULES,
+} from '../../src/backend/services/notificationRules';
+import { NotificationService } from '../../src/backend/services/notificationService';
+import { FileStorage } from '../../src/backend/utils/fileStorage';
+import {
+  AppNotification,
+  LabelRelease,
+  NotificationStore,
+  SellerMatch,
+} from '../../src/shared/types';
+import { mockJSONFiles } from '../fixtures/fileStorageFixtures';
+
+jest.mock('../../src/backend/utils/fileStorage');
+jest.mock('../../src/backend/services/eventStreamService');
+
+const MockedFileStorage = FileStorage as jest.MockedClass<typeof FileStorage>;
+
+const NOW = new Date('2024-03-10T12:00:00Z').getTime();
+
+const createMatch = (id: string): SellerMatch => ({
+  id,
+  sellerId: 'VinylShop',
+  releaseId: 1,
+  artist: 'Radiohead',
+  title: `OK Computer ${id}`,
+  format: ['Vinyl'],
+  condition: 'VG+',
+  price: 25,
+  currency: 'USD',
+  listingUrl: `https://www.discogs.com/sell/item/${id}`,
+  listingId: Number(id),
+  dateFound: NOW,
+  notified: false,
+  status: 'active',
+});
+
+const createRelease = (
+  id: string,
+  status: LabelRelease['status']
+): LabelRelease => ({
+  id,
+  labelId: 'label-1',
+  discogsReleaseId: Number(id),
+  title: `Release ${id}`,
+  artist: 'Artist',
+  format: ['Vinyl'],
+  addedAt: NOW,
+  isInCollection: false,
+  isInWishlist: false,
+  status,
+});
+
+describe('notificationRules', () => {
+  it('should raise individual seller matches and summarise the rest', () => {
+    // Arrange
+    const matches = ['1', '2', '3', '4', '5', '6', '7'].map(createMatch);
+
+    // Act
+    const drafts = evaluateTrigger(
+      {
+        type: 'seller-matches',
+        matches,
+        sellerNames: { vinylshop: 'Vinyl Shop' },
+      },
+      DEFAULT_NOTIFICATION_RULES
+    );
+
+    // Assert
+    expect(drafts).toHaveLength(6);
+    expect(drafts[0]).toEqual({
+      key: 'seller-match:1',
+      notification: expect.objectContaining({
+        type: 'success',
+        message: 'Radiohead - OK Computer 1 at Vinyl Shop for $25.00',
+        rule: 'seller-match',
+      }),
+      context: { price: 25, currency: 'USD' },
+    });
+    expect(drafts[5].key).toBeUndefined();
+    expect(drafts[5].notification.title).toBe('+2 more matches');
+  });
+
+  it('should only announce label releases that are new', () => {
+    // Act
+    const drafts = evaluateTrigger(
+      {
+        type: 'label-releases',
+        releases: [createRelease('1', 'new'), createRelease('2', 'seen')],
+        labelNames: { 'label-1': 'Warp' },
+      },
+      DEFAULT_NOTIFICATION_RULES
+    );
+
+    // Assert
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0].notification).toMatchObject({
+      title: 'New release on Warp',
+      message: 'Artist - Release 1',
+    });
+  });
+
+  it('should celebrate the highest streak milestone reached', () => {
+    // Act
+    const drafts = evaluateTrigger(
+      { type: 'listening-streak', days: 42, startedAt: 1000 },
+      DEFAULT_NOTIFICATION_RULES
+    );
+
+    // Assert
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0].key).toBe('streak:1000:30');
+    expect(drafts[0].notification.title).toBe('30-day listening streak!');
+  });
+
+  it('should raise nothing for a short streak', () => {
+    expect(
+      evaluateTrigger(
+        { type: 'listening-streak', days: 3 },
+        DEFAULT_NOTIFICATION_RULES
+      )
+    ).toEqual([]);
+  });
+
+  it('should raise nothing when the rule is disabled', () => {
+    // Act
+    const drafts = evaluateTrigger(
+      { type: 'backup-failed', error: 'Disk full' },
+      { ...DEFAULT_NOTIFICATION_RULES, 'backup-failure': { enabled: false } }
+    );
+
+    // Assert
+    expect(drafts).toEqual([]);
+  });
+});
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let mockEventStream: jest.Mocked<EventStreamService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    mockEventStream =
+      new EventStreamService() as jest.Mocked<EventStreamService>;
+    service = new NotificationService(mockEventStream);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('add', () => {
+    it('should store an unread notification and push it to clients', () => {
+      // Act
+      const notification = service.add({
+        type: 'info',
+        title: 'Hello',
+        message: 'World',
+      });
+
+      // Assert
+      expect(notification).toMatchObject({
+        type: 'info',
+        title: 'Hello',
+        read: false,
+        timestamp: NOW,
+      });
+      expect(service.getNotifications()).toEqual([notification]);
+      expect(service.getUnreadCount()).toBe(1);
+      expect(mockEventStream.publishNow).toHaveBeenCalledWith({
+        type: 'notification',
+        notification,
+      });
+    });
+
+    it('should list the newest notification first', () => {
+      // Arrange
+      service.add({ type: 'info', title: 'First', message: '' });
+      jest.advanceTimersByTime(1000);
+
+      // Act
+      service.add({ type: 'info', title: 'Second', message: '' });
+
+      // Assert
+      expect(service.getNotifications().map(n => n.title)).toEqual([
+        'Second',
+        'First',
+      ]);
+    });
+  });
+
+  describe('raise', () => {
+    it('should raise a keyed notification only once', () => {
+      // Arrange
+      const trigger = {
+        type: 'seller-matches' as const,
+        matches: [createMatch('1')],
+        sellerNames: {},
+      };
+
+      // Act
+      const first = service.raise(trigger);
+      const second = service.raise(trigger);
+
+      // Assert
+      expect(first).toHaveLength(1);
+      expect(first[0].rule).toBe('seller-match');
+      expect(second).toEqual([]);
+      expect(service.getNotifications()).toHaveLength(1);
+    });
+
+    it('should not raise again after the inbox is cleared', () => {
+      // Arrange
+      const trigger = { type: 'listening-streak' as const, days: 7 };
+      service.raise(trigger);
+      service.clear();
+
+      // Act
+      const raised = service.raise(trigger);
+
+      // Assert
+      expect(raised).toEqual([]);
+    });
+
+    it('should respect disabled rules', async () => {
+      // Arrange
+      await service.updateRules({ 'streak-milestone': { enabled: false } });
+
+      // Act
+      const raised = service.raise({ type: 'listening-streak', days: 7 });
+
+      // Assert
+      expect(raised).toEqual([]);
+      expect(service.getRules()['streak-milestone']).toEqual({
+        enabled: false,
+      });
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should pass raised notifications and their context to listeners', () => {
+      // Arrange
+      const listener = jest.fn();
+      const unsubscribe = service.subscribe(listener);
+
+      // Act
+      const [raised] = service.raise({
+        type: 'seller-matches',
+        matches: [createMatch('1')],
+        sellerNames: {},
+      });
+      unsubscribe();
+      service.add({ type: 'info', title: 'Later', message: '' });
+
+      // Assert
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(raised, {
+        price: 25,
+        currency: 'USD',
+      });
+    });
+  });
+
+  describe('read state', () => {
+    it('should mark one or all notifications as read', () => {
+      // Arrange
+      const a = service.add({ type: 'info', title: 'A', message: '' });
+      service.add({ type: 'info', title: 'B', message: '' });
+
+      // Act & Assert
+      expect(service.markRead(a.id)?.read).toBe(true);
+      expect(service.getUnreadCount()).toBe(1);
+      service.markAllRead();
+      expect(service.getUnreadCount()).toBe(0);
+    });
+
+    it('should report unknown ids', () => {
+      expect(service.markRead('missing')).toBeUndefined();
+      expect(service.remove('missing')).toBe(false);
+    });
+  });
+
+  describe('importNotifications', () => {
+    it('should merge by id and keep timestamps and read state', () => {
+      // Arrange
+      const existing = service.add({ type: 'info', title: 'New', message: '' });
+      const legacy: AppNotification = {
+        id: 'legacy-1',
+        type: 'warning',
+        title: 'Old',
+        message: '',
+        timestamp: NOW - 60000,
+        read: true,
+      };
+
+      // Act
+      const imported = service.importNotifications([legacy, existing]);
+
+      // Assert
+      expect(imported).toBe(1);
+      expect(service.getNotifications()).toEqual([existing, legacy]);
+    });
+  });
+
+  describe('persistence', () => {
+    let mockFileStorage: jest.Mocked<FileStorage>;
+    let files: Record<string, unknown>;
+
+    beforeEach(() => {
+      mockFileStorage = new MockedFileStorage(
+        'test'
+      ) as jest.Mocked<FileStorage>;
+      files = mockJSONFiles(mockFileStorage);
+    });
+
+    it('should save notifications and raised keys after initialize', async () => {
+      // Arrange
+      await service.initialize(mockFileStorage);
+
+      // Act
+      service.raise({ type: 'listening-streak', days: 7, startedAt: 1 });
+      await service.flush();
+
+      // Assert
+      const store = files[
+        'notifications/notifications.json'
+      ] as NotificationStore;
+      expect(store.notifications).toHaveLength(1);
+      expect(store.raisedKeys).toEqual(['streak:1:7']);
+    });
+
+    it('should restore notifications, keys and rules', async () => {
+      // Arrange
+      const stored: AppNotification = {
+        id: 'n1',
+        type: 'info',
+        title: 'Stored',
+        message: '',
+        timestamp: NOW - 1000,
+        read: false,
+      };
+      files['notifications/notifications.json'] = {
+        schemaVersion: 1,
+        notifications: [stored],
+        raisedKeys: ['streak:1:7'],
+      };
+      files['notifications/rules.json'] = {
+        schemaVersion: 1,
+        rules: { 'backup-failure': { enabled: false } },
+      };
+
+      // Act
+      await service.initialize(mockFileStorage);
+
+      // Assert
+      expect(service.getNotifications()).toEqual([stored]);
+      expect(
+        service.raise({ type: 'listening-streak', days: 7, startedAt: 1 })
+      ).toEqual([]);
+      expect(service.getRules()).toEqual({
+        ...DEFAULT_NOTIFICATION_RULES,
+        'backup-failure': { enabled: false },
+      });
+    });
+  });
+});
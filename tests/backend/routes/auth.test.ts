@@ -11,6 +11,8 @@ const mockAuthService = {
   setLastFmCredentials: jest.fn(),
   clearTokens: jest.fn(),
   saveUserSettings: jest.fn(),
+  setListenBrainzEnabled: jest.fn(),
+  clearListenBrainzToken: jest.fn(),
 };
 
 const mockDiscogsService = {
@@ -28,6 +30,10 @@ const mockLastFmService = {
   getTopArtists: jest.fn(),
 };
 
+const mockListenBrainzService = {
+  connect: jest.fn(),
+};
+
 const mockFileStorage = {};
 
 // Mock the modules
@@ -52,6 +58,10 @@ import { createAuthRouter } from '../../../src/backend/routes/auth';
 import { AuthService } from '../../../src/backend/services/authService';
 import { DiscogsService } from '../../../src/backend/services/discogsService';
 import { LastFmService } from '../../../src/backend/services/lastfmService';
+import {
+  ListenBrainzApiError,
+  ListenBrainzService,
+} from '../../../src/backend/services/listenbrainzService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
 
 describe('Auth Routes', () => {
@@ -80,7 +90,8 @@ describe('Auth Routes', () => {
       fileStorage,
       authService,
       discogsService,
-      lastfmService
+      lastfmService,
+      mockListenBrainzService as unknown as ListenBrainzService
     );
     app.use('/api/v1/auth', authRouter);
 
@@ -131,6 +142,10 @@ describe('Auth Routes', () => {
             authenticated: true,
             username: 'lastfm_user',
           },
+          listenbrainz: {
+            authenticated: false,
+            enabled: true,
+          },
         },
       });
 
@@ -170,6 +185,10 @@ describe('Auth Routes', () => {
             authenticated: false,
             username: null,
           },
+          listenbrainz: {
+            authenticated: false,
+            enabled: true,
+          },
         },
       });
     });
@@ -204,7 +223,7 @@ describe('Auth Routes', () => {
         data: { authUrl: mockAuthUrl },
       });
 
-      expect(mockDiscogsService.getAuthUrl).toHaveBeenCalledTimes(1);
+      expect(mockDiscogsService.getAuthUrl).toHaveBeenCalledWith('default');
     });
 
     it('should handle Discogs service errors', async () => {
@@ -399,7 +418,7 @@ describe('Auth Routes', () => {
         data: { authUrl: mockAuthUrl },
       });
 
-      expect(mockLastFmService.getAuthUrl).toHaveBeenCalledTimes(1);
+      expect(mockLastFmService.getAuthUrl).toHaveBeenCalledWith('default');
     });
 
     it('should handle missing API key', async () => {
@@ -744,6 +763,109 @@ describe('Auth Routes', () => {
     });
   });
 
+  describe('ListenBrainz', () => {
+    it('should report a connected ListenBrainz account in the status', async () => {
+      mockAuthService.getUserSettings = jest.fn().mockResolvedValue({
+        discogs: {},
+        lastfm: {},
+        listenbrainz: {
+          token: 'lb-token',
+          username: 'lb_user',
+          enabled: false,
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/v1/auth/status')
+        .expect(200);
+
+      expect(response.body.data.listenbrainz).toEqual({
+        authenticated: true,
+        username: 'lb_user',
+        enabled: false,
+      });
+    });
+
+    it('should connect with a valid token', async () => {
+      mockListenBrainzService.connect.mockResolvedValue('lb_user');
+
+      const response = await request(app)
+        .post('/api/v1/auth/listenbrainz/token')
+        .send({ token: ' lb-token ' })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        data: { message: 'ListenBrainz connected', username: 'lb_user' },
+      });
+      expect(mockListenBrainzService.connect).toHaveBeenCalledWith('lb-token');
+    });
+
+    it('should require a token', async () => {
+      await request(app)
+        .post('/api/v1/auth/listenbrainz/token')
+        .send({})
+        .expect(400);
+
+      expect(mockListenBrainzService.connect).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a token ListenBrainz rejects', async () => {
+      mockListenBrainzService.connect.mockRejectedValue(
+        new ListenBrainzApiError('Invalid ListenBrainz token', 401)
+      );
+
+      const response = await request(app)
+        .post('/api/v1/auth/listenbrainz/token')
+        .send({ token: 'bad' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid ListenBrainz token');
+    });
+
+    it('should return 500 when ListenBrainz cannot be reached', async () => {
+      mockListenBrainzService.connect.mockRejectedValue(
+        new ListenBrainzApiError('timeout of 10000ms exceeded')
+      );
+
+      await request(app)
+        .post('/api/v1/auth/listenbrainz/token')
+        .send({ token: 'lb-token' })
+        .expect(500);
+    });
+
+    it('should enable or disable submission', async () => {
+      mockAuthService.setListenBrainzEnabled.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .patch('/api/v1/auth/listenbrainz')
+        .send({ enabled: false })
+        .expect(200);
+
+      expect(response.body.data).toEqual({ enabled: false });
+      expect(mockAuthService.setListenBrainzEnabled).toHaveBeenCalledWith(
+        false
+      );
+    });
+
+    it('should reject a non-boolean enabled flag', async () => {
+      await request(app)
+        .patch('/api/v1/auth/listenbrainz')
+        .send({ enabled: 'yes' })
+        .expect(400);
+
+      expect(mockAuthService.setListenBrainzEnabled).not.toHaveBeenCalled();
+    });
+
+    it('should disconnect ListenBrainz', async () => {
+      mockAuthService.clearListenBrainzToken.mockResolvedValue(undefined);
+
+      await request(app).delete('/api/v1/auth/listenbrainz').expect(200);
+
+      expect(mockAuthService.clearListenBrainzToken).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('POST /api/v1/auth/clear', () => {
     it('should clear authentication data successfully', async () => {
       mockAuthService.clearTokens = jest.fn().mockResolvedValue(undefined);
@@ -0,0 +1,163 @@
+import fs from 'fs/promises';
+
+import express from 'express';
+import request from 'supertest';
+
+import { createAuthRouter } from '../../../src/backend/routes/auth';
+import { AuthService } from '../../../src/backend/services/authService';
+import { DiscogsService } from '../../../src/backend/services/discogsService';
+import { LastFmService } from '../../../src/backend/services/lastfmService';
+import {
+  DEFAULT_PROFILE_ID,
+  ProfileService,
+} from '../../../src/backend/services/profileService';
+import {
+  getDiscogsAxios,
+  withDiscogsPriority,
+} from '../../../src/backend/utils/discogsAxios';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { createMinimalApp } from '../../utils/testHelpers';
+
+jest.mock('../../../src/backend/utils/discogsAxios');
+
+const mockedGetDiscogsAxios = getDiscogsAxios as jest.MockedFunction<
+  typeof getDiscogsAxios
+>;
+const mockedWithDiscogsPriority = withDiscogsPriority as jest.MockedFunction<
+  typeof withDiscogsPriority
+>;
+
+/**
+ * Logging in from one profile, end to end: the auth URL is requested with
+ * the profile header, but the provider's redirect back to the callback
+ * carries no header, so only the callback URL can say which profile it is
+ * for.
+ */
+describe('Auth Routes with profiles', () => {
+  const testDataDir = './test-data-auth-profiles';
+  let app: express.Application;
+  let authServices: Record<string, AuthService>;
+  let profileId: string;
+  let mockDiscogsAxios: { get: jest.Mock; post: jest.Mock };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    delete process.env.DISCOGS_CALLBACK_URL;
+    delete process.env.LASTFM_CALLBACK_URL;
+
+    mockDiscogsAxios = { get: jest.fn(), post: jest.fn() };
+    mockedGetDiscogsAxios.mockReturnValue(mockDiscogsAxios as any);
+    mockedWithDiscogsPriority.mockImplementation((_priority, task) => task());
+
+    const fileStorage = new FileStorage(testDataDir);
+    await fileStorage.ensureDataDir();
+    const profileService = new ProfileService(fileStorage);
+    profileId = (await profileService.createProfile('Sam')).id;
+
+    // One auth router per profile, chosen the way the server chooses
+    authServices = {};
+    const routers: Record<string, express.Router> = {};
+    for (const id of [DEFAULT_PROFILE_ID, profileId]) {
+      const profileStorage = profileService.getProfileStorage(id);
+      await profileStorage.ensureDataDir();
+      const authService = new AuthService(profileStorage);
+      authServices[id] = authService;
+      routers[id] = createAuthRouter(
+        profileStorage,
+        authService,
+        new DiscogsService(profileStorage, authService),
+        new LastFmService(profileStorage, authService),
+        undefined,
+        id
+      );
+    }
+
+    app = createMinimalApp();
+    app.use('/api/v1/auth', (req, res, next) => {
+      const id =
+        req.get('X-Profile-Id') ||
+        (typeof req.query.profile === 'string' ? req.query.profile : '') ||
+        DEFAULT_PROFILE_ID;
+      routers[id](req, res, next);
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch {
+      // Ignore
+    }
+  });
+
+  /** Path and query of the callback URL a provider would redirect to. */
+  function callbackPath(authUrl: string, param: string): string {
+    const callbackUrl = new URL(new URL(authUrl).searchParams.get(param)!);
+    return callbackUrl.pathname + callbackUrl.search;
+  }
+
+  it('should save a Last.fm login to the profile that started it', async () => {
+    // Arrange
+    jest.spyOn(LastFmService.prototype, 'getSession').mockResolvedValue({
+      sessionKey: 'sam-session',
+      username: 'sam_listens',
+    });
+
+    // Act
+    const authUrlResponse = await request(app)
+      .get('/api/v1/auth/lastfm/auth-url')
+      .set('X-Profile-Id', profileId)
+      .query({ apiKey: 'sam-api-key' })
+      .expect(200);
+    await request(app)
+      .get(callbackPath(authUrlResponse.body.data.authUrl, 'cb'))
+      .query({ token: 'lastfm-token' })
+      .expect(200);
+
+    // Assert
+    expect(await authServices[profileId].getLastFmCredentials()).toEqual({
+      apiKey: 'sam-api-key',
+      sessionKey: 'sam-session',
+      username: 'sam_listens',
+    });
+    const defaultCredentials =
+      await authServices[DEFAULT_PROFILE_ID].getLastFmCredentials();
+    expect(defaultCredentials.sessionKey).toBeUndefined();
+    expect(defaultCredentials.username).toBeUndefined();
+  });
+
+  it('should save a Discogs login to the profile that started it', async () => {
+    // Arrange
+    mockDiscogsAxios.get.mockImplementation(async (url: string) =>
+      url === '/oauth/request_token'
+        ? { data: 'oauth_token=request-token&oauth_token_secret=sam-secret' }
+        : { data: { username: 'sam_collects' } }
+    );
+    mockDiscogsAxios.post.mockResolvedValue({
+      data: 'oauth_token=access-token&oauth_token_secret=access-secret',
+    });
+
+    // Act
+    const authUrlResponse = await request(app)
+      .get('/api/v1/auth/discogs/auth-url')
+      .set('X-Profile-Id', profileId)
+      .expect(200);
+    await request(app)
+      .get(callbackPath(authUrlResponse.body.data.authUrl, 'oauth_callback'))
+      .query({ oauth_token: 'request-token', oauth_verifier: 'verifier' })
+      .expect(200);
+
+    // Assert
+    const samSettings = await authServices[profileId].getUserSettings();
+    expect(samSettings.discogs.username).toBe('sam_collects');
+    expect(JSON.parse(samSettings.discogs.token!)).toEqual({
+      key: 'access-token',
+      secret: 'access-secret',
+    });
+    const defaultSettings =
+      await authServices[DEFAULT_PROFILE_ID].getUserSettings();
+    expect(defaultSettings.discogs.token).toBeUndefined();
+    expect(defaultSettings.discogs.username).toBeUndefined();
+  });
+});
@@ -5,7 +5,14 @@ import request from 'supertest';
 
 import createCollectionRouter from '../../../src/backend/routes/collection';
 import { AuthService } from '../../../src/backend/services/authService';
+import { CollectionChangeService } from '../../../src/backend/services/collectionChangeService';
+import {
+  CollectionEditError,
+  CollectionEditService,
+} from '../../../src/backend/services/collectionEditService';
 import { DiscogsService } from '../../../src/backend/services/discogsService';
+import { EventStreamService } from '../../../src/backend/services/eventStreamService';
+import { JobService } from '../../../src/backend/services/jobService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
 
 // Mock dependencies
@@ -24,6 +31,8 @@ describe('Collection Routes', () => {
   let mockDiscogsService: jest.Mocked<DiscogsService>;
   let mockAuthService: jest.Mocked<AuthService>;
   let mockFileStorage: jest.Mocked<FileStorage>;
+  let mockCollectionChangeService: jest.Mocked<CollectionChangeService>;
+  let mockCollectionEditService: jest.Mocked<CollectionEditService>;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -47,10 +56,21 @@ describe('Collection Routes', () => {
     mockDiscogsService.checkForNewItems = jest.fn();
     mockDiscogsService.updateCacheWithNewItems = jest.fn();
     mockDiscogsService.getReleaseDetails = jest.fn();
+    mockDiscogsService.getCollectionFolders = jest.fn();
+    mockDiscogsService.getCollectionFields = jest.fn();
     mockDiscogsService.preloadAllCollectionPages = jest
       .fn()
       .mockResolvedValue(undefined);
 
+    mockCollectionChangeService = {
+      getChanges: jest.fn().mockResolvedValue({ changes: [], total: 0 }),
+    } as unknown as jest.Mocked<CollectionChangeService>;
+    mockCollectionEditService = {
+      getInstance: jest.fn(),
+      editInstance: jest.fn(),
+      removeInstance: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<CollectionEditService>;
+
     // Setup authentication mocks
     mockAuthService.getDiscogsToken = jest.fn().mockResolvedValue('mock-token');
 
@@ -75,7 +95,10 @@ describe('Collection Routes', () => {
       createCollectionRouter(
         mockFileStorage,
         mockAuthService,
-        mockDiscogsService
+        mockDiscogsService,
+        mockCollectionChangeService,
+        new JobService(new EventStreamService()),
+        mockCollectionEditService
       )
     );
   });
@@ -434,6 +457,217 @@ describe('Collection Routes', () => {
     });
   });
 
+  describe('GET /:username/folders', () => {
+    it('should return the collection folders', async () => {
+      const folders = [
+        { id: 0, name: 'All', count: 3 },
+        { id: 5, name: 'Living room shelf', count: 2 },
+      ];
+      mockDiscogsService.getCollectionFolders.mockResolvedValue(folders);
+
+      const response = await request(app)
+        .get('/api/v1/collection/testuser/folders')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, data: folders });
+      expect(mockDiscogsService.getCollectionFolders).toHaveBeenCalledWith(
+        'testuser',
+        false
+      );
+    });
+
+    it('should bypass the cache on refresh', async () => {
+      mockDiscogsService.getCollectionFolders.mockResolvedValue([]);
+
+      await request(app)
+        .get('/api/v1/collection/testuser/folders?refresh=true')
+        .expect(200);
+
+      expect(mockDiscogsService.getCollectionFolders).toHaveBeenCalledWith(
+        'testuser',
+        true
+      );
+    });
+
+    it('should return 500 when Discogs fails', async () => {
+      mockDiscogsService.getCollectionFolders.mockRejectedValue(
+        new Error('Discogs unavailable')
+      );
+
+      const response = await request(app)
+        .get('/api/v1/collection/testuser/folders')
+        .expect(500);
+
+      expect(response.body.error).toBe('Discogs unavailable');
+    });
+  });
+
+  describe('GET /:username/fields', () => {
+    it('should return the custom field definitions', async () => {
+      const fields = [
+        {
+          id: 3,
+          name: 'Storage location',
+          type: 'textarea' as const,
+          position: 1,
+        },
+      ];
+      mockDiscogsService.getCollectionFields.mockResolvedValue(fields);
+
+      const response = await request(app)
+        .get('/api/v1/collection/testuser/fields')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, data: fields });
+    });
+
+    it('should reject invalid usernames', async () => {
+      await request(app).get('/api/v1/collection/bad..user/fields').expect(400);
+
+      expect(mockDiscogsService.getCollectionFields).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('collection instance edits', () => {
+    const item = {
+      id: 42,
+      folder_id: 1,
+      rating: 4,
+      date_added: '2024-01-15T10:00:00-08:00',
+      release: {
+        id: 123,
+        title: 'Test Album',
+        artist: 'Test Artist',
+        format: ['Vinyl'],
+        label: ['Test Label'],
+        resource_url: 'https://api.discogs.com/releases/123',
+      },
+    };
+
+    it('should return a cached instance', async () => {
+      mockCollectionEditService.getInstance.mockResolvedValue(item);
+
+      const response = await request(app)
+        .get('/api/v1/collection/testuser/instances/42')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, data: item });
+    });
+
+    it('should return 404 for an instance that is not cached', async () => {
+      mockCollectionEditService.getInstance.mockResolvedValue(null);
+
+      await request(app)
+        .get('/api/v1/collection/testuser/instances/42')
+        .expect(404);
+    });
+
+    it('should set the rating', async () => {
+      mockCollectionEditService.editInstance.mockResolvedValue(item);
+
+      const response = await request(app)
+        .put('/api/v1/collection/testuser/instances/42/rating')
+        .send({ rating: 4, expected: 2 })
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, data: item });
+      expect(mockCollectionEditService.editInstance).toHaveBeenCalledWith(
+        'testuser',
+        42,
+        { type: 'rating', rating: 4, expected: 2 }
+      );
+    });
+
+    it('should reject ratings outside 0-5', async () => {
+      await request(app)
+        .put('/api/v1/collection/testuser/instances/42/rating')
+        .send({ rating: 6 })
+        .expect(400);
+
+      expect(mockCollectionEditService.editInstance).not.toHaveBeenCalled();
+    });
+
+    it('should set a custom field value', async () => {
+      mockCollectionEditService.editInstance.mockResolvedValue(item);
+
+      await request(app)
+        .put('/api/v1/collection/testuser/instances/42/fields/3')
+        .send({ value: 'Shelf B', expected: 'Shelf A' })
+        .expect(200);
+
+      expect(mockCollectionEditService.editInstance).toHaveBeenCalledWith(
+        'testuser',
+        42,
+        { type: 'field', fieldId: 3, value: 'Shelf B', expected: 'Shelf A' }
+      );
+    });
+
+    it('should move to another folder', async () => {
+      mockCollectionEditService.editInstance.mockResolvedValue(item);
+
+      await request(app)
+        .put('/api/v1/collection/testuser/instances/42/folder')
+        .send({ folderId: 7 })
+        .expect(200);
+
+      expect(mockCollectionEditService.editInstance).toHaveBeenCalledWith(
+        'testuser',
+        42,
+        { type: 'folder', folderId: 7, expected: undefined }
+      );
+    });
+
+    it('should return the live instance on a conflict', async () => {
+      mockCollectionEditService.editInstance.mockRejectedValue(
+        new CollectionEditError('Changed on Discogs', 409, item)
+      );
+
+      const response = await request(app)
+        .put('/api/v1/collection/testuser/instances/42/rating')
+        .send({ rating: 5 })
+        .expect(409);
+
+      expect(response.body).toEqual({
+        success: false,
+        error: 'Changed on Discogs',
+        data: item,
+      });
+    });
+
+    it('should reject invalid instance ids', async () => {
+      await request(app)
+        .put('/api/v1/collection/testuser/instances/abc/rating')
+        .send({ rating: 3 })
+        .expect(400);
+
+      expect(mockCollectionEditService.editInstance).not.toHaveBeenCalled();
+    });
+
+    it('should remove an instance', async () => {
+      const response = await request(app)
+        .delete('/api/v1/collection/testuser/instances/42')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true });
+      expect(mockCollectionEditService.removeInstance).toHaveBeenCalledWith(
+        'testuser',
+        42
+      );
+    });
+
+    it('should return 500 when Discogs rejects a removal', async () => {
+      mockCollectionEditService.removeInstance.mockRejectedValue(
+        new Error('Discogs is unavailable')
+      );
+
+      const response = await request(app)
+        .delete('/api/v1/collection/testuser/instances/42')
+        .expect(500);
+
+      expect(response.body.error).toBe('Discogs is unavailable');
+    });
+  });
+
   describe('GET /release/:releaseId', () => {
     it('should get release details', async () => {
       const mockRelease = {
@@ -740,4 +974,50 @@ describe('Collection Routes', () => {
       });
     });
   });
+
+  describe('GET /:username/changes', () => {
+    it('should return the change log newest first', async () => {
+      const change = {
+        type: 'removed' as const,
+        timestamp: 1700000000000,
+        instanceId: 1,
+        releaseId: 123,
+        artist: 'Test Artist',
+        title: 'Test Album',
+      };
+      mockCollectionChangeService.getChanges.mockResolvedValue({
+        changes: [change],
+        total: 1,
+      });
+
+      const response = await request(app)
+        .get('/api/v1/collection/testuser/changes?type=removed&limit=10')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        data: [change],
+        total: 1,
+      });
+      expect(mockCollectionChangeService.getChanges).toHaveBeenCalledWith(
+        'testuser',
+        { type: 'removed', limit: 10, offset: 0 }
+      );
+    });
+
+    it('should reject an unknown change type', async () => {
+      const response = await request(app)
+        .get('/api/v1/collection/testuser/changes?type=sold')
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(mockCollectionChangeService.getChanges).not.toHaveBeenCalled();
+    });
+
+    it('should validate username format', async () => {
+      await request(app)
+        .get('/api/v1/collection/invalid..username/changes')
+        .expect(400);
+    });
+  });
 });
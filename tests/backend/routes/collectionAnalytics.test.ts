@@ -108,12 +108,13 @@ describe('Collection Analytics Routes', () => {
       },
       growth: {
         dataPoints: [
-          { period: '2024-01', added: 5, cumulative: 145 },
-          { period: '2024-02', added: 3, cumulative: 148 },
-          { period: '2024-03', added: 2, cumulative: 150 },
+          { period: '2024-01', added: 5, removed: 0, cumulative: 145 },
+          { period: '2024-02', added: 3, removed: 0, cumulative: 148 },
+          { period: '2024-03', added: 2, removed: 0, cumulative: 150 },
         ],
         granularity: 'month' as const,
         totalAdded: 150,
+        totalRemoved: 0,
       },
     };
   }
@@ -150,22 +151,24 @@ describe('Collection Analytics Routes', () => {
     if (granularity === 'year') {
       return {
         dataPoints: [
-          { period: '2022', added: 30, cumulative: 30 },
-          { period: '2023', added: 50, cumulative: 80 },
-          { period: '2024', added: 70, cumulative: 150 },
+          { period: '2022', added: 30, removed: 0, cumulative: 30 },
+          { period: '2023', added: 50, removed: 0, cumulative: 80 },
+          { period: '2024', added: 70, removed: 0, cumulative: 150 },
         ],
         granularity: 'year' as const,
         totalAdded: 150,
+        totalRemoved: 0,
       };
     }
     return {
       dataPoints: [
-        { period: '2024-01', added: 5, cumulative: 145 },
-        { period: '2024-02', added: 3, cumulative: 148 },
-        { period: '2024-03', added: 2, cumulative: 150 },
+        { period: '2024-01', added: 5, removed: 0, cumulative: 145 },
+        { period: '2024-02', added: 3, removed: 0, cumulative: 148 },
+        { period: '2024-03', added: 2, removed: 0, cumulative: 150 },
       ],
       granularity: 'month' as const,
       totalAdded: 150,
+      totalRemoved: 0,
     };
   }
 
@@ -5,6 +5,8 @@ import request from 'supertest';
 
 import createDiscardPileRouter from '../../../src/backend/routes/discardPile';
 import { DiscardPileService } from '../../../src/backend/services/discardPileService';
+import { EventStreamService } from '../../../src/backend/services/eventStreamService';
+import { JobService } from '../../../src/backend/services/jobService';
 import { WishlistService } from '../../../src/backend/services/wishlistService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
 import { DiscardPileItem } from '../../../src/shared/types';
@@ -130,7 +132,11 @@ describe('Discard Pile Routes', () => {
     });
     app.use(
       '/api/v1/discard-pile',
-      createDiscardPileRouter(mockDiscardPileService, mockWishlistService)
+      createDiscardPileRouter(
+        mockDiscardPileService,
+        mockWishlistService,
+        new JobService(new EventStreamService())
+      )
     );
   });
 
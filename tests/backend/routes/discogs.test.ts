@@ -0,0 +1,60 @@
+import request from 'supertest';
+
+import createDiscogsRouter from '../../../src/backend/routes/discogs';
+import { getDiscogsBudget } from '../../../src/backend/utils/discogsAxios';
+import { DiscogsBudget } from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/utils/discogsAxios');
+
+const mockGetDiscogsBudget = getDiscogsBudget as jest.MockedFunction<
+  typeof getDiscogsBudget
+>;
+
+describe('Discogs Routes', () => {
+  let app: ReturnType<typeof createTestApp>['app'];
+
+  const budget: DiscogsBudget = {
+    limit: 60,
+    used: 12,
+    remaining: 48,
+    isThrottled: false,
+    lastUpdated: 1710100000000,
+    queued: { interactive: 0, background: 3 },
+    requests: { interactive: 20, background: 140 },
+    rateLimited: 1,
+    cache: { hits: 35, revalidated: 4, misses: 60 },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const result = createTestApp({
+      mountPath: '/api/v1/discogs',
+      routerFactory: () => createDiscogsRouter(),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('GET /budget', () => {
+    it('should return the shared budget', async () => {
+      mockGetDiscogsBudget.mockReturnValue(budget);
+
+      const response = await request(app)
+        .get('/api/v1/discogs/budget')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, data: budget });
+    });
+
+    it('should return 500 when the budget cannot be read', async () => {
+      mockGetDiscogsBudget.mockImplementation(() => {
+        throw new Error('boom');
+      });
+
+      await request(app).get('/api/v1/discogs/budget').expect(500);
+    });
+  });
+});
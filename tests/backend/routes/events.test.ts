@@ -0,0 +1,88 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import createEventsRouter from '../../../src/backend/routes/events';
+import { EventStreamService } from '../../../src/backend/services/eventStreamService';
+import { createTestApp } from '../../utils/testHelpers';
+
+describe('Events Routes', () => {
+  let server: http.Server;
+  let service: EventStreamService;
+  let baseUrl: string;
+
+  beforeEach(done => {
+    service = new EventStreamService();
+    const { app } = createTestApp({
+      mountPath: '/api/v1/events',
+      routerFactory: () => createEventsRouter(service),
+      mocks: {},
+    });
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterEach(done => {
+    server.close(() => done());
+  });
+
+  /**
+   * Open the stream and collect its body until `until` matches.
+   */
+  const readStream = (
+    until: (body: string) => boolean,
+    onOpen: () => void = () => undefined
+  ): Promise<{ headers: http.IncomingHttpHeaders; body: string }> =>
+    new Promise((resolve, reject) => {
+      const req = http.get(`${baseUrl}/api/v1/events`, res => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          if (!body) onOpen();
+          body += chunk;
+          if (until(body)) {
+            req.destroy();
+            resolve({ headers: res.headers, body });
+          }
+        });
+      });
+      req.on('error', reject);
+    });
+
+  it('should open an event stream', async () => {
+    // Act
+    const { headers, body } = await readStream(b => b.includes('retry:'));
+
+    // Assert
+    expect(headers['content-type']).toBe('text/event-stream');
+    expect(headers['cache-control']).toBe('no-cache');
+    expect(body).toContain('retry: 3000');
+  });
+
+  it('should write published events as JSON data', async () => {
+    // Arrange
+    const event = {
+      type: 'embedding-progress' as const,
+      progress: { current: 2, total: 5, phase: 'Embedding' },
+    };
+
+    // Act
+    const { body } = await readStream(
+      b => b.includes('data:'),
+      () => service.publish(event)
+    );
+
+    // Assert
+    expect(body).toContain(`data: ${JSON.stringify(event)}\n\n`);
+  });
+
+  it('should unsubscribe when the client disconnects', async () => {
+    // Act
+    await readStream(b => b.includes('retry:'));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // Assert
+    expect(service.getSubscriberCount()).toBe(0);
+  });
+});
@@ -0,0 +1,190 @@
+import request from 'supertest';
+
+import createHistoryImportRouter from '../../../src/backend/routes/historyImport';
+import {
+  HistoryImportError,
+  HistoryImportService,
+} from '../../../src/backend/services/historyImportService';
+import { HistoryExportParseError } from '../../../src/backend/utils/historyExportParser';
+import { HistoryImportPreview } from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/services/historyImportService', () => ({
+  ...jest.requireActual('../../../src/backend/services/historyImportService'),
+  HistoryImportService: jest.fn(),
+}));
+
+describe('History Import Routes', () => {
+  let app: ReturnType<typeof createTestApp>['app'];
+  let mockImportService: {
+    preview: jest.Mock;
+    apply: jest.Mock;
+  };
+
+  const preview: HistoryImportPreview = {
+    importId: 'import-1',
+    format: 'lastfm-csv',
+    totalPlays: 2,
+    skippedRows: 0,
+    duplicatePlays: 0,
+    newPlays: 2,
+    newAlbums: 1,
+    updatedAlbums: 0,
+    newArtists: 1,
+    newArtistNames: ['Portishead'],
+    oldestPlay: 1680000000,
+    newestPlay: 1680000300,
+    expiresAt: 1710000000000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockImportService = {
+      preview: jest.fn().mockResolvedValue(preview),
+      apply: jest.fn(),
+    };
+
+    const result = createTestApp({
+      mountPath: '/api/v1/history-import',
+      routerFactory: () =>
+        createHistoryImportRouter(
+          mockImportService as unknown as HistoryImportService
+        ),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('POST /preview', () => {
+    it('should preview a file posted as text', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/v1/history-import/preview?format=lastfm-csv')
+        .set('Content-Type', 'text/plain')
+        .send('Portishead,Dummy,Roads,1680000000')
+        .expect(200);
+
+      // Assert
+      expect(response.body).toEqual({ success: true, data: preview });
+      expect(mockImportService.preview).toHaveBeenCalledWith(
+        'Portishead,Dummy,Roads,1680000000',
+        'lastfm-csv'
+      );
+    });
+
+    it('should accept files larger than the JSON body limit', async () => {
+      // Arrange
+      const content = 'Portishead,Dummy,Roads,1680000000\n'.repeat(60000);
+
+      // Act
+      await request(app)
+        .post('/api/v1/history-import/preview')
+        .set('Content-Type', 'text/csv')
+        .send(content)
+        .expect(200);
+
+      // Assert
+      expect(mockImportService.preview).toHaveBeenCalledWith(
+        content,
+        undefined
+      );
+    });
+
+    it('should reject an unknown format', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/v1/history-import/preview?format=spotify')
+        .set('Content-Type', 'text/plain')
+        .send('data')
+        .expect(400);
+
+      // Assert
+      expect(response.body.error).toContain('format must be one of');
+      expect(mockImportService.preview).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty body', async () => {
+      // Act
+      await request(app)
+        .post('/api/v1/history-import/preview')
+        .set('Content-Type', 'text/plain')
+        .send('')
+        .expect(400);
+
+      // Assert
+      expect(mockImportService.preview).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for unreadable files', async () => {
+      // Arrange
+      mockImportService.preview.mockRejectedValue(
+        new HistoryExportParseError('The export file is not valid JSON')
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/api/v1/history-import/preview')
+        .set('Content-Type', 'text/plain')
+        .send('{broken')
+        .expect(400);
+
+      // Assert
+      expect(response.body.error).toBe('The export file is not valid JSON');
+    });
+  });
+
+  describe('POST /:importId/apply', () => {
+    it('should apply a previewed import', async () => {
+      // Arrange
+      const result = {
+        playsAdded: 2,
+        albumsAdded: 1,
+        artistsAdded: 1,
+        totalScrobbles: 10,
+      };
+      mockImportService.apply.mockResolvedValue(result);
+
+      // Act
+      const response = await request(app)
+        .post('/api/v1/history-import/import-1/apply')
+        .expect(200);
+
+      // Assert
+      expect(response.body.data).toEqual(result);
+      expect(mockImportService.apply).toHaveBeenCalledWith('import-1');
+    });
+
+    it.each([404, 409] as const)(
+      'should return %p from import errors',
+      async status => {
+        // Arrange
+        mockImportService.apply.mockRejectedValue(
+          new HistoryImportError('Cannot import', status)
+        );
+
+        // Act
+        const response = await request(app)
+          .post('/api/v1/history-import/import-1/apply')
+          .expect(status);
+
+        // Assert
+        expect(response.body).toEqual({
+          success: false,
+          error: 'Cannot import',
+        });
+      }
+    );
+
+    it('should return 500 for unexpected errors', async () => {
+      // Arrange
+      mockImportService.apply.mockRejectedValue(new Error('disk full'));
+
+      // Act
+      await request(app)
+        .post('/api/v1/history-import/import-1/apply')
+        .expect(500);
+    });
+  });
+});
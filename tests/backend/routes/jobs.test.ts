@@ -0,0 +1,129 @@
+import request from 'supertest';
+
+import createJobsRouter from '../../../src/backend/routes/jobs';
+import { JobService } from '../../../src/backend/services/jobService';
+import { Job } from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/services/jobService');
+
+const mockJobService = new JobService(
+  undefined as never
+) as jest.Mocked<JobService>;
+
+describe('Jobs Routes', () => {
+  let app: ReturnType<typeof createTestApp>['app'];
+
+  const runningJob: Job = {
+    id: 'job-1',
+    type: 'seller-scan',
+    status: 'running',
+    message: 'Scanning...',
+    progress: 40,
+    cancellable: true,
+    queuedAt: 1710000000000,
+    startedAt: 1710000000000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const result = createTestApp({
+      mountPath: '/api/v1/jobs',
+      routerFactory: () => createJobsRouter(mockJobService),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('GET /', () => {
+    it('should return recent jobs', async () => {
+      mockJobService.getRecentJobs.mockReturnValue([runningJob]);
+
+      const response = await request(app).get('/api/v1/jobs').expect(200);
+
+      expect(response.body).toEqual({ success: true, data: [runningJob] });
+    });
+  });
+
+  describe('GET /history', () => {
+    it('should pass type and limit through', async () => {
+      mockJobService.getHistory.mockReturnValue([]);
+
+      await request(app)
+        .get('/api/v1/jobs/history?type=seller-scan&limit=10')
+        .expect(200);
+
+      expect(mockJobService.getHistory).toHaveBeenCalledWith({
+        type: 'seller-scan',
+        limit: 10,
+      });
+    });
+
+    it('should reject an invalid limit', async () => {
+      const response = await request(app)
+        .get('/api/v1/jobs/history?limit=abc')
+        .expect(400);
+
+      expect(response.body.error).toBe('limit must be a positive number');
+    });
+  });
+
+  describe('GET /:id', () => {
+    it('should return a single job', async () => {
+      mockJobService.getJob.mockReturnValue(runningJob);
+
+      const response = await request(app).get('/api/v1/jobs/job-1').expect(200);
+
+      expect(response.body.data.progress).toBe(40);
+      expect(mockJobService.getJob).toHaveBeenCalledWith('job-1');
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      mockJobService.getJob.mockReturnValue(undefined);
+
+      const response = await request(app)
+        .get('/api/v1/jobs/missing')
+        .expect(404);
+
+      expect(response.body.error).toBe('Job not found');
+    });
+  });
+
+  describe('POST /:id/cancel', () => {
+    it('should request cancellation', async () => {
+      mockJobService.getJob.mockReturnValue(runningJob);
+      mockJobService.cancelJob.mockResolvedValue(true);
+
+      await request(app).post('/api/v1/jobs/job-1/cancel').expect(200);
+
+      expect(mockJobService.cancelJob).toHaveBeenCalledWith('job-1');
+    });
+
+    it('should return 400 for a job that cannot be cancelled', async () => {
+      mockJobService.getJob.mockReturnValue({
+        ...runningJob,
+        cancellable: false,
+      });
+
+      await request(app).post('/api/v1/jobs/job-1/cancel').expect(400);
+
+      expect(mockJobService.cancelJob).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 once the job has finished', async () => {
+      mockJobService.getJob.mockReturnValue({
+        ...runningJob,
+        status: 'completed',
+      });
+      mockJobService.cancelJob.mockResolvedValue(false);
+
+      const response = await request(app)
+        .post('/api/v1/jobs/job-1/cancel')
+        .expect(409);
+
+      expect(response.body.error).toBe('Job has already finished');
+    });
+  });
+});
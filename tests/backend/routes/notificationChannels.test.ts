@@ -0,0 +1,169 @@
+import request from 'supertest';
+
+import createNotificationChannelsRouter from '../../../src/backend/routes/notificationChannels';
+import { NotificationChannelService } from '../../../src/backend/services/notificationChannelService';
+import { NotificationChannel } from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/services/notificationChannelService');
+
+const MockedNotificationChannelService =
+  NotificationChannelService as jest.MockedClass<
+    typeof NotificationChannelService
+  >;
+
+describe('Notification Channels Routes', () => {
+  let app: ReturnType<typeof createTestApp>['app'];
+  let mockChannelService: jest.Mocked<NotificationChannelService>;
+
+  const webhook = {
+    name: 'Home Assistant',
+    enabled: true,
+    routes: [{ category: 'seller-match', maxPrice: 30 }],
+    type: 'webhook',
+    config: { url: 'https://hooks.example.com/in' },
+  };
+
+  const channel = {
+    ...webhook,
+    id: 'c1',
+    createdAt: 1710000000000,
+  } as NotificationChannel;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockChannelService = new MockedNotificationChannelService(
+      undefined as never,
+      undefined as never
+    ) as jest.Mocked<NotificationChannelService>;
+
+    const result = createTestApp({
+      mountPath: '/api/v1/notification-channels',
+      routerFactory: () => createNotificationChannelsRouter(mockChannelService),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('GET /', () => {
+    it('should list channels', async () => {
+      mockChannelService.getChannels.mockResolvedValue([channel]);
+
+      const response = await request(app)
+        .get('/api/v1/notification-channels')
+        .expect(200);
+
+      expect(response.body.data).toEqual([channel]);
+    });
+  });
+
+  describe('POST /', () => {
+    it('should create a channel from the known fields only', async () => {
+      mockChannelService.createChannel.mockResolvedValue(channel);
+
+      await request(app)
+        .post('/api/v1/notification-channels')
+        .send({ ...webhook, id: 'forged', lastError: 'x' })
+        .expect(201);
+
+      expect(mockChannelService.createChannel).toHaveBeenCalledWith({
+        name: 'Home Assistant',
+        enabled: true,
+        routes: [{ category: 'seller-match', maxPrice: 30 }],
+        type: 'webhook',
+        config: { url: 'https://hooks.example.com/in' },
+      });
+    });
+
+    it.each([
+      [{ ...webhook, type: 'pigeon' }, 'type must be one of'],
+      [{ ...webhook, routes: [] }, 'routes must be a non-empty array'],
+      [{ ...webhook, routes: [{ category: 'gossip' }] }, 'route category'],
+      [{ ...webhook, config: { url: 'ftp://x' } }, 'config.url'],
+      [
+        { ...webhook, quietHours: { start: '25:00', end: '07:00' } },
+        'quietHours',
+      ],
+      [
+        {
+          ...webhook,
+          type: 'push',
+          config: { server: 'gotify', url: 'https://push.example.com' },
+        },
+        'config.token is required for Gotify',
+      ],
+      [
+        {
+          ...webhook,
+          type: 'email',
+          config: {
+            host: 'smtp.example.com',
+            port: 587,
+            secure: false,
+            from: 'records@example.com',
+            to: ['not an address'],
+          },
+        },
+        'config.to',
+      ],
+    ])('should reject an invalid channel (%#)', async (body, message) => {
+      const response = await request(app)
+        .post('/api/v1/notification-channels')
+        .send(body)
+        .expect(400);
+
+      expect(response.body.error).toContain(message);
+      expect(mockChannelService.createChannel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /:id', () => {
+    it('should return 404 for an unknown channel', async () => {
+      mockChannelService.updateChannel.mockResolvedValue(null);
+
+      const response = await request(app)
+        .put('/api/v1/notification-channels/missing')
+        .send(webhook)
+        .expect(404);
+
+      expect(response.body.error).toBe('Channel not found');
+    });
+  });
+
+  describe('POST /:id/test', () => {
+    it('should report a successful delivery', async () => {
+      mockChannelService.sendTest.mockResolvedValue(true);
+
+      const response = await request(app)
+        .post('/api/v1/notification-channels/c1/test')
+        .expect(200);
+
+      expect(response.body.data).toEqual({ delivered: true });
+    });
+
+    it('should report why delivery failed', async () => {
+      mockChannelService.sendTest.mockRejectedValue(
+        new Error('Request failed with status code 401')
+      );
+
+      const response = await request(app)
+        .post('/api/v1/notification-channels/c1/test')
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        delivered: false,
+        error: 'Request failed with status code 401',
+      });
+    });
+
+    it('should return 404 for an unknown channel', async () => {
+      mockChannelService.sendTest.mockResolvedValue(false);
+
+      await request(app)
+        .post('/api/v1/notification-channels/missing/test')
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import request from 'supertest';
+
+import createNotificationsRouter from '../../../src/backend/routes/notifications';
+import { DEFAULT_NOTIFICATION_RULES } from '../../../src/backend/services/notificationRules';
+import { NotificationService } from '../../../src/backend/services/notificationService';
+import { AppNotification } from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/services/notificationService');
+
+const mockNotificationService = new NotificationService(
+  undefined as never
+) as jest.Mocked<NotificationService>;
+
+describe('Notifications Routes', () => {
+  let app: ReturnType<typeof createTestApp>['app'];
+
+  const notification: AppNotification = {
+    id: 'n1',
+    type: 'info',
+    title: 'Scan complete',
+    message: 'Found 2 new items',
+    timestamp: 1710000000000,
+    read: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const result = createTestApp({
+      mountPath: '/api/v1/notifications',
+      routerFactory: () => createNotificationsRouter(mockNotificationService),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('GET /', () => {
+    it('should return notifications and the unread count', async () => {
+      mockNotificationService.getNotifications.mockReturnValue([notification]);
+      mockNotificationService.getUnreadCount.mockReturnValue(1);
+
+      const response = await request(app)
+        .get('/api/v1/notifications')
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        notifications: [notification],
+        unreadCount: 1,
+      });
+    });
+  });
+
+  describe('POST /', () => {
+    it('should create a notification', async () => {
+      mockNotificationService.add.mockReturnValue(notification);
+
+      const response = await request(app)
+        .post('/api/v1/notifications')
+        .send({ type: 'info', title: 'Scan complete', message: 'Found 2' })
+        .expect(201);
+
+      expect(response.body.data).toEqual(notification);
+      expect(mockNotificationService.add).toHaveBeenCalledWith({
+        type: 'info',
+        title: 'Scan complete',
+        message: 'Found 2',
+        action: undefined,
+      });
+    });
+
+    it('should reject an unknown type', async () => {
+      const response = await request(app)
+        .post('/api/v1/notifications')
+        .send({ type: 'shout', title: 'Hi', message: '' })
+        .expect(400);
+
+      expect(response.body.error).toMatch(/type must be one of/);
+      expect(mockNotificationService.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /import', () => {
+    it('should import only valid notifications', async () => {
+      mockNotificationService.importNotifications.mockReturnValue(1);
+
+      const response = await request(app)
+        .post('/api/v1/notifications/import')
+        .send({ notifications: [notification, { id: 'bad' }] })
+        .expect(200);
+
+      expect(response.body.data).toEqual({ imported: 1 });
+      expect(mockNotificationService.importNotifications).toHaveBeenCalledWith([
+        notification,
+      ]);
+    });
+
+    it('should reject a body without an array', async () => {
+      await request(app)
+        .post('/api/v1/notifications/import')
+        .send({ notifications: 'nope' })
+        .expect(400);
+    });
+  });
+
+  describe('PUT /rules', () => {
+    it('should update rule settings', async () => {
+      const rules = {
+        ...DEFAULT_NOTIFICATION_RULES,
+        'seller-match': { enabled: false },
+      };
+      mockNotificationService.updateRules.mockResolvedValue(rules);
+
+      const response = await request(app)
+        .put('/api/v1/notifications/rules')
+        .send({ 'seller-match': { enabled: false } })
+        .expect(200);
+
+      expect(response.body.data).toEqual(rules);
+    });
+
+    it('should reject an unknown rule', async () => {
+      const response = await request(app)
+        .put('/api/v1/notifications/rules')
+        .send({ 'not-a-rule': { enabled: true } })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unknown notification rule: not-a-rule');
+    });
+  });
+
+  describe('PATCH /:id', () => {
+    it('should mark a notification as read', async () => {
+      mockNotificationService.markRead.mockReturnValue({
+        ...notification,
+        read: true,
+      });
+
+      const response = await request(app)
+        .patch('/api/v1/notifications/n1')
+        .send({ read: true })
+        .expect(200);
+
+      expect(response.body.data.read).toBe(true);
+      expect(mockNotificationService.markRead).toHaveBeenCalledWith('n1');
+    });
+
+    it('should return 404 for an unknown notification', async () => {
+      mockNotificationService.markRead.mockReturnValue(undefined);
+
+      const response = await request(app)
+        .patch('/api/v1/notifications/missing')
+        .send({ read: true })
+        .expect(404);
+
+      expect(response.body.error).toBe('Notification not found');
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should return 404 for an unknown notification', async () => {
+      mockNotificationService.remove.mockReturnValue(false);
+
+      await request(app).delete('/api/v1/notifications/missing').expect(404);
+    });
+  });
+});
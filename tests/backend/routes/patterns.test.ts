@@ -0,0 +1,316 @@
+import request from 'supertest';
+
+import createPatternsRouter from '../../../src/backend/routes/patterns';
+import { ListeningPatternService } from '../../../src/backend/services/listeningPatternService';
+import {
+  BackfillPlan,
+  BackfillWindow,
+  ListeningPatterns,
+} from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/services/listeningPatternService');
+
+const MockedListeningPatternService =
+  ListeningPatternService as jest.MockedClass<typeof ListeningPatternService>;
+
+describe('Patterns Routes', () => {
+  let mockService: jest.Mocked<ListeningPatternService>;
+  let app: ReturnType<typeof createTestApp>['app'];
+
+  const mockPatterns: ListeningPatterns = {
+    typicalStartTimes: [],
+    averageSessionLength: 5400,
+    averageGapBetweenAlbums: 420,
+    averageAlbumsPerSession: 2.5,
+    peakHour: 20,
+    peakDayOfWeek: 6,
+    sessionCount: 12,
+    analyzedFrom: 1700000000,
+    analyzedTo: 1710000000,
+    calculatedAt: 1710000000000,
+  };
+
+  const mockWindow: BackfillWindow = {
+    label: 'Last Saturday evening',
+    start: 1710000000,
+    end: 1710021600,
+    suggestedStart: 1710007200,
+    outsideLastFmWindow: false,
+  };
+
+  const mockPlan: BackfillPlan = {
+    window: mockWindow,
+    albums: [],
+    gapBetweenAlbums: 420,
+    totalDuration: 0,
+    overflows: false,
+    skipped: [],
+  };
+
+  const validItem = {
+    id: 1,
+    date_added: '2024-01-01T00:00:00Z',
+    release: { id: 123, title: 'Kid A', artist: 'Radiohead' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockService = new MockedListeningPatternService(
+      {} as any,
+      {} as any,
+      {} as any
+    ) as jest.Mocked<ListeningPatternService>;
+    mockService.resolveWindow.mockReturnValue(mockWindow);
+
+    const result = createTestApp({
+      mountPath: '/api/v1/patterns',
+      routerFactory: () => createPatternsRouter(mockService),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('GET /', () => {
+    it('should return learned patterns', async () => {
+      mockService.getPatterns.mockResolvedValue(mockPatterns);
+
+      const response = await request(app).get('/api/v1/patterns').expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.peakHour).toBe(20);
+    });
+
+    it('should return null when there is no history', async () => {
+      mockService.getPatterns.mockResolvedValue(null);
+
+      const response = await request(app).get('/api/v1/patterns').expect(200);
+
+      expect(response.body.data).toBeNull();
+    });
+
+    it('should return 500 on error', async () => {
+      mockService.getPatterns.mockRejectedValue(new Error('boom'));
+
+      const response = await request(app).get('/api/v1/patterns').expect(500);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Failed to get listening patterns');
+    });
+  });
+
+  describe('POST /recalculate', () => {
+    it('should force a recalculation', async () => {
+      mockService.calculatePatterns.mockResolvedValue(mockPatterns);
+
+      await request(app).post('/api/v1/patterns/recalculate').expect(200);
+
+      expect(mockService.calculatePatterns).toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /presets', () => {
+    it('should return backfill presets', async () => {
+      mockService.getPresets.mockResolvedValue([
+        {
+          id: 'last-saturday-evening',
+          request: { dayOfWeek: 6, period: 'evening' },
+          window: mockWindow,
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/api/v1/patterns/presets')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].window.label).toBe('Last Saturday evening');
+    });
+  });
+
+  describe('POST /backfill-plan', () => {
+    it('should plan timestamps for the queue', async () => {
+      mockService.planBackfill.mockResolvedValue(mockPlan);
+
+      const response = await request(app)
+        .post('/api/v1/patterns/backfill-plan')
+        .send({
+          items: [validItem],
+          window: { dayOfWeek: 6, period: 'evening' },
+          gapSeconds: 300,
+        })
+        .expect(200);
+
+      expect(response.body.data.window.label).toBe('Last Saturday evening');
+      expect(mockService.planBackfill).toHaveBeenCalledWith(
+        [validItem],
+        { dayOfWeek: 6, period: 'evening' },
+        { gapSeconds: 300 }
+      );
+    });
+
+    it('should return 400 when items are missing', async () => {
+      const response = await request(app)
+        .post('/api/v1/patterns/backfill-plan')
+        .send({ items: [], window: { daysAgo: 1 } })
+        .expect(400);
+
+      expect(response.body.error).toBe('items must be a non-empty array');
+      expect(mockService.planBackfill).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when too many items are queued', async () => {
+      const items = Array.from({ length: 21 }, () => validItem);
+
+      const response = await request(app)
+        .post('/api/v1/patterns/backfill-plan')
+        .send({ items, window: { daysAgo: 1 } })
+        .expect(400);
+
+      expect(response.body.error).toContain('more than 20');
+    });
+
+    it('should return 400 for items without a release id', async () => {
+      const response = await request(app)
+        .post('/api/v1/patterns/backfill-plan')
+        .send({ items: [{ id: 1 }], window: { daysAgo: 1 } })
+        .expect(400);
+
+      expect(response.body.error).toBe(
+        'Each item must include a release with an id'
+      );
+    });
+
+    it('should return 400 for an invalid period', async () => {
+      const response = await request(app)
+        .post('/api/v1/patterns/backfill-plan')
+        .send({ items: [validItem], window: { period: 'brunch' } })
+        .expect(400);
+
+      expect(response.body.error).toContain('window.period must be one of');
+    });
+
+    it('should return 400 when only one window bound is given', async () => {
+      const response = await request(app)
+        .post('/api/v1/patterns/backfill-plan')
+        .send({ items: [validItem], window: { start: 1710000000 } })
+        .expect(400);
+
+      expect(response.body.error).toBe(
+        'window.start and window.end must be provided together'
+      );
+    });
+
+    it('should return 400 when the window cannot be resolved', async () => {
+      mockService.resolveWindow.mockImplementation(() => {
+        throw new Error('Window must start in the past');
+      });
+
+      const response = await request(app)
+        .post('/api/v1/patterns/backfill-plan')
+        .send({ items: [validItem], window: { daysAgo: 0 } })
+        .expect(400);
+
+      expect(response.body.error).toBe('Window must start in the past');
+      expect(mockService.planBackfill).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when planning fails', async () => {
+      mockService.planBackfill.mockRejectedValue(new Error('Discogs down'));
+
+      const response = await request(app)
+        .post('/api/v1/patterns/backfill-plan')
+        .send({ items: [validItem], window: { daysAgo: 1 } })
+        .expect(500);
+
+      expect(response.body.error).toBe('Failed to plan backfill');
+    });
+  });
+
+  describe('POST /check-conflicts', () => {
+    const track = { artist: 'Air', track: 'La Femme', duration: 200 };
+
+    it('should fill missing timestamps like /scrobble/batch', async () => {
+      mockService.checkConflicts.mockResolvedValue({
+        tracks: [],
+        conflicts: [],
+        hasConflicts: false,
+      });
+
+      await request(app)
+        .post('/api/v1/patterns/check-conflicts')
+        .send({ tracks: [track, track], baseTimestamp: 1710000000 })
+        .expect(200);
+
+      expect(mockService.checkConflicts).toHaveBeenCalledWith(
+        [
+          { ...track, timestamp: 1710000000 - 180 },
+          { ...track, timestamp: 1710000000 },
+        ],
+        { autoShift: false }
+      );
+    });
+
+    it('should pass through autoShift and return the report', async () => {
+      mockService.checkConflicts.mockResolvedValue({
+        tracks: [{ ...track, timestamp: 1710000000 }],
+        conflicts: [],
+        hasConflicts: false,
+        autoShift: null,
+      });
+
+      const response = await request(app)
+        .post('/api/v1/patterns/check-conflicts')
+        .send({
+          tracks: [{ ...track, timestamp: 1710000000 }],
+          autoShift: true,
+        })
+        .expect(200);
+
+      expect(response.body.data.autoShift).toBeNull();
+      expect(mockService.checkConflicts).toHaveBeenCalledWith(
+        [{ ...track, timestamp: 1710000000 }],
+        { autoShift: true }
+      );
+    });
+
+    it('should return 400 when tracks are missing', async () => {
+      const response = await request(app)
+        .post('/api/v1/patterns/check-conflicts')
+        .send({})
+        .expect(400);
+
+      expect(response.body.error).toBe('tracks must be a non-empty array');
+    });
+
+    it('should return 400 for malformed tracks', async () => {
+      const response = await request(app)
+        .post('/api/v1/patterns/check-conflicts')
+        .send({ tracks: [{ ...track, timestamp: 'yesterday' }] })
+        .expect(400);
+
+      expect(response.body.error).toContain('Each track needs');
+      expect(mockService.checkConflicts).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid baseTimestamp', async () => {
+      await request(app)
+        .post('/api/v1/patterns/check-conflicts')
+        .send({ tracks: [track], baseTimestamp: -5 })
+        .expect(400);
+    });
+
+    it('should return 500 when the check fails', async () => {
+      mockService.checkConflicts.mockRejectedValue(new Error('disk'));
+
+      const response = await request(app)
+        .post('/api/v1/patterns/check-conflicts')
+        .send({ tracks: [track] })
+        .expect(500);
+
+      expect(response.body.error).toBe('Failed to check scrobble conflicts');
+    });
+  });
+});
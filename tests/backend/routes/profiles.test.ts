@@ -0,0 +1,139 @@
+import request from 'supertest';
+
+import createProfilesRouter from '../../../src/backend/routes/profiles';
+import {
+  ProfileError,
+  ProfileService,
+} from '../../../src/backend/services/profileService';
+import { UserProfile } from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/services/profileService', () => ({
+  ...jest.requireActual('../../../src/backend/services/profileService'),
+  ProfileService: jest.fn(),
+}));
+
+describe('Profile Routes', () => {
+  let app: ReturnType<typeof createTestApp>['app'];
+  let mockProfileService: {
+    getProfiles: jest.Mock;
+    createProfile: jest.Mock;
+    renameProfile: jest.Mock;
+    deleteProfile: jest.Mock;
+  };
+  let stopProfile: jest.Mock;
+
+  const profiles: UserProfile[] = [
+    { id: 'default', name: 'Default', createdAt: 1700000000000 },
+    { id: 'sam', name: 'Sam', createdAt: 1710000000000 },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockProfileService = {
+      getProfiles: jest.fn().mockResolvedValue(profiles),
+      createProfile: jest.fn(),
+      renameProfile: jest.fn(),
+      deleteProfile: jest.fn().mockResolvedValue(undefined),
+    };
+    stopProfile = jest.fn().mockResolvedValue(undefined);
+
+    const result = createTestApp({
+      mountPath: '/api/v1/profiles',
+      routerFactory: () =>
+        createProfilesRouter(
+          mockProfileService as unknown as ProfileService,
+          stopProfile
+        ),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('GET /', () => {
+    it('should list profiles', async () => {
+      const response = await request(app).get('/api/v1/profiles').expect(200);
+
+      expect(response.body.data).toEqual(profiles);
+    });
+  });
+
+  describe('POST /', () => {
+    it('should create a profile', async () => {
+      mockProfileService.createProfile.mockResolvedValue(profiles[1]);
+
+      const response = await request(app)
+        .post('/api/v1/profiles')
+        .send({ name: 'Sam' })
+        .expect(201);
+
+      expect(mockProfileService.createProfile).toHaveBeenCalledWith('Sam');
+      expect(response.body.data).toEqual(profiles[1]);
+    });
+
+    it('should report a taken name as a conflict', async () => {
+      mockProfileService.createProfile.mockRejectedValue(
+        new ProfileError('A profile named "Sam" already exists', 409)
+      );
+
+      const response = await request(app)
+        .post('/api/v1/profiles')
+        .send({ name: 'sam' })
+        .expect(409);
+
+      expect(response.body.error).toBe('A profile named "Sam" already exists');
+    });
+
+    it('should return 500 for unexpected errors', async () => {
+      mockProfileService.createProfile.mockRejectedValue(new Error('disk'));
+
+      const response = await request(app)
+        .post('/api/v1/profiles')
+        .send({ name: 'Sam' })
+        .expect(500);
+
+      expect(response.body.error).toBe('Failed to create profile');
+    });
+  });
+
+  describe('PATCH /:id', () => {
+    it('should rename a profile', async () => {
+      mockProfileService.renameProfile.mockResolvedValue({
+        ...profiles[1],
+        name: 'Samantha',
+      });
+
+      const response = await request(app)
+        .patch('/api/v1/profiles/sam')
+        .send({ name: 'Samantha' })
+        .expect(200);
+
+      expect(mockProfileService.renameProfile).toHaveBeenCalledWith(
+        'sam',
+        'Samantha'
+      );
+      expect(response.body.data.name).toBe('Samantha');
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should delete a profile and stop its services', async () => {
+      await request(app).delete('/api/v1/profiles/sam').expect(200);
+
+      expect(mockProfileService.deleteProfile).toHaveBeenCalledWith(
+        'sam',
+        stopProfile
+      );
+    });
+
+    it('should refuse to delete the default profile', async () => {
+      mockProfileService.deleteProfile.mockRejectedValue(
+        new ProfileError('The default profile cannot be deleted', 400)
+      );
+
+      await request(app).delete('/api/v1/profiles/default').expect(400);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import express from 'express';
+import request from 'supertest';
+
+import createRecognizersRouter from '../../../src/backend/routes/recognizers';
+import {
+  RecognizerDeviceError,
+  RecognizerDeviceService,
+} from '../../../src/backend/services/recognizerDeviceService';
+
+describe('Recognizer Routes', () => {
+  let app: express.Application;
+  let mockService: jest.Mocked<RecognizerDeviceService>;
+
+  const device = {
+    id: 'device-1',
+    name: 'Turntable Pi',
+    keyPreview: 'rsk_123456',
+    createdAt: 1700000000000,
+    paused: false,
+    scrobbled: 0,
+    rejected: 0,
+    averageConfidence: null,
+  };
+
+  beforeEach(() => {
+    mockService = {
+      getDevices: jest.fn().mockResolvedValue([device]),
+      registerDevice: jest
+        .fn()
+        .mockResolvedValue({ device, apiKey: 'rsk_secret' }),
+      setPaused: jest.fn().mockResolvedValue({ ...device, paused: true }),
+      revokeDevice: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<RecognizerDeviceService>;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/v1/recognizers', createRecognizersRouter(mockService));
+  });
+
+  it('should list registered recognizers', async () => {
+    const response = await request(app).get('/api/v1/recognizers').expect(200);
+
+    expect(response.body.data).toEqual([device]);
+  });
+
+  it('should register a recognizer and return its key', async () => {
+    const response = await request(app)
+      .post('/api/v1/recognizers')
+      .send({ name: 'Turntable Pi' })
+      .expect(201);
+
+    expect(response.body.data.apiKey).toBe('rsk_secret');
+    expect(mockService.registerDevice).toHaveBeenCalledWith('Turntable Pi');
+  });
+
+  it('should require a name', async () => {
+    await request(app).post('/api/v1/recognizers').send({}).expect(400);
+
+    expect(mockService.registerDevice).not.toHaveBeenCalled();
+  });
+
+  it('should report registry errors with their status', async () => {
+    mockService.registerDevice.mockRejectedValue(
+      new RecognizerDeviceError('Name must be 1-60 characters', 400)
+    );
+
+    const response = await request(app)
+      .post('/api/v1/recognizers')
+      .send({ name: '' })
+      .expect(400);
+
+    expect(response.body.error).toBe('Name must be 1-60 characters');
+  });
+
+  it('should pause a recognizer', async () => {
+    const response = await request(app)
+      .patch('/api/v1/recognizers/device-1')
+      .send({ paused: true })
+      .expect(200);
+
+    expect(response.body.data.paused).toBe(true);
+    expect(mockService.setPaused).toHaveBeenCalledWith('device-1', true);
+  });
+
+  it('should reject a pause without a boolean', async () => {
+    await request(app)
+      .patch('/api/v1/recognizers/device-1')
+      .send({ paused: 'yes' })
+      .expect(400);
+  });
+
+  it('should revoke a recognizer', async () => {
+    await request(app).delete('/api/v1/recognizers/device-1').expect(200);
+
+    expect(mockService.revokeDevice).toHaveBeenCalledWith('device-1');
+  });
+
+  it('should return 404 when revoking an unknown recognizer', async () => {
+    mockService.revokeDevice.mockRejectedValue(
+      new RecognizerDeviceError('Recognizer not found', 404)
+    );
+
+    await request(app).delete('/api/v1/recognizers/missing').expect(404);
+  });
+});
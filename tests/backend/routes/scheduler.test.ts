@@ -0,0 +1,160 @@
+import request from 'supertest';
+
+import createSchedulerRouter from '../../../src/backend/routes/scheduler';
+import { SchedulerService } from '../../../src/backend/services/schedulerService';
+import { CronError } from '../../../src/backend/utils/cron';
+import { ScheduledTask } from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/services/schedulerService');
+
+const MockedSchedulerService = SchedulerService as jest.MockedClass<
+  typeof SchedulerService
+>;
+
+describe('Scheduler Routes', () => {
+  let app: ReturnType<typeof createTestApp>['app'];
+  let mockScheduler: jest.Mocked<SchedulerService>;
+
+  const task: ScheduledTask = {
+    id: 'seller-scan',
+    name: 'Local seller scan',
+    description: 'Check monitored sellers for wishlist items',
+    usesDiscogs: true,
+    running: false,
+    enabled: true,
+    schedule: '0 */6 * * *',
+    jitterMinutes: 20,
+    catchUp: true,
+    nextRunAt: 1710100000000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockScheduler = new MockedSchedulerService(
+      undefined as never
+    ) as jest.Mocked<SchedulerService>;
+    mockScheduler.getTasks.mockResolvedValue([task]);
+    mockScheduler.getSettings.mockResolvedValue({ discogsMinRemaining: 20 });
+
+    const result = createTestApp({
+      mountPath: '/api/v1/scheduler',
+      routerFactory: () => createSchedulerRouter(mockScheduler),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('GET /', () => {
+    it('should return tasks and settings', async () => {
+      const response = await request(app).get('/api/v1/scheduler').expect(200);
+
+      expect(response.body.data).toEqual({
+        tasks: [task],
+        settings: { discogsMinRemaining: 20 },
+      });
+    });
+  });
+
+  describe('PUT /tasks/:id', () => {
+    it('should pass only known fields to the service', async () => {
+      mockScheduler.updateTask.mockResolvedValue({ ...task, enabled: false });
+
+      await request(app)
+        .put('/api/v1/scheduler/tasks/seller-scan')
+        .send({ enabled: false, running: true })
+        .expect(200);
+
+      expect(mockScheduler.updateTask).toHaveBeenCalledWith('seller-scan', {
+        enabled: false,
+      });
+    });
+
+    it('should reject an invalid jitter', async () => {
+      const response = await request(app)
+        .put('/api/v1/scheduler/tasks/seller-scan')
+        .send({ jitterMinutes: -5 })
+        .expect(400);
+
+      expect(response.body.error).toMatch(/jitterMinutes/);
+      expect(mockScheduler.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should report an invalid schedule as a bad request', async () => {
+      mockScheduler.updateTask.mockRejectedValue(
+        new CronError('hour must be between 0 and 23')
+      );
+
+      const response = await request(app)
+        .put('/api/v1/scheduler/tasks/seller-scan')
+        .send({ schedule: '0 25 * * *' })
+        .expect(400);
+
+      expect(response.body.error).toBe('hour must be between 0 and 23');
+    });
+
+    it('should return 404 for an unknown task', async () => {
+      mockScheduler.updateTask.mockResolvedValue(null);
+
+      await request(app)
+        .put('/api/v1/scheduler/tasks/missing')
+        .send({ enabled: true })
+        .expect(404);
+    });
+  });
+
+  describe('POST /tasks/:id/run', () => {
+    it('should start the task', async () => {
+      mockScheduler.runNow.mockResolvedValue(true);
+
+      const response = await request(app)
+        .post('/api/v1/scheduler/tasks/seller-scan/run')
+        .expect(202);
+
+      expect(response.body.data).toEqual({ started: true });
+      expect(mockScheduler.runNow).toHaveBeenCalledWith('seller-scan');
+    });
+
+    it('should return 409 while the task is running', async () => {
+      mockScheduler.runNow.mockResolvedValue(false);
+
+      await request(app)
+        .post('/api/v1/scheduler/tasks/seller-scan/run')
+        .expect(409);
+    });
+
+    it('should return 404 for an unknown task', async () => {
+      await request(app)
+        .post('/api/v1/scheduler/tasks/missing/run')
+        .expect(404);
+
+      expect(mockScheduler.runNow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /settings', () => {
+    it('should save the Discogs budget', async () => {
+      mockScheduler.updateSettings.mockResolvedValue({
+        discogsMinRemaining: 30,
+      });
+
+      await request(app)
+        .put('/api/v1/scheduler/settings')
+        .send({ discogsMinRemaining: 30 })
+        .expect(200);
+
+      expect(mockScheduler.updateSettings).toHaveBeenCalledWith({
+        discogsMinRemaining: 30,
+      });
+    });
+
+    it('should reject values beyond the Discogs limit', async () => {
+      await request(app)
+        .put('/api/v1/scheduler/settings')
+        .send({ discogsMinRemaining: 100 })
+        .expect(400);
+    });
+  });
+});
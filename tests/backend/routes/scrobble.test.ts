@@ -5,9 +5,17 @@ import request from 'supertest';
 
 import createScrobbleRouter from '../../../src/backend/routes/scrobble';
 import { AuthService } from '../../../src/backend/services/authService';
-import { DurationLookupService } from '../../../src/backend/services/durationLookupService';
 import { LastFmService } from '../../../src/backend/services/lastfmService';
+import { RecognizerDeviceService } from '../../../src/backend/services/recognizerDeviceService';
+import { RecognizerSessionService } from '../../../src/backend/services/recognizerSessionService';
+import { ScrobbleTargetService } from '../../../src/backend/services/scrobbleTargetService';
+import {
+  ScrobbleUndoError,
+  ScrobbleUndoService,
+} from '../../../src/backend/services/scrobbleUndoService';
+import { SideMemoryService } from '../../../src/backend/services/sideMemoryService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { ScrobbleTrack } from '../../../src/shared/types';
 
 // Mock dependencies
 jest.mock('../../../src/backend/services/lastfmService');
@@ -155,17 +163,32 @@ describe('Scrobble Routes', () => {
   });
 
   describe('POST /recognized', () => {
-    let mockDurationLookupService: jest.Mocked<DurationLookupService>;
+    let mockRecognizerSessionService: jest.Mocked<RecognizerSessionService>;
+    let mockRecognizerDeviceService: jest.Mocked<RecognizerDeviceService>;
+
+    const device = {
+      id: 'device-1',
+      name: 'Turntable Pi',
+      keyHash: 'hash',
+      keyPreview: 'rsk_123456',
+      createdAt: 1700000000000,
+      paused: false,
+      stats: {
+        scrobbled: 0,
+        rejected: 0,
+        confidenceTotal: 0,
+        confidenceCount: 0,
+      },
+    };
+
+    const recognized = (localApp: express.Application) =>
+      request(localApp)
+        .post('/api/v1/scrobble/recognized')
+        .set('Authorization', 'Bearer rsk_valid');
 
-    const buildApp = (withDurationLookup: boolean) => {
+    const buildApp = (withSessions: boolean) => {
       const localApp = express();
-      localApp.use(helmet());
-      localApp.use(cors());
       localApp.use(express.json());
-      localApp.use((_req, res, next) => {
-        res.set('Connection', 'close');
-        next();
-      });
       localApp.use(
         '/api/v1/scrobble',
         createScrobbleRouter(
@@ -175,162 +198,173 @@ describe('Scrobble Routes', () => {
           undefined,
           undefined,
           undefined,
-          withDurationLookup ? mockDurationLookupService : undefined
+          withSessions ? mockRecognizerSessionService : undefined,
+          undefined,
+          undefined,
+          undefined,
+          mockRecognizerDeviceService
         )
       );
       return localApp;
     };
 
+    const session = {
+      id: 'session-1',
+      source: 'vinyl-pi',
+      startedAt: 1700000000,
+      lastEventAt: 1700000000,
+      plays: [],
+    };
+
     beforeEach(() => {
-      mockDurationLookupService = {
-        lookupDuration: jest.fn(),
-      } as unknown as jest.Mocked<DurationLookupService>;
+      mockRecognizerSessionService = {
+        handleEvent: jest.fn().mockResolvedValue({
+          session,
+          scrobbled: [],
+          rejected: [],
+        }),
+        getSessions: jest.fn().mockResolvedValue([session]),
+      } as unknown as jest.Mocked<RecognizerSessionService>;
+      mockRecognizerDeviceService = {
+        authenticate: jest.fn(async (key?: string) =>
+          key === 'rsk_valid' ? device : null
+        ),
+        recordEvent: jest.fn().mockResolvedValue(undefined),
+      } as unknown as jest.Mocked<RecognizerDeviceService>;
+    });
 
-      mockLastFmService.scrobbleTrack.mockResolvedValue({
-        success: true,
-        accepted: 1,
-        ignored: 0,
-        message: 'Successfully scrobbled',
-      });
+    it('returns 503 without a recognizer session service', async () => {
+      const response = await recognized(buildApp(false))
+        .send({ artist: 'Test Artist', title: 'Test Track' })
+        .expect(503);
+
+      expect(response.body.success).toBe(false);
     });
 
-    it('rejects requests missing artist or title', async () => {
+    it('requires a registered recognizer API key', async () => {
       const localApp = buildApp(true);
 
-      const missingTitle = await request(localApp)
+      await request(localApp)
         .post('/api/v1/scrobble/recognized')
-        .send({ artist: 'Test Artist' })
+        .send({ artist: 'Test Artist', title: 'Test Track' })
+        .expect(401);
+      await request(localApp)
+        .post('/api/v1/scrobble/recognized')
+        .set('Authorization', 'Bearer rsk_revoked')
+        .send({ artist: 'Test Artist', title: 'Test Track' })
+        .expect(401);
+
+      expect(mockRecognizerSessionService.handleEvent).not.toHaveBeenCalled();
+    });
+
+    it('follows but does not scrobble events from a paused recognizer', async () => {
+      mockRecognizerDeviceService.authenticate.mockResolvedValue({
+        ...device,
+        paused: true,
+      });
+
+      await recognized(buildApp(true))
+        .send({ artist: 'Test Artist', title: 'Test Track' })
+        .expect(200);
+
+      expect(mockRecognizerSessionService.handleEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ source: 'device-1' }),
+        { paused: true }
+      );
+    });
+
+    it('rejects track-start events missing artist or title', async () => {
+      const localApp = buildApp(true);
+
+      const missingTitle = await recognized(localApp)
+        .send({ event: 'track-start', artist: 'Test Artist' })
         .expect(400);
       expect(missingTitle.body.success).toBe(false);
 
-      const missingArtist = await request(localApp)
-        .post('/api/v1/scrobble/recognized')
+      const missingArtist = await recognized(localApp)
         .send({ title: 'Test Track' })
         .expect(400);
       expect(missingArtist.body.success).toBe(false);
+      expect(mockRecognizerSessionService.handleEvent).not.toHaveBeenCalled();
     });
 
-    it('enriches the scrobble with a looked-up duration', async () => {
-      mockDurationLookupService.lookupDuration.mockResolvedValue({
-        artist: 'Test Artist',
-        track: 'Test Track',
-        duration: 213,
-        source: 'discogs_collection',
-      });
-
+    it('rejects unknown events and out-of-range confidence', async () => {
       const localApp = buildApp(true);
-      const response = await request(localApp)
-        .post('/api/v1/scrobble/recognized')
+
+      await recognized(localApp).send({ event: 'scratch' }).expect(400);
+      await recognized(localApp)
+        .send({ event: 'confidence', confidence: 1.5 })
+        .expect(400);
+      await recognized(localApp).send({ event: 'confidence' }).expect(400);
+
+      expect(mockRecognizerSessionService.handleEvent).not.toHaveBeenCalled();
+    });
+
+    it('treats a body without an event as a track-start', async () => {
+      const response = await recognized(buildApp(true))
         .send({
           artist: 'Test Artist',
           title: 'Test Track',
           album: 'Test Album',
+          timestamp: 1700000000,
           source: 'vinyl-pi',
         })
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.durationSource).toBe('discogs_collection');
-      expect(mockLastFmService.scrobbleTrack).toHaveBeenCalledWith(
-        expect.objectContaining({
-          artist: 'Test Artist',
-          track: 'Test Track',
-          album: 'Test Album',
-          duration: 213,
-          timestamp: expect.any(Number),
-        })
+      expect(response.body.data.session.id).toBe('session-1');
+      const expectedEvent = {
+        event: 'track-start',
+        source: 'device-1',
+        artist: 'Test Artist',
+        title: 'Test Track',
+        album: 'Test Album',
+        confidence: undefined,
+        timestamp: 1700000000,
+      };
+      expect(mockRecognizerSessionService.handleEvent).toHaveBeenCalledWith(
+        expectedEvent,
+        { paused: false }
       );
-      expect(mockDurationLookupService.lookupDuration).toHaveBeenCalledWith(
-        'Test Artist',
-        'Test Track',
-        'Test Album'
+      expect(mockRecognizerDeviceService.recordEvent).toHaveBeenCalledWith(
+        'device-1',
+        expectedEvent,
+        { session, scrobbled: [], rejected: [] }
       );
     });
 
-    it('scrobbles without a duration when lookup returns not_found', async () => {
-      mockDurationLookupService.lookupDuration.mockResolvedValue({
-        artist: 'Test Artist',
-        track: 'Test Track',
-        duration: null,
-        source: 'not_found',
-      });
-
-      const localApp = buildApp(true);
-      const response = await request(localApp)
-        .post('/api/v1/scrobble/recognized')
-        .send({ artist: 'Test Artist', title: 'Test Track' })
+    it('passes playback events on without a track', async () => {
+      await recognized(buildApp(true))
+        .send({ event: 'needle-lift' })
         .expect(200);
 
-      expect(response.body.data.durationSource).toBe('not_found');
-      const scrobbled = mockLastFmService.scrobbleTrack.mock.calls[0][0];
-      expect(scrobbled.duration).toBeUndefined();
+      expect(mockRecognizerSessionService.handleEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'needle-lift',
+          timestamp: expect.any(Number),
+        }),
+        { paused: false }
+      );
     });
 
-    it('falls back gracefully when duration lookup throws', async () => {
-      mockDurationLookupService.lookupDuration.mockRejectedValue(
-        new Error('boom')
+    it('returns 500 when the event cannot be handled', async () => {
+      mockRecognizerSessionService.handleEvent.mockRejectedValue(
+        new Error('Disk full')
       );
 
-      const localApp = buildApp(true);
-      const response = await request(localApp)
-        .post('/api/v1/scrobble/recognized')
-        .send({ artist: 'Test Artist', title: 'Test Track' })
-        .expect(200);
+      const response = await recognized(buildApp(true))
+        .send({ event: 'track-end' })
+        .expect(500);
 
-      expect(response.body.success).toBe(true);
-      const scrobbled = mockLastFmService.scrobbleTrack.mock.calls[0][0];
-      expect(scrobbled.duration).toBeUndefined();
+      expect(response.body.error).toBe('Disk full');
     });
 
-    it('works when no DurationLookupService is provided', async () => {
-      const localApp = buildApp(false);
-      const response = await request(localApp)
-        .post('/api/v1/scrobble/recognized')
-        .send({ artist: 'Test Artist', title: 'Test Track' })
+    it('lists recent recognizer sessions', async () => {
+      const response = await request(buildApp(true))
+        .get('/api/v1/scrobble/recognized/sessions')
         .expect(200);
 
-      expect(response.body.data.durationSource).toBe('not_looked_up');
-      expect(mockDurationLookupService.lookupDuration).not.toHaveBeenCalled();
-    });
-
-    it('honors a caller-supplied timestamp', async () => {
-      mockDurationLookupService.lookupDuration.mockResolvedValue({
-        artist: 'A',
-        track: 'T',
-        duration: null,
-        source: 'not_found',
-      });
-      const localApp = buildApp(true);
-
-      await request(localApp)
-        .post('/api/v1/scrobble/recognized')
-        .send({ artist: 'A', title: 'T', timestamp: 1700000000 })
-        .expect(200);
-
-      expect(mockLastFmService.scrobbleTrack).toHaveBeenCalledWith(
-        expect.objectContaining({ timestamp: 1700000000 })
-      );
-    });
-
-    it('returns 500 when the scrobble itself fails', async () => {
-      mockDurationLookupService.lookupDuration.mockResolvedValue({
-        artist: 'A',
-        track: 'T',
-        duration: null,
-        source: 'not_found',
-      });
-      mockLastFmService.scrobbleTrack.mockRejectedValue(
-        new Error('Last.fm down')
-      );
-
-      const localApp = buildApp(true);
-      const response = await request(localApp)
-        .post('/api/v1/scrobble/recognized')
-        .send({ artist: 'A', title: 'T' })
-        .expect(500);
-
-      expect(response.body.success).toBe(false);
-      expect(response.body.error).toContain('Last.fm down');
+      expect(response.body.data).toEqual([session]);
     });
   });
 
@@ -345,9 +379,11 @@ describe('Scrobble Routes', () => {
         success: 2,
         failed: 0,
         ignored: 0,
+        queued: 0,
         errors: [],
         failedTracks: [],
         sessionId: 'session-123',
+        targets: [],
       };
 
       mockLastFmService.scrobbleBatch.mockResolvedValue(mockResult);
@@ -359,7 +395,43 @@ describe('Scrobble Routes', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.results).toEqual(mockResult);
-      expect(mockLastFmService.scrobbleBatch).toHaveBeenCalledWith(mockTracks);
+      expect(mockLastFmService.scrobbleBatch).toHaveBeenCalledWith(
+        mockTracks,
+        'app'
+      );
+    });
+
+    it('should pass the source on to the session', async () => {
+      mockLastFmService.scrobbleBatch.mockResolvedValue({
+        success: 2,
+        failed: 0,
+        ignored: 0,
+        queued: 0,
+        errors: [],
+        failedTracks: [],
+        sessionId: 'session-123',
+        targets: [],
+      });
+
+      await request(app)
+        .post('/api/v1/scrobble/batch')
+        .send({ tracks: mockTracks, source: 'memory' })
+        .expect(200);
+
+      expect(mockLastFmService.scrobbleBatch).toHaveBeenCalledWith(
+        mockTracks,
+        'memory'
+      );
+    });
+
+    it('should reject an unknown source', async () => {
+      const response = await request(app)
+        .post('/api/v1/scrobble/batch')
+        .send({ tracks: mockTracks, source: 'external' })
+        .expect(400);
+
+      expect(response.body.error).toContain('source must be one of');
+      expect(mockLastFmService.scrobbleBatch).not.toHaveBeenCalled();
     });
 
     it('should require tracks array', async () => {
@@ -396,9 +468,11 @@ describe('Scrobble Routes', () => {
         success: 2,
         failed: 0,
         ignored: 0,
+        queued: 0,
         errors: [],
         failedTracks: [],
         sessionId: 'session-123',
+        targets: [],
       };
 
       mockLastFmService.scrobbleBatch.mockResolvedValue(mockResult);
@@ -420,7 +494,8 @@ describe('Scrobble Routes', () => {
             track: 'Track 2',
             timestamp: expect.any(Number),
           }),
-        ])
+        ]),
+        'app'
       );
     });
 
@@ -604,6 +679,475 @@ describe('Scrobble Routes', () => {
     });
   });
 
+  describe('vinyl sides', () => {
+    let mockSideMemoryService: jest.Mocked<SideMemoryService>;
+    let sideApp: express.Application;
+
+    const doubleLp = {
+      id: 456,
+      title: 'Double Album',
+      artist: 'Test Artist',
+      tracklist: [
+        { position: 'A1', title: 'A One', duration: '3:00' },
+        { position: 'A2', title: 'A Two', duration: '4:00' },
+        { position: 'B1', title: 'B One', duration: '5:00' },
+        { position: 'C1', title: 'C One', duration: '2:00' },
+        { position: 'C2', title: 'C Two' },
+        { position: 'D', title: 'D Suite', duration: '20:00' },
+      ],
+    };
+
+    beforeEach(() => {
+      mockSideMemoryService = {
+        getMemory: jest.fn(),
+        recordPlay: jest.fn().mockResolvedValue(null),
+      } as unknown as jest.Mocked<SideMemoryService>;
+
+      sideApp = express();
+      sideApp.use(express.json());
+      sideApp.use(
+        '/api/v1/scrobble',
+        createScrobbleRouter(
+          mockFileStorage,
+          mockAuthService,
+          mockLastFmService,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          mockSideMemoryService
+        )
+      );
+    });
+
+    it('should prepare only the tracks on the requested sides', async () => {
+      // Act
+      const response = await request(sideApp)
+        .post('/api/v1/scrobble/prepare-from-release')
+        .send({ release: doubleLp, sides: ['c', 'D'], startTime: 1000 })
+        .expect(200);
+
+      // Assert
+      const { tracks, sides, totalDuration } = response.body.data;
+      expect(tracks.map((t: { track: string }) => t.track)).toEqual([
+        'C One',
+        'C Two',
+        'D Suite',
+      ]);
+      // C2 has no duration and takes the side C average; flipping to
+      // side D adds 30 seconds
+      expect(tracks.map((t: { timestamp: number }) => t.timestamp)).toEqual([
+        1000, 1121, 1271,
+      ]);
+      expect(totalDuration).toBe(120 + 1 + 120 + 30 + 1200);
+      expect(sides.map((s: { side: string }) => s.side)).toEqual(['C', 'D']);
+    });
+
+    it('should prepare a whole disc', async () => {
+      // Act
+      const response = await request(sideApp)
+        .post('/api/v1/scrobble/prepare-from-release')
+        .send({ release: doubleLp, disc: 1, startTime: 1000 })
+        .expect(200);
+
+      // Assert
+      expect(
+        response.body.data.tracks.map((t: { track: string }) => t.track)
+      ).toEqual(['A One', 'A Two', 'B One']);
+    });
+
+    it('should time the play to finish at endTime', async () => {
+      // Act
+      const response = await request(sideApp)
+        .post('/api/v1/scrobble/prepare-from-release')
+        .send({ release: doubleLp, sides: ['A'], endTime: 10000 })
+        .expect(200);
+
+      // Assert
+      const { tracks, startTime, totalDuration } = response.body.data;
+      expect(totalDuration).toBe(180 + 1 + 240);
+      expect(startTime).toBe(10000 - totalDuration);
+      expect(tracks[1].timestamp + tracks[1].duration).toBe(10000);
+    });
+
+    it('should reject sides the release does not have', async () => {
+      // Act
+      const response = await request(sideApp)
+        .post('/api/v1/scrobble/prepare-from-release')
+        .send({ release: doubleLp, sides: ['F'] })
+        .expect(400);
+
+      // Assert
+      expect(response.body.error).toBe(
+        'No tracks found on the requested sides'
+      );
+    });
+
+    it('should remember the sides of a successful batch', async () => {
+      // Arrange
+      mockLastFmService.scrobbleBatch.mockResolvedValue({
+        success: 1,
+        failed: 0,
+        ignored: 0,
+        queued: 0,
+        errors: [],
+        failedTracks: [],
+        sessionId: 'session-123',
+        targets: [],
+      });
+
+      // Act
+      await request(sideApp)
+        .post('/api/v1/scrobble/batch')
+        .send({
+          tracks: [{ artist: 'Test Artist', track: 'C One' }],
+          collectionRelease: {
+            releaseId: 456,
+            artist: 'Test Artist',
+            album: 'Double Album',
+            sides: ['C'],
+          },
+        })
+        .expect(200);
+
+      // Assert
+      expect(mockSideMemoryService.recordPlay).toHaveBeenCalledWith(456, ['C']);
+    });
+
+    it('should return the side memory for a release', async () => {
+      // Arrange
+      const memory = {
+        releaseId: 456,
+        sides: ['A', 'B'],
+        lastSide: 'B',
+        playedAt: 1700000000000,
+      };
+      mockSideMemoryService.getMemory.mockResolvedValue(memory);
+
+      // Act
+      const response = await request(sideApp)
+        .get('/api/v1/scrobble/side-memory/456')
+        .expect(200);
+
+      // Assert
+      expect(response.body.data).toEqual(memory);
+      expect(mockSideMemoryService.getMemory).toHaveBeenCalledWith(456);
+    });
+
+    it('should reject a non-numeric release ID', async () => {
+      await request(sideApp)
+        .get('/api/v1/scrobble/side-memory/abc')
+        .expect(400);
+    });
+  });
+
+  describe('session undo', () => {
+    let mockUndoService: { undoSession: jest.Mock; getRemovalGuide: jest.Mock };
+    let undoApp: express.Application;
+
+    const guide = {
+      sessionId: 'test-session',
+      username: 'user',
+      entries: [{ artist: 'Artist', track: 'Track', timestamp: 123 }],
+    };
+
+    beforeEach(() => {
+      mockUndoService = {
+        undoSession: jest.fn(),
+        getRemovalGuide: jest.fn().mockResolvedValue(guide),
+      };
+
+      undoApp = express();
+      undoApp.use(express.json());
+      undoApp.use(
+        '/api/v1/scrobble',
+        createScrobbleRouter(
+          mockFileStorage,
+          mockAuthService,
+          mockLastFmService,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          mockUndoService as unknown as ScrobbleUndoService
+        )
+      );
+    });
+
+    it('should undo a session', async () => {
+      // Arrange
+      const result = {
+        session: { id: 'test-session', status: 'reverted' },
+        playsRemoved: 1,
+        queuedCancelled: 0,
+        lastfm: guide,
+      };
+      mockUndoService.undoSession.mockResolvedValue(result);
+
+      // Act
+      const response = await request(undoApp)
+        .post('/api/v1/scrobble/session/test-session/undo')
+        .expect(200);
+
+      // Assert
+      expect(response.body).toEqual({ success: true, data: result });
+      expect(mockUndoService.undoSession).toHaveBeenCalledWith('test-session');
+    });
+
+    it.each([404, 409] as const)(
+      'should return %p from undo errors',
+      async status => {
+        // Arrange
+        mockUndoService.undoSession.mockRejectedValue(
+          new ScrobbleUndoError('Cannot undo', status)
+        );
+
+        // Act
+        const response = await request(undoApp)
+          .post('/api/v1/scrobble/session/test-session/undo')
+          .expect(status);
+
+        // Assert
+        expect(response.body.error).toBe('Cannot undo');
+      }
+    );
+
+    it('should reject an invalid session id', async () => {
+      // Act
+      await request(undoApp)
+        .post('/api/v1/scrobble/session/..%2Fsecrets/undo')
+        .expect(400);
+
+      // Assert
+      expect(mockUndoService.undoSession).not.toHaveBeenCalled();
+    });
+
+    it('should return the Last.fm removal guide', async () => {
+      // Act
+      const response = await request(undoApp)
+        .get('/api/v1/scrobble/session/test-session/undo')
+        .expect(200);
+
+      // Assert
+      expect(response.body.data).toEqual(guide);
+    });
+
+    it('should refuse to resubmit an undone session', async () => {
+      // Arrange
+      mockFileStorage.readJSON = jest.fn().mockResolvedValue({
+        id: 'test-session',
+        status: 'reverted',
+        tracks: [
+          { artist: 'Artist', track: 'Track', scrobbleStatus: 'failed' },
+        ],
+      });
+
+      // Act
+      await request(undoApp)
+        .post('/api/v1/scrobble/session/test-session/resubmit')
+        .expect(400);
+      await request(undoApp)
+        .post('/api/v1/scrobble/session/test-session/resubmit-track/0')
+        .expect(400);
+
+      // Assert
+      expect(mockLastFmService.scrobbleTrack).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('additional scrobble targets', () => {
+    let mockTargets: { submit: jest.Mock };
+    let targetApp: express.Application;
+
+    const failedTarget = {
+      status: 'failed' as const,
+      error: 'Unauthorized',
+      submittedAt: 1,
+    };
+
+    beforeEach(() => {
+      mockTargets = {
+        submit: jest.fn(async (tracks: ScrobbleTrack[]) => {
+          for (const track of tracks) {
+            track.targets = {
+              listenbrainz: { status: 'success', submittedAt: 2 },
+            };
+          }
+          return [
+            { target: 'listenbrainz', success: tracks.length, failed: 0 },
+          ];
+        }),
+      };
+
+      targetApp = express();
+      targetApp.use(express.json());
+      targetApp.use(
+        '/api/v1/scrobble',
+        createScrobbleRouter(
+          mockFileStorage,
+          mockAuthService,
+          mockLastFmService,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          mockTargets as unknown as ScrobbleTargetService
+        )
+      );
+    });
+
+    it('should send a single scrobble to the other targets', async () => {
+      // Arrange
+      mockLastFmService.scrobbleTrack.mockResolvedValue({
+        success: true,
+        accepted: 1,
+        ignored: 0,
+        message: 'ok',
+      });
+
+      // Act
+      const response = await request(targetApp)
+        .post('/api/v1/scrobble/track')
+        .send({ artist: 'Artist', track: 'Track', timestamp: 123 })
+        .expect(200);
+
+      // Assert
+      expect(mockTargets.submit).toHaveBeenCalledWith(
+        [expect.objectContaining({ artist: 'Artist' })],
+        undefined
+      );
+      expect(response.body.data.targets).toEqual([
+        { target: 'listenbrainz', success: 1, failed: 0 },
+      ]);
+    });
+
+    it('should still submit to other targets when Last.fm fails', async () => {
+      // Arrange
+      mockLastFmService.scrobbleTrack.mockRejectedValue(
+        new Error('Last.fm down')
+      );
+
+      // Act
+      await request(targetApp)
+        .post('/api/v1/scrobble/track')
+        .send({ artist: 'Artist', track: 'Track', timestamp: 123 })
+        .expect(500);
+
+      // Assert
+      expect(mockTargets.submit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resubmit a session whose only failures are other targets', async () => {
+      // Arrange
+      const session = {
+        id: 'test-session',
+        status: 'failed',
+        tracks: [
+          {
+            artist: 'Artist',
+            track: 'Track',
+            timestamp: 123,
+            scrobbleStatus: 'success',
+            targets: { listenbrainz: failedTarget },
+          },
+        ],
+      };
+      mockFileStorage.readJSON = jest.fn().mockResolvedValue(session);
+      mockFileStorage.writeJSON = jest.fn().mockResolvedValue(undefined);
+      mockLastFmService.resubmitTracks = jest.fn(async tracks => {
+        tracks[0].targets = {
+          listenbrainz: { status: 'success', submittedAt: 2 },
+        };
+        return { success: 0, failed: 0, ignored: 0, errors: [], targets: [] };
+      });
+
+      // Act
+      await request(targetApp)
+        .post('/api/v1/scrobble/session/test-session/resubmit')
+        .expect(200);
+
+      // Assert
+      expect(mockLastFmService.testConnection).not.toHaveBeenCalled();
+      expect(mockFileStorage.writeJSON).toHaveBeenLastCalledWith(
+        'scrobbles/session-test-session.json',
+        expect.objectContaining({ status: 'completed' })
+      );
+    });
+
+    it('should retry only the failed targets for a single track', async () => {
+      // Arrange
+      const session = {
+        id: 'test-session',
+        status: 'failed',
+        tracks: [
+          {
+            artist: 'Artist',
+            track: 'Track',
+            timestamp: 123,
+            scrobbleStatus: 'success',
+            targets: { listenbrainz: failedTarget },
+          },
+        ],
+      };
+      mockFileStorage.readJSON = jest.fn().mockResolvedValue(session);
+      mockFileStorage.writeJSON = jest.fn().mockResolvedValue(undefined);
+
+      // Act
+      const response = await request(targetApp)
+        .post('/api/v1/scrobble/session/test-session/resubmit-track/0')
+        .expect(200);
+
+      // Assert
+      expect(mockLastFmService.scrobbleTrack).not.toHaveBeenCalled();
+      expect(mockTargets.submit).toHaveBeenCalledWith(
+        [expect.objectContaining({ track: 'Track' })],
+        { onlyFailed: true }
+      );
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.session.status).toBe('completed');
+    });
+
+    it('should keep a session failed while a target still fails', async () => {
+      // Arrange
+      mockTargets.submit.mockImplementation(async (tracks: ScrobbleTrack[]) => {
+        tracks[0].targets = { listenbrainz: failedTarget };
+        return [
+          {
+            target: 'listenbrainz',
+            success: 0,
+            failed: 1,
+            error: 'ListenBrainz: Unauthorized',
+          },
+        ];
+      });
+      mockFileStorage.readJSON = jest.fn().mockResolvedValue({
+        id: 'test-session',
+        status: 'failed',
+        tracks: [
+          {
+            artist: 'Artist',
+            track: 'Track',
+            scrobbleStatus: 'success',
+            targets: { listenbrainz: failedTarget },
+          },
+        ],
+      });
+      mockFileStorage.writeJSON = jest.fn().mockResolvedValue(undefined);
+
+      // Act
+      const response = await request(targetApp)
+        .post('/api/v1/scrobble/session/test-session/resubmit-track/0')
+        .expect(200);
+
+      // Assert
+      expect(response.body.success).toBe(false);
+      expect(response.body.data.session.status).toBe('failed');
+    });
+  });
+
   describe('GET /history', () => {
     it('should get scrobble history', async () => {
       const mockHistory = [
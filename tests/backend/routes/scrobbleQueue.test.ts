@@ -0,0 +1,130 @@
+import request from 'supertest';
+
+import createScrobbleQueueRouter from '../../../src/backend/routes/scrobbleQueue';
+import { ScrobbleQueueService } from '../../../src/backend/services/scrobbleQueueService';
+import { ScrobbleQueueStatus } from '../../../src/shared/types';
+import { createTestApp } from '../../utils/testHelpers';
+
+// Mock dependencies
+jest.mock('../../../src/backend/services/scrobbleQueueService');
+
+const MockedScrobbleQueueService = ScrobbleQueueService as jest.MockedClass<
+  typeof ScrobbleQueueService
+>;
+
+describe('Scrobble Queue Routes', () => {
+  let mockService: jest.Mocked<ScrobbleQueueService>;
+  let app: ReturnType<typeof createTestApp>['app'];
+
+  const mockStatus: ScrobbleQueueStatus = {
+    pending: 3,
+    failed: 1,
+    nextAttemptAt: 1710000060000,
+    oldestQueuedAt: 1710000000000,
+    lastDrainAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockService = new MockedScrobbleQueueService(
+      {} as any,
+      {} as any
+    ) as jest.Mocked<ScrobbleQueueService>;
+    mockService.getStatus.mockResolvedValue(mockStatus);
+
+    const result = createTestApp({
+      mountPath: '/api/v1/scrobble-queue',
+      routerFactory: () => createScrobbleQueueRouter(mockService),
+      mocks: {},
+    });
+    app = result.app;
+  });
+
+  describe('GET /', () => {
+    it('should return status and entries', async () => {
+      mockService.getEntries.mockResolvedValue({ pending: [], failed: [] });
+
+      const response = await request(app)
+        .get('/api/v1/scrobble-queue')
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        status: mockStatus,
+        pending: [],
+        failed: [],
+      });
+    });
+  });
+
+  describe('GET /status', () => {
+    it('should return queue depth', async () => {
+      const response = await request(app)
+        .get('/api/v1/scrobble-queue/status')
+        .expect(200);
+
+      expect(response.body.data.pending).toBe(3);
+    });
+
+    it('should return 500 on error', async () => {
+      mockService.getStatus.mockRejectedValue(new Error('disk'));
+
+      const response = await request(app)
+        .get('/api/v1/scrobble-queue/status')
+        .expect(500);
+
+      expect(response.body.error).toBe('Failed to get scrobble queue status');
+    });
+  });
+
+  describe('POST /retry', () => {
+    it('should force a drain and return the new status', async () => {
+      mockService.drain.mockResolvedValue({
+        succeeded: 3,
+        retrying: 0,
+        failed: 0,
+      });
+
+      const response = await request(app)
+        .post('/api/v1/scrobble-queue/retry')
+        .expect(200);
+
+      expect(mockService.drain).toHaveBeenCalledWith({ force: true });
+      expect(response.body.data.result.succeeded).toBe(3);
+      expect(response.body.data.status).toEqual(mockStatus);
+    });
+  });
+
+  describe('DELETE /failed', () => {
+    it('should clear failed entries', async () => {
+      mockService.clearFailed.mockResolvedValue(1);
+
+      const response = await request(app)
+        .delete('/api/v1/scrobble-queue/failed')
+        .expect(200);
+
+      expect(response.body.data.cleared).toBe(1);
+      expect(mockService.removeEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should remove a pending entry', async () => {
+      mockService.removeEntry.mockResolvedValue(true);
+
+      await request(app).delete('/api/v1/scrobble-queue/entry-1').expect(200);
+
+      expect(mockService.removeEntry).toHaveBeenCalledWith('entry-1');
+    });
+
+    it('should return 404 for an unknown entry', async () => {
+      mockService.removeEntry.mockResolvedValue(false);
+
+      const response = await request(app)
+        .delete('/api/v1/scrobble-queue/missing')
+        .expect(404);
+
+      expect(response.body.error).toBe('Queued scrobble not found');
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import express from 'express';
+import request from 'supertest';
+
+import createShelfRouter from '../../../src/backend/routes/shelf';
+import { BarcodeLookupService } from '../../../src/backend/services/barcodeLookupService';
+import { CollectionEditError } from '../../../src/backend/services/collectionEditService';
+import { ShelfLocationService } from '../../../src/backend/services/shelfLocationService';
+import { ShelfLocationEntry } from '../../../src/shared/types';
+
+describe('Shelf Routes', () => {
+  let app: express.Application;
+  let mockShelfLocationService: jest.Mocked<ShelfLocationService>;
+  let mockBarcodeLookupService: jest.Mocked<BarcodeLookupService>;
+
+  const entry: ShelfLocationEntry = {
+    shelf: 'B',
+    row: '2',
+    position: 14,
+    collectionItemId: 1,
+    releaseId: 100,
+    artist: 'Artist',
+    title: 'Album',
+    updatedAt: 1700000000000,
+  };
+
+  beforeEach(() => {
+    mockShelfLocationService = {
+      getLocations: jest.fn().mockResolvedValue([entry]),
+      getSyncFieldId: jest.fn().mockResolvedValue(4),
+      setSyncFieldId: jest.fn().mockResolvedValue(undefined),
+      setLocation: jest.fn().mockResolvedValue({ entry }),
+      importFromField: jest.fn().mockResolvedValue({ imported: 3, skipped: 1 }),
+    } as unknown as jest.Mocked<ShelfLocationService>;
+    mockBarcodeLookupService = {
+      lookup: jest.fn().mockResolvedValue({
+        barcode: '4006381333931',
+        matches: [],
+      }),
+    } as unknown as jest.Mocked<BarcodeLookupService>;
+
+    app = express();
+    app.use(express.json());
+    app.use(
+      '/api/v1/shelf',
+      createShelfRouter(mockShelfLocationService, mockBarcodeLookupService)
+    );
+  });
+
+  describe('GET /locations', () => {
+    it('should return all locations', async () => {
+      const response = await request(app).get('/api/v1/shelf/locations');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, data: [entry] });
+    });
+  });
+
+  describe('PUT /settings', () => {
+    it('should save the mirrored field', async () => {
+      const response = await request(app)
+        .put('/api/v1/shelf/settings')
+        .send({ syncFieldId: 5 });
+
+      expect(response.status).toBe(200);
+      expect(mockShelfLocationService.setSyncFieldId).toHaveBeenCalledWith(5);
+    });
+
+    it('should accept null to stop mirroring', async () => {
+      const response = await request(app)
+        .put('/api/v1/shelf/settings')
+        .send({ syncFieldId: null });
+
+      expect(response.status).toBe(200);
+      expect(mockShelfLocationService.setSyncFieldId).toHaveBeenCalledWith(
+        null
+      );
+    });
+
+    it.each([0, -2, 'abc', 1.5, undefined])(
+      'should reject syncFieldId %p',
+      async syncFieldId => {
+        const response = await request(app)
+          .put('/api/v1/shelf/settings')
+          .send({ syncFieldId });
+
+        expect(response.status).toBe(400);
+        expect(mockShelfLocationService.setSyncFieldId).not.toHaveBeenCalled();
+      }
+    );
+  });
+
+  describe('PUT /:username/locations/:instanceId', () => {
+    it('should save a sanitized location', async () => {
+      const response = await request(app)
+        .put('/api/v1/shelf/collector/locations/1')
+        .send({ shelf: ' B ', row: '2', position: 14, extra: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ entry });
+      expect(mockShelfLocationService.setLocation).toHaveBeenCalledWith(
+        'collector',
+        1,
+        { shelf: 'B', row: '2', position: 14 }
+      );
+    });
+
+    it('should require a shelf', async () => {
+      const response = await request(app)
+        .put('/api/v1/shelf/collector/locations/1')
+        .send({ row: '2' });
+
+      expect(response.status).toBe(400);
+      expect(mockShelfLocationService.setLocation).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid instance ID', async () => {
+      const response = await request(app)
+        .put('/api/v1/shelf/collector/locations/abc')
+        .send({ shelf: 'B' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for records missing from the cache', async () => {
+      mockShelfLocationService.setLocation.mockRejectedValue(
+        new CollectionEditError('Not cached', 404)
+      );
+
+      const response = await request(app)
+        .put('/api/v1/shelf/collector/locations/9')
+        .send({ shelf: 'B' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Not cached');
+    });
+  });
+
+  describe('DELETE /:username/locations/:instanceId', () => {
+    it('should clear the location', async () => {
+      mockShelfLocationService.setLocation.mockResolvedValue({ entry: null });
+
+      const response = await request(app).delete(
+        '/api/v1/shelf/collector/locations/1'
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockShelfLocationService.setLocation).toHaveBeenCalledWith(
+        'collector',
+        1,
+        null
+      );
+    });
+  });
+
+  describe('POST /:username/import', () => {
+    it('should import locations from the mirrored field', async () => {
+      const response = await request(app).post(
+        '/api/v1/shelf/collector/import'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ imported: 3, skipped: 1 });
+    });
+
+    it('should return 400 when no field is mirrored', async () => {
+      mockShelfLocationService.getSyncFieldId.mockResolvedValue(undefined);
+
+      const response = await request(app).post(
+        '/api/v1/shelf/collector/import'
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockShelfLocationService.importFromField).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /:username/barcode/:code', () => {
+    it('should look up a normalised barcode', async () => {
+      const response = await request(app).get(
+        '/api/v1/shelf/collector/barcode/4-006381-333931'
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockBarcodeLookupService.lookup).toHaveBeenCalledWith(
+        'collector',
+        '4006381333931'
+      );
+    });
+
+    it('should reject an invalid barcode', async () => {
+      const response = await request(app).get(
+        '/api/v1/shelf/collector/barcode/4006381333932'
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockBarcodeLookupService.lookup).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the lookup fails', async () => {
+      mockBarcodeLookupService.lookup.mockRejectedValue(
+        new Error('Discogs is down')
+      );
+
+      const response = await request(app).get(
+        '/api/v1/shelf/collector/barcode/4006381333931'
+      );
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Discogs is down');
+    });
+  });
+});
@@ -9,6 +9,7 @@ import { GenreAnalysisService } from '../../../src/backend/services/genreAnalysi
 import { MappingService } from '../../../src/backend/services/mappingService';
 import { RankingsService } from '../../../src/backend/services/rankingsService';
 import { ScrobbleHistoryStorage } from '../../../src/backend/services/scrobbleHistoryStorage';
+import { SessionReconstructionService } from '../../../src/backend/services/sessionReconstructionService';
 import { StatsService } from '../../../src/backend/services/statsService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
 
@@ -19,6 +20,7 @@ jest.mock('../../../src/backend/services/rankingsService');
 jest.mock('../../../src/backend/services/genreAnalysisService');
 jest.mock('../../../src/backend/services/mappingService');
 jest.mock('../../../src/backend/services/scrobbleHistoryStorage');
+jest.mock('../../../src/backend/services/sessionReconstructionService');
 jest.mock('../../../src/backend/utils/fileStorage');
 
 const MockedAuthService = AuthService as jest.MockedClass<typeof AuthService>;
@@ -31,6 +33,10 @@ const MockedRankingsService = RankingsService as jest.MockedClass<
 const MockedGenreAnalysisService = GenreAnalysisService as jest.MockedClass<
   typeof GenreAnalysisService
 >;
+const MockedSessionReconstructionService =
+  SessionReconstructionService as jest.MockedClass<
+    typeof SessionReconstructionService
+  >;
 const MockedFileStorage = FileStorage as jest.MockedClass<typeof FileStorage>;
 
 describe('Stats Routes', () => {
@@ -752,6 +758,152 @@ describe('Stats Routes', () => {
     });
   });
 
+  describe('GET /api/v1/stats/sources/splits', () => {
+    beforeEach(() => {
+      mockStatsService.getSourceSplits = jest.fn().mockResolvedValue({
+        total: {
+          physical: 3,
+          streaming: 1,
+          physicalPercentage: 75,
+          bySource: { app: 2, recognized: 1, memory: 0, external: 1 },
+        },
+        albums: [],
+        artists: [],
+        periods: [],
+      });
+    });
+
+    it('should return source splits for a date range', async () => {
+      // Act
+      const response = await request(app).get(
+        '/api/v1/stats/sources/splits?limit=5&startDate=1704067200&endDate=1735689599'
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.data.total.physicalPercentage).toBe(75);
+      expect(mockStatsService.getSourceSplits).toHaveBeenCalledWith(
+        5,
+        1704067200,
+        1735689599
+      );
+    });
+
+    it('should reject dates that are not timestamps', async () => {
+      // Act
+      const response = await request(app).get(
+        '/api/v1/stats/sources/splits?startDate=yesterday'
+      );
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(mockStatsService.getSourceSplits).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/stats/sessions', () => {
+    let appWithSessions: express.Application;
+    let mockSessionService: jest.Mocked<SessionReconstructionService>;
+
+    beforeEach(() => {
+      mockSessionService = new MockedSessionReconstructionService(
+        {} as any
+      ) as jest.Mocked<SessionReconstructionService>;
+      mockSessionService.getSessions = jest.fn().mockResolvedValue({
+        startDate: 1704067200,
+        endDate: 1735689599,
+        totalSessions: 1,
+        fullAlbumPlays: 1,
+        partialPlays: 0,
+        shuffles: 0,
+        days: [],
+      });
+
+      appWithSessions = express();
+      appWithSessions.use(express.json());
+      appWithSessions.use(
+        '/api/v1/stats',
+        createStatsRouter(
+          mockFileStorage,
+          mockAuthService,
+          mockStatsService,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          mockSessionService
+        )
+      );
+    });
+
+    it('should return 501 when session reconstruction is not available', async () => {
+      // Act
+      const response = await request(app).get('/api/v1/stats/sessions');
+
+      // Assert
+      expect(response.status).toBe(501);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should return sessions for a date range', async () => {
+      // Act
+      const response = await request(appWithSessions).get(
+        '/api/v1/stats/sessions?startDate=1704067200&endDate=1735689599'
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body.data.fullAlbumPlays).toBe(1);
+      expect(mockSessionService.getSessions).toHaveBeenCalledWith(
+        1704067200,
+        1735689599,
+        undefined
+      );
+    });
+
+    it('should pass an album filter through', async () => {
+      // Act
+      const response = await request(appWithSessions).get(
+        '/api/v1/stats/sessions?artist=Radiohead&album=Kid%20A'
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockSessionService.getSessions).toHaveBeenCalledWith(
+        undefined,
+        undefined,
+        { artist: 'Radiohead', album: 'Kid A' }
+      );
+    });
+
+    it('should reject an artist without an album', async () => {
+      // Act
+      const response = await request(appWithSessions).get(
+        '/api/v1/stats/sessions?artist=Radiohead'
+      );
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(mockSessionService.getSessions).not.toHaveBeenCalled();
+    });
+
+    it('should reject dates that are not timestamps', async () => {
+      // Act
+      const response = await request(appWithSessions).get(
+        '/api/v1/stats/sessions?endDate=today'
+      );
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(mockSessionService.getSessions).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /api/v1/stats/counts', () => {
     it('should return scrobble counts', async () => {
       // Act
@@ -311,6 +311,73 @@ describe('Suggestions Routes', () => {
       expect(response.body.data).toHaveLength(1);
       expect(mockSuggestionService.getSuggestions).toHaveBeenCalled();
     });
+
+    it('should only suggest from the configured collection scope', async () => {
+      // Arrange
+      const mockCollection = {
+        data: [
+          {
+            id: 1,
+            folder_id: 5,
+            release: { id: 1, title: 'Album 1', artist: 'Artist 1' },
+          },
+          {
+            id: 2,
+            folder_id: 1,
+            release: { id: 2, title: 'Album 2', artist: 'Artist 2' },
+          },
+        ],
+        timestamp: Date.now(),
+      };
+
+      mockFileStorage.readJSON
+        .mockResolvedValueOnce({
+          weights: DEFAULT_WEIGHTS,
+          excludeRecentlyPlayed: false,
+          preferNeverPlayed: false,
+          collectionScope: { folderId: 5 },
+        })
+        .mockResolvedValueOnce(mockCollection)
+        .mockResolvedValueOnce(null);
+      mockSuggestionService.getSuggestions.mockResolvedValue([]);
+
+      // Act
+      await request(app).get('/api/v1/suggestions?count=5');
+
+      // Assert
+      const [items] = mockSuggestionService.getSuggestions.mock.calls[0];
+      expect(items.map(item => item.id)).toEqual([1]);
+    });
+
+    it('should explain when nothing matches the collection scope', async () => {
+      // Arrange
+      mockFileStorage.readJSON
+        .mockResolvedValueOnce({
+          weights: DEFAULT_WEIGHTS,
+          excludeRecentlyPlayed: false,
+          preferNeverPlayed: false,
+          collectionScope: { folderId: 9 },
+        })
+        .mockResolvedValueOnce({
+          data: [
+            {
+              id: 1,
+              folder_id: 5,
+              release: { id: 1, title: 'Album 1', artist: 'Artist 1' },
+            },
+          ],
+          timestamp: Date.now(),
+        })
+        .mockResolvedValueOnce(null);
+
+      // Act
+      const response = await request(app).get('/api/v1/suggestions');
+
+      // Assert
+      expect(response.body.data).toEqual([]);
+      expect(response.body.message).toContain('selected folder');
+      expect(mockSuggestionService.getSuggestions).not.toHaveBeenCalled();
+    });
   });
 
   describe('POST /api/v1/suggestions/dismiss', () => {
@@ -414,6 +481,34 @@ describe('Suggestions Routes', () => {
       expect(mockFileStorage.writeJSONWithBackup).toHaveBeenCalled();
     });
 
+    it('should save a cleaned-up collection scope', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/v1/suggestions/settings')
+        .send({
+          collectionScope: {
+            folderId: 5,
+            fieldValues: { '3': ' Living room ', '4': '' },
+          },
+        });
+
+      // Assert
+      expect(response.body.data.collectionScope).toEqual({
+        folderId: 5,
+        fieldValues: { '3': 'Living room' },
+      });
+    });
+
+    it('should drop an empty collection scope', async () => {
+      // Act
+      const response = await request(app)
+        .post('/api/v1/suggestions/settings')
+        .send({ collectionScope: { folderId: 0, fieldValues: {} } });
+
+      // Assert
+      expect(response.body.data).not.toHaveProperty('collectionScope');
+    });
+
     it('should use defaults when weights not provided', async () => {
       // Act
       const response = await request(app)
@@ -562,6 +657,48 @@ describe('Suggestions Routes', () => {
     });
   });
 
+  describe('GET /api/v1/suggestions/history/index/export', () => {
+    it('should download the history index as JSON', async () => {
+      // Arrange
+      mockSyncService.getHistoryIndex.mockResolvedValue({
+        lastSyncTimestamp: 1700000000000,
+        totalScrobbles: 1,
+        oldestScrobbleDate: 1690000000,
+        albums: {
+          'radiohead|kid a': {
+            lastPlayed: 1690000000,
+            playCount: 1,
+            plays: [{ timestamp: 1690000000, track: 'Idioteque' }],
+          },
+        },
+      });
+
+      // Act
+      const response = await request(app).get(
+        '/api/v1/suggestions/history/index/export'
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toMatch(
+        /attachment; filename="scrobble-history-index-\d{4}-\d{2}-\d{2}\.json"/
+      );
+      expect(response.body.totalScrobbles).toBe(1);
+      expect(response.body.albums['radiohead|kid a'].plays).toHaveLength(1);
+    });
+
+    it('should return 404 when there is no history index', async () => {
+      // Act
+      const response = await request(app).get(
+        '/api/v1/suggestions/history/index/export'
+      );
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
   describe('GET /api/v1/suggestions/discovery/missing-albums', () => {
     it('should return 401 when not authenticated', async () => {
       // Arrange
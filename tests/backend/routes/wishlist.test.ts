@@ -5,6 +5,8 @@ import request from 'supertest';
 
 import createWishlistRouter from '../../../src/backend/routes/wishlist';
 import { AuthService } from '../../../src/backend/services/authService';
+import { EventStreamService } from '../../../src/backend/services/eventStreamService';
+import { JobService } from '../../../src/backend/services/jobService';
 import { WishlistService } from '../../../src/backend/services/wishlistService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
 
@@ -246,7 +248,8 @@ describe('Wishlist Routes', () => {
       createWishlistRouter(
         mockFileStorage,
         mockAuthService,
-        mockWishlistService
+        mockWishlistService,
+        new JobService(new EventStreamService())
       )
     );
   });
@@ -8,12 +8,14 @@ import { DiscogsService } from '../../../src/backend/services/discogsService';
 import { ImageService } from '../../../src/backend/services/imageService';
 import { ScrobbleHistoryStorage } from '../../../src/backend/services/scrobbleHistoryStorage';
 import { StatsService } from '../../../src/backend/services/statsService';
+import { WrappedExportService } from '../../../src/backend/services/wrappedExportService';
 import { WrappedService } from '../../../src/backend/services/wrappedService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
 import { WrappedData } from '../../../src/shared/types';
 
 // Mock dependencies
 jest.mock('../../../src/backend/services/wrappedService');
+jest.mock('../../../src/backend/services/wrappedExportService');
 jest.mock('../../../src/backend/services/statsService');
 jest.mock('../../../src/backend/services/scrobbleHistoryStorage');
 jest.mock('../../../src/backend/services/discogsService');
@@ -23,6 +25,9 @@ jest.mock('../../../src/backend/utils/fileStorage');
 const MockedWrappedService = WrappedService as jest.MockedClass<
   typeof WrappedService
 >;
+const MockedWrappedExportService = WrappedExportService as jest.MockedClass<
+  typeof WrappedExportService
+>;
 const MockedStatsService = StatsService as jest.MockedClass<
   typeof StatsService
 >;
@@ -251,4 +256,245 @@ describe('Wrapped Routes', () => {
       expect(response.body.error).toContain('Failed to generate');
     });
   });
+
+  describe('GET /api/v1/wrapped/compare', () => {
+    const range = 'startDate=1704067200000&endDate=1735689600000';
+
+    beforeEach(() => {
+      mockWrappedService.compareWrapped = jest.fn().mockResolvedValue({
+        current: mockWrappedData,
+        previous: mockWrappedData,
+      });
+    });
+
+    it('should compare with the previous period by default', async () => {
+      // Act
+      const response = await request(app)
+        .get(`/api/v1/wrapped/compare?${range}`)
+        .expect(200);
+
+      // Assert
+      expect(response.body.success).toBe(true);
+      expect(mockWrappedService.compareWrapped).toHaveBeenCalledWith(
+        1704067200000,
+        1735689600000,
+        1704067200000 - 1 - (1735689600000 - 1704067200000),
+        1704067200000 - 1
+      );
+    });
+
+    it('should compare with the same dates a year earlier', async () => {
+      // Act
+      await request(app)
+        .get(`/api/v1/wrapped/compare?${range}&compareTo=lastYear`)
+        .expect(200);
+
+      // Assert
+      const shift = (ms: number) => {
+        const date = new Date(ms);
+        date.setFullYear(date.getFullYear() - 1);
+        return date.getTime();
+      };
+      expect(mockWrappedService.compareWrapped).toHaveBeenCalledWith(
+        1704067200000,
+        1735689600000,
+        shift(1704067200000),
+        shift(1735689600000)
+      );
+    });
+
+    it('should reject an unknown compareTo', async () => {
+      // Act
+      const response = await request(app)
+        .get(`/api/v1/wrapped/compare?${range}&compareTo=decade`)
+        .expect(400);
+
+      // Assert
+      expect(response.body.error).toContain('compareTo');
+      expect(mockWrappedService.compareWrapped).not.toHaveBeenCalled();
+    });
+
+    it('should validate the date range', async () => {
+      // Act
+      await request(app)
+        .get(
+          '/api/v1/wrapped/compare?startDate=1735689600000&endDate=1704067200000'
+        )
+        .expect(400);
+
+      // Assert
+      expect(mockWrappedService.compareWrapped).not.toHaveBeenCalled();
+    });
+
+    it('should compare with a custom range', async () => {
+      // Act
+      await request(app)
+        .get(
+          `/api/v1/wrapped/compare?${range}&compareStartDate=1609459200000&compareEndDate=1640995200000`
+        )
+        .expect(200);
+
+      // Assert
+      expect(mockWrappedService.compareWrapped).toHaveBeenCalledWith(
+        1704067200000,
+        1735689600000,
+        1609459200000,
+        1640995200000
+      );
+    });
+
+    it('should require both ends of a custom range', async () => {
+      // Act
+      const response = await request(app)
+        .get(`/api/v1/wrapped/compare?${range}&compareStartDate=1609459200000`)
+        .expect(400);
+
+      // Assert
+      expect(response.body.error).toContain('compareEndDate');
+      expect(mockWrappedService.compareWrapped).not.toHaveBeenCalled();
+    });
+
+    it('should validate a custom range', async () => {
+      // Act
+      const response = await request(app)
+        .get(
+          `/api/v1/wrapped/compare?${range}&compareStartDate=1640995200000&compareEndDate=1609459200000`
+        )
+        .expect(400);
+
+      // Assert
+      expect(response.body.error).toBe(
+        'compareStartDate must be before compareEndDate'
+      );
+      expect(mockWrappedService.compareWrapped).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/wrapped/export', () => {
+    const range = 'startDate=1704067200000&endDate=1735689600000';
+    let exportApp: express.Application;
+    let mockExportService: jest.Mocked<WrappedExportService>;
+
+    beforeEach(() => {
+      mockExportService = new MockedWrappedExportService(
+        mockWrappedService,
+        {} as any,
+        {} as any
+      ) as jest.Mocked<WrappedExportService>;
+      mockExportService.exportHtml.mockResolvedValue(
+        '<!DOCTYPE html><html></html>'
+      );
+      mockExportService.listCards.mockResolvedValue([
+        { id: 'total', title: 'Total Scrobbles' },
+      ]);
+      mockExportService.renderCardPng.mockResolvedValue(
+        Buffer.from([0x89, 0x50, 0x4e, 0x47])
+      );
+
+      exportApp = express();
+      exportApp.use(
+        '/api/v1/wrapped',
+        createWrappedRouter(mockWrappedService, mockExportService)
+      );
+    });
+
+    it('should return 501 when export is not available', async () => {
+      // Act
+      const response = await request(app)
+        .get(`/api/v1/wrapped/export/html?${range}`)
+        .expect(501);
+
+      // Assert
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should download the HTML page as an attachment', async () => {
+      // Act
+      const response = await request(exportApp)
+        .get(`/api/v1/wrapped/export/html?${range}&redactHidden=true`)
+        .expect(200);
+
+      // Assert
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.headers['content-disposition']).toContain(
+        'attachment; filename="wrapped-2024-01-01.html"'
+      );
+      expect(response.text).toContain('<!DOCTYPE html>');
+      expect(mockExportService.exportHtml).toHaveBeenCalledWith(
+        1704067200000,
+        1735689600000,
+        { redactHidden: true }
+      );
+    });
+
+    it('should validate the date range', async () => {
+      // Act
+      const response = await request(exportApp)
+        .get('/api/v1/wrapped/export/html?startDate=1735689600000')
+        .expect(400);
+
+      // Assert
+      expect(response.body.error).toContain('required');
+      expect(mockExportService.exportHtml).not.toHaveBeenCalled();
+    });
+
+    it('should list cards', async () => {
+      // Act
+      const response = await request(exportApp)
+        .get(`/api/v1/wrapped/export/cards?${range}`)
+        .expect(200);
+
+      // Assert
+      expect(response.body.data).toEqual([
+        { id: 'total', title: 'Total Scrobbles' },
+      ]);
+      expect(mockExportService.listCards).toHaveBeenCalledWith(
+        1704067200000,
+        1735689600000,
+        { redactHidden: false }
+      );
+    });
+
+    it('should return a card as a PNG', async () => {
+      // Act
+      const response = await request(exportApp)
+        .get(`/api/v1/wrapped/export/cards/total?${range}`)
+        .expect(200);
+
+      // Assert
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(mockExportService.renderCardPng).toHaveBeenCalledWith(
+        1704067200000,
+        1735689600000,
+        'total',
+        { redactHidden: false }
+      );
+    });
+
+    it('should return 404 for an unknown card', async () => {
+      // Arrange
+      mockExportService.renderCardPng.mockResolvedValue(null);
+
+      // Act
+      const response = await request(exportApp)
+        .get(`/api/v1/wrapped/export/cards/nope?${range}`)
+        .expect(404);
+
+      // Assert
+      expect(response.body.error).toBe('Card not found');
+    });
+
+    it('should handle render errors gracefully', async () => {
+      // Arrange
+      mockExportService.renderCardPng.mockRejectedValue(new Error('boom'));
+
+      // Act
+      const response = await request(exportApp)
+        .get(`/api/v1/wrapped/export/cards/total?${range}`)
+        .expect(500);
+
+      // Assert
+      expect(response.body.error).toBe('Failed to render wrapped card');
+    });
+  });
 });
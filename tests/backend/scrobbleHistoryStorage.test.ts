@@ -1,5 +1,6 @@
 import { promises as fs } from 'fs';
 
+import { PlayDatabase } from '../../src/backend/services/playDatabase';
 import { ScrobbleHistoryStorage } from '../../src/backend/services/scrobbleHistoryStorage';
 import { FileStorage } from '../../src/backend/utils/fileStorage';
 import { ScrobbleHistoryIndex } from '../../src/shared/types';
@@ -2041,4 +2042,303 @@ describe('ScrobbleHistoryStorage', () => {
       expect(stats.estimatedSizeBytes).toBeGreaterThan(0);
     });
   });
+
+  describe('with a play database', () => {
+    let playDatabase: PlayDatabase;
+
+    beforeEach(() => {
+      playDatabase = new PlayDatabase(fileStorage);
+      storage.setPlayDatabase(playDatabase);
+    });
+
+    afterEach(() => {
+      playDatabase.close();
+    });
+
+    it('should move an existing JSON index into the database', async () => {
+      // Arrange
+      const now = Math.floor(Date.now() / 1000);
+      await fileStorage.writeJSON(
+        'history/scrobble-history-index.json',
+        createMockIndex({
+          albums: {
+            'radiohead|kid a': {
+              lastPlayed: now,
+              playCount: 2,
+              plays: [
+                { timestamp: now - 60, track: 'Idioteque' },
+                { timestamp: now, track: 'Kid A' },
+              ],
+            },
+          },
+        })
+      );
+
+      // Act
+      const moved = await storage.migrateJsonIndexToDatabase();
+
+      // Assert
+      expect(moved).toBe(2);
+      expect(
+        await fileStorage.exists('history/scrobble-history-index.json')
+      ).toBe(false);
+      const index = await storage.getIndex();
+      expect(index?.albums['radiohead|kid a'].plays).toHaveLength(2);
+    });
+
+    it('should not migrate again once the database has an index', async () => {
+      // Arrange
+      playDatabase.writeIndex(createMockIndex());
+      await fileStorage.writeJSON(
+        'history/scrobble-history-index.json',
+        createMockIndex()
+      );
+
+      // Act
+      const moved = await storage.migrateJsonIndexToDatabase();
+
+      // Assert
+      expect(moved).toBeNull();
+      expect(
+        await fileStorage.exists('history/scrobble-history-index.json')
+      ).toBe(true);
+    });
+
+    it('should page tracks from the database', async () => {
+      // Arrange
+      const now = Math.floor(Date.now() / 1000);
+      playDatabase.writeIndex(
+        createMockIndex({
+          albums: {
+            'radiohead|kid a': {
+              lastPlayed: now,
+              playCount: 3,
+              plays: [
+                { timestamp: now - 120, track: 'Idioteque' },
+                { timestamp: now - 60, track: 'IDIOTEQUE' },
+                { timestamp: now, track: 'Kid A' },
+              ],
+            },
+          },
+        })
+      );
+
+      // Act
+      const result = await storage.getTracksPaginated(
+        1,
+        10,
+        'playCount',
+        'desc'
+      );
+
+      // Assert
+      expect(result.total).toBe(2);
+      expect(result.items[0].playCount).toBe(2);
+    });
+
+    it('should page artists from the database', async () => {
+      // Arrange
+      const now = Math.floor(Date.now() / 1000);
+      playDatabase.writeIndex(
+        createMockIndex({
+          albums: {
+            'radiohead|kid a': {
+              lastPlayed: now - 60,
+              playCount: 2,
+              plays: [
+                { timestamp: now - 120, track: 'Idioteque' },
+                { timestamp: now - 60, track: 'Kid A' },
+              ],
+            },
+            'radiohead|amnesiac': {
+              lastPlayed: now,
+              playCount: 1,
+              plays: [{ timestamp: now, track: 'Knives Out' }],
+            },
+            'bjork|post': {
+              lastPlayed: now - 30,
+              playCount: 1,
+              plays: [{ timestamp: now - 30, track: 'Army of Me' }],
+            },
+          },
+        })
+      );
+      const readIndex = jest.spyOn(playDatabase, 'readIndex');
+
+      // Act
+      const result = await storage.getArtistsPaginated(
+        1,
+        10,
+        'playCount',
+        'desc'
+      );
+
+      // Assert
+      expect(result.total).toBe(2);
+      expect(result.items[0]).toEqual({
+        artist: 'radiohead',
+        playCount: 3,
+        albumCount: 2,
+        lastPlayed: now,
+      });
+      expect(readIndex).not.toHaveBeenCalled();
+    });
+
+    it('should answer lookups and totals without loading the index', async () => {
+      // Arrange
+      const now = Math.floor(Date.now() / 1000);
+      playDatabase.writeIndex(
+        createMockIndex({
+          lastSyncTimestamp: 1700000000000,
+          totalScrobbles: 3,
+          oldestScrobbleDate: now - 120,
+          albums: {
+            'radiohead|kid a': {
+              lastPlayed: now - 60,
+              playCount: 2,
+              plays: [
+                { timestamp: now - 120, track: 'Idioteque' },
+                { timestamp: now - 60, track: 'Kid A' },
+              ],
+            },
+            'bjork|post': {
+              lastPlayed: now,
+              playCount: 1,
+              plays: [{ timestamp: now, track: 'Army of Me' }],
+            },
+          },
+        })
+      );
+      const readIndex = jest.spyOn(playDatabase, 'readIndex');
+
+      // Act
+      const albumHistory = await storage.getAlbumHistory('Radiohead', 'Kid A');
+      const topAlbums = await storage.getTopAlbumsByPlayCount(1);
+      const recentAlbums = await storage.getRecentlyPlayedAlbums(1);
+      const albumPage = await storage.getAlbumsPaginated(1, 10, 'album', 'asc');
+      const artists = await storage.getUniqueArtists();
+      const hourly = await storage.getHourlyDistribution();
+      const stats = await storage.getStorageStats();
+
+      // Assert
+      expect(await storage.hasIndex()).toBe(true);
+      expect(await storage.getTotalScrobbles()).toBe(3);
+      expect(await storage.getLastSyncTimestamp()).toBe(1700000000000);
+      expect(albumHistory?.plays.map(play => play.track)).toEqual([
+        'Idioteque',
+        'Kid A',
+      ]);
+      expect(topAlbums.map(album => album.album)).toEqual(['kid a']);
+      expect(recentAlbums.map(album => album.album)).toEqual(['post']);
+      expect(albumPage.items.map(album => album.album)).toEqual([
+        'kid a',
+        'post',
+      ]);
+      expect(artists.get('radiohead')).toEqual({
+        playCount: 2,
+        albumCount: 1,
+        lastPlayed: now - 60,
+      });
+      expect(
+        Array.from(hourly.values()).reduce((sum, count) => sum + count, 0)
+      ).toBe(3);
+      expect(stats).toMatchObject({
+        totalAlbums: 2,
+        totalScrobbles: 3,
+        newestScrobble: new Date(now * 1000),
+      });
+      expect(readIndex).not.toHaveBeenCalled();
+    });
+  });
+
+  describe.each(['json', 'sqlite'] as const)(
+    'non-ASCII track search (%s storage)',
+    backend => {
+      let playDatabase: PlayDatabase | null = null;
+
+      beforeEach(async () => {
+        const now = Math.floor(Date.now() / 1000);
+        const index = createMockIndex({
+          albums: {
+            'sigur rós|takk': {
+              lastPlayed: now,
+              playCount: 2,
+              plays: [
+                { timestamp: now - 60, track: 'Ágætis byrjun' },
+                { timestamp: now, track: 'Svefn-g-englar' },
+              ],
+            },
+            'björk|homogenic': {
+              lastPlayed: now - 30,
+              playCount: 2,
+              plays: [
+                { timestamp: now - 120, track: 'Jóga' },
+                { timestamp: now - 30, track: 'JÓGA' },
+              ],
+            },
+          },
+        });
+        if (backend === 'sqlite') {
+          playDatabase = new PlayDatabase(fileStorage);
+          playDatabase.writeIndex(index);
+          storage.setPlayDatabase(playDatabase);
+        } else {
+          await fileStorage.writeJSON(
+            'history/scrobble-history-index.json',
+            index
+          );
+        }
+      });
+
+      afterEach(() => {
+        playDatabase?.close();
+        playDatabase = null;
+      });
+
+      it('should match accented names in any case', async () => {
+        // Act
+        const byArtist = await storage.getTracksPaginated(
+          1,
+          10,
+          'playCount',
+          'desc',
+          'SIGUR RÓS'
+        );
+        const byTrack = await storage.getTracksPaginated(
+          1,
+          10,
+          'playCount',
+          'desc',
+          'ÁGÆTIS'
+        );
+
+        // Assert
+        expect(byArtist.items.map(item => item.track).sort()).toEqual([
+          'Svefn-g-englar',
+          'Ágætis byrjun',
+        ]);
+        expect(byTrack.items.map(item => item.track)).toEqual([
+          'Ágætis byrjun',
+        ]);
+      });
+
+      it('should count accented track names in any case together', async () => {
+        // Act
+        const result = await storage.getTracksPaginated(
+          1,
+          10,
+          'playCount',
+          'desc',
+          'Björk'
+        );
+
+        // Assert
+        expect(result.total).toBe(1);
+        expect(result.items[0]).toMatchObject({
+          artist: 'björk',
+          playCount: 2,
+        });
+      });
+    }
+  );
 });
@@ -3,10 +3,15 @@ import * as fs from 'fs/promises';
 import axios from 'axios';
 
 import { AuthService } from '../../src/backend/services/authService';
+import { PlayDatabase } from '../../src/backend/services/playDatabase';
 import { ScrobbleHistoryStorage } from '../../src/backend/services/scrobbleHistoryStorage';
 import { ScrobbleHistorySyncService } from '../../src/backend/services/scrobbleHistorySyncService';
 import { FileStorage } from '../../src/backend/utils/fileStorage';
-import { ScrobbleHistoryIndex, SyncSettings } from '../../src/shared/types';
+import {
+  ScrobbleHistoryIndex,
+  ScrobbleSession,
+  SyncSettings,
+} from '../../src/shared/types';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -405,6 +410,404 @@ describe('ScrobbleHistorySyncService', () => {
     });
   });
 
+  describe('saveImportedIndex', () => {
+    it('should save the index and refresh stats caches', async () => {
+      // Arrange
+      const warmer = {
+        invalidateStatsCache: jest.fn().mockResolvedValue(undefined),
+        warmCache: jest.fn().mockResolvedValue(undefined),
+      };
+      service.setStatsWarmer(warmer);
+      const mockIndex: ScrobbleHistoryIndex = {
+        lastSyncTimestamp: 1700000000000,
+        totalScrobbles: 1,
+        oldestScrobbleDate: 1700000000,
+        albums: {
+          'radiohead|ok computer': {
+            lastPlayed: 1700000000,
+            playCount: 1,
+            plays: [{ timestamp: 1700000000, track: 'Airbag' }],
+          },
+        },
+      };
+
+      // Act
+      await service.saveImportedIndex(mockIndex);
+
+      // Assert
+      expect(await service.getHistoryIndex()).toEqual(mockIndex);
+      expect(mockHistoryStorage.invalidateCache).toHaveBeenCalled();
+      expect(warmer.invalidateStatsCache).toHaveBeenCalled();
+      expect(warmer.warmCache).toHaveBeenCalled();
+    });
+  });
+
+  describe('removeScrobbles', () => {
+    const index = (): ScrobbleHistoryIndex => ({
+      lastSyncTimestamp: 1700000600000,
+      totalScrobbles: 3,
+      oldestScrobbleDate: 1690000000,
+      albums: {
+        'radiohead|ok computer': {
+          lastPlayed: 1700000600,
+          playCount: 2,
+          plays: [
+            { timestamp: 1700000600, track: 'Paranoid Android' },
+            { timestamp: 1700000000, track: 'Airbag' },
+          ],
+        },
+        'portishead|dummy': {
+          lastPlayed: 1690000000,
+          playCount: 1,
+          plays: [{ timestamp: 1690000000, track: 'Roads' }],
+        },
+      },
+    });
+
+    it('should remove plays and refresh stats caches', async () => {
+      // Arrange
+      const warmer = {
+        invalidateStatsCache: jest.fn().mockResolvedValue(undefined),
+        warmCache: jest.fn().mockResolvedValue(undefined),
+      };
+      service.setStatsWarmer(warmer);
+      await service.saveImportedIndex(index());
+      jest.clearAllMocks();
+
+      // Act
+      const removed = await service.removeScrobbles([
+        {
+          artist: 'Radiohead',
+          album: 'OK Computer',
+          track: 'Paranoid Android',
+          timestamp: 1700000600,
+        },
+        {
+          artist: 'Portishead',
+          album: 'Dummy',
+          track: 'Roads',
+          timestamp: 1690000000,
+        },
+      ]);
+
+      // Assert
+      expect(removed).toBe(2);
+      expect(await service.getHistoryIndex()).toEqual({
+        schemaVersion: 2,
+        lastSyncTimestamp: 1700000600000,
+        totalScrobbles: 1,
+        oldestScrobbleDate: 1700000000,
+        albums: {
+          'radiohead|ok computer': {
+            lastPlayed: 1700000000,
+            playCount: 1,
+            plays: [
+              { timestamp: 1700000000, track: 'Airbag', source: 'external' },
+            ],
+          },
+        },
+      });
+      expect(mockHistoryStorage.invalidateCache).toHaveBeenCalled();
+      expect(warmer.invalidateStatsCache).toHaveBeenCalled();
+      expect(warmer.warmCache).toHaveBeenCalled();
+    });
+
+    it('should find plays Last.fm filed under a corrected album', async () => {
+      // Arrange
+      await service.saveImportedIndex(index());
+
+      // Act
+      const removed = await service.removeScrobbles([
+        {
+          artist: 'Radiohead',
+          album: 'OK Computer (Remastered)',
+          track: 'airbag',
+          timestamp: 1700000000,
+        },
+      ]);
+
+      // Assert
+      expect(removed).toBe(1);
+      const updated = await service.getHistoryIndex();
+      expect(updated!.albums['radiohead|ok computer'].plays).toEqual([
+        {
+          timestamp: 1700000600,
+          track: 'Paranoid Android',
+          source: 'external',
+        },
+      ]);
+    });
+
+    it('should keep removed plays out of later syncs', async () => {
+      // Arrange
+      await service.removeScrobbles([
+        {
+          artist: 'Pink Floyd',
+          album: 'The Wall',
+          track: 'Another Brick',
+          timestamp: 1609459200,
+        },
+      ]);
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          recenttracks: {
+            '@attr': { totalPages: '1', total: '2' },
+            track: [
+              {
+                artist: { '#text': 'Pink Floyd' },
+                album: { '#text': 'The Wall' },
+                name: 'Another Brick',
+                date: { uts: '1609459200' },
+              },
+              {
+                artist: { '#text': 'Led Zeppelin' },
+                album: { '#text': 'IV' },
+                name: 'Stairway',
+                date: { uts: '1609459100' },
+              },
+            ],
+          },
+        },
+      });
+
+      // Act
+      await service.startFullSync();
+
+      // Assert
+      const synced = await service.getHistoryIndex();
+      expect(synced!.totalScrobbles).toBe(1);
+      expect(Object.keys(synced!.albums)).toEqual(['led zeppelin|iv']);
+    });
+  });
+
+  describe('play source tagging', () => {
+    const writeSession = (
+      id: string,
+      source: ScrobbleSession['source'],
+      tracks: Array<{
+        timestamp: number;
+        scrobbleStatus?: 'success' | 'failed';
+      }>,
+      status: ScrobbleSession['status'] = 'completed'
+    ) =>
+      fileStorage.writeJSON(`scrobbles/session-${id}.json`, {
+        id,
+        timestamp: Date.now(),
+        status,
+        source,
+        tracks: tracks.map(t => ({ artist: 'A', track: 'T', ...t })),
+      });
+
+    const page = (tracks: Array<[string, string, string, number]>) => ({
+      data: {
+        recenttracks: {
+          '@attr': { totalPages: '1', total: String(tracks.length) },
+          track: tracks.map(([artist, album, name, uts]) => ({
+            artist: { '#text': artist },
+            album: { '#text': album },
+            name,
+            date: { uts: String(uts) },
+          })),
+        },
+      },
+    });
+
+    it('should tag synced plays from matching session files', async () => {
+      // Arrange
+      await writeSession('batch', undefined, [{ timestamp: 1609459200 }]);
+      await writeSession('pi', 'recognized', [
+        { timestamp: 1609459300, scrobbleStatus: 'success' },
+      ]);
+      await writeSession('memory', 'memory', [
+        { timestamp: 1609459400, scrobbleStatus: 'failed' },
+      ]);
+      await writeSession(
+        'undone',
+        'app',
+        [{ timestamp: 1609459500 }],
+        'reverted'
+      );
+      mockAxiosInstance.get.mockResolvedValueOnce(
+        page([
+          ['Pink Floyd', 'The Wall', 'One', 1609459203],
+          ['Pink Floyd', 'The Wall', 'Two', 1609459300],
+          ['Pink Floyd', 'The Wall', 'Three', 1609459400],
+          ['Pink Floyd', 'The Wall', 'Four', 1609459500],
+          ['Pink Floyd', 'The Wall', 'Five', 1609459600],
+        ])
+      );
+
+      // Act
+      await service.startFullSync();
+
+      // Assert - failed tracks and undone sessions never count
+      const index = await service.getHistoryIndex();
+      expect(index!.schemaVersion).toBe(2);
+      const sources = Object.fromEntries(
+        index!.albums['pink floyd|the wall'].plays.map(p => [p.track, p.source])
+      );
+      expect(sources).toEqual({
+        One: 'app',
+        Two: 'recognized',
+        Three: 'external',
+        Four: 'external',
+        Five: 'external',
+      });
+    });
+
+    it('should tag a migrated index on the next incremental sync', async () => {
+      // Arrange
+      await writeSession('batch', 'memory', [{ timestamp: 1609459200 }]);
+      await fileStorage.writeJSON('history/scrobble-history-index.json', {
+        schemaVersion: 2,
+        needsSourceTagging: true,
+        lastSyncTimestamp: 1609459300000,
+        totalScrobbles: 2,
+        oldestScrobbleDate: 1609459100,
+        albums: {
+          'pink floyd|the wall': {
+            lastPlayed: 1609459200,
+            playCount: 2,
+            plays: [
+              { timestamp: 1609459200, track: 'One' },
+              { timestamp: 1609459100, track: 'Two' },
+            ],
+          },
+        },
+      });
+      jest.spyOn(service as any, 'getRequestDelay').mockReturnValue(0 as never);
+      mockAxiosInstance.get.mockResolvedValueOnce(
+        page([['Pink Floyd', 'The Wall', 'Two', 1609459100]])
+      );
+
+      // Act
+      await service.startIncrementalSync();
+
+      // Assert
+      const index = await service.getHistoryIndex();
+      expect(index!.needsSourceTagging).toBeUndefined();
+      expect(
+        index!.albums['pink floyd|the wall'].plays.map(p => p.source)
+      ).toEqual(['memory', 'external']);
+    });
+
+    it('should not index imported plays again on an incremental sync', async () => {
+      // Arrange - an import added Two after the last sync
+      await fileStorage.writeJSON('history/scrobble-history-index.json', {
+        schemaVersion: 2,
+        lastSyncTimestamp: 1609459100000,
+        totalScrobbles: 2,
+        oldestScrobbleDate: 1609459100,
+        albums: {
+          'pink floyd|the wall': {
+            lastPlayed: 1609459200,
+            playCount: 2,
+            plays: [
+              { timestamp: 1609459200, track: 'Two', source: 'external' },
+              { timestamp: 1609459100, track: 'One', source: 'external' },
+            ],
+          },
+        },
+      });
+      jest.spyOn(service as any, 'getRequestDelay').mockReturnValue(0 as never);
+      mockAxiosInstance.get.mockResolvedValueOnce(
+        page([
+          ['Pink Floyd', 'The Wall', 'Three', 1609459300],
+          ['Pink Floyd', 'The Wall', 'Two', 1609459200],
+          ['Pink Floyd', 'The Wall', 'One', 1609459100],
+        ])
+      );
+
+      // Act
+      await service.startIncrementalSync();
+
+      // Assert
+      const index = await service.getHistoryIndex();
+      expect(
+        index!.albums['pink floyd|the wall'].plays.map(p => p.track).sort()
+      ).toEqual(['One', 'Three', 'Two']);
+      expect(index!.totalScrobbles).toBe(3);
+      expect(index!.lastSyncTimestamp).toBe(1609459300000);
+    });
+
+    it('should only write new plays to the play database on an incremental sync', async () => {
+      // Arrange
+      const playDatabase = new PlayDatabase(fileStorage);
+      service.setPlayDatabase(playDatabase);
+      playDatabase.writeIndex({
+        schemaVersion: 2,
+        lastSyncTimestamp: 1609459100000,
+        totalScrobbles: 1,
+        oldestScrobbleDate: 1609459100,
+        albums: {
+          'pink floyd|the wall': {
+            lastPlayed: 1609459100,
+            playCount: 1,
+            plays: [
+              { timestamp: 1609459100, track: 'One', source: 'external' },
+            ],
+          },
+        },
+      });
+      const writeIndex = jest.spyOn(playDatabase, 'writeIndex');
+      jest.spyOn(service as any, 'getRequestDelay').mockReturnValue(0 as never);
+      mockAxiosInstance.get.mockResolvedValueOnce(
+        page([
+          ['Pink Floyd', 'The Wall', 'Two', 1609459200],
+          ['Pink Floyd', 'The Wall', 'One', 1609459100],
+        ])
+      );
+
+      // Act
+      await service.startIncrementalSync();
+
+      // Assert
+      const index = playDatabase.readIndex();
+      playDatabase.close();
+      expect(writeIndex).not.toHaveBeenCalled();
+      expect(
+        index!.albums['pink floyd|the wall'].plays.map(p => p.track)
+      ).toEqual(['One', 'Two']);
+      expect(index!.albums['pink floyd|the wall'].playCount).toBe(2);
+      expect(index!.totalScrobbles).toBe(2);
+    });
+
+    it('should tag a migrated index in the background', async () => {
+      // Arrange
+      const warmer = {
+        invalidateStatsCache: jest.fn().mockResolvedValue(undefined),
+        warmCache: jest.fn().mockResolvedValue(undefined),
+      };
+      service.setStatsWarmer(warmer);
+      await writeSession('batch', 'app', [{ timestamp: 1609459200 }]);
+      await fileStorage.writeJSON('history/scrobble-history-index.json', {
+        schemaVersion: 2,
+        needsSourceTagging: true,
+        lastSyncTimestamp: 1609459200000,
+        totalScrobbles: 1,
+        oldestScrobbleDate: 1609459200,
+        albums: {
+          'pink floyd|the wall': {
+            lastPlayed: 1609459200,
+            playCount: 1,
+            plays: [{ timestamp: 1609459201, track: 'One' }],
+          },
+        },
+      });
+
+      // Act
+      const tagged = await service.tagPlaySources();
+      const again = await service.tagPlaySources();
+
+      // Assert
+      expect(tagged).toBe(1);
+      expect(again).toBe(0);
+      const index = await service.getHistoryIndex();
+      expect(index!.albums['pink floyd|the wall'].plays[0].source).toBe('app');
+      expect(warmer.invalidateStatsCache).toHaveBeenCalled();
+    });
+  });
+
   describe('pauseSync', () => {
     it('should not pause when not syncing', () => {
       // Act
@@ -3,7 +3,10 @@ import axios from 'axios';
 import { AuthService } from '../../src/backend/services/authService';
 import { SellerMonitoringService } from '../../src/backend/services/sellerMonitoringService';
 import { WishlistService } from '../../src/backend/services/wishlistService';
-import { getDiscogsAxios } from '../../src/backend/utils/discogsAxios';
+import {
+  getDiscogsAxios,
+  withDiscogsPriority,
+} from '../../src/backend/utils/discogsAxios';
 import { FileStorage } from '../../src/backend/utils/fileStorage';
 import {
   MonitoredSellersStore,
@@ -46,6 +49,9 @@ const mockedAxios = axios as jest.Mocked<typeof axios>;
 const mockedGetDiscogsAxios = getDiscogsAxios as jest.MockedFunction<
   typeof getDiscogsAxios
 >;
+const mockedWithDiscogsPriority = withDiscogsPriority as jest.MockedFunction<
+  typeof withDiscogsPriority
+>;
 
 describe('SellerMonitoringService', () => {
   let sellerMonitoringService: SellerMonitoringService;
@@ -96,6 +102,7 @@ describe('SellerMonitoringService', () => {
     };
 
     mockedGetDiscogsAxios.mockReturnValue(mockAxiosInstance);
+    mockedWithDiscogsPriority.mockImplementation((_priority, task) => task());
     mockedAxios.isAxiosError.mockReturnValue(false);
 
     // Create service instance
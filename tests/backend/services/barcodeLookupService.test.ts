@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+
+import { BarcodeLookupService } from '../../../src/backend/services/barcodeLookupService';
+import { DiscogsService } from '../../../src/backend/services/discogsService';
+import { ShelfLocationService } from '../../../src/backend/services/shelfLocationService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import {
+  BarcodeMatch,
+  CollectionItem,
+  ShelfLocationEntry,
+} from '../../../src/shared/types';
+
+describe('BarcodeLookupService', () => {
+  let fileStorage: FileStorage;
+  let discogsService: jest.Mocked<DiscogsService>;
+  let shelfLocationService: jest.Mocked<ShelfLocationService>;
+  let service: BarcodeLookupService;
+  const testDataDir = './test-data-barcode-lookup';
+  const barcode = '4006381333931';
+
+  const createItem = (
+    id: number,
+    releaseId: number,
+    masterId?: number
+  ): CollectionItem => ({
+    id,
+    folder_id: 1,
+    date_added: '2024-01-15T10:00:00-08:00',
+    release: {
+      id: releaseId,
+      master_id: masterId,
+      title: `Album ${id}`,
+      artist: `Artist ${id}`,
+      format: ['Vinyl'],
+      label: ['Label'],
+      resource_url: `https://api.discogs.com/releases/${releaseId}`,
+    },
+  });
+
+  const createMatch = (releaseId: number, masterId?: number): BarcodeMatch => ({
+    releaseId,
+    masterId,
+    title: `Release ${releaseId}`,
+    artist: 'Artist',
+    formats: ['Vinyl'],
+  });
+
+  const locations: Record<number, ShelfLocationEntry> = {
+    1: {
+      shelf: 'B',
+      row: '2',
+      position: 14,
+      collectionItemId: 1,
+      releaseId: 100,
+      artist: 'Artist 1',
+      title: 'Album 1',
+      updatedAt: 1700000000000,
+    },
+  };
+
+  beforeEach(async () => {
+    fileStorage = new FileStorage(testDataDir);
+    await fileStorage.ensureDataDir();
+    await fileStorage.writeJSON('collections/collector-page-1.json', {
+      success: true,
+      data: [createItem(1, 100, 10), createItem(2, 200, 20)],
+      timestamp: Date.now(),
+    });
+
+    discogsService = {
+      searchReleasesByBarcode: jest.fn(),
+    } as unknown as jest.Mocked<DiscogsService>;
+    shelfLocationService = {
+      getLocation: jest.fn(async (id: number) => locations[id] ?? null),
+    } as unknown as jest.Mocked<ShelfLocationService>;
+    service = new BarcodeLookupService(
+      fileStorage,
+      discogsService,
+      shelfLocationService
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch {
+      // Ignore
+    }
+  });
+
+  it('should match an owned release with its shelf location', async () => {
+    // Arrange
+    discogsService.searchReleasesByBarcode.mockResolvedValue([
+      createMatch(100, 10),
+    ]);
+
+    // Act
+    const result = await service.lookup('collector', barcode);
+
+    // Assert
+    expect(result.barcode).toBe(barcode);
+    expect(result.matches).toEqual([
+      {
+        ...createMatch(100, 10),
+        collectionItemId: 1,
+        shelfLocation: { shelf: 'B', row: '2', position: 14 },
+      },
+    ]);
+  });
+
+  it('should flag other pressings of an owned master', async () => {
+    // Arrange
+    discogsService.searchReleasesByBarcode.mockResolvedValue([
+      createMatch(201, 20),
+    ]);
+
+    // Act
+    const result = await service.lookup('collector', barcode);
+
+    // Assert
+    expect(result.matches[0]).toMatchObject({
+      releaseId: 201,
+      collectionItemId: 2,
+      otherPressing: true,
+    });
+    expect(result.matches[0].shelfLocation).toBeUndefined();
+  });
+
+  it('should rank exact matches, then other pressings, then the rest', async () => {
+    // Arrange
+    discogsService.searchReleasesByBarcode.mockResolvedValue([
+      createMatch(999),
+      createMatch(201, 20),
+      createMatch(100, 10),
+    ]);
+
+    // Act
+    const result = await service.lookup('collector', barcode);
+
+    // Assert
+    expect(result.matches.map(match => match.releaseId)).toEqual([
+      100, 201, 999,
+    ]);
+    expect(result.matches[2].collectionItemId).toBeUndefined();
+  });
+
+  it('should remember releases found for a barcode', async () => {
+    // Arrange
+    discogsService.searchReleasesByBarcode.mockResolvedValue([
+      createMatch(100, 10),
+    ]);
+    await service.lookup('collector', barcode);
+
+    // Act
+    const reloaded = new BarcodeLookupService(
+      fileStorage,
+      discogsService,
+      shelfLocationService
+    );
+    const result = await reloaded.lookup('collector', barcode);
+
+    // Assert
+    expect(discogsService.searchReleasesByBarcode).toHaveBeenCalledTimes(1);
+    expect(result.matches[0].releaseId).toBe(100);
+  });
+
+  it('should search again when a barcode found nothing', async () => {
+    // Arrange
+    discogsService.searchReleasesByBarcode.mockResolvedValue([]);
+
+    // Act
+    const first = await service.lookup('collector', barcode);
+    await service.lookup('collector', barcode);
+
+    // Assert
+    expect(first.matches).toEqual([]);
+    expect(discogsService.searchReleasesByBarcode).toHaveBeenCalledTimes(2);
+  });
+});
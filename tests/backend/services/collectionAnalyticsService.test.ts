@@ -1,5 +1,6 @@
 import { AuthService } from '../../../src/backend/services/authService';
 import { CollectionAnalyticsService } from '../../../src/backend/services/collectionAnalyticsService';
+import { CollectionChangeService } from '../../../src/backend/services/collectionChangeService';
 import { WishlistService } from '../../../src/backend/services/wishlistService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
 import { CollectionItem } from '../../../src/shared/types';
@@ -878,6 +879,39 @@ describe('CollectionAnalyticsService', () => {
       expect(result.dataPoints).toEqual([]);
       expect(result.totalAdded).toBe(0);
     });
+
+    it('should count removed records from the change log in net growth', async () => {
+      // Arrange
+      const mockChangeService = {
+        getRemovals: jest.fn().mockResolvedValue([
+          {
+            type: 'removed',
+            timestamp: new Date('2024-03-10T10:00:00Z').getTime(),
+            instanceId: 9,
+            releaseId: 900,
+            artist: 'Sold Artist',
+            title: 'Sold Album',
+            dateAdded: '2024-01-20T10:00:00Z',
+          },
+        ]),
+      } as unknown as jest.Mocked<CollectionChangeService>;
+      service.setCollectionChangeService(mockChangeService);
+      const items = [
+        createCollectionItem({ id: 1, date_added: '2024-01-15T10:00:00Z' }),
+      ];
+
+      // Act
+      const result = await service.getGrowthTimeline(items);
+
+      // Assert
+      expect(mockChangeService.getRemovals).toHaveBeenCalledWith('testuser');
+      expect(result.dataPoints).toEqual([
+        { period: '2024-01', added: 2, removed: 0, cumulative: 2 },
+        { period: '2024-03', added: 0, removed: 1, cumulative: 1 },
+      ]);
+      expect(result.totalAdded).toBe(2);
+      expect(result.totalRemoved).toBe(1);
+    });
   });
 
   // ============================================
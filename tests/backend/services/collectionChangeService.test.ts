@@ -0,0 +1,188 @@
+import fs from 'fs/promises';
+
+import { CollectionChangeService } from '../../../src/backend/services/collectionChangeService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { CollectionItem } from '../../../src/shared/types';
+
+describe('CollectionChangeService', () => {
+  let fileStorage: FileStorage;
+  let service: CollectionChangeService;
+  const testDataDir = './test-data-collection-changes';
+
+  const createItem = (
+    id: number,
+    overrides: Partial<CollectionItem> = {}
+  ): CollectionItem => ({
+    id,
+    folder_id: 1,
+    date_added: '2024-01-15T10:00:00-08:00',
+    rating: 0,
+    release: {
+      id: id * 100,
+      title: `Album ${id}`,
+      artist: `Artist ${id}`,
+      format: ['Vinyl'],
+      label: ['Label'],
+      resource_url: `https://api.discogs.com/releases/${id * 100}`,
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    fileStorage = new FileStorage(testDataDir);
+    await fileStorage.ensureDataDir();
+    service = new CollectionChangeService(fileStorage);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch {
+      // Ignore
+    }
+  });
+
+  describe('recordRefresh', () => {
+    it('should only store a baseline on the first refresh', async () => {
+      // Act
+      const changes = await service.recordRefresh('collector', [
+        createItem(1),
+        createItem(2),
+      ]);
+
+      // Assert
+      expect(changes).toEqual([]);
+      expect((await service.getChanges('collector')).total).toBe(0);
+    });
+
+    it('should record additions dated by date_added', async () => {
+      // Arrange
+      await service.recordRefresh('collector', [createItem(1)]);
+
+      // Act
+      const changes = await service.recordRefresh('collector', [
+        createItem(1),
+        createItem(2, { date_added: '2024-03-01T12:00:00Z' }),
+      ]);
+
+      // Assert
+      expect(changes).toEqual([
+        expect.objectContaining({
+          type: 'added',
+          instanceId: 2,
+          releaseId: 200,
+          timestamp: Date.parse('2024-03-01T12:00:00Z'),
+        }),
+      ]);
+    });
+
+    it('should record removals with the original date added', async () => {
+      // Arrange
+      await service.recordRefresh('collector', [createItem(1), createItem(2)]);
+
+      // Act
+      const changes = await service.recordRefresh('collector', [createItem(1)]);
+
+      // Assert
+      expect(changes).toEqual([
+        expect.objectContaining({
+          type: 'removed',
+          instanceId: 2,
+          artist: 'Artist 2',
+          dateAdded: '2024-01-15T10:00:00-08:00',
+        }),
+      ]);
+    });
+
+    it('should record rating, notes and folder edits', async () => {
+      // Arrange
+      await service.recordRefresh('collector', [createItem(1)]);
+
+      // Act
+      const changes = await service.recordRefresh('collector', [
+        createItem(1, {
+          rating: 4,
+          notes: [{ field_id: 3, value: 'Signed copy' }],
+          folder_id: 7,
+        }),
+      ]);
+
+      // Assert
+      expect(changes.map(c => [c.type, c.before, c.after])).toEqual([
+        ['rating', 0, 4],
+        ['notes', '', 'Signed copy'],
+        ['folder', 1, 7],
+      ]);
+    });
+
+    it('should not report folder moves for items cached without a folder', async () => {
+      // Arrange
+      await service.recordRefresh('collector', [
+        createItem(1, { folder_id: undefined }),
+      ]);
+
+      // Act
+      const changes = await service.recordRefresh('collector', [
+        createItem(1, { folder_id: 7 }),
+      ]);
+
+      // Assert
+      expect(changes).toEqual([]);
+    });
+
+    it('should persist the log across instances', async () => {
+      // Arrange
+      await service.recordRefresh('collector', [createItem(1)]);
+      await service.recordRefresh('collector', []);
+
+      // Act
+      const reloaded = new CollectionChangeService(fileStorage);
+
+      // Assert
+      expect(await reloaded.getRemovals('collector')).toHaveLength(1);
+    });
+  });
+
+  describe('getChanges', () => {
+    beforeEach(async () => {
+      await service.recordRefresh('collector', [createItem(1), createItem(2)]);
+      await service.recordRefresh('collector', [
+        createItem(2, { rating: 5 }),
+        createItem(3, { date_added: '2020-01-01T00:00:00Z' }),
+      ]);
+    });
+
+    it('should return changes newest first', async () => {
+      // Act
+      const { changes, total } = await service.getChanges('collector');
+
+      // Assert
+      expect(total).toBe(3);
+      expect(changes[changes.length - 1].type).toBe('added');
+    });
+
+    it('should filter by type and page', async () => {
+      // Act
+      const removed = await service.getChanges('collector', {
+        type: 'removed',
+      });
+      const page = await service.getChanges('collector', {
+        limit: 1,
+        offset: 1,
+      });
+
+      // Assert
+      expect(removed.changes.map(c => c.instanceId)).toEqual([1]);
+      expect(page.changes).toHaveLength(1);
+      expect(page.total).toBe(3);
+    });
+
+    it('should return nothing for an unknown user', async () => {
+      // Act & Assert
+      expect(await service.getChanges('someone-else')).toEqual({
+        changes: [],
+        total: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import fs from 'fs/promises';
+
+import {
+  CollectionEditError,
+  CollectionEditService,
+} from '../../../src/backend/services/collectionEditService';
+import { DiscogsService } from '../../../src/backend/services/discogsService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { CollectionItem } from '../../../src/shared/types';
+
+describe('CollectionEditService', () => {
+  let fileStorage: FileStorage;
+  let discogsService: jest.Mocked<DiscogsService>;
+  let service: CollectionEditService;
+  const testDataDir = './test-data-collection-edit';
+  const pageKey = 'collections/collector-page-1.json';
+  const timestamp = 1700000000000;
+
+  const createItem = (
+    id: number,
+    overrides: Partial<CollectionItem> = {}
+  ): CollectionItem => ({
+    id,
+    folder_id: 1,
+    date_added: '2024-01-15T10:00:00-08:00',
+    rating: 2,
+    notes: [{ field_id: 3, value: 'Shelf A' }],
+    release: {
+      id: id * 100,
+      title: `Album ${id}`,
+      artist: `Artist ${id}`,
+      format: ['Vinyl'],
+      label: ['Label'],
+      resource_url: `https://api.discogs.com/releases/${id * 100}`,
+    },
+    ...overrides,
+  });
+
+  const readCachedItem = async (
+    id: number
+  ): Promise<CollectionItem | undefined> => {
+    const page = await fileStorage.readJSON<{
+      data: CollectionItem[];
+      timestamp: number;
+    }>(pageKey);
+    return page?.data.find(item => item.id === id);
+  };
+
+  beforeEach(async () => {
+    fileStorage = new FileStorage(testDataDir);
+    await fileStorage.ensureDataDir();
+    await fileStorage.writeJSON(pageKey, {
+      success: true,
+      data: [createItem(1), createItem(2)],
+      timestamp,
+    });
+
+    discogsService = {
+      getCollectionInstance: jest.fn(),
+      updateCollectionInstance: jest.fn().mockResolvedValue(undefined),
+      setCollectionFieldValue: jest.fn().mockResolvedValue(undefined),
+      deleteCollectionInstance: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<DiscogsService>;
+    service = new CollectionEditService(fileStorage, discogsService);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch {
+      // Ignore
+    }
+  });
+
+  describe('editInstance', () => {
+    it('should write a new rating to Discogs and the cache', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(createItem(1));
+
+      // Act
+      const updated = await service.editInstance('collector', 1, {
+        type: 'rating',
+        rating: 5,
+        expected: 2,
+      });
+
+      // Assert
+      expect(updated.rating).toBe(5);
+      expect(discogsService.updateCollectionInstance).toHaveBeenCalledWith(
+        'collector',
+        1,
+        100,
+        1,
+        { rating: 5 }
+      );
+      expect((await readCachedItem(1))?.rating).toBe(5);
+      const page = await fileStorage.readJSON<{ timestamp: number }>(pageKey);
+      expect(page?.timestamp).toBe(timestamp);
+    });
+
+    it('should set a custom field value', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(createItem(1));
+
+      // Act
+      const updated = await service.editInstance('collector', 1, {
+        type: 'field',
+        fieldId: 3,
+        value: 'Shelf B',
+      });
+
+      // Assert
+      expect(updated.notes).toEqual([{ field_id: 3, value: 'Shelf B' }]);
+      expect(discogsService.setCollectionFieldValue).toHaveBeenCalledWith(
+        'collector',
+        1,
+        100,
+        1,
+        3,
+        'Shelf B'
+      );
+    });
+
+    it('should move to another folder from the live folder', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(createItem(2));
+
+      // Act
+      const updated = await service.editInstance('collector', 2, {
+        type: 'folder',
+        folderId: 7,
+      });
+
+      // Assert
+      expect(updated.folder_id).toBe(7);
+      expect(discogsService.updateCollectionInstance).toHaveBeenCalledWith(
+        'collector',
+        1,
+        200,
+        2,
+        { folder_id: 7 }
+      );
+      expect((await readCachedItem(2))?.folder_id).toBe(7);
+    });
+
+    it('should refuse an edit when Discogs has a different value', async () => {
+      // Arrange
+      const live = createItem(1, { rating: 4 });
+      discogsService.getCollectionInstance.mockResolvedValue(live);
+
+      // Act
+      const error = await service
+        .editInstance('collector', 1, { type: 'rating', rating: 5 })
+        .catch(e => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(CollectionEditError);
+      expect(error.status).toBe(409);
+      expect(error.live).toEqual(live);
+      expect(discogsService.updateCollectionInstance).not.toHaveBeenCalled();
+      expect((await readCachedItem(1))?.rating).toBe(4);
+    });
+
+    it('should compare against the expected value when given', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(
+        createItem(1, { rating: 4 })
+      );
+
+      // Act
+      await service.editInstance('collector', 1, {
+        type: 'rating',
+        rating: 5,
+        expected: 4,
+      });
+
+      // Assert
+      expect(discogsService.updateCollectionInstance).toHaveBeenCalled();
+    });
+
+    it('should not call Discogs when the value is already set', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(createItem(1));
+
+      // Act
+      const updated = await service.editInstance('collector', 1, {
+        type: 'rating',
+        rating: 2,
+      });
+
+      // Assert
+      expect(updated.rating).toBe(2);
+      expect(discogsService.updateCollectionInstance).not.toHaveBeenCalled();
+    });
+
+    it('should restore the cache when Discogs rejects the edit', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(createItem(1));
+      discogsService.updateCollectionInstance.mockRejectedValue(
+        new Error('Discogs is unavailable')
+      );
+
+      // Act & Assert
+      await expect(
+        service.editInstance('collector', 1, { type: 'rating', rating: 5 })
+      ).rejects.toThrow('Discogs is unavailable');
+      expect((await readCachedItem(1))?.rating).toBe(2);
+    });
+
+    it('should return 404 for an instance that is not cached', async () => {
+      // Act
+      const error = await service
+        .editInstance('collector', 99, { type: 'rating', rating: 5 })
+        .catch(e => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(CollectionEditError);
+      expect(error.status).toBe(404);
+      expect(discogsService.getCollectionInstance).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the instance is gone from Discogs', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(null);
+
+      // Act
+      const error = await service
+        .editInstance('collector', 1, { type: 'rating', rating: 5 })
+        .catch(e => e);
+
+      // Assert
+      expect(error.status).toBe(409);
+      expect(error.live).toBeNull();
+    });
+  });
+
+  describe('removeInstance', () => {
+    it('should delete the instance and drop it from the cache', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(createItem(1));
+
+      // Act
+      await service.removeInstance('collector', 1);
+
+      // Assert
+      expect(discogsService.deleteCollectionInstance).toHaveBeenCalledWith(
+        'collector',
+        1,
+        100,
+        1
+      );
+      expect(await readCachedItem(1)).toBeUndefined();
+      expect(await readCachedItem(2)).toBeDefined();
+    });
+
+    it('should succeed when the instance is already gone', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(null);
+
+      // Act
+      await service.removeInstance('collector', 1);
+
+      // Assert
+      expect(discogsService.deleteCollectionInstance).not.toHaveBeenCalled();
+      expect(await readCachedItem(1)).toBeUndefined();
+    });
+
+    it('should put the instance back when the delete fails', async () => {
+      // Arrange
+      discogsService.getCollectionInstance.mockResolvedValue(createItem(1));
+      discogsService.deleteCollectionInstance.mockRejectedValue(
+        new Error('Discogs is unavailable')
+      );
+
+      // Act & Assert
+      await expect(service.removeInstance('collector', 1)).rejects.toThrow(
+        'Discogs is unavailable'
+      );
+      expect(await readCachedItem(1)).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { EventStreamService } from '../../../src/backend/services/eventStreamService';
+import { ServerEvent } from '../../../src/shared/types';
+
+const embeddingEvent = (current: number): ServerEvent => ({
+  type: 'embedding-progress',
+  progress: { current, total: 10, phase: 'Embedding' },
+});
+
+describe('EventStreamService', () => {
+  let service: EventStreamService;
+  let received: ServerEvent[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    service = new EventStreamService();
+    received = [];
+    service.subscribe(event => received.push(event));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('delivers unthrottled events immediately', () => {
+    // Act
+    service.publish(embeddingEvent(1));
+    service.publish(embeddingEvent(2));
+
+    // Assert
+    expect(received).toEqual([embeddingEvent(1), embeddingEvent(2)]);
+  });
+
+  it('coalesces throttled events and delivers the latest', () => {
+    // Act
+    service.publish(embeddingEvent(1), 'embedding');
+    service.publish(embeddingEvent(2), 'embedding');
+    service.publish(embeddingEvent(3), 'embedding');
+
+    // Assert
+    expect(received).toEqual([embeddingEvent(1)]);
+    jest.advanceTimersByTime(250);
+    expect(received).toEqual([embeddingEvent(1), embeddingEvent(3)]);
+  });
+
+  it('throttles each key independently', () => {
+    // Act
+    service.publish(embeddingEvent(1), 'a');
+    service.publish(embeddingEvent(2), 'b');
+
+    // Assert
+    expect(received).toHaveLength(2);
+  });
+
+  it('publishNow drops pending events for the same key', () => {
+    // Arrange
+    service.publish(embeddingEvent(1), 'embedding');
+    service.publish(embeddingEvent(2), 'embedding');
+
+    // Act
+    service.publishNow(
+      { type: 'embedding-progress', progress: null },
+      'embedding'
+    );
+    jest.advanceTimersByTime(1000);
+
+    // Assert
+    expect(received).toEqual([
+      embeddingEvent(1),
+      { type: 'embedding-progress', progress: null },
+    ]);
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    // Arrange
+    const listener = jest.fn();
+    const unsubscribe = service.subscribe(listener);
+    expect(service.getSubscriberCount()).toBe(2);
+
+    // Act
+    unsubscribe();
+    service.publish(embeddingEvent(1));
+
+    // Assert
+    expect(listener).not.toHaveBeenCalled();
+    expect(service.getSubscriberCount()).toBe(1);
+  });
+});
@@ -173,6 +173,42 @@ describe('GenreAnalysisService', () => {
     expect(mockLastFmService.getArtistTopTags).not.toHaveBeenCalled();
   });
 
+  it('should keep tags other profiles cached while fetching', async () => {
+    // Arrange
+    mockHistoryStorage.getIndex = jest.fn().mockResolvedValue(
+      createMockIndex({
+        'radiohead|OK Computer': { playCount: 100 },
+      })
+    );
+    mockLastFmService.getArtistTopTags = jest
+      .fn()
+      .mockResolvedValue([{ name: 'rock', count: 100 }]);
+    const otherTags = {
+      tags: [{ name: 'jazz', count: 100 }],
+      fetchedAt: Date.now(),
+    };
+    mockFileStorage.readJSON = jest
+      .fn()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ schemaVersion: 1, tags: { miles: otherTags } });
+
+    // Act
+    await service.getGenreDistribution(10, 10);
+
+    // Assert
+    expect(mockFileStorage.writeJSONWithBackup).toHaveBeenCalledWith(
+      'cache/artist-tags.json',
+      expect.objectContaining({
+        tags: {
+          radiohead: expect.objectContaining({
+            tags: [{ name: 'rock', count: 100 }],
+          }),
+          miles: otherTags,
+        },
+      })
+    );
+  });
+
   it('should handle Last.fm API errors gracefully by skipping failed artists', async () => {
     // Arrange
     mockHistoryStorage.getIndex = jest.fn().mockResolvedValue(
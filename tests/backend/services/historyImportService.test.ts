@@ -0,0 +1,311 @@
+import { ArtistNameResolver } from '../../../src/backend/services/artistNameResolver';
+import {
+  HistoryImportError,
+  HistoryImportService,
+} from '../../../src/backend/services/historyImportService';
+import { ScrobbleHistorySyncService } from '../../../src/backend/services/scrobbleHistorySyncService';
+import { HistoryExportParseError } from '../../../src/backend/utils/historyExportParser';
+import { ScrobbleHistoryIndex } from '../../../src/shared/types';
+
+const NOW = new Date('2024-03-10T12:00:00Z').getTime();
+
+const csv = (...rows: Array<[string, string, string, number]>) =>
+  rows.map(row => row.join(',')).join('\n');
+
+describe('HistoryImportService', () => {
+  let service: HistoryImportService;
+  let storedIndex: ScrobbleHistoryIndex | null;
+  let mockSyncService: {
+    getHistoryIndex: jest.Mock;
+    saveImportedIndex: jest.Mock;
+    isSyncInProgress: jest.Mock;
+  };
+
+  const existingIndex = (): ScrobbleHistoryIndex => ({
+    lastSyncTimestamp: 1700000000000,
+    totalScrobbles: 2,
+    oldestScrobbleDate: 1690000000,
+    albums: {
+      'radiohead|ok computer': {
+        lastPlayed: 1700000000,
+        playCount: 2,
+        plays: [
+          { timestamp: 1700000000, track: 'Airbag' },
+          { timestamp: 1690000000, track: 'Paranoid Android' },
+        ],
+      },
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+
+    storedIndex = existingIndex();
+    mockSyncService = {
+      // Each read returns a fresh copy, like reading the file
+      getHistoryIndex: jest.fn(async () =>
+        storedIndex ? JSON.parse(JSON.stringify(storedIndex)) : null
+      ),
+      saveImportedIndex: jest.fn(async (index: ScrobbleHistoryIndex) => {
+        storedIndex = index;
+      }),
+      isSyncInProgress: jest.fn().mockReturnValue(false),
+    };
+
+    service = new HistoryImportService(
+      mockSyncService as unknown as ScrobbleHistorySyncService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('preview', () => {
+    it('should count new plays, albums and artists without saving', async () => {
+      // Arrange
+      const content = csv(
+        ['Radiohead', 'OK Computer', 'Airbag', 1700000000],
+        ['Radiohead', 'OK Computer', 'Lucky', 1710000000],
+        ['Radiohead', 'Kid A', 'Idioteque', 1710000300],
+        ['Portishead', 'Dummy', 'Roads', 1680000000]
+      );
+
+      // Act
+      const preview = await service.preview(content);
+
+      // Assert
+      expect(preview).toEqual({
+        importId: expect.any(String),
+        format: 'lastfm-csv',
+        totalPlays: 4,
+        skippedRows: 0,
+        duplicatePlays: 1,
+        newPlays: 3,
+        newAlbums: 2,
+        updatedAlbums: 1,
+        newArtists: 1,
+        newArtistNames: ['Portishead'],
+        oldestPlay: 1680000000,
+        newestPlay: 1710000300,
+        expiresAt: NOW + 30 * 60 * 1000,
+      });
+      expect(mockSyncService.saveImportedIndex).not.toHaveBeenCalled();
+    });
+
+    it('should count plays repeated within the file once', async () => {
+      // Arrange
+      const content = csv(
+        ['Portishead', 'Dummy', 'Roads', 1680000000],
+        ['Portishead', 'Dummy', 'Roads', 1680000000]
+      );
+
+      // Act
+      const preview = await service.preview(content);
+
+      // Assert
+      expect(preview.newPlays).toBe(1);
+      expect(preview.duplicatePlays).toBe(1);
+    });
+
+    it('should count a known timestamp under another album as a duplicate', async () => {
+      // Arrange
+      const content = csv([
+        'Radiohead',
+        'OK Computer OKNOTOK',
+        'Airbag',
+        1700000000,
+      ]);
+
+      // Act
+      const preview = await service.preview(content);
+
+      // Assert
+      expect(preview.newPlays).toBe(0);
+      expect(preview.duplicatePlays).toBe(1);
+    });
+
+    it('should throw a parse error for unreadable files', async () => {
+      // Act & Assert
+      await expect(service.preview('')).rejects.toThrow(
+        HistoryExportParseError
+      );
+    });
+  });
+
+  describe('apply', () => {
+    it('should merge new plays into the index', async () => {
+      // Arrange
+      const preview = await service.preview(
+        csv(
+          ['Radiohead', 'OK Computer', 'Airbag', 1700000000],
+          ['Radiohead', 'OK Computer', 'Lucky', 1710000000],
+          ['Portishead', 'Dummy', 'Roads', 1680000000]
+        )
+      );
+
+      // Act
+      const result = await service.apply(preview.importId);
+
+      // Assert
+      expect(result).toEqual({
+        playsAdded: 2,
+        albumsAdded: 1,
+        artistsAdded: 1,
+        totalScrobbles: 4,
+      });
+      expect(storedIndex).toEqual({
+        lastSyncTimestamp: 1700000000000,
+        totalScrobbles: 4,
+        oldestScrobbleDate: 1680000000,
+        albums: {
+          'radiohead|ok computer': {
+            lastPlayed: 1710000000,
+            playCount: 3,
+            plays: [
+              { timestamp: 1710000000, track: 'Lucky' },
+              { timestamp: 1700000000, track: 'Airbag' },
+              { timestamp: 1690000000, track: 'Paranoid Android' },
+            ],
+          },
+          'portishead|dummy': {
+            lastPlayed: 1680000000,
+            playCount: 1,
+            plays: [{ timestamp: 1680000000, track: 'Roads' }],
+          },
+        },
+      });
+    });
+
+    it('should keep the last sync time when the import is newer', async () => {
+      // Arrange
+      const preview = await service.preview(
+        csv(['Portishead', 'Dummy', 'Roads', 1720000000])
+      );
+
+      // Act
+      await service.apply(preview.importId);
+
+      // Assert
+      expect(storedIndex?.lastSyncTimestamp).toBe(1700000000000);
+    });
+
+    it('should build a new index when none exists', async () => {
+      // Arrange
+      storedIndex = null;
+      const preview = await service.preview(
+        csv(['Portishead', 'Dummy', 'Roads', 1680000000])
+      );
+
+      // Act
+      await service.apply(preview.importId);
+
+      // Assert
+      expect(storedIndex).toEqual({
+        lastSyncTimestamp: 0,
+        totalScrobbles: 1,
+        oldestScrobbleDate: 1680000000,
+        albums: {
+          'portishead|dummy': {
+            lastPlayed: 1680000000,
+            playCount: 1,
+            plays: [{ timestamp: 1680000000, track: 'Roads' }],
+          },
+        },
+      });
+    });
+
+    it('should add aliased artists to the existing entry', async () => {
+      // Arrange
+      service.setArtistNameResolver({
+        resolveArtist: jest.fn((name: string) =>
+          name.toLowerCase() === 'radio head' ? 'radiohead' : name.toLowerCase()
+        ),
+        getDisplayName: jest.fn((name: string) => name),
+      } as unknown as ArtistNameResolver);
+      const preview = await service.preview(
+        csv(
+          ['Radio Head', 'OK Computer', 'Airbag', 1700000000],
+          ['Radio Head', 'OK Computer', 'Lucky', 1710000000]
+        )
+      );
+
+      // Act
+      await service.apply(preview.importId);
+
+      // Assert
+      expect(preview.duplicatePlays).toBe(1);
+      expect(preview.newArtists).toBe(0);
+      expect(Object.keys(storedIndex!.albums)).toEqual([
+        'radiohead|ok computer',
+      ]);
+      expect(storedIndex!.albums['radiohead|ok computer'].playCount).toBe(3);
+    });
+
+    it('should skip plays synced after the preview', async () => {
+      // Arrange
+      const preview = await service.preview(
+        csv(['Radiohead', 'OK Computer', 'Lucky', 1710000000])
+      );
+      storedIndex!.albums['radiohead|ok computer'].plays.unshift({
+        timestamp: 1710000000,
+        track: 'Lucky',
+      });
+
+      // Act
+      const result = await service.apply(preview.importId);
+
+      // Assert
+      expect(result.playsAdded).toBe(0);
+    });
+
+    it('should reject an unknown import', async () => {
+      // Act & Assert
+      await expect(service.apply('missing')).rejects.toMatchObject({
+        name: 'HistoryImportError',
+        status: 404,
+      });
+    });
+
+    it('should reject an expired import', async () => {
+      // Arrange
+      const preview = await service.preview(
+        csv(['Portishead', 'Dummy', 'Roads', 1680000000])
+      );
+      jest.advanceTimersByTime(31 * 60 * 1000);
+
+      // Act & Assert
+      await expect(service.apply(preview.importId)).rejects.toBeInstanceOf(
+        HistoryImportError
+      );
+    });
+
+    it('should refuse to import while a sync is running', async () => {
+      // Arrange
+      const preview = await service.preview(
+        csv(['Portishead', 'Dummy', 'Roads', 1680000000])
+      );
+      mockSyncService.isSyncInProgress.mockReturnValue(true);
+
+      // Act & Assert
+      await expect(service.apply(preview.importId)).rejects.toMatchObject({
+        status: 409,
+      });
+      expect(mockSyncService.saveImportedIndex).not.toHaveBeenCalled();
+    });
+
+    it('should only apply an import once', async () => {
+      // Arrange
+      const preview = await service.preview(
+        csv(['Portishead', 'Dummy', 'Roads', 1680000000])
+      );
+      await service.apply(preview.importId);
+
+      // Act & Assert
+      await expect(service.apply(preview.importId)).rejects.toMatchObject({
+        status: 404,
+      });
+    });
+  });
+});
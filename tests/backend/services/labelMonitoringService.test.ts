@@ -4,7 +4,10 @@ import { AuthService } from '../../../src/backend/services/authService';
 import { DiscogsService } from '../../../src/backend/services/discogsService';
 import { LabelMonitoringService } from '../../../src/backend/services/labelMonitoringService';
 import { WishlistService } from '../../../src/backend/services/wishlistService';
-import { getDiscogsAxios } from '../../../src/backend/utils/discogsAxios';
+import {
+  getDiscogsAxios,
+  withDiscogsPriority,
+} from '../../../src/backend/utils/discogsAxios';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
 
 jest.mock('axios');
@@ -26,6 +29,9 @@ const mockedAxios = axios as jest.Mocked<typeof axios>;
 const mockedGetDiscogsAxios = getDiscogsAxios as jest.MockedFunction<
   typeof getDiscogsAxios
 >;
+const mockedWithDiscogsPriority = withDiscogsPriority as jest.MockedFunction<
+  typeof withDiscogsPriority
+>;
 
 interface AxiosMock {
   get: jest.Mock;
@@ -75,6 +81,7 @@ describe('LabelMonitoringService', () => {
       interceptors: { request: { use: jest.fn() } },
     };
     mockedGetDiscogsAxios.mockReturnValue(mockAxiosInstance as never);
+    mockedWithDiscogsPriority.mockImplementation((_priority, task) => task());
     mockedAxios.isAxiosError = jest.fn().mockReturnValue(false) as never;
 
     service = new LabelMonitoringService(
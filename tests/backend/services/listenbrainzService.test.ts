@@ -0,0 +1,257 @@
+import axios from 'axios';
+
+import { AuthService } from '../../../src/backend/services/authService';
+import {
+  ListenBrainzApiError,
+  ListenBrainzService,
+} from '../../../src/backend/services/listenbrainzService';
+import { ScrobbleTrack } from '../../../src/shared/types';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('ListenBrainzService', () => {
+  let service: ListenBrainzService;
+  let mockClient: { get: jest.Mock; post: jest.Mock };
+  let mockAuthService: {
+    getListenBrainzCredentials: jest.Mock;
+    setListenBrainzToken: jest.Mock;
+  };
+
+  const track = (overrides: Partial<ScrobbleTrack> = {}): ScrobbleTrack => ({
+    artist: 'Radiohead',
+    track: 'Airbag',
+    album: 'OK Computer',
+    timestamp: 1700000000,
+    duration: 284,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockClient = { get: jest.fn(), post: jest.fn().mockResolvedValue({}) };
+    mockedAxios.create.mockReturnValue(
+      mockClient as unknown as ReturnType<typeof axios.create>
+    );
+    mockedAxios.isAxiosError.mockImplementation(
+      (error): error is import('axios').AxiosError =>
+        !!error && typeof error === 'object' && 'isAxiosError' in error
+    );
+
+    mockAuthService = {
+      getListenBrainzCredentials: jest.fn().mockResolvedValue({
+        token: 'lb-token',
+        username: 'listener',
+        enabled: true,
+      }),
+      setListenBrainzToken: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new ListenBrainzService(
+      mockAuthService as unknown as AuthService
+    );
+  });
+
+  describe('connect', () => {
+    it('should store a valid token with its username', async () => {
+      // Arrange
+      mockClient.get.mockResolvedValue({
+        data: { valid: true, user_name: 'listener' },
+      });
+
+      // Act
+      const username = await service.connect('lb-token');
+
+      // Assert
+      expect(username).toBe('listener');
+      expect(mockClient.get).toHaveBeenCalledWith('validate-token', {
+        headers: { Authorization: 'Token lb-token' },
+      });
+      expect(mockAuthService.setListenBrainzToken).toHaveBeenCalledWith(
+        'lb-token',
+        'listener'
+      );
+    });
+
+    it('should reject an invalid token without storing it', async () => {
+      // Arrange
+      mockClient.get.mockResolvedValue({ data: { valid: false } });
+
+      // Act & Assert
+      await expect(service.connect('bad')).rejects.toMatchObject({
+        name: 'ListenBrainzApiError',
+        status: 401,
+      });
+      expect(mockAuthService.setListenBrainzToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isEnabled', () => {
+    it('should need both a token and the enabled flag', async () => {
+      // Act & Assert
+      expect(await service.isEnabled()).toBe(true);
+
+      mockAuthService.getListenBrainzCredentials.mockResolvedValue({
+        token: 'lb-token',
+        enabled: false,
+      });
+      expect(await service.isEnabled()).toBe(false);
+
+      mockAuthService.getListenBrainzCredentials.mockResolvedValue({
+        enabled: true,
+      });
+      expect(await service.isEnabled()).toBe(false);
+    });
+  });
+
+  describe('submitListens', () => {
+    it('should submit one track as a single listen', async () => {
+      // Act
+      await service.submitListens([track()]);
+
+      // Assert
+      expect(mockClient.post).toHaveBeenCalledWith(
+        'submit-listens',
+        {
+          listen_type: 'single',
+          payload: [
+            {
+              listened_at: 1700000000,
+              track_metadata: {
+                artist_name: 'Radiohead',
+                track_name: 'Airbag',
+                release_name: 'OK Computer',
+                additional_info: {
+                  duration: 284,
+                  media_player: 'Vinyl',
+                  submission_client: 'RecordScrobbles',
+                  submission_client_version: '1.0',
+                },
+              },
+            },
+          ],
+        },
+        { headers: { Authorization: 'Token lb-token' } }
+      );
+    });
+
+    it('should submit batches as imports of at most 1000 listens', async () => {
+      // Arrange
+      const tracks = Array.from({ length: 1500 }, (_, i) =>
+        track({ timestamp: 1700000000 + i })
+      );
+
+      // Act
+      await service.submitListens(tracks);
+
+      // Assert
+      expect(mockClient.post).toHaveBeenCalledTimes(2);
+      const [first, second] = mockClient.post.mock.calls.map(call => call[1]);
+      expect(first.listen_type).toBe('import');
+      expect(first.payload).toHaveLength(1000);
+      expect(second.payload).toHaveLength(500);
+    });
+
+    it('should leave out an empty album and unknown duration', async () => {
+      // Act
+      await service.submitListens([track({ album: ' ', duration: undefined })]);
+
+      // Assert
+      const listen = mockClient.post.mock.calls[0][1].payload[0];
+      expect(listen.track_metadata.release_name).toBeUndefined();
+      expect(listen.track_metadata.additional_info.duration).toBeUndefined();
+    });
+
+    it('should surface the API error message and status', async () => {
+      // Arrange
+      mockClient.post.mockRejectedValue({
+        isAxiosError: true,
+        message: 'Request failed with status code 401',
+        response: { status: 401, data: { error: 'Invalid authorization' } },
+      });
+
+      // Act & Assert
+      await expect(service.submitListens([track()])).rejects.toEqual(
+        new ListenBrainzApiError('Invalid authorization', 401)
+      );
+    });
+
+    it('should fail without a token', async () => {
+      // Arrange
+      mockAuthService.getListenBrainzCredentials.mockResolvedValue({
+        enabled: true,
+      });
+
+      // Act & Assert
+      await expect(service.submitListens([track()])).rejects.toThrow(
+        'ListenBrainz token not configured'
+      );
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteListens', () => {
+    it('should look up each listen and delete it by recording MSID', async () => {
+      // Arrange
+      mockClient.get.mockResolvedValue({
+        data: {
+          payload: {
+            listens: [
+              {
+                listened_at: 1700000000,
+                recording_msid: 'msid-1',
+                track_metadata: { track_name: 'Airbag' },
+              },
+            ],
+          },
+        },
+      });
+
+      // Act
+      const result = await service.deleteListens([track()]);
+
+      // Assert
+      expect(result).toEqual({ deleted: 1, failed: 0 });
+      expect(mockClient.get).toHaveBeenCalledWith('user/listener/listens', {
+        params: { min_ts: 1699999999, max_ts: 1700000001 },
+        headers: { Authorization: 'Token lb-token' },
+      });
+      expect(mockClient.post).toHaveBeenCalledWith(
+        'delete-listen',
+        { listened_at: 1700000000, recording_msid: 'msid-1' },
+        { headers: { Authorization: 'Token lb-token' } }
+      );
+    });
+
+    it('should count listens it cannot find as failed', async () => {
+      // Arrange
+      mockClient.get.mockResolvedValue({ data: { payload: { listens: [] } } });
+
+      // Act
+      const result = await service.deleteListens([track()]);
+
+      // Assert
+      expect(result).toEqual({
+        deleted: 0,
+        failed: 1,
+        error: 'Listen not found: Radiohead - Airbag',
+      });
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should need a connected account', async () => {
+      // Arrange
+      mockAuthService.getListenBrainzCredentials.mockResolvedValue({
+        token: 'lb-token',
+        enabled: true,
+      });
+
+      // Act & Assert
+      await expect(service.deleteListens([track()])).rejects.toBeInstanceOf(
+        ListenBrainzApiError
+      );
+    });
+  });
+});
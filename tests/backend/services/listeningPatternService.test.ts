@@ -0,0 +1,581 @@
+import { DiscogsService } from '../../../src/backend/services/discogsService';
+import { DurationLookupService } from '../../../src/backend/services/durationLookupService';
+import {
+  getDayPeriod,
+  ListeningPatternService,
+} from '../../../src/backend/services/listeningPatternService';
+import { ScrobbleHistoryStorage } from '../../../src/backend/services/scrobbleHistoryStorage';
+import {
+  CollectionItem,
+  DiscogsRelease,
+  ScrobbleHistoryIndex,
+} from '../../../src/shared/types';
+
+jest.mock('../../../src/backend/services/scrobbleHistoryStorage');
+jest.mock('../../../src/backend/services/durationLookupService');
+jest.mock('../../../src/backend/services/discogsService');
+jest.mock('../../../src/backend/services/artistMappingService', () => ({
+  artistMappingService: {
+    getLastfmName: jest.fn((name: string) => name),
+  },
+}));
+
+const MockedHistoryStorage = ScrobbleHistoryStorage as jest.MockedClass<
+  typeof ScrobbleHistoryStorage
+>;
+const MockedDurationLookupService = DurationLookupService as jest.MockedClass<
+  typeof DurationLookupService
+>;
+const MockedDiscogsService = DiscogsService as jest.MockedClass<
+  typeof DiscogsService
+>;
+
+/** Unix seconds for a local date/time */
+const localSeconds = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute = 0
+): number =>
+  Math.floor(new Date(year, month - 1, day, hour, minute).getTime() / 1000);
+
+/**
+ * Build an index where each session is a list of [albumKey, trackCount]
+ * played back to back with 4-minute tracks and a 10-minute gap between albums.
+ */
+const buildIndex = (
+  sessions: Array<{ start: number; albums: Array<[string, number]> }>
+): ScrobbleHistoryIndex => {
+  const albums: ScrobbleHistoryIndex['albums'] = {};
+  let total = 0;
+  for (const session of sessions) {
+    let cursor = session.start;
+    for (const [key, trackCount] of session.albums) {
+      if (!albums[key]) {
+        albums[key] = { lastPlayed: 0, playCount: 0, plays: [] };
+      }
+      for (let i = 0; i < trackCount; i++) {
+        albums[key].plays.push({ timestamp: cursor, track: `Track ${i + 1}` });
+        albums[key].playCount++;
+        albums[key].lastPlayed = Math.max(albums[key].lastPlayed, cursor);
+        total++;
+        cursor += 240;
+      }
+      cursor += 600; // 10 min gap after the last track ends
+    }
+  }
+  return {
+    lastSyncTimestamp: 1,
+    totalScrobbles: total,
+    oldestScrobbleDate: 0,
+    albums,
+  };
+};
+
+const createCollectionItem = (id: number): CollectionItem => ({
+  id,
+  date_added: '2024-01-01T00:00:00Z',
+  release: {
+    id,
+    title: `Album ${id}`,
+    artist: 'Test Artist',
+    format: ['Vinyl'],
+    label: [],
+    resource_url: '',
+  },
+});
+
+const createRelease = (
+  id: number,
+  durations: Array<string | undefined>
+): DiscogsRelease => ({
+  id,
+  title: `Album ${id}`,
+  artist: 'Test Artist',
+  format: ['Vinyl'],
+  label: [],
+  resource_url: '',
+  tracklist: durations.map((duration, i) => ({
+    position: `A${i + 1}`,
+    title: `Song ${i + 1}`,
+    duration,
+  })),
+});
+
+describe('ListeningPatternService', () => {
+  let service: ListeningPatternService;
+  let mockHistoryStorage: jest.Mocked<ScrobbleHistoryStorage>;
+  let mockDurationLookup: jest.Mocked<DurationLookupService>;
+  let mockDiscogsService: jest.Mocked<DiscogsService>;
+
+  // Sunday 2026-03-15, 12:00 local
+  const now = new Date(2026, 2, 15, 12, 0, 0);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHistoryStorage = new MockedHistoryStorage(
+      {} as any
+    ) as jest.Mocked<ScrobbleHistoryStorage>;
+    mockDurationLookup = new MockedDurationLookupService(
+      {} as any,
+      {} as any,
+      {} as any
+    ) as jest.Mocked<DurationLookupService>;
+    mockDiscogsService = new MockedDiscogsService(
+      {} as any,
+      {} as any
+    ) as jest.Mocked<DiscogsService>;
+
+    mockHistoryStorage.getLastSyncTimestamp.mockResolvedValue(1);
+    mockHistoryStorage.getHourlyDistribution.mockResolvedValue(
+      new Map([
+        [20, 30],
+        [14, 5],
+      ])
+    );
+    mockHistoryStorage.getDayOfWeekDistribution.mockResolvedValue(
+      new Map([
+        [6, 25],
+        [2, 10],
+      ])
+    );
+    mockHistoryStorage.getIndex.mockResolvedValue(null);
+    mockDurationLookup.lookupDuration.mockResolvedValue({
+      artist: '',
+      track: '',
+      duration: null,
+      source: 'not_found',
+    });
+
+    service = new ListeningPatternService(
+      mockHistoryStorage,
+      mockDurationLookup,
+      mockDiscogsService
+    );
+  });
+
+  describe('getDayPeriod', () => {
+    it('should map hours to parts of the day', () => {
+      // Arrange / Act / Assert
+      expect(getDayPeriod(3)).toBe('night');
+      expect(getDayPeriod(9)).toBe('morning');
+      expect(getDayPeriod(15)).toBe('afternoon');
+      expect(getDayPeriod(21)).toBe('evening');
+    });
+  });
+
+  describe('calculatePatterns', () => {
+    it('should return null when there is no history index', async () => {
+      // Act
+      const patterns = await service.calculatePatterns();
+
+      // Assert
+      expect(patterns).toBeNull();
+    });
+
+    it('should learn start times, album gaps and session counts', async () => {
+      // Arrange: two Saturday evening sessions starting 19:30 and 20:30,
+      // each with two albums
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          {
+            start: localSeconds(2026, 3, 7, 19, 30),
+            albums: [
+              ['a|one', 5],
+              ['b|two', 5],
+            ],
+          },
+          {
+            start: localSeconds(2026, 3, 14, 20, 30),
+            albums: [
+              ['c|three', 5],
+              ['d|four', 5],
+            ],
+          },
+        ])
+      );
+
+      // Act
+      const patterns = await service.calculatePatterns();
+
+      // Assert
+      expect(patterns).not.toBeNull();
+      expect(patterns!.sessionCount).toBe(2);
+      expect(patterns!.averageAlbumsPerSession).toBe(2);
+      expect(patterns!.averageGapBetweenAlbums).toBe(600);
+      expect(patterns!.typicalStartTimes[6].evening).toBe(20);
+      expect(patterns!.peakHour).toBe(20);
+      expect(patterns!.peakDayOfWeek).toBe(6);
+    });
+
+    it('should fall back to the busiest hour of the period without sessions', async () => {
+      // Arrange: only a Saturday session
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          {
+            start: localSeconds(2026, 3, 7, 19, 30),
+            albums: [['a|one', 3]],
+          },
+        ])
+      );
+
+      // Act
+      const patterns = await service.calculatePatterns();
+
+      // Assert: Monday evening uses hourly peak (20), morning has no plays
+      expect(patterns!.typicalStartTimes[1].evening).toBe(20);
+      expect(patterns!.typicalStartTimes[1].afternoon).toBe(14);
+      expect(patterns!.typicalStartTimes[1].morning).toBeNull();
+    });
+  });
+
+  describe('getPatterns', () => {
+    it('should reuse cached patterns until the index is synced again', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          { start: localSeconds(2026, 3, 7, 19, 30), albums: [['a|one', 3]] },
+        ])
+      );
+
+      // Act
+      await service.getPatterns();
+      await service.getPatterns();
+      mockHistoryStorage.getLastSyncTimestamp.mockResolvedValue(2);
+      await service.getPatterns();
+
+      // Assert
+      expect(mockHistoryStorage.getIndex).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('resolveWindow', () => {
+    it('should resolve "last Saturday evening" with the learned start', () => {
+      // Arrange
+      const patterns = {
+        typicalStartTimes: Array.from({ length: 7 }, (_, day) => ({
+          dayOfWeek: day,
+          morning: null,
+          afternoon: null,
+          evening: day === 6 ? 19.5 : null,
+          night: null,
+        })),
+      } as any;
+
+      // Act
+      const window = service.resolveWindow(
+        { dayOfWeek: 6, period: 'evening' },
+        patterns,
+        now
+      );
+
+      // Assert
+      expect(window.label).toBe('Last Saturday evening');
+      expect(window.start).toBe(localSeconds(2026, 3, 14, 18));
+      expect(window.end).toBe(localSeconds(2026, 3, 15, 0));
+      expect(window.suggestedStart).toBe(localSeconds(2026, 3, 14, 19, 30));
+      expect(window.outsideLastFmWindow).toBe(false);
+    });
+
+    it('should go back a full week when today is the requested day', () => {
+      // Act: "now" is a Sunday
+      const window = service.resolveWindow(
+        { dayOfWeek: 0, period: 'afternoon' },
+        null,
+        now
+      );
+
+      // Assert
+      expect(window.start).toBe(localSeconds(2026, 3, 8, 12));
+      expect(window.suggestedStart).toBe(localSeconds(2026, 3, 8, 14));
+    });
+
+    it('should clamp the window end to now', () => {
+      // Act
+      const window = service.resolveWindow(
+        { daysAgo: 0, period: 'morning' },
+        null,
+        new Date(2026, 2, 15, 10, 0, 0)
+      );
+
+      // Assert
+      expect(window.end).toBe(localSeconds(2026, 3, 15, 10));
+    });
+
+    it('should throw for windows entirely in the future', () => {
+      // Act / Assert
+      expect(() =>
+        service.resolveWindow({ daysAgo: 0, period: 'evening' }, null, now)
+      ).toThrow('Window must start in the past');
+    });
+
+    it('should flag windows older than the Last.fm limit', () => {
+      // Act
+      const window = service.resolveWindow(
+        { date: '2026-02-01', period: 'evening' },
+        null,
+        now
+      );
+
+      // Assert
+      expect(window.outsideLastFmWindow).toBe(true);
+    });
+
+    it('should reject malformed dates', () => {
+      // Act / Assert
+      expect(() =>
+        service.resolveWindow({ date: '02/01/2026' }, null, now)
+      ).toThrow('YYYY-MM-DD');
+    });
+  });
+
+  describe('planBackfill', () => {
+    it('should lay albums back to back with the requested gap', async () => {
+      // Arrange
+      mockDiscogsService.getReleaseDetails.mockImplementation(async id =>
+        createRelease(id, ['4:00', '5:00'])
+      );
+
+      // Act
+      const plan = await service.planBackfill(
+        [createCollectionItem(1), createCollectionItem(2)],
+        { dayOfWeek: 6, period: 'evening' },
+        { gapSeconds: 300, now }
+      );
+
+      // Assert
+      const start = localSeconds(2026, 3, 14, 20);
+      expect(plan.albums).toHaveLength(2);
+      expect(plan.albums[0].tracks.map(t => t.timestamp)).toEqual([
+        start,
+        start + 241,
+      ]);
+      expect(plan.albums[1].start).toBe(start + 542 + 300);
+      expect(plan.totalDuration).toBe(542 * 2 + 300);
+      expect(plan.overflows).toBe(false);
+    });
+
+    it('should use DurationLookupService for tracks without a duration', async () => {
+      // Arrange
+      mockDiscogsService.getReleaseDetails.mockResolvedValue(
+        createRelease(1, [undefined, ''])
+      );
+      mockDurationLookup.lookupDuration
+        .mockResolvedValueOnce({
+          artist: 'Test Artist',
+          track: 'Song 1',
+          duration: 200,
+          source: 'lastfm',
+        })
+        .mockResolvedValueOnce({
+          artist: 'Test Artist',
+          track: 'Song 2',
+          duration: null,
+          source: 'not_found',
+        });
+
+      // Act
+      const plan = await service.planBackfill(
+        [createCollectionItem(1)],
+        { daysAgo: 1, period: 'evening' },
+        { now }
+      );
+
+      // Assert
+      expect(mockDurationLookup.lookupDuration).toHaveBeenCalledWith(
+        'Test Artist',
+        'Song 1',
+        'Album 1'
+      );
+      expect(plan.albums[0].tracks.map(t => t.duration)).toEqual([200, 180]);
+      expect(plan.albums[0].unknownDurations).toBe(1);
+    });
+
+    it('should pull the start earlier so the queue fits the window', async () => {
+      // Arrange: 5 x 1 hour albums in a 6 hour window starting at 20:00
+      mockDiscogsService.getReleaseDetails.mockImplementation(async id =>
+        createRelease(id, ['60:00'])
+      );
+      const items = [1, 2, 3, 4, 5].map(createCollectionItem);
+
+      // Act
+      const plan = await service.planBackfill(
+        items,
+        { dayOfWeek: 6, period: 'evening' },
+        { gapSeconds: 0, now }
+      );
+
+      // Assert
+      expect(plan.albums[0].start).toBe(
+        localSeconds(2026, 3, 15, 0) - 5 * 3601
+      );
+      expect(plan.overflows).toBe(false);
+    });
+
+    it('should report overflow and skip releases without a tracklist', async () => {
+      // Arrange
+      mockDiscogsService.getReleaseDetails.mockImplementation(async id =>
+        id === 3 ? createRelease(3, []) : createRelease(id, ['240:00'])
+      );
+
+      // Act
+      const plan = await service.planBackfill(
+        [1, 2, 3].map(createCollectionItem),
+        { dayOfWeek: 6, period: 'evening' },
+        { now }
+      );
+
+      // Assert
+      expect(plan.overflows).toBe(true);
+      expect(plan.albums[0].start).toBe(plan.window.start);
+      expect(plan.skipped).toEqual([{ releaseId: 3, reason: 'No tracklist' }]);
+    });
+  });
+
+  describe('checkConflicts', () => {
+    const T = localSeconds(2026, 3, 14, 20);
+    const later = new Date((T + 10 * 24 * 60 * 60) * 1000);
+
+    // Three back-to-back plays occupying [T, T + 540)
+    const busyIndex = (): ScrobbleHistoryIndex => ({
+      lastSyncTimestamp: 1,
+      totalScrobbles: 3,
+      oldestScrobbleDate: T,
+      albums: {
+        'radiohead|kid a': {
+          lastPlayed: T + 360,
+          playCount: 3,
+          plays: [
+            { timestamp: T, track: 'Everything In Its Right Place' },
+            { timestamp: T + 180, track: 'Kid A' },
+            { timestamp: T + 360, track: 'The National Anthem' },
+          ],
+        },
+        'old|album': {
+          lastPlayed: T - 30 * 24 * 60 * 60,
+          playCount: 1,
+          plays: [{ timestamp: T - 30 * 24 * 60 * 60 }],
+        },
+      },
+    });
+
+    const proposed = [
+      { artist: 'Air', track: 'La Femme', timestamp: T + 200, duration: 200 },
+      { artist: 'Air', track: 'Sexy Boy', timestamp: T + 400, duration: 200 },
+    ];
+
+    beforeEach(() => {
+      mockHistoryStorage.getIndex.mockResolvedValue(busyIndex());
+    });
+
+    it('should flag proposed tracks that overlap existing plays', async () => {
+      // Act
+      const report = await service.checkConflicts(proposed, { now: later });
+
+      // Assert
+      expect(report.hasConflicts).toBe(true);
+      expect(report.conflicts.map(c => c.trackIndex)).toEqual([0, 1]);
+      expect(report.conflicts[0].existing).toEqual([
+        {
+          artist: 'radiohead',
+          album: 'kid a',
+          track: 'Kid A',
+          timestamp: T + 180,
+        },
+        {
+          artist: 'radiohead',
+          album: 'kid a',
+          track: 'The National Anthem',
+          timestamp: T + 360,
+        },
+      ]);
+      expect(report.autoShift).toBeUndefined();
+    });
+
+    it('should report no conflicts when the history is empty', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(null);
+
+      // Act
+      const report = await service.checkConflicts(proposed, {
+        autoShift: true,
+        now: later,
+      });
+
+      // Assert
+      expect(report.hasConflicts).toBe(false);
+      expect(report.autoShift).toEqual({ tracks: proposed, offsetSeconds: 0 });
+    });
+
+    it('should shift the batch into the nearest free gap', async () => {
+      // Act
+      const report = await service.checkConflicts(proposed, {
+        autoShift: true,
+        now: later,
+      });
+
+      // Assert: moving after the busy block (+340s) beats moving before (-600s)
+      expect(report.autoShift!.offsetSeconds).toBe(340);
+      expect(report.autoShift!.tracks.map(t => t.timestamp)).toEqual([
+        T + 540,
+        T + 740,
+      ]);
+    });
+
+    it('should never shift tracks into the future', async () => {
+      // Act: "now" is just after the busy block, too soon to fit the batch
+      const report = await service.checkConflicts(proposed, {
+        autoShift: true,
+        now: new Date((T + 700) * 1000),
+      });
+
+      // Assert
+      expect(report.autoShift!.offsetSeconds).toBe(-600);
+    });
+
+    it('should return null when no free gap exists', async () => {
+      // Arrange: continuous plays for a day before the proposal
+      const plays = [];
+      for (let ts = T - 24 * 60 * 60 - 720; ts <= T + 360; ts += 180) {
+        plays.push({ timestamp: ts });
+      }
+      mockHistoryStorage.getIndex.mockResolvedValue({
+        ...busyIndex(),
+        albums: {
+          'radio|stream': { lastPlayed: T + 360, playCount: 0, plays },
+        },
+      });
+
+      // Act
+      const report = await service.checkConflicts(proposed, {
+        autoShift: true,
+        now: new Date((T + 700) * 1000),
+      });
+
+      // Assert
+      expect(report.hasConflicts).toBe(true);
+      expect(report.autoShift).toBeNull();
+    });
+  });
+
+  describe('getPresets', () => {
+    it('should omit presets that are still in the future', async () => {
+      // Arrange: Sunday morning -- today's afternoon hasn't started yet
+      const morning = new Date(2026, 2, 15, 11, 0, 0);
+
+      // Act
+      const presets = await service.getPresets(morning);
+
+      // Assert
+      expect(presets.map(p => p.id)).toEqual([
+        'yesterday-evening',
+        'yesterday-afternoon',
+        'last-saturday-evening',
+        'last-sunday-afternoon',
+      ]);
+      expect(presets[0].window.label).toBe('Yesterday evening');
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+
+import axios from 'axios';
+
+import { AuthService } from '../../../src/backend/services/authService';
+import {
+  isQuietTime,
+  NotificationChannelService,
+  routeMatches,
+  SECRET_PLACEHOLDER,
+} from '../../../src/backend/services/notificationChannelService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { sendMail } from '../../../src/backend/utils/smtpClient';
+import {
+  AppNotification,
+  NotificationChannelInput,
+  NotificationChannelsStore,
+} from '../../../src/shared/types';
+import { mockJSONFiles } from '../../fixtures/fileStorageFixtures';
+
+jest.mock('axios');
+jest.mock('../../../src/backend/utils/fileStorage');
+jest.mock('../../../src/backend/utils/smtpClient');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockedSendMail = sendMail as jest.MockedFunction<typeof sendMail>;
+
+const CHANNELS_FILE = 'notifications/channels.json';
+
+const sellerMatch: AppNotification = {
+  id: 'n1',
+  type: 'success',
+  title: 'Wishlist item at local seller!',
+  message: 'Radiohead - OK Computer at Vinyl Shop for $25.00',
+  timestamp: 1710000000000,
+  read: false,
+  rule: 'seller-match',
+};
+
+const webhookInput: NotificationChannelInput = {
+  name: 'Home Assistant',
+  enabled: true,
+  routes: [{ category: 'seller-match', maxPrice: 30 }],
+  type: 'webhook',
+  config: { url: 'https://hooks.example.com/in', secret: 'shh' },
+};
+
+describe('routeMatches', () => {
+  it('should route by the rule that raised the notification', () => {
+    expect(routeMatches([{ category: 'seller-match' }], sellerMatch, {})).toBe(
+      true
+    );
+    expect(routeMatches([{ category: 'label-release' }], sellerMatch, {})).toBe(
+      false
+    );
+  });
+
+  it('should treat notifications without a rule as general', () => {
+    const { rule: _rule, ...general } = sellerMatch;
+
+    expect(routeMatches([{ category: 'general' }], general, {})).toBe(true);
+  });
+
+  it('should apply the price ceiling to seller matches', () => {
+    const routes = [{ category: 'seller-match' as const, maxPrice: 30 }];
+
+    expect(routeMatches(routes, sellerMatch, { price: 25 })).toBe(true);
+    expect(routeMatches(routes, sellerMatch, { price: 35 })).toBe(false);
+    expect(routeMatches(routes, sellerMatch, {})).toBe(false);
+  });
+
+  it('should only send releases from the chosen labels', () => {
+    const release = { ...sellerMatch, rule: 'label-release' as const };
+    const routes = [{ category: 'label-release' as const, labelIds: ['warp'] }];
+
+    expect(routeMatches(routes, release, { labelIds: ['warp', 'xl'] })).toBe(
+      true
+    );
+    expect(routeMatches(routes, release, { labelIds: ['xl'] })).toBe(false);
+  });
+});
+
+describe('isQuietTime', () => {
+  const at = (hours: number, minutes = 0) =>
+    new Date(2024, 2, 10, hours, minutes);
+
+  it('should handle ranges within a day', () => {
+    const quietHours = { start: '09:00', end: '17:30' };
+
+    expect(isQuietTime(quietHours, at(12))).toBe(true);
+    expect(isQuietTime(quietHours, at(17, 30))).toBe(false);
+    expect(isQuietTime(quietHours, at(8, 59))).toBe(false);
+  });
+
+  it('should handle ranges that span midnight', () => {
+    const quietHours = { start: '22:00', end: '07:00' };
+
+    expect(isQuietTime(quietHours, at(23))).toBe(true);
+    expect(isQuietTime(quietHours, at(3))).toBe(true);
+    expect(isQuietTime(quietHours, at(12))).toBe(false);
+  });
+
+  it('should never be quiet without quiet hours', () => {
+    expect(isQuietTime(undefined, at(3))).toBe(false);
+  });
+});
+
+describe('NotificationChannelService', () => {
+  let service: NotificationChannelService;
+  let mockFileStorage: jest.Mocked<FileStorage>;
+  let authService: AuthService;
+  let mockAxiosInstance: { post: jest.Mock };
+  let files: Record<string, unknown>;
+
+  const storedChannels = () =>
+    (files[CHANNELS_FILE] as NotificationChannelsStore).channels;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFileStorage = new FileStorage('test') as jest.Mocked<FileStorage>;
+    files = mockJSONFiles(mockFileStorage);
+
+    mockAxiosInstance = { post: jest.fn().mockResolvedValue({ data: {} }) };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+
+    authService = new AuthService(mockFileStorage);
+    service = new NotificationChannelService(mockFileStorage, authService);
+  });
+
+  describe('secrets', () => {
+    it('should encrypt secrets at rest and redact them in responses', async () => {
+      // Act
+      const channel = await service.createChannel(webhookInput);
+
+      // Assert
+      expect(channel.config).toEqual({
+        url: 'https://hooks.example.com/in',
+        secret: SECRET_PLACEHOLDER,
+      });
+      const stored = storedChannels()[0];
+      expect(stored.type === 'webhook' && stored.config.secret).not.toBe('shh');
+      expect(
+        stored.type === 'webhook' &&
+          authService.decryptSecret(stored.config.secret!)
+      ).toBe('shh');
+    });
+
+    it('should keep the stored secret when the placeholder is sent back', async () => {
+      // Arrange
+      const channel = await service.createChannel(webhookInput);
+      const before = storedChannels()[0];
+
+      // Act
+      await service.updateChannel(channel.id, {
+        ...webhookInput,
+        name: 'Renamed',
+        config: { url: webhookInput.config.url, secret: SECRET_PLACEHOLDER },
+      } as NotificationChannelInput);
+
+      // Assert
+      const after = storedChannels()[0];
+      expect(after.name).toBe('Renamed');
+      expect(after.config).toEqual(before.config);
+    });
+  });
+
+  describe('dispatch', () => {
+    it('should deliver matching notifications to a signed webhook', async () => {
+      // Arrange
+      await service.createChannel(webhookInput);
+
+      // Act
+      await service.dispatch(sellerMatch, { price: 25, currency: 'USD' });
+
+      // Assert
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+      const [url, body, options] = mockAxiosInstance.post.mock.calls[0];
+      expect(url).toBe('https://hooks.example.com/in');
+      expect(JSON.parse(body)).toEqual({
+        event: 'notification',
+        notification: sellerMatch,
+      });
+      const signature = crypto
+        .createHmac('sha256', 'shh')
+        .update(body)
+        .digest('hex');
+      expect(options.headers['X-Signature-256']).toBe(`sha256=${signature}`);
+      expect(storedChannels()[0].lastDeliveredAt).toEqual(expect.any(Number));
+    });
+
+    it('should skip channels whose routes reject the notification', async () => {
+      // Arrange
+      await service.createChannel(webhookInput);
+
+      // Act
+      await service.dispatch(sellerMatch, { price: 99 });
+
+      // Assert
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+
+    it('should skip disabled channels', async () => {
+      // Arrange
+      await service.createChannel({ ...webhookInput, enabled: false });
+
+      // Act
+      await service.dispatch(sellerMatch, { price: 25 });
+
+      // Assert
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+
+    it('should publish to ntfy with the topic and bearer token', async () => {
+      // Arrange
+      await service.createChannel({
+        name: 'Phone',
+        enabled: true,
+        routes: [{ category: 'seller-match' }],
+        type: 'push',
+        config: {
+          server: 'ntfy',
+          url: 'https://ntfy.sh/',
+          topic: 'records',
+          token: 'tk_123',
+        },
+      });
+
+      // Act
+      await service.dispatch(sellerMatch, {});
+
+      // Assert
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        'https://ntfy.sh',
+        {
+          topic: 'records',
+          title: sellerMatch.title,
+          message: sellerMatch.message,
+          priority: 3,
+        },
+        { headers: { Authorization: 'Bearer tk_123' } }
+      );
+    });
+
+    it('should send email with the decrypted password', async () => {
+      // Arrange
+      mockedSendMail.mockResolvedValue(undefined);
+      await service.createChannel({
+        name: 'Inbox',
+        enabled: true,
+        routes: [{ category: 'seller-match' }],
+        type: 'email',
+        config: {
+          host: 'smtp.example.com',
+          port: 587,
+          secure: false,
+          username: 'me',
+          password: 'hunter2',
+          from: 'Records <records@example.com>',
+          to: ['me@example.com'],
+        },
+      });
+
+      // Act
+      await service.dispatch(sellerMatch, {});
+
+      // Assert
+      expect(mockedSendMail).toHaveBeenCalledWith(
+        {
+          host: 'smtp.example.com',
+          port: 587,
+          secure: false,
+          username: 'me',
+          password: 'hunter2',
+        },
+        {
+          from: 'Records <records@example.com>',
+          to: ['me@example.com'],
+          subject: sellerMatch.title,
+          text: sellerMatch.message,
+        }
+      );
+    });
+  });
+
+  describe('sendTest', () => {
+    it('should ignore routes and record a failed delivery', async () => {
+      // Arrange
+      const channel = await service.createChannel({
+        ...webhookInput,
+        routes: [{ category: 'backup-failure' }],
+      });
+      mockAxiosInstance.post.mockRejectedValue(
+        new Error('connect ECONNREFUSED')
+      );
+
+      // Act & Assert
+      await expect(service.sendTest(channel.id)).rejects.toThrow(
+        'connect ECONNREFUSED'
+      );
+      expect(storedChannels()[0].lastError).toBe('connect ECONNREFUSED');
+    });
+
+    it('should return false for an unknown channel', async () => {
+      expect(await service.sendTest('missing')).toBe(false);
+    });
+  });
+});
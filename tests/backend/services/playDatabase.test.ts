@@ -0,0 +1,389 @@
+import fs from 'fs/promises';
+
+import {
+  PLAYS_DB_FILE,
+  PlayDatabase,
+} from '../../../src/backend/services/playDatabase';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { ScrobbleHistoryIndex } from '../../../src/shared/types';
+
+// Local-time timestamp in seconds
+const at = (year: number, month: number, day: number, hour = 12): number =>
+  Math.floor(new Date(year, month - 1, day, hour).getTime() / 1000);
+
+describe('PlayDatabase', () => {
+  let fileStorage: FileStorage;
+  let db: PlayDatabase;
+  const testDataDir = './test-data-play-database';
+
+  const createIndex = (): ScrobbleHistoryIndex => ({
+    lastSyncTimestamp: 1700000000000,
+    totalScrobbles: 5,
+    oldestScrobbleDate: at(2023, 3, 14),
+    albums: {
+      'radiohead|kid a': {
+        lastPlayed: at(2024, 3, 14),
+        playCount: 3,
+        plays: [
+          { timestamp: at(2023, 3, 14), track: 'Idioteque', source: 'app' },
+          { timestamp: at(2024, 3, 14), track: 'idioteque' },
+          { timestamp: at(2024, 3, 14, 13), track: 'Kid A' },
+        ],
+      },
+      'bjork|homogenic': {
+        lastPlayed: at(2024, 3, 15),
+        playCount: 2,
+        plays: [
+          { timestamp: at(2024, 3, 14, 20), track: 'Joga' },
+          { timestamp: at(2024, 3, 15) },
+        ],
+      },
+    },
+  });
+
+  beforeEach(async () => {
+    fileStorage = new FileStorage(testDataDir);
+    await fileStorage.ensureDataDir();
+    db = new PlayDatabase(fileStorage);
+  });
+
+  afterEach(async () => {
+    db.close();
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch {
+      // Ignore
+    }
+  });
+
+  describe('index round-trip', () => {
+    it('should report no index before one is written', () => {
+      // Act & Assert
+      expect(db.hasIndex()).toBe(false);
+      expect(db.readIndex()).toBeNull();
+    });
+
+    it('should read back the index it wrote', () => {
+      // Arrange
+      const index = createIndex();
+
+      // Act
+      db.writeIndex(index);
+
+      // Assert
+      expect(db.hasIndex()).toBe(true);
+      expect(db.readIndex()).toEqual(index);
+    });
+
+    it('should persist the index in the data directory', async () => {
+      // Arrange
+      db.writeIndex(createIndex());
+      db.close();
+
+      // Act
+      const reopened = new PlayDatabase(fileStorage);
+
+      // Assert
+      expect(await fileStorage.exists(PLAYS_DB_FILE)).toBe(true);
+      expect(reopened.readIndex()?.totalScrobbles).toBe(5);
+      reopened.close();
+    });
+
+    it('should replace the previous index on write', () => {
+      // Arrange
+      db.writeIndex(createIndex());
+
+      // Act
+      db.writeIndex({
+        ...createIndex(),
+        albums: { 'bjork|post': { lastPlayed: 1, playCount: 1, plays: [] } },
+      });
+
+      // Assert
+      expect(Object.keys(db.readIndex()!.albums)).toEqual(['bjork|post']);
+    });
+
+    it('should append plays without rewriting the stored ones', () => {
+      // Arrange
+      db.writeIndex(createIndex());
+      const index = createIndex();
+      const newPlays = [
+        { albumKey: 'radiohead|kid a', play: { timestamp: at(2024, 4, 1) } },
+        {
+          albumKey: 'air|moon safari',
+          play: { timestamp: at(2024, 4, 2), track: 'La Femme' },
+        },
+      ];
+      index.albums['radiohead|kid a'].plays.push(newPlays[0].play);
+      index.albums['radiohead|kid a'].playCount = 4;
+      index.albums['radiohead|kid a'].lastPlayed = at(2024, 4, 1);
+      index.albums['air|moon safari'] = {
+        lastPlayed: at(2024, 4, 2),
+        playCount: 1,
+        plays: [newPlays[1].play],
+      };
+      index.totalScrobbles = 7;
+
+      // Act
+      db.appendPlays(index, newPlays);
+
+      // Assert
+      expect(db.readIndex()).toEqual(index);
+    });
+
+    it('should read one album without the rest of the index', () => {
+      // Arrange
+      const index = createIndex();
+      db.writeIndex(index);
+
+      // Act & Assert
+      expect(db.readAlbum('radiohead|kid a')).toEqual(
+        index.albums['radiohead|kid a']
+      );
+      expect(db.readAlbum('radiohead|amnesiac')).toBeNull();
+    });
+
+    it('should read the index fields without the albums', () => {
+      // Arrange
+      const { albums: _albums, ...meta } = createIndex();
+      db.writeIndex(createIndex());
+
+      // Act & Assert
+      expect(db.readMeta()).toEqual(meta);
+    });
+
+    it('should remove the index on clear', () => {
+      // Arrange
+      db.writeIndex(createIndex());
+
+      // Act
+      db.clear();
+
+      // Assert
+      expect(db.hasIndex()).toBe(false);
+    });
+  });
+
+  describe('aggregates', () => {
+    beforeEach(() => {
+      db.writeIndex(createIndex());
+    });
+
+    it('should total plays and albums per artist', () => {
+      // Act
+      const rows = db.getArtistTotals();
+
+      // Assert
+      expect(rows).toEqual(
+        expect.arrayContaining([
+          {
+            artist: 'radiohead',
+            playCount: 3,
+            albumCount: 1,
+            lastPlayed: at(2024, 3, 14),
+          },
+          {
+            artist: 'bjork',
+            playCount: 2,
+            albumCount: 1,
+            lastPlayed: at(2024, 3, 15),
+          },
+        ])
+      );
+      expect(rows).toHaveLength(2);
+    });
+
+    it('should count albums and find the latest play', () => {
+      // Act & Assert
+      expect(db.getAlbumSummary()).toEqual({
+        albumCount: 2,
+        lastPlayed: at(2024, 3, 15),
+      });
+    });
+
+    it('should count plays per local hour, weekday and year', () => {
+      // Act
+      const hours = db.getLocalTimePlayCounts('hour');
+      const weekdays = db.getLocalTimePlayCounts('weekday');
+      const years = db.getLocalTimePlayCounts('year');
+
+      // Assert
+      expect(hours).toEqual(
+        expect.arrayContaining([
+          { value: 12, count: 3 },
+          { value: 13, count: 1 },
+          { value: 20, count: 1 },
+        ])
+      );
+      expect(hours).toHaveLength(3);
+      // 2023-03-14 was a Tuesday, 2024-03-14 a Thursday
+      expect(weekdays).toEqual(
+        expect.arrayContaining([
+          { value: 2, count: 1 },
+          { value: 4, count: 3 },
+          { value: 5, count: 1 },
+        ])
+      );
+      expect(years).toEqual(
+        expect.arrayContaining([
+          { value: 2023, count: 1 },
+          { value: 2024, count: 4 },
+        ])
+      );
+    });
+
+    it('should count plays per artist within the period', () => {
+      // Act
+      const rows = db.getArtistPlayCounts(at(2024, 1, 1), at(2024, 12, 31));
+
+      // Assert
+      expect(rows).toEqual(
+        expect.arrayContaining([
+          { artist: 'radiohead', playCount: 2 },
+          { artist: 'bjork', playCount: 2 },
+        ])
+      );
+      expect(rows).toHaveLength(2);
+    });
+
+    it('should count plays per album with the last play', () => {
+      // Act
+      const rows = db.getAlbumPlayCounts(0, at(2030, 1, 1));
+
+      // Assert
+      expect(rows).toContainEqual({
+        artist: 'radiohead',
+        album: 'kid a',
+        playCount: 3,
+        lastPlayed: at(2024, 3, 14, 13),
+      });
+    });
+
+    it('should count plays per track spelling, skipping untitled plays', () => {
+      // Act
+      const rows = db.getTrackPlayCounts(0, at(2030, 1, 1));
+
+      // Assert
+      expect(rows.map(r => r.track).sort()).toEqual([
+        'Idioteque',
+        'Joga',
+        'Kid A',
+        'idioteque',
+      ]);
+    });
+
+    it('should bucket plays by local day', () => {
+      // Act
+      const rows = db.getDailyPlayCounts(at(2024, 1, 1, 0), at(2025, 1, 1, 0));
+
+      // Assert
+      expect(rows).toEqual([
+        { date: '2024-03-14', count: 3 },
+        { date: '2024-03-15', count: 1 },
+      ]);
+    });
+
+    it('should group plays on a calendar day by year and album', () => {
+      // Act
+      const rows = db.getOnThisDayPlayCounts(3, 14);
+
+      // Assert
+      expect(rows).toEqual(
+        expect.arrayContaining([
+          { year: 2023, artist: 'radiohead', album: 'kid a', playCount: 1 },
+          { year: 2024, artist: 'radiohead', album: 'kid a', playCount: 2 },
+          { year: 2024, artist: 'bjork', album: 'homogenic', playCount: 1 },
+        ])
+      );
+      expect(rows).toHaveLength(3);
+    });
+  });
+
+  describe('getTrackPage', () => {
+    beforeEach(() => {
+      db.writeIndex(createIndex());
+    });
+
+    it('should merge track names case-insensitively and sort', () => {
+      // Act
+      const { items, total } = db.getTrackPage({
+        page: 1,
+        perPage: 10,
+        sortBy: 'playCount',
+        sortOrder: 'desc',
+      });
+
+      // Assert
+      expect(total).toBe(3);
+      expect(items[0]).toMatchObject({
+        artist: 'radiohead',
+        album: 'kid a',
+        playCount: 2,
+      });
+    });
+
+    it('should page and filter by search query', () => {
+      // Act
+      const { items, total } = db.getTrackPage({
+        page: 2,
+        perPage: 1,
+        sortBy: 'track',
+        sortOrder: 'asc',
+        searchQuery: 'RADIOHEAD',
+      });
+
+      // Assert
+      expect(total).toBe(2);
+      expect(items).toHaveLength(1);
+      expect(items[0].track).toBe('Kid A');
+    });
+  });
+
+  describe('getAlbumPage', () => {
+    beforeEach(() => {
+      db.writeIndex(createIndex());
+    });
+
+    it('should sort albums by their totals', () => {
+      // Act
+      const { items, total } = db.getAlbumPage({
+        page: 1,
+        perPage: 10,
+        sortBy: 'playCount',
+        sortOrder: 'desc',
+      });
+
+      // Assert
+      expect(total).toBe(2);
+      expect(items).toEqual([
+        {
+          artist: 'radiohead',
+          album: 'kid a',
+          playCount: 3,
+          lastPlayed: at(2024, 3, 14),
+        },
+        {
+          artist: 'bjork',
+          album: 'homogenic',
+          playCount: 2,
+          lastPlayed: at(2024, 3, 15),
+        },
+      ]);
+    });
+
+    it('should page and filter by search query', () => {
+      // Act
+      const { items, total } = db.getAlbumPage({
+        page: 1,
+        perPage: 1,
+        sortBy: 'album',
+        sortOrder: 'asc',
+        searchQuery: 'HOMO',
+      });
+
+      // Assert
+      expect(total).toBe(1);
+      expect(items.map(item => item.album)).toEqual(['homogenic']);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+import {
+  DEFAULT_PROFILE_ID,
+  ProfileError,
+  ProfileService,
+} from '../../../src/backend/services/profileService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+
+describe('ProfileService', () => {
+  let service: ProfileService;
+  let fileStorage: FileStorage;
+  const testDataDir = './test-data-profile-service';
+
+  beforeEach(async () => {
+    fileStorage = new FileStorage(testDataDir);
+    await fileStorage.ensureDataDir();
+    service = new ProfileService(fileStorage);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch {
+      // Ignore
+    }
+  });
+
+  describe('getProfiles', () => {
+    it('should start with only the default profile', async () => {
+      // Act
+      const profiles = await service.getProfiles();
+
+      // Assert
+      expect(profiles).toHaveLength(1);
+      expect(profiles[0]).toMatchObject({
+        id: DEFAULT_PROFILE_ID,
+        name: 'Default',
+      });
+    });
+  });
+
+  describe('getProfileStorage', () => {
+    it('should keep the default profile in the top-level directory', () => {
+      // Act & Assert
+      expect(service.getProfileStorage(DEFAULT_PROFILE_ID)).toBe(fileStorage);
+    });
+
+    it('should give other profiles their own directory', () => {
+      // Act
+      const storage = service.getProfileStorage('sam');
+
+      // Assert
+      expect(storage.getDataDir()).toBe(
+        path.resolve(testDataDir, 'profiles', 'sam')
+      );
+    });
+  });
+
+  describe('createProfile', () => {
+    it('should derive an id from the name and create its directory', async () => {
+      // Act
+      const profile = await service.createProfile("  Sam's Records ");
+
+      // Assert
+      expect(profile.id).toBe('sam-s-records');
+      expect(profile.name).toBe("Sam's Records");
+      await expect(
+        fs.access(path.join(testDataDir, 'profiles', profile.id, 'settings'))
+      ).resolves.toBeUndefined();
+    });
+
+    it('should persist profiles across instances', async () => {
+      // Arrange
+      await service.createProfile('Sam');
+
+      // Act
+      const profiles = await new ProfileService(fileStorage).getProfiles();
+
+      // Assert
+      expect(profiles.map(p => p.id)).toEqual([DEFAULT_PROFILE_ID, 'sam']);
+    });
+
+    it('should not reuse the default id', async () => {
+      // Act
+      const profile = await service.createProfile('default!');
+
+      // Assert
+      expect(profile.id).toBe('default-2');
+    });
+
+    it('should reject a name that is already taken', async () => {
+      // Arrange
+      await service.createProfile('Sam');
+
+      // Act & Assert
+      await expect(service.createProfile('SAM')).rejects.toMatchObject({
+        status: 409,
+      });
+    });
+
+    it('should reject an empty name', async () => {
+      // Act & Assert
+      await expect(service.createProfile('   ')).rejects.toBeInstanceOf(
+        ProfileError
+      );
+    });
+  });
+
+  describe('renameProfile', () => {
+    it('should rename without changing the id', async () => {
+      // Arrange
+      await service.createProfile('Sam');
+
+      // Act
+      const renamed = await service.renameProfile('sam', 'Samantha');
+
+      // Assert
+      expect(renamed).toMatchObject({ id: 'sam', name: 'Samantha' });
+    });
+
+    it('should return 404 for an unknown profile', async () => {
+      // Act & Assert
+      await expect(
+        service.renameProfile('nobody', 'Someone')
+      ).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('deleteProfile', () => {
+    it('should remove the profile and its data', async () => {
+      // Arrange
+      await service.createProfile('Sam');
+      await service
+        .getProfileStorage('sam')
+        .writeJSON('settings/user-settings.json', { owner: 'sam' });
+
+      // Act
+      await service.deleteProfile('sam');
+
+      // Assert
+      expect(await service.getProfile('sam')).toBeNull();
+      await expect(
+        fs.access(path.join(testDataDir, 'profiles', 'sam'))
+      ).rejects.toThrow();
+    });
+
+    it('should stop the profile before removing its data', async () => {
+      // Arrange
+      await service.createProfile('Sam');
+      const profileDir = path.join(testDataDir, 'profiles', 'sam');
+      let dataPresentWhenStopped = false;
+      const stopProfile = jest.fn(async () => {
+        dataPresentWhenStopped = await fs
+          .access(profileDir)
+          .then(() => true)
+          .catch(() => false);
+      });
+
+      // Act
+      await service.deleteProfile('sam', stopProfile);
+
+      // Assert
+      expect(stopProfile).toHaveBeenCalledWith('sam');
+      expect(dataPresentWhenStopped).toBe(true);
+    });
+
+    it('should refuse to delete the default profile', async () => {
+      // Arrange
+      const stopProfile = jest.fn();
+
+      // Act & Assert
+      await expect(
+        service.deleteProfile(DEFAULT_PROFILE_ID, stopProfile)
+      ).rejects.toMatchObject({ status: 400 });
+      expect(stopProfile).not.toHaveBeenCalled();
+    });
+  });
+});
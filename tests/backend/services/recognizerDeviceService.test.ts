@@ -0,0 +1,154 @@
+import {
+  RecognizerDeviceError,
+  RecognizerDeviceService,
+} from '../../../src/backend/services/recognizerDeviceService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import {
+  RecognizerDeviceStore,
+  RecognizerEventResult,
+} from '../../../src/shared/types';
+import { mockJSONFiles } from '../../fixtures/fileStorageFixtures';
+
+jest.mock('../../../src/backend/utils/fileStorage');
+
+const MockedFileStorage = FileStorage as jest.MockedClass<typeof FileStorage>;
+
+const NOW = new Date('2024-03-10T12:00:00Z').getTime();
+
+describe('RecognizerDeviceService', () => {
+  let service: RecognizerDeviceService;
+  let mockFileStorage: jest.Mocked<FileStorage>;
+  let files: Record<string, unknown>;
+
+  const storedDevices = () =>
+    files['settings/recognizer-devices.json'] as RecognizerDeviceStore;
+
+  const result = (scrobbled: number, rejected: number) =>
+    ({
+      session: null,
+      scrobbled: new Array(scrobbled).fill({}),
+      rejected: new Array(rejected).fill({}),
+    }) as RecognizerEventResult;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+
+    mockFileStorage = new MockedFileStorage('test') as jest.Mocked<FileStorage>;
+    files = mockJSONFiles(mockFileStorage);
+
+    service = new RecognizerDeviceService(mockFileStorage);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should register a device and only store a hash of its key', async () => {
+    // Act
+    const { device, apiKey } = await service.registerDevice('  Turntable Pi ');
+
+    // Assert
+    expect(apiKey).toMatch(/^rsk_[0-9a-f]{48}$/);
+    expect(device).toEqual({
+      id: expect.any(String),
+      name: 'Turntable Pi',
+      keyPreview: apiKey.slice(0, 10),
+      createdAt: NOW,
+      lastSeenAt: undefined,
+      paused: false,
+      scrobbled: 0,
+      rejected: 0,
+      averageConfidence: null,
+    });
+    expect(JSON.stringify(storedDevices())).not.toContain(apiKey);
+  });
+
+  it('should refuse an empty name', async () => {
+    // Act & Assert
+    await expect(service.registerDevice('   ')).rejects.toThrow(
+      RecognizerDeviceError
+    );
+  });
+
+  it('should authenticate a device by its key', async () => {
+    // Arrange
+    const { device, apiKey } = await service.registerDevice('Turntable Pi');
+    await service.registerDevice('Kitchen Pi');
+
+    // Act & Assert
+    expect((await service.authenticate(apiKey))?.id).toBe(device.id);
+    expect(await service.authenticate(`${apiKey.slice(0, -1)}0`)).toBeNull();
+    expect(await service.authenticate('not-a-key')).toBeNull();
+    expect(await service.authenticate(undefined)).toBeNull();
+  });
+
+  it('should stop accepting the key of a revoked device', async () => {
+    // Arrange
+    const { device, apiKey } = await service.registerDevice('Turntable Pi');
+
+    // Act
+    await service.revokeDevice(device.id);
+
+    // Assert
+    expect(await service.authenticate(apiKey)).toBeNull();
+    expect(storedDevices().devices).toEqual([]);
+  });
+
+  it('should report unknown devices as not found', async () => {
+    // Act & Assert
+    await expect(service.setPaused('missing', true)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it('should pause and resume a device', async () => {
+    // Arrange
+    const { device, apiKey } = await service.registerDevice('Turntable Pi');
+
+    // Act
+    const paused = await service.setPaused(device.id, true);
+
+    // Assert
+    expect(paused.paused).toBe(true);
+    expect((await service.authenticate(apiKey))?.paused).toBe(true);
+    expect(storedDevices().devices[0].paused).toBe(true);
+  });
+
+  it('should keep per-device stats', async () => {
+    // Arrange
+    const { device } = await service.registerDevice('Turntable Pi');
+
+    // Act
+    await service.recordEvent(
+      device.id,
+      {
+        event: 'track-start',
+        source: device.id,
+        timestamp: 1,
+        confidence: 0.9,
+      },
+      result(0, 1)
+    );
+    await service.recordEvent(
+      device.id,
+      { event: 'confidence', source: device.id, timestamp: 2, confidence: 0.6 },
+      result(1, 0)
+    );
+    await service.recordEvent(
+      device.id,
+      { event: 'needle-lift', source: device.id, timestamp: 3 },
+      result(2, 0)
+    );
+
+    // Assert
+    expect(await service.getDevices()).toEqual([
+      expect.objectContaining({
+        scrobbled: 3,
+        rejected: 1,
+        averageConfidence: 0.75,
+        lastSeenAt: NOW,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,430 @@
+import fs from 'fs/promises';
+
+import { AuthService } from '../../../src/backend/services/authService';
+import { DiscogsService } from '../../../src/backend/services/discogsService';
+import { DurationLookupService } from '../../../src/backend/services/durationLookupService';
+import { LastFmService } from '../../../src/backend/services/lastfmService';
+import {
+  passesScrobbleThreshold,
+  RecognizerSessionService,
+} from '../../../src/backend/services/recognizerSessionService';
+import { SideMemoryService } from '../../../src/backend/services/sideMemoryService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import {
+  CollectionItem,
+  DiscogsRelease,
+  RecognizerEvent,
+  ScrobbleTrack,
+} from '../../../src/shared/types';
+
+jest.mock('../../../src/backend/services/artistMappingService', () => ({
+  artistMappingService: {
+    getLastfmName: jest.fn((name: string) => name),
+  },
+}));
+
+const T0 = 1700000000;
+
+describe('passesScrobbleThreshold', () => {
+  it('should require half the track or four minutes', () => {
+    expect(passesScrobbleThreshold(200, 99, false)).toBe(false);
+    expect(passesScrobbleThreshold(200, 100, false)).toBe(true);
+    expect(passesScrobbleThreshold(900, 240, false)).toBe(true);
+  });
+
+  it('should never pass tracks of 30 seconds or less', () => {
+    expect(passesScrobbleThreshold(30, 30, true)).toBe(false);
+  });
+
+  it('should wait for four minutes without a duration unless the track ended', () => {
+    expect(passesScrobbleThreshold(undefined, 60, false)).toBe(false);
+    expect(passesScrobbleThreshold(undefined, 240, false)).toBe(true);
+    expect(passesScrobbleThreshold(undefined, 31, true)).toBe(true);
+    expect(passesScrobbleThreshold(undefined, 29, true)).toBe(false);
+  });
+});
+
+describe('RecognizerSessionService', () => {
+  let fileStorage: FileStorage;
+  let authService: jest.Mocked<AuthService>;
+  let discogsService: jest.Mocked<DiscogsService>;
+  let lastfmService: jest.Mocked<LastFmService>;
+  let durationLookupService: jest.Mocked<DurationLookupService>;
+  let sideMemoryService: jest.Mocked<SideMemoryService>;
+  let service: RecognizerSessionService;
+  const testDataDir = './test-data-recognizer';
+
+  const releases: Record<number, DiscogsRelease> = {
+    100: {
+      id: 100,
+      title: 'Album',
+      artist: 'Artist',
+      format: ['Vinyl'],
+      label: ['Label'],
+      resource_url: 'https://api.discogs.com/releases/100',
+      tracklist: [
+        { position: 'A1', title: 'Opener', duration: '4:00' },
+        { position: 'A2', title: 'Second', duration: '3:00' },
+        { position: 'A3', title: 'Third', duration: '3:00' },
+        { position: 'B1', title: 'Flip', duration: '5:00' },
+      ],
+    },
+    200: {
+      id: 200,
+      title: 'Live',
+      artist: 'Artist',
+      format: ['Vinyl'],
+      label: ['Label'],
+      resource_url: 'https://api.discogs.com/releases/200',
+      tracklist: [{ position: 'A1', title: 'Opener', duration: '6:00' }],
+    },
+  };
+
+  const createItem = (id: number, release: DiscogsRelease): CollectionItem => ({
+    id,
+    folder_id: 1,
+    date_added: '2024-01-15T10:00:00-08:00',
+    release: { ...release, tracklist: undefined },
+  });
+
+  const event = (
+    type: RecognizerEvent['event'],
+    offset: number,
+    fields: Partial<RecognizerEvent> = {}
+  ): RecognizerEvent => ({
+    event: type,
+    source: 'vinyl-pi',
+    timestamp: T0 + offset,
+    ...fields,
+  });
+
+  const trackStart = (
+    title: string,
+    offset: number,
+    fields: Partial<RecognizerEvent> = {}
+  ) => event('track-start', offset, { artist: 'Artist', title, ...fields });
+
+  const scrobbledTracks = (): ScrobbleTrack[] =>
+    lastfmService.scrobbleBatch.mock.calls.flatMap(call => call[0]);
+
+  beforeEach(async () => {
+    fileStorage = new FileStorage(testDataDir);
+    await fileStorage.ensureDataDir();
+    await fileStorage.writeJSON('collections/collector-page-1.json', {
+      success: true,
+      data: [createItem(1, releases[100]), createItem(2, releases[200])],
+      timestamp: Date.now(),
+    });
+
+    authService = {
+      getUserSettings: jest
+        .fn()
+        .mockResolvedValue({ discogs: { username: 'collector' } }),
+    } as unknown as jest.Mocked<AuthService>;
+    discogsService = {
+      getReleaseDetails: jest.fn(async (id: number) => releases[id] ?? null),
+    } as unknown as jest.Mocked<DiscogsService>;
+    lastfmService = {
+      scrobbleBatch: jest.fn(async (tracks: ScrobbleTrack[]) => {
+        tracks.forEach(track => {
+          track.scrobbleStatus = 'success';
+        });
+        return {
+          success: tracks.length,
+          failed: 0,
+          ignored: 0,
+          queued: 0,
+          errors: [],
+          failedTracks: [],
+          sessionId: 'session',
+          targets: [],
+        };
+      }),
+    } as unknown as jest.Mocked<LastFmService>;
+    durationLookupService = {
+      lookupDuration: jest.fn().mockResolvedValue({
+        artist: 'Artist',
+        track: 'Unknown',
+        duration: null,
+        source: 'not_found',
+      }),
+    } as unknown as jest.Mocked<DurationLookupService>;
+    sideMemoryService = {
+      recordPlay: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<SideMemoryService>;
+
+    service = new RecognizerSessionService(
+      fileStorage,
+      authService,
+      discogsService,
+      lastfmService,
+      durationLookupService,
+      sideMemoryService
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch {
+      // Ignore
+    }
+  });
+
+  it('should fold repeated recognitions into one play and scrobble it once past half its length', async () => {
+    // Act
+    await service.handleEvent(trackStart('Opener', 0, { confidence: 0.9 }));
+    const early = await service.handleEvent(
+      trackStart('opener', 20, { confidence: 0.7 })
+    );
+    const passed = await service.handleEvent(
+      event('confidence', 120, { confidence: 0.8 })
+    );
+    await service.handleEvent(trackStart('Opener', 150));
+
+    // Assert
+    expect(early.scrobbled).toEqual([]);
+    expect(passed.scrobbled).toHaveLength(1);
+    expect(passed.session?.plays).toHaveLength(1);
+    expect(passed.session?.plays[0]).toMatchObject({
+      releaseId: 100,
+      collectionItemId: 1,
+      position: 'A1',
+      side: 'A',
+      recognitions: 4,
+      confidence: 0.85,
+      status: 'scrobbled',
+    });
+    expect(lastfmService.scrobbleBatch).toHaveBeenCalledTimes(1);
+    expect(scrobbledTracks()).toEqual([
+      expect.objectContaining({
+        artist: 'Artist',
+        track: 'Opener',
+        album: 'Album',
+        duration: 240,
+        timestamp: T0,
+      }),
+    ]);
+    expect(lastfmService.scrobbleBatch.mock.calls[0][1]).toBe('recognized');
+  });
+
+  it('should pick the release whose title matches the recognized album', async () => {
+    // Act
+    const result = await service.handleEvent(
+      trackStart('Opener', 0, { album: 'live' })
+    );
+
+    // Assert
+    expect(result.session?.releaseId).toBe(200);
+    expect(result.session?.plays[0]).toMatchObject({
+      album: 'Live',
+      duration: 360,
+    });
+  });
+
+  it('should reject a track lifted before the threshold and end the session', async () => {
+    // Act
+    await service.handleEvent(trackStart('Opener', 0));
+    const result = await service.handleEvent(event('needle-lift', 60));
+
+    // Assert
+    expect(result.rejected).toEqual([
+      expect.objectContaining({
+        status: 'rejected',
+        rejectReason: 'too-short',
+      }),
+    ]);
+    expect(result.session?.endedAt).toBe(T0 + 60);
+    expect(lastfmService.scrobbleBatch).not.toHaveBeenCalled();
+  });
+
+  it('should keep a low-confidence match of another track from ending the play', async () => {
+    // Act
+    await service.handleEvent(trackStart('Opener', 0));
+    const blip = await service.handleEvent(
+      trackStart('Something Else', 30, { confidence: 0.2 })
+    );
+    const passed = await service.handleEvent(
+      event('confidence', 125, { confidence: 1 })
+    );
+
+    // Assert
+    expect(blip.rejected).toEqual([
+      expect.objectContaining({
+        title: 'Something Else',
+        rejectReason: 'low-confidence',
+      }),
+    ]);
+    expect(passed.scrobbled).toEqual([
+      expect.objectContaining({ title: 'Opener' }),
+    ]);
+  });
+
+  it('should reopen a play when the same track is heard again right after it ended', async () => {
+    // Act
+    await service.handleEvent(trackStart('Opener', 0));
+    const ended = await service.handleEvent(event('track-end', 60));
+    await service.handleEvent(trackStart('Opener', 70));
+    const passed = await service.handleEvent(
+      event('confidence', 130, { confidence: 1 })
+    );
+
+    // Assert
+    expect(ended.rejected).toHaveLength(1);
+    expect(passed.session?.plays).toHaveLength(1);
+    expect(passed.scrobbled).toEqual([
+      expect.objectContaining({ title: 'Opener', status: 'scrobbled' }),
+    ]);
+  });
+
+  it('should fill in a missed track between two tracks on the same side', async () => {
+    // Act
+    await service.handleEvent(trackStart('Opener', 0));
+    const result = await service.handleEvent(trackStart('Third', 422));
+
+    // Assert
+    expect(result.scrobbled.map(play => play.title)).toEqual([
+      'Opener',
+      'Second',
+    ]);
+    expect(result.session?.plays.map(play => play.title)).toEqual([
+      'Opener',
+      'Second',
+      'Third',
+    ]);
+    expect(result.session?.plays[0].endedAt).toBe(T0 + 240);
+    expect(result.session?.plays[1]).toMatchObject({
+      inferred: true,
+      position: 'A2',
+      startedAt: T0 + 241,
+      endedAt: T0 + 421,
+    });
+    expect(scrobbledTracks().map(track => track.timestamp)).toEqual([
+      T0,
+      T0 + 241,
+    ]);
+  });
+
+  it('should not fill in tracks that could not have played in the gap', async () => {
+    // Act
+    await service.handleEvent(trackStart('Opener', 0));
+    const result = await service.handleEvent(trackStart('Third', 250));
+
+    // Assert
+    expect(result.session?.plays.map(play => play.title)).toEqual([
+      'Opener',
+      'Third',
+    ]);
+    expect(result.scrobbled.map(play => play.title)).toEqual(['Opener']);
+  });
+
+  it('should not fill in tracks across a side change', async () => {
+    // Act
+    await service.handleEvent(trackStart('Second', 0));
+    const result = await service.handleEvent(trackStart('Flip', 900));
+
+    // Assert
+    expect(result.session?.plays.some(play => play.inferred)).toBe(false);
+  });
+
+  it('should scrobble a track without a duration once it ends by itself', async () => {
+    // Act
+    await service.handleEvent(trackStart('Unknown', 0));
+    const result = await service.handleEvent(event('track-end', 45));
+
+    // Assert
+    expect(durationLookupService.lookupDuration).toHaveBeenCalledWith(
+      'Artist',
+      'Unknown',
+      undefined
+    );
+    expect(result.scrobbled).toEqual([
+      expect.objectContaining({ title: 'Unknown', status: 'scrobbled' }),
+    ]);
+    expect(scrobbledTracks()[0].duration).toBeUndefined();
+  });
+
+  it('should start a new session after a long silence', async () => {
+    // Act
+    const first = await service.handleEvent(trackStart('Opener', 0));
+    const second = await service.handleEvent(trackStart('Opener', 60 * 60));
+    const sessions = await service.getSessions();
+
+    // Assert
+    expect(second.session?.id).not.toBe(first.session?.id);
+    expect(sessions).toHaveLength(2);
+    expect(sessions[1].endedAt).toBe(T0);
+    expect(sessions[1].plays[0].rejectReason).toBe('too-short');
+  });
+
+  it('should ignore playback events outside a session', async () => {
+    // Act
+    const result = await service.handleEvent(event('track-end', 0));
+
+    // Assert
+    expect(result).toEqual({ session: null, scrobbled: [], rejected: [] });
+  });
+
+  it('should remember the sides played', async () => {
+    // Act
+    await service.handleEvent(trackStart('Opener', 0));
+    await service.handleEvent(event('track-end', 240));
+
+    // Assert
+    expect(sideMemoryService.recordPlay).toHaveBeenCalledWith(100, ['A']);
+  });
+
+  it('should reject plays Last.fm did not take', async () => {
+    // Arrange
+    lastfmService.scrobbleBatch.mockRejectedValue(new Error('Last.fm down'));
+
+    // Act
+    await service.handleEvent(trackStart('Opener', 0));
+    const result = await service.handleEvent(event('track-end', 240));
+
+    // Assert
+    expect(result.scrobbled).toEqual([]);
+    expect(result.rejected).toEqual([
+      expect.objectContaining({ rejectReason: 'scrobble-failed' }),
+    ]);
+  });
+
+  it('should follow but not scrobble plays from a paused recognizer', async () => {
+    // Act
+    await service.handleEvent(trackStart('Opener', 0), { paused: true });
+    const result = await service.handleEvent(event('track-end', 240), {
+      paused: true,
+    });
+
+    // Assert
+    expect(result.scrobbled).toEqual([]);
+    expect(result.rejected).toEqual([
+      expect.objectContaining({
+        title: 'Opener',
+        rejectReason: 'device-paused',
+      }),
+    ]);
+    expect(lastfmService.scrobbleBatch).not.toHaveBeenCalled();
+  });
+
+  it('should keep sessions across restarts', async () => {
+    // Arrange
+    await service.handleEvent(trackStart('Opener', 0));
+
+    // Act
+    const restarted = new RecognizerSessionService(
+      fileStorage,
+      authService,
+      discogsService,
+      lastfmService
+    );
+    const result = await restarted.handleEvent(
+      event('confidence', 130, { confidence: 1 })
+    );
+
+    // Assert
+    expect(result.scrobbled).toEqual([
+      expect.objectContaining({ title: 'Opener' }),
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { AuthService } from '../../../src/backend/services/authService';
+import { BackupService } from '../../../src/backend/services/backupService';
+import { LabelMonitoringService } from '../../../src/backend/services/labelMonitoringService';
+import { NotificationService } from '../../../src/backend/services/notificationService';
+import { createScheduledTasks } from '../../../src/backend/services/scheduledTasks';
+import { ScheduledTaskDefinition } from '../../../src/backend/services/schedulerService';
+import { ScrobbleHistorySyncService } from '../../../src/backend/services/scrobbleHistorySyncService';
+import { SellerMonitoringService } from '../../../src/backend/services/sellerMonitoringService';
+import { WishlistService } from '../../../src/backend/services/wishlistService';
+import { ScheduledTaskId, SellerScanStatus } from '../../../src/shared/types';
+
+jest.mock('../../../src/backend/services/authService');
+jest.mock('../../../src/backend/services/backupService');
+jest.mock('../../../src/backend/services/labelMonitoringService');
+jest.mock('../../../src/backend/services/notificationService');
+jest.mock('../../../src/backend/services/scrobbleHistorySyncService');
+jest.mock('../../../src/backend/services/sellerMonitoringService');
+jest.mock('../../../src/backend/services/wishlistService');
+
+describe('createScheduledTasks', () => {
+  let services: {
+    authService: jest.Mocked<AuthService>;
+    syncService: jest.Mocked<ScrobbleHistorySyncService>;
+    wishlistService: jest.Mocked<WishlistService>;
+    sellerMonitoringService: jest.Mocked<SellerMonitoringService>;
+    labelMonitoringService: jest.Mocked<LabelMonitoringService>;
+    backupService: jest.Mocked<BackupService>;
+    notificationService: jest.Mocked<NotificationService>;
+  };
+  let tasks: Map<ScheduledTaskId, ScheduledTaskDefinition>;
+
+  const run = (id: ScheduledTaskId) => tasks.get(id)!.run();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    services = {
+      authService: new AuthService(
+        undefined as never
+      ) as jest.Mocked<AuthService>,
+      syncService: new ScrobbleHistorySyncService(
+        undefined as never,
+        undefined as never,
+        undefined as never
+      ) as jest.Mocked<ScrobbleHistorySyncService>,
+      wishlistService: new WishlistService(
+        undefined as never,
+        undefined as never
+      ) as jest.Mocked<WishlistService>,
+      sellerMonitoringService: new SellerMonitoringService(
+        undefined as never,
+        undefined as never,
+        undefined as never
+      ) as jest.Mocked<SellerMonitoringService>,
+      labelMonitoringService: new LabelMonitoringService(
+        undefined as never,
+        undefined as never,
+        undefined as never,
+        undefined as never
+      ) as jest.Mocked<LabelMonitoringService>,
+      backupService: new BackupService(
+        undefined as never,
+        undefined as never
+      ) as jest.Mocked<BackupService>,
+      notificationService: new NotificationService(
+        undefined as never
+      ) as jest.Mocked<NotificationService>,
+    };
+    tasks = new Map(
+      createScheduledTasks(services).map(task => [task.id, task])
+    );
+  });
+
+  it('should define every scheduled task', () => {
+    expect(Array.from(tasks.keys())).toEqual([
+      'history-sync',
+      'wishlist-sync',
+      'new-release-check',
+      'seller-scan',
+      'label-scan',
+      'auto-backup',
+    ]);
+  });
+
+  it('should skip the history sync when Last.fm is not connected', async () => {
+    // Arrange
+    services.authService.getLastFmCredentials.mockResolvedValue({});
+
+    // Act
+    const message = await run('history-sync');
+
+    // Assert
+    expect(message).toBe('Last.fm is not connected');
+    expect(services.syncService.startIncrementalSync).not.toHaveBeenCalled();
+  });
+
+  it('should wait for the seller scan to finish and report its result', async () => {
+    // Arrange
+    const { sellerMonitoringService } = services;
+    sellerMonitoringService.getSellers.mockResolvedValue([
+      { username: 'vinylshop' } as never,
+    ]);
+    sellerMonitoringService.getScanStatus.mockResolvedValue({
+      status: 'completed',
+      newMatches: 3,
+    } as SellerScanStatus);
+
+    // Act
+    const message = await run('seller-scan');
+
+    // Assert
+    expect(sellerMonitoringService.startScan).toHaveBeenCalled();
+    expect(sellerMonitoringService.waitForScan).toHaveBeenCalled();
+    expect(message).toBe('3 new matches');
+  });
+
+  it('should fail when the seller scan ends in an error', async () => {
+    // Arrange
+    const { sellerMonitoringService } = services;
+    sellerMonitoringService.getSellers.mockResolvedValue([
+      { username: 'vinylshop' } as never,
+    ]);
+    sellerMonitoringService.getScanStatus.mockResolvedValue({
+      status: 'error',
+      error: 'Discogs unavailable',
+    } as SellerScanStatus);
+
+    // Act & Assert
+    await expect(run('seller-scan')).rejects.toThrow('Discogs unavailable');
+  });
+
+  it('should notify and fail when the automatic backup fails', async () => {
+    // Arrange
+    services.backupService.runAutoBackup.mockRejectedValue(
+      new Error('Disk full')
+    );
+
+    // Act & Assert
+    await expect(run('auto-backup')).rejects.toThrow('Disk full');
+    expect(services.notificationService.raise).toHaveBeenCalledWith({
+      type: 'backup-failed',
+      error: 'Disk full',
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import { EventStreamService } from '../../../src/backend/services/eventStreamService';
+import {
+  ScheduledTaskDefinition,
+  SchedulerService,
+} from '../../../src/backend/services/schedulerService';
+import {
+  getRateLimitState,
+  withDiscogsPriority,
+} from '../../../src/backend/utils/discogsAxios';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { SchedulerStore } from '../../../src/shared/types';
+import { mockJSONFiles } from '../../fixtures/fileStorageFixtures';
+
+jest.mock('../../../src/backend/utils/fileStorage');
+jest.mock('../../../src/backend/utils/discogsAxios');
+jest.mock('../../../src/backend/services/eventStreamService');
+
+const mockGetRateLimitState = getRateLimitState as jest.MockedFunction<
+  typeof getRateLimitState
+>;
+const mockWithDiscogsPriority = withDiscogsPriority as jest.MockedFunction<
+  typeof withDiscogsPriority
+>;
+
+const SCHEDULE_FILE = 'scheduler/schedule.json';
+
+// Sunday 10 March 2024, 12:00 local time
+const NOW = new Date(2024, 2, 10, 12, 0).getTime();
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('SchedulerService', () => {
+  let scheduler: SchedulerService;
+  let mockFileStorage: jest.Mocked<FileStorage>;
+  let mockEventStream: jest.Mocked<EventStreamService>;
+  let files: Record<string, unknown>;
+
+  const task = (
+    id: ScheduledTaskDefinition['id'],
+    overrides: Partial<ScheduledTaskDefinition> = {}
+  ): ScheduledTaskDefinition => ({
+    id,
+    name: id,
+    description: '',
+    defaults: { schedule: '0 * * * *' },
+    usesDiscogs: false,
+    run: jest.fn().mockResolvedValue('Done'),
+    ...overrides,
+  });
+
+  const stored = () => files[SCHEDULE_FILE] as SchedulerStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+
+    mockFileStorage = new FileStorage('test') as jest.Mocked<FileStorage>;
+    files = mockJSONFiles(mockFileStorage);
+
+    mockGetRateLimitState.mockReturnValue({
+      limit: 60,
+      used: 0,
+      remaining: 60,
+      isThrottled: false,
+      lastUpdated: 0,
+    });
+
+    mockWithDiscogsPriority.mockImplementation((_priority, task) => task());
+
+    mockEventStream =
+      new EventStreamService() as jest.Mocked<EventStreamService>;
+    scheduler = new SchedulerService(mockFileStorage);
+    scheduler.setEventStreamService(mockEventStream);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  describe('scheduling', () => {
+    it('should schedule the first run at the next matching time', async () => {
+      // Arrange
+      scheduler.register(task('history-sync'));
+
+      // Act
+      const [result] = await scheduler.getTasks();
+
+      // Assert
+      expect(result).toMatchObject({
+        id: 'history-sync',
+        enabled: true,
+        schedule: '0 * * * *',
+        nextRunAt: NOW + HOUR,
+        running: false,
+      });
+    });
+
+    it('should add up to the configured jitter', async () => {
+      // Arrange
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      scheduler.register(
+        task('history-sync', {
+          defaults: { schedule: '0 * * * *', jitterMinutes: 10 },
+        })
+      );
+
+      // Act
+      const [result] = await scheduler.getTasks();
+
+      // Assert
+      expect(result.nextRunAt).toBe(NOW + HOUR + 5 * MINUTE);
+      jest.spyOn(Math, 'random').mockRestore();
+    });
+
+    it('should run due tasks and record the outcome', async () => {
+      // Arrange
+      const definition = task('history-sync');
+      scheduler.register(definition);
+      await scheduler.getTasks();
+
+      // Act
+      await scheduler.tick(NOW + HOUR);
+
+      // Assert
+      expect(definition.run).toHaveBeenCalledTimes(1);
+      expect(mockWithDiscogsPriority).toHaveBeenCalledWith(
+        'background',
+        definition.run
+      );
+      expect(stored().tasks['history-sync']).toMatchObject({
+        lastRunAt: NOW,
+        lastStatus: 'completed',
+        lastMessage: 'Done',
+        nextRunAt: NOW + HOUR,
+      });
+      expect(mockEventStream.publishNow).toHaveBeenCalledWith({
+        type: 'scheduled-task',
+        task: expect.objectContaining({ id: 'history-sync' }),
+      });
+    });
+
+    it('should not run tasks early or while disabled', async () => {
+      // Arrange
+      const definition = task('history-sync', {
+        defaults: { schedule: '0 * * * *', enabled: false },
+      });
+      scheduler.register(definition);
+
+      // Act
+      await scheduler.tick(NOW + 2 * HOUR);
+
+      // Assert
+      expect(definition.run).not.toHaveBeenCalled();
+    });
+
+    it('should record failures', async () => {
+      // Arrange
+      scheduler.register(
+        task('auto-backup', {
+          run: jest.fn().mockRejectedValue(new Error('Disk full')),
+        })
+      );
+      await scheduler.getTasks();
+
+      // Act
+      await scheduler.tick(NOW + HOUR);
+
+      // Assert
+      expect(stored().tasks['auto-backup']).toMatchObject({
+        lastStatus: 'failed',
+        lastMessage: 'Disk full',
+      });
+    });
+  });
+
+  describe('missed runs', () => {
+    beforeEach(() => {
+      // Saved before a six-hour sleep
+      files[SCHEDULE_FILE] = {
+        schemaVersion: 1,
+        discogsMinRemaining: 20,
+        tasks: {
+          'history-sync': {
+            enabled: true,
+            schedule: '0 * * * *',
+            jitterMinutes: 0,
+            catchUp: true,
+            nextRunAt: NOW - 6 * HOUR,
+          },
+          'auto-backup': {
+            enabled: true,
+            schedule: '0 * * * *',
+            jitterMinutes: 0,
+            catchUp: false,
+            nextRunAt: NOW - 6 * HOUR,
+          },
+        },
+      };
+    });
+
+    it('should run a missed task once when it catches up', async () => {
+      // Arrange
+      const catchUp = task('history-sync');
+      scheduler.register(catchUp);
+
+      // Act
+      await scheduler.tick();
+      await scheduler.tick();
+
+      // Assert
+      expect(catchUp.run).toHaveBeenCalledTimes(1);
+      expect(stored().tasks['history-sync']?.nextRunAt).toBe(NOW + HOUR);
+    });
+
+    it('should skip a missed run when catch-up is off', async () => {
+      // Arrange
+      const skipped = task('auto-backup');
+      scheduler.register(skipped);
+
+      // Act
+      await scheduler.tick();
+
+      // Assert
+      expect(skipped.run).not.toHaveBeenCalled();
+      expect(stored().tasks['auto-backup']?.nextRunAt).toBe(NOW + HOUR);
+    });
+  });
+
+  describe('Discogs budget', () => {
+    it('should run one Discogs task at a time', async () => {
+      // Arrange
+      let finishScan: () => void = () => undefined;
+      const sellerScan = task('seller-scan', {
+        usesDiscogs: true,
+        run: jest.fn(
+          () => new Promise<void>(resolve => (finishScan = resolve))
+        ),
+      });
+      const labelScan = task('label-scan', { usesDiscogs: true });
+      scheduler.register(sellerScan);
+      scheduler.register(labelScan);
+      await scheduler.getTasks();
+      jest.setSystemTime(NOW + HOUR);
+
+      // Act
+      const firstTick = scheduler.tick();
+      await jest.advanceTimersByTimeAsync(0);
+      await scheduler.tick();
+
+      // Assert
+      expect(sellerScan.run).toHaveBeenCalledTimes(1);
+      expect(labelScan.run).not.toHaveBeenCalled();
+
+      finishScan();
+      await firstTick;
+      await scheduler.tick();
+      expect(labelScan.run).toHaveBeenCalled();
+      expect(sellerScan.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait while the rate-limit window is nearly used up', async () => {
+      // Arrange
+      mockGetRateLimitState.mockReturnValue({
+        limit: 60,
+        used: 55,
+        remaining: 5,
+        isThrottled: false,
+        lastUpdated: NOW,
+      });
+      const scan = task('label-scan', { usesDiscogs: true });
+      const backup = task('auto-backup');
+      scheduler.register(scan);
+      scheduler.register(backup);
+      await scheduler.getTasks();
+
+      // Act
+      await scheduler.tick(NOW + HOUR);
+
+      // Assert
+      expect(scan.run).not.toHaveBeenCalled();
+      expect(backup.run).toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTask', () => {
+    it('should save a new schedule and reschedule the next run', async () => {
+      // Arrange
+      scheduler.register(task('history-sync'));
+
+      // Act
+      const updated = await scheduler.updateTask('history-sync', {
+        schedule: '0 0 * * *',
+      });
+
+      // Assert
+      expect(updated?.nextRunAt).toBe(new Date(2024, 2, 11, 0, 0).getTime());
+      expect(stored().tasks['history-sync']?.schedule).toBe('0 0 * * *');
+    });
+
+    it('should reject an invalid schedule', async () => {
+      // Arrange
+      scheduler.register(task('history-sync'));
+
+      // Act & Assert
+      await expect(
+        scheduler.updateTask('history-sync', { schedule: 'often' })
+      ).rejects.toThrow('Cron expressions need 5 fields');
+    });
+
+    it('should return null for an unknown task', async () => {
+      expect(await scheduler.updateTask('label-scan', {})).toBeNull();
+    });
+  });
+
+  describe('runNow', () => {
+    it('should start a task outside its schedule', async () => {
+      // Arrange
+      const definition = task('wishlist-sync', {
+        defaults: { schedule: '0 4 * * *', enabled: false },
+      });
+      scheduler.register(definition);
+
+      // Act
+      const started = await scheduler.runNow('wishlist-sync');
+      await jest.advanceTimersByTimeAsync(0);
+
+      // Assert
+      expect(started).toBe(true);
+      expect(definition.run).toHaveBeenCalledTimes(1);
+      expect(await scheduler.runNow('label-scan')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import {
+  LastFmApiError,
+  LastFmService,
+} from '../../../src/backend/services/lastfmService';
+import { ScrobbleHistorySyncService } from '../../../src/backend/services/scrobbleHistorySyncService';
+import { ScrobbleQueueService } from '../../../src/backend/services/scrobbleQueueService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import {
+  ScrobbleQueueStore,
+  ScrobbleSession,
+  ScrobbleTrack,
+} from '../../../src/shared/types';
+import { mockJSONFiles } from '../../fixtures/fileStorageFixtures';
+
+jest.mock('../../../src/backend/utils/fileStorage');
+
+const MockedFileStorage = FileStorage as jest.MockedClass<typeof FileStorage>;
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date('2024-03-10T12:00:00Z').getTime();
+const NOW_SECONDS = Math.floor(NOW / 1000);
+
+const ok = { success: true, accepted: 1, ignored: 0, message: 'Scrobbled' };
+
+describe('ScrobbleQueueService', () => {
+  let service: ScrobbleQueueService;
+  let mockFileStorage: jest.Mocked<FileStorage>;
+  let mockLastfm: { scrobbleTrack: jest.Mock };
+  let mockSync: { adjustSyncTimestampForBackdatedScrobbles: jest.Mock };
+  let files: Record<string, unknown>;
+
+  const track = (n: number, timestamp?: number): ScrobbleTrack => ({
+    artist: 'Air',
+    track: `Track ${n}`,
+    album: 'Moon Safari',
+    timestamp,
+  });
+
+  const storedQueue = () => files['scrobbles/queue.json'] as ScrobbleQueueStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+
+    mockFileStorage = new MockedFileStorage('test') as jest.Mocked<FileStorage>;
+    files = mockJSONFiles(mockFileStorage);
+
+    mockLastfm = { scrobbleTrack: jest.fn().mockResolvedValue(ok) };
+    mockSync = {
+      adjustSyncTimestampForBackdatedScrobbles: jest
+        .fn()
+        .mockResolvedValue(undefined),
+    };
+
+    service = new ScrobbleQueueService(
+      mockFileStorage,
+      mockLastfm as unknown as LastFmService,
+      mockSync as unknown as ScrobbleHistorySyncService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('enqueue', () => {
+    it('should persist entries due after the base delay', async () => {
+      // Act
+      await service.enqueue(
+        [{ track: track(1, NOW_SECONDS - 600), trackIndex: 0 }],
+        'Network Error',
+        'session-1'
+      );
+
+      // Assert
+      const queue = storedQueue();
+      expect(queue.pending).toHaveLength(1);
+      expect(queue.pending[0]).toMatchObject({
+        sessionId: 'session-1',
+        trackIndex: 0,
+        attempts: 0,
+        queuedAt: NOW,
+        nextAttemptAt: NOW + MINUTE_MS,
+        lastError: 'Network Error',
+      });
+    });
+
+    it('should pin tracks without a timestamp to the time they were queued', async () => {
+      // Act
+      await service.enqueue([{ track: track(1) }], 'offline');
+
+      // Assert
+      expect(storedQueue().pending[0].track.timestamp).toBe(NOW_SECONDS);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report depth and the next attempt', async () => {
+      // Arrange
+      await service.enqueue(
+        [{ track: track(1, NOW_SECONDS) }, { track: track(2, NOW_SECONDS) }],
+        'offline'
+      );
+
+      // Act
+      const status = await service.getStatus();
+
+      // Assert
+      expect(status).toEqual({
+        pending: 2,
+        failed: 0,
+        nextAttemptAt: NOW + MINUTE_MS,
+        oldestQueuedAt: NOW,
+        lastDrainAt: null,
+      });
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double each attempt up to six hours', () => {
+      expect(service.getRetryDelay(1)).toBe(MINUTE_MS);
+      expect(service.getRetryDelay(2)).toBe(2 * MINUTE_MS);
+      expect(service.getRetryDelay(5)).toBe(16 * MINUTE_MS);
+      expect(service.getRetryDelay(20)).toBe(6 * 60 * MINUTE_MS);
+    });
+  });
+
+  describe('drain', () => {
+    it('should leave entries alone until they are due', async () => {
+      // Arrange
+      await service.enqueue([{ track: track(1, NOW_SECONDS) }], 'offline');
+
+      // Act
+      const result = await service.drain();
+
+      // Assert
+      expect(mockLastfm.scrobbleTrack).not.toHaveBeenCalled();
+      expect(result).toEqual({ succeeded: 0, retrying: 0, failed: 0 });
+    });
+
+    it('should retry everything immediately when forced', async () => {
+      // Arrange
+      await service.enqueue([{ track: track(1, NOW_SECONDS) }], 'offline');
+
+      // Act
+      const result = await service.drain({ force: true });
+
+      // Assert
+      expect(result.succeeded).toBe(1);
+      expect(storedQueue().pending).toHaveLength(0);
+    });
+
+    it('should deliver due entries oldest first and widen the next sync', async () => {
+      // Arrange
+      await service.enqueue(
+        [
+          { track: track(2, NOW_SECONDS - 300) },
+          { track: track(1, NOW_SECONDS - 600) },
+        ],
+        'offline'
+      );
+
+      // Act
+      const result = await service.drain({ now: NOW + MINUTE_MS });
+
+      // Assert
+      expect(result.succeeded).toBe(2);
+      expect(mockLastfm.scrobbleTrack.mock.calls[0][0].track).toBe('Track 1');
+      expect(
+        mockSync.adjustSyncTimestampForBackdatedScrobbles
+      ).toHaveBeenCalledWith(NOW_SECONDS - 600);
+      expect(storedQueue().lastDrainAt).toBe(NOW + MINUTE_MS);
+    });
+
+    it('should back off all remaining entries on a transient error', async () => {
+      // Arrange
+      await service.enqueue(
+        [
+          { track: track(1, NOW_SECONDS - 600) },
+          { track: track(2, NOW_SECONDS - 300) },
+        ],
+        'offline'
+      );
+      mockLastfm.scrobbleTrack.mockRejectedValue(new Error('Network Error'));
+      const now = NOW + MINUTE_MS;
+
+      // Act
+      const result = await service.drain({ now });
+
+      // Assert
+      expect(result.retrying).toBe(2);
+      expect(mockLastfm.scrobbleTrack).toHaveBeenCalledTimes(1);
+      for (const entry of storedQueue().pending) {
+        expect(entry.attempts).toBe(1);
+        expect(entry.nextAttemptAt).toBe(now + MINUTE_MS);
+        expect(entry.lastError).toBe('Network Error');
+      }
+
+      // A second failure doubles the wait
+      await service.drain({ now: now + MINUTE_MS });
+      expect(storedQueue().pending[0].nextAttemptAt).toBe(
+        now + MINUTE_MS + 2 * MINUTE_MS
+      );
+    });
+
+    it('should give up on entries Last.fm rejects', async () => {
+      // Arrange
+      await service.enqueue([{ track: track(1, NOW_SECONDS) }], 'offline');
+      mockLastfm.scrobbleTrack.mockRejectedValue(
+        new LastFmApiError('Invalid parameters', 6)
+      );
+
+      // Act
+      const result = await service.drain({ force: true });
+
+      // Assert
+      expect(result.failed).toBe(1);
+      expect(storedQueue().pending).toHaveLength(0);
+      expect(storedQueue().failed[0].reason).toBe(
+        'Rejected by Last.fm: Invalid parameters'
+      );
+    });
+
+    it('should keep retrying after the Last.fm session is revoked', async () => {
+      // Arrange
+      await service.enqueue([{ track: track(1, NOW_SECONDS) }], 'offline');
+      mockLastfm.scrobbleTrack.mockRejectedValue(
+        new LastFmApiError('Invalid session key', 9)
+      );
+
+      // Act
+      const result = await service.drain({ force: true });
+
+      // Assert
+      expect(result.retrying).toBe(1);
+      expect(storedQueue().failed).toHaveLength(0);
+    });
+
+    it('should expire entries outside the 14-day window', async () => {
+      // Arrange
+      const fifteenDaysAgo = NOW_SECONDS - 15 * 24 * 60 * 60;
+      await service.enqueue([{ track: track(1, fifteenDaysAgo) }], 'offline');
+
+      // Act
+      const result = await service.drain();
+
+      // Assert
+      expect(result.failed).toBe(1);
+      expect(mockLastfm.scrobbleTrack).not.toHaveBeenCalled();
+      expect(storedQueue().failed[0].reason).toBe(
+        "Expired: older than Last.fm's 14-day scrobble window"
+      );
+    });
+
+    it('should update the originating session as tracks are delivered', async () => {
+      // Arrange
+      const session: ScrobbleSession = {
+        id: 'abc',
+        timestamp: NOW,
+        status: 'pending',
+        tracks: [
+          { ...track(1, NOW_SECONDS - 600), scrobbleStatus: 'success' },
+          { ...track(2, NOW_SECONDS - 300), scrobbleStatus: 'queued' },
+        ],
+        progress: {
+          current: 2,
+          total: 2,
+          success: 1,
+          failed: 0,
+          ignored: 0,
+          queued: 1,
+        },
+      };
+      files['scrobbles/session-abc.json'] = session;
+      await service.enqueue(
+        [{ track: session.tracks[1], trackIndex: 1 }],
+        'offline',
+        'abc'
+      );
+
+      // Act
+      await service.drain({ force: true });
+
+      // Assert
+      const updated = files['scrobbles/session-abc.json'] as ScrobbleSession;
+      expect(updated.tracks[1].scrobbleStatus).toBe('success');
+      expect(updated.status).toBe('completed');
+      expect(updated.progress).toMatchObject({ success: 2, queued: 0 });
+    });
+
+    it('should skip entries that were resubmitted by hand', async () => {
+      // Arrange
+      files['scrobbles/session-abc.json'] = {
+        id: 'abc',
+        timestamp: NOW,
+        status: 'completed',
+        tracks: [{ ...track(1, NOW_SECONDS), scrobbleStatus: 'success' }],
+      };
+      await service.enqueue(
+        [{ track: track(1, NOW_SECONDS), trackIndex: 0 }],
+        'offline',
+        'abc'
+      );
+
+      // Act
+      await service.drain({ force: true });
+
+      // Assert
+      expect(mockLastfm.scrobbleTrack).not.toHaveBeenCalled();
+      expect(storedQueue().pending).toHaveLength(0);
+    });
+  });
+
+  describe('removeEntry / clearFailed', () => {
+    it('should remove a pending entry by id', async () => {
+      // Arrange
+      await service.enqueue([{ track: track(1, NOW_SECONDS) }], 'offline');
+      const { id } = storedQueue().pending[0];
+
+      // Act & Assert
+      expect(await service.removeEntry(id)).toBe(true);
+      expect(await service.removeEntry(id)).toBe(false);
+      expect(storedQueue().pending).toHaveLength(0);
+    });
+
+    it("should remove a session's pending entries", async () => {
+      // Arrange
+      await service.enqueue(
+        [{ track: track(1, NOW_SECONDS) }, { track: track(2, NOW_SECONDS) }],
+        'offline',
+        'session-1'
+      );
+      await service.enqueue(
+        [{ track: track(3, NOW_SECONDS) }],
+        'offline',
+        'session-2'
+      );
+
+      // Act
+      const removed = await service.removeSessionEntries('session-1');
+
+      // Assert
+      expect(removed).toBe(2);
+      expect(storedQueue().pending.map(e => e.sessionId)).toEqual([
+        'session-2',
+      ]);
+    });
+
+    it('should clear failed entries', async () => {
+      // Arrange
+      await service.enqueue(
+        [{ track: track(1, NOW_SECONDS - 15 * 24 * 60 * 60) }],
+        'offline'
+      );
+      await service.drain();
+
+      // Act
+      const cleared = await service.clearFailed();
+
+      // Assert
+      expect(cleared).toBe(1);
+      expect(storedQueue().failed).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  AdditionalScrobbleTarget,
+  hasFailedTarget,
+  ScrobbleTargetService,
+} from '../../../src/backend/services/scrobbleTargetService';
+import { ScrobbleTrack } from '../../../src/shared/types';
+
+describe('ScrobbleTargetService', () => {
+  let target: {
+    id: 'listenbrainz';
+    name: string;
+    isEnabled: jest.Mock;
+    submitListens: jest.Mock;
+  };
+  let service: ScrobbleTargetService;
+
+  const tracks = (): ScrobbleTrack[] => [
+    { artist: 'Radiohead', track: 'Airbag', timestamp: 1700000000 },
+    { artist: 'Radiohead', track: 'Lucky', timestamp: 1700000300 },
+  ];
+
+  beforeEach(() => {
+    target = {
+      id: 'listenbrainz',
+      name: 'ListenBrainz',
+      isEnabled: jest.fn().mockResolvedValue(true),
+      submitListens: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new ScrobbleTargetService([
+      target as unknown as AdditionalScrobbleTarget,
+    ]);
+  });
+
+  it('should record success on every submitted track', async () => {
+    // Arrange
+    const batch = tracks();
+
+    // Act
+    const summaries = await service.submit(batch);
+
+    // Assert
+    expect(summaries).toEqual([
+      { target: 'listenbrainz', success: 2, failed: 0 },
+    ]);
+    expect(batch[0].targets?.listenbrainz).toEqual({
+      status: 'success',
+      submittedAt: expect.any(Number),
+    });
+    expect(batch.some(hasFailedTarget)).toBe(false);
+  });
+
+  it('should record a failure without throwing', async () => {
+    // Arrange
+    const batch = tracks();
+    target.submitListens.mockRejectedValue(new Error('Invalid authorization'));
+
+    // Act
+    const summaries = await service.submit(batch);
+
+    // Assert
+    expect(summaries).toEqual([
+      {
+        target: 'listenbrainz',
+        success: 0,
+        failed: 2,
+        error: 'ListenBrainz: Invalid authorization',
+      },
+    ]);
+    expect(batch[1].targets?.listenbrainz).toMatchObject({
+      status: 'failed',
+      error: 'Invalid authorization',
+    });
+    expect(batch.every(hasFailedTarget)).toBe(true);
+  });
+
+  it('should skip disabled targets', async () => {
+    // Arrange
+    target.isEnabled.mockResolvedValue(false);
+    const batch = tracks();
+
+    // Act
+    const summaries = await service.submit(batch);
+
+    // Assert
+    expect(summaries).toEqual([]);
+    expect(target.submitListens).not.toHaveBeenCalled();
+    expect(batch[0].targets).toBeUndefined();
+  });
+
+  it('should only resend failed tracks with onlyFailed', async () => {
+    // Arrange
+    const batch = tracks();
+    batch[0].targets = {
+      listenbrainz: { status: 'success', submittedAt: 1 },
+    };
+    batch[1].targets = {
+      listenbrainz: { status: 'failed', error: 'Timeout', submittedAt: 1 },
+    };
+
+    // Act
+    await service.submit(batch, { onlyFailed: true });
+
+    // Assert
+    expect(target.submitListens).toHaveBeenCalledWith([batch[1]]);
+    expect(batch[0].targets.listenbrainz?.submittedAt).toBe(1);
+    expect(batch[1].targets.listenbrainz?.status).toBe('success');
+  });
+});
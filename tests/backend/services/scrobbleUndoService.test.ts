@@ -0,0 +1,291 @@
+import { AuthService } from '../../../src/backend/services/authService';
+import { ListenBrainzService } from '../../../src/backend/services/listenbrainzService';
+import { ScrobbleHistorySyncService } from '../../../src/backend/services/scrobbleHistorySyncService';
+import { ScrobbleQueueService } from '../../../src/backend/services/scrobbleQueueService';
+import {
+  ScrobbleUndoError,
+  ScrobbleUndoService,
+} from '../../../src/backend/services/scrobbleUndoService';
+import { StatsService } from '../../../src/backend/services/statsService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { ScrobbleSession } from '../../../src/shared/types';
+import { mockJSONFiles } from '../../fixtures/fileStorageFixtures';
+
+jest.mock('../../../src/backend/utils/fileStorage');
+
+const NOW = new Date('2024-03-10T12:00:00Z').getTime();
+
+describe('ScrobbleUndoService', () => {
+  let service: ScrobbleUndoService;
+  let files: Record<string, unknown>;
+  let mockFileStorage: jest.Mocked<FileStorage>;
+  let mockAuthService: { getLastFmCredentials: jest.Mock };
+  let mockSyncService: {
+    isSyncInProgress: jest.Mock;
+    removeScrobbles: jest.Mock;
+  };
+  let mockStatsService: { clearForgottenFavoritesCache: jest.Mock };
+  let mockQueue: { removeSessionEntries: jest.Mock };
+  let mockListenBrainz: { deleteListens: jest.Mock };
+
+  const session = (
+    overrides: Partial<ScrobbleSession> = {}
+  ): ScrobbleSession => ({
+    id: 'abc',
+    timestamp: NOW - 60000,
+    status: 'completed',
+    tracks: [
+      {
+        artist: 'Sigur Rós',
+        track: 'Hoppípolla',
+        album: 'Takk...',
+        timestamp: 1710000300,
+        scrobbleStatus: 'success',
+      },
+      {
+        artist: 'Sigur Rós',
+        track: 'Glósóli',
+        album: 'Takk...',
+        timestamp: 1710000000,
+        scrobbleStatus: 'success',
+      },
+    ],
+    ...overrides,
+  });
+
+  const stored = () => files['scrobbles/session-abc.json'] as ScrobbleSession;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+
+    mockFileStorage = new FileStorage('test') as jest.Mocked<FileStorage>;
+    files = mockJSONFiles(mockFileStorage, {
+      'scrobbles/session-abc.json': session(),
+    });
+    mockAuthService = {
+      getLastFmCredentials: jest
+        .fn()
+        .mockResolvedValue({ username: 'vinyl fan' }),
+    };
+    mockSyncService = {
+      isSyncInProgress: jest.fn().mockReturnValue(false),
+      removeScrobbles: jest.fn().mockResolvedValue(2),
+    };
+    mockStatsService = { clearForgottenFavoritesCache: jest.fn() };
+    mockQueue = { removeSessionEntries: jest.fn().mockResolvedValue(0) };
+    mockListenBrainz = {
+      deleteListens: jest.fn().mockResolvedValue({ deleted: 1, failed: 0 }),
+    };
+
+    service = new ScrobbleUndoService(
+      mockFileStorage,
+      mockAuthService as unknown as AuthService,
+      mockSyncService as unknown as ScrobbleHistorySyncService,
+      mockStatsService as unknown as StatsService,
+      mockQueue as unknown as ScrobbleQueueService,
+      mockListenBrainz as unknown as ListenBrainzService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('undoSession', () => {
+    it('should remove the plays, mark the session and list Last.fm entries', async () => {
+      // Act
+      const result = await service.undoSession('abc');
+
+      // Assert
+      expect(mockSyncService.removeScrobbles).toHaveBeenCalledWith([
+        {
+          artist: 'Sigur Rós',
+          album: 'Takk...',
+          track: 'Hoppípolla',
+          timestamp: 1710000300,
+        },
+        {
+          artist: 'Sigur Rós',
+          album: 'Takk...',
+          track: 'Glósóli',
+          timestamp: 1710000000,
+        },
+      ]);
+      expect(mockStatsService.clearForgottenFavoritesCache).toHaveBeenCalled();
+      expect(mockQueue.removeSessionEntries).toHaveBeenCalledWith('abc');
+      expect(stored().status).toBe('reverted');
+      expect(stored().revertedAt).toBe(NOW);
+      expect(result.playsRemoved).toBe(2);
+      expect(result.listenbrainz).toBeUndefined();
+      expect(result.lastfm).toEqual({
+        sessionId: 'abc',
+        username: 'vinyl fan',
+        entries: [
+          {
+            artist: 'Sigur Rós',
+            track: 'Glósóli',
+            album: 'Takk...',
+            timestamp: 1710000000,
+            libraryUrl:
+              'https://www.last.fm/user/vinyl+fan/library/music/Sigur+R%C3%B3s/_/Gl%C3%B3s%C3%B3li',
+          },
+          expect.objectContaining({ track: 'Hoppípolla' }),
+        ],
+      });
+    });
+
+    it('should only take back tracks that reached Last.fm', async () => {
+      // Arrange
+      const partial = session({ status: 'failed' });
+      partial.tracks[0].scrobbleStatus = 'queued';
+      files['scrobbles/session-abc.json'] = partial;
+      mockQueue.removeSessionEntries.mockResolvedValue(1);
+
+      // Act
+      const result = await service.undoSession('abc');
+
+      // Assert
+      expect(mockSyncService.removeScrobbles).toHaveBeenCalledWith([
+        expect.objectContaining({ track: 'Glósóli' }),
+      ]);
+      expect(result.queuedCancelled).toBe(1);
+      expect(result.lastfm.entries).toHaveLength(1);
+      expect(stored().tracks[0].scrobbleStatus).toBeUndefined();
+    });
+
+    it('should delete listens that were sent to ListenBrainz', async () => {
+      // Arrange
+      const sent = session();
+      sent.tracks[0].targets = {
+        listenbrainz: { status: 'success', submittedAt: NOW },
+      };
+      files['scrobbles/session-abc.json'] = sent;
+
+      // Act
+      const result = await service.undoSession('abc');
+
+      // Assert
+      expect(mockListenBrainz.deleteListens).toHaveBeenCalledWith([
+        expect.objectContaining({ track: 'Hoppípolla' }),
+      ]);
+      expect(result.listenbrainz).toEqual({ deleted: 1, failed: 0 });
+    });
+
+    it('should still undo when ListenBrainz is unreachable', async () => {
+      // Arrange
+      const sent = session();
+      sent.tracks[0].targets = {
+        listenbrainz: { status: 'success', submittedAt: NOW },
+      };
+      files['scrobbles/session-abc.json'] = sent;
+      mockListenBrainz.deleteListens.mockRejectedValue(new Error('Offline'));
+
+      // Act
+      const result = await service.undoSession('abc');
+
+      // Assert
+      expect(result.listenbrainz).toEqual({
+        deleted: 0,
+        failed: 1,
+        error: 'Offline',
+      });
+      expect(stored().status).toBe('reverted');
+    });
+
+    it('should treat every track of an older completed session as scrobbled', async () => {
+      // Arrange
+      const legacy = session();
+      for (const track of legacy.tracks) delete track.scrobbleStatus;
+      files['scrobbles/session-abc.json'] = legacy;
+
+      // Act
+      const result = await service.undoSession('abc');
+
+      // Assert
+      expect(mockSyncService.removeScrobbles.mock.calls[0][0]).toHaveLength(2);
+      expect(result.lastfm.entries).toHaveLength(2);
+    });
+
+    it('should reject a missing session', async () => {
+      // Act & Assert
+      await expect(service.undoSession('missing')).rejects.toMatchObject({
+        name: 'ScrobbleUndoError',
+        status: 404,
+      });
+    });
+
+    it.each(['reverted', 'pending', 'in-progress'] as const)(
+      'should refuse a %s session',
+      async status => {
+        // Arrange
+        files['scrobbles/session-abc.json'] = session({ status });
+
+        // Act & Assert
+        await expect(service.undoSession('abc')).rejects.toMatchObject({
+          status: 409,
+        });
+        expect(mockSyncService.removeScrobbles).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should refuse a session where nothing was scrobbled', async () => {
+      // Arrange
+      const failed = session({ status: 'failed' });
+      for (const track of failed.tracks) track.scrobbleStatus = 'failed';
+      files['scrobbles/session-abc.json'] = failed;
+
+      // Act & Assert
+      await expect(service.undoSession('abc')).rejects.toThrow(
+        'Nothing from this session was scrobbled'
+      );
+    });
+
+    it('should refuse while a history sync is running', async () => {
+      // Arrange
+      mockSyncService.isSyncInProgress.mockReturnValue(true);
+
+      // Act & Assert
+      await expect(service.undoSession('abc')).rejects.toBeInstanceOf(
+        ScrobbleUndoError
+      );
+      expect(stored().status).toBe('completed');
+    });
+  });
+
+  describe('getRemovalGuide', () => {
+    it('should list the entries of an undone session', async () => {
+      // Arrange
+      await service.undoSession('abc');
+
+      // Act
+      const guide = await service.getRemovalGuide('abc');
+
+      // Assert
+      expect(guide.entries.map(e => e.track)).toEqual([
+        'Glósóli',
+        'Hoppípolla',
+      ]);
+    });
+
+    it('should leave out links when the Last.fm username is unknown', async () => {
+      // Arrange
+      files['scrobbles/session-abc.json'] = session({ status: 'reverted' });
+      mockAuthService.getLastFmCredentials.mockResolvedValue({});
+
+      // Act
+      const guide = await service.getRemovalGuide('abc');
+
+      // Assert
+      expect(guide.username).toBeUndefined();
+      expect(guide.entries[0].libraryUrl).toBeUndefined();
+    });
+
+    it('should refuse a session that was not undone', async () => {
+      // Act & Assert
+      await expect(service.getRemovalGuide('abc')).rejects.toMatchObject({
+        status: 409,
+      });
+    });
+  });
+});
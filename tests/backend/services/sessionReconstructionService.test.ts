@@ -0,0 +1,321 @@
+import { ScrobbleHistoryStorage } from '../../../src/backend/services/scrobbleHistoryStorage';
+import { SessionReconstructionService } from '../../../src/backend/services/sessionReconstructionService';
+import { ScrobbleHistoryIndex } from '../../../src/shared/types';
+
+jest.mock('../../../src/backend/services/scrobbleHistoryStorage');
+
+const MockedHistoryStorage = ScrobbleHistoryStorage as jest.MockedClass<
+  typeof ScrobbleHistoryStorage
+>;
+
+/** Unix seconds for a local date/time */
+const localSeconds = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute = 0
+): number =>
+  Math.floor(new Date(year, month - 1, day, hour, minute).getTime() / 1000);
+
+type Play = [albumKey: string, track: string, timestamp: number];
+
+/**
+ * Build an index from [albumKey, track, timestamp] plays.
+ */
+const buildIndex = (plays: Play[]): ScrobbleHistoryIndex => {
+  const albums: ScrobbleHistoryIndex['albums'] = {};
+  for (const [key, track, timestamp] of plays) {
+    if (!albums[key]) {
+      albums[key] = { lastPlayed: 0, playCount: 0, plays: [] };
+    }
+    albums[key].plays.push({ timestamp, track });
+    albums[key].playCount++;
+    albums[key].lastPlayed = Math.max(albums[key].lastPlayed, timestamp);
+  }
+  return {
+    lastSyncTimestamp: 1,
+    totalScrobbles: plays.length,
+    oldestScrobbleDate: 0,
+    albums,
+  };
+};
+
+/**
+ * Plays of an album's tracks back to back, four minutes apart.
+ */
+const playTracks = (
+  albumKey: string,
+  tracks: string[],
+  start: number
+): Play[] => tracks.map((track, i) => [albumKey, track, start + i * 240]);
+
+const TRACKS = ['One', 'Two', 'Three', 'Four', 'Five', 'Six'];
+const OK_COMPUTER = 'radiohead|ok computer';
+const KID_A = 'radiohead|kid a';
+const IN_RAINBOWS = 'radiohead|in rainbows';
+
+describe('SessionReconstructionService', () => {
+  let service: SessionReconstructionService;
+  let mockHistoryStorage: jest.Mocked<ScrobbleHistoryStorage>;
+
+  const rangeStart = localSeconds(2026, 3, 1, 0);
+  const rangeEnd = localSeconds(2026, 3, 31, 23, 59);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockHistoryStorage = new MockedHistoryStorage(
+      {} as any
+    ) as jest.Mocked<ScrobbleHistoryStorage>;
+    service = new SessionReconstructionService(mockHistoryStorage);
+  });
+
+  describe('getSessions', () => {
+    it('should mark a run covering the whole album as a full-album play', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex(
+          playTracks(OK_COMPUTER, TRACKS, localSeconds(2026, 3, 10, 20))
+        )
+      );
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd);
+
+      // Assert
+      expect(result.totalSessions).toBe(1);
+      expect(result.fullAlbumPlays).toBe(1);
+      const [session] = result.days[0].sessions;
+      expect(session.kind).toBe('full-album');
+      expect(session.playCount).toBe(6);
+      expect(session.albums[0]).toEqual({
+        artist: 'Radiohead',
+        album: 'Ok Computer',
+        plays: 6,
+        tracksPlayed: 6,
+        knownTracks: 6,
+      });
+    });
+
+    it('should mark a run of one side as a partial play', async () => {
+      // Arrange - the whole album was played once before, then one side
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          ...playTracks(OK_COMPUTER, TRACKS, localSeconds(2026, 3, 2, 20)),
+          ...playTracks(
+            OK_COMPUTER,
+            TRACKS.slice(0, 3),
+            localSeconds(2026, 3, 10, 20)
+          ),
+        ])
+      );
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd);
+
+      // Assert
+      expect(result.totalSessions).toBe(2);
+      expect(result.fullAlbumPlays).toBe(1);
+      expect(result.partialPlays).toBe(1);
+      expect(result.days[0].date).toBe('2026-03-10');
+      expect(result.days[0].sessions[0].albums[0].tracksPlayed).toBe(3);
+    });
+
+    it('should split sessions at gaps longer than 30 minutes', async () => {
+      // Arrange - same album, two sittings an hour apart
+      const start = localSeconds(2026, 3, 10, 18);
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          ...playTracks(OK_COMPUTER, TRACKS.slice(0, 3), start),
+          ...playTracks(OK_COMPUTER, TRACKS.slice(3), start + 3600),
+        ])
+      );
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd);
+
+      // Assert
+      expect(result.totalSessions).toBe(2);
+      expect(result.partialPlays).toBe(2);
+      expect(result.days).toHaveLength(1);
+      expect(result.days[0].playCount).toBe(6);
+    });
+
+    it('should group short runs of different albums into a shuffle', async () => {
+      // Arrange
+      const start = localSeconds(2026, 3, 10, 20);
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          [OK_COMPUTER, 'One', start],
+          [KID_A, 'Idioteque', start + 240],
+          [IN_RAINBOWS, 'Reckoner', start + 480],
+          [OK_COMPUTER, 'Two', start + 720],
+        ])
+      );
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd);
+
+      // Assert
+      expect(result.totalSessions).toBe(1);
+      expect(result.shuffles).toBe(1);
+      const [session] = result.days[0].sessions;
+      expect(session.albums).toHaveLength(3);
+      expect(session.albums[0].plays).toBe(2);
+    });
+
+    it('should keep an album run separate from shuffled plays around it', async () => {
+      // Arrange
+      const start = localSeconds(2026, 3, 10, 20);
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          [KID_A, 'Idioteque', start],
+          [IN_RAINBOWS, 'Reckoner', start + 240],
+          ...playTracks(OK_COMPUTER, TRACKS, start + 480),
+        ])
+      );
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd);
+
+      // Assert
+      expect(result.totalSessions).toBe(2);
+      expect(result.shuffles).toBe(1);
+      expect(result.fullAlbumPlays).toBe(1);
+    });
+
+    it('should not call albums with under four known tracks full plays', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex(
+          playTracks(
+            'artist|ep',
+            ['One', 'Two', 'Three'],
+            localSeconds(2026, 3, 10, 20)
+          )
+        )
+      );
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd);
+
+      // Assert
+      expect(result.partialPlays).toBe(1);
+      expect(result.fullAlbumPlays).toBe(0);
+    });
+
+    it('should return days newest first and leave out sessions outside the range', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          ...playTracks(OK_COMPUTER, TRACKS, localSeconds(2026, 2, 20, 20)),
+          ...playTracks(OK_COMPUTER, TRACKS, localSeconds(2026, 3, 5, 20)),
+          ...playTracks(KID_A, TRACKS, localSeconds(2026, 3, 12, 20)),
+        ])
+      );
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd);
+
+      // Assert
+      expect(result.days.map(d => d.date)).toEqual([
+        '2026-03-12',
+        '2026-03-05',
+      ]);
+      expect(result.startDate).toBe(rangeStart);
+      expect(result.endDate).toBe(rangeEnd);
+    });
+
+    it('should only return sessions including the filtered album', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          ...playTracks(OK_COMPUTER, TRACKS, localSeconds(2026, 3, 5, 20)),
+          ...playTracks(KID_A, TRACKS, localSeconds(2026, 3, 12, 20)),
+        ])
+      );
+      mockHistoryStorage.getAlbumHistoryFuzzy.mockResolvedValue({
+        entry: null,
+        matchType: 'exact',
+        matchedKeys: [KID_A],
+      });
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd, {
+        artist: 'Radiohead',
+        album: 'Kid A',
+      });
+
+      // Assert
+      expect(mockHistoryStorage.getAlbumHistoryFuzzy).toHaveBeenCalledWith(
+        'Radiohead',
+        'Kid A',
+        { countsOnly: true }
+      );
+      expect(result.totalSessions).toBe(1);
+      expect(result.days[0].sessions[0].albums[0].album).toBe('Kid A');
+    });
+
+    it('should return no sessions when there is no history index', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(null);
+
+      // Act
+      const result = await service.getSessions(rangeStart, rangeEnd);
+
+      // Assert
+      expect(result).toEqual({
+        startDate: rangeStart,
+        endDate: rangeEnd,
+        totalSessions: 0,
+        fullAlbumPlays: 0,
+        partialPlays: 0,
+        shuffles: 0,
+        days: [],
+      });
+    });
+  });
+
+  describe('getWrappedStats', () => {
+    it('should report the album played in full most often', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        buildIndex([
+          ...playTracks(OK_COMPUTER, TRACKS, localSeconds(2026, 3, 5, 20)),
+          ...playTracks(KID_A, TRACKS, localSeconds(2026, 3, 6, 20)),
+          ...playTracks(KID_A, TRACKS, localSeconds(2026, 3, 7, 20)),
+          ...playTracks(
+            IN_RAINBOWS,
+            ['One', 'Two', 'Three'],
+            localSeconds(2026, 3, 8, 20)
+          ),
+        ])
+      );
+
+      // Act
+      const stats = await service.getWrappedStats(rangeStart, rangeEnd);
+
+      // Assert
+      expect(stats).toEqual({
+        totalSessions: 4,
+        fullAlbumPlays: 3,
+        partialPlays: 1,
+        shuffles: 0,
+        topFullAlbum: { artist: 'Radiohead', album: 'Kid A', count: 2 },
+      });
+    });
+
+    it('should have no top album when nothing was played in full', async () => {
+      // Arrange
+      mockHistoryStorage.getIndex.mockResolvedValue(null);
+
+      // Act
+      const stats = await service.getWrappedStats(rangeStart, rangeEnd);
+
+      // Assert
+      expect(stats.topFullAlbum).toBeNull();
+      expect(stats.totalSessions).toBe(0);
+    });
+  });
+});
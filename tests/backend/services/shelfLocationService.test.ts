@@ -0,0 +1,230 @@
+import fs from 'fs/promises';
+
+import {
+  CollectionEditError,
+  CollectionEditService,
+} from '../../../src/backend/services/collectionEditService';
+import { ShelfLocationService } from '../../../src/backend/services/shelfLocationService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { CollectionItem } from '../../../src/shared/types';
+
+describe('ShelfLocationService', () => {
+  let fileStorage: FileStorage;
+  let collectionEditService: jest.Mocked<CollectionEditService>;
+  let service: ShelfLocationService;
+  const testDataDir = './test-data-shelf-locations';
+
+  const createItem = (
+    id: number,
+    overrides: Partial<CollectionItem> = {}
+  ): CollectionItem => ({
+    id,
+    folder_id: 1,
+    date_added: '2024-01-15T10:00:00-08:00',
+    release: {
+      id: id * 100,
+      title: `Album ${id}`,
+      artist: `Artist ${id}`,
+      format: ['Vinyl'],
+      label: ['Label'],
+      resource_url: `https://api.discogs.com/releases/${id * 100}`,
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    fileStorage = new FileStorage(testDataDir);
+    await fileStorage.ensureDataDir();
+
+    collectionEditService = {
+      getInstance: jest.fn(async (_username: string, id: number) =>
+        id === 404 ? null : createItem(id)
+      ),
+      editInstance: jest.fn(async (_username: string, id: number) =>
+        createItem(id)
+      ),
+    } as unknown as jest.Mocked<CollectionEditService>;
+    service = new ShelfLocationService(fileStorage, collectionEditService);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch {
+      // Ignore
+    }
+  });
+
+  describe('setLocation', () => {
+    it('should save a location with the release it belongs to', async () => {
+      // Act
+      const result = await service.setLocation('collector', 1, {
+        shelf: 'B',
+        row: '2',
+        position: 14,
+      });
+
+      // Assert
+      expect(result.syncError).toBeUndefined();
+      expect(result.entry).toMatchObject({
+        shelf: 'B',
+        row: '2',
+        position: 14,
+        collectionItemId: 1,
+        releaseId: 100,
+        artist: 'Artist 1',
+        title: 'Album 1',
+      });
+      expect(await service.getLocation(1)).toEqual(result.entry);
+      expect(collectionEditService.editInstance).not.toHaveBeenCalled();
+    });
+
+    it('should persist locations across service instances', async () => {
+      // Arrange
+      await service.setLocation('collector', 1, { shelf: 'A' });
+
+      // Act
+      const reloaded = new ShelfLocationService(
+        fileStorage,
+        collectionEditService
+      );
+
+      // Assert
+      expect(await reloaded.getLocations()).toHaveLength(1);
+      expect((await reloaded.getLocation(1))?.shelf).toBe('A');
+    });
+
+    it('should clear a location with null', async () => {
+      // Arrange
+      await service.setLocation('collector', 1, { shelf: 'A' });
+
+      // Act
+      const result = await service.setLocation('collector', 1, null);
+
+      // Assert
+      expect(result.entry).toBeNull();
+      expect(await service.getLocation(1)).toBeNull();
+    });
+
+    it('should reject records missing from the collection cache', async () => {
+      // Act & Assert
+      await expect(
+        service.setLocation('collector', 404, { shelf: 'A' })
+      ).rejects.toBeInstanceOf(CollectionEditError);
+      expect(await service.getLocations()).toEqual([]);
+    });
+
+    it('should write the location to the mirrored Discogs field', async () => {
+      // Arrange
+      await service.setSyncFieldId(4);
+
+      // Act
+      await service.setLocation('collector', 1, {
+        shelf: 'B',
+        row: '2',
+        position: 14,
+      });
+      await service.setLocation('collector', 1, null);
+
+      // Assert
+      expect(collectionEditService.editInstance).toHaveBeenNthCalledWith(
+        1,
+        'collector',
+        1,
+        { type: 'field', fieldId: 4, value: 'Shelf B, Row 2, #14' }
+      );
+      expect(collectionEditService.editInstance).toHaveBeenNthCalledWith(
+        2,
+        'collector',
+        1,
+        { type: 'field', fieldId: 4, value: '' }
+      );
+    });
+
+    it('should keep the location when the Discogs write fails', async () => {
+      // Arrange
+      await service.setSyncFieldId(4);
+      collectionEditService.editInstance.mockRejectedValueOnce(
+        new Error('Discogs is down')
+      );
+
+      // Act
+      const result = await service.setLocation('collector', 1, {
+        shelf: 'C',
+      });
+
+      // Assert
+      expect(result.syncError).toBe('Discogs is down');
+      expect((await service.getLocation(1))?.shelf).toBe('C');
+    });
+  });
+
+  describe('setSyncFieldId', () => {
+    it('should set and clear the mirrored field', async () => {
+      // Act & Assert
+      await service.setSyncFieldId(4);
+      expect(await service.getSyncFieldId()).toBe(4);
+
+      await service.setSyncFieldId(null);
+      expect(await service.getSyncFieldId()).toBeUndefined();
+    });
+  });
+
+  describe('importFromField', () => {
+    beforeEach(async () => {
+      await fileStorage.writeJSON('collections/collector-page-1.json', {
+        success: true,
+        data: [
+          createItem(1, { notes: [{ field_id: 4, value: 'Shelf A, #3' }] }),
+          createItem(2, { notes: [{ field_id: 4, value: 'C/1/9' }] }),
+          createItem(3, { notes: [{ field_id: 4, value: 'Signed copy' }] }),
+          createItem(4, { notes: [{ field_id: 5, value: 'Shelf D' }] }),
+          createItem(5),
+        ],
+        timestamp: Date.now(),
+      });
+    });
+
+    it('should require a mirrored field', async () => {
+      // Act & Assert
+      await expect(service.importFromField('collector')).rejects.toThrow(
+        'Choose a Discogs note field'
+      );
+    });
+
+    it('should import parsable locations from the mirrored field', async () => {
+      // Arrange
+      await service.setSyncFieldId(4);
+
+      // Act
+      const result = await service.importFromField('collector');
+
+      // Assert
+      expect(result).toEqual({ imported: 2, skipped: 1 });
+      expect(await service.getLocation(1)).toMatchObject({
+        shelf: 'A',
+        position: 3,
+        releaseId: 100,
+      });
+      expect(await service.getLocation(2)).toMatchObject({
+        shelf: 'C',
+        row: '1',
+        position: 9,
+      });
+      expect(await service.getLocation(4)).toBeNull();
+    });
+
+    it('should not overwrite locations set here', async () => {
+      // Arrange
+      await service.setLocation('collector', 1, { shelf: 'Z' });
+      await service.setSyncFieldId(4);
+
+      // Act
+      const result = await service.importFromField('collector');
+
+      // Assert
+      expect(result).toEqual({ imported: 1, skipped: 2 });
+      expect((await service.getLocation(1))?.shelf).toBe('Z');
+    });
+  });
+});
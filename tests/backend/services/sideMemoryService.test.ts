@@ -0,0 +1,85 @@
+import { SideMemoryService } from '../../../src/backend/services/sideMemoryService';
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { SideMemoryStore } from '../../../src/shared/types';
+import { mockJSONFiles } from '../../fixtures/fileStorageFixtures';
+
+jest.mock('../../../src/backend/utils/fileStorage');
+
+const MockedFileStorage = FileStorage as jest.MockedClass<typeof FileStorage>;
+
+const NOW = new Date('2024-03-10T12:00:00Z').getTime();
+
+describe('SideMemoryService', () => {
+  let service: SideMemoryService;
+  let mockFileStorage: jest.Mocked<FileStorage>;
+  let files: Record<string, unknown>;
+
+  const storedMemory = () =>
+    files['scrobbles/side-memory.json'] as SideMemoryStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+
+    mockFileStorage = new MockedFileStorage('test') as jest.Mocked<FileStorage>;
+    files = mockJSONFiles(mockFileStorage);
+
+    service = new SideMemoryService(mockFileStorage);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return null for a release that was never played by side', async () => {
+    // Act & Assert
+    expect(await service.getMemory(123)).toBeNull();
+  });
+
+  it('should record the sides played and the side the record was left on', async () => {
+    // Act
+    const memory = await service.recordPlay(123, ['d', 'C', 'C']);
+
+    // Assert
+    expect(memory).toEqual({
+      releaseId: 123,
+      sides: ['C', 'D'],
+      lastSide: 'D',
+      playedAt: NOW,
+    });
+    expect(storedMemory().releases['123']).toEqual(memory);
+  });
+
+  it('should replace the previous play of the same release', async () => {
+    // Arrange
+    await service.recordPlay(123, ['A']);
+
+    // Act
+    await service.recordPlay(123, ['B']);
+
+    // Assert
+    expect((await service.getMemory(123))?.lastSide).toBe('B');
+  });
+
+  it('should ignore plays without any vinyl sides', async () => {
+    // Act
+    const memory = await service.recordPlay(123, ['1', 'CD']);
+
+    // Assert
+    expect(memory).toBeNull();
+    expect(mockFileStorage.writeJSON).not.toHaveBeenCalled();
+  });
+
+  it('should load memory saved by an earlier run', async () => {
+    // Arrange
+    files['scrobbles/side-memory.json'] = {
+      schemaVersion: 1,
+      releases: {
+        '456': { releaseId: 456, sides: ['A'], lastSide: 'A', playedAt: 1 },
+      },
+    };
+
+    // Act & Assert
+    expect((await service.getMemory(456))?.lastSide).toBe('A');
+  });
+});
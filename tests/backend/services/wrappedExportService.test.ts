@@ -0,0 +1,231 @@
+import { HiddenItemService } from '../../../src/backend/services/hiddenItemService';
+import { ImageService } from '../../../src/backend/services/imageService';
+import { WrappedExportService } from '../../../src/backend/services/wrappedExportService';
+import { WrappedService } from '../../../src/backend/services/wrappedService';
+import { WrappedData } from '../../../src/shared/types';
+
+jest.mock('../../../src/backend/services/wrappedService');
+jest.mock('../../../src/backend/services/imageService');
+jest.mock('../../../src/backend/services/hiddenItemService');
+
+const MockedWrappedService = WrappedService as jest.MockedClass<
+  typeof WrappedService
+>;
+const MockedImageService = ImageService as jest.MockedClass<
+  typeof ImageService
+>;
+const MockedHiddenItemService = HiddenItemService as jest.MockedClass<
+  typeof HiddenItemService
+>;
+
+// 1x1 transparent PNG
+const PIXEL_DATA_URI =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const startMs = new Date(2024, 0, 1).getTime();
+const endMs = new Date(2024, 11, 31, 23, 59, 59).getTime();
+
+const createWrappedData = (): WrappedData => ({
+  startDate: startMs,
+  endDate: endMs,
+  generatedAt: new Date(2025, 0, 2).getTime(),
+  listening: {
+    totalScrobbles: 2847,
+    estimatedListeningHours: 166,
+    uniqueArtists: 145,
+    uniqueAlbums: 312,
+    topArtists: [
+      {
+        name: 'Radiohead',
+        artist: 'Radiohead',
+        playCount: 142,
+        imageUrl: 'https://img.example/radiohead.jpg',
+      },
+      { name: 'Guilty Pleasure', artist: 'Guilty Pleasure', playCount: 90 },
+    ],
+    topAlbums: [
+      {
+        name: 'Radiohead - OK Computer',
+        artist: 'Radiohead',
+        album: 'OK Computer',
+        playCount: 47,
+        imageUrl: 'https://img.example/okc.jpg',
+      },
+      {
+        name: 'Radiohead - Pablo Honey',
+        artist: 'Radiohead',
+        album: 'Pablo Honey',
+        playCount: 30,
+        imageUrl: 'https://img.example/pablo.jpg',
+      },
+    ],
+    topTracks: [
+      {
+        name: 'Creep',
+        artist: 'Radiohead',
+        album: 'Pablo Honey',
+        playCount: 23,
+      },
+      {
+        name: 'Secret Song',
+        artist: 'Guilty Pleasure',
+        playCount: 20,
+      },
+    ],
+    newArtistsDiscovered: 1,
+    newArtistsList: [
+      { name: 'Guilty Pleasure', playCount: 90, firstPlayDate: startMs },
+    ],
+    peakListeningDay: { date: '2024-06-15', scrobbleCount: 85 },
+    peakListeningHour: { hour: 20, scrobbleCount: 342 },
+    longestStreak: null,
+    heatmapData: [],
+  },
+  collection: {
+    recordsAdded: 1,
+    recordsList: [
+      { artist: 'Radiohead', title: 'Pablo Honey', dateAdded: startMs },
+    ],
+    mostPlayedNewAddition: null,
+  },
+  crossSource: {
+    collectionCoverage: 0,
+    totalCollectionSize: 0,
+    albumsPlayed: 0,
+    vinylScrobbles: 0,
+    otherScrobbles: 0,
+    vinylPercentage: 0,
+  },
+});
+
+describe('WrappedExportService', () => {
+  let service: WrappedExportService;
+  let mockWrappedService: jest.Mocked<WrappedService>;
+  let mockImageService: jest.Mocked<ImageService>;
+  let mockHiddenItemService: jest.Mocked<HiddenItemService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockWrappedService = new MockedWrappedService(
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any
+    ) as jest.Mocked<WrappedService>;
+    mockImageService = new MockedImageService(
+      {} as any,
+      {} as any
+    ) as jest.Mocked<ImageService>;
+    mockHiddenItemService = new MockedHiddenItemService(
+      {} as any
+    ) as jest.Mocked<HiddenItemService>;
+
+    mockWrappedService.generateWrapped.mockResolvedValue(createWrappedData());
+    mockImageService.getImageDataUri.mockResolvedValue(PIXEL_DATA_URI);
+    mockHiddenItemService.getAllHiddenArtists.mockResolvedValue([
+      { artist: 'guilty pleasure', hiddenAt: 0 },
+    ]);
+    mockHiddenItemService.getAllHiddenAlbums.mockResolvedValue([
+      { artist: 'radiohead', album: 'pablo honey', hiddenAt: 0 },
+    ]);
+
+    service = new WrappedExportService(
+      mockWrappedService,
+      mockImageService,
+      mockHiddenItemService
+    );
+  });
+
+  describe('exportHtml', () => {
+    it('should inline cover art downloaded through ImageService', async () => {
+      // Act
+      const html = await service.exportHtml(startMs, endMs);
+
+      // Assert
+      expect(mockImageService.getImageDataUri).toHaveBeenCalledWith(
+        'https://img.example/okc.jpg'
+      );
+      expect(html).toContain(`src="${PIXEL_DATA_URI}"`);
+      expect(html).not.toContain('https://img.example');
+      expect(html).toContain('Guilty Pleasure');
+    });
+
+    it('should redact hidden artists and albums when asked', async () => {
+      // Act
+      const html = await service.exportHtml(startMs, endMs, {
+        redactHidden: true,
+      });
+
+      // Assert
+      expect(html).not.toContain('Guilty Pleasure');
+      expect(html).not.toContain('Pablo Honey');
+      expect(html).not.toContain('Creep');
+      expect(html).not.toContain('Secret Song');
+      expect(html).toContain('Hidden artist');
+      expect(html).toContain('Hidden album');
+      expect(html).toContain('OK Computer');
+      expect(mockImageService.getImageDataUri).not.toHaveBeenCalledWith(
+        'https://img.example/pablo.jpg'
+      );
+    });
+
+    it('should leave out images that could not be downloaded', async () => {
+      // Arrange
+      mockImageService.getImageDataUri.mockResolvedValue(null);
+
+      // Act
+      const html = await service.exportHtml(startMs, endMs);
+
+      // Assert
+      expect(html).not.toContain('<img');
+    });
+  });
+
+  describe('cards', () => {
+    it('should list cards and reuse one Wrapped generation for them', async () => {
+      // Act
+      const cards = await service.listCards(startMs, endMs);
+      await service.renderCardPng(startMs, endMs, 'total');
+
+      // Assert
+      expect(cards[0]).toEqual({ id: 'total', title: 'Total Scrobbles' });
+      expect(cards.map(c => c.id)).toContain('records');
+      expect(mockWrappedService.generateWrapped).toHaveBeenCalledTimes(1);
+    });
+
+    it('should regenerate when the redaction option changes', async () => {
+      // Act
+      await service.listCards(startMs, endMs);
+      await service.listCards(startMs, endMs, { redactHidden: true });
+
+      // Assert
+      expect(mockWrappedService.generateWrapped).toHaveBeenCalledTimes(2);
+    });
+
+    it('should render a card as a PNG', async () => {
+      // Act
+      const png = await service.renderCardPng(startMs, endMs, 'top-albums');
+
+      // Assert
+      expect(png).not.toBeNull();
+      expect(png!.subarray(0, 8).equals(PNG_SIGNATURE)).toBe(true);
+      // Width and height from the IHDR chunk
+      expect(png!.readUInt32BE(16)).toBe(1080);
+      expect(png!.readUInt32BE(20)).toBe(1920);
+    });
+
+    it('should return null for a card the period does not have', async () => {
+      // Act
+      const png = await service.renderCardPng(startMs, endMs, 'vinyl');
+
+      // Assert
+      expect(png).toBeNull();
+    });
+  });
+});
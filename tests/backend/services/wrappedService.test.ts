@@ -1,6 +1,7 @@
 import { DiscogsService } from '../../../src/backend/services/discogsService';
 import { ImageService } from '../../../src/backend/services/imageService';
 import { ScrobbleHistoryStorage } from '../../../src/backend/services/scrobbleHistoryStorage';
+import { SessionReconstructionService } from '../../../src/backend/services/sessionReconstructionService';
 import { StatsService } from '../../../src/backend/services/statsService';
 import { WrappedService } from '../../../src/backend/services/wrappedService';
 import { FileStorage } from '../../../src/backend/utils/fileStorage';
@@ -11,6 +12,7 @@ jest.mock('../../../src/backend/services/statsService');
 jest.mock('../../../src/backend/services/scrobbleHistoryStorage');
 jest.mock('../../../src/backend/services/discogsService');
 jest.mock('../../../src/backend/services/imageService');
+jest.mock('../../../src/backend/services/sessionReconstructionService');
 jest.mock('../../../src/backend/utils/fileStorage');
 
 const MockedStatsService = StatsService as jest.MockedClass<
@@ -25,6 +27,10 @@ const MockedDiscogsService = DiscogsService as jest.MockedClass<
 const MockedImageService = ImageService as jest.MockedClass<
   typeof ImageService
 >;
+const MockedSessionReconstructionService =
+  SessionReconstructionService as jest.MockedClass<
+    typeof SessionReconstructionService
+  >;
 const MockedFileStorage = FileStorage as jest.MockedClass<typeof FileStorage>;
 
 describe('WrappedService', () => {
@@ -352,6 +358,52 @@ describe('WrappedService', () => {
     });
   });
 
+  describe('listening sessions', () => {
+    it('should leave session stats out without session reconstruction', async () => {
+      // Act
+      const result = await wrappedService.generateWrapped(
+        startDateMs,
+        endDateMs
+      );
+
+      // Assert
+      expect(result.listening.sessions).toBeUndefined();
+    });
+
+    it('should include session stats for the range', async () => {
+      // Arrange
+      const mockSessionService = new MockedSessionReconstructionService(
+        mockHistoryStorage
+      ) as jest.Mocked<SessionReconstructionService>;
+      const sessionStats = {
+        totalSessions: 5,
+        fullAlbumPlays: 2,
+        partialPlays: 2,
+        shuffles: 1,
+        topFullAlbum: { artist: 'Radiohead', album: 'OK Computer', count: 2 },
+      };
+      mockSessionService.getWrappedStats.mockResolvedValue(sessionStats);
+      const service = new WrappedService(
+        mockStatsService,
+        mockHistoryStorage,
+        mockDiscogsService,
+        mockImageService,
+        mockFileStorage,
+        mockSessionService
+      );
+
+      // Act
+      const result = await service.generateWrapped(startDateMs, endDateMs);
+
+      // Assert
+      expect(result.listening.sessions).toEqual(sessionStats);
+      expect(mockSessionService.getWrappedStats).toHaveBeenCalledWith(
+        startDateMs / 1000,
+        endDateMs / 1000
+      );
+    });
+  });
+
   describe('empty data handling', () => {
     it('should handle empty scrobble history gracefully', async () => {
       // Arrange
@@ -557,35 +609,16 @@ describe('WrappedService', () => {
       expect(result.crossSource.collectionCoverage).toBe(0);
     });
 
-    it('should compute vinyl vs digital breakdown from session files', async () => {
-      // Arrange: mock session files that match some scrobble timestamps
-      const march1Timestamp = new Date('2024-03-01T20:00:00Z').getTime() / 1000;
-      const march2Timestamp = new Date('2024-03-02T20:00:00Z').getTime() / 1000;
-
-      mockFileStorage.listFiles = jest
-        .fn()
-        .mockResolvedValue(['session-abc.json']);
-
-      mockFileStorage.readJSON = jest
-        .fn()
-        .mockImplementation((path: string) => {
-          if (path === 'scrobbles/session-abc.json') {
-            return Promise.resolve({
-              id: 'abc',
-              status: 'completed',
-              tracks: [
-                { timestamp: march1Timestamp },
-                { timestamp: march2Timestamp },
-              ],
-              timestamp: Date.now(),
-              albumInfo: {},
-            });
-          }
-          if (path === 'settings/user-settings.json') {
-            return Promise.resolve(null);
-          }
-          return Promise.resolve(null);
-        });
+    it('should compute vinyl vs digital breakdown from play sources', async () => {
+      // Arrange: tag two plays as scrobbled from records
+      const taggedIndex: ScrobbleHistoryIndex = JSON.parse(
+        JSON.stringify(sampleIndex)
+      );
+      const plays = taggedIndex.albums['radiohead|ok computer'].plays;
+      plays[0].source = 'app';
+      plays[1].source = 'recognized';
+      plays[2].source = 'external';
+      mockHistoryStorage.getIndex = jest.fn().mockResolvedValue(taggedIndex);
 
       // Act
       const result = await wrappedService.generateWrapped(
@@ -593,7 +626,8 @@ describe('WrappedService', () => {
         endDateMs
       );
 
-      // Assert: 2 scrobbles match session timestamps (vinyl), rest are other
+      // Assert: 2 plays came off records, the rest (tagged external or
+      // untagged) are other
       expect(result.crossSource.vinylScrobbles).toBe(2);
       expect(result.crossSource.otherScrobbles).toBe(
         result.listening.totalScrobbles - 2
@@ -750,4 +784,109 @@ describe('WrappedService', () => {
       expect(result.collection.mostPlayedNewAddition).toBeNull();
     });
   });
+
+  describe('compareWrapped', () => {
+    const previousStartMs = new Date('2023-01-01T00:00:00Z').getTime();
+    const previousEndMs = new Date('2023-12-31T23:59:59Z').getTime();
+
+    beforeEach(() => {
+      // 2023: Pink Floyd on top, Massive Attack at #2, Radiohead at #3
+      mockStatsService.getTopArtists = jest
+        .fn()
+        .mockImplementation((_period, limit: number, startSec: number) =>
+          Promise.resolve(
+            (startSec === startDateMs / 1000
+              ? [
+                  { artist: 'Radiohead', playCount: 4 },
+                  { artist: 'Pink Floyd', playCount: 2 },
+                  { artist: 'Boards of Canada', playCount: 2 },
+                ]
+              : [
+                  { artist: 'Pink Floyd', playCount: 9 },
+                  { artist: 'Massive Attack', playCount: 5 },
+                  { artist: 'Radiohead', playCount: 1 },
+                ]
+            ).slice(0, limit)
+          )
+        );
+    });
+
+    it('should compare listening stats between the two periods', async () => {
+      // Act
+      const result = await wrappedService.compareWrapped(
+        startDateMs,
+        endDateMs,
+        previousStartMs,
+        previousEndMs
+      );
+
+      // Assert: 8 plays in 2024, 1 in 2023
+      expect(result.current.listening.totalScrobbles).toBe(8);
+      expect(result.previous.listening.totalScrobbles).toBe(1);
+      expect(result.listening.totalScrobbles).toEqual({
+        current: 8,
+        previous: 1,
+        change: 7,
+        percentChange: 700,
+      });
+      expect(result.collection.recordsAdded.change).toBe(0);
+    });
+
+    it('should rank movements across full rankings', async () => {
+      // Act
+      const result = await wrappedService.compareWrapped(
+        startDateMs,
+        endDateMs,
+        previousStartMs,
+        previousEndMs
+      );
+
+      // Assert
+      expect(mockStatsService.getTopArtists).toHaveBeenCalledWith(
+        'custom',
+        Number.MAX_SAFE_INTEGER,
+        previousStartMs / 1000,
+        previousEndMs / 1000
+      );
+      expect(result.topArtists.biggestClimber).toMatchObject({
+        name: 'Radiohead',
+        previousRank: 3,
+        currentRank: 1,
+        movement: 2,
+      });
+      expect(result.topArtists.newEntries.map(a => a.name)).toEqual([
+        'Boards of Canada',
+      ]);
+      expect(result.stoppedPlaying).toEqual([
+        expect.objectContaining({
+          name: 'Massive Attack',
+          previousRank: 2,
+          currentRank: null,
+          previousPlayCount: 5,
+        }),
+      ]);
+    });
+
+    it('should add images to compared artists', async () => {
+      // Arrange
+      mockImageService.batchGetArtistImages = jest
+        .fn()
+        .mockResolvedValue(
+          new Map([['massive attack', 'https://img.example/ma.jpg']])
+        );
+
+      // Act
+      const result = await wrappedService.compareWrapped(
+        startDateMs,
+        endDateMs,
+        previousStartMs,
+        previousEndMs
+      );
+
+      // Assert
+      expect(result.stoppedPlaying[0].imageUrl).toBe(
+        'https://img.example/ma.jpg'
+      );
+    });
+  });
 });
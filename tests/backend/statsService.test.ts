@@ -1,10 +1,15 @@
 import { ArtistNameResolver } from '../../src/backend/services/artistNameResolver';
 import { MappingService } from '../../src/backend/services/mappingService';
+import { PlayDatabase } from '../../src/backend/services/playDatabase';
 import { ScrobbleHistoryStorage } from '../../src/backend/services/scrobbleHistoryStorage';
 import { StatsService } from '../../src/backend/services/statsService';
 import { TrackMappingService } from '../../src/backend/services/trackMappingService';
 import { FileStorage } from '../../src/backend/utils/fileStorage';
-import { CollectionItem, ScrobbleHistoryIndex } from '../../src/shared/types';
+import {
+  CollectionItem,
+  ScrobbleHistoryEntry,
+  ScrobbleHistoryIndex,
+} from '../../src/shared/types';
 
 // Mock dependencies
 jest.mock('../../src/backend/services/scrobbleHistoryStorage');
@@ -46,7 +51,7 @@ describe('StatsService', () => {
   const createMockIndex = (
     albums: Record<
       string,
-      { lastPlayed: number; playCount: number; plays: { timestamp: number }[] }
+      { lastPlayed: number; playCount: number; plays: ScrobbleHistoryEntry[] }
     > = {}
   ): ScrobbleHistoryIndex => ({
     albums,
@@ -4161,4 +4166,182 @@ describe('StatsService', () => {
       expect(live?.inCollection).toBe(false);
     });
   });
+
+  describe('play sources', () => {
+    // 2024-01-15 and 2024-02-15, midday UTC
+    const jan = 1705320000;
+    const feb = 1707998400;
+
+    beforeEach(() => {
+      mockHistoryStorage.getIndex.mockResolvedValue(
+        createMockIndex({
+          'radiohead|ok computer': {
+            lastPlayed: feb,
+            playCount: 4,
+            plays: [
+              { timestamp: jan, source: 'app' },
+              { timestamp: jan + 300, source: 'recognized' },
+              { timestamp: feb, source: 'external' },
+              { timestamp: feb + 300 },
+            ],
+          },
+          'radiohead|kid a': {
+            lastPlayed: feb,
+            playCount: 1,
+            plays: [{ timestamp: feb + 600, source: 'memory' }],
+          },
+        })
+      );
+    });
+
+    it('should count tagged record plays as RecordScrobbles', async () => {
+      // Act
+      const result = await statsService.getSourceBreakdown();
+
+      // Assert - untagged plays count as other
+      expect(result).toEqual([
+        { source: 'RecordScrobbles', count: 3, percentage: 60 },
+        { source: 'Other', count: 2, percentage: 40 },
+      ]);
+    });
+
+    it('should split plays per album, artist and month', async () => {
+      // Act
+      const report = await statsService.getSourceSplits();
+
+      // Assert
+      expect(report.total).toEqual({
+        physical: 3,
+        streaming: 2,
+        physicalPercentage: 60,
+        bySource: { app: 1, recognized: 1, memory: 1, external: 2 },
+      });
+      expect(
+        report.albums.map(a => [a.album, a.physical, a.streaming])
+      ).toEqual([
+        ['Ok Computer', 2, 2],
+        ['Kid A', 1, 0],
+      ]);
+      expect(report.artists).toHaveLength(1);
+      expect(report.artists[0]).toMatchObject({
+        artist: 'Radiohead',
+        physical: 3,
+        streaming: 2,
+      });
+      expect(
+        report.periods.map(p => [p.period, p.physical, p.streaming])
+      ).toEqual([
+        ['2024-01', 2, 0],
+        ['2024-02', 1, 2],
+      ]);
+    });
+
+    it('should limit splits to a date range', async () => {
+      // Act
+      const report = await statsService.getSourceSplits(20, feb, feb + 3600);
+
+      // Assert
+      expect(report.total.physical).toBe(1);
+      expect(report.total.streaming).toBe(2);
+      expect(report.periods.map(p => p.period)).toEqual(['2024-02']);
+    });
+  });
+
+  describe('with a play database', () => {
+    let mockPlayDatabase: jest.Mocked<PlayDatabase>;
+
+    beforeEach(() => {
+      mockPlayDatabase = {
+        getArtistPlayCounts: jest.fn().mockReturnValue([]),
+        getAlbumPlayCounts: jest.fn().mockReturnValue([]),
+        getTrackPlayCounts: jest.fn().mockReturnValue([]),
+        getDailyPlayCounts: jest.fn().mockReturnValue([]),
+        getOnThisDayPlayCounts: jest.fn().mockReturnValue([]),
+      } as unknown as jest.Mocked<PlayDatabase>;
+      statsService.setPlayDatabase(mockPlayDatabase);
+    });
+
+    it('should rank artists from SQL counts without reading the index', async () => {
+      // Arrange
+      mockPlayDatabase.getArtistPlayCounts.mockReturnValue([
+        { artist: 'pink floyd', playCount: 40 },
+        { artist: 'radiohead', playCount: 80 },
+      ]);
+
+      // Act
+      const topArtists = await statsService.getTopArtists('all', 10);
+
+      // Assert
+      expect(mockHistoryStorage.getIndex).not.toHaveBeenCalled();
+      expect(topArtists.map(a => [a.artist, a.playCount])).toEqual([
+        ['Radiohead', 80],
+        ['Pink Floyd', 40],
+      ]);
+    });
+
+    it('should merge track spellings that normalize alike', async () => {
+      // Arrange
+      const now = Math.floor(Date.now() / 1000);
+      mockPlayDatabase.getTrackPlayCounts.mockReturnValue([
+        {
+          artist: 'radiohead',
+          album: 'kid a',
+          track: 'Idioteque',
+          playCount: 3,
+          lastPlayed: now - 60,
+        },
+        {
+          artist: 'radiohead',
+          album: 'kid a',
+          track: 'idioteque',
+          playCount: 2,
+          lastPlayed: now,
+        },
+      ]);
+
+      // Act
+      const topTracks = await statsService.getTopTracks('all', 10);
+
+      // Assert
+      expect(topTracks).toHaveLength(1);
+      expect(topTracks[0].playCount).toBe(5);
+      expect(topTracks[0].lastPlayed).toBe(now);
+    });
+
+    it('should query the heatmap for the requested year', async () => {
+      // Arrange
+      mockPlayDatabase.getDailyPlayCounts.mockReturnValue([
+        { date: '2024-01-15', count: 3 },
+      ]);
+
+      // Act
+      const heatmap = await statsService.getCalendarHeatmap(2024);
+
+      // Assert
+      expect(heatmap).toEqual([{ date: '2024-01-15', count: 3 }]);
+      expect(mockPlayDatabase.getDailyPlayCounts).toHaveBeenCalledWith(
+        new Date(2024, 0, 1).getTime() / 1000,
+        new Date(2025, 0, 1).getTime() / 1000
+      );
+    });
+
+    it('should group on-this-day rows by year', async () => {
+      // Arrange
+      mockPlayDatabase.getOnThisDayPlayCounts.mockReturnValue([
+        { year: 2020, artist: 'radiohead', album: 'kid a', playCount: 2 },
+        { year: 2020, artist: 'bjork', album: 'homogenic', playCount: 1 },
+      ]);
+
+      // Act
+      const result = await statsService.getOnThisDay(3, 14);
+
+      // Assert
+      expect(mockPlayDatabase.getOnThisDayPlayCounts).toHaveBeenCalledWith(
+        3,
+        14
+      );
+      expect(result.years).toHaveLength(1);
+      expect(result.years[0].totalScrobbles).toBe(3);
+    });
+  });
 });
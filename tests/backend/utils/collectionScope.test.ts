@@ -0,0 +1,114 @@
+import { CollectionItem } from '../../../src/shared/types';
+import {
+  filterByCollectionScope,
+  isCollectionScopeActive,
+  matchesCollectionScope,
+  parseCollectionScope,
+} from '../../../src/shared/utils/collectionScope';
+
+const createItem = (
+  id: number,
+  overrides: Partial<CollectionItem> = {}
+): CollectionItem => ({
+  id,
+  folder_id: 1,
+  date_added: '2024-01-15T10:00:00Z',
+  release: {
+    id: id * 100,
+    title: `Album ${id}`,
+    artist: `Artist ${id}`,
+    format: ['Vinyl'],
+    label: ['Label'],
+    resource_url: `https://api.discogs.com/releases/${id * 100}`,
+  },
+  ...overrides,
+});
+
+describe('isCollectionScopeActive', () => {
+  it.each([
+    [undefined, false],
+    [{}, false],
+    [{ folderId: 0 }, false],
+    [{ fieldValues: { '1': '  ' } }, false],
+    [{ folderId: 5 }, true],
+    [{ fieldValues: { '1': 'Mint (M)' } }, true],
+  ])('reports %p as %p', (scope, active) => {
+    expect(isCollectionScopeActive(scope)).toBe(active);
+  });
+});
+
+describe('matchesCollectionScope', () => {
+  const item = createItem(1, {
+    folder_id: 5,
+    notes: [
+      { field_id: 1, value: 'Near Mint (NM or M-)' },
+      { field_id: 3, value: 'Living room shelf, row 2' },
+    ],
+  });
+
+  it('matches on folder id', () => {
+    expect(matchesCollectionScope(item, { folderId: 5 })).toBe(true);
+    expect(matchesCollectionScope(item, { folderId: 6 })).toBe(false);
+  });
+
+  it('matches field values case-insensitively within the note', () => {
+    expect(
+      matchesCollectionScope(item, {
+        fieldValues: { '1': 'near mint (nm or m-)', '3': 'LIVING ROOM' },
+      })
+    ).toBe(true);
+    expect(
+      matchesCollectionScope(item, { fieldValues: { '3': 'basement' } })
+    ).toBe(false);
+  });
+
+  it('does not match items without the note', () => {
+    expect(
+      matchesCollectionScope(createItem(2), { fieldValues: { '3': 'shelf' } })
+    ).toBe(false);
+  });
+
+  it('does not match a folder for items cached without a folder id', () => {
+    expect(
+      matchesCollectionScope(createItem(2, { folder_id: undefined }), {
+        folderId: 1,
+      })
+    ).toBe(false);
+  });
+});
+
+describe('filterByCollectionScope', () => {
+  it('returns the same array when the scope is empty', () => {
+    const items = [createItem(1), createItem(2)];
+    expect(filterByCollectionScope(items, {})).toBe(items);
+  });
+
+  it('keeps only items in the scope', () => {
+    const items = [createItem(1), createItem(2, { folder_id: 5 })];
+    expect(
+      filterByCollectionScope(items, { folderId: 5 }).map(i => i.id)
+    ).toEqual([2]);
+  });
+});
+
+describe('parseCollectionScope', () => {
+  it('keeps a valid folder and non-empty field values', () => {
+    expect(
+      parseCollectionScope({
+        folderId: '5',
+        fieldValues: { '1': ' Mint (M) ', '2': '' },
+      })
+    ).toEqual({ folderId: 5, fieldValues: { '1': 'Mint (M)' } });
+  });
+
+  it.each([
+    null,
+    'folder',
+    {},
+    { folderId: 0 },
+    { folderId: -3 },
+    { fieldValues: { name: 'x', '2': 7 } },
+  ])('returns undefined for %p', raw => {
+    expect(parseCollectionScope(raw)).toBeUndefined();
+  });
+});
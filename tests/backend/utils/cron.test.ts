@@ -0,0 +1,69 @@
+import {
+  CronError,
+  isValidCron,
+  nextCronTime,
+  parseCron,
+} from '../../../src/backend/utils/cron';
+
+// Sunday 10 March 2024, 12:00 local time
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2024, 2, day, hours, minutes);
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should expand ranges, steps and lists', () => {
+      // Act
+      const schedule = parseCron('*/15 8-18/5 1,15 * 1-5');
+
+      // Assert
+      expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+      expect(Array.from(schedule.hours)).toEqual([8, 13, 18]);
+      expect(Array.from(schedule.daysOfMonth)).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect(Array.from(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday and accept shorthands', () => {
+      expect(Array.from(parseCron('0 0 * * 7').daysOfWeek)).toEqual([0]);
+      expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow(CronError);
+      expect(() => parseCron('60 * * * *')).toThrow(
+        'minute must be between 0 and 59'
+      );
+      expect(() => parseCron('*/0 * * * *')).toThrow(CronError);
+      expect(() => parseCron('5-1 * * * *')).toThrow(CronError);
+      expect(isValidCron('every day')).toBe(false);
+    });
+  });
+
+  describe('nextCronTime', () => {
+    it('should return the next matching minute after the given time', () => {
+      expect(nextCronTime('*/15 * * * *', at(10, 12, 7))).toEqual(
+        at(10, 12, 15)
+      );
+      // Strictly after: a run at exactly 12:00 is not returned again
+      expect(nextCronTime('0 */6 * * *', at(10, 12))).toEqual(at(10, 18));
+    });
+
+    it('should roll over days and months', () => {
+      expect(nextCronTime('30 3 * * 1', at(10, 12))).toEqual(at(11, 3, 30));
+      expect(nextCronTime('0 0 1 * *', at(10, 12))).toEqual(
+        new Date(2024, 3, 1, 0, 0)
+      );
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 15th or any Monday, whichever comes first
+      expect(nextCronTime('0 9 15 * 1', at(10, 12))).toEqual(at(11, 9));
+    });
+
+    it('should throw for a schedule that never runs', () => {
+      expect(() => nextCronTime('0 0 31 2 *', at(10, 12))).toThrow(
+        'never runs'
+      );
+    });
+  });
+});
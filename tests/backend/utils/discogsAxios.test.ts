@@ -0,0 +1,214 @@
+import { AxiosInstance } from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+
+import { FileStorage } from '../../../src/backend/utils/fileStorage';
+import { mockJSONFiles } from '../../fixtures/fileStorageFixtures';
+
+jest.mock('../../../src/backend/utils/fileStorage');
+
+type DiscogsClient = typeof import('../../../src/backend/utils/discogsAxios');
+
+const NOW = new Date(2024, 2, 10, 12, 0).getTime();
+
+const rateLimitHeaders = (remaining: number) => ({
+  'x-discogs-ratelimit': '60',
+  'x-discogs-ratelimit-used': String(60 - remaining),
+  'x-discogs-ratelimit-remaining': String(remaining),
+});
+
+describe('discogsAxios', () => {
+  let client: DiscogsClient;
+  let instance: AxiosInstance;
+  let mockAdapter: MockAdapter;
+  let files: Record<string, unknown>;
+  let mockFileStorage: jest.Mocked<FileStorage>;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+
+    // The token bucket and counters are module state; start each test fresh
+    jest.resetModules();
+    client = require('../../../src/backend/utils/discogsAxios');
+    instance = client.getDiscogsAxios();
+    mockAdapter = new MockAdapter(instance);
+
+    mockFileStorage = new FileStorage('test') as jest.Mocked<FileStorage>;
+    files = mockJSONFiles(mockFileStorage);
+  });
+
+  afterEach(() => {
+    mockAdapter.restore();
+    jest.useRealTimers();
+  });
+
+  describe('rate-limit budget', () => {
+    it('should read the rate-limit headers into the budget', async () => {
+      // Arrange
+      mockAdapter
+        .onGet('/releases/1')
+        .reply(200, { id: 1 }, rateLimitHeaders(42));
+
+      // Act
+      await instance.get('/releases/1');
+
+      // Assert
+      expect(client.getDiscogsBudget()).toMatchObject({
+        limit: 60,
+        used: 18,
+        remaining: 42,
+        isThrottled: false,
+        lastUpdated: NOW,
+        queued: { interactive: 0, background: 0 },
+        requests: { interactive: 1, background: 0 },
+      });
+    });
+
+    it('should count requests made inside withDiscogsPriority as background', async () => {
+      // Arrange
+      mockAdapter.onGet('/releases/1').reply(200, {});
+
+      // Act
+      await client.withDiscogsPriority('background', () =>
+        instance.get('/releases/1')
+      );
+
+      // Assert
+      expect(client.getDiscogsBudget().requests).toEqual({
+        interactive: 0,
+        background: 1,
+      });
+    });
+
+    it('should record a 429 and report the budget as throttled', async () => {
+      // Arrange
+      mockAdapter.onGet('/releases/1').reply(429, {}, rateLimitHeaders(0));
+
+      // Act
+      await expect(instance.get('/releases/1')).rejects.toThrow();
+
+      // Assert
+      const budget = client.getDiscogsBudget();
+      expect(budget.rateLimited).toBe(1);
+      expect(budget.isThrottled).toBe(true);
+    });
+  });
+
+  describe('priority queue', () => {
+    it('should send interactive requests before queued background ones', async () => {
+      // Arrange
+      const sent: string[] = [];
+      mockAdapter.onGet().reply(config => {
+        sent.push(config.url!);
+        return [200, {}];
+      });
+      // Use up the burst allowance so the next requests have to wait
+      await Promise.all(
+        [1, 2, 3, 4, 5].map(id => instance.get(`/burst/${id}`))
+      );
+      sent.length = 0;
+
+      // Act
+      const requests = [
+        instance.get('/scan/1', { priority: 'background' }),
+        instance.get('/scan/2', { priority: 'background' }),
+        instance.get('/page', { priority: 'interactive' }),
+      ];
+      await jest.advanceTimersByTimeAsync(0);
+      const queued = client.getDiscogsBudget().queued;
+      await jest.advanceTimersByTimeAsync(5000);
+      await Promise.all(requests);
+
+      // Assert
+      expect(queued).toEqual({ interactive: 1, background: 2 });
+      expect(sent).toEqual(['/page', '/scan/1', '/scan/2']);
+    });
+  });
+
+  describe('response cache', () => {
+    const TTL = 60 * 1000;
+
+    beforeEach(() => {
+      client.initializeDiscogsCache(mockFileStorage);
+    });
+
+    it('should serve a cached response without a request within its TTL', async () => {
+      // Arrange
+      mockAdapter.onGet('/labels/1').reply(200, { name: 'Blue Note' });
+
+      // Act
+      await instance.get('/labels/1', { discogsCache: { ttlMs: TTL } });
+      const second = await instance.get('/labels/1', {
+        discogsCache: { ttlMs: TTL },
+      });
+
+      // Assert
+      expect(second.data).toEqual({ name: 'Blue Note' });
+      expect(mockAdapter.history.get).toHaveLength(1);
+      expect(client.getDiscogsBudget().cache).toEqual({
+        hits: 1,
+        revalidated: 0,
+        misses: 1,
+      });
+    });
+
+    it('should revalidate an expired response with its ETag', async () => {
+      // Arrange
+      mockAdapter
+        .onGet('/labels/1')
+        .replyOnce(200, { name: 'Blue Note' }, { etag: '"v1"' })
+        .onGet('/labels/1')
+        .replyOnce(304);
+      await instance.get('/labels/1', { discogsCache: { ttlMs: TTL } });
+      jest.setSystemTime(NOW + 2 * TTL);
+
+      // Act
+      const response = await instance.get('/labels/1', {
+        discogsCache: { ttlMs: TTL },
+      });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.data).toEqual({ name: 'Blue Note' });
+      expect(mockAdapter.history.get[1].headers?.['If-None-Match']).toBe(
+        '"v1"'
+      );
+      expect(client.getDiscogsBudget().cache.revalidated).toBe(1);
+      const [entry] = Object.values(files);
+      expect(entry).toMatchObject({ etag: '"v1"', storedAt: NOW + 2 * TTL });
+    });
+
+    it('should key cached responses by query parameters', async () => {
+      // Arrange
+      mockAdapter
+        .onGet('/masters/1/versions')
+        .reply(config => [200, { page: config.params.page }]);
+
+      // Act
+      await instance.get('/masters/1/versions', {
+        params: { page: 1 },
+        discogsCache: { ttlMs: TTL },
+      });
+      const page2 = await instance.get('/masters/1/versions', {
+        params: { page: 2 },
+        discogsCache: { ttlMs: TTL },
+      });
+
+      // Assert
+      expect(page2.data).toEqual({ page: 2 });
+      expect(Object.keys(files)).toHaveLength(2);
+    });
+
+    it('should not cache requests that do not ask for it', async () => {
+      // Arrange
+      mockAdapter.onGet('/users/me/wants').reply(200, { wants: [] });
+
+      // Act
+      await instance.get('/users/me/wants');
+      await instance.get('/users/me/wants');
+
+      // Assert
+      expect(mockAdapter.history.get).toHaveLength(2);
+      expect(mockFileStorage.writeJSON).not.toHaveBeenCalled();
+    });
+  });
+});
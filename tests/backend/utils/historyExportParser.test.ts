@@ -0,0 +1,193 @@
+import {
+  HistoryExportParseError,
+  parseCsv,
+  parseHistoryExport,
+  parsePlayTime,
+} from '../../../src/backend/utils/historyExportParser';
+
+describe('parsePlayTime', () => {
+  it('reads Unix seconds', () => {
+    expect(parsePlayTime(1704067200)).toBe(1704067200);
+    expect(parsePlayTime('1704067200')).toBe(1704067200);
+  });
+
+  it('converts milliseconds to seconds', () => {
+    expect(parsePlayTime(1704067200123)).toBe(1704067200);
+  });
+
+  it('reads the Last.fm export date format as UTC', () => {
+    expect(parsePlayTime('01 Jan 2024 00:00')).toBe(1704067200);
+    expect(parsePlayTime('1 Jan 2024, 12:30')).toBe(1704112200);
+  });
+
+  it('reads ISO dates', () => {
+    expect(parsePlayTime('2024-01-01T00:00:00Z')).toBe(1704067200);
+  });
+
+  it('returns 0 for unparseable values', () => {
+    expect(parsePlayTime('yesterday')).toBe(0);
+    expect(parsePlayTime(undefined)).toBe(0);
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and line breaks', () => {
+    const rows = parseCsv('a,"b, c","say ""hi"""\r\n"multi\nline",x,y\n\n');
+
+    expect(rows).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['multi\nline', 'x', 'y'],
+    ]);
+  });
+});
+
+describe('parseHistoryExport', () => {
+  it('parses a headerless Last.fm CSV export', () => {
+    const result = parseHistoryExport(
+      'Radiohead,OK Computer,Airbag,01 Jan 2024 00:00\n' +
+        '"Crosby, Stills & Nash",CSN,Wooden Ships,01 Jan 2024 00:05\n'
+    );
+
+    expect(result.format).toBe('lastfm-csv');
+    expect(result.plays).toEqual([
+      {
+        artist: 'Radiohead',
+        album: 'OK Computer',
+        track: 'Airbag',
+        timestamp: 1704067200,
+      },
+      {
+        artist: 'Crosby, Stills & Nash',
+        album: 'CSN',
+        track: 'Wooden Ships',
+        timestamp: 1704067500,
+      },
+    ]);
+  });
+
+  it('parses a CSV export with a header row', () => {
+    const result = parseHistoryExport(
+      '\uFEFFuts,utc_time,artist,artist_mbid,album,album_mbid,track\n' +
+        '1704067200,"01 Jan 2024, 00:00",Radiohead,,OK Computer,,Airbag\n'
+    );
+
+    expect(result.plays).toEqual([
+      {
+        artist: 'Radiohead',
+        album: 'OK Computer',
+        track: 'Airbag',
+        timestamp: 1704067200,
+      },
+    ]);
+  });
+
+  it('counts rows missing an album as skipped', () => {
+    const result = parseHistoryExport(
+      'Radiohead,,Airbag,01 Jan 2024 00:00\n' +
+        'Radiohead,OK Computer,Airbag,01 Jan 2024 00:00\n'
+    );
+
+    expect(result.plays).toHaveLength(1);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('rejects a CSV header without the needed columns', () => {
+    expect(() => parseHistoryExport('artist,album\nA,B\n')).toThrow(
+      HistoryExportParseError
+    );
+  });
+
+  it('parses Last.fm getRecentTracks pages and skips now playing', () => {
+    const page = {
+      recenttracks: {
+        track: [
+          {
+            artist: { '#text': 'Radiohead' },
+            album: { '#text': 'Kid A' },
+            name: 'Idioteque',
+            '@attr': { nowplaying: 'true' },
+          },
+          {
+            artist: { '#text': 'Radiohead' },
+            album: { '#text': 'OK Computer' },
+            name: 'Airbag',
+            date: { uts: '1704067200', '#text': '01 Jan 2024, 00:00' },
+          },
+        ],
+      },
+    };
+
+    const result = parseHistoryExport(JSON.stringify([page, page]));
+
+    expect(result.format).toBe('lastfm-json');
+    expect(result.plays).toHaveLength(2);
+    expect(result.plays[0]).toEqual({
+      artist: 'Radiohead',
+      album: 'OK Computer',
+      track: 'Airbag',
+      timestamp: 1704067200,
+    });
+    expect(result.skipped).toBe(2);
+  });
+
+  it('parses a ListenBrainz JSON array', () => {
+    const listens = [
+      {
+        listened_at: 1704067200,
+        track_metadata: {
+          artist_name: 'Radiohead',
+          release_name: 'OK Computer',
+          track_name: 'Airbag',
+        },
+      },
+      {
+        listened_at: 1704067500,
+        track_metadata: { artist_name: 'Radiohead', track_name: 'Single' },
+      },
+    ];
+
+    const result = parseHistoryExport(JSON.stringify(listens));
+
+    expect(result.format).toBe('listenbrainz');
+    expect(result.plays).toEqual([
+      {
+        artist: 'Radiohead',
+        album: 'OK Computer',
+        track: 'Airbag',
+        timestamp: 1704067200,
+      },
+    ]);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('parses ListenBrainz JSON lines and API payloads', () => {
+    const listen = {
+      listened_at: 1704067200,
+      track_metadata: {
+        artist_name: 'Radiohead',
+        release_name: 'OK Computer',
+        track_name: 'Airbag',
+      },
+    };
+
+    const lines = parseHistoryExport(
+      `${JSON.stringify(listen)}\n${JSON.stringify(listen)}\n`
+    );
+    const payload = parseHistoryExport(
+      JSON.stringify({ payload: { count: 1, listens: [listen] } })
+    );
+
+    expect(lines.plays).toHaveLength(2);
+    expect(payload.format).toBe('listenbrainz');
+    expect(payload.plays).toHaveLength(1);
+  });
+
+  it('rejects empty and malformed files', () => {
+    expect(() => parseHistoryExport('  \n')).toThrow(
+      'The export file is empty'
+    );
+    expect(() => parseHistoryExport('{"broken":')).toThrow(
+      'The export file is not valid JSON'
+    );
+  });
+});
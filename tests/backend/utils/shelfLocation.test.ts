@@ -0,0 +1,110 @@
+import {
+  formatShelfLocation,
+  normalizeBarcode,
+  parseShelfLocation,
+  sanitizeShelfLocation,
+} from '../../../src/shared/utils/shelfLocation';
+
+describe('formatShelfLocation', () => {
+  it.each([
+    [{ shelf: 'B', row: '2', position: 14 }, 'Shelf B, Row 2, #14'],
+    [{ shelf: 'B', row: '2' }, 'Shelf B, Row 2'],
+    [{ shelf: 'Kallax 3', position: 7 }, 'Shelf Kallax 3, #7'],
+    [{ shelf: 'B' }, 'Shelf B'],
+  ])('formats %p as %p', (location, text) => {
+    expect(formatShelfLocation(location)).toBe(text);
+  });
+});
+
+describe('parseShelfLocation', () => {
+  it('reads back every formatted location', () => {
+    const locations = [
+      { shelf: 'B', row: '2', position: 14 },
+      { shelf: 'B', row: '2' },
+      { shelf: 'Kallax 3', position: 7 },
+      { shelf: 'B' },
+    ];
+
+    for (const location of locations) {
+      expect(parseShelfLocation(formatShelfLocation(location))).toEqual(
+        location
+      );
+    }
+  });
+
+  it('is case-insensitive and tolerant of spacing', () => {
+    expect(parseShelfLocation('  shelf b ,row 2,  # 14 ')).toEqual({
+      shelf: 'b',
+      row: '2',
+      position: 14,
+    });
+  });
+
+  it.each(['B/2/14', 'B-2-14', 'B / 2 / 14'])('accepts the bare %p', text => {
+    expect(parseShelfLocation(text)).toEqual({
+      shelf: 'B',
+      row: '2',
+      position: 14,
+    });
+  });
+
+  it.each(['', '   ', 'Signed copy', 'Near Mint (NM or M-)', 'B/2/x'])(
+    'returns null for %p',
+    text => {
+      expect(parseShelfLocation(text)).toBeNull();
+    }
+  );
+});
+
+describe('sanitizeShelfLocation', () => {
+  it('trims fields and drops an empty row', () => {
+    expect(
+      sanitizeShelfLocation({ shelf: ' A ', row: '  ', position: 3 })
+    ).toEqual({ shelf: 'A', position: 3 });
+  });
+
+  it('caps long text', () => {
+    const location = sanitizeShelfLocation({
+      shelf: 'x'.repeat(100),
+      row: 'y'.repeat(100),
+    });
+    expect(location?.shelf).toHaveLength(40);
+    expect(location?.row).toHaveLength(40);
+  });
+
+  it.each([0, -1, 2.5, 'abc'])('ignores the position %p', position => {
+    expect(sanitizeShelfLocation({ shelf: 'A', position })).toEqual({
+      shelf: 'A',
+    });
+  });
+
+  it.each([null, 'A', {}, { shelf: '' }, { shelf: 5 }, { row: '1' }])(
+    'returns null for %p',
+    raw => {
+      expect(sanitizeShelfLocation(raw)).toBeNull();
+    }
+  );
+});
+
+describe('normalizeBarcode', () => {
+  it.each([
+    ['4006381333931', '4006381333931'], // EAN-13
+    ['036000291452', '036000291452'], // UPC-A
+    ['96385074', '96385074'], // EAN-8
+    ['0 36000 29145 2', '036000291452'],
+    ['4-006381-333931', '4006381333931'],
+  ])('accepts %p', (raw, digits) => {
+    expect(normalizeBarcode(raw)).toBe(digits);
+  });
+
+  it.each([
+    ['4006381333932', 'wrong check digit'],
+    ['036000291453', 'wrong check digit'],
+    ['12345', 'too short'],
+    ['40063813339310000', 'too long'],
+    ['40063813339A1', 'not digits'],
+    ['', 'empty'],
+  ])('rejects %p (%s)', raw => {
+    expect(normalizeBarcode(raw)).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import net from 'net';
+
+import {
+  formatMessage,
+  sendMail,
+  SmtpError,
+} from '../../../src/backend/utils/smtpClient';
+
+interface FakeServer {
+  port: number;
+  commands: string[];
+  data: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * A scripted SMTP server on a random port. `capabilities` are advertised
+ * in the EHLO reply; `reject` maps a command verb to an error reply.
+ */
+const startServer = (
+  capabilities: string[] = [],
+  reject: Record<string, string> = {}
+): Promise<FakeServer> =>
+  new Promise(resolve => {
+    const result = { commands: [] as string[], data: '' };
+    const server = net.createServer(socket => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 fake.example.com ESMTP\r\n');
+
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 OK queued\r\n');
+            } else {
+              result.data += `${line}\r\n`;
+            }
+            continue;
+          }
+
+          result.commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (reject[verb]) {
+            socket.write(`${reject[verb]}\r\n`);
+          } else if (verb === 'EHLO') {
+            const lines = ['fake.example.com', ...capabilities];
+            lines.forEach((text, i) =>
+              socket.write(`250${i < lines.length - 1 ? '-' : ' '}${text}\r\n`)
+            );
+          } else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 Go ahead\r\n');
+          } else if (verb === 'QUIT') {
+            socket.end('221 Bye\r\n');
+          } else {
+            socket.write('250 OK\r\n');
+          }
+        }
+      });
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        port,
+        get commands() {
+          return result.commands;
+        },
+        get data() {
+          return result.data;
+        },
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+
+describe('smtpClient', () => {
+  let server: FakeServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const message = {
+    from: 'Records <records@example.com>',
+    to: ['me@example.com'],
+    subject: 'New pressing',
+    text: 'Radiohead - OK Computer',
+  };
+
+  it('should send a message through the SMTP conversation', async () => {
+    // Arrange
+    server = await startServer();
+
+    // Act
+    await sendMail(
+      { host: '127.0.0.1', port: server.port, secure: false },
+      message
+    );
+
+    // Assert
+    expect(server.commands.map(line => line.split(' ')[0])).toEqual([
+      'EHLO',
+      'MAIL',
+      'RCPT',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(server.commands[1]).toBe('MAIL FROM:<records@example.com>');
+    expect(server.commands[2]).toBe('RCPT TO:<me@example.com>');
+    expect(server.data).toContain('Subject: New pressing\r\n');
+    expect(server.data).toContain(Buffer.from(message.text).toString('base64'));
+  });
+
+  it('should refuse to send credentials without encryption', async () => {
+    // Arrange
+    server = await startServer(['AUTH PLAIN LOGIN']);
+
+    // Act & Assert
+    await expect(
+      sendMail(
+        {
+          host: '127.0.0.1',
+          port: server.port,
+          secure: false,
+          username: 'me',
+          password: 'hunter2',
+        },
+        message
+      )
+    ).rejects.toThrow(/refusing to send credentials/);
+    expect(server.commands.some(line => line.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should report a rejected recipient', async () => {
+    // Arrange
+    server = await startServer([], { RCPT: '550 No such user' });
+
+    // Act & Assert
+    const error = await sendMail(
+      { host: '127.0.0.1', port: server.port, secure: false },
+      message
+    ).catch(err => err);
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.message).toBe('SMTP RCPT failed: 550 No such user');
+  });
+
+  describe('formatMessage', () => {
+    it('should encode non-ASCII subjects and strip line breaks', () => {
+      // Act
+      const formatted = formatMessage({
+        ...message,
+        subject: 'Björk\r\nBcc: evil@example.com',
+      });
+
+      // Assert
+      const subject = formatted
+        .split('\r\n')
+        .find(line => line.startsWith('Subject:'));
+      expect(subject).toMatch(/^Subject: =\?UTF-8\?B\?.+\?=$/);
+      expect(formatted).not.toContain('\r\nBcc:');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { Track } from '../../../src/shared/types';
+import {
+  DEFAULT_TRACK_DURATION_SECONDS,
+  getNextSide,
+  getReleaseSides,
+  getSideTrackIndices,
+  getTrackDurations,
+  getTrackSide,
+  parseDuration,
+  scheduleTracks,
+} from '../../../src/shared/utils/vinylSides';
+
+const tracklist: Track[] = [
+  { position: 'A1', title: 'A One', duration: '3:00' },
+  { position: 'A2', title: 'A Two', duration: '5:00' },
+  { position: 'A3', title: 'A Three' },
+  { position: 'B1', title: 'B One', duration: '6:00' },
+  { position: 'C', title: 'C Suite', duration: '18:30' },
+  { position: 'D1a', title: 'D Part One', duration: '2:00' },
+  { position: 'D1b', title: 'D Part Two', duration: '2:00' },
+];
+
+describe('getTrackSide', () => {
+  it.each([
+    ['A1', 'A'],
+    ['B12', 'B'],
+    ['C', 'C'],
+    ['D1a', 'D'],
+    [' E2 ', 'E'],
+  ])('reads side from position %p', (position, side) => {
+    expect(getTrackSide(position)).toBe(side);
+  });
+
+  it.each(['1', '1-1', 'CD1', '', undefined])(
+    'returns null for non-vinyl position %p',
+    position => {
+      expect(getTrackSide(position)).toBeNull();
+    }
+  );
+});
+
+describe('parseDuration', () => {
+  it('parses minutes and seconds', () => {
+    expect(parseDuration('3:45')).toBe(225);
+  });
+
+  it('parses hours, minutes and seconds', () => {
+    expect(parseDuration('1:02:03')).toBe(3723);
+  });
+
+  it.each(['', '3', 'abc', '3:xx', '0:00', undefined])(
+    'returns null for %p',
+    duration => {
+      expect(parseDuration(duration)).toBeNull();
+    }
+  );
+});
+
+describe('getTrackDurations', () => {
+  it('fills a missing duration with the side average', () => {
+    expect(getTrackDurations(tracklist)[2]).toBe(240);
+  });
+
+  it('falls back to the release average, then the default', () => {
+    expect(
+      getTrackDurations([
+        { position: 'A1', title: 'One', duration: '4:00' },
+        { position: 'B1', title: 'Two' },
+      ])
+    ).toEqual([240, 240]);
+    expect(getTrackDurations([{ position: 'A1', title: 'One' }])).toEqual([
+      DEFAULT_TRACK_DURATION_SECONDS,
+    ]);
+  });
+});
+
+describe('getReleaseSides', () => {
+  it('groups tracks into sides and discs with their playing time', () => {
+    expect(getReleaseSides(tracklist)).toEqual([
+      { side: 'A', disc: 1, trackIndices: [0, 1, 2], durationSeconds: 720 },
+      { side: 'B', disc: 1, trackIndices: [3], durationSeconds: 360 },
+      { side: 'C', disc: 2, trackIndices: [4], durationSeconds: 1110 },
+      { side: 'D', disc: 2, trackIndices: [5, 6], durationSeconds: 240 },
+    ]);
+  });
+
+  it('returns no sides for a CD tracklist', () => {
+    expect(
+      getReleaseSides([
+        { position: '1', title: 'One' },
+        { position: '2', title: 'Two' },
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe('getSideTrackIndices', () => {
+  it('returns the tracks of the requested sides in tracklist order', () => {
+    expect(getSideTrackIndices(tracklist, ['d', 'B'])).toEqual([3, 5, 6]);
+  });
+});
+
+describe('getNextSide', () => {
+  const sides = getReleaseSides(tracklist);
+
+  it('suggests the side after the last one played', () => {
+    expect(getNextSide(sides, 'B')?.side).toBe('C');
+  });
+
+  it('suggests nothing after the final side or without a last side', () => {
+    expect(getNextSide(sides, 'D')).toBeNull();
+    expect(getNextSide(sides, undefined)).toBeNull();
+    expect(getNextSide(sides, 'Z')).toBeNull();
+  });
+});
+
+describe('scheduleTracks', () => {
+  it('spaces tracks a second apart and adds a flip between sides', () => {
+    // Act
+    const { tracks, totalDuration } = scheduleTracks(tracklist, [3, 2], 1000);
+
+    // Assert
+    expect(tracks).toEqual([
+      { index: 2, timestamp: 1000, duration: 240 },
+      { index: 3, timestamp: 1270, duration: 360 },
+    ]);
+    expect(totalDuration).toBe(240 + 30 + 360);
+  });
+
+  it('keeps sub-tracks on the same side together', () => {
+    const { tracks } = scheduleTracks(tracklist, [5, 6], 0);
+    expect(tracks.map(t => t.timestamp)).toEqual([0, 121]);
+  });
+});
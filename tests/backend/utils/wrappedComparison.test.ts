@@ -0,0 +1,126 @@
+import {
+  compareRankings,
+  compareStat,
+  getComparisonRange,
+  RankedEntry,
+} from '../../../src/backend/utils/wrappedComparison';
+
+const entry = (name: string, playCount: number): RankedEntry => ({
+  key: name.toLowerCase(),
+  name,
+  artist: name,
+  playCount,
+});
+
+describe('wrappedComparison', () => {
+  describe('getComparisonRange', () => {
+    it('should use the same length immediately before for previous', () => {
+      // Arrange
+      const start = new Date(2024, 3, 1).getTime();
+      const end = new Date(2024, 3, 30, 23, 59, 59, 999).getTime();
+
+      // Act
+      const range = getComparisonRange(start, end, 'previous');
+
+      // Assert
+      expect(range.endMs).toBe(start - 1);
+      expect(range.endMs - range.startMs).toBe(end - start);
+    });
+
+    it('should shift both dates back a year for lastYear', () => {
+      // Act
+      const range = getComparisonRange(
+        new Date(2024, 0, 1).getTime(),
+        new Date(2024, 11, 31, 23, 59, 59, 999).getTime(),
+        'lastYear'
+      );
+
+      // Assert
+      expect(range).toEqual({
+        startMs: new Date(2023, 0, 1).getTime(),
+        endMs: new Date(2023, 11, 31, 23, 59, 59, 999).getTime(),
+      });
+    });
+  });
+
+  describe('compareStat', () => {
+    it('should compute change and percent change', () => {
+      expect(compareStat(150, 100)).toEqual({
+        current: 150,
+        previous: 100,
+        change: 50,
+        percentChange: 50,
+      });
+    });
+
+    it('should leave percent change out when there was nothing before', () => {
+      expect(compareStat(12, 0).percentChange).toBeNull();
+    });
+
+    it('should round fractional changes', () => {
+      expect(compareStat(10.3, 10.1).change).toBe(0.2);
+    });
+  });
+
+  describe('compareRankings', () => {
+    it('should report movements, new entries and drop-outs', () => {
+      // Arrange
+      const previous = [
+        entry('Pink Floyd', 30),
+        entry('Radiohead', 20),
+        entry('Portishead', 10),
+        entry('Massive Attack', 5),
+      ];
+      const current = [
+        entry('Massive Attack', 40),
+        entry('Radiohead', 25),
+        entry('Bjork', 12),
+        entry('Pink Floyd', 1),
+      ];
+
+      // Act
+      const result = compareRankings(current, previous, 3);
+
+      // Assert
+      expect(result.items.map(i => [i.name, i.movement])).toEqual([
+        ['Massive Attack', 3],
+        ['Radiohead', 0],
+        ['Bjork', null],
+      ]);
+      expect(result.newEntries.map(i => i.name)).toEqual([
+        'Massive Attack',
+        'Bjork',
+      ]);
+      expect(result.dropOuts).toEqual([
+        expect.objectContaining({
+          name: 'Pink Floyd',
+          previousRank: 1,
+          currentRank: 4,
+          movement: -3,
+          currentPlayCount: 1,
+        }),
+        expect.objectContaining({
+          name: 'Portishead',
+          currentRank: null,
+          currentPlayCount: 0,
+          movement: null,
+        }),
+      ]);
+      expect(result.biggestClimber?.name).toBe('Massive Attack');
+    });
+
+    it('should have no climber when nothing moved up', () => {
+      // Act
+      const result = compareRankings(
+        [entry('Radiohead', 5)],
+        [entry('Radiohead', 9)],
+        10
+      );
+
+      // Assert
+      expect(result.biggestClimber).toBeNull();
+      expect(result.newEntries).toEqual([]);
+      expect(result.dropOuts).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import {
+  buildWrappedCards,
+  escapeMarkup,
+  formatPeriodLabel,
+  renderCardSvg,
+  renderWrappedHtml,
+} from '../../../src/backend/utils/wrappedExport';
+import { WrappedData } from '../../../src/shared/types';
+
+const createWrappedData = (
+  overrides: Partial<WrappedData> = {}
+): WrappedData => ({
+  startDate: new Date(2024, 0, 1).getTime(),
+  endDate: new Date(2024, 11, 31, 23, 59, 59).getTime(),
+  generatedAt: new Date(2025, 0, 2).getTime(),
+  listening: {
+    totalScrobbles: 2847,
+    estimatedListeningHours: 166,
+    uniqueArtists: 145,
+    uniqueAlbums: 312,
+    topArtists: [
+      {
+        name: 'Radiohead',
+        artist: 'Radiohead',
+        playCount: 142,
+        imageUrl: 'https://img.example/radiohead.jpg',
+      },
+    ],
+    topAlbums: [
+      {
+        name: 'Radiohead - OK Computer',
+        artist: 'Radiohead',
+        album: 'OK Computer',
+        playCount: 47,
+        imageUrl: 'https://img.example/okc.jpg',
+      },
+    ],
+    topTracks: [
+      {
+        name: 'Paranoid Android',
+        artist: 'Radiohead',
+        album: 'OK Computer',
+        playCount: 23,
+      },
+    ],
+    newArtistsDiscovered: 1,
+    newArtistsList: [
+      { name: 'Black Country, New Road', playCount: 12, firstPlayDate: 0 },
+    ],
+    peakListeningDay: { date: '2024-06-15', scrobbleCount: 85 },
+    peakListeningHour: { hour: 20, scrobbleCount: 342 },
+    longestStreak: {
+      days: 23,
+      startDate: '2024-03-01',
+      endDate: '2024-03-23',
+    },
+    heatmapData: [],
+  },
+  collection: {
+    recordsAdded: 0,
+    recordsList: [],
+    mostPlayedNewAddition: null,
+  },
+  crossSource: {
+    collectionCoverage: 0,
+    totalCollectionSize: 0,
+    albumsPlayed: 0,
+    vinylScrobbles: 0,
+    otherScrobbles: 0,
+    vinylPercentage: 0,
+  },
+  ...overrides,
+});
+
+describe('wrappedExport', () => {
+  describe('buildWrappedCards', () => {
+    it('should build the listening cards in slideshow order', () => {
+      // Act
+      const cards = buildWrappedCards(createWrappedData());
+
+      // Assert
+      expect(cards.map(c => c.id)).toEqual([
+        'total',
+        'top-artists',
+        'top-albums',
+        'top-tracks',
+        'unique',
+        'new-artists',
+        'peak-day',
+        'peak-hour',
+        'streak',
+      ]);
+      expect(cards[0].bigNumber).toBe('2,847');
+      expect(cards[2].items).toEqual([
+        {
+          primary: 'OK Computer',
+          secondary: 'Radiohead · 47 plays',
+          imageUrl: 'https://img.example/okc.jpg',
+        },
+      ]);
+      expect(cards[7].bigNumber).toBe('8 PM');
+    });
+
+    it('should add session and collection cards when the slideshow would', () => {
+      // Arrange
+      const base = createWrappedData();
+      const data = createWrappedData({
+        listening: {
+          ...base.listening,
+          sessions: {
+            totalSessions: 10,
+            fullAlbumPlays: 4,
+            partialPlays: 5,
+            shuffles: 1,
+            topFullAlbum: { artist: 'Radiohead', album: 'Kid A', count: 2 },
+          },
+        },
+        collection: {
+          recordsAdded: 2,
+          recordsList: [
+            { artist: 'Radiohead', title: 'Amnesiac', dateAdded: 0 },
+          ],
+          mostPlayedNewAddition: {
+            artist: 'Radiohead',
+            title: 'Amnesiac',
+            dateAdded: 0,
+            playCount: 9,
+          },
+        },
+        crossSource: {
+          collectionCoverage: 67,
+          totalCollectionSize: 450,
+          albumsPlayed: 301,
+          vinylScrobbles: 1200,
+          otherScrobbles: 1647,
+          vinylPercentage: 42,
+        },
+      });
+
+      // Act
+      const cards = buildWrappedCards(data);
+
+      // Assert
+      expect(cards.map(c => c.id).slice(9)).toEqual([
+        'full-albums',
+        'records',
+        'most-played',
+        'coverage',
+        'vinyl',
+      ]);
+      expect(cards[9].subtitle).toBe('Most played in full: Kid A by Radiohead');
+    });
+
+    it('should cap lists at five items', () => {
+      // Arrange
+      const base = createWrappedData();
+      const data = createWrappedData({
+        listening: {
+          ...base.listening,
+          topArtists: Array.from({ length: 10 }, (_, i) => ({
+            name: `Artist ${i}`,
+            artist: `Artist ${i}`,
+            playCount: 10 - i,
+          })),
+        },
+      });
+
+      // Act
+      const cards = buildWrappedCards(data);
+
+      // Assert
+      expect(cards[1].items).toHaveLength(5);
+    });
+  });
+
+  describe('formatPeriodLabel', () => {
+    it('should use the year alone for a calendar year', () => {
+      expect(
+        formatPeriodLabel(
+          new Date(2024, 0, 1).getTime(),
+          new Date(2024, 11, 31, 23, 59).getTime()
+        )
+      ).toBe('2024');
+    });
+
+    it('should show both days for other ranges', () => {
+      expect(
+        formatPeriodLabel(
+          new Date(2024, 2, 1).getTime(),
+          new Date(2024, 5, 30).getTime()
+        )
+      ).toBe('March 1, 2024 – June 30, 2024');
+    });
+  });
+
+  describe('escapeMarkup', () => {
+    it('should escape markup characters', () => {
+      expect(escapeMarkup(`<b>"Tom" & 'Jerry'</b>`)).toBe(
+        '&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;'
+      );
+    });
+  });
+
+  describe('renderCardSvg', () => {
+    it('should render a 1080x1920 card with inlined images and escaped text', () => {
+      // Arrange
+      const [, topArtists] = buildWrappedCards(
+        createWrappedData({
+          listening: {
+            ...createWrappedData().listening,
+            topArtists: [
+              {
+                name: 'Simon & Garfunkel',
+                artist: 'Simon & Garfunkel',
+                playCount: 3,
+                imageUrl: 'https://img.example/sg.jpg',
+              },
+            ],
+          },
+        })
+      );
+      const images = new Map([
+        ['https://img.example/sg.jpg', 'data:image/jpeg;base64,AAAA'],
+      ]);
+
+      // Act
+      const svg = renderCardSvg(topArtists, '2024', images);
+
+      // Assert
+      expect(svg).toContain('width="1080" height="1920"');
+      expect(svg).toContain('Simon &amp; Garfunkel');
+      expect(svg).toContain('href="data:image/jpeg;base64,AAAA"');
+      expect(svg).not.toContain('https://img.example');
+    });
+
+    it('should cut names too long for the card', () => {
+      // Arrange
+      const card = {
+        id: 'test',
+        title: 'Test',
+        items: [{ primary: 'A'.repeat(80) }],
+      };
+
+      // Act
+      const svg = renderCardSvg(card, '2024', new Map());
+
+      // Assert
+      expect(svg).not.toContain('A'.repeat(31));
+      expect(svg).toContain('…');
+    });
+  });
+
+  describe('renderWrappedHtml', () => {
+    it('should render a standalone page that never references the network', () => {
+      // Arrange
+      const data = createWrappedData();
+      const cards = buildWrappedCards(data);
+      const images = new Map([
+        ['https://img.example/okc.jpg', 'data:image/jpeg;base64,BBBB'],
+      ]);
+
+      // Act
+      const html = renderWrappedHtml(cards, '2024', data.generatedAt, images);
+
+      // Assert
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<style>');
+      expect(html).toContain('src="data:image/jpeg;base64,BBBB"');
+      expect(html).toContain('Black Country, New Road');
+      expect(html).not.toMatch(/https?:\/\//);
+      expect(html.match(/<section class="card"/g)).toHaveLength(cards.length);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Shared test fixtures for services that keep their state in JSON files.
+ */
+
+import { FileStorage } from '../../src/backend/utils/fileStorage';
+
+/**
+ * Backs a mocked FileStorage's `readJSON` and `writeJSON` with an in-memory
+ * map of path to contents, and returns that map so tests can seed files and
+ * inspect what was written. Values are copied through JSON on the way in and
+ * out, as they would be on disk, so later changes to an object a service
+ * holds don't leak into the stored file.
+ */
+export function mockJSONFiles(
+  fileStorage: jest.Mocked<FileStorage>,
+  files: Record<string, unknown> = {}
+): Record<string, unknown> {
+  fileStorage.readJSON.mockImplementation(
+    async (path: string) =>
+      (files[path] ? JSON.parse(JSON.stringify(files[path])) : null) as any
+  );
+  fileStorage.writeJSON.mockImplementation(async (path, data) => {
+    files[path] = JSON.parse(JSON.stringify(data));
+  });
+  return files;
+}
@@ -0,0 +1,79 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+
+import '@testing-library/jest-dom';
+import ActivityPanel from '../../../src/renderer/components/ActivityPanel';
+import { Job } from '../../../src/shared/types';
+
+const createJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  type: 'seller-scan',
+  status: 'running',
+  message: 'Scanning Juno...',
+  progress: 40,
+  cancellable: true,
+  queuedAt: 1710000000000,
+  startedAt: 1710000000000,
+  ...overrides,
+});
+
+describe('ActivityPanel', () => {
+  it('should render nothing without active jobs', () => {
+    const { container } = render(
+      <ActivityPanel jobs={[]} onCancel={jest.fn()} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show running jobs with their progress', () => {
+    render(<ActivityPanel jobs={[createJob()]} onCancel={jest.fn()} />);
+
+    expect(screen.getByText('Scanning Juno...')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute(
+      'aria-valuenow',
+      '40'
+    );
+  });
+
+  it('should mark queued jobs as waiting without a progress bar', () => {
+    render(
+      <ActivityPanel
+        jobs={[createJob({ status: 'queued', startedAt: undefined })]}
+        onCancel={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Waiting: Scanning Juno...')).toBeInTheDocument();
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+  });
+
+  it('should cancel a job', async () => {
+    const user = userEvent.setup();
+    const onCancel = jest.fn();
+    render(<ActivityPanel jobs={[createJob()]} onCancel={onCancel} />);
+
+    await user.click(
+      screen.getByRole('button', { name: 'Cancel Scanning Juno...' })
+    );
+
+    expect(onCancel).toHaveBeenCalledWith('job-1');
+  });
+
+  it('should only offer cancel when the job supports it', () => {
+    render(
+      <ActivityPanel
+        jobs={[
+          createJob({ id: 'a', cancellable: false }),
+          createJob({ id: 'b', message: 'Stopping', cancelRequested: true }),
+        ]}
+        onCancel={jest.fn()}
+      />
+    );
+
+    const buttons = screen.getAllByRole('button');
+    expect(buttons).toHaveLength(1);
+    expect(buttons[0]).toBeDisabled();
+  });
+});
@@ -307,4 +307,43 @@ describe('AlbumCard', () => {
       expect(screen.getByText('Last played 3 days ago')).toBeInTheDocument();
     });
   });
+
+  describe('Rating', () => {
+    it('hides the rating when unrated and not editable', () => {
+      // Act
+      render(<AlbumCard {...defaultProps} />);
+
+      // Assert
+      expect(screen.queryByLabelText('Not rated')).not.toBeInTheDocument();
+      expect(screen.queryByRole('group', { name: 'Rating' })).toBeNull();
+    });
+
+    it('shows a read-only rating without onRatingChange', () => {
+      // Act
+      render(<AlbumCard {...defaultProps} item={{ ...mockItem, rating: 4 }} />);
+
+      // Assert
+      expect(screen.getByLabelText('Rated 4 of 5')).toBeInTheDocument();
+    });
+
+    it('calls onRatingChange with the item and new rating', () => {
+      // Arrange
+      const onRatingChange = jest.fn();
+      const item = { ...mockItem, rating: 2 };
+      render(
+        <AlbumCard
+          {...defaultProps}
+          item={item}
+          onRatingChange={onRatingChange}
+        />
+      );
+
+      // Act
+      fireEvent.click(screen.getByRole('button', { name: 'Rate 5 stars' }));
+
+      // Assert
+      expect(onRatingChange).toHaveBeenCalledWith(item, 5);
+      expect(defaultProps.onViewDetails).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,184 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import React from 'react';
+
+import BarcodeLookup from '../../../src/renderer/components/BarcodeLookup';
+import { AuthProvider } from '../../../src/renderer/context/AuthContext';
+import { BarcodeMatch } from '../../../src/shared/types';
+
+const mockLookupBarcode = jest.fn();
+
+jest.mock('../../../src/renderer/services/api', () => ({
+  getApiService: () => ({ lookupBarcode: mockLookupBarcode }),
+}));
+
+jest.mock('../../../src/renderer/context/AppContext', () => ({
+  useApp: () => ({ state: { serverUrl: 'http://localhost:3001' } }),
+}));
+
+const mockAuthContext = {
+  authStatus: {
+    discogs: { authenticated: true, username: 'collector' },
+    lastfm: { authenticated: false },
+  },
+  setAuthStatus: jest.fn(),
+};
+
+const createMatch = (
+  releaseId: number,
+  overrides: Partial<BarcodeMatch> = {}
+): BarcodeMatch => ({
+  releaseId,
+  title: `Album ${releaseId}`,
+  artist: 'Artist',
+  year: 1997,
+  formats: ['Vinyl', 'LP'],
+  ...overrides,
+});
+
+const renderLookup = () =>
+  render(
+    <AuthProvider value={mockAuthContext}>
+      <BarcodeLookup />
+    </AuthProvider>
+  );
+
+describe('BarcodeLookup', () => {
+  let user: ReturnType<typeof userEvent.setup>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window.location.hash = '';
+    user = userEvent.setup();
+  });
+
+  it('rejects a barcode with a wrong check digit without looking it up', async () => {
+    // Arrange
+    renderLookup();
+
+    // Act
+    await user.type(screen.getByLabelText('Barcode'), '4006381333932{Enter}');
+
+    // Assert
+    expect(
+      screen.getByText('Not a valid EAN or UPC barcode')
+    ).toBeInTheDocument();
+    expect(mockLookupBarcode).not.toHaveBeenCalled();
+  });
+
+  it('jumps straight to the owned release for a scanned barcode', async () => {
+    // Arrange
+    mockLookupBarcode.mockResolvedValue({
+      barcode: '4006381333931',
+      matches: [createMatch(100, { collectionItemId: 7 }), createMatch(200)],
+    });
+    renderLookup();
+
+    // Act
+    await user.type(screen.getByLabelText('Barcode'), '4006381333931{Enter}');
+
+    // Assert
+    await waitFor(() => {
+      expect(window.location.hash).toBe('#release-details');
+    });
+    expect(mockLookupBarcode).toHaveBeenCalledWith(
+      'collector',
+      '4006381333931'
+    );
+    expect(localStorage.setItem).toHaveBeenCalledWith(
+      'selectedRelease',
+      JSON.stringify({ id: 100, artist: 'Artist', title: 'Album 100' })
+    );
+    expect(localStorage.setItem).toHaveBeenCalledWith(
+      'selectedCollectionItemId',
+      '7'
+    );
+  });
+
+  it('lists the candidates when the match is ambiguous', async () => {
+    // Arrange
+    mockLookupBarcode.mockResolvedValue({
+      barcode: '4006381333931',
+      matches: [
+        createMatch(100, {
+          collectionItemId: 7,
+          otherPressing: true,
+          shelfLocation: { shelf: 'B', row: '2', position: 14 },
+        }),
+        createMatch(200),
+      ],
+    });
+    renderLookup();
+
+    // Act
+    await user.type(screen.getByLabelText('Barcode'), '4006381333931{Enter}');
+
+    // Assert
+    expect(
+      await screen.findByText(/You own another pressing/)
+    ).toBeInTheDocument();
+    expect(screen.getByText('Shelf B, Row 2, #14')).toBeInTheDocument();
+    expect(screen.getByText('Artist - Album 200')).toBeInTheDocument();
+    expect(window.location.hash).toBe('');
+  });
+
+  it('opens a listed release without linking another pressing', async () => {
+    // Arrange
+    mockLookupBarcode.mockResolvedValue({
+      barcode: '4006381333931',
+      matches: [
+        createMatch(100, { collectionItemId: 7, otherPressing: true }),
+        createMatch(200),
+      ],
+    });
+    renderLookup();
+    await user.type(screen.getByLabelText('Barcode'), '4006381333931{Enter}');
+
+    // Act
+    await user.click(await screen.findByText('Artist - Album 100'));
+
+    // Assert
+    expect(window.location.hash).toBe('#release-details');
+    expect(localStorage.removeItem).toHaveBeenCalledWith(
+      'selectedCollectionItemId'
+    );
+    expect(localStorage.setItem).not.toHaveBeenCalledWith(
+      'selectedCollectionItemId',
+      expect.anything()
+    );
+  });
+
+  it('says when no release has the barcode', async () => {
+    // Arrange
+    mockLookupBarcode.mockResolvedValue({
+      barcode: '4006381333931',
+      matches: [],
+    });
+    renderLookup();
+
+    // Act
+    await user.type(screen.getByLabelText('Barcode'), '4006381333931{Enter}');
+
+    // Assert
+    expect(
+      await screen.findByText('No release on Discogs has this barcode.')
+    ).toBeInTheDocument();
+  });
+
+  it('shows the server error when the lookup fails', async () => {
+    // Arrange
+    mockLookupBarcode.mockRejectedValue({
+      response: { data: { error: 'Discogs rate limit reached' } },
+    });
+    renderLookup();
+
+    // Act
+    await user.type(screen.getByLabelText('Barcode'), '4006381333931{Enter}');
+
+    // Assert
+    expect(
+      await screen.findByText('Discogs rate limit reached')
+    ).toBeInTheDocument();
+  });
+});
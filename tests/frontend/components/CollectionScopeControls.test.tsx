@@ -0,0 +1,93 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+
+import '@testing-library/jest-dom';
+import CollectionScopeControls from '../../../src/renderer/components/CollectionScopeControls';
+import {
+  CollectionCustomField,
+  CollectionFolder,
+} from '../../../src/shared/types';
+
+const folders: CollectionFolder[] = [
+  { id: 0, name: 'All', count: 12 },
+  { id: 1, name: 'Uncategorized', count: 4 },
+  { id: 5, name: 'Living room shelf', count: 8 },
+];
+
+const fields: CollectionCustomField[] = [
+  {
+    id: 1,
+    name: 'Media Condition',
+    type: 'dropdown',
+    options: ['Mint (M)', 'Very Good (VG)'],
+    position: 1,
+  },
+  { id: 3, name: 'Storage location', type: 'textarea', position: 2 },
+];
+
+describe('CollectionScopeControls', () => {
+  const renderControls = (
+    scope = {},
+    onChange: jest.Mock = jest.fn()
+  ): jest.Mock => {
+    render(
+      <CollectionScopeControls
+        scope={scope}
+        onChange={onChange}
+        folders={folders}
+        fields={fields}
+        idPrefix='test'
+      />
+    );
+    return onChange;
+  };
+
+  it('lists folders other than the built-in All folder', () => {
+    renderControls();
+
+    const select = screen.getByLabelText('Folder:');
+    expect(select).toHaveDisplayValue('All Folders');
+    expect(screen.getByText('Living room shelf (8)')).toBeInTheDocument();
+    expect(screen.queryByText('All (12)')).not.toBeInTheDocument();
+  });
+
+  it('reports the selected folder', () => {
+    const onChange = renderControls();
+
+    fireEvent.change(screen.getByLabelText('Folder:'), {
+      target: { value: '5' },
+    });
+
+    expect(onChange).toHaveBeenCalledWith({ folderId: 5 });
+  });
+
+  it('offers dropdown options and free text for custom fields', () => {
+    const onChange = renderControls({ folderId: 5 });
+
+    fireEvent.change(screen.getByLabelText('Media Condition:'), {
+      target: { value: 'Mint (M)' },
+    });
+    fireEvent.change(screen.getByLabelText('Storage location:'), {
+      target: { value: 'shelf' },
+    });
+
+    expect(onChange).toHaveBeenNthCalledWith(1, {
+      folderId: 5,
+      fieldValues: { '1': 'Mint (M)' },
+    });
+    expect(onChange).toHaveBeenNthCalledWith(2, {
+      folderId: 5,
+      fieldValues: { '3': 'shelf' },
+    });
+  });
+
+  it('removes a field value when cleared', () => {
+    const onChange = renderControls({ fieldValues: { '1': 'Mint (M)' } });
+
+    fireEvent.change(screen.getByLabelText('Media Condition:'), {
+      target: { value: '' },
+    });
+
+    expect(onChange).toHaveBeenCalledWith({ fieldValues: {} });
+  });
+});
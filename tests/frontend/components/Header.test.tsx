@@ -33,6 +33,12 @@ jest.mock('../../../src/renderer/components/NotificationBell', () => ({
   NotificationBell: () => <div data-testid='notification-bell' />,
 }));
 
+// Mock ProfileSwitcher component
+jest.mock('../../../src/renderer/components/ProfileSwitcher', () => ({
+  __esModule: true,
+  default: () => <div data-testid='profile-switcher' />,
+}));
+
 // Mock lucide-react icons
 jest.mock('lucide-react', () => ({
   Sun: ({ size }: { size: number }) => (
@@ -74,6 +80,11 @@ describe('Header', () => {
     expect(screen.getByTestId('notification-bell')).toBeInTheDocument();
   });
 
+  it('renders the ProfileSwitcher', () => {
+    renderHeader();
+    expect(screen.getByTestId('profile-switcher')).toBeInTheDocument();
+  });
+
   it('renders Moon icon in light mode', () => {
     renderHeader(false);
     expect(screen.getByTestId('moon-icon')).toBeInTheDocument();
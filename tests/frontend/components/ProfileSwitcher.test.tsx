@@ -0,0 +1,111 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import React from 'react';
+
+import ProfileSwitcher from '../../../src/renderer/components/ProfileSwitcher';
+import { ACTIVE_PROFILE_STORAGE_KEY } from '../../../src/renderer/utils/profileUtils';
+
+const mockSwitchProfile = jest.fn();
+
+jest.mock('../../../src/renderer/utils/profileUtils', () => ({
+  ...jest.requireActual('../../../src/renderer/utils/profileUtils'),
+  switchProfile: (profileId: string) => mockSwitchProfile(profileId),
+}));
+
+const mockGetProfiles = jest.fn();
+const mockCreateProfile = jest.fn();
+
+jest.mock('../../../src/renderer/services/api', () => ({
+  getApiService: () => ({
+    getProfiles: mockGetProfiles,
+    createProfile: mockCreateProfile,
+  }),
+}));
+
+jest.mock('../../../src/renderer/context/AppContext', () => ({
+  useApp: () => ({
+    state: { serverUrl: 'http://localhost:3001' },
+  }),
+}));
+
+const profiles = [
+  { id: 'default', name: 'Default', createdAt: 0 },
+  { id: 'sam', name: 'Sam', createdAt: 1 },
+];
+
+describe('ProfileSwitcher', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (localStorage.getItem as jest.Mock).mockReturnValue(null);
+    mockGetProfiles.mockResolvedValue(profiles);
+  });
+
+  it('selects the active profile', async () => {
+    // Arrange
+    (localStorage.getItem as jest.Mock).mockImplementation(key =>
+      key === ACTIVE_PROFILE_STORAGE_KEY ? 'sam' : null
+    );
+
+    // Act
+    render(<ProfileSwitcher />);
+
+    // Assert
+    const select = await screen.findByLabelText('Profile');
+    expect(select).toHaveValue('sam');
+  });
+
+  it('switches to the chosen profile', async () => {
+    // Arrange
+    render(<ProfileSwitcher />);
+    const select = await screen.findByLabelText('Profile');
+
+    // Act
+    await userEvent.selectOptions(select, 'sam');
+
+    // Assert
+    expect(mockSwitchProfile).toHaveBeenCalledWith('sam');
+  });
+
+  it('creates a profile and switches to it', async () => {
+    // Arrange
+    mockCreateProfile.mockResolvedValue({
+      id: 'alex',
+      name: 'Alex',
+      createdAt: 2,
+    });
+    render(<ProfileSwitcher />);
+    const select = await screen.findByLabelText('Profile');
+
+    // Act
+    await userEvent.selectOptions(select, '__new__');
+    await userEvent.type(screen.getByLabelText('Name'), 'Alex');
+    await userEvent.click(screen.getByText('Create and Switch'));
+
+    // Assert
+    await waitFor(() => {
+      expect(mockCreateProfile).toHaveBeenCalledWith('Alex');
+      expect(mockSwitchProfile).toHaveBeenCalledWith('alex');
+    });
+  });
+
+  it('shows why a profile could not be created', async () => {
+    // Arrange
+    mockCreateProfile.mockRejectedValue({
+      response: { data: { error: 'A profile named "Sam" already exists' } },
+    });
+    render(<ProfileSwitcher />);
+    const select = await screen.findByLabelText('Profile');
+
+    // Act
+    await userEvent.selectOptions(select, '__new__');
+    await userEvent.type(screen.getByLabelText('Name'), 'Sam');
+    await userEvent.click(screen.getByText('Create and Switch'));
+
+    // Assert
+    expect(
+      await screen.findByText('A profile named "Sam" already exists')
+    ).toBeInTheDocument();
+    expect(mockSwitchProfile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+
+import '@testing-library/jest-dom';
+import ScrobbleConflictWarning from '../../../src/renderer/components/ScrobbleConflictWarning';
+import { ScrobbleConflictReport } from '../../../src/shared/types';
+
+const createReport = (conflictCount: number): ScrobbleConflictReport => {
+  const tracks = Array.from({ length: 8 }, (_, i) => ({
+    artist: 'Air',
+    track: `Track ${i + 1}`,
+    timestamp: 1710000000 + i * 200,
+    duration: 200,
+  }));
+  return {
+    tracks,
+    conflicts: tracks.slice(0, conflictCount).map((track, i) => ({
+      trackIndex: i,
+      timestamp: track.timestamp,
+      existing: [
+        {
+          artist: 'radiohead',
+          album: 'kid a',
+          track: `Existing ${i + 1}`,
+          timestamp: track.timestamp + 60,
+        },
+      ],
+    })),
+    hasConflicts: conflictCount > 0,
+  };
+};
+
+describe('ScrobbleConflictWarning', () => {
+  it('should render nothing without conflicts', () => {
+    // Arrange & Act
+    const { container } = render(
+      <ScrobbleConflictWarning
+        report={createReport(0)}
+        onAutoShift={jest.fn()}
+      />
+    );
+
+    // Assert
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should summarize and list the overlapping tracks', () => {
+    // Arrange & Act
+    render(
+      <ScrobbleConflictWarning
+        report={createReport(2)}
+        onAutoShift={jest.fn()}
+      />
+    );
+
+    // Assert
+    expect(
+      screen.getByText('2 of 8 tracks overlap existing scrobbles')
+    ).toBeInTheDocument();
+    expect(screen.getByText(/Existing 1/)).toBeInTheDocument();
+    expect(screen.getByText(/Existing 2/)).toBeInTheDocument();
+  });
+
+  it('should cap the list and mention the remainder', () => {
+    // Arrange & Act
+    render(
+      <ScrobbleConflictWarning
+        report={createReport(7)}
+        onAutoShift={jest.fn()}
+      />
+    );
+
+    // Assert
+    expect(screen.getAllByRole('listitem')).toHaveLength(6);
+    expect(screen.getByText('…and 2 more tracks')).toBeInTheDocument();
+  });
+
+  it('should call onAutoShift when the shift button is clicked', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const onAutoShift = jest.fn();
+    render(
+      <ScrobbleConflictWarning
+        report={createReport(1)}
+        onAutoShift={onAutoShift}
+      />
+    );
+
+    // Act
+    await user.click(screen.getByText('Shift to nearest free gap'));
+
+    // Assert
+    expect(onAutoShift).toHaveBeenCalledTimes(1);
+  });
+
+  it('should disable the shift button while shifting', () => {
+    // Arrange & Act
+    render(
+      <ScrobbleConflictWarning
+        report={createReport(1)}
+        onAutoShift={jest.fn()}
+        shifting
+      />
+    );
+
+    // Assert
+    expect(
+      screen.getByRole('button', { name: /shift to nearest free gap/i })
+    ).toBeDisabled();
+  });
+});
@@ -90,6 +90,24 @@ describe('SuggestionCard', () => {
     expect(screen.queryByText('Score: 0.85')).not.toBeInTheDocument();
   });
 
+  it('shows where the record is shelved', () => {
+    render(
+      <SuggestionCard
+        suggestion={mockSuggestion}
+        shelfLocation={{ shelf: 'B', row: '2', position: 14 }}
+      />
+    );
+
+    expect(screen.getByText('Shelf B, Row 2, #14')).toBeInTheDocument();
+    expect(screen.getByTitle('Where is it?')).toBeInTheDocument();
+  });
+
+  it('shows no shelf location when none is known', () => {
+    render(<SuggestionCard suggestion={mockSuggestion} />);
+
+    expect(screen.queryByTitle('Where is it?')).not.toBeInTheDocument();
+  });
+
   it('toggles factor details when "Why this suggestion?" button is clicked', async () => {
     render(<SuggestionCard suggestion={mockSuggestion} />);
 
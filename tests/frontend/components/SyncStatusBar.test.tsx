@@ -8,6 +8,8 @@ const mockGetHistorySyncStatus = jest.fn();
 const mockStartHistorySync = jest.fn();
 const mockPauseHistorySync = jest.fn();
 const mockResumeHistorySync = jest.fn();
+const mockGetScrobbleQueueStatus = jest.fn();
+const mockRetryScrobbleQueue = jest.fn();
 
 jest.mock('../../../src/renderer/services/api', () => ({
   getApiService: () => ({
@@ -15,6 +17,8 @@ jest.mock('../../../src/renderer/services/api', () => ({
     startHistorySync: mockStartHistorySync,
     pauseHistorySync: mockPauseHistorySync,
     resumeHistorySync: mockResumeHistorySync,
+    getScrobbleQueueStatus: mockGetScrobbleQueueStatus,
+    retryScrobbleQueue: mockRetryScrobbleQueue,
   }),
 }));
 
@@ -26,6 +30,15 @@ describe('SyncStatusBar', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     user = userEvent.setup();
+    mockGetScrobbleQueueStatus.mockResolvedValue(createQueueStatus(0));
+  });
+
+  const createQueueStatus = (pending: number, failed: number = 0) => ({
+    pending,
+    failed,
+    nextAttemptAt: pending > 0 ? Date.now() + 60000 : null,
+    oldestQueuedAt: pending > 0 ? Date.now() : null,
+    lastDrainAt: null,
   });
 
   const createSyncResponse = (
@@ -719,4 +732,96 @@ describe('SyncStatusBar', () => {
       });
     });
   });
+
+  describe('scrobble retry queue', () => {
+    it('should not mention the queue when it is empty', async () => {
+      mockGetHistorySyncStatus.mockResolvedValue(createSyncResponse('idle'));
+
+      render(<SyncStatusBar />);
+
+      await waitFor(() => {
+        expect(mockGetScrobbleQueueStatus).toHaveBeenCalled();
+      });
+      expect(screen.queryByText(/queued for retry/)).not.toBeInTheDocument();
+    });
+
+    it('should show queue depth and failed count', async () => {
+      mockGetHistorySyncStatus.mockResolvedValue(createSyncResponse('idle'));
+      mockGetScrobbleQueueStatus.mockResolvedValue(createQueueStatus(3, 1));
+
+      render(<SyncStatusBar />);
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('3 scrobbles queued for retry')
+        ).toBeInTheDocument();
+      });
+      expect(screen.getByText('1 could not be delivered')).toBeInTheDocument();
+    });
+
+    it('should show queue depth in compact mode', async () => {
+      mockGetHistorySyncStatus.mockResolvedValue(
+        createSyncResponse('completed', { storageTotalScrobbles: 100 })
+      );
+      mockGetScrobbleQueueStatus.mockResolvedValue(createQueueStatus(1));
+
+      render(<SyncStatusBar compact />);
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('1 scrobble queued for retry')
+        ).toBeInTheDocument();
+      });
+    });
+
+    it('should retry the queue on demand', async () => {
+      mockGetHistorySyncStatus.mockResolvedValue(createSyncResponse('idle'));
+      mockGetScrobbleQueueStatus.mockResolvedValue(createQueueStatus(2));
+      mockRetryScrobbleQueue.mockResolvedValue({
+        result: { succeeded: 2, retrying: 0, failed: 0 },
+        status: createQueueStatus(0),
+      });
+
+      render(<SyncStatusBar />);
+
+      await waitFor(() => {
+        expect(
+          screen.getByRole('button', { name: 'Retry now' })
+        ).toBeInTheDocument();
+      });
+
+      mockGetScrobbleQueueStatus.mockResolvedValue(createQueueStatus(0));
+      await user.click(screen.getByRole('button', { name: 'Retry now' }));
+
+      await waitFor(() => {
+        expect(screen.queryByText(/queued for retry/)).not.toBeInTheDocument();
+      });
+      expect(mockRetryScrobbleQueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep showing sync status when the queue is unavailable', async () => {
+      mockGetHistorySyncStatus.mockResolvedValue(
+        createSyncResponse('idle', { storageTotalScrobbles: 500 })
+      );
+      mockGetScrobbleQueueStatus.mockRejectedValue(new Error('Not found'));
+
+      render(<SyncStatusBar />);
+
+      await waitFor(() => {
+        expect(screen.getByText('500 scrobbles')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Not found')).not.toBeInTheDocument();
+    });
+
+    it('should not poll the queue from the global bar', async () => {
+      mockGetHistorySyncStatus.mockResolvedValue(createSyncResponse('idle'));
+
+      render(<SyncStatusBar globalBar />);
+
+      await waitFor(() => {
+        expect(mockGetHistorySyncStatus).toHaveBeenCalled();
+      });
+      expect(mockGetScrobbleQueueStatus).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -2,13 +2,17 @@ import { render, screen } from '@testing-library/react';
 import React from 'react';
 import '@testing-library/jest-dom';
 
+import BiggestClimberSlide from '../../../src/renderer/components/wrapped/BiggestClimberSlide';
 import CollectionCoverageSlide from '../../../src/renderer/components/wrapped/CollectionCoverageSlide';
+import ComparisonSummarySlide from '../../../src/renderer/components/wrapped/ComparisonSummarySlide';
+import FullAlbumPlaysSlide from '../../../src/renderer/components/wrapped/FullAlbumPlaysSlide';
 import HeatmapSlide from '../../../src/renderer/components/wrapped/HeatmapSlide';
 import MostPlayedAdditionSlide from '../../../src/renderer/components/wrapped/MostPlayedAdditionSlide';
 import NewArtistsSlide from '../../../src/renderer/components/wrapped/NewArtistsSlide';
 import PeakDaySlide from '../../../src/renderer/components/wrapped/PeakDaySlide';
 import PeakHourSlide from '../../../src/renderer/components/wrapped/PeakHourSlide';
 import RecordsAddedSlide from '../../../src/renderer/components/wrapped/RecordsAddedSlide';
+import StoppedPlayingSlide from '../../../src/renderer/components/wrapped/StoppedPlayingSlide';
 import StreakSlide from '../../../src/renderer/components/wrapped/StreakSlide';
 import TopAlbumsSlide from '../../../src/renderer/components/wrapped/TopAlbumsSlide';
 import TopArtistsSlide from '../../../src/renderer/components/wrapped/TopArtistsSlide';
@@ -22,6 +26,11 @@ import {
   WrappedTopItem,
   WrappedCollectionStats,
   WrappedCrossSourceStats,
+  WrappedSessionStats,
+  WrappedComparison,
+  WrappedData,
+  WrappedRankMovement,
+  WrappedStatDelta,
 } from '../../../src/shared/types';
 
 // Mock CalendarHeatmap to avoid complex SVG rendering in tests
@@ -614,6 +623,41 @@ describe('StreakSlide', () => {
   });
 });
 
+describe('FullAlbumPlaysSlide', () => {
+  const sessions: WrappedSessionStats = {
+    totalSessions: 40,
+    fullAlbumPlays: 12,
+    partialPlays: 20,
+    shuffles: 8,
+    topFullAlbum: { artist: 'Radiohead', album: 'OK Computer', count: 4 },
+  };
+
+  it('displays full album plays and the album played in full most', () => {
+    render(<FullAlbumPlaysSlide sessions={sessions} />);
+
+    expect(screen.getByText('12')).toBeInTheDocument();
+    expect(
+      screen.getByText(/20 partial plays and 8 shuffles/)
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(/Most played in full: OK Computer by Radiohead/)
+    ).toBeInTheDocument();
+  });
+
+  it('shows empty state when no album was played in full', () => {
+    render(
+      <FullAlbumPlaysSlide
+        sessions={{ ...sessions, fullAlbumPlays: 0, topFullAlbum: null }}
+      />
+    );
+
+    expect(screen.getByText('Full Album Plays')).toBeInTheDocument();
+    expect(
+      screen.getByText(/No albums played start to finish/)
+    ).toBeInTheDocument();
+  });
+});
+
 describe('HeatmapSlide', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -938,3 +982,138 @@ describe('VinylVsDigitalSlide', () => {
     expect(screen.getByText(/100%/)).toBeInTheDocument();
   });
 });
+
+const delta = (current: number, previous: number): WrappedStatDelta => ({
+  current,
+  previous,
+  change: current - previous,
+  percentChange:
+    previous === 0 ? null : Math.round(((current - previous) / previous) * 100),
+});
+
+describe('ComparisonSummarySlide', () => {
+  const comparison = {
+    previous: {
+      startDate: new Date(2023, 0, 1).getTime(),
+      endDate: new Date(2023, 11, 31).getTime(),
+    } as WrappedData,
+    listening: {
+      totalScrobbles: delta(3000, 2000),
+      estimatedListeningHours: delta(175, 116.7),
+      uniqueArtists: delta(180, 200),
+      uniqueAlbums: delta(300, 300),
+      newArtistsDiscovered: delta(40, 0),
+    },
+    collection: { recordsAdded: delta(12, 8) },
+    crossSource: {
+      vinylScrobbles: delta(1200, 500),
+      otherScrobbles: delta(1800, 1500),
+      vinylPercentage: delta(40, 25),
+    },
+  } as WrappedComparison;
+
+  it('shows each stat with its change against the earlier period', () => {
+    render(<ComparisonSummarySlide comparison={comparison} />);
+
+    expect(screen.getByText(/Compared with Jan 1, 2023/)).toBeInTheDocument();
+    expect(screen.getByText('+1,000 (+50%)')).toBeInTheDocument();
+    expect(screen.getByText('−20 (−10%)')).toBeInTheDocument();
+    expect(screen.getByText('±0 (±0%)')).toBeInTheDocument();
+    expect(screen.getByText('+40')).toBeInTheDocument();
+    expect(screen.getByText('+15%')).toBeInTheDocument();
+  });
+
+  it('marks gains and losses', () => {
+    const { container } = render(
+      <ComparisonSummarySlide comparison={comparison} />
+    );
+
+    expect(container.querySelector('.wrapped-delta-down')?.textContent).toBe(
+      '−20 (−10%)'
+    );
+  });
+
+  it('leaves out vinyl share without source data', () => {
+    render(
+      <ComparisonSummarySlide
+        comparison={{
+          ...comparison,
+          crossSource: {
+            vinylScrobbles: delta(0, 0),
+            otherScrobbles: delta(0, 0),
+            vinylPercentage: delta(0, 0),
+          },
+        }}
+      />
+    );
+
+    expect(screen.queryByText('Vinyl share')).not.toBeInTheDocument();
+  });
+});
+
+const movement = (
+  overrides: Partial<WrappedRankMovement>
+): WrappedRankMovement => ({
+  name: 'Massive Attack',
+  artist: 'Massive Attack',
+  currentRank: 2,
+  previousRank: 14,
+  currentPlayCount: 120,
+  previousPlayCount: 9,
+  movement: 12,
+  ...overrides,
+});
+
+describe('BiggestClimberSlide', () => {
+  it('shows the rank change and play counts', () => {
+    render(<BiggestClimberSlide climber={movement({})} kind='artist' />);
+
+    expect(screen.getByText('Massive Attack')).toBeInTheDocument();
+    expect(screen.getByText('#14 → #2')).toBeInTheDocument();
+    expect(
+      screen.getByText(/Up 12 places, from 9 to 120 plays/)
+    ).toBeInTheDocument();
+  });
+
+  it('shows the artist under an album', () => {
+    render(
+      <BiggestClimberSlide
+        climber={movement({ name: 'Mezzanine', album: 'Mezzanine' })}
+        kind='album'
+      />
+    );
+
+    expect(screen.getByText('Mezzanine')).toBeInTheDocument();
+    expect(screen.getByText('Massive Attack')).toBeInTheDocument();
+  });
+});
+
+describe('StoppedPlayingSlide', () => {
+  it('lists artists with their earlier rank', () => {
+    render(
+      <StoppedPlayingSlide
+        artists={[
+          movement({
+            name: 'Portishead',
+            artist: 'Portishead',
+            previousRank: 3,
+            currentRank: null,
+            previousPlayCount: 45,
+            currentPlayCount: 0,
+            movement: null,
+          }),
+        ]}
+      />
+    );
+
+    expect(screen.getByText('Who You Stopped Playing')).toBeInTheDocument();
+    expect(screen.getByText('Portishead')).toBeInTheDocument();
+    expect(screen.getByText('3')).toBeInTheDocument();
+    expect(screen.getByText('45 plays before')).toBeInTheDocument();
+  });
+
+  it('returns null for empty artists array', () => {
+    const { container } = render(<StoppedPlayingSlide artists={[]} />);
+    expect(container.innerHTML).toBe('');
+  });
+});
@@ -4,7 +4,7 @@ import React from 'react';
 import '@testing-library/jest-dom';
 
 import WrappedSlideshow from '../../../src/renderer/components/wrapped/WrappedSlideshow';
-import { WrappedData } from '../../../src/shared/types';
+import { WrappedComparison, WrappedData } from '../../../src/shared/types';
 
 const createMockWrappedData = (): WrappedData => ({
   startDate: new Date('2024-01-01').getTime(),
@@ -357,6 +357,153 @@ describe('WrappedSlideshow', () => {
     });
   });
 
+  describe('with listening sessions', () => {
+    it('should add the full album plays slide when sessions were found', () => {
+      // Arrange
+      const data = createMockWrappedData();
+      data.listening.sessions = {
+        totalSessions: 20,
+        fullAlbumPlays: 6,
+        partialPlays: 10,
+        shuffles: 4,
+        topFullAlbum: null,
+      };
+
+      // Act
+      render(<WrappedSlideshow data={data} onExit={mockOnExit} />);
+
+      // Assert - 10 base + 1 sessions + 4 collection slides = 15
+      const dots = screen.getAllByRole('tab');
+      expect(dots.length).toBe(15);
+    });
+
+    it('should leave the slide out when no sessions were found', () => {
+      // Arrange
+      const data = createMockWrappedData();
+      data.listening.sessions = {
+        totalSessions: 0,
+        fullAlbumPlays: 0,
+        partialPlays: 0,
+        shuffles: 0,
+        topFullAlbum: null,
+      };
+
+      // Act
+      render(<WrappedSlideshow data={data} onExit={mockOnExit} />);
+
+      // Assert
+      const dots = screen.getAllByRole('tab');
+      expect(dots.length).toBe(14);
+    });
+  });
+
+  describe('with a comparison', () => {
+    const createComparison = (
+      overrides: Partial<WrappedComparison> = {}
+    ): WrappedComparison => {
+      const data = createMockWrappedData();
+      const delta = { current: 1, previous: 1, change: 0, percentChange: 0 };
+      const noMovement = {
+        items: [],
+        newEntries: [],
+        dropOuts: [],
+        biggestClimber: null,
+      };
+      return {
+        current: data,
+        previous: data,
+        listening: {
+          totalScrobbles: delta,
+          estimatedListeningHours: delta,
+          uniqueArtists: delta,
+          uniqueAlbums: delta,
+          newArtistsDiscovered: delta,
+        },
+        topArtists: noMovement,
+        topAlbums: noMovement,
+        topTracks: noMovement,
+        stoppedPlaying: [],
+        collection: { recordsAdded: delta },
+        crossSource: {
+          vinylScrobbles: delta,
+          otherScrobbles: delta,
+          vinylPercentage: delta,
+        },
+        ...overrides,
+      };
+    };
+
+    it('should add comparison slides after the listening slides', async () => {
+      // Arrange
+      const user = userEvent.setup();
+      const moved = {
+        name: 'Pink Floyd',
+        artist: 'Pink Floyd',
+        currentRank: 3,
+        previousRank: 9,
+        currentPlayCount: 200,
+        previousPlayCount: 40,
+        movement: 6,
+      };
+      const comparison = createComparison({
+        topArtists: {
+          items: [moved],
+          newEntries: [],
+          dropOuts: [],
+          biggestClimber: moved,
+        },
+        stoppedPlaying: [
+          {
+            name: 'Oasis',
+            artist: 'Oasis',
+            currentRank: null,
+            previousRank: 2,
+            currentPlayCount: 0,
+            previousPlayCount: 90,
+            movement: null,
+          },
+        ],
+      });
+
+      // Act
+      render(
+        <WrappedSlideshow
+          data={comparison.current}
+          comparison={comparison}
+          onExit={mockOnExit}
+        />
+      );
+
+      // Assert - 14 regular slides + summary, climber and stopped playing
+      expect(screen.getAllByRole('tab').length).toBe(17);
+      for (let i = 0; i < 10; i++) {
+        await user.keyboard('{ArrowRight}');
+      }
+      expect(screen.getByText('Then vs Now')).toBeInTheDocument();
+      await user.keyboard('{ArrowRight}');
+      expect(screen.getByText('#9 → #3')).toBeInTheDocument();
+      await user.keyboard('{ArrowRight}');
+      expect(screen.getByText('Oasis')).toBeInTheDocument();
+    });
+
+    it('should skip climber and stopped playing slides without data', () => {
+      // Arrange
+      const comparison = createComparison();
+
+      // Act
+      render(
+        <WrappedSlideshow
+          data={comparison.current}
+          comparison={comparison}
+          onExit={mockOnExit}
+        />
+      );
+
+      // Assert
+      expect(screen.getAllByRole('tab').length).toBe(15);
+    });
+  });
+
   describe('without collection data (Last.fm only)', () => {
     const createLastFmOnlyData = (): WrappedData => {
       const data = createMockWrappedData();
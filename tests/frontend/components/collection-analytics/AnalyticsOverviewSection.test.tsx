@@ -92,11 +92,12 @@ function createMockOverview(
     },
     growth: {
       dataPoints: [
-        { period: '2020-01', added: 10, cumulative: 10 },
-        { period: '2020-06', added: 20, cumulative: 30 },
+        { period: '2020-01', added: 10, removed: 0, cumulative: 10 },
+        { period: '2020-06', added: 20, removed: 0, cumulative: 30 },
       ],
       granularity: 'month',
       totalAdded: 100,
+      totalRemoved: 0,
     },
     ...overrides,
   };
@@ -235,7 +236,12 @@ describe('AnalyticsOverviewSection', () => {
       formats: { categories: [], totalItems: 0 },
       labels: { labels: [], totalLabels: 0, totalItems: 0 },
       decades: { decades: [], years: [], unknownYearCount: 0 },
-      growth: { dataPoints: [], granularity: 'month', totalAdded: 0 },
+      growth: {
+        dataPoints: [],
+        granularity: 'month',
+        totalAdded: 0,
+        totalRemoved: 0,
+      },
     });
 
     // Act
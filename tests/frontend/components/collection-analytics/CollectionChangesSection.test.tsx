@@ -0,0 +1,117 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+
+import '@testing-library/jest-dom';
+import CollectionChangesSection from '../../../../src/renderer/components/collection-analytics/CollectionChangesSection';
+import { CollectionChange } from '../../../../src/shared/types';
+
+const mockGetCollectionChanges = jest.fn();
+
+jest.mock('../../../../src/renderer/services/api', () => ({
+  getApiService: () => ({
+    getCollectionChanges: mockGetCollectionChanges,
+  }),
+}));
+
+jest.mock('../../../../src/renderer/context/AppContext', () => ({
+  useApp: () => ({
+    state: { serverUrl: 'http://localhost:3000' },
+  }),
+}));
+
+jest.mock('../../../../src/renderer/context/AuthContext', () => ({
+  useAuth: () => ({
+    authStatus: {
+      discogs: { username: 'testuser', authenticated: true },
+      lastfm: { username: '', authenticated: false },
+    },
+  }),
+}));
+
+const createChange = (
+  overrides: Partial<CollectionChange> = {}
+): CollectionChange => ({
+  type: 'added',
+  timestamp: new Date(2024, 2, 1).getTime(),
+  instanceId: 1,
+  releaseId: 100,
+  artist: 'Radiohead',
+  title: 'Kid A',
+  ...overrides,
+});
+
+describe('CollectionChangesSection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list changes with a description of each', async () => {
+    mockGetCollectionChanges.mockResolvedValue({
+      changes: [
+        createChange({ type: 'removed', instanceId: 2, title: 'Amnesiac' }),
+        createChange({ type: 'rating', before: 3, after: 5 }),
+      ],
+      total: 2,
+    });
+
+    render(<CollectionChangesSection />);
+
+    expect(await screen.findByText('Amnesiac')).toBeInTheDocument();
+    expect(screen.getByText('Removed from the collection')).toBeInTheDocument();
+    expect(screen.getByText('Rating 3 → 5')).toBeInTheDocument();
+    expect(mockGetCollectionChanges).toHaveBeenCalledWith('testuser', {
+      type: undefined,
+      limit: 50,
+      offset: 0,
+    });
+  });
+
+  it('should show an empty state before any changes are recorded', async () => {
+    mockGetCollectionChanges.mockResolvedValue({ changes: [], total: 0 });
+
+    render(<CollectionChangesSection />);
+
+    expect(
+      await screen.findByText(/No changes recorded yet/)
+    ).toBeInTheDocument();
+  });
+
+  it('should reload with the selected change type', async () => {
+    mockGetCollectionChanges.mockResolvedValue({ changes: [], total: 0 });
+    render(<CollectionChangesSection />);
+    await screen.findByText(/No changes recorded yet/);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Removed' }));
+
+    await waitFor(() =>
+      expect(mockGetCollectionChanges).toHaveBeenLastCalledWith('testuser', {
+        type: 'removed',
+        limit: 50,
+        offset: 0,
+      })
+    );
+  });
+
+  it('should load the next page on demand', async () => {
+    mockGetCollectionChanges
+      .mockResolvedValueOnce({ changes: [createChange()], total: 2 })
+      .mockResolvedValueOnce({
+        changes: [createChange({ instanceId: 3, title: 'OK Computer' })],
+        total: 2,
+      });
+    render(<CollectionChangesSection />);
+
+    await userEvent.click(
+      await screen.findByRole('button', { name: 'Load more' })
+    );
+
+    expect(await screen.findByText('OK Computer')).toBeInTheDocument();
+    expect(screen.getByText('Kid A')).toBeInTheDocument();
+    expect(mockGetCollectionChanges).toHaveBeenLastCalledWith('testuser', {
+      type: undefined,
+      limit: 50,
+      offset: 1,
+    });
+  });
+});
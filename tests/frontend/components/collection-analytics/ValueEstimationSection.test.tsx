@@ -38,6 +38,12 @@ jest.mock('../../../../src/renderer/services/statsApi', () => ({
   },
 }));
 
+// Mock the Discogs budget line (needs AppProvider)
+jest.mock(
+  '../../../../src/renderer/components/DiscogsBudgetStatus',
+  () => () => null
+);
+
 // Mock logger
 jest.mock('../../../../src/renderer/utils/logger', () => ({
   createLogger: () => ({
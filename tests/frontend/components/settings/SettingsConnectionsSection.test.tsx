@@ -16,6 +16,9 @@ const mockApi = {
   handleLastfmCallback: jest.fn(),
   getAuthStatus: jest.fn(),
   clearAuth: jest.fn(),
+  connectListenBrainz: jest.fn(),
+  setListenBrainzEnabled: jest.fn(),
+  disconnectListenBrainz: jest.fn(),
 } as unknown as ApiService;
 
 const createMockAuthContext = (
@@ -330,6 +333,120 @@ describe('SettingsConnectionsSection', () => {
     });
   });
 
+  describe('ListenBrainz', () => {
+    const renderWithListenBrainz = (enabled: boolean) => {
+      const mockAuthValue = createMockAuthContext();
+      return render(
+        <AuthProvider
+          value={{
+            ...mockAuthValue,
+            authStatus: {
+              ...mockAuthValue.authStatus,
+              listenbrainz: {
+                authenticated: true,
+                username: 'lb_user',
+                enabled,
+              },
+            },
+          }}
+        >
+          <SettingsConnectionsSection api={mockApi} />
+        </AuthProvider>
+      );
+    };
+
+    it('connects with a user token', async () => {
+      (mockApi.connectListenBrainz as jest.Mock).mockResolvedValue({
+        username: 'lb_user',
+      });
+      (mockApi.getAuthStatus as jest.Mock).mockResolvedValue({
+        discogs: { authenticated: false },
+        lastfm: { authenticated: false },
+        listenbrainz: {
+          authenticated: true,
+          username: 'lb_user',
+          enabled: true,
+        },
+      });
+
+      renderWithProviders();
+
+      await user.type(
+        screen.getByPlaceholderText('your_listenbrainz_token'),
+        'lb-token'
+      );
+      await user.click(
+        screen.getByRole('button', { name: 'Connect to ListenBrainz' })
+      );
+
+      await waitFor(() => {
+        expect(mockApi.connectListenBrainz).toHaveBeenCalledWith('lb-token');
+      });
+      expect(
+        await screen.findByText(
+          'Successfully connected to ListenBrainz as lb_user'
+        )
+      ).toBeInTheDocument();
+    });
+
+    it('shows the API error for a rejected token', async () => {
+      (mockApi.connectListenBrainz as jest.Mock).mockRejectedValue({
+        response: { data: { error: 'Invalid ListenBrainz token' } },
+      });
+
+      renderWithProviders();
+
+      await user.type(
+        screen.getByPlaceholderText('your_listenbrainz_token'),
+        'bad'
+      );
+      await user.click(
+        screen.getByRole('button', { name: 'Connect to ListenBrainz' })
+      );
+
+      expect(
+        await screen.findByText('Invalid ListenBrainz token')
+      ).toBeInTheDocument();
+    });
+
+    it('toggles submission when connected', async () => {
+      (mockApi.setListenBrainzEnabled as jest.Mock).mockResolvedValue(
+        undefined
+      );
+      (mockApi.getAuthStatus as jest.Mock).mockResolvedValue({});
+
+      renderWithListenBrainz(true);
+
+      expect(screen.getByText('Connected as lb_user')).toBeInTheDocument();
+      await user.click(
+        screen.getByRole('checkbox', {
+          name: /Submit scrobbles to ListenBrainz/,
+        })
+      );
+
+      await waitFor(() => {
+        expect(mockApi.setListenBrainzEnabled).toHaveBeenCalledWith(false);
+      });
+    });
+
+    it('disconnects ListenBrainz', async () => {
+      (mockApi.disconnectListenBrainz as jest.Mock).mockResolvedValue(
+        undefined
+      );
+      (mockApi.getAuthStatus as jest.Mock).mockResolvedValue({});
+
+      renderWithListenBrainz(false);
+
+      await user.click(
+        screen.getByRole('button', { name: 'Disconnect ListenBrainz' })
+      );
+
+      expect(
+        await screen.findByText('ListenBrainz disconnected')
+      ).toBeInTheDocument();
+    });
+  });
+
   describe('Clear Authentication', () => {
     it('clears all authentication data', async () => {
       (mockApi.clearAuth as jest.Mock).mockResolvedValue(undefined);
@@ -1,4 +1,10 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import {
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from '@testing-library/react';
 import '@testing-library/jest-dom';
 import React from 'react';
 
@@ -43,6 +49,33 @@ const mockApi = {
   }),
   getAIStatus: jest.fn().mockResolvedValue({ connected: false }),
   getAIModels: jest.fn().mockResolvedValue([]),
+  getShelfSettings: jest.fn().mockResolvedValue({ syncFieldId: null }),
+  setShelfSyncField: jest.fn().mockResolvedValue(undefined),
+  importShelfLocations: jest.fn(),
+  getCollectionFields: jest.fn().mockResolvedValue([]),
+  getRecognizerDevices: jest.fn().mockResolvedValue([]),
+  registerRecognizerDevice: jest.fn(),
+  setRecognizerDevicePaused: jest.fn(),
+  revokeRecognizerDevice: jest.fn().mockResolvedValue(undefined),
+};
+
+const recognizer = {
+  id: 'device-1',
+  name: 'Turntable Pi',
+  keyPreview: 'rsk_1a2b3c',
+  createdAt: 1700000000000,
+  paused: false,
+  scrobbled: 42,
+  rejected: 3,
+  averageConfidence: 0.874,
+};
+
+const mockAuthValueWithDiscogs = {
+  authStatus: {
+    discogs: { authenticated: true, username: 'collector' },
+    lastfm: { authenticated: false },
+  },
+  setAuthStatus: jest.fn(),
 };
 
 const renderWithProviders = (
@@ -111,6 +144,114 @@ describe('SettingsIntegrationsSection', () => {
     });
   });
 
+  it('lists Discogs text fields for mirroring shelf locations', async () => {
+    mockApi.getCollectionFields.mockResolvedValueOnce([
+      { id: 1, name: 'Media Condition', type: 'dropdown', position: 1 },
+      { id: 4, name: 'Location', type: 'textarea', position: 2 },
+    ]);
+
+    renderWithProviders(
+      <SettingsIntegrationsSection api={mockApi as any} />,
+      mockAuthValueWithDiscogs
+    );
+
+    expect(await screen.findByText('Location')).toBeInTheDocument();
+    expect(screen.queryByText('Media Condition')).not.toBeInTheDocument();
+    expect(mockApi.getCollectionFields).toHaveBeenCalledWith('collector');
+  });
+
+  it('saves the mirrored shelf location field', async () => {
+    mockApi.getCollectionFields.mockResolvedValueOnce([
+      { id: 4, name: 'Location', type: 'textarea', position: 2 },
+    ]);
+
+    renderWithProviders(
+      <SettingsIntegrationsSection api={mockApi as any} />,
+      mockAuthValueWithDiscogs
+    );
+    await screen.findByText('Location');
+
+    fireEvent.change(screen.getByLabelText('Discogs Note Field'), {
+      target: { value: '4' },
+    });
+
+    await waitFor(() => {
+      expect(mockApi.setShelfSyncField).toHaveBeenCalledWith(4);
+    });
+    expect(
+      await screen.findByRole('button', { name: 'Import from Discogs' })
+    ).toBeEnabled();
+  });
+
+  it('lists registered recognizers with their stats', async () => {
+    mockApi.getRecognizerDevices.mockResolvedValueOnce([recognizer]);
+
+    renderWithProviders(<SettingsIntegrationsSection api={mockApi as any} />);
+
+    expect(await screen.findByText('Turntable Pi')).toBeInTheDocument();
+    expect(
+      screen.getByText(/42 scrobbled • 3 rejected • 87% avg\. confidence/)
+    ).toBeInTheDocument();
+    expect(screen.getByText(/never seen/)).toBeInTheDocument();
+  });
+
+  it('shows the API key of a newly registered recognizer', async () => {
+    mockApi.registerRecognizerDevice.mockResolvedValueOnce({
+      device: recognizer,
+      apiKey: 'rsk_1a2b3c4d5e6f',
+    });
+
+    renderWithProviders(<SettingsIntegrationsSection api={mockApi as any} />);
+
+    fireEvent.change(screen.getByLabelText('Recognizer name'), {
+      target: { value: ' Turntable Pi ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Register' }));
+
+    expect(await screen.findByText('rsk_1a2b3c4d5e6f')).toBeInTheDocument();
+    expect(mockApi.registerRecognizerDevice).toHaveBeenCalledWith(
+      'Turntable Pi'
+    );
+  });
+
+  it('pauses auto-scrobbling from a recognizer', async () => {
+    mockApi.getRecognizerDevices.mockResolvedValueOnce([recognizer]);
+    mockApi.setRecognizerDevicePaused.mockResolvedValueOnce({
+      ...recognizer,
+      paused: true,
+    });
+
+    renderWithProviders(<SettingsIntegrationsSection api={mockApi as any} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Pause' }));
+
+    expect(
+      await screen.findByRole('button', { name: 'Resume' })
+    ).toBeInTheDocument();
+    expect(mockApi.setRecognizerDevicePaused).toHaveBeenCalledWith(
+      'device-1',
+      true
+    );
+  });
+
+  it('revokes a recognizer after confirmation', async () => {
+    mockApi.getRecognizerDevices.mockResolvedValueOnce([recognizer]);
+
+    renderWithProviders(<SettingsIntegrationsSection api={mockApi as any} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Revoke' }));
+    fireEvent.click(
+      within(await screen.findByRole('dialog')).getByRole('button', {
+        name: 'Revoke',
+      })
+    );
+
+    await waitFor(() => {
+      expect(screen.queryByText('Turntable Pi')).not.toBeInTheDocument();
+    });
+    expect(mockApi.revokeRecognizerDevice).toHaveBeenCalledWith('device-1');
+  });
+
   it('shows Ollama connection status', async () => {
     renderWithProviders(<SettingsIntegrationsSection api={mockApi as any} />);
 
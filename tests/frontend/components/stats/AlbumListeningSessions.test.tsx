@@ -0,0 +1,153 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+
+import '@testing-library/jest-dom';
+import { AlbumListeningSessions } from '../../../../src/renderer/components/stats/AlbumListeningSessions';
+import { statsApi } from '../../../../src/renderer/services/statsApi';
+import { ListeningSessionsResult } from '../../../../src/shared/types';
+
+// Mock the statsApi
+jest.mock('../../../../src/renderer/services/statsApi');
+const mockedStatsApi = statsApi as jest.Mocked<typeof statsApi>;
+
+const mockSessions: ListeningSessionsResult = {
+  startDate: 0,
+  endDate: 1773600000,
+  totalSessions: 3,
+  fullAlbumPlays: 2,
+  partialPlays: 1,
+  shuffles: 0,
+  days: [
+    {
+      date: '2026-03-12',
+      playCount: 3,
+      sessions: [
+        {
+          start: 1773345600,
+          end: 1773346080,
+          kind: 'partial',
+          playCount: 3,
+          albums: [
+            {
+              artist: 'Radiohead',
+              album: 'Kid A',
+              plays: 3,
+              tracksPlayed: 3,
+              knownTracks: 10,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      date: '2026-03-05',
+      playCount: 20,
+      sessions: [
+        {
+          start: 1772740800,
+          end: 1772743200,
+          kind: 'full-album',
+          playCount: 10,
+          albums: [
+            {
+              artist: 'Radiohead',
+              album: 'Kid A',
+              plays: 10,
+              tracksPlayed: 10,
+              knownTracks: 10,
+            },
+          ],
+        },
+        {
+          start: 1772730000,
+          end: 1772732400,
+          kind: 'full-album',
+          playCount: 10,
+          albums: [
+            {
+              artist: 'Radiohead',
+              album: 'Kid A',
+              plays: 10,
+              tracksPlayed: 10,
+              knownTracks: 10,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('AlbumListeningSessions', () => {
+  const defaultProps = {
+    artist: 'Radiohead',
+    album: 'Kid A',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show the label while data is loading', () => {
+    // Arrange — never-resolving promise keeps loading state active
+    mockedStatsApi.getListeningSessions.mockImplementation(
+      () => new Promise(() => {})
+    );
+
+    // Act
+    render(<AlbumListeningSessions {...defaultProps} />);
+
+    // Assert
+    expect(screen.getByText('Listening Sessions')).toBeInTheDocument();
+    expect(screen.queryByText('Full album plays')).not.toBeInTheDocument();
+  });
+
+  it('should show empty state when no sessions were found', async () => {
+    // Arrange
+    mockedStatsApi.getListeningSessions.mockResolvedValue({
+      success: true,
+      data: { ...mockSessions, totalSessions: 0, days: [] },
+    });
+
+    // Act
+    render(<AlbumListeningSessions {...defaultProps} />);
+
+    // Assert
+    await screen.findByText('No listening sessions found');
+  });
+
+  it('should show session counts and recent sessions', async () => {
+    // Arrange
+    mockedStatsApi.getListeningSessions.mockResolvedValue({
+      success: true,
+      data: mockSessions,
+    });
+
+    // Act
+    render(<AlbumListeningSessions {...defaultProps} />);
+
+    // Assert
+    await screen.findByText('Full album plays');
+    expect(screen.getByText('2')).toBeInTheDocument();
+    expect(screen.getByText('3 of 10 tracks')).toBeInTheDocument();
+    expect(screen.getAllByText('Full album')).toHaveLength(2);
+    expect(screen.getByText('Partial')).toBeInTheDocument();
+  });
+
+  it('should request all-time sessions for the album', () => {
+    // Arrange
+    mockedStatsApi.getListeningSessions.mockResolvedValue({
+      success: true,
+      data: mockSessions,
+    });
+
+    // Act
+    render(<AlbumListeningSessions {...defaultProps} />);
+
+    // Assert
+    expect(mockedStatsApi.getListeningSessions).toHaveBeenCalledWith(
+      expect.objectContaining({ startDate: 0 }),
+      { artist: 'Radiohead', album: 'Kid A' }
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+
+import '@testing-library/jest-dom';
+import { StarRating } from '../../../../src/renderer/components/ui/StarRating';
+
+describe('StarRating', () => {
+  it('renders a read-only rating without buttons', () => {
+    render(<StarRating value={3} />);
+
+    expect(screen.getByRole('img')).toHaveAttribute(
+      'aria-label',
+      'Rated 3 of 5'
+    );
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('labels an unrated read-only rating', () => {
+    render(<StarRating value={0} />);
+
+    expect(screen.getByRole('img')).toHaveAttribute('aria-label', 'Not rated');
+  });
+
+  it('reports the clicked rating', () => {
+    const onChange = jest.fn();
+    render(<StarRating value={2} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rate 4 stars' }));
+
+    expect(onChange).toHaveBeenCalledWith(4);
+  });
+
+  it('clears the rating when the current star is clicked again', () => {
+    const onChange = jest.fn();
+    render(<StarRating value={2} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear rating' }));
+
+    expect(onChange).toHaveBeenCalledWith(0);
+  });
+
+  it('marks the stars up to the rating as pressed', () => {
+    render(<StarRating value={2} onChange={jest.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Rate 1 star' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(
+      screen.getByRole('button', { name: 'Rate 3 stars' })
+    ).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('disables the stars while saving', () => {
+    render(<StarRating value={2} onChange={jest.fn()} disabled />);
+
+    expect(screen.getByRole('button', { name: 'Rate 4 stars' })).toBeDisabled();
+  });
+});
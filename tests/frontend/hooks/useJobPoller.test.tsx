@@ -10,9 +10,11 @@ import { useJobPoller } from '../../../src/renderer/hooks/useJobPoller';
 
 // Mock the api service
 const mockGetJobStatuses = jest.fn();
+const mockCancelJob = jest.fn();
 jest.mock('../../../src/renderer/services/api', () => ({
   getApiService: () => ({
     getJobStatuses: mockGetJobStatuses,
+    cancelJob: mockCancelJob,
   }),
 }));
 
@@ -27,6 +29,7 @@ describe('useJobPoller', () => {
     jest.useFakeTimers();
     mockGetJobStatuses.mockReset();
     mockGetJobStatuses.mockResolvedValue([]);
+    mockCancelJob.mockReset();
   });
 
   afterEach(() => {
@@ -170,4 +173,73 @@ describe('useJobPoller', () => {
 
     expect(mockGetJobStatuses).toHaveBeenCalledTimes(1);
   });
+
+  it('shows info toast when job is cancelled', async () => {
+    mockGetJobStatuses.mockResolvedValue([
+      {
+        id: 'job-4',
+        type: 'seller-scan',
+        status: 'cancelled',
+        message: 'Seller scan cancelled',
+        cancellable: true,
+        queuedAt: Date.now(),
+        startedAt: Date.now(),
+        completedAt: Date.now(),
+      },
+    ]);
+
+    const { result } = renderHook(
+      () => {
+        useJobPoller();
+        return useToast();
+      },
+      { wrapper }
+    );
+
+    await act(async () => {
+      jest.advanceTimersByTime(3000);
+    });
+
+    expect(result.current.toasts).toHaveLength(1);
+    expect(result.current.toasts[0].type).toBe('info');
+    expect(result.current.toasts[0].message).toBe('Seller scan cancelled');
+  });
+
+  it('exposes queued and running jobs as active', async () => {
+    const running = {
+      id: 'job-5',
+      type: 'history-sync',
+      status: 'running',
+      message: 'Syncing...',
+      progress: 20,
+      cancellable: true,
+      queuedAt: Date.now(),
+      startedAt: Date.now(),
+    };
+    mockGetJobStatuses.mockResolvedValue([
+      running,
+      { ...running, id: 'job-6', status: 'queued' },
+      { ...running, id: 'job-7', status: 'completed' },
+    ]);
+
+    const { result } = renderHook(() => useJobPoller(), { wrapper });
+
+    await act(async () => {
+      jest.advanceTimersByTime(3000);
+    });
+
+    expect(result.current.activeJobs.map(job => job.id)).toEqual([
+      'job-5',
+      'job-6',
+    ]);
+
+    // Cancelling reflects the server's answer straight away
+    mockCancelJob.mockResolvedValue({ ...running, cancelRequested: true });
+    await act(async () => {
+      await result.current.cancelJob('job-5');
+    });
+
+    expect(mockCancelJob).toHaveBeenCalledWith('job-5');
+    expect(result.current.activeJobs[0].cancelRequested).toBe(true);
+  });
 });
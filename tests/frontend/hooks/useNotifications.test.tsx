@@ -0,0 +1,106 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import React, { ReactNode } from 'react';
+
+import { AppProvider } from '../../../src/renderer/context/AppContext';
+import { useNotifications } from '../../../src/renderer/hooks/useNotifications';
+import { AppNotification } from '../../../src/shared/types';
+
+// Mock the api service
+const mockGetNotifications = jest.fn();
+const mockCreateNotification = jest.fn();
+const mockImportNotifications = jest.fn();
+const mockMarkNotificationRead = jest.fn();
+jest.mock('../../../src/renderer/services/api', () => ({
+  getApiService: () => ({
+    getNotifications: mockGetNotifications,
+    createNotification: mockCreateNotification,
+    importNotifications: mockImportNotifications,
+    markNotificationRead: mockMarkNotificationRead,
+  }),
+}));
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AppProvider>{children}</AppProvider>
+);
+
+const stored: AppNotification = {
+  id: 'n1',
+  type: 'info',
+  title: 'Scan complete',
+  message: 'Found 2 new items',
+  timestamp: 1710000000000,
+  read: false,
+};
+
+describe('useNotifications', () => {
+  beforeEach(() => {
+    (localStorage.getItem as jest.Mock).mockReturnValue(null);
+    (localStorage.removeItem as jest.Mock).mockClear();
+    mockGetNotifications.mockReset();
+    mockGetNotifications.mockResolvedValue({
+      notifications: [stored],
+      unreadCount: 1,
+    });
+    mockCreateNotification.mockReset();
+    mockImportNotifications.mockReset();
+    mockImportNotifications.mockResolvedValue(0);
+    mockMarkNotificationRead.mockReset();
+    mockMarkNotificationRead.mockResolvedValue(undefined);
+  });
+
+  it('loads notifications from the server', async () => {
+    const { result } = renderHook(() => useNotifications(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+    expect(result.current.notifications).toEqual([stored]);
+    expect(result.current.unreadCount).toBe(1);
+    expect(mockImportNotifications).not.toHaveBeenCalled();
+  });
+
+  it('moves notifications from localStorage to the server once', async () => {
+    (localStorage.getItem as jest.Mock).mockImplementation(key =>
+      key === 'recordscrobbles.notifications'
+        ? JSON.stringify({ notifications: [stored] })
+        : null
+    );
+
+    const { result } = renderHook(() => useNotifications(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+    expect(mockImportNotifications).toHaveBeenCalledWith([stored]);
+    expect(localStorage.removeItem).toHaveBeenCalledWith(
+      'recordscrobbles.notifications'
+    );
+  });
+
+  it('adds created notifications to the list', async () => {
+    const created = { ...stored, id: 'n2', title: 'Synced' };
+    mockCreateNotification.mockResolvedValue(created);
+    const { result } = renderHook(() => useNotifications(), { wrapper });
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+    await act(async () => {
+      result.current.addNotification({
+        type: 'info',
+        title: 'Synced',
+        message: 'Found 2 new items',
+      });
+    });
+
+    expect(result.current.notifications.map(n => n.id)).toEqual(['n2', 'n1']);
+  });
+
+  it('marks a notification as read straight away', async () => {
+    const { result } = renderHook(() => useNotifications(), { wrapper });
+    await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+    act(() => {
+      result.current.markAsRead('n1');
+    });
+
+    expect(result.current.unreadCount).toBe(0);
+    expect(mockMarkNotificationRead).toHaveBeenCalledWith('n1');
+  });
+});
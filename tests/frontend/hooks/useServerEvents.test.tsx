@@ -0,0 +1,155 @@
+import { act, renderHook } from '@testing-library/react';
+import React, { ReactNode } from 'react';
+
+import { AppProvider } from '../../../src/renderer/context/AppContext';
+import { useServerEvent } from '../../../src/renderer/hooks/useServerEvents';
+import { ACTIVE_PROFILE_STORAGE_KEY } from '../../../src/renderer/utils/profileUtils';
+import { ServerEvent } from '../../../src/shared/types';
+
+class FakeEventSource {
+  static CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+
+  readyState = 0;
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(event: ServerEvent) {
+    this.onmessage?.({ data: JSON.stringify(event) });
+  }
+}
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AppProvider>{children}</AppProvider>
+);
+
+const notification: ServerEvent = {
+  type: 'notification',
+  notification: {
+    id: 'n-1',
+    type: 'info',
+    title: 'Hello',
+    message: 'World',
+    timestamp: 1,
+    read: false,
+  },
+};
+
+describe('useServerEvent', () => {
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    (localStorage.getItem as jest.Mock).mockReturnValue(null);
+    (global as unknown as { EventSource: unknown }).EventSource =
+      FakeEventSource;
+  });
+
+  afterEach(() => {
+    delete (global as unknown as { EventSource?: unknown }).EventSource;
+  });
+
+  it('delivers events of the requested type only', () => {
+    // Arrange
+    const handler = jest.fn();
+    renderHook(() => useServerEvent('notification', handler), { wrapper });
+    const source = FakeEventSource.instances[0];
+
+    // Act
+    act(() => {
+      source.emit({ type: 'embedding-progress', progress: null });
+      source.emit(notification);
+    });
+
+    // Assert
+    expect(source.url).toMatch(/\/api\/v1\/events$/);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(notification);
+  });
+
+  it('connects to the stream of the active profile', () => {
+    // Arrange
+    (localStorage.getItem as jest.Mock).mockImplementation(key =>
+      key === ACTIVE_PROFILE_STORAGE_KEY ? 'sam' : null
+    );
+
+    // Act
+    renderHook(() => useServerEvent('notification', jest.fn()), { wrapper });
+
+    // Assert
+    expect(FakeEventSource.instances[0].url).toMatch(
+      /\/api\/v1\/events\?profile=sam$/
+    );
+  });
+
+  it('reports connection state', () => {
+    // Arrange
+    const { result } = renderHook(
+      () => useServerEvent('notification', jest.fn()),
+      { wrapper }
+    );
+    const source = FakeEventSource.instances[0];
+    expect(result.current).toBe(false);
+
+    // Act & Assert
+    act(() => source.onopen?.());
+    expect(result.current).toBe(true);
+    act(() => source.onerror?.());
+    expect(result.current).toBe(false);
+  });
+
+  it('shares one connection and closes it with the last listener', () => {
+    // Arrange
+    const first = renderHook(() => useServerEvent('job', jest.fn()), {
+      wrapper,
+    });
+    const second = renderHook(() => useServerEvent('notification', jest.fn()), {
+      wrapper,
+    });
+    expect(FakeEventSource.instances).toHaveLength(1);
+    const source = FakeEventSource.instances[0];
+
+    // Act & Assert
+    first.unmount();
+    expect(source.closed).toBe(false);
+    second.unmount();
+    expect(source.closed).toBe(true);
+  });
+
+  it('ignores malformed messages', () => {
+    // Arrange
+    const handler = jest.fn();
+    renderHook(() => useServerEvent('notification', handler), { wrapper });
+
+    // Act
+    act(() => {
+      FakeEventSource.instances[0].onmessage?.({ data: 'not json' });
+    });
+
+    // Assert
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without EventSource support', () => {
+    // Arrange
+    delete (global as unknown as { EventSource?: unknown }).EventSource;
+
+    // Act
+    const { result } = renderHook(
+      () => useServerEvent('notification', jest.fn()),
+      { wrapper }
+    );
+
+    // Assert
+    expect(result.current).toBe(false);
+    expect(FakeEventSource.instances).toHaveLength(0);
+  });
+});
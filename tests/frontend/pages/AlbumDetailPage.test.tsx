@@ -5,7 +5,10 @@ import React from 'react';
 import '@testing-library/jest-dom';
 import AlbumDetailPage from '../../../src/renderer/pages/AlbumDetailPage';
 import { statsApi } from '../../../src/renderer/services/statsApi';
-import { AlbumDetailResponse } from '../../../src/shared/types';
+import {
+  AlbumDetailResponse,
+  ShelfLocationEntry,
+} from '../../../src/shared/types';
 
 // Mock recharts to avoid rendering issues in jsdom (used by AlbumListeningArc)
 jest.mock('recharts', () => ({
@@ -22,11 +25,12 @@ jest.mock('recharts', () => ({
   Tooltip: () => <div data-testid='tooltip' />,
 }));
 
-// Mock statsApi (both methods that the page transitively uses)
+// Mock statsApi (the methods that the page transitively uses)
 jest.mock('../../../src/renderer/services/statsApi', () => ({
   statsApi: {
     getAlbumDetail: jest.fn(),
     getAlbumListeningArc: jest.fn(),
+    getListeningSessions: jest.fn(),
   },
   imagesApi: {},
 }));
@@ -37,6 +41,15 @@ jest.mock('../../../src/renderer/utils/spotifyUtils', () => ({
   playTrackOnSpotify: jest.fn(),
 }));
 
+// Mock shelf locations (the hook needs the app and auth contexts)
+const mockShelfLocations = {
+  byItemId: new Map(),
+  byReleaseId: new Map<number, ShelfLocationEntry>(),
+};
+jest.mock('../../../src/renderer/hooks/useShelfLocations', () => ({
+  useShelfLocations: () => mockShelfLocations,
+}));
+
 const mockStatsApi = statsApi as jest.Mocked<typeof statsApi>;
 
 const baseAlbumData: AlbumDetailResponse = {
@@ -86,6 +99,18 @@ describe('AlbumDetailPage', () => {
       success: true,
       data: baseAlbumData.arc,
     });
+    mockStatsApi.getListeningSessions.mockResolvedValue({
+      success: true,
+      data: {
+        startDate: 0,
+        endDate: 0,
+        totalSessions: 0,
+        fullAlbumPlays: 0,
+        partialPlays: 0,
+        shuffles: 0,
+        days: [],
+      },
+    });
     // Reset hash so each test starts clean.
     window.location.hash = '';
   });
@@ -323,6 +348,52 @@ describe('AlbumDetailPage', () => {
     ).toBeInTheDocument();
   });
 
+  it('shows where an owned album is shelved', async () => {
+    mockShelfLocations.byReleaseId = new Map([
+      [
+        12345,
+        {
+          shelf: 'B',
+          row: '2',
+          position: 14,
+          collectionItemId: 7,
+          releaseId: 12345,
+          artist: 'Radiohead',
+          title: 'Kid A',
+          updatedAt: 1700000000000,
+        },
+      ],
+    ]);
+    mockStatsApi.getAlbumDetail.mockResolvedValue({
+      success: true,
+      data: {
+        ...baseAlbumData,
+        inCollection: true,
+        collectionReleaseId: 12345,
+      },
+    });
+    render(<AlbumDetailPage />);
+
+    expect(await screen.findByText('Shelf B, Row 2, #14')).toBeInTheDocument();
+    expect(screen.getByText(/where is it\?/i)).toBeInTheDocument();
+
+    mockShelfLocations.byReleaseId = new Map();
+  });
+
+  it('says when an owned album has no shelf location', async () => {
+    mockStatsApi.getAlbumDetail.mockResolvedValue({
+      success: true,
+      data: {
+        ...baseAlbumData,
+        inCollection: true,
+        collectionReleaseId: 12345,
+      },
+    });
+    render(<AlbumDetailPage />);
+
+    expect(await screen.findByText('Not shelved')).toBeInTheDocument();
+  });
+
   it('back button navigates to the ?from= page', async () => {
     window.location.hash = '#album?from=history';
     const user = userEvent.setup();
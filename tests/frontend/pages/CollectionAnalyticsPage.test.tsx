@@ -121,11 +121,12 @@ function createMockOverview(): CollectionAnalyticsOverview {
     },
     growth: {
       dataPoints: [
-        { period: '2020-01', added: 10, cumulative: 10 },
-        { period: '2020-06', added: 20, cumulative: 30 },
+        { period: '2020-01', added: 10, removed: 0, cumulative: 10 },
+        { period: '2020-06', added: 20, removed: 0, cumulative: 30 },
       ],
       granularity: 'month',
       totalAdded: 100,
+      totalRemoved: 0,
     },
   };
 }
@@ -147,7 +148,12 @@ function createEmptyOverview(): CollectionAnalyticsOverview {
     formats: { categories: [], totalItems: 0 },
     labels: { labels: [], totalLabels: 0, totalItems: 0 },
     decades: { decades: [], years: [], unknownYearCount: 0 },
-    growth: { dataPoints: [], granularity: 'month', totalAdded: 0 },
+    growth: {
+      dataPoints: [],
+      granularity: 'month',
+      totalAdded: 0,
+      totalRemoved: 0,
+    },
   };
 }
 
@@ -193,7 +199,7 @@ describe('CollectionAnalyticsPage', () => {
     ).toBeInTheDocument();
 
     const tabs = screen.getAllByRole('tab');
-    expect(tabs).toHaveLength(5);
+    expect(tabs).toHaveLength(6);
     tabs.forEach(tab => {
       expect(tab).toBeDisabled();
     });
@@ -314,6 +320,7 @@ describe('CollectionAnalyticsPage', () => {
     expect(screen.getByRole('tab', { name: 'Formats' })).toBeInTheDocument();
     expect(screen.getByRole('tab', { name: 'Labels' })).toBeInTheDocument();
     expect(screen.getByRole('tab', { name: 'Timeline' })).toBeInTheDocument();
+    expect(screen.getByRole('tab', { name: 'Changes' })).toBeInTheDocument();
   });
 
   it('defaults to the Overview tab', async () => {
@@ -36,6 +36,8 @@ const mockApiServiceInstance = {
   addToDiscardPile: jest.fn(),
   getUserPreferences: jest.fn(),
   updateUserPreferences: jest.fn(),
+  getCollectionFolders: jest.fn(),
+  getCollectionFields: jest.fn(),
 };
 
 // Mock the getApiService function to return our mock instance
@@ -310,6 +312,8 @@ describe('CollectionPage', () => {
       collectionPresets: [],
     });
     mockApiServiceInstance.updateUserPreferences.mockResolvedValue(undefined);
+    mockApiServiceInstance.getCollectionFolders.mockResolvedValue([]);
+    mockApiServiceInstance.getCollectionFields.mockResolvedValue([]);
   });
 
   describe('Authentication', () => {
@@ -1401,4 +1405,101 @@ describe('CollectionPage', () => {
       expect(sortSelect).toHaveValue('scrobbles');
     });
   });
+
+  describe('Folder and Custom Field Filters', () => {
+    beforeEach(() => {
+      mockApiServiceInstance.getEntireCollection.mockResolvedValue({
+        success: true,
+        data: [
+          { ...mockCollectionItems[0], folder_id: 5 },
+          {
+            ...mockCollectionItems[1],
+            folder_id: 1,
+            notes: [{ field_id: 3, value: 'Living room shelf' }],
+          },
+          { ...mockCollectionItems[2], folder_id: 5 },
+        ],
+      });
+      mockApiServiceInstance.getCollectionFolders.mockResolvedValue([
+        { id: 0, name: 'All', count: 3 },
+        { id: 1, name: 'Uncategorized', count: 1 },
+        { id: 5, name: 'Basement', count: 2 },
+      ]);
+      mockApiServiceInstance.getCollectionFields.mockResolvedValue([
+        { id: 3, name: 'Storage location', type: 'textarea', position: 1 },
+      ]);
+    });
+
+    it('filters the collection by folder', async () => {
+      renderWithProviders(<CollectionPage />);
+      await waitFor(() => {
+        expect(screen.getByText('Artist A - Album A')).toBeInTheDocument();
+      });
+
+      await userEvent.selectOptions(
+        await screen.findByLabelText('Folder:'),
+        '5'
+      );
+
+      await waitFor(() => {
+        expect(
+          screen.queryByText('Artist B - Album B')
+        ).not.toBeInTheDocument();
+      });
+      expect(screen.getByText('Artist C - Album C')).toBeInTheDocument();
+      expect(screen.getByText('Showing 2 of 3 items')).toBeInTheDocument();
+    });
+
+    it('filters the collection by custom field value', async () => {
+      renderWithProviders(<CollectionPage />);
+      await waitFor(() => {
+        expect(screen.getByText('Artist A - Album A')).toBeInTheDocument();
+      });
+
+      await userEvent.type(
+        await screen.findByLabelText('Storage location:'),
+        'living'
+      );
+
+      await waitFor(() => {
+        expect(
+          screen.queryByText('Artist A - Album A')
+        ).not.toBeInTheDocument();
+      });
+      expect(screen.getByText('Artist B - Album B')).toBeInTheDocument();
+    });
+
+    it('saves the folder in filter presets', async () => {
+      renderWithProviders(<CollectionPage />);
+      await waitFor(() => {
+        expect(screen.getByText('Artist A - Album A')).toBeInTheDocument();
+      });
+
+      await userEvent.selectOptions(
+        await screen.findByLabelText('Folder:'),
+        '5'
+      );
+      await userEvent.click(
+        screen.getByRole('button', { name: /Save as Preset/ })
+      );
+      await userEvent.type(screen.getByLabelText('Preset Name'), 'Basement');
+      expect(screen.getByText('Folder: Basement')).toBeInTheDocument();
+      await userEvent.click(
+        screen.getByRole('button', { name: 'Save Preset' })
+      );
+
+      await waitFor(() => {
+        expect(
+          mockApiServiceInstance.updateUserPreferences
+        ).toHaveBeenCalledWith({
+          collectionPresets: [
+            expect.objectContaining({
+              name: 'Basement',
+              filters: expect.objectContaining({ scope: { folderId: 5 } }),
+            }),
+          ],
+        });
+      });
+    });
+  });
 });
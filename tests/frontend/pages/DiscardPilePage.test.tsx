@@ -26,6 +26,7 @@ const mockBulkMarkDiscardItemsTradedIn = jest.fn();
 const mockRefreshDiscardPileValues = jest.fn();
 const mockGetJobStatuses = jest.fn();
 const mockGetMarketplaceStats = jest.fn();
+const mockRemoveCollectionInstance = jest.fn();
 
 jest.mock('../../../src/renderer/services/api', () => ({
   getApiService: () => ({
@@ -40,6 +41,7 @@ jest.mock('../../../src/renderer/services/api', () => ({
     refreshDiscardPileValues: mockRefreshDiscardPileValues,
     getJobStatuses: mockGetJobStatuses,
     getMarketplaceStats: mockGetMarketplaceStats,
+    removeCollectionInstance: mockRemoveCollectionInstance,
   }),
 }));
 
@@ -503,4 +505,92 @@ describe('DiscardPilePage', () => {
       ).toBeInTheDocument();
     });
   });
+
+  describe('removed status', () => {
+    const openEditAndMarkRemoved = async () => {
+      await waitFor(() => {
+        expect(screen.getByTestId('discard-item-item-1')).toBeInTheDocument();
+      });
+      await user.click(screen.getAllByText('Edit')[0]);
+      await user.selectOptions(screen.getByDisplayValue('Marked'), 'removed');
+    };
+
+    beforeEach(() => {
+      mockGetMarketplaceStats.mockResolvedValue(null);
+      mockUpdateDiscardPileItem.mockImplementation(
+        (id: string, updates: Partial<DiscardPileItem>) =>
+          Promise.resolve({ ...mockItems[0], ...updates, id })
+      );
+    });
+
+    it('offers removal from Discogs only when marking as removed', async () => {
+      renderDiscardPilePage();
+
+      await waitFor(() => {
+        expect(screen.getByTestId('discard-item-item-1')).toBeInTheDocument();
+      });
+      await user.click(screen.getAllByText('Edit')[0]);
+      expect(
+        screen.queryByLabelText('Also remove from my Discogs collection')
+      ).not.toBeInTheDocument();
+
+      await user.selectOptions(screen.getByDisplayValue('Marked'), 'removed');
+
+      expect(
+        screen.getByLabelText('Also remove from my Discogs collection')
+      ).not.toBeChecked();
+    });
+
+    it('removes the instance from Discogs before saving the status', async () => {
+      mockRemoveCollectionInstance.mockResolvedValue(undefined);
+      renderDiscardPilePage();
+
+      await openEditAndMarkRemoved();
+      await user.click(
+        screen.getByLabelText('Also remove from my Discogs collection')
+      );
+      await user.click(screen.getByText('Save Changes'));
+
+      await waitFor(() => {
+        expect(mockUpdateDiscardPileItem).toHaveBeenCalledWith(
+          'item-1',
+          expect.objectContaining({ status: 'removed' })
+        );
+      });
+      expect(mockRemoveCollectionInstance).toHaveBeenCalledWith(
+        'testuser',
+        12345
+      );
+    });
+
+    it('keeps the status when Discogs removal fails', async () => {
+      mockRemoveCollectionInstance.mockRejectedValue({
+        response: { data: { error: 'Discogs is unavailable' } },
+      });
+      renderDiscardPilePage();
+
+      await openEditAndMarkRemoved();
+      await user.click(
+        screen.getByLabelText('Also remove from my Discogs collection')
+      );
+      await user.click(screen.getByText('Save Changes'));
+
+      await waitFor(() => {
+        expect(screen.getByText(/Discogs is unavailable/)).toBeInTheDocument();
+      });
+      expect(mockUpdateDiscardPileItem).not.toHaveBeenCalled();
+    });
+
+    it('does not touch Discogs unless asked', async () => {
+      renderDiscardPilePage();
+
+      await openEditAndMarkRemoved();
+      await user.click(screen.getByText('Save Changes'));
+
+      await waitFor(() => {
+        expect(mockUpdateDiscardPileItem).toHaveBeenCalled();
+      });
+      expect(mockRemoveCollectionInstance).not.toHaveBeenCalled();
+    });
+  });
 });
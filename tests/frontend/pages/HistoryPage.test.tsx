@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import React from 'react';
@@ -57,6 +57,8 @@ const createMockApiInstance = () => ({
     collectionPresets: [],
   }),
   updateUserPreferences: jest.fn().mockResolvedValue(undefined),
+  undoScrobbleSession: jest.fn(),
+  getScrobbleUndoGuide: jest.fn(),
 });
 
 const createMockScrobbleSession = (
@@ -518,6 +520,87 @@ describe('HistoryPage', () => {
     });
   });
 
+  describe('Undo Session', () => {
+    const authStatus: AuthStatus = {
+      discogs: { authenticated: true, username: 'discogs_user' },
+      lastfm: { authenticated: true, username: 'lastfm_user' },
+    };
+
+    const guide = {
+      sessionId: 'session1',
+      username: 'lastfm_user',
+      entries: [
+        {
+          artist: 'Artist 1',
+          track: 'Track 1',
+          album: 'Album 1',
+          timestamp: 1710000000,
+          libraryUrl:
+            'https://www.last.fm/user/lastfm_user/library/music/Artist+1/_/Track+1',
+        },
+      ],
+    };
+
+    it('undoes a session after confirming and shows the Last.fm list', async () => {
+      const user = userEvent.setup();
+      mockApi.getScrobbleHistory.mockResolvedValue([
+        createMockScrobbleSession('session1', 'completed', 1),
+      ]);
+      mockApi.undoScrobbleSession.mockResolvedValue({
+        session: { ...createMockScrobbleSession('session1', 'completed', 1) },
+        playsRemoved: 1,
+        queuedCancelled: 0,
+        lastfm: guide,
+      });
+
+      renderHistoryPageWithProviders(authStatus);
+
+      await user.click(await screen.findByRole('button', { name: /Undo/ }));
+      await user.click(
+        within(await screen.findByRole('dialog')).getByRole('button', {
+          name: 'Undo',
+        })
+      );
+
+      await waitFor(() => {
+        expect(mockApi.undoScrobbleSession).toHaveBeenCalledWith('session1');
+      });
+      expect(
+        await screen.findByText('Remove Scrobbles from Last.fm')
+      ).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /Track 1/ })).toHaveAttribute(
+        'href',
+        guide.entries[0].libraryUrl
+      );
+    });
+
+    it('reopens the Last.fm list for an undone session', async () => {
+      const user = userEvent.setup();
+      mockApi.getScrobbleHistory.mockResolvedValue([
+        {
+          ...createMockScrobbleSession('session1', 'completed', 1),
+          status: 'reverted',
+          revertedAt: Date.now(),
+        },
+      ]);
+      mockApi.getScrobbleUndoGuide.mockResolvedValue(guide);
+
+      renderHistoryPageWithProviders(authStatus);
+
+      await user.click(
+        await screen.findByRole('button', { name: 'Last.fm Cleanup' })
+      );
+
+      expect(mockApi.getScrobbleUndoGuide).toHaveBeenCalledWith('session1');
+      expect(
+        await screen.findByText('Remove Scrobbles from Last.fm')
+      ).toBeInTheDocument();
+      expect(
+        screen.queryByRole('button', { name: /Resubmit/ })
+      ).not.toBeInTheDocument();
+    });
+  });
+
   describe('Date Formatting', () => {
     const authStatus: AuthStatus = {
       discogs: { authenticated: true, username: 'discogs_user' },
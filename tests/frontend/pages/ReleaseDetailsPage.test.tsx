@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import React from 'react';
 
@@ -17,6 +17,14 @@ const mockApiService = {
   getScrobbleProgress: jest.fn(),
   getReleaseDetails: jest.fn(),
   getMarketplaceStats: jest.fn().mockResolvedValue(null),
+  getSideMemory: jest.fn().mockResolvedValue(null),
+  getCollectionFolders: jest.fn().mockResolvedValue([]),
+  getCollectionFields: jest.fn().mockResolvedValue([]),
+  getCollectionInstance: jest.fn(),
+  setCollectionRating: jest.fn(),
+  getShelfLocations: jest.fn().mockResolvedValue([]),
+  setShelfLocation: jest.fn(),
+  clearShelfLocation: jest.fn(),
 };
 
 jest.mock('../../../src/renderer/services/api', () => ({
@@ -500,6 +508,35 @@ describe('ReleaseDetailsPage Side Selection', () => {
       expect(sideAButton).toHaveClass('button--outline');
     });
   });
+
+  it('should offer to continue with the side after the last one played', async () => {
+    // Arrange
+    mockLocalStorage.setItem(
+      'selectedRelease',
+      JSON.stringify(mockMultiSideRelease)
+    );
+    mockApiService.getReleaseDetails.mockResolvedValue(mockMultiSideRelease);
+    mockApiService.getSideMemory.mockResolvedValueOnce({
+      releaseId: 456,
+      sides: ['A', 'B'],
+      lastSide: 'B',
+      playedAt: 1640995200000,
+    });
+    renderWithProviders(<ReleaseDetailsPage />);
+
+    // Act
+    const continueButton = await screen.findByRole('button', {
+      name: 'Continue with side C',
+    });
+    await user.click(continueButton);
+
+    // Assert
+    expect(mockApiService.getSideMemory).toHaveBeenCalledWith(456);
+    expect(screen.getByText(/side C runs 8:15/)).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByText('Tracks (2 selected)')).toBeInTheDocument();
+    });
+  });
 });
 
 describe('ReleaseDetailsPage Error Handling and Loading States', () => {
@@ -1203,3 +1240,189 @@ describe('ReleaseDetailsPage Track Filtering and Interactions', () => {
     ).toBeInTheDocument();
   });
 });
+
+describe('ReleaseDetailsPage Collection Editing', () => {
+  const collectionItem = {
+    id: 555,
+    folder_id: 1,
+    rating: 2,
+    notes: [],
+    date_added: '2023-01-01T00:00:00-08:00',
+    release: mockRelease,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    Object.defineProperty(window, 'localStorage', {
+      value: localStorageMock,
+      writable: true,
+      configurable: true,
+    });
+
+    mockLocalStorage.clear();
+    mockLocalStorage.setItem('selectedRelease', JSON.stringify(mockRelease));
+    mockLocalStorage.setItem('selectedCollectionItemId', '555');
+    mockApiService.getReleaseDetails.mockResolvedValue(mockRelease);
+    mockApiService.getCollectionInstance.mockResolvedValue(collectionItem);
+  });
+
+  it('shows the rating of the collection instance', async () => {
+    renderWithProviders(<ReleaseDetailsPage />);
+
+    await waitFor(() => {
+      expect(
+        screen.getByRole('button', { name: 'Clear rating' })
+      ).toHaveAttribute('aria-pressed', 'true');
+    });
+    expect(mockApiService.getCollectionInstance).toHaveBeenCalledWith(
+      'testuser',
+      555
+    );
+  });
+
+  it('writes a new rating back to Discogs', async () => {
+    mockApiService.setCollectionRating.mockResolvedValue({
+      ...collectionItem,
+      rating: 4,
+    });
+    renderWithProviders(<ReleaseDetailsPage />);
+
+    const star = await screen.findByRole('button', { name: 'Rate 4 stars' });
+    fireEvent.click(star);
+
+    await waitFor(() => {
+      expect(mockApiService.setCollectionRating).toHaveBeenCalledWith(
+        'testuser',
+        555,
+        4,
+        2
+      );
+    });
+    expect(
+      await screen.findByRole('button', { name: 'Clear rating' })
+    ).toBeInTheDocument();
+  });
+
+  it('shows the Discogs rating when it changed since loading', async () => {
+    mockApiService.setCollectionRating.mockRejectedValue({
+      response: {
+        status: 409,
+        data: {
+          error: 'This record was changed on Discogs since it was loaded',
+          data: { ...collectionItem, rating: 5 },
+        },
+      },
+    });
+    renderWithProviders(<ReleaseDetailsPage />);
+
+    fireEvent.click(
+      await screen.findByRole('button', { name: 'Rate 4 stars' })
+    );
+
+    expect(
+      await screen.findByText(/This record was changed on Discogs/)
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Rate 4 stars' })
+    ).toHaveAttribute('aria-pressed', 'true');
+    expect(
+      screen.getByRole('button', { name: 'Clear rating' })
+    ).toBeInTheDocument();
+  });
+});
+
+describe('ReleaseDetailsPage Shelf Location', () => {
+  const collectionItem = {
+    id: 555,
+    folder_id: 1,
+    notes: [],
+    date_added: '2023-01-01T00:00:00-08:00',
+    release: mockRelease,
+  };
+  const entry = {
+    shelf: 'B',
+    row: '2',
+    position: 14,
+    collectionItemId: 555,
+    releaseId: 123,
+    artist: 'Test Artist',
+    title: 'Test Album',
+    updatedAt: 1700000000000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    Object.defineProperty(window, 'localStorage', {
+      value: localStorageMock,
+      writable: true,
+      configurable: true,
+    });
+
+    mockLocalStorage.clear();
+    mockLocalStorage.setItem('selectedRelease', JSON.stringify(mockRelease));
+    mockLocalStorage.setItem('selectedCollectionItemId', '555');
+    mockApiService.getReleaseDetails.mockResolvedValue(mockRelease);
+    mockApiService.getCollectionInstance.mockResolvedValue(collectionItem);
+  });
+
+  afterEach(() => {
+    mockApiService.getShelfLocations.mockResolvedValue([]);
+  });
+
+  it('fills in the saved location', async () => {
+    mockApiService.getShelfLocations.mockResolvedValue([entry]);
+    renderWithProviders(<ReleaseDetailsPage />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Shelf')).toHaveValue('B');
+    });
+    expect(screen.getByLabelText('Row')).toHaveValue('2');
+    expect(screen.getByLabelText('Position')).toHaveValue(14);
+  });
+
+  it('saves a new location', async () => {
+    mockApiService.setShelfLocation.mockResolvedValue({ entry });
+    renderWithProviders(<ReleaseDetailsPage />);
+
+    fireEvent.change(await screen.findByLabelText('Shelf'), {
+      target: { value: 'B' },
+    });
+    fireEvent.change(screen.getByLabelText('Row'), {
+      target: { value: '2' },
+    });
+    fireEvent.change(screen.getByLabelText('Position'), {
+      target: { value: '14' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(mockApiService.setShelfLocation).toHaveBeenCalledWith(
+        'testuser',
+        555,
+        { shelf: 'B', row: '2', position: 14 }
+      );
+    });
+    expect(
+      await screen.findByRole('button', { name: 'Clear' })
+    ).toBeInTheDocument();
+  });
+
+  it('warns when the location could not be written to Discogs', async () => {
+    mockApiService.setShelfLocation.mockResolvedValue({
+      entry,
+      syncError: 'Discogs is down',
+    });
+    renderWithProviders(<ReleaseDetailsPage />);
+
+    fireEvent.change(await screen.findByLabelText('Shelf'), {
+      target: { value: 'B' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(
+      await screen.findByText(/not written to Discogs: Discogs is down/)
+    ).toBeInTheDocument();
+  });
+});
@@ -67,6 +67,13 @@ const createMockApiInstance = () => ({
   getAuthStatus: jest.fn(),
   getReleaseDetails: jest.fn(),
   scrobbleBatch: jest.fn(),
+  getBackfillPresets: jest.fn(),
+  planBackfill: jest.fn(),
+  checkScrobbleConflicts: jest.fn().mockResolvedValue({
+    tracks: [],
+    conflicts: [],
+    hasConflicts: false,
+  }),
 });
 
 const createMockCollectionItem = (
@@ -530,6 +537,137 @@ describe('ScrobblePage', () => {
 
       expect(customTimeInput).toHaveValue('2023-01-01T12:00');
     });
+
+    it('warns about conflicts and shifts into a free gap', async () => {
+      const user = userEvent.setup();
+      const proposed = {
+        artist: 'The Beatles',
+        track: 'Track 1',
+        album: 'Abbey Road',
+        timestamp: 1672603200,
+      };
+      mockApi.checkScrobbleConflicts
+        .mockResolvedValueOnce({
+          tracks: [proposed],
+          conflicts: [
+            {
+              trackIndex: 0,
+              timestamp: 1672603200,
+              existing: [
+                {
+                  artist: 'radiohead',
+                  album: 'kid a',
+                  track: 'Idioteque',
+                  timestamp: 1672603260,
+                },
+              ],
+            },
+          ],
+          hasConflicts: true,
+        })
+        .mockResolvedValueOnce({
+          tracks: [proposed],
+          conflicts: [],
+          hasConflicts: true,
+          autoShift: {
+            tracks: [{ ...proposed, timestamp: 1672602600 }],
+            offsetSeconds: -600,
+          },
+        });
+
+      renderScrobblePageWithProviders(authStatus);
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('1 of 1 tracks overlap existing scrobbles')
+        ).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByText('Shift to nearest free gap'));
+
+      await waitFor(() => {
+        expect(
+          screen.getByText(/Shifted 10 min earlier to avoid existing scrobbles/)
+        ).toBeInTheDocument();
+      });
+      expect(mockApi.checkScrobbleConflicts).toHaveBeenLastCalledWith(
+        [expect.objectContaining({ track: 'Track 1' })],
+        expect.any(Number),
+        true
+      );
+    });
+
+    it('plans backfill timestamps for the selected window', async () => {
+      const user = userEvent.setup();
+      const window = {
+        label: 'Last Saturday evening',
+        start: 1672596000,
+        end: 1672617600,
+        suggestedStart: 1672603200,
+        outsideLastFmWindow: true,
+      };
+      mockApi.getBackfillPresets.mockResolvedValue([
+        {
+          id: 'last-saturday-evening',
+          request: { dayOfWeek: 6, period: 'evening' },
+          window,
+        },
+      ]);
+      mockApi.planBackfill.mockResolvedValue({
+        window,
+        albums: [
+          {
+            releaseId: 1,
+            artist: 'The Beatles',
+            album: 'Abbey Road',
+            start: 1672603200,
+            end: 1672603411,
+            tracks: [
+              {
+                artist: 'The Beatles',
+                track: 'Track 1',
+                album: 'Abbey Road',
+                timestamp: 1672603200,
+                duration: 210,
+              },
+            ],
+            unknownDurations: 0,
+          },
+        ],
+        gapBetweenAlbums: 600,
+        totalDuration: 211,
+        overflows: false,
+        skipped: [],
+      });
+
+      renderScrobblePageWithProviders(authStatus);
+
+      await waitFor(() => {
+        expect(screen.getByText('Track 1')).toBeInTheDocument();
+      });
+
+      await user.click(
+        screen.getByLabelText('Backfill into a past listening window')
+      );
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Backfill window')).toHaveValue(
+          'last-saturday-evening'
+        );
+      });
+
+      await user.click(screen.getByText('Plan Timestamps'));
+
+      await waitFor(() => {
+        expect(mockApi.planBackfill).toHaveBeenCalledWith(
+          [expect.objectContaining({ id: 1 })],
+          { dayOfWeek: 6, period: 'evening' }
+        );
+        expect(
+          screen.getByText('Last.fm rejects scrobbles older than 14 days.')
+        ).toBeInTheDocument();
+      });
+    });
   });
 
   describe('Scrobbling', () => {
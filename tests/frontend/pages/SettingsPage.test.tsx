@@ -47,7 +47,7 @@ describe('SettingsPage', () => {
     ).toBeInTheDocument();
   });
 
-  it('renders all six tabs', () => {
+  it('renders all eight tabs', () => {
     renderWithProviders(<SettingsPage />);
 
     expect(screen.getByText('Connections')).toBeInTheDocument();
@@ -55,6 +55,8 @@ describe('SettingsPage', () => {
     expect(screen.getByText('Mappings')).toBeInTheDocument();
     expect(screen.getByText('Filters')).toBeInTheDocument();
     expect(screen.getByText('Wishlist')).toBeInTheDocument();
+    expect(screen.getByText('Notifications')).toBeInTheDocument();
+    expect(screen.getByText('Schedule')).toBeInTheDocument();
     expect(screen.getByText('Backup')).toBeInTheDocument();
   });
 
@@ -134,4 +136,30 @@ describe('SettingsPage', () => {
     expect(wishlistTab).toHaveClass('active');
     expect(screen.getByText('Wishlist Settings')).toBeInTheDocument();
   });
+
+  it('can switch to Notifications tab', async () => {
+    renderWithProviders(<SettingsPage />);
+
+    const notificationsTab = screen.getByRole('tab', {
+      name: /Notifications/i,
+    });
+    await user.click(notificationsTab);
+
+    expect(notificationsTab).toHaveClass('active');
+    expect(
+      screen.getByRole('heading', { level: 3, name: 'Notifications' })
+    ).toBeInTheDocument();
+  });
+
+  it('can switch to Schedule tab', async () => {
+    renderWithProviders(<SettingsPage />);
+
+    const scheduleTab = screen.getByRole('tab', { name: /Schedule/i });
+    await user.click(scheduleTab);
+
+    expect(scheduleTab).toHaveClass('active');
+    expect(
+      screen.getByRole('heading', { level: 3, name: 'Scheduled Tasks' })
+    ).toBeInTheDocument();
+  });
 });
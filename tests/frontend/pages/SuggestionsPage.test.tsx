@@ -40,16 +40,19 @@ jest.mock('../../../src/renderer/components/SuggestionCard', () => {
   return function MockSuggestionCard({
     suggestion,
     onDismiss,
+    shelfLocation,
   }: {
     suggestion: SuggestionResult;
     onDismiss: (id: number) => void;
     showScore: boolean;
+    shelfLocation?: { shelf: string };
   }) {
     return (
       <div data-testid={`suggestion-card-${suggestion.album.id}`}>
         <span>{suggestion.album.release.artist}</span>
         <span>{suggestion.album.release.title}</span>
         <span>{suggestion.reason}</span>
+        {shelfLocation && <span>On shelf {shelfLocation.shelf}</span>}
         <button onClick={() => onDismiss(suggestion.album.id)}>Dismiss</button>
       </div>
     );
@@ -104,6 +107,23 @@ jest.mock('../../../src/renderer/components/SuggestionWeightControls', () => {
   };
 });
 
+// Mock folder and custom field definitions
+const mockScopeOptions = {
+  folders: [] as Array<{ id: number; name: string; count: number }>,
+  fields: [],
+};
+jest.mock('../../../src/renderer/hooks/useCollectionScopeOptions', () => ({
+  useCollectionScopeOptions: () => mockScopeOptions,
+}));
+
+// Mock shelf locations, shown on each suggestion
+const mockShelfLocations = {
+  byItemId: new Map([[1, { shelf: 'B', row: '2', position: 14 }]]),
+};
+jest.mock('../../../src/renderer/hooks/useShelfLocations', () => ({
+  useShelfLocations: () => mockShelfLocations,
+}));
+
 // Mock Skeleton
 jest.mock('../../../src/renderer/components/ui/Skeleton', () => ({
   AlbumCardSkeleton: ({ count }: { count: number }) => (
@@ -233,6 +253,7 @@ describe('SuggestionsPage', () => {
     mockGetSuggestionSettings.mockResolvedValue(mockSettings);
     mockGetSuggestionDefaults.mockResolvedValue(mockDefaults);
     mockGetAIStatus.mockResolvedValue({ enabled: false, connected: false });
+    mockScopeOptions.folders = [];
   });
 
   it('renders page title', async () => {
@@ -261,6 +282,20 @@ describe('SuggestionsPage', () => {
     expect(screen.getByTestId('suggestion-card-2')).toBeInTheDocument();
   });
 
+  it('passes each suggestion its shelf location', async () => {
+    renderSuggestionsPage();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('suggestion-card-1')).toHaveTextContent(
+        'On shelf B'
+      );
+    });
+
+    expect(screen.getByTestId('suggestion-card-2')).not.toHaveTextContent(
+      'On shelf'
+    );
+  });
+
   it('shows error state when API fails', async () => {
     mockGetSuggestions.mockRejectedValue(
       new Error('Failed to load suggestions')
@@ -349,6 +384,41 @@ describe('SuggestionsPage', () => {
     expect(screen.getByText('Hide Weights')).toBeInTheDocument();
   });
 
+  it('saves the selected folder and reloads suggestions', async () => {
+    mockScopeOptions.folders = [
+      { id: 0, name: 'All', count: 10 },
+      { id: 5, name: 'Living room shelf', count: 4 },
+    ];
+    mockSaveSuggestionSettings.mockResolvedValue(undefined);
+    renderSuggestionsPage();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('suggestion-card-1')).toBeInTheDocument();
+    });
+
+    await user.selectOptions(screen.getByLabelText('Folder:'), '5');
+
+    await waitFor(() => {
+      expect(mockSaveSuggestionSettings).toHaveBeenCalledWith({
+        ...mockSettings,
+        collectionScope: { folderId: 5 },
+      });
+    });
+    await waitFor(() => {
+      expect(mockGetSuggestions).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('hides the collection scope when there are no folders or fields', async () => {
+    renderSuggestionsPage();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('suggestion-card-1')).toBeInTheDocument();
+    });
+
+    expect(screen.queryByText('Suggest from:')).not.toBeInTheDocument();
+  });
+
   it('dismisses a suggestion', async () => {
     mockDismissSuggestion.mockResolvedValue(undefined);
     mockGetSuggestions.mockResolvedValueOnce(mockSuggestions);
@@ -23,10 +23,16 @@ jest.mock('../../../src/renderer/components/wrapped/WrappedSlideshow', () => {
 
 // Mock the API service
 const mockGetWrapped = jest.fn();
+const mockGetWrappedComparison = jest.fn();
+const mockExportWrappedHtml = jest.fn();
 
 jest.mock('../../../src/renderer/services/api', () => ({
   getApiService: () => ({
     getWrapped: mockGetWrapped,
+    getWrappedComparison: mockGetWrappedComparison,
+    exportWrappedHtml: mockExportWrappedHtml,
+    getWrappedCards: jest.fn(),
+    getWrappedCardImage: jest.fn(),
   }),
 }));
 
@@ -277,6 +283,63 @@ describe('WrappedPage', () => {
     });
   });
 
+  it('should offer export after exiting the slideshow', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    mockGetWrapped.mockResolvedValue(createMockWrappedData());
+    mockExportWrappedHtml.mockResolvedValue(new Blob(['<html></html>']));
+    URL.createObjectURL = jest.fn(() => 'blob:wrapped');
+    URL.revokeObjectURL = jest.fn();
+    render(<WrappedPage />);
+    await user.click(screen.getByText('This Year'));
+    await waitFor(() => {
+      expect(screen.getByTestId('wrapped-slideshow')).toBeInTheDocument();
+    });
+    await user.click(screen.getByText('Exit'));
+
+    // Act
+    await user.click(await screen.findByText('Download Web Page'));
+
+    // Assert
+    expect(screen.getByText('Share your Wrapped')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(mockExportWrappedHtml).toHaveBeenCalledWith(
+        expect.any(Number),
+        expect.any(Number),
+        true
+      );
+    });
+    expect(
+      await screen.findByText('Downloaded your Wrapped as a web page.')
+    ).toBeInTheDocument();
+  });
+
+  it('should generate a comparison when a compare mode is chosen', async () => {
+    // Arrange
+    const user = userEvent.setup();
+    const data = createMockWrappedData();
+    mockGetWrappedComparison.mockResolvedValue({
+      current: data,
+      previous: data,
+    });
+    render(<WrappedPage />);
+
+    // Act
+    await user.selectOptions(screen.getByLabelText('Compare with'), 'lastYear');
+    await user.click(screen.getByText('This Year'));
+
+    // Assert
+    await waitFor(() => {
+      expect(screen.getByTestId('wrapped-slideshow')).toBeInTheDocument();
+    });
+    expect(mockGetWrappedComparison).toHaveBeenCalledWith(
+      expect.any(Number),
+      expect.any(Number),
+      'lastYear'
+    );
+    expect(mockGetWrapped).not.toHaveBeenCalled();
+  });
+
   it('should disable buttons while loading', async () => {
     // Arrange
     const user = userEvent.setup();
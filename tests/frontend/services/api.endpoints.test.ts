@@ -39,6 +39,20 @@ const specs: EndpointSpec[] = [
     call: api => api.deleteScrobbleSession('s1'),
     expected: DATA,
   },
+  {
+    name: 'undoScrobbleSession',
+    verb: 'post',
+    url: '/scrobble/session/s1/undo',
+    call: api => api.undoScrobbleSession('s1'),
+    expected: DATA,
+  },
+  {
+    name: 'getScrobbleUndoGuide',
+    verb: 'get',
+    url: '/scrobble/session/s1/undo',
+    call: api => api.getScrobbleUndoGuide('s1'),
+    expected: DATA,
+  },
   {
     name: 'resubmitScrobbleSession',
     verb: 'post',
@@ -60,6 +74,13 @@ const specs: EndpointSpec[] = [
     call: api => api.backfillAlbumCovers('user'),
     expected: DATA,
   },
+  {
+    name: 'getSideMemory',
+    verb: 'get',
+    url: '/scrobble/side-memory/123',
+    call: api => api.getSideMemory(123),
+    expected: DATA,
+  },
 
   // Artist mappings
   {
@@ -266,6 +287,45 @@ const specs: EndpointSpec[] = [
     expected: DATA,
   },
 
+  // ListenBrainz
+  {
+    name: 'connectListenBrainz',
+    verb: 'post',
+    url: '/auth/listenbrainz/token',
+    call: api => api.connectListenBrainz('lb-token'),
+    expected: DATA,
+  },
+  {
+    name: 'setListenBrainzEnabled',
+    verb: 'patch',
+    url: '/auth/listenbrainz',
+    call: api => api.setListenBrainzEnabled(false),
+    expected: RESOLVES,
+  },
+  {
+    name: 'disconnectListenBrainz',
+    verb: 'delete',
+    url: '/auth/listenbrainz',
+    call: api => api.disconnectListenBrainz(),
+    expected: RESOLVES,
+  },
+
+  // History import
+  {
+    name: 'previewHistoryImport',
+    verb: 'post',
+    url: '/history-import/preview',
+    call: api => api.previewHistoryImport('a,b,c,1', 'lastfm-csv'),
+    expected: DATA,
+  },
+  {
+    name: 'applyHistoryImport',
+    verb: 'post',
+    url: '/history-import/import-1/apply',
+    call: api => api.applyHistoryImport('import-1'),
+    expected: DATA,
+  },
+
   // Paginated history
   {
     name: 'getAlbumHistoryPaginated',
@@ -779,13 +839,6 @@ const specs: EndpointSpec[] = [
     call: api => api.cancelSellerScan(),
     expected: DATA,
   },
-  {
-    name: 'getRateLimitState',
-    verb: 'get',
-    url: '/sellers/scan/ratelimit',
-    call: api => api.getRateLimitState(),
-    expected: DATA,
-  },
   {
     name: 'markMatchAsSeen',
     verb: 'post',
@@ -1450,6 +1503,182 @@ const specs: EndpointSpec[] = [
     call: api => api.getJobStatuses(),
     expected: DATA,
   },
+  {
+    name: 'getJob',
+    verb: 'get',
+    url: '/jobs/job%201',
+    call: api => api.getJob('job 1'),
+    expected: DATA,
+  },
+  {
+    name: 'getJobHistory',
+    verb: 'get',
+    url: '/jobs/history',
+    call: api => api.getJobHistory({ type: 'seller-scan' }),
+    expected: DATA,
+  },
+  {
+    name: 'cancelJob',
+    verb: 'post',
+    url: '/jobs/job-1/cancel',
+    call: api => api.cancelJob('job-1'),
+    expected: DATA,
+  },
+
+  // Notifications
+  {
+    name: 'getNotifications',
+    verb: 'get',
+    url: '/notifications',
+    call: api => api.getNotifications(),
+    expected: DATA,
+  },
+  {
+    name: 'createNotification',
+    verb: 'post',
+    url: '/notifications',
+    call: api =>
+      api.createNotification({ type: 'info', title: 't', message: 'm' }),
+    expected: DATA,
+  },
+  {
+    name: 'importNotifications',
+    verb: 'post',
+    url: '/notifications/import',
+    call: api => api.importNotifications([]),
+    expected: DATA,
+  },
+  {
+    name: 'markNotificationRead',
+    verb: 'patch',
+    url: '/notifications/n%201',
+    call: api => api.markNotificationRead('n 1'),
+    expected: DATA,
+  },
+  {
+    name: 'markAllNotificationsRead',
+    verb: 'post',
+    url: '/notifications/read-all',
+    call: api => api.markAllNotificationsRead(),
+    expected: RESOLVES,
+  },
+  {
+    name: 'deleteNotification',
+    verb: 'delete',
+    url: '/notifications/n1',
+    call: api => api.deleteNotification('n1'),
+    expected: RESOLVES,
+  },
+  {
+    name: 'clearNotifications',
+    verb: 'delete',
+    url: '/notifications',
+    call: api => api.clearNotifications(),
+    expected: RESOLVES,
+  },
+  {
+    name: 'getNotificationRules',
+    verb: 'get',
+    url: '/notifications/rules',
+    call: api => api.getNotificationRules(),
+    expected: DATA,
+  },
+  {
+    name: 'updateNotificationRules',
+    verb: 'put',
+    url: '/notifications/rules',
+    call: api =>
+      api.updateNotificationRules({ 'seller-match': { enabled: false } }),
+    expected: DATA,
+  },
+  {
+    name: 'getNotificationChannels',
+    verb: 'get',
+    url: '/notification-channels',
+    call: api => api.getNotificationChannels(),
+    expected: DATA,
+  },
+  {
+    name: 'createNotificationChannel',
+    verb: 'post',
+    url: '/notification-channels',
+    call: api =>
+      api.createNotificationChannel({
+        name: 'Hook',
+        enabled: true,
+        routes: [{ category: 'general' }],
+        type: 'webhook',
+        config: { url: 'https://hooks.example.com' },
+      }),
+    expected: DATA,
+  },
+  {
+    name: 'updateNotificationChannel',
+    verb: 'put',
+    url: '/notification-channels/c1',
+    call: api =>
+      api.updateNotificationChannel('c1', {
+        name: 'Hook',
+        enabled: false,
+        routes: [{ category: 'general' }],
+        type: 'webhook',
+        config: { url: 'https://hooks.example.com' },
+      }),
+    expected: DATA,
+  },
+  {
+    name: 'deleteNotificationChannel',
+    verb: 'delete',
+    url: '/notification-channels/c1',
+    call: api => api.deleteNotificationChannel('c1'),
+    expected: RESOLVES,
+  },
+  {
+    name: 'testNotificationChannel',
+    verb: 'post',
+    url: '/notification-channels/c1/test',
+    call: api => api.testNotificationChannel('c1'),
+    expected: DATA,
+  },
+
+  // Scheduler
+  {
+    name: 'getScheduler',
+    verb: 'get',
+    url: '/scheduler',
+    call: api => api.getScheduler(),
+    expected: DATA,
+  },
+  {
+    name: 'updateScheduledTask',
+    verb: 'put',
+    url: '/scheduler/tasks/seller-scan',
+    call: api => api.updateScheduledTask('seller-scan', { enabled: false }),
+    expected: DATA,
+  },
+  {
+    name: 'runScheduledTask',
+    verb: 'post',
+    url: '/scheduler/tasks/seller-scan/run',
+    call: api => api.runScheduledTask('seller-scan'),
+    expected: RESOLVES,
+  },
+  {
+    name: 'updateSchedulerSettings',
+    verb: 'put',
+    url: '/scheduler/settings',
+    call: api => api.updateSchedulerSettings({ discogsMinRemaining: 30 }),
+    expected: DATA,
+  },
+
+  // Discogs client
+  {
+    name: 'getDiscogsBudget',
+    verb: 'get',
+    url: '/discogs/budget',
+    call: api => api.getDiscogsBudget(),
+    expected: DATA,
+  },
 
   // Recommendations (return the whole response body)
   {
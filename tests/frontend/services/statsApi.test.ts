@@ -336,6 +336,62 @@ describe('statsApi', () => {
     });
   });
 
+  describe('getSourceSplits', () => {
+    it('should fetch source splits with the limit', async () => {
+      const mockData = { success: true, data: { albums: [] } };
+      mockJsonResponse(mockData);
+
+      const result = await statsApi.getSourceSplits(5);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/stats/sources/splits?limit=5')
+      );
+      expect(result).toEqual(mockData);
+    });
+
+    it('should include a date range', async () => {
+      mockJsonResponse({ success: true, data: {} });
+
+      await statsApi.getSourceSplits(20, {
+        startDate: 1704067200,
+        endDate: 1735689599,
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('&startDate=1704067200&endDate=1735689599')
+      );
+    });
+  });
+
+  describe('getListeningSessions', () => {
+    it('should fetch sessions without params by default', async () => {
+      const mockData = { success: true, data: { days: [] } };
+      mockJsonResponse(mockData);
+
+      const result = await statsApi.getListeningSessions();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/stats\/sessions$/)
+      );
+      expect(result).toEqual(mockData);
+    });
+
+    it('should include a date range and album filter', async () => {
+      mockJsonResponse({ success: true, data: {} });
+
+      await statsApi.getListeningSessions(
+        { startDate: 0, endDate: 1735689599 },
+        { artist: 'Radiohead', album: 'Kid A' }
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '/stats/sessions?startDate=0&endDate=1735689599&artist=Radiohead&album=Kid+A'
+        )
+      );
+    });
+  });
+
   describe('getTimeline', () => {
     it('should fetch timeline with defaults', async () => {
       const mockData = { success: true, data: [] };
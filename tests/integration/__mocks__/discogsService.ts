@@ -36,4 +36,8 @@ export class DiscogsService {
   async updateCacheWithNewItems(): Promise<void> {
     return;
   }
+
+  setCollectionChangeService(): void {
+    return;
+  }
 }
@@ -423,6 +423,37 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('Profiles Integration', () => {
+    it('should route requests to the profile named in the header', async () => {
+      const created = await request(app)
+        .post('/api/v1/profiles')
+        .send({ name: 'Sam' })
+        .expect(201);
+      expect(created.body.data.id).toBe('sam');
+
+      const response = await request(app)
+        .get('/api/v1/auth/status')
+        .set('X-Profile-Id', 'sam')
+        .expect(200);
+      expect(response.body.data.discogs.authenticated).toBe(false);
+
+      await request(app).delete('/api/v1/profiles/sam').expect(200);
+      await request(app)
+        .get('/api/v1/auth/status')
+        .set('X-Profile-Id', 'sam')
+        .expect(404);
+    });
+
+    it('should return 404 for an unknown profile', async () => {
+      const response = await request(app)
+        .get('/api/v1/auth/status')
+        .set('X-Profile-Id', 'nobody')
+        .expect(404);
+
+      expect(response.body.error).toBe('Profile not found');
+    });
+  });
+
   describe('CORS and Headers', () => {
     it('should include proper CORS headers', async () => {
       const response = await request(app)
@@ -12,6 +12,8 @@ import { AuthService } from '../../src/backend/services/authService';
 import { CollectionIndexerService } from '../../src/backend/services/collectionIndexerService';
 import { DiscogsService } from '../../src/backend/services/discogsService';
 import { EmbeddingStorageService } from '../../src/backend/services/embeddingStorageService';
+import { EventStreamService } from '../../src/backend/services/eventStreamService';
+import { JobService } from '../../src/backend/services/jobService';
 import { ProfileBuilderService } from '../../src/backend/services/profileBuilderService';
 import { FileStorage } from '../../src/backend/utils/fileStorage';
 import { createMockEmbeddingStatus } from '../fixtures/embeddingFixtures';
@@ -77,7 +79,9 @@ describe('Embeddings Routes (Integration)', () => {
           mockProfileBuilder,
           mockDiscogsService,
           mockAuthService,
-          mockFileStorage
+          mockFileStorage,
+          new JobService(new EventStreamService()),
+          new EventStreamService()
         ),
       mocks: {},
     }).app;